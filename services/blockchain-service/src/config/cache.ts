@@ -0,0 +1,61 @@
+/**
+ * Cache Configuration
+ *
+ * Keys and TTLs of the blockchain read cache. Final transactions are cached
+ * without a TTL; every other entry expires so a missed invalidation cannot
+ * serve stale data for long.
+ *
+ * @module blockchain-service/config
+ */
+
+import { ChainType, isEvmChain } from '@shield/shared/types';
+
+/**
+ * Cached read types
+ */
+export type CachedReadType = 'balance' | 'networkStatus' | 'token';
+
+/**
+ * Reads a TTL override in seconds, falling back to the default
+ */
+function readTtlSeconds(value: string | undefined, defaultSeconds: number): number {
+  const parsed = parseInt(value || '', 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : defaultSeconds;
+}
+
+/**
+ * Gets the TTL of a cached read type
+ * - balance: 30s (CACHE_BALANCE_TTL_SECONDS); also invalidated when the scanner records a transfer
+ * - networkStatus: 5s (CACHE_NETWORK_STATUS_TTL_SECONDS), about two Polygon blocks
+ * - token: 300s (CACHE_TOKEN_TTL_SECONDS); the registry rarely changes
+ */
+export function getCacheTtlSeconds(type: CachedReadType): number {
+  switch (type) {
+    case 'balance':
+      return readTtlSeconds(process.env.CACHE_BALANCE_TTL_SECONDS, 30);
+    case 'networkStatus':
+      return readTtlSeconds(process.env.CACHE_NETWORK_STATUS_TTL_SECONDS, 5);
+    case 'token':
+      return readTtlSeconds(process.env.CACHE_TOKEN_TTL_SECONDS, 300);
+  }
+}
+
+/**
+ * Normalizes an address for a cache key (EVM addresses are case-insensitive)
+ */
+function addressKey(chain: ChainType, address: string): string {
+  return isEvmChain(chain) ? address.toLowerCase() : address;
+}
+
+/**
+ * Cache keys (the store adds the service prefix)
+ */
+export const cacheKeys = {
+  balance: (chain: ChainType, address: string, symbol: string): string =>
+    `balance:${chain}:${addressKey(chain, address)}:${symbol}`,
+  networkStatus: (chain: ChainType): string => `network-status:${chain}`,
+  token: (chain: ChainType, symbol: string): string => `token:${chain}:${symbol}`,
+  transaction: (chain: ChainType, txHash: string): string => `transaction:${chain}:${txHash.toLowerCase()}`,
+  decodedTransaction: (chain: ChainType, txHash: string): string =>
+    `decoded-transaction:${chain}:${txHash.toLowerCase()}`,
+};
@@ -0,0 +1,329 @@
+/**
+ * Per-Chain Configuration
+ *
+ * Chain-specific settings shared by use cases and repositories
+ *
+ * @module blockchain-service/config
+ */
+
+import { ChainType, EVM_CHAINS, NetworkConfig, isEvmChain } from '@shield/shared/types';
+import { ConfigurationError } from '@shield/shared/errors';
+import { isNonEmptyString } from '@shield/shared/utils/guards';
+
+/**
+ * Chain family: EVM chains share one ethers client, Tron has its own
+ */
+export type ChainFamily = 'EVM' | 'TRON';
+
+/**
+ * Built-in settings of a chain (each one can be overridden per chain in the environment)
+ */
+interface ChainDefaults {
+  displayName: string;
+  nativeSymbol: string;
+  chainId: number;
+  /** Confirmations after which a transaction is considered final */
+  confirmationsRequired: number;
+  /** USDT contract (chains without a canonical USDT need {CHAIN}_USDT_CONTRACT) */
+  usdtContract?: string;
+  /** Native USDC contract issued by Circle */
+  usdcContract?: string;
+  /** Decimals of the chain's USDT and USDC contracts */
+  stablecoinDecimals: number;
+}
+
+/**
+ * Built-in chain settings
+ * - Polygon: 128 blocks (~4-5 minutes), well past typical reorg depth
+ * - Tron: 19 blocks, when the block is solidified by the super representatives
+ * - Ethereum: 64 blocks (2 epochs), when the block is finalized
+ * - Arbitrum / Base: blocks are ordered by the sequencer, a short margin covers L1 reorgs of the batch
+ * - BSC: 15 blocks, past fast finality; its Binance-Peg USDT and USDC use 18 decimals
+ */
+const CHAIN_DEFAULTS = new Map<ChainType, ChainDefaults>([
+  [ChainType.POLYGON, {
+    displayName: 'Polygon',
+    nativeSymbol: 'MATIC',
+    chainId: 137,
+    confirmationsRequired: 128,
+    usdtContract: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
+    usdcContract: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359',
+    stablecoinDecimals: 6,
+  }],
+  [ChainType.TRON, {
+    displayName: 'Tron',
+    nativeSymbol: 'TRX',
+    chainId: 728126428,
+    confirmationsRequired: 19,
+    usdtContract: 'TR7NHqjeKQxGTCi8q8ZY4pL8otSzgjLj6t',
+    usdcContract: 'TEkxiTehnzSmSe2XqrBj4w32RUN966rdz8',
+    stablecoinDecimals: 6,
+  }],
+  [ChainType.ETHEREUM, {
+    displayName: 'Ethereum',
+    nativeSymbol: 'ETH',
+    chainId: 1,
+    confirmationsRequired: 64,
+    usdtContract: '0xdAC17F958D2ee523a2206206994597C13D831ec7',
+    usdcContract: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48',
+    stablecoinDecimals: 6,
+  }],
+  [ChainType.ARBITRUM, {
+    displayName: 'Arbitrum One',
+    nativeSymbol: 'ETH',
+    chainId: 42161,
+    confirmationsRequired: 20,
+    usdtContract: '0xFd086bC7CD5C481DCC9C85ebE478A1C0b69FCbb9',
+    usdcContract: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831',
+    stablecoinDecimals: 6,
+  }],
+  [ChainType.BASE, {
+    displayName: 'Base',
+    nativeSymbol: 'ETH',
+    chainId: 8453,
+    confirmationsRequired: 10,
+    usdcContract: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913',
+    stablecoinDecimals: 6,
+  }],
+  [ChainType.BSC, {
+    displayName: 'BNB Smart Chain',
+    nativeSymbol: 'BNB',
+    chainId: 56,
+    confirmationsRequired: 15,
+    usdtContract: '0x55d398326f99059fF775485246999027B3197955',
+    usdcContract: '0x8AC76a51cc950d9822D68b83fE1Ad97B32Cd580d',
+    stablecoinDecimals: 18,
+  }],
+]);
+
+/**
+ * Gets the built-in settings of a chain
+ *
+ * @throws ConfigurationError for a chain without built-in settings
+ */
+function getChainDefaults(chain: ChainType): ChainDefaults {
+  const defaults = CHAIN_DEFAULTS.get(chain);
+  if (!defaults) {
+    throw new ConfigurationError('chain', `Unsupported chain: ${chain}`);
+  }
+  return defaults;
+}
+
+/**
+ * Reads a per-chain setting, e.g. getChainSetting(ChainType.BSC, 'RPC_URL') reads BSC_RPC_URL
+ */
+export function getChainSetting(chain: ChainType, name: string): string | undefined {
+  const value = process.env[`${chain}_${name}`];
+  return isNonEmptyString(value) ? value.trim() : undefined;
+}
+
+/**
+ * Gets the family of a chain
+ */
+export function getChainFamily(chain: ChainType): ChainFamily {
+  return isEvmChain(chain) ? 'EVM' : 'TRON';
+}
+
+/**
+ * Gets the chains this service runs: Polygon and Tron, plus each EVM chain with {CHAIN}_RPC_URL set
+ */
+export function getEnabledChains(): ChainType[] {
+  return [ChainType.POLYGON, ChainType.TRON, ...EVM_CHAINS.filter(
+    (chain) => chain !== ChainType.POLYGON && getChainSetting(chain, 'RPC_URL') !== undefined
+  )];
+}
+
+/**
+ * Checks if a chain is enabled on this service
+ */
+export function isChainEnabled(chain: ChainType): boolean {
+  return getEnabledChains().includes(chain);
+}
+
+/**
+ * Gets the chain ID of a chain
+ *
+ * Override with {CHAIN}_CHAIN_ID
+ */
+export function getChainId(chain: ChainType): number {
+  const parsed = parseInt(getChainSetting(chain, 'CHAIN_ID') || '', 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : getChainDefaults(chain).chainId;
+}
+
+/**
+ * Gets the symbol of a chain's native token (gas is paid in it)
+ */
+export function getNativeSymbol(chain: ChainType): string {
+  return getChainDefaults(chain).nativeSymbol;
+}
+
+/**
+ * Gets the display name of a chain
+ */
+export function getChainDisplayName(chain: ChainType): string {
+  return getChainDefaults(chain).displayName;
+}
+
+/**
+ * Gets the confirmations required before a transaction is final
+ *
+ * Override with {CHAIN}_CONFIRMATIONS_REQUIRED, e.g. POLYGON_CONFIRMATIONS_REQUIRED
+ */
+export function getConfirmationsRequired(chain: ChainType): number {
+  const parsed = parseInt(getChainSetting(chain, 'CONFIRMATIONS_REQUIRED') || '', 10);
+  return Number.isInteger(parsed) && parsed > 0 ? parsed : getChainDefaults(chain).confirmationsRequired;
+}
+
+/**
+ * Gets the USDT contract address of a chain
+ *
+ * Override with {CHAIN}_USDT_CONTRACT
+ *
+ * @throws ConfigurationError if the chain has no USDT contract
+ */
+export function getUsdtContractAddress(chain: ChainType): string {
+  const address = getChainSetting(chain, 'USDT_CONTRACT') || getChainDefaults(chain).usdtContract;
+
+  if (!isNonEmptyString(address)) {
+    throw new ConfigurationError(`${chain}_USDT_CONTRACT`, `No USDT contract configured for ${chain}`);
+  }
+
+  return address;
+}
+
+/**
+ * Token used when a request does not name one
+ */
+export const DEFAULT_TOKEN_SYMBOL = 'USDT';
+
+/**
+ * Token registered on a chain at startup
+ */
+export interface DefaultTokenConfig {
+  symbol: string;
+  contractAddress: string;
+  decimals: number;
+}
+
+/**
+ * Gets the tokens a chain supports out of the box (USDT and USDC where the chain has them)
+ *
+ * Override the contracts with {CHAIN}_USDT_CONTRACT / {CHAIN}_USDC_CONTRACT
+ */
+export function getDefaultTokens(chain: ChainType): DefaultTokenConfig[] {
+  const defaults = getChainDefaults(chain);
+  const contracts: Array<[string, string | undefined]> = [
+    ['USDT', getChainSetting(chain, 'USDT_CONTRACT') || defaults.usdtContract],
+    ['USDC', getChainSetting(chain, 'USDC_CONTRACT') || defaults.usdcContract],
+  ];
+
+  return contracts
+    .filter((entry): entry is [string, string] => isNonEmptyString(entry[1]))
+    .map(([symbol, contractAddress]) => ({ symbol, contractAddress, decimals: defaults.stablecoinDecimals }));
+}
+
+/**
+ * RPC endpoint of a chain
+ */
+export interface RpcEndpointConfig {
+  url: string;
+  /** Provider API key sent as a header (TronGrid only; EVM provider keys are part of the URL) */
+  apiKey?: string;
+}
+
+/**
+ * Gets the RPC endpoints of a chain, in order of preference
+ *
+ * {CHAIN}_RPC_URL (e.g. POLYGON_RPC_URL) accepts a single URL, a comma-separated list,
+ * or a JSON array of URLs or `{ "url": ..., "apiKey": ... }` objects.
+ *
+ * @throws ConfigurationError if no endpoint is configured or the JSON list is invalid
+ */
+export function getRpcEndpoints(chain: ChainType): RpcEndpointConfig[] {
+  const setting = `${chain}_RPC_URL`;
+  const value = getChainSetting(chain, 'RPC_URL') || '';
+
+  let endpoints: RpcEndpointConfig[];
+  if (value.trim().startsWith('[')) {
+    try {
+      const parsed: unknown = JSON.parse(value);
+      endpoints = (Array.isArray(parsed) ? parsed : []).map((entry: unknown) =>
+        typeof entry === 'string'
+          ? { url: entry }
+          : { url: String((entry as RpcEndpointConfig)?.url ?? ''), apiKey: (entry as RpcEndpointConfig)?.apiKey }
+      );
+    } catch {
+      throw new ConfigurationError(setting, `${setting} is not a valid JSON endpoint list`);
+    }
+  } else {
+    endpoints = value.split(',').map((url) => ({ url }));
+  }
+
+  endpoints = endpoints
+    .map((endpoint) => ({ ...endpoint, url: endpoint.url.trim() }))
+    .filter((endpoint) => isNonEmptyString(endpoint.url));
+
+  if (endpoints.length === 0) {
+    throw new ConfigurationError(setting, `No RPC URL configured for ${chain}`);
+  }
+
+  return endpoints;
+}
+
+/**
+ * Gets the network configuration of a chain (rpcUrl is the preferred endpoint)
+ *
+ * @throws ConfigurationError if no RPC URL is configured or the chain has no USDT contract
+ */
+export function getNetworkConfig(chain: ChainType): NetworkConfig {
+  const [{ url: rpcUrl }] = getRpcEndpoints(chain);
+
+  return {
+    chainId: getChainId(chain),
+    rpcUrl,
+    contractAddress: getUsdtContractAddress(chain),
+    confirmationsRequired: getConfirmationsRequired(chain),
+  };
+}
+
+/**
+ * How pending transactions of a chain are watched
+ * - subscription: `eth_subscribe` to newPendingTransactions over {CHAIN}_WS_URL
+ * - txpool: polling `txpool_content` on the chain's RPC endpoints (nodes with the txpool API)
+ */
+export type MempoolSource = 'subscription' | 'txpool';
+
+/**
+ * Gets the mempool source of a chain, or null if pending transfers are not watched
+ *
+ * {CHAIN}_MEMPOOL_SOURCE selects the source explicitly; otherwise EVM chains
+ * with a {CHAIN}_WS_URL use the subscription. Tron has no public mempool API.
+ *
+ * @throws ConfigurationError for an unknown source, or a subscription without a WebSocket URL
+ */
+export function getMempoolSource(chain: ChainType): MempoolSource | null {
+  if (getChainFamily(chain) !== 'EVM') {
+    return null;
+  }
+
+  const setting = `${chain}_MEMPOOL_SOURCE`;
+  const value = getChainSetting(chain, 'MEMPOOL_SOURCE')?.toLowerCase();
+
+  if (value === undefined) {
+    return getChainSetting(chain, 'WS_URL') !== undefined ? 'subscription' : null;
+  }
+
+  if (value === 'none') {
+    return null;
+  }
+
+  if (value !== 'subscription' && value !== 'txpool') {
+    throw new ConfigurationError(setting, `${setting} must be subscription, txpool or none`);
+  }
+
+  if (value === 'subscription' && getChainSetting(chain, 'WS_URL') === undefined) {
+    throw new ConfigurationError(`${chain}_WS_URL`, `${chain}_WS_URL is required for the subscription mempool source`);
+  }
+
+  return value;
+}
@@ -20,6 +20,8 @@ export interface EnvironmentConfig {
   port: number;
   databaseUrl: string;
   authServiceUrl: string;
+  walletServiceUrl: string;
+  transactionServiceUrl: string;
   jwtSecret: string;
   polygonRpcUrl: string;
   polygonUsdtAddress: string;
@@ -120,6 +122,20 @@ export function initializeEnvironment(): EnvironmentConfig {
     'http://localhost:3001'
   );
 
+  const walletServiceUrl = selectEnvVar(
+    process.env.WALLET_SERVICE_URL,
+    process.env.WALLET_SERVICE_URL_DEV,
+    process.env.WALLET_SERVICE_URL_PROD,
+    'http://localhost:3002'
+  );
+
+  const transactionServiceUrl = selectEnvVar(
+    process.env.TRANSACTION_SERVICE_URL,
+    process.env.TRANSACTION_SERVICE_URL_DEV,
+    process.env.TRANSACTION_SERVICE_URL_PROD,
+    'http://localhost:3003'
+  );
+
   const jwtSecret = selectEnvVar(
     process.env.JWT_SECRET,
     process.env.JWT_SECRET_DEV,
@@ -157,6 +173,8 @@ export function initializeEnvironment(): EnvironmentConfig {
   // Set the selected values back to process.env for Prisma and other modules
   process.env.DATABASE_URL = databaseUrl;
   process.env.AUTH_SERVICE_URL = authServiceUrl;
+  process.env.WALLET_SERVICE_URL = walletServiceUrl;
+  process.env.TRANSACTION_SERVICE_URL = transactionServiceUrl;
   process.env.JWT_SECRET = jwtSecret;
   process.env.POLYGON_RPC_URL = polygonRpcUrl;
   process.env.POLYGON_USDT_ADDRESS = polygonUsdtAddress;
@@ -191,6 +209,8 @@ export function initializeEnvironment(): EnvironmentConfig {
   console.log(`✅ Environment: ${environment.toUpperCase()}`);
   console.log(`   Database: ${databaseUrl.includes('localhost') ? 'Docker (local)' : 'Supabase (cloud)'}`);
   console.log(`   Auth Service: ${authServiceUrl}`);
+  console.log(`   Wallet Service: ${walletServiceUrl}`);
+  console.log(`   Transaction Service: ${transactionServiceUrl}`);
   console.log(`   Polygon RPC: ${polygonRpcUrl}`);
   console.log(`   Tron RPC: ${tronRpcUrl}`);
 
@@ -199,6 +219,8 @@ export function initializeEnvironment(): EnvironmentConfig {
     port: parseInt(process.env.PORT || '3004', 10),
     databaseUrl,
     authServiceUrl,
+    walletServiceUrl,
+    transactionServiceUrl,
     jwtSecret,
     polygonRpcUrl,
     polygonUsdtAddress,
@@ -17,21 +17,46 @@ const swaggerDefinition: SwaggerDefinition = {
     description: `
 # Shield Blockchain Service API v1
 
-Production-ready blockchain integration service for Polygon and Tron networks.
+Production-ready blockchain integration service for EVM networks (Polygon, Ethereum, Arbitrum, Base, BSC) and Tron.
 
 ## Features
-- USDT balance checking on Polygon and Tron
+- EVM chain family: Ethereum, Arbitrum, Base and BSC are enabled by configuration (\`{CHAIN}_RPC_URL\`) and share one EVM client, fee oracle and payout flow
+- Token registry per chain with USDT and USDC; endpoints take a \`token\` symbol (default USDT)
+- Token balance checking on every enabled chain
+- Read-through cache (Redis, or in-memory without \`REDIS_URL\`) for balances, network status, tokens and final transactions; responses carry \`cached\` (\`cachedCount\` for batch balances) and balances are invalidated when the block scanner records a transfer
+- Batch balances for up to 500 addresses and 10 tokens per request (\`POST /:chain/balances\`): one Multicall3 call per 500 addresses and token on EVM chains, batched constant calls on Tron
+- Transaction decoding (\`GET /:chain/transaction/:hash?decode=true\`): method and arguments from known ABIs, every token Transfer log (batch payouts included), native value and internal calls
 - Transaction monitoring and validation
 - Wallet verification
-- Gas/energy estimation
-- Direct blockchain RPC calls
+- Gas/energy estimation (EVM chains: EIP-1559 slow/standard/fast fee tiers from eth_feeHistory; Tron: simulated energy, bandwidth and TRX burn for the sender)
+- Direct blockchain RPC calls through a pool of endpoints per chain, scored on latency, error rate and block lag with failover for reads (pool health reported on the network status endpoint)
+- Background block scanning for deposits to registered wallets (progress reported on the network status endpoint)
+- Outbound token payouts from the system wallets (internal, idempotent)
+- Replace-by-fee (speed-up / cancel) and nonce gap reconciliation for EVM payouts
+- Confirmation tracking with reorg detection: transfers are only CONFIRMED after the chain's required confirmations
+- Mempool detection of incoming token transfers on EVM chains (\`eth_subscribe\` or \`txpool_content\`), recorded as PENDING before they are mined
+- Real-time stream of transfers and balances for the user's own wallets (WebSocket, SSE fallback)
 
 ## Authentication
 All endpoints require JWT authentication via Bearer token in the Authorization header.
+The stream also accepts the token as a \`token\` query parameter, since browsers cannot set headers on WebSocket and EventSource connections.
+
+## Real-time Stream
+\`/v1/blockchain/stream\` serves WebSocket upgrades and Server-Sent Events:
+- **WebSocket**: send \`{ "action": "subscribe" | "unsubscribe", "chain": "POLYGON", "address": "0x..." }\` (or \`txHash\` instead of \`address\`, plus an optional \`id\` echoed in the reply); replies are \`subscribed\`, \`unsubscribed\` or \`error\` messages
+- **SSE**: \`GET /stream?chain=POLYGON&address=0x...&txHash=0x...\` (\`address\` and \`txHash\` may be repeated)
+
+Addresses must belong to one of the user's active wallets; transactions must be recorded transfers from or to one of them. Messages are \`{ type, data }\` (SSE: \`event: <type>\`) with types \`transfer.pending\` (seen in the mempool), \`transfer.detected\`, \`transfer.confirmations\`, \`transfer.confirmed\`, \`transfer.reversed\` and \`balance.changed\`. Connections close when the token expires (WebSocket close code 4001).
 
 ## Supported Chains
 - **POLYGON** - Polygon (MATIC) network
 - **TRON** - Tron network
+- **ETHEREUM** - Ethereum mainnet (ETH), when \`ETHEREUM_RPC_URL\` is set
+- **ARBITRUM** - Arbitrum One (ETH), when \`ARBITRUM_RPC_URL\` is set
+- **BASE** - Base (ETH), when \`BASE_RPC_URL\` is set
+- **BSC** - BNB Smart Chain (BNB), when \`BSC_RPC_URL\` is set
+
+\`GET /supported-chains\` lists the chains enabled on this service.
 
 ## API Versioning
 - Current version: **v1**
@@ -74,7 +99,7 @@ All endpoints require JWT authentication via Bearer token in the Authorization h
     schemas: {
       ChainType: {
         type: 'string',
-        enum: ['POLYGON', 'TRON'],
+        enum: ['POLYGON', 'TRON', 'ETHEREUM', 'ARBITRUM', 'BASE', 'BSC'],
         example: 'POLYGON',
       },
       BalanceResponse: {
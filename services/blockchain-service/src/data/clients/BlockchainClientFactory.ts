@@ -2,15 +2,16 @@
  * Blockchain Client Factory
  * 
  * Creates appropriate blockchain client based on chain type
+ * (one ethers client for every EVM chain, configured per chain)
  * 
  * @module blockchain-service/data/clients
  */
 
 import { ChainType, ServiceError } from '@shield/shared/types';
 import { IBlockchainClient } from '../../domain/services/IBlockchainClient';
-import { PolygonClient } from '../../polygonClient';
+import { EvmClient } from '../../evmClient';
 import { TronClient } from '../../tronClient';
-import { isNotNull } from '@shield/shared/utils/guards';
+import { getChainFamily, getChainId, getChainSetting, getNativeSymbol, getRpcEndpoints } from '../../config/chains';
 
 /**
  * Blockchain Client Factory
@@ -20,34 +21,31 @@ export class BlockchainClientFactory {
    * Creates a blockchain client for the given chain
    */
   public static create(chain: ChainType): IBlockchainClient {
-    if (chain === ChainType.POLYGON) {
-      return new PolygonClient({
-        rpcUrl: this.getRequiredEnv('POLYGON_RPC_URL'),
-        chainId: parseInt(this.getRequiredEnv('POLYGON_CHAIN_ID'), 10),
-        usdtContract: this.getRequiredEnv('POLYGON_USDT_CONTRACT'),
+    if (getChainFamily(chain) === 'EVM') {
+      const maxGasPrice = getChainSetting(chain, 'MAX_GAS_PRICE') || process.env.MAX_GAS_PRICE;
+
+      return new EvmClient({
+        chain,
+        rpcUrls: getRpcEndpoints(chain).map((endpoint) => endpoint.url),
+        chainId: getChainId(chain),
+        nativeSymbol: getNativeSymbol(chain),
+        privateKey: process.env[`SHIELD_${chain}_WALLET_PRIVATE_KEY`] || undefined,
+        gasPriceMultiplier: process.env.GAS_PRICE_MULTIPLIER ? parseFloat(process.env.GAS_PRICE_MULTIPLIER) : undefined,
+        maxGasPriceGwei: maxGasPrice ? parseInt(maxGasPrice, 10) : undefined,
       });
     }
 
     if (chain === ChainType.TRON) {
       return new TronClient({
-        rpcUrl: this.getRequiredEnv('TRON_RPC_URL'),
-        chainId: parseInt(this.getRequiredEnv('TRON_CHAIN_ID'), 10),
-        usdtContract: this.getRequiredEnv('TRON_USDT_CONTRACT'),
+        rpcEndpoints: getRpcEndpoints(ChainType.TRON),
+        chainId: getChainId(ChainType.TRON),
+        eventApiUrl: process.env.TRON_EVENT_API_URL,
+        apiKey: process.env.TRONGRID_API_KEY,
+        privateKey: process.env.SHIELD_TRON_WALLET_PRIVATE_KEY || undefined,
+        feeLimitSun: process.env.TRON_FEE_LIMIT_SUN ? parseInt(process.env.TRON_FEE_LIMIT_SUN, 10) : undefined,
       });
     }
 
     throw new ServiceError(`Unsupported chain: ${chain}`, 400);
   }
-
-  /**
-   * Gets required environment variable or throws
-   */
-  private static getRequiredEnv(key: string): string {
-    const value = process.env[key];
-    if (!isNotNull(value)) {
-      throw new ServiceError(`${key} is not configured`, 500);
-    }
-    return value;
-  }
 }
-
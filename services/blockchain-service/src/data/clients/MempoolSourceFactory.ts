@@ -0,0 +1,42 @@
+/**
+ * Mempool Source Factory
+ *
+ * Creates the mempool source configured for a chain (see getMempoolSource)
+ *
+ * @module blockchain-service/data/clients
+ */
+
+import { ChainType } from '@shield/shared/types';
+import { IMempoolSource } from '../../domain/services/IMempoolSource';
+import { WebSocketMempoolSource } from './WebSocketMempoolSource';
+import { TxpoolMempoolSource } from './TxpoolMempoolSource';
+import { getChainId, getChainSetting, getMempoolSource, getRpcEndpoints } from '../../config/chains';
+
+/**
+ * Mempool Source Factory
+ */
+export class MempoolSourceFactory {
+  /**
+   * Creates the mempool source of a chain
+   *
+   * @returns The source, or null if pending transfers are not watched on the chain
+   * @throws ConfigurationError if the chain's mempool settings are invalid
+   */
+  public static create(chain: ChainType): IMempoolSource | null {
+    const source = getMempoolSource(chain);
+
+    if (source === 'subscription') {
+      return new WebSocketMempoolSource(chain, getChainSetting(chain, 'WS_URL') as string);
+    }
+
+    if (source === 'txpool') {
+      return new TxpoolMempoolSource(
+        chain,
+        getRpcEndpoints(chain).map((endpoint) => endpoint.url),
+        getChainId(chain)
+      );
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,103 @@
+/**
+ * Pooled JSON-RPC Provider
+ *
+ * ethers provider that sends every JSON-RPC request through an RpcEndpointPool,
+ * so contracts and signers built on it get endpoint failover transparently.
+ * Reads are retried on other endpoints; transaction broadcasts are not.
+ *
+ * @module blockchain-service/data/clients
+ */
+
+import { ethers } from 'ethers';
+import { ChainType } from '@shield/shared/types';
+import { RpcEndpointPool, RpcPoolState } from './RpcEndpointPool';
+
+/**
+ * Methods that change state and must only be sent once
+ */
+const WRITE_METHODS = new Set(['eth_sendRawTransaction', 'eth_sendTransaction']);
+
+/**
+ * JSON-RPC error codes that mean the endpoint, not the request, is at fault
+ * (-32005: limit exceeded, -32603 with a rate limit message on some providers)
+ */
+const ENDPOINT_ERROR_CODES = new Set([-32005]);
+const RATE_LIMIT_MESSAGE = /rate limit|too many requests|capacity exceeded/i;
+
+/**
+ * Pooled JSON-RPC Provider
+ */
+export class PooledJsonRpcProvider extends ethers.JsonRpcApiProvider {
+  private readonly pool: RpcEndpointPool<ethers.JsonRpcProvider>;
+
+  /**
+   * @param chain - Chain served (for logs)
+   * @param urls - Endpoint URLs in order of preference
+   * @param chainId - Chain ID every endpoint must serve
+   */
+  constructor(chain: ChainType, urls: string[], chainId: number) {
+    const network = ethers.Network.from(chainId);
+    super(network, { staticNetwork: network });
+
+    this.pool = new RpcEndpointPool(
+      chain,
+      urls.map((url) => ({
+        url,
+        connection: new ethers.JsonRpcProvider(url, network, { staticNetwork: network }),
+      })),
+      async (provider) => provider.getBlockNumber()
+    );
+  }
+
+  /**
+   * Sends a request once started (no network detection: the network is static)
+   */
+  async send(method: string, params: Array<unknown> | Record<string, unknown>): Promise<unknown> {
+    this._start();
+    return super.send(method, params);
+  }
+
+  /**
+   * Sends a request (or batch) to the healthiest endpoint
+   */
+  async _send(
+    payload: ethers.JsonRpcPayload | Array<ethers.JsonRpcPayload>
+  ): Promise<Array<ethers.JsonRpcResult | ethers.JsonRpcError>> {
+    const payloads = Array.isArray(payload) ? payload : [payload];
+    const retryable = payloads.every((request) => !WRITE_METHODS.has(request.method));
+
+    return this.pool.execute(async (provider) => {
+      const results = await provider._send(payload);
+
+      // Rate limits come back as JSON-RPC errors; treat them as an endpoint failure
+      for (const result of results) {
+        if ('error' in result && this.isEndpointError(result as ethers.JsonRpcError)) {
+          throw new Error(`RPC endpoint rejected the request: ${(result as ethers.JsonRpcError).error.message}`);
+        }
+      }
+
+      return results;
+    }, retryable);
+  }
+
+  /**
+   * Checks if a JSON-RPC error comes from the endpoint (rate limit) rather than the request
+   */
+  private isEndpointError({ error }: ethers.JsonRpcError): boolean {
+    return ENDPOINT_ERROR_CODES.has(error.code) || RATE_LIMIT_MESSAGE.test(error.message ?? '');
+  }
+
+  /**
+   * Gets the health of the endpoint pool
+   */
+  getPoolState(): RpcPoolState {
+    return this.pool.getState();
+  }
+
+  /**
+   * Probes every endpoint's block height
+   */
+  async refreshPool(): Promise<void> {
+    await this.pool.refreshBlockHeights();
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * Pooled Tron HTTP Provider
+ *
+ * TronWeb HTTP provider that sends every node API request through an
+ * RpcEndpointPool, so all TronWeb calls get endpoint failover transparently.
+ * Reads are retried on other endpoints; broadcasts are not.
+ *
+ * @module blockchain-service/data/clients
+ */
+
+import TronWeb from 'tronweb';
+import { ChainType } from '@shield/shared/types';
+import { RpcEndpointPool, RpcPoolState } from './RpcEndpointPool';
+
+/**
+ * Node API paths that change state and must only be sent once
+ */
+const WRITE_PATHS = new Set(['wallet/broadcasttransaction', 'wallet/broadcasthex']);
+
+/**
+ * Request timeout per endpoint (TronWeb default)
+ */
+const REQUEST_TIMEOUT_MS = 30000;
+
+/**
+ * Tron node endpoint
+ */
+export interface TronEndpoint {
+  url: string;
+  /** TronGrid API key sent as TRON-PRO-API-KEY (optional) */
+  apiKey?: string;
+}
+
+/**
+ * Tron HTTP provider (untyped TronWeb class)
+ */
+interface TronHttpProvider {
+  host: string;
+  request(url: string, payload?: Record<string, unknown>, method?: string): Promise<unknown>;
+}
+
+/**
+ * Pooled Tron HTTP Provider
+ *
+ * Extends TronWeb's HttpProvider because TronWeb only accepts its own provider class.
+ */
+export class PooledTronHttpProvider extends TronWeb.providers.HttpProvider {
+  private readonly pool: RpcEndpointPool<TronHttpProvider>;
+
+  /**
+   * @param chain - Chain served (for logs)
+   * @param endpoints - Endpoints in order of preference
+   */
+  constructor(chain: ChainType, endpoints: TronEndpoint[]) {
+    super(endpoints[0]?.url);
+
+    this.pool = new RpcEndpointPool<TronHttpProvider>(
+      chain,
+      endpoints.map(({ url, apiKey }) => ({
+        url,
+        connection: new TronWeb.providers.HttpProvider(
+          url,
+          REQUEST_TIMEOUT_MS,
+          false,
+          false,
+          apiKey ? { 'TRON-PRO-API-KEY': apiKey } : {}
+        ),
+      })),
+      async (provider) => {
+        const block = await provider.request('wallet/getnowblock', {}, 'post') as {
+          block_header?: { raw_data?: { number?: number } };
+        };
+        return block?.block_header?.raw_data?.number ?? 0;
+      }
+    );
+  }
+
+  /**
+   * Sends a node API request to the healthiest endpoint
+   */
+  request(url: string, payload: Record<string, unknown> = {}, method: string = 'get'): Promise<unknown> {
+    const retryable = !WRITE_PATHS.has(url.replace(/^\//, ''));
+    return this.pool.execute((provider) => provider.request(url, payload, method), retryable);
+  }
+
+  /**
+   * Gets the health of the endpoint pool
+   */
+  getPoolState(): RpcPoolState {
+    return this.pool.getState();
+  }
+
+  /**
+   * Probes every endpoint's block height
+   */
+  async refreshPool(): Promise<void> {
+    await this.pool.refreshBlockHeights();
+  }
+}
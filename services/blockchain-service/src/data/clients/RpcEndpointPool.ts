@@ -0,0 +1,336 @@
+/**
+ * RPC Endpoint Pool
+ *
+ * Spreads a chain's RPC calls over several endpoints. Each endpoint is scored
+ * on latency, recent error rate and how far its block height lags the best
+ * endpoint; calls go to the healthiest one and idempotent reads are retried
+ * on the next one when an endpoint fails.
+ *
+ * Configuration:
+ * - RPC_MAX_ATTEMPTS              - Endpoints tried per read (default: 3)
+ * - RPC_MAX_BLOCK_LAG             - Blocks behind the best endpoint before an endpoint is stale (default: 5)
+ * - RPC_COOLDOWN_MS               - Time an endpoint is skipped after repeated failures (default: 30000)
+ * - RPC_HEALTH_CHECK_INTERVAL_MS  - Min delay between block height probes (default: 30000)
+ *
+ * @module blockchain-service/data/clients
+ */
+
+import { ChainType, logError, logInfo } from '@shield/shared/types';
+
+/**
+ * Outcomes kept per endpoint for the error rate
+ */
+const ERROR_WINDOW_SIZE = 20;
+
+/**
+ * Consecutive failures after which an endpoint is put in cooldown
+ */
+const COOLDOWN_AFTER_FAILURES = 3;
+
+/**
+ * Weight of the latest sample in the latency moving average
+ */
+const LATENCY_SMOOTHING = 0.3;
+
+/**
+ * Score penalty (in ms of latency) per block an endpoint lags behind
+ */
+const BLOCK_LAG_PENALTY_MS = 1000;
+
+/**
+ * Health of one endpoint as reported on the network status endpoint
+ */
+export interface RpcEndpointState {
+  /** Endpoint host (paths and query strings often carry API keys) */
+  host: string;
+  healthy: boolean;
+  /** Lower is better */
+  score: number;
+  latencyMs: number | null;
+  errorRate: number;
+  consecutiveFailures: number;
+  latestBlock: number | null;
+  blocksBehind: number | null;
+  coolingDownUntil: string | null;
+  lastError: string | null;
+}
+
+/**
+ * State of a chain's endpoint pool
+ */
+export interface RpcPoolState {
+  /** Host calls are currently routed to */
+  activeEndpoint: string;
+  healthyEndpoints: number;
+  endpoints: RpcEndpointState[];
+}
+
+/**
+ * Endpoint with the connection used to call it
+ */
+interface PooledEndpoint<T> {
+  url: string;
+  host: string;
+  connection: T;
+  latencyMs: number | null;
+  outcomes: boolean[];
+  consecutiveFailures: number;
+  latestBlock: number | null;
+  coolingDownUntil: number;
+  lastError: string | null;
+}
+
+/**
+ * RPC Endpoint Pool (one per chain)
+ */
+export class RpcEndpointPool<T> {
+  private readonly endpoints: Array<PooledEndpoint<T>>;
+  private readonly maxAttempts: number;
+  private readonly maxBlockLag: number;
+  private readonly cooldownMs: number;
+  private readonly healthCheckIntervalMs: number;
+  private lastHealthCheckAt = 0;
+  private healthCheck: Promise<void> | null = null;
+
+  /**
+   * @param chain - Chain the endpoints serve (for logs)
+   * @param endpoints - Endpoint URLs with their connections, in order of preference
+   * @param getBlockNumber - Reads an endpoint's latest block (used to detect stale endpoints)
+   */
+  constructor(
+    private readonly chain: ChainType,
+    endpoints: Array<{ url: string; connection: T }>,
+    private readonly getBlockNumber: (connection: T) => Promise<number>
+  ) {
+    if (endpoints.length === 0) {
+      throw new Error(`No RPC endpoints configured for ${chain}`);
+    }
+
+    this.endpoints = endpoints.map(({ url, connection }) => ({
+      url,
+      host: this.toHost(url),
+      connection,
+      latencyMs: null,
+      outcomes: [],
+      consecutiveFailures: 0,
+      latestBlock: null,
+      coolingDownUntil: 0,
+      lastError: null,
+    }));
+    this.maxAttempts = Math.max(1, parseInt(process.env.RPC_MAX_ATTEMPTS || '3', 10));
+    this.maxBlockLag = parseInt(process.env.RPC_MAX_BLOCK_LAG || '5', 10);
+    this.cooldownMs = parseInt(process.env.RPC_COOLDOWN_MS || '30000', 10);
+    this.healthCheckIntervalMs = parseInt(process.env.RPC_HEALTH_CHECK_INTERVAL_MS || '30000', 10);
+  }
+
+  /**
+   * Runs a call on the healthiest endpoint
+   *
+   * @param operation - Call to make with an endpoint's connection
+   * @param retryable - True for idempotent reads, which are retried on other endpoints
+   * @returns The first successful result
+   * @throws The last endpoint's error if every attempt fails
+   */
+  public async execute<R>(operation: (connection: T) => Promise<R>, retryable: boolean): Promise<R> {
+    this.scheduleHealthCheck();
+
+    const candidates = this.rank().slice(0, retryable ? this.maxAttempts : 1);
+    let lastError: unknown = null;
+
+    for (const endpoint of candidates) {
+      const startedAt = Date.now();
+      try {
+        const result = await operation(endpoint.connection);
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+        return result;
+      } catch (error) {
+        this.recordFailure(endpoint, error);
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Reads every endpoint's block height (also feeds latency and error rate)
+   */
+  public async refreshBlockHeights(): Promise<void> {
+    this.lastHealthCheckAt = Date.now();
+
+    await Promise.all(this.endpoints.map(async (endpoint) => {
+      const startedAt = Date.now();
+      try {
+        endpoint.latestBlock = await this.getBlockNumber(endpoint.connection);
+        this.recordSuccess(endpoint, Date.now() - startedAt);
+      } catch (error) {
+        this.recordFailure(endpoint, error);
+      }
+    }));
+  }
+
+  /**
+   * Gets the health of every endpoint, healthiest first
+   */
+  public getState(): RpcPoolState {
+    const highestBlock = this.getHighestBlock();
+    const endpoints = this.rank().map((endpoint) => ({
+      host: endpoint.host,
+      healthy: this.isHealthy(endpoint, highestBlock),
+      score: Math.round(this.score(endpoint, highestBlock)),
+      latencyMs: endpoint.latencyMs === null ? null : Math.round(endpoint.latencyMs),
+      errorRate: this.errorRate(endpoint),
+      consecutiveFailures: endpoint.consecutiveFailures,
+      latestBlock: endpoint.latestBlock,
+      blocksBehind: this.blocksBehind(endpoint, highestBlock),
+      coolingDownUntil: endpoint.coolingDownUntil > Date.now()
+        ? new Date(endpoint.coolingDownUntil).toISOString()
+        : null,
+      lastError: endpoint.lastError,
+    }));
+
+    return {
+      activeEndpoint: endpoints[0].host,
+      healthyEndpoints: endpoints.filter((endpoint) => endpoint.healthy).length,
+      endpoints,
+    };
+  }
+
+  /**
+   * Orders endpoints by health: healthy ones by score, then the rest as a last resort
+   */
+  private rank(): Array<PooledEndpoint<T>> {
+    const highestBlock = this.getHighestBlock();
+
+    // Array.prototype.sort is stable, so equal scores keep the configured order
+    return [...this.endpoints].sort((a, b) => {
+      const healthDiff = Number(this.isHealthy(b, highestBlock)) - Number(this.isHealthy(a, highestBlock));
+      return healthDiff !== 0 ? healthDiff : this.score(a, highestBlock) - this.score(b, highestBlock);
+    });
+  }
+
+  /**
+   * Latency weighted by error rate, plus a penalty per block behind
+   */
+  private score(endpoint: PooledEndpoint<T>, highestBlock: number | null): number {
+    const latency = endpoint.latencyMs ?? 0;
+    const lag = this.blocksBehind(endpoint, highestBlock) ?? 0;
+    return latency * (1 + 4 * this.errorRate(endpoint)) + lag * BLOCK_LAG_PENALTY_MS;
+  }
+
+  /**
+   * Checks if an endpoint is out of cooldown, mostly succeeding and not stale
+   */
+  private isHealthy(endpoint: PooledEndpoint<T>, highestBlock: number | null): boolean {
+    return endpoint.coolingDownUntil <= Date.now() &&
+      this.errorRate(endpoint) < 0.5 &&
+      (this.blocksBehind(endpoint, highestBlock) ?? 0) <= this.maxBlockLag;
+  }
+
+  /**
+   * Share of failed calls among the endpoint's recent calls
+   */
+  private errorRate(endpoint: PooledEndpoint<T>): number {
+    if (endpoint.outcomes.length === 0) {
+      return 0;
+    }
+    const failures = endpoint.outcomes.filter((succeeded) => !succeeded).length;
+    return Math.round((failures / endpoint.outcomes.length) * 100) / 100;
+  }
+
+  /**
+   * Blocks the endpoint lags behind the best endpoint (null if never probed)
+   */
+  private blocksBehind(endpoint: PooledEndpoint<T>, highestBlock: number | null): number | null {
+    return endpoint.latestBlock === null || highestBlock === null
+      ? null
+      : highestBlock - endpoint.latestBlock;
+  }
+
+  /**
+   * Highest block height seen across endpoints
+   */
+  private getHighestBlock(): number | null {
+    const heights = this.endpoints
+      .map((endpoint) => endpoint.latestBlock)
+      .filter((height): height is number => height !== null);
+    return heights.length > 0 ? Math.max(...heights) : null;
+  }
+
+  /**
+   * Records a successful call
+   */
+  private recordSuccess(endpoint: PooledEndpoint<T>, latencyMs: number): void {
+    endpoint.latencyMs = endpoint.latencyMs === null
+      ? latencyMs
+      : endpoint.latencyMs * (1 - LATENCY_SMOOTHING) + latencyMs * LATENCY_SMOOTHING;
+    endpoint.consecutiveFailures = 0;
+    this.recordOutcome(endpoint, true);
+  }
+
+  /**
+   * Records a failed call and puts the endpoint in cooldown after repeated failures
+   */
+  private recordFailure(endpoint: PooledEndpoint<T>, error: unknown): void {
+    endpoint.consecutiveFailures++;
+    endpoint.lastError = error instanceof Error ? error.message : String(error);
+    this.recordOutcome(endpoint, false);
+
+    if (endpoint.consecutiveFailures >= COOLDOWN_AFTER_FAILURES && endpoint.coolingDownUntil <= Date.now()) {
+      endpoint.coolingDownUntil = Date.now() + this.cooldownMs;
+      logError(error instanceof Error ? error : new Error(endpoint.lastError), {
+        chain: this.chain,
+        endpoint: endpoint.host,
+        consecutiveFailures: endpoint.consecutiveFailures,
+        context: 'rpc-endpoint-cooldown',
+      });
+    }
+  }
+
+  /**
+   * Appends an outcome to the endpoint's error window
+   */
+  private recordOutcome(endpoint: PooledEndpoint<T>, succeeded: boolean): void {
+    endpoint.outcomes.push(succeeded);
+    if (endpoint.outcomes.length > ERROR_WINDOW_SIZE) {
+      endpoint.outcomes.shift();
+    }
+  }
+
+  /**
+   * Starts a background block height probe if the last one is old enough
+   */
+  private scheduleHealthCheck(): void {
+    if (this.endpoints.length < 2 || this.healthCheck !== null ||
+      Date.now() - this.lastHealthCheckAt < this.healthCheckIntervalMs) {
+      return;
+    }
+
+    this.healthCheck = this.refreshBlockHeights()
+      .then(() => {
+        const state = this.getState();
+        if (state.healthyEndpoints < this.endpoints.length) {
+          logInfo('RPC endpoint pool degraded', {
+            chain: this.chain,
+            activeEndpoint: state.activeEndpoint,
+            healthyEndpoints: state.healthyEndpoints,
+            endpoints: this.endpoints.length,
+          });
+        }
+      })
+      .finally(() => {
+        this.healthCheck = null;
+      });
+  }
+
+  /**
+   * Extracts the host of an endpoint URL
+   */
+  private toHost(url: string): string {
+    try {
+      return new URL(url).host;
+    } catch {
+      return url;
+    }
+  }
+}
@@ -0,0 +1,69 @@
+/**
+ * Transaction Service Client
+ *
+ * HTTP implementation of ITransactionServiceClient backed by transaction-service
+ *
+ * @module blockchain-service/data/clients
+ */
+
+import axios from 'axios';
+import { ITransactionServiceClient } from '../../domain/services/ITransactionServiceClient';
+import { WebhookEventType } from '@shield/shared/types';
+import { ExternalServiceError } from '@shield/shared/errors';
+import { generateServiceToken } from '@shield/shared/middleware';
+
+/**
+ * Transaction Service Client
+ */
+export class TransactionServiceClient implements ITransactionServiceClient {
+  private get baseUrl(): string {
+    return process.env.TRANSACTION_SERVICE_URL || 'http://localhost:3003';
+  }
+
+  /**
+   * Emits a webhook event identified by a transaction hash
+   *
+   * @throws ExternalServiceError if transaction-service is unavailable or rejects the event
+   */
+  public async publishWebhookEvent(
+    type: WebhookEventType,
+    txHash: string,
+    data: Record<string, unknown>,
+    correlationId: string = ''
+  ): Promise<void> {
+    try {
+      await axios.post(
+        `${this.baseUrl}/v1/webhooks/internal/events`,
+        { type, txHash, data },
+        {
+          timeout: 10000, // 10 second timeout
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${generateServiceToken('blockchain-service')}`,
+            'X-Correlation-ID': correlationId,
+          },
+        }
+      );
+    } catch (error: unknown) {
+      if (axios.isAxiosError(error)) {
+        if (error.code === 'ECONNREFUSED' || error.code === 'ETIMEDOUT' || !error.response) {
+          throw new ExternalServiceError(
+            'transaction-service',
+            'Transaction service is currently unavailable. Please try again later.',
+            503,
+            { type, txHash, error: error.message }
+          );
+        }
+
+        throw new ExternalServiceError(
+          'transaction-service',
+          error.response.data?.message || error.message,
+          502,
+          { type, txHash, statusCode: error.response.status }
+        );
+      }
+
+      throw new ExternalServiceError('transaction-service', (error as Error).message, 502, { type, txHash });
+    }
+  }
+}
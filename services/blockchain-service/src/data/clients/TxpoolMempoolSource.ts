@@ -0,0 +1,129 @@
+/**
+ * Txpool Mempool Source
+ *
+ * IMempoolSource that polls `txpool_content` on the chain's RPC endpoints,
+ * for nodes that expose the txpool API but no WebSocket subscriptions.
+ * Only the executable (`pending`) part of the pool is read; a transaction is
+ * passed on the first time it appears in the pool.
+ *
+ * Configuration:
+ * - MEMPOOL_TXPOOL_POLL_INTERVAL_MS - Delay between polls (default: 2000)
+ *
+ * @module blockchain-service/data/clients
+ */
+
+import { IMempoolSource, PendingTransaction } from '../../domain/services/IMempoolSource';
+import { PooledJsonRpcProvider } from './PooledJsonRpcProvider';
+import { toPendingTransaction } from './WebSocketMempoolSource';
+import { ChainType, logError, logInfo } from '@shield/shared/types';
+import { ExternalServiceError, ensureBaseError } from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * `txpool_content` result: transactions by sender, then by nonce
+ */
+interface TxpoolContent {
+  pending?: Record<string, Record<string, unknown>>;
+}
+
+/**
+ * Txpool Mempool Source
+ */
+export class TxpoolMempoolSource implements IMempoolSource {
+  private readonly provider: PooledJsonRpcProvider;
+  private timer: NodeJS.Timeout | null = null;
+  private isPolling = false;
+  /** Hashes in the pool at the previous poll */
+  private seen = new Set<string>();
+
+  /**
+   * @param chain - Chain watched
+   * @param urls - RPC endpoint URLs in order of preference
+   * @param chainId - Chain ID every endpoint must serve
+   */
+  constructor(
+    private readonly chain: ChainType,
+    urls: string[],
+    chainId: number
+  ) {
+    this.provider = new PooledJsonRpcProvider(chain, urls, chainId);
+  }
+
+  /**
+   * Starts polling (no-op if already started)
+   */
+  public start(onTransactions: (transactions: PendingTransaction[]) => void): void {
+    if (isNotNull(this.timer)) {
+      return;
+    }
+
+    const intervalMs = parseInt(process.env.MEMPOOL_TXPOOL_POLL_INTERVAL_MS || '2000', 10);
+    this.timer = setInterval(() => {
+      void this.poll(onTransactions);
+    }, intervalMs);
+
+    logInfo('Mempool txpool polling started', { chain: this.chain, intervalMs });
+  }
+
+  /**
+   * Stops polling
+   */
+  public stop(): void {
+    if (isNotNull(this.timer)) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+
+    this.seen.clear();
+  }
+
+  /**
+   * Reads the pool and passes on the transactions not seen at the previous poll
+   */
+  private async poll(onTransactions: (transactions: PendingTransaction[]) => void): Promise<void> {
+    if (this.isPolling) {
+      return;
+    }
+
+    this.isPolling = true;
+
+    try {
+      const content = (await this.provider.send('txpool_content', [])) as TxpoolContent | null;
+      if (!isNotNull(content) || typeof content !== 'object') {
+        throw new ExternalServiceError(`${this.chain} mempool`, 'Unexpected txpool_content response', 502, {
+          chain: this.chain,
+        });
+      }
+
+      const current = new Set<string>();
+      const added: PendingTransaction[] = [];
+
+      for (const byNonce of Object.values(content.pending ?? {})) {
+        for (const raw of Object.values(byNonce ?? {})) {
+          const transaction = toPendingTransaction(raw);
+          if (!isNotNull(transaction)) {
+            continue;
+          }
+
+          current.add(transaction.hash);
+          if (!this.seen.has(transaction.hash)) {
+            added.push(transaction);
+          }
+        }
+      }
+
+      // Only the current pool is remembered, so the set never outgrows it
+      this.seen = current;
+
+      if (added.length > 0) {
+        onTransactions(added);
+      }
+    } catch (error: unknown) {
+      logError(ensureBaseError(error, { chain: this.chain, operation: 'pollTxpool' }), {
+        context: 'Mempool txpool poll failed',
+      });
+    } finally {
+      this.isPolling = false;
+    }
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * Wallet Service Client
+ *
+ * HTTP implementation of IWalletServiceClient backed by wallet-service
+ *
+ * @module blockchain-service/data/clients
+ */
+
+import axios from 'axios';
+import { ConfirmedDeposit, IWalletServiceClient } from '../../domain/services/IWalletServiceClient';
+import { ChainType } from '@shield/shared/types';
+import { ExternalServiceError } from '@shield/shared/errors';
+import { generateServiceToken } from '@shield/shared/middleware';
+
+/**
+ * Wallet Service Client
+ */
+export class WalletServiceClient implements IWalletServiceClient {
+  private get baseUrl(): string {
+    return process.env.WALLET_SERVICE_URL || 'http://localhost:3002';
+  }
+
+  /**
+   * Lists the addresses of all active wallets on a chain
+   *
+   * @throws ExternalServiceError if wallet-service is unavailable or fails
+   */
+  public async getActiveAddresses(chain: ChainType, correlationId: string = ''): Promise<string[]> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/v1/wallets/internal/addresses`, {
+        params: { chain },
+        timeout: 10000, // 10 second timeout
+        headers: {
+          Authorization: `Bearer ${generateServiceToken('blockchain-service')}`,
+          'X-Correlation-ID': correlationId,
+        },
+      });
+
+      const addresses = response.data?.data?.addresses;
+      if (!response.data?.success || !Array.isArray(addresses)) {
+        throw new ExternalServiceError('wallet-service', 'Unexpected response format', 502, { chain });
+      }
+
+      return addresses.map((address: unknown) => String(address));
+    } catch (error: unknown) {
+      throw this.toExternalServiceError(error, chain);
+    }
+  }
+
+  /**
+   * Lists the addresses of the active wallets a user owns on a chain
+   *
+   * @throws ExternalServiceError if wallet-service is unavailable or rejects the token
+   */
+  public async getUserAddresses(
+    chain: ChainType,
+    accessToken: string,
+    correlationId: string = ''
+  ): Promise<string[]> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/v1/wallets`, {
+        params: { chain, isActive: true },
+        timeout: 10000, // 10 second timeout
+        headers: {
+          Authorization: `Bearer ${accessToken}`,
+          'X-Correlation-ID': correlationId,
+        },
+      });
+
+      const wallets = response.data?.data;
+      if (!response.data?.success || !Array.isArray(wallets)) {
+        throw new ExternalServiceError('wallet-service', 'Unexpected response format', 502, { chain });
+      }
+
+      return wallets.map((wallet: { address?: unknown }) => String(wallet.address));
+    } catch (error: unknown) {
+      throw this.toExternalServiceError(error, chain);
+    }
+  }
+
+  /**
+   * Reports a confirmed transfer for deposit address reconciliation
+   *
+   * @throws ExternalServiceError if wallet-service is unavailable or fails
+   */
+  public async reportConfirmedDeposit(deposit: ConfirmedDeposit, correlationId: string = ''): Promise<void> {
+    try {
+      await axios.post(`${this.baseUrl}/v1/wallets/internal/deposits`, deposit, {
+        timeout: 10000, // 10 second timeout
+        headers: {
+          Authorization: `Bearer ${generateServiceToken('blockchain-service')}`,
+          'X-Correlation-ID': correlationId,
+        },
+      });
+    } catch (error: unknown) {
+      throw this.toExternalServiceError(error, deposit.chain);
+    }
+  }
+
+  /**
+   * Maps a failed wallet-service call to an ExternalServiceError
+   */
+  private toExternalServiceError(error: unknown, chain: ChainType): ExternalServiceError {
+    if (error instanceof ExternalServiceError) {
+      return error;
+    }
+
+    if (axios.isAxiosError(error)) {
+      if (error.code === 'ECONNREFUSED' || error.code === 'ETIMEDOUT' || !error.response) {
+        return new ExternalServiceError(
+          'wallet-service',
+          'Wallet service is currently unavailable. Please try again later.',
+          503,
+          { chain, error: error.message }
+        );
+      }
+
+      return new ExternalServiceError(
+        'wallet-service',
+        error.response.data?.message || error.message,
+        502,
+        { chain, statusCode: error.response.status }
+      );
+    }
+
+    return new ExternalServiceError('wallet-service', (error as Error).message, 502, { chain });
+  }
+}
@@ -0,0 +1,260 @@
+/**
+ * WebSocket Mempool Source
+ *
+ * IMempoolSource backed by an `eth_subscribe` subscription to
+ * newPendingTransactions over a node's WebSocket endpoint.
+ *
+ * Full transactions are requested first; nodes that only stream hashes get
+ * each transaction looked up with `eth_getTransactionByHash` on the same
+ * socket. A dropped connection is re-opened after
+ * MEMPOOL_RECONNECT_DELAY_MS (default: 5000) until the source is stopped.
+ *
+ * @module blockchain-service/data/clients
+ */
+
+import { WebSocket } from 'ws';
+import { IMempoolSource, PendingTransaction } from '../../domain/services/IMempoolSource';
+import { ChainType, logError, logInfo } from '@shield/shared/types';
+import { ExternalServiceError, ensureBaseError } from '@shield/shared/errors';
+import { isNonEmptyString, isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * What an in-flight request was sent for
+ */
+type RequestKind = 'subscribeFull' | 'subscribeHashes' | 'lookup';
+
+/**
+ * JSON-RPC response or subscription notification
+ */
+interface JsonRpcMessage {
+  id?: number;
+  method?: string;
+  params?: { subscription?: string; result?: unknown };
+  result?: unknown;
+  error?: { code: number; message: string };
+}
+
+/**
+ * Reads a pending transaction from a JSON-RPC transaction object (null if malformed)
+ */
+export function toPendingTransaction(raw: unknown): PendingTransaction | null {
+  const transaction = raw as Record<string, unknown> | null;
+  if (!isNotNull(transaction) || typeof transaction !== 'object') {
+    return null;
+  }
+
+  const { hash, from, to, nonce } = transaction;
+  if (!isNonEmptyString(hash) || !isNonEmptyString(from)) {
+    return null;
+  }
+
+  const input = transaction.input ?? transaction.data;
+
+  return {
+    hash,
+    from,
+    to: isNonEmptyString(to) ? to : null,
+    input: isNonEmptyString(input) ? input : '0x',
+    nonce: typeof nonce === 'string' && /^0x[0-9a-f]+$/i.test(nonce) ? Number(nonce) : null,
+  };
+}
+
+/**
+ * WebSocket Mempool Source
+ */
+export class WebSocketMempoolSource implements IMempoolSource {
+  private socket: WebSocket | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private onTransactions: ((transactions: PendingTransaction[]) => void) | null = null;
+  private nextRequestId = 1;
+  private readonly requests = new Map<number, RequestKind>();
+
+  /**
+   * @param chain - Chain watched (for logs)
+   * @param url - WebSocket endpoint of the node (ws:// or wss://)
+   */
+  constructor(
+    private readonly chain: ChainType,
+    private readonly url: string
+  ) {}
+
+  /**
+   * Opens the connection and subscribes (no-op if already started)
+   */
+  public start(onTransactions: (transactions: PendingTransaction[]) => void): void {
+    if (isNotNull(this.onTransactions)) {
+      return;
+    }
+
+    this.onTransactions = onTransactions;
+    this.connect();
+  }
+
+  /**
+   * Closes the connection; it is not re-opened
+   */
+  public stop(): void {
+    this.onTransactions = null;
+
+    if (isNotNull(this.reconnectTimer)) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+
+    if (isNotNull(this.socket)) {
+      const socket = this.socket;
+      this.socket = null;
+      socket.close();
+    }
+
+    this.requests.clear();
+  }
+
+  /**
+   * Opens the socket and subscribes to full pending transactions
+   */
+  private connect(): void {
+    const socket = new WebSocket(this.url);
+    this.socket = socket;
+
+    socket.on('open', () => {
+      this.send('eth_subscribe', ['newPendingTransactions', true], 'subscribeFull');
+    });
+
+    socket.on('message', (data) => this.handleMessage(data.toString()));
+
+    // A close event always follows; reconnecting is handled there
+    socket.on('error', (error: Error) => {
+      logError(
+        new ExternalServiceError(`${this.chain} mempool`, error.message, 502, { chain: this.chain }),
+        { context: 'Mempool WebSocket error' }
+      );
+    });
+
+    socket.on('close', () => {
+      if (this.socket !== socket) {
+        return;
+      }
+
+      this.socket = null;
+      this.requests.clear();
+      this.scheduleReconnect();
+    });
+  }
+
+  /**
+   * Re-opens the connection after a delay, unless the source was stopped
+   */
+  private scheduleReconnect(): void {
+    if (!isNotNull(this.onTransactions) || isNotNull(this.reconnectTimer)) {
+      return;
+    }
+
+    const delayMs = parseInt(process.env.MEMPOOL_RECONNECT_DELAY_MS || '5000', 10);
+    logInfo('Mempool WebSocket closed, reconnecting', { chain: this.chain, delayMs });
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      if (isNotNull(this.onTransactions)) {
+        this.connect();
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Sends a JSON-RPC request on the open socket
+   */
+  private send(method: string, params: unknown[], kind: RequestKind): void {
+    if (!isNotNull(this.socket) || this.socket.readyState !== WebSocket.OPEN) {
+      return;
+    }
+
+    const id = this.nextRequestId++;
+    this.requests.set(id, kind);
+    this.socket.send(JSON.stringify({ jsonrpc: '2.0', id, method, params }));
+  }
+
+  /**
+   * Handles a response or a subscription notification
+   */
+  private handleMessage(data: string): void {
+    let message: JsonRpcMessage;
+    try {
+      message = JSON.parse(data) as JsonRpcMessage;
+    } catch {
+      return;
+    }
+
+    if (message.method === 'eth_subscription') {
+      const result = message.params?.result;
+
+      // Nodes without full-transaction subscriptions send the hash only
+      if (typeof result === 'string') {
+        this.send('eth_getTransactionByHash', [result], 'lookup');
+      } else {
+        this.emit(result);
+      }
+      return;
+    }
+
+    if (typeof message.id !== 'number') {
+      return;
+    }
+
+    const kind = this.requests.get(message.id);
+    this.requests.delete(message.id);
+
+    if (kind === 'lookup') {
+      // Null once the transaction was mined or dropped in the meantime
+      this.emit(message.result);
+      return;
+    }
+
+    if (!message.error) {
+      if (kind === 'subscribeFull' || kind === 'subscribeHashes') {
+        logInfo('Mempool subscription started', {
+          chain: this.chain,
+          fullTransactions: kind === 'subscribeFull',
+        });
+      }
+      return;
+    }
+
+    if (kind === 'subscribeFull') {
+      this.send('eth_subscribe', ['newPendingTransactions'], 'subscribeHashes');
+      return;
+    }
+
+    if (kind === 'subscribeHashes') {
+      logError(
+        new ExternalServiceError(
+          `${this.chain} mempool`,
+          `Pending transaction subscription rejected: ${message.error.message}`,
+          502,
+          { chain: this.chain }
+        ),
+        { context: 'Mempool subscription failed' }
+      );
+      // Closing triggers a reconnect, so a node that recovers is picked up again
+      this.socket?.close();
+    }
+  }
+
+  /**
+   * Passes a transaction to the listener
+   */
+  private emit(raw: unknown): void {
+    const transaction = toPendingTransaction(raw);
+    if (!isNotNull(transaction) || !isNotNull(this.onTransactions)) {
+      return;
+    }
+
+    try {
+      this.onTransactions([transaction]);
+    } catch (error: unknown) {
+      logError(ensureBaseError(error, { chain: this.chain, txHash: transaction.hash }), {
+        context: 'Mempool listener failed',
+      });
+    }
+  }
+}
@@ -0,0 +1,182 @@
+/**
+ * Blockchain Transaction Repository Implementation
+ *
+ * Prisma-based implementation of IBlockchainTransactionRepository
+ *
+ * @module blockchain-service/data/repositories
+ */
+
+import {
+  BlockchainTransaction as BlockchainTransactionData,
+  Prisma,
+  PrismaClient,
+} from '@prisma/client';
+import {
+  BlockchainTransaction,
+  BlockchainTxStatus,
+} from '../../domain/entities/BlockchainTransaction';
+import { IBlockchainTransactionRepository } from '../../domain/repositories/IBlockchainTransactionRepository';
+import { ChainType } from '@shield/shared/types';
+import { DatabaseConnection } from '@shield/shared/database/DatabaseConnection';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Blockchain Transaction Repository Implementation
+ */
+export class BlockchainTransactionRepository implements IBlockchainTransactionRepository {
+  private get prisma(): PrismaClient {
+    return DatabaseConnection.getInstance().getClient();
+  }
+
+  /**
+   * Finds a transaction by its on-chain hash (its first Transfer log if it has several)
+   */
+  public async findByTxHash(txHash: string): Promise<BlockchainTransaction | null> {
+    const transactionData = await this.prisma.blockchainTransaction.findFirst({
+      where: { txHash },
+      orderBy: { logIndex: { sort: 'asc', nulls: 'last' } },
+    });
+
+    return isNotNull(transactionData) ? this.toDomain(transactionData) : null;
+  }
+
+  /**
+   * Finds PENDING transactions of a chain, lowest block first (unmined ones last)
+   */
+  public async findPendingByChain(chain: ChainType, limit: number): Promise<BlockchainTransaction[]> {
+    const transactionsData = await this.prisma.blockchainTransaction.findMany({
+      where: { chain, status: BlockchainTxStatus.PENDING },
+      orderBy: [{ blockNumber: 'asc' }, { createdAt: 'asc' }],
+      take: limit,
+    });
+
+    return transactionsData.map((transactionData) => this.toDomain(transactionData));
+  }
+
+  /**
+   * Finds CONFIRMED transfers of a chain not yet reported to wallet-service, oldest first
+   */
+  public async findUnreportedDeposits(chain: ChainType, limit: number): Promise<BlockchainTransaction[]> {
+    const transactionsData = await this.prisma.blockchainTransaction.findMany({
+      where: { chain, status: BlockchainTxStatus.CONFIRMED, depositReportedAt: null },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+
+    return transactionsData.map((transactionData) => this.toDomain(transactionData));
+  }
+
+  /**
+   * Records that a confirmed transfer was reported to wallet-service
+   */
+  public async markDepositReported(id: string): Promise<void> {
+    await this.prisma.blockchainTransaction.update({
+      where: { id },
+      data: { depositReportedAt: new Date() },
+    });
+  }
+
+  /**
+   * Inserts or updates a transaction, keyed by txHash and logIndex
+   *
+   * A row stored before its log was seen (logIndex null) is taken over by the
+   * first log of the same transaction with the same amount.
+   */
+  public async save(transaction: BlockchainTransaction): Promise<BlockchainTransaction> {
+    const blockNumber = isNotNull(transaction.blockNumber) ? BigInt(transaction.blockNumber) : null;
+    const energyUsed = isNotNull(transaction.energyUsed) ? BigInt(transaction.energyUsed) : null;
+    const rawData = isNotNull(transaction.rawData)
+      ? (transaction.rawData as Prisma.InputJsonValue)
+      : undefined;
+
+    const existing = await this.prisma.blockchainTransaction.findFirst({
+      where: isNotNull(transaction.logIndex)
+        ? {
+            txHash: transaction.txHash,
+            OR: [
+              { logIndex: transaction.logIndex },
+              { logIndex: null, amount: transaction.amount },
+            ],
+          }
+        : { txHash: transaction.txHash, logIndex: null },
+      // The log's own row wins over a placeholder
+      orderBy: { logIndex: { sort: 'asc', nulls: 'last' } },
+      select: { id: true },
+    });
+
+    if (!isNotNull(existing)) {
+      const transactionData = await this.prisma.blockchainTransaction.create({
+        data: {
+          id: transaction.id,
+          txHash: transaction.txHash,
+          logIndex: transaction.logIndex,
+          chain: transaction.chain,
+          fromAddress: transaction.fromAddress,
+          toAddress: transaction.toAddress,
+          tokenAddress: transaction.tokenAddress,
+          amount: transaction.amount,
+          amountUSDT: transaction.amountUSDT,
+          blockNumber,
+          blockHash: transaction.blockHash,
+          confirmations: transaction.confirmations,
+          status: transaction.status,
+          gasUsed: transaction.gasUsed,
+          gasPrice: transaction.gasPrice,
+          energyUsed,
+          blockTimestamp: transaction.blockTimestamp,
+          rawData,
+        },
+      });
+
+      return this.toDomain(transactionData);
+    }
+
+    const transactionData = await this.prisma.blockchainTransaction.update({
+      where: { id: existing.id },
+      // Transfer details never change once observed; only chain state is refreshed,
+      // and values the caller did not observe (null) keep what is already stored
+      data: {
+        logIndex: transaction.logIndex ?? undefined,
+        confirmations: transaction.confirmations,
+        status: transaction.status,
+        blockNumber: blockNumber ?? undefined,
+        blockHash: transaction.blockHash ?? undefined,
+        gasUsed: transaction.gasUsed ?? undefined,
+        gasPrice: transaction.gasPrice ?? undefined,
+        energyUsed: energyUsed ?? undefined,
+        blockTimestamp: transaction.blockTimestamp ?? undefined,
+        rawData,
+      },
+    });
+
+    return this.toDomain(transactionData);
+  }
+
+  /**
+   * Maps a Prisma row to the domain entity (BigInt columns become numbers)
+   */
+  private toDomain(transactionData: BlockchainTransactionData): BlockchainTransaction {
+    return BlockchainTransaction.fromPersistence({
+      id: transactionData.id,
+      txHash: transactionData.txHash,
+      logIndex: transactionData.logIndex,
+      chain: transactionData.chain as ChainType,
+      fromAddress: transactionData.fromAddress,
+      toAddress: transactionData.toAddress,
+      tokenAddress: transactionData.tokenAddress,
+      amount: transactionData.amount,
+      amountUSDT: transactionData.amountUSDT,
+      blockNumber: isNotNull(transactionData.blockNumber) ? Number(transactionData.blockNumber) : null,
+      blockHash: transactionData.blockHash,
+      confirmations: transactionData.confirmations,
+      status: transactionData.status as BlockchainTxStatus,
+      gasUsed: transactionData.gasUsed,
+      gasPrice: transactionData.gasPrice,
+      energyUsed: isNotNull(transactionData.energyUsed) ? Number(transactionData.energyUsed) : null,
+      blockTimestamp: transactionData.blockTimestamp,
+      rawData: transactionData.rawData as Record<string, unknown> | null,
+      createdAt: transactionData.createdAt,
+      updatedAt: transactionData.updatedAt,
+    });
+  }
+}
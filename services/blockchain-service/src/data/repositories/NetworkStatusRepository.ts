@@ -0,0 +1,105 @@
+/**
+ * Network Status Repository Implementation
+ *
+ * Prisma-based implementation of INetworkStatusRepository
+ *
+ * @module blockchain-service/data/repositories
+ */
+
+import { NetworkStatus as NetworkStatusData, PrismaClient } from '@prisma/client';
+import {
+  INetworkStatusRepository,
+  NetworkStatusRecord,
+  NetworkSyncUpdate,
+} from '../../domain/repositories/INetworkStatusRepository';
+import { ChainType } from '@shield/shared/types';
+import { DatabaseConnection } from '@shield/shared/database/DatabaseConnection';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Network Status Repository Implementation
+ */
+export class NetworkStatusRepository implements INetworkStatusRepository {
+  private get prisma(): PrismaClient {
+    return DatabaseConnection.getInstance().getClient();
+  }
+
+  /**
+   * Finds the sync state of a chain
+   */
+  public async findByChain(chain: ChainType): Promise<NetworkStatusRecord | null> {
+    const statusData = await this.prisma.networkStatus.findUnique({
+      where: { chain },
+    });
+
+    return isNotNull(statusData) ? this.toRecord(statusData) : null;
+  }
+
+  /**
+   * Records the result of polling a chain
+   */
+  public async recordSync(
+    chain: ChainType,
+    update: NetworkSyncUpdate
+  ): Promise<NetworkStatusRecord | null> {
+    if (!update.isHealthy) {
+      // An unreachable node reports block 0; keep the last known state
+      await this.prisma.networkStatus.updateMany({
+        where: { chain },
+        data: { isHealthy: false },
+      });
+      return this.findByChain(chain);
+    }
+
+    const latestBlock = BigInt(update.latestBlock);
+    // Prisma skips undefined fields, so fees the caller did not poll keep their stored value
+    const syncState = {
+      latestBlock,
+      isHealthy: true,
+      currentGasPrice: update.currentGasPrice,
+      currentEnergyPrice: isNotNull(update.currentEnergyPrice)
+        ? BigInt(update.currentEnergyPrice)
+        : update.currentEnergyPrice,
+      lastSyncAt: new Date(),
+    };
+
+    const statusData = await this.prisma.networkStatus.upsert({
+      where: { chain },
+      create: {
+        chain,
+        lastProcessedBlock: latestBlock,
+        ...syncState,
+      },
+      update: syncState,
+    });
+
+    return this.toRecord(statusData);
+  }
+
+  /**
+   * Advances the scanner checkpoint
+   */
+  public async recordProcessedBlock(chain: ChainType, blockNumber: number): Promise<void> {
+    await this.prisma.networkStatus.update({
+      where: { chain },
+      data: { lastProcessedBlock: BigInt(blockNumber) },
+    });
+  }
+
+  /**
+   * Maps a Prisma row to a record (BigInt columns become numbers)
+   */
+  private toRecord(statusData: NetworkStatusData): NetworkStatusRecord {
+    return {
+      chain: statusData.chain as ChainType,
+      latestBlock: Number(statusData.latestBlock),
+      lastProcessedBlock: Number(statusData.lastProcessedBlock),
+      isHealthy: statusData.isHealthy,
+      currentGasPrice: statusData.currentGasPrice,
+      currentEnergyPrice: isNotNull(statusData.currentEnergyPrice)
+        ? Number(statusData.currentEnergyPrice)
+        : null,
+      lastSyncAt: statusData.lastSyncAt,
+    };
+  }
+}
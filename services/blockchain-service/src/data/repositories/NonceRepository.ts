@@ -0,0 +1,95 @@
+/**
+ * Nonce Repository Implementation
+ *
+ * Prisma-based implementation of INonceRepository. Each address has one
+ * NonceState row; reservations lock it with SELECT ... FOR UPDATE inside a
+ * transaction, so workers in different processes never share a nonce.
+ *
+ * @module blockchain-service/data/repositories
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import { INonceRepository } from '../../domain/repositories/INonceRepository';
+import { ChainType } from '@shield/shared/types';
+import { DatabaseConnection } from '@shield/shared/database/DatabaseConnection';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Nonce Repository Implementation
+ */
+export class NonceRepository implements INonceRepository {
+  private get prisma(): PrismaClient {
+    return DatabaseConnection.getInstance().getClient();
+  }
+
+  /**
+   * Reserves the next nonce of an address under a row lock
+   */
+  public async reserve(chain: ChainType, address: string, networkNonce: number): Promise<number> {
+    return DatabaseConnection.getInstance().transaction(async (tx) => {
+      const nextNonce = await this.lockNextNonce(tx, chain, address, networkNonce);
+      const nonce = Math.max(nextNonce, networkNonce);
+
+      await tx.nonceState.update({
+        where: { 'chain_address': { chain, address } },
+        data: { nextNonce: nonce + 1 },
+      });
+
+      return nonce;
+    });
+  }
+
+  /**
+   * Hands a nonce back if it is the most recent reservation
+   */
+  public async release(chain: ChainType, address: string, nonce: number): Promise<boolean> {
+    return DatabaseConnection.getInstance().transaction(async (tx) => {
+      const nextNonce = await this.lockNextNonce(tx, chain, address, nonce);
+      if (nextNonce !== nonce + 1) {
+        return false;
+      }
+
+      await tx.nonceState.update({
+        where: { 'chain_address': { chain, address } },
+        data: { nextNonce: nonce },
+      });
+
+      return true;
+    });
+  }
+
+  /**
+   * Gets the next nonce that would be reserved
+   */
+  public async getNextNonce(chain: ChainType, address: string): Promise<number | null> {
+    const state = await this.prisma.nonceState.findUnique({
+      where: { 'chain_address': { chain, address } },
+    });
+
+    return isNotNull(state) ? state.nextNonce : null;
+  }
+
+  /**
+   * Creates the address row if missing, then locks it until the transaction ends
+   */
+  private async lockNextNonce(
+    tx: Prisma.TransactionClient,
+    chain: ChainType,
+    address: string,
+    initialNonce: number
+  ): Promise<number> {
+    await tx.nonceState.upsert({
+      where: { 'chain_address': { chain, address } },
+      create: { chain, address, nextNonce: initialNonce },
+      update: {},
+    });
+
+    const rows: Array<{ nextNonce: number }> = await tx.$queryRaw`
+      SELECT next_nonce AS "nextNonce" FROM nonce_states
+      WHERE chain = ${chain}::"ChainType" AND address = ${address}
+      FOR UPDATE
+    `;
+
+    return rows[0].nextNonce;
+  }
+}
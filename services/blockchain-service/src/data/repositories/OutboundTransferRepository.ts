@@ -0,0 +1,171 @@
+/**
+ * Outbound Transfer Repository Implementation
+ *
+ * Prisma-based implementation of IOutboundTransferRepository
+ *
+ * @module blockchain-service/data/repositories
+ */
+
+import { OutboundTransfer as OutboundTransferData, Prisma, PrismaClient } from '@prisma/client';
+import {
+  OutboundTransfer,
+  OutboundTransferStatus,
+} from '../../domain/entities/OutboundTransfer';
+import { IOutboundTransferRepository } from '../../domain/repositories/IOutboundTransferRepository';
+import { ChainType } from '@shield/shared/types';
+import { ConflictError } from '@shield/shared/errors';
+import { DatabaseConnection } from '@shield/shared/database/DatabaseConnection';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Outbound Transfer Repository Implementation
+ */
+export class OutboundTransferRepository implements IOutboundTransferRepository {
+  private get prisma(): PrismaClient {
+    return DatabaseConnection.getInstance().getClient();
+  }
+
+  /**
+   * Finds a transfer by the caller's idempotency key
+   */
+  public async findByIdempotencyKey(idempotencyKey: string): Promise<OutboundTransfer | null> {
+    const transferData = await this.prisma.outboundTransfer.findUnique({
+      where: { idempotencyKey },
+    });
+
+    return isNotNull(transferData) ? this.toDomain(transferData) : null;
+  }
+
+  /**
+   * Finds a transfer by its broadcast transaction hash
+   */
+  public async findByTxHash(txHash: string): Promise<OutboundTransfer | null> {
+    const transferData = await this.prisma.outboundTransfer.findUnique({
+      where: { txHash },
+    });
+
+    return isNotNull(transferData) ? this.toDomain(transferData) : null;
+  }
+
+  /**
+   * Finds a transfer by any transaction broadcast for it (latest, replaced or cancellation)
+   */
+  public async findByAnyTxHash(txHash: string): Promise<OutboundTransfer | null> {
+    const transferData = await this.prisma.outboundTransfer.findFirst({
+      where: {
+        OR: [
+          { txHash },
+          { cancelTxHash: txHash },
+          { replacedTxHashes: { has: txHash } },
+        ],
+      },
+    });
+
+    return isNotNull(transferData) ? this.toDomain(transferData) : null;
+  }
+
+  /**
+   * Finds transfers of a sender that hold a nonce and are not settled, lowest nonce first
+   */
+  public async findUnsettledBySender(chain: ChainType, fromAddress: string): Promise<OutboundTransfer[]> {
+    const transfersData = await this.prisma.outboundTransfer.findMany({
+      where: {
+        chain,
+        fromAddress,
+        nonce: { not: null },
+        status: { in: [OutboundTransferStatus.PENDING, OutboundTransferStatus.BROADCAST] },
+      },
+      orderBy: { nonce: 'asc' },
+    });
+
+    return transfersData.map((transferData) => this.toDomain(transferData));
+  }
+
+  /**
+   * Inserts a new transfer; the unique idempotency key guards against concurrent duplicates
+   */
+  public async create(transfer: OutboundTransfer): Promise<OutboundTransfer> {
+    try {
+      const transferData = await this.prisma.outboundTransfer.create({
+        data: {
+          id: transfer.id,
+          idempotencyKey: transfer.idempotencyKey,
+          chain: transfer.chain,
+          fromAddress: transfer.fromAddress,
+          toAddress: transfer.toAddress,
+          tokenSymbol: transfer.tokenSymbol,
+          amount: transfer.amount,
+          amountUSDT: transfer.amountUSDT,
+          txHash: transfer.txHash,
+          replacedTxHashes: transfer.replacedTxHashes,
+          cancelTxHash: transfer.cancelTxHash,
+          nonce: transfer.nonce,
+          maxFeePerGas: transfer.maxFeePerGas,
+          maxPriorityFeePerGas: transfer.maxPriorityFeePerGas,
+          status: transfer.status,
+          failureReason: transfer.failureReason,
+          requestedBy: transfer.requestedBy,
+          reference: transfer.reference,
+        },
+      });
+
+      return this.toDomain(transferData);
+    } catch (error: unknown) {
+      if (error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002') {
+        throw new ConflictError('Outbound transfer with this idempotency key already exists', {
+          idempotencyKey: transfer.idempotencyKey,
+        });
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Stores the broadcast state of a transfer
+   */
+  public async update(transfer: OutboundTransfer): Promise<OutboundTransfer> {
+    const transferData = await this.prisma.outboundTransfer.update({
+      where: { id: transfer.id },
+      data: {
+        txHash: transfer.txHash,
+        replacedTxHashes: transfer.replacedTxHashes,
+        cancelTxHash: transfer.cancelTxHash,
+        nonce: transfer.nonce,
+        maxFeePerGas: transfer.maxFeePerGas,
+        maxPriorityFeePerGas: transfer.maxPriorityFeePerGas,
+        status: transfer.status,
+        failureReason: transfer.failureReason,
+      },
+    });
+
+    return this.toDomain(transferData);
+  }
+
+  /**
+   * Maps a Prisma row to the domain entity
+   */
+  private toDomain(transferData: OutboundTransferData): OutboundTransfer {
+    return OutboundTransfer.fromPersistence({
+      id: transferData.id,
+      idempotencyKey: transferData.idempotencyKey,
+      chain: transferData.chain as ChainType,
+      fromAddress: transferData.fromAddress,
+      toAddress: transferData.toAddress,
+      tokenSymbol: transferData.tokenSymbol,
+      amount: transferData.amount,
+      amountUSDT: transferData.amountUSDT,
+      txHash: transferData.txHash,
+      replacedTxHashes: transferData.replacedTxHashes ?? [],
+      cancelTxHash: transferData.cancelTxHash,
+      nonce: transferData.nonce,
+      maxFeePerGas: transferData.maxFeePerGas,
+      maxPriorityFeePerGas: transferData.maxPriorityFeePerGas,
+      status: transferData.status as OutboundTransferStatus,
+      failureReason: transferData.failureReason,
+      requestedBy: transferData.requestedBy,
+      reference: transferData.reference,
+      createdAt: transferData.createdAt,
+      updatedAt: transferData.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Token Repository Implementation
+ *
+ * Prisma-based implementation of ITokenRepository
+ *
+ * @module blockchain-service/data/repositories
+ */
+
+import { PrismaClient, Token as TokenData } from '@prisma/client';
+import { Token } from '../../domain/entities/Token';
+import { ITokenRepository } from '../../domain/repositories/ITokenRepository';
+import { ChainType } from '@shield/shared/types';
+import { DatabaseConnection } from '@shield/shared/database/DatabaseConnection';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Token Repository Implementation
+ */
+export class TokenRepository implements ITokenRepository {
+  private get prisma(): PrismaClient {
+    return DatabaseConnection.getInstance().getClient();
+  }
+
+  /**
+   * Finds every token registered for a chain, by symbol
+   */
+  public async findByChain(chain: ChainType): Promise<Token[]> {
+    const tokensData = await this.prisma.token.findMany({
+      where: { chain },
+      orderBy: { symbol: 'asc' },
+    });
+
+    return tokensData.map((tokenData) => this.toDomain(tokenData));
+  }
+
+  /**
+   * Finds a token by its symbol
+   */
+  public async findBySymbol(chain: ChainType, symbol: string): Promise<Token | null> {
+    const tokenData = await this.prisma.token.findUnique({
+      where: { 'chain_symbol': { chain, symbol } },
+    });
+
+    return isNotNull(tokenData) ? this.toDomain(tokenData) : null;
+  }
+
+  /**
+   * Inserts the tokens not registered yet (existing symbols and contracts are skipped)
+   */
+  public async registerMissing(tokens: Token[]): Promise<number> {
+    const { count } = await this.prisma.token.createMany({
+      data: tokens.map((token) => ({
+        id: token.id,
+        chain: token.chain,
+        symbol: token.symbol,
+        contractAddress: token.contractAddress,
+        decimals: token.decimals,
+        enabled: token.enabled,
+      })),
+      skipDuplicates: true,
+    });
+
+    return count;
+  }
+
+  /**
+   * Maps a Prisma row to the domain entity
+   */
+  private toDomain(tokenData: TokenData): Token {
+    return Token.fromPersistence({
+      id: tokenData.id,
+      chain: tokenData.chain as ChainType,
+      symbol: tokenData.symbol,
+      contractAddress: tokenData.contractAddress,
+      decimals: tokenData.decimals,
+      enabled: tokenData.enabled,
+      createdAt: tokenData.createdAt,
+      updatedAt: tokenData.updatedAt,
+    });
+  }
+}
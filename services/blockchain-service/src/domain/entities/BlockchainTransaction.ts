@@ -0,0 +1,347 @@
+/**
+ * Blockchain Transaction Domain Entity
+ *
+ * A USDT transfer observed on-chain and persisted for history and replay.
+ * A transaction carrying several Transfer logs has one record per log.
+ *
+ * @module blockchain-service/domain/entities
+ */
+
+import { randomUUID } from 'crypto';
+import { ChainType } from '@shield/shared/types';
+import { isInteger, isNotNull, isNonEmptyString, isValidUUID } from '@shield/shared/utils/guards';
+
+/**
+ * On-chain status of a transaction
+ */
+export enum BlockchainTxStatus {
+  PENDING = 'PENDING',
+  CONFIRMED = 'CONFIRMED',
+  FAILED = 'FAILED',
+}
+
+/**
+ * `rawData.source` of transfers recorded from the mempool
+ */
+export const MEMPOOL_SOURCE = 'mempool';
+
+/**
+ * Persisted shape of a blockchain transaction
+ */
+export interface BlockchainTransactionData {
+  id: string;
+  txHash: string;
+  logIndex: number | null;
+  chain: ChainType;
+  fromAddress: string;
+  toAddress: string;
+  tokenAddress: string;
+  amount: string;
+  amountUSDT: string;
+  blockNumber: number | null;
+  blockHash: string | null;
+  confirmations: number;
+  status: BlockchainTxStatus;
+  gasUsed: string | null;
+  gasPrice: string | null;
+  energyUsed: number | null;
+  blockTimestamp: Date | null;
+  rawData: Record<string, unknown> | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Blockchain transaction domain entity
+ */
+export class BlockchainTransaction {
+  private constructor(
+    public readonly id: string,
+    public readonly txHash: string,
+    // Position of the Transfer log (null until the log is seen, e.g. in the mempool)
+    public readonly logIndex: number | null,
+    public readonly chain: ChainType,
+    // Transfer details
+    public readonly fromAddress: string,
+    public readonly toAddress: string,
+    public readonly tokenAddress: string,
+    public readonly amount: string,
+    public readonly amountUSDT: string,
+    // Chain state (refreshed as the transaction gains confirmations)
+    public readonly blockNumber: number | null,
+    public readonly blockHash: string | null,
+    public readonly confirmations: number,
+    public readonly status: BlockchainTxStatus,
+    // Fees (gas on EVM chains, energy on Tron)
+    public readonly gasUsed: string | null,
+    public readonly gasPrice: string | null,
+    public readonly energyUsed: number | null,
+    public readonly blockTimestamp: Date | null,
+    // Transaction details as returned by the RPC node
+    public readonly rawData: Record<string, unknown> | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {
+    this.validate();
+  }
+
+  /**
+   * Records a newly observed USDT transfer
+   */
+  public static create(data: {
+    txHash: string;
+    logIndex?: number | null;
+    chain: ChainType;
+    fromAddress: string;
+    toAddress: string;
+    tokenAddress: string;
+    amount: string;
+    amountUSDT: string;
+    status: BlockchainTxStatus;
+    blockNumber?: number | null;
+    blockHash?: string | null;
+    confirmations?: number;
+    blockTimestamp?: Date | null;
+    rawData?: Record<string, unknown> | null;
+  }): BlockchainTransaction {
+    const now = new Date();
+
+    return BlockchainTransaction.fromPersistence({
+      id: randomUUID(),
+      txHash: data.txHash,
+      logIndex: data.logIndex ?? null,
+      chain: data.chain,
+      fromAddress: data.fromAddress,
+      toAddress: data.toAddress,
+      tokenAddress: data.tokenAddress,
+      amount: data.amount,
+      amountUSDT: data.amountUSDT,
+      blockNumber: data.blockNumber ?? null,
+      blockHash: data.blockHash ?? null,
+      confirmations: data.confirmations ?? 0,
+      status: data.status,
+      gasUsed: null,
+      gasPrice: null,
+      energyUsed: null,
+      blockTimestamp: data.blockTimestamp ?? null,
+      rawData: data.rawData ?? null,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Records a USDT transfer found in a block range
+   *
+   * Transfer events are only emitted by successful transactions, so the
+   * record is PENDING until it has `confirmationsRequired` confirmations
+   * (counted up to `latestBlock`) and CONFIRMED from then on.
+   */
+  public static fromTransfer(
+    chain: ChainType,
+    tokenAddress: string,
+    transfer: {
+      txHash: string;
+      logIndex: number;
+      from: string;
+      to: string;
+      amount: string;
+      amountUSDT: string;
+      blockNumber: number;
+      blockHash: string | null;
+      blockTimestamp: Date | null;
+    },
+    latestBlock: number,
+    confirmationsRequired: number
+  ): BlockchainTransaction {
+    const confirmations = latestBlock >= transfer.blockNumber ? latestBlock - transfer.blockNumber + 1 : 0;
+
+    return BlockchainTransaction.create({
+      txHash: transfer.txHash,
+      logIndex: transfer.logIndex,
+      chain,
+      fromAddress: transfer.from,
+      toAddress: transfer.to,
+      tokenAddress,
+      amount: transfer.amount,
+      amountUSDT: transfer.amountUSDT,
+      status: confirmations >= confirmationsRequired
+        ? BlockchainTxStatus.CONFIRMED
+        : BlockchainTxStatus.PENDING,
+      blockNumber: transfer.blockNumber,
+      blockHash: transfer.blockHash,
+      confirmations,
+      blockTimestamp: transfer.blockTimestamp,
+    });
+  }
+
+  /**
+   * Records a token transfer seen in the mempool, before it is mined
+   *
+   * The record is PENDING without block data or log index; the block scanner
+   * fills them in once it is mined, and the confirmation tracker takes it from there.
+   * `rawData.source` is `mempool` so dropped transfers can be told apart.
+   */
+  public static fromPendingTransfer(
+    chain: ChainType,
+    tokenAddress: string,
+    transfer: {
+      txHash: string;
+      from: string;
+      to: string;
+      amount: string;
+      amountUSDT: string;
+      nonce: number | null;
+    }
+  ): BlockchainTransaction {
+    return BlockchainTransaction.create({
+      txHash: transfer.txHash,
+      chain,
+      fromAddress: transfer.from,
+      toAddress: transfer.to,
+      tokenAddress,
+      amount: transfer.amount,
+      amountUSDT: transfer.amountUSDT,
+      status: BlockchainTxStatus.PENDING,
+      rawData: {
+        source: MEMPOOL_SOURCE,
+        nonce: transfer.nonce,
+        seenAt: new Date().toISOString(),
+      },
+    });
+  }
+
+  /**
+   * Reconstructs BlockchainTransaction from persistence layer
+   */
+  public static fromPersistence(data: BlockchainTransactionData): BlockchainTransaction {
+    return new BlockchainTransaction(
+      data.id,
+      data.txHash,
+      data.logIndex,
+      data.chain,
+      data.fromAddress,
+      data.toAddress,
+      data.tokenAddress,
+      data.amount,
+      data.amountUSDT,
+      data.blockNumber,
+      data.blockHash,
+      data.confirmations,
+      data.status,
+      data.gasUsed,
+      data.gasPrice,
+      data.energyUsed,
+      data.blockTimestamp,
+      data.rawData,
+      data.createdAt,
+      data.updatedAt
+    );
+  }
+
+  /**
+   * Validates blockchain transaction entity invariants
+   */
+  private validate(): void {
+    if (!isValidUUID(this.id)) {
+      throw new Error('BlockchainTransaction ID must be a valid UUID');
+    }
+
+    if (!isNonEmptyString(this.txHash)) {
+      throw new Error('BlockchainTransaction txHash cannot be empty');
+    }
+
+    if (!Object.values(ChainType).includes(this.chain)) {
+      throw new Error(`Invalid chain type: ${this.chain}`);
+    }
+
+    if (!isNonEmptyString(this.fromAddress) || !isNonEmptyString(this.toAddress)) {
+      throw new Error('BlockchainTransaction addresses cannot be empty');
+    }
+
+    if (!Object.values(BlockchainTxStatus).includes(this.status)) {
+      throw new Error(`Invalid blockchain transaction status: ${this.status}`);
+    }
+
+    if (isNotNull(this.logIndex) && (!isInteger(this.logIndex) || this.logIndex < 0)) {
+      throw new Error('BlockchainTransaction logIndex must be a non-negative integer');
+    }
+
+    if (this.confirmations < 0) {
+      throw new Error('BlockchainTransaction confirmations cannot be negative');
+    }
+  }
+
+  /**
+   * Checks if the record can no longer change and may be served without an RPC call
+   *
+   * FAILED transactions are final once mined; CONFIRMED ones once they reach
+   * the chain's confirmation threshold.
+   */
+  public isFinal(confirmationsRequired: number): boolean {
+    if (!isNotNull(this.blockNumber)) {
+      return false;
+    }
+
+    return this.status === BlockchainTxStatus.FAILED ||
+      (this.status === BlockchainTxStatus.CONFIRMED && this.confirmations >= confirmationsRequired);
+  }
+
+  /**
+   * Returns a copy with refreshed chain state from an RPC lookup.
+   * Values the lookup did not provide are kept.
+   */
+  public withChainState(state: {
+    status: BlockchainTxStatus;
+    confirmations: number;
+    blockNumber?: number | null;
+    blockHash?: string | null;
+    gasUsed?: string | null;
+    gasPrice?: string | null;
+    energyUsed?: number | null;
+    blockTimestamp?: Date | null;
+    rawData?: Record<string, unknown> | null;
+  }): BlockchainTransaction {
+    return BlockchainTransaction.fromPersistence({
+      ...this.toPlainObject(),
+      status: state.status,
+      confirmations: state.confirmations,
+      blockNumber: state.blockNumber ?? this.blockNumber,
+      blockHash: state.blockHash ?? this.blockHash,
+      gasUsed: state.gasUsed ?? this.gasUsed,
+      gasPrice: state.gasPrice ?? this.gasPrice,
+      energyUsed: state.energyUsed ?? this.energyUsed,
+      blockTimestamp: state.blockTimestamp ?? this.blockTimestamp,
+      rawData: state.rawData ?? this.rawData,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Converts to plain object for serialization
+   */
+  public toPlainObject(): BlockchainTransactionData {
+    return {
+      id: this.id,
+      txHash: this.txHash,
+      logIndex: this.logIndex,
+      chain: this.chain,
+      fromAddress: this.fromAddress,
+      toAddress: this.toAddress,
+      tokenAddress: this.tokenAddress,
+      amount: this.amount,
+      amountUSDT: this.amountUSDT,
+      blockNumber: this.blockNumber,
+      blockHash: this.blockHash,
+      confirmations: this.confirmations,
+      status: this.status,
+      gasUsed: this.gasUsed,
+      gasPrice: this.gasPrice,
+      energyUsed: this.energyUsed,
+      blockTimestamp: this.blockTimestamp,
+      rawData: this.rawData,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
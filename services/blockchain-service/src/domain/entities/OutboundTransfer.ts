@@ -0,0 +1,391 @@
+/**
+ * Outbound Transfer Domain Entity
+ *
+ * A registered token (USDT, USDC, ...) sent from a Shield system wallet (refund, treasury move), tracked from
+ * the payout request until the transaction is confirmed.
+ *
+ * On EVM chains a stuck broadcast can be replaced at the same nonce: a speed-up
+ * re-sends the payout with higher fees, a cancellation sends 0 of the native token to the
+ * system wallet. Whichever transaction is mined settles the payout.
+ *
+ * @module blockchain-service/domain/entities
+ */
+
+import { randomUUID } from 'crypto';
+import { ChainType } from '@shield/shared/types';
+import { BusinessLogicError } from '@shield/shared/errors';
+import { isNonEmptyString, isValidUUID } from '@shield/shared/utils/guards';
+
+/**
+ * Outbound transfer status
+ */
+export enum OutboundTransferStatus {
+  PENDING = 'PENDING',
+  BROADCAST = 'BROADCAST',
+  CONFIRMED = 'CONFIRMED',
+  FAILED = 'FAILED',
+}
+
+/**
+ * Persisted shape of an outbound transfer
+ */
+export interface OutboundTransferData {
+  id: string;
+  idempotencyKey: string;
+  chain: ChainType;
+  fromAddress: string;
+  toAddress: string;
+  /** Symbol of the registered token sent */
+  tokenSymbol: string;
+  amount: string;
+  /** Amount in token units (the field name predates multi-token support) */
+  amountUSDT: string;
+  txHash: string | null;
+  replacedTxHashes: string[];
+  cancelTxHash: string | null;
+  nonce: number | null;
+  maxFeePerGas: string | null;
+  maxPriorityFeePerGas: string | null;
+  status: OutboundTransferStatus;
+  failureReason: string | null;
+  requestedBy: string;
+  reference: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Fees of an EIP-1559 broadcast, in wei (EVM chains only)
+ */
+export interface BroadcastFees {
+  maxFeePerGas?: string | null;
+  maxPriorityFeePerGas?: string | null;
+}
+
+/**
+ * Allowed status transitions
+ */
+const ALLOWED_TRANSITIONS = new Map<OutboundTransferStatus, OutboundTransferStatus[]>([
+  [OutboundTransferStatus.PENDING, [OutboundTransferStatus.BROADCAST, OutboundTransferStatus.FAILED]],
+  [OutboundTransferStatus.BROADCAST, [OutboundTransferStatus.CONFIRMED, OutboundTransferStatus.FAILED]],
+  [OutboundTransferStatus.CONFIRMED, []],
+  [OutboundTransferStatus.FAILED, []],
+]);
+
+/**
+ * Outbound transfer domain entity
+ */
+export class OutboundTransfer {
+  private constructor(
+    public readonly id: string,
+    public readonly idempotencyKey: string,
+    public readonly chain: ChainType,
+    // Transfer details
+    public readonly fromAddress: string,
+    public readonly toAddress: string,
+    public readonly tokenSymbol: string,
+    public readonly amount: string,
+    public readonly amountUSDT: string,
+    // Broadcast state
+    public readonly txHash: string | null,
+    public readonly replacedTxHashes: string[],
+    public readonly cancelTxHash: string | null,
+    public readonly nonce: number | null,
+    public readonly maxFeePerGas: string | null,
+    public readonly maxPriorityFeePerGas: string | null,
+    public readonly status: OutboundTransferStatus,
+    public readonly failureReason: string | null,
+    // Audit
+    public readonly requestedBy: string,
+    public readonly reference: string | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {
+    this.validate();
+  }
+
+  /**
+   * Records a newly requested payout (PENDING, not broadcast)
+   */
+  public static create(data: {
+    idempotencyKey: string;
+    chain: ChainType;
+    fromAddress: string;
+    toAddress: string;
+    tokenSymbol: string;
+    amount: string;
+    amountUSDT: string;
+    requestedBy: string;
+    reference?: string | null;
+  }): OutboundTransfer {
+    const now = new Date();
+
+    return OutboundTransfer.fromPersistence({
+      id: randomUUID(),
+      idempotencyKey: data.idempotencyKey,
+      chain: data.chain,
+      fromAddress: data.fromAddress,
+      toAddress: data.toAddress,
+      tokenSymbol: data.tokenSymbol,
+      amount: data.amount,
+      amountUSDT: data.amountUSDT,
+      txHash: null,
+      replacedTxHashes: [],
+      cancelTxHash: null,
+      nonce: null,
+      maxFeePerGas: null,
+      maxPriorityFeePerGas: null,
+      status: OutboundTransferStatus.PENDING,
+      failureReason: null,
+      requestedBy: data.requestedBy,
+      reference: data.reference ?? null,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Reconstructs OutboundTransfer from persistence layer
+   */
+  public static fromPersistence(data: OutboundTransferData): OutboundTransfer {
+    return new OutboundTransfer(
+      data.id,
+      data.idempotencyKey,
+      data.chain,
+      data.fromAddress,
+      data.toAddress,
+      data.tokenSymbol,
+      data.amount,
+      data.amountUSDT,
+      data.txHash,
+      data.replacedTxHashes,
+      data.cancelTxHash,
+      data.nonce,
+      data.maxFeePerGas,
+      data.maxPriorityFeePerGas,
+      data.status,
+      data.failureReason,
+      data.requestedBy,
+      data.reference,
+      data.createdAt,
+      data.updatedAt
+    );
+  }
+
+  /**
+   * Validates outbound transfer entity invariants
+   */
+  private validate(): void {
+    if (!isValidUUID(this.id)) {
+      throw new Error('OutboundTransfer ID must be a valid UUID');
+    }
+
+    if (!isNonEmptyString(this.idempotencyKey)) {
+      throw new Error('OutboundTransfer idempotencyKey cannot be empty');
+    }
+
+    if (!Object.values(ChainType).includes(this.chain)) {
+      throw new Error(`Invalid chain type: ${this.chain}`);
+    }
+
+    if (!isNonEmptyString(this.fromAddress) || !isNonEmptyString(this.toAddress)) {
+      throw new Error('OutboundTransfer addresses cannot be empty');
+    }
+
+    if (!Object.values(OutboundTransferStatus).includes(this.status)) {
+      throw new Error(`Invalid outbound transfer status: ${this.status}`);
+    }
+
+    if (this.status !== OutboundTransferStatus.PENDING && this.status !== OutboundTransferStatus.FAILED &&
+      !isNonEmptyString(this.txHash)) {
+      throw new Error(`OutboundTransfer in status ${this.status} must have a txHash`);
+    }
+  }
+
+  /**
+   * Checks if a repeated request asks for the same payout as this record
+   */
+  public matchesRequest(request: {
+    chain: ChainType;
+    toAddress: string;
+    tokenSymbol: string;
+    amount: string;
+  }): boolean {
+    return this.chain === request.chain &&
+      this.toAddress === request.toAddress &&
+      this.tokenSymbol === request.tokenSymbol &&
+      this.amount === request.amount;
+  }
+
+  /**
+   * Every transaction broadcast for this payout (latest, replaced, cancellation)
+   */
+  public allTxHashes(): string[] {
+    return [this.txHash, ...this.replacedTxHashes, this.cancelTxHash]
+      .filter((txHash): txHash is string => isNonEmptyString(txHash));
+  }
+
+  /**
+   * Records the nonce reserved for the transfer before it is signed
+   */
+  public assignNonce(nonce: number): OutboundTransfer {
+    if (this.status !== OutboundTransferStatus.PENDING) {
+      throw new BusinessLogicError(
+        'A nonce can only be assigned before the transfer is broadcast',
+        'outbound_transfer_nonce',
+        { outboundTransferId: this.id, status: this.status }
+      );
+    }
+
+    return OutboundTransfer.fromPersistence({
+      ...this.toPlainObject(),
+      nonce,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Records the broadcast transaction hash
+   */
+  public markBroadcast(txHash: string, fees: BroadcastFees = {}): OutboundTransfer {
+    return this.transitionTo(OutboundTransferStatus.BROADCAST, { txHash, ...fees });
+  }
+
+  /**
+   * Records a speed-up: the payout re-sent at the same nonce with higher fees
+   */
+  public recordSpeedUp(txHash: string, fees: BroadcastFees): OutboundTransfer {
+    this.assertReplaceable();
+
+    return OutboundTransfer.fromPersistence({
+      ...this.toPlainObject(),
+      txHash,
+      replacedTxHashes: [...this.replacedTxHashes, this.txHash as string],
+      maxFeePerGas: fees.maxFeePerGas ?? this.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas ?? this.maxPriorityFeePerGas,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Records a cancellation: a 0-value self-transfer at the same nonce
+   */
+  public recordCancellation(txHash: string, fees: BroadcastFees): OutboundTransfer {
+    this.assertReplaceable();
+
+    return OutboundTransfer.fromPersistence({
+      ...this.toPlainObject(),
+      cancelTxHash: txHash,
+      maxFeePerGas: fees.maxFeePerGas ?? this.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas ?? this.maxPriorityFeePerGas,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Marks the transfer as confirmed on-chain by the payout transaction that was mined
+   */
+  public markConfirmed(minedTxHash: string = this.txHash ?? ''): OutboundTransfer {
+    const confirmed = this.transitionTo(OutboundTransferStatus.CONFIRMED);
+    if (minedTxHash === this.txHash || !this.replacedTxHashes.includes(minedTxHash)) {
+      return confirmed;
+    }
+
+    // An earlier broadcast won the race against its speed-up
+    return OutboundTransfer.fromPersistence({
+      ...confirmed.toPlainObject(),
+      txHash: minedTxHash,
+      replacedTxHashes: [
+        ...this.replacedTxHashes.filter((txHash) => txHash !== minedTxHash),
+        this.txHash as string,
+      ],
+    });
+  }
+
+  /**
+   * Ensures the broadcast can still be replaced at its nonce
+   *
+   * @throws BusinessLogicError if the transfer is not broadcast, has no nonce, or is already being cancelled
+   */
+  public assertReplaceable(): void {
+    if (this.status !== OutboundTransferStatus.BROADCAST || this.nonce === null) {
+      throw new BusinessLogicError(
+        'Only broadcast transfers with a nonce can be replaced',
+        'outbound_transfer_replacement',
+        { outboundTransferId: this.id, status: this.status }
+      );
+    }
+
+    if (isNonEmptyString(this.cancelTxHash)) {
+      throw new BusinessLogicError(
+        'Transfer is already being cancelled',
+        'outbound_transfer_replacement',
+        { outboundTransferId: this.id, cancelTxHash: this.cancelTxHash }
+      );
+    }
+  }
+
+  /**
+   * Marks the transfer as failed
+   */
+  public markFailed(reason: string): OutboundTransfer {
+    return this.transitionTo(OutboundTransferStatus.FAILED, { failureReason: reason });
+  }
+
+  /**
+   * Moves the transfer to a new status
+   *
+   * @throws BusinessLogicError if the transition is not allowed
+   */
+  private transitionTo(
+    status: OutboundTransferStatus,
+    details: { txHash?: string; failureReason?: string } & BroadcastFees = {}
+  ): OutboundTransfer {
+    const allowed = ALLOWED_TRANSITIONS.get(this.status) ?? [];
+    if (!allowed.includes(status)) {
+      throw new BusinessLogicError(
+        `Outbound transfer cannot move from ${this.status} to ${status}`,
+        'outbound_transfer_status_transition',
+        { outboundTransferId: this.id, from: this.status, to: status }
+      );
+    }
+
+    return OutboundTransfer.fromPersistence({
+      ...this.toPlainObject(),
+      status,
+      txHash: details.txHash ?? this.txHash,
+      maxFeePerGas: details.maxFeePerGas ?? this.maxFeePerGas,
+      maxPriorityFeePerGas: details.maxPriorityFeePerGas ?? this.maxPriorityFeePerGas,
+      failureReason: details.failureReason ?? this.failureReason,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Converts to plain object for serialization
+   */
+  public toPlainObject(): OutboundTransferData {
+    return {
+      id: this.id,
+      idempotencyKey: this.idempotencyKey,
+      chain: this.chain,
+      fromAddress: this.fromAddress,
+      toAddress: this.toAddress,
+      tokenSymbol: this.tokenSymbol,
+      amount: this.amount,
+      amountUSDT: this.amountUSDT,
+      txHash: this.txHash,
+      replacedTxHashes: [...this.replacedTxHashes],
+      cancelTxHash: this.cancelTxHash,
+      nonce: this.nonce,
+      maxFeePerGas: this.maxFeePerGas,
+      maxPriorityFeePerGas: this.maxPriorityFeePerGas,
+      status: this.status,
+      failureReason: this.failureReason,
+      requestedBy: this.requestedBy,
+      reference: this.reference,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Token Domain Entity
+ *
+ * A token contract registered for a chain (USDT, USDC, ...). Endpoints take
+ * the token symbol; the registry supplies the contract and decimals.
+ *
+ * @module blockchain-service/domain/entities
+ */
+
+import { randomUUID } from 'crypto';
+import { ChainType } from '@shield/shared/types';
+import { isNonEmptyString, isValidUUID } from '@shield/shared/utils/guards';
+
+/**
+ * Persisted shape of a registered token
+ */
+export interface TokenData {
+  id: string;
+  chain: ChainType;
+  symbol: string;
+  contractAddress: string;
+  decimals: number;
+  enabled: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Token domain entity
+ */
+export class Token {
+  private constructor(
+    public readonly id: string,
+    public readonly chain: ChainType,
+    public readonly symbol: string,
+    public readonly contractAddress: string,
+    public readonly decimals: number,
+    public readonly enabled: boolean,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {
+    this.validate();
+  }
+
+  /**
+   * Registers a token (enabled)
+   */
+  public static create(data: {
+    chain: ChainType;
+    symbol: string;
+    contractAddress: string;
+    decimals: number;
+  }): Token {
+    const now = new Date();
+
+    return Token.fromPersistence({
+      id: randomUUID(),
+      chain: data.chain,
+      symbol: Token.normalizeSymbol(data.symbol),
+      contractAddress: data.contractAddress,
+      decimals: data.decimals,
+      enabled: true,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Reconstructs Token from persistence layer
+   */
+  public static fromPersistence(data: TokenData): Token {
+    return new Token(
+      data.id,
+      data.chain,
+      data.symbol,
+      data.contractAddress,
+      data.decimals,
+      data.enabled,
+      data.createdAt,
+      data.updatedAt
+    );
+  }
+
+  /**
+   * Normalizes a symbol as given in a request (symbols are stored upper case)
+   */
+  public static normalizeSymbol(symbol: string): string {
+    return symbol.trim().toUpperCase();
+  }
+
+  /**
+   * Validates token entity invariants
+   */
+  private validate(): void {
+    if (!isValidUUID(this.id)) {
+      throw new Error('Token ID must be a valid UUID');
+    }
+
+    if (!Object.values(ChainType).includes(this.chain)) {
+      throw new Error(`Invalid chain type: ${this.chain}`);
+    }
+
+    if (!isNonEmptyString(this.symbol) || this.symbol !== Token.normalizeSymbol(this.symbol)) {
+      throw new Error('Token symbol must be a non-empty upper case string');
+    }
+
+    if (!isNonEmptyString(this.contractAddress)) {
+      throw new Error('Token contractAddress cannot be empty');
+    }
+
+    if (!Number.isInteger(this.decimals) || this.decimals < 0 || this.decimals > 36) {
+      throw new Error(`Invalid token decimals: ${this.decimals}`);
+    }
+  }
+
+  /**
+   * Converts to plain object for serialization
+   */
+  public toPlainObject(): TokenData {
+    return {
+      id: this.id,
+      chain: this.chain,
+      symbol: this.symbol,
+      contractAddress: this.contractAddress,
+      decimals: this.decimals,
+      enabled: this.enabled,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
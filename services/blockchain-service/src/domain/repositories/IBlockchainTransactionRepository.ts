@@ -0,0 +1,44 @@
+/**
+ * Blockchain Transaction Repository Interface
+ *
+ * Defines the contract for persisting observed on-chain transfers
+ *
+ * @module blockchain-service/domain/repositories
+ */
+
+import { BlockchainTransaction } from '../entities/BlockchainTransaction';
+import { ChainType } from '@shield/shared/types';
+
+/**
+ * Blockchain transaction repository interface
+ */
+export interface IBlockchainTransactionRepository {
+  /**
+   * Finds a transaction by its on-chain hash (its first Transfer log if it has several)
+   */
+  findByTxHash(txHash: string): Promise<BlockchainTransaction | null>;
+
+  /**
+   * Finds PENDING transactions of a chain, lowest block first (unmined ones last)
+   */
+  findPendingByChain(chain: ChainType, limit: number): Promise<BlockchainTransaction[]>;
+
+  /**
+   * Finds CONFIRMED transfers of a chain not yet reported to wallet-service, oldest first
+   */
+  findUnreportedDeposits(chain: ChainType, limit: number): Promise<BlockchainTransaction[]>;
+
+  /**
+   * Records that a confirmed transfer was reported to wallet-service
+   */
+  markDepositReported(id: string): Promise<void>;
+
+  /**
+   * Inserts or updates a transaction, keyed by txHash and logIndex.
+   * A row stored before its log was seen (logIndex null) is taken over by the
+   * transaction's log with the same amount.
+   * Updates only refresh chain state (status, confirmations, block, block hash and fee data);
+   * null values keep what is already stored.
+   */
+  save(transaction: BlockchainTransaction): Promise<BlockchainTransaction>;
+}
@@ -0,0 +1,55 @@
+/**
+ * Network Status Repository Interface
+ *
+ * Defines the contract for tracking per-chain sync state
+ *
+ * @module blockchain-service/domain/repositories
+ */
+
+import { ChainType } from '@shield/shared/types';
+
+/**
+ * Persisted sync state of a chain
+ */
+export interface NetworkStatusRecord {
+  chain: ChainType;
+  latestBlock: number;
+  lastProcessedBlock: number;
+  isHealthy: boolean;
+  currentGasPrice: string | null;
+  currentEnergyPrice: number | null;
+  lastSyncAt: Date;
+}
+
+/**
+ * Result of polling a chain's RPC node
+ */
+export interface NetworkSyncUpdate {
+  latestBlock: number;
+  isHealthy: boolean;
+  currentGasPrice?: string | null;
+  currentEnergyPrice?: number | null;
+}
+
+/**
+ * Network status repository interface
+ */
+export interface INetworkStatusRepository {
+  /**
+   * Finds the sync state of a chain
+   */
+  findByChain(chain: ChainType): Promise<NetworkStatusRecord | null>;
+
+  /**
+   * Records the result of polling a chain.
+   * An unhealthy poll only flips `isHealthy`, so the last known block is kept.
+   * The first healthy poll starts `lastProcessedBlock` at the current block.
+   * Fees left undefined in the update keep their stored value.
+   */
+  recordSync(chain: ChainType, update: NetworkSyncUpdate): Promise<NetworkStatusRecord | null>;
+
+  /**
+   * Advances the scanner checkpoint once every block up to `blockNumber` is processed
+   */
+  recordProcessedBlock(chain: ChainType, blockNumber: number): Promise<void>;
+}
@@ -0,0 +1,35 @@
+/**
+ * Nonce Repository Interface
+ *
+ * Defines the contract for handing out sender nonces to concurrent payout workers
+ *
+ * @module blockchain-service/domain/repositories
+ */
+
+import { ChainType } from '@shield/shared/types';
+
+/**
+ * Nonce repository interface
+ */
+export interface INonceRepository {
+  /**
+   * Atomically reserves the next nonce of an address.
+   * The reserved nonce is never below `networkNonce` (the node's pending
+   * transaction count), so transactions sent outside the allocator are skipped.
+   */
+  reserve(chain: ChainType, address: string, networkNonce: number): Promise<number>;
+
+  /**
+   * Returns a nonce that was reserved but never broadcast.
+   * Only the most recent reservation can be handed out again; an older one
+   * leaves a gap that has to be filled on-chain.
+   *
+   * @returns true if the nonce will be reused
+   */
+  release(chain: ChainType, address: string, nonce: number): Promise<boolean>;
+
+  /**
+   * Gets the next nonce that would be reserved (null if the address never reserved one)
+   */
+  getNextNonce(chain: ChainType, address: string): Promise<number | null>;
+}
@@ -0,0 +1,47 @@
+/**
+ * Outbound Transfer Repository Interface
+ *
+ * Defines the contract for persisting payouts sent from the system wallets
+ *
+ * @module blockchain-service/domain/repositories
+ */
+
+import { OutboundTransfer } from '../entities/OutboundTransfer';
+import { ChainType } from '@shield/shared/types';
+
+/**
+ * Outbound transfer repository interface
+ */
+export interface IOutboundTransferRepository {
+  /**
+   * Finds a transfer by the caller's idempotency key
+   */
+  findByIdempotencyKey(idempotencyKey: string): Promise<OutboundTransfer | null>;
+
+  /**
+   * Finds a transfer by its broadcast transaction hash
+   */
+  findByTxHash(txHash: string): Promise<OutboundTransfer | null>;
+
+  /**
+   * Finds a transfer by any transaction broadcast for it (latest, replaced or cancellation)
+   */
+  findByAnyTxHash(txHash: string): Promise<OutboundTransfer | null>;
+
+  /**
+   * Finds PENDING and BROADCAST transfers of a sender that hold a nonce, lowest nonce first
+   */
+  findUnsettledBySender(chain: ChainType, fromAddress: string): Promise<OutboundTransfer[]>;
+
+  /**
+   * Inserts a new transfer
+   *
+   * @throws ConflictError if the idempotency key is already recorded
+   */
+  create(transfer: OutboundTransfer): Promise<OutboundTransfer>;
+
+  /**
+   * Stores the broadcast state (status, hashes, nonce, fees, failure reason) of a transfer
+   */
+  update(transfer: OutboundTransfer): Promise<OutboundTransfer>;
+}
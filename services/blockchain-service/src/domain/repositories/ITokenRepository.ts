@@ -0,0 +1,33 @@
+/**
+ * Token Repository Interface
+ *
+ * Defines the contract for the registry of tokens supported per chain
+ *
+ * @module blockchain-service/domain/repositories
+ */
+
+import { ChainType } from '@shield/shared/types';
+import { Token } from '../entities/Token';
+
+/**
+ * Token repository interface
+ */
+export interface ITokenRepository {
+  /**
+   * Finds every token registered for a chain (enabled or not), by symbol
+   */
+  findByChain(chain: ChainType): Promise<Token[]>;
+
+  /**
+   * Finds a token by its (upper case) symbol
+   */
+  findBySymbol(chain: ChainType, symbol: string): Promise<Token | null>;
+
+  /**
+   * Inserts the tokens whose symbol is not registered yet.
+   * Registered tokens are left alone, so a token disabled in the registry stays disabled.
+   *
+   * @returns Number of tokens inserted
+   */
+  registerMissing(tokens: Token[]): Promise<number>;
+}
@@ -7,6 +7,16 @@
  */
 
 import { ChainType } from '@shield/shared/types';
+import { DecodedMethodCall } from '../../utils/transactionParser';
+
+/**
+ * Registered token a client call works with (see the Token entity)
+ */
+export interface TokenContract {
+  symbol: string;
+  contractAddress: string;
+  decimals: number;
+}
 
 /**
  * Token balance result
@@ -19,55 +29,198 @@ export interface TokenBalance {
 }
 
 /**
- * Blockchain transaction details
+ * One address's balance of one token in a batch lookup
+ */
+export interface BatchTokenBalance {
+  address: string;
+  symbol: string;
+  /** Human-readable balance (null if the call for this pair failed) */
+  balance: string | null;
+  error?: string;
+}
+
+/**
+ * Blockchain transaction details, as returned by getTransaction
  */
 export interface BlockchainTransactionDetails {
   hash: string;
-  from: string;
-  transaction: {
-    from: string;
-    to: string;
-    value: string;
-    blockNumber: number;
-    timestamp: number;
-    confirmations: number;
-    status: 'success' | 'failed' | 'pending';
-  };
+  /** Null for TRON contracts without an owner address */
+  from: string | null;
+  /** Null for contract creations */
+  to: string | null;
+  /** Native value in the chain's smallest unit */
+  value: string;
+  /** Null while the transaction is in the mempool */
+  blockNumber: number | null;
+  confirmations: number;
+  /** 'success', 'failed' or 'pending' (EVM only, until the receipt exists) */
+  status: string;
+  /** Block timestamp, if the block was found */
+  timestamp?: number | null;
+  /** EVM only */
+  blockHash?: string | null;
+  /** EVM only */
+  gasUsed?: string;
+  /** EVM only */
+  gasPrice?: string;
+  /** TRON only */
+  energyUsed?: number | null;
 }
 
 /**
- * Transaction validation result
+ * Transfer found by a transaction validation
  */
-export interface TransactionValidationResult {
-  valid: boolean;
-  reason?: string;
+export interface ValidTransactionResult {
+  valid: true;
   amount: string;
+  /** Amount in token units (the field name predates multi-token support) */
   amountUSDT: string;
   from: string;
   to: string;
+  confirmations: number;
+}
+
+/**
+ * Reason a transaction is not a valid transfer
+ */
+export interface InvalidTransactionResult {
+  valid: false;
+  reason: string;
+}
+
+/**
+ * Transaction validation result
+ */
+export type TransactionValidationResult = ValidTransactionResult | InvalidTransactionResult;
+
+/**
+ * Call made by a contract while a transaction executed
+ */
+export interface InternalCall {
+  /** Nesting level below the top-level call (null where the chain does not report it) */
+  depth: number | null;
+  /** CALL, DELEGATECALL, CREATE, ... (Tron: call, create, suicide) */
+  type: string;
+  from: string;
+  to: string | null;
+  /** Native coin sent, in smallest unit */
+  value: string;
+  method: DecodedMethodCall | null;
+  /** Why the call failed, null if it succeeded */
+  error: string | null;
 }
 
 /**
- * USDT transfer information
+ * Token Transfer log of a decoded transaction (addresses in the chain's format)
  */
-export interface USDTTransfer {
+export interface DecodedTransactionTransfer {
+  /** Position of the log in the transaction's receipt */
+  logIndex: number;
+  tokenAddress: string;
   from: string;
   to: string;
+  /** Amount in smallest unit */
   amount: string;
+}
+
+/**
+ * Transaction decoded from its input, receipt logs and execution trace
+ */
+export interface DecodedTransaction {
+  /** Native coin sent by the top-level call, in smallest unit and in coin units */
+  nativeValue: string;
+  nativeValueFormatted: string;
+  /** Top-level function call, null for plain native transfers */
+  method: DecodedMethodCall | null;
+  /** Every token Transfer log, in receipt order (empty until mined) */
+  tokenTransfers: DecodedTransactionTransfer[];
+  /** Calls made during execution, null if the node cannot trace them */
+  internalCalls: InternalCall[] | null;
+}
+
+/**
+ * Token transfer information
+ */
+export interface TokenTransfer {
+  /** Position of the Transfer log (EVM: in the block, Tron: in the transaction) */
+  logIndex: number;
+  from: string;
+  to: string;
+  amount: string;
+  /** Amount in token units (the field name predates multi-token support) */
+  amountUSDT: string;
   txHash: string;
+  blockNumber: number;
+  blockHash: string;
   timestamp: number;
 }
 
+/**
+ * Token transfer broadcast from the system wallet
+ */
+export interface SentTokenTransfer {
+  txHash: string;
+  from: string;
+  to: string;
+  /** Amount in smallest unit */
+  amount: string;
+  /** Amount in token units */
+  amountUSDT: string;
+  /** Sender nonce and EIP-1559 fees in wei (EVM chains only) */
+  nonce?: number;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+}
+
+/**
+ * Options for sending a token
+ */
+export interface SendTokenOptions {
+  /** Nonce reserved by the caller (EVM chains only; the node's pending count otherwise) */
+  nonce?: number;
+}
+
+/**
+ * Replace-by-fee request for a broadcast stuck at a nonce (EVM chains only)
+ * - speed-up: re-sends the token transfer with higher fees
+ * - cancel: sends 0 of the native token to the system wallet with higher fees
+ */
+export interface ReplacementRequest {
+  kind: 'speed-up' | 'cancel';
+  nonce: number;
+  /** Token, recipient and amount in smallest unit (speed-up only) */
+  token?: TokenContract;
+  to?: string;
+  amount?: string;
+  /** Fees of the transaction being replaced, in wei */
+  previousMaxFeePerGas?: string | null;
+  previousMaxPriorityFeePerGas?: string | null;
+}
+
+/**
+ * Replacement transaction broadcast at an existing nonce
+ */
+export interface ReplacementTransaction {
+  txHash: string;
+  nonce: number;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+}
+
 /**
  * Network status information
  */
 export interface NetworkStatus {
-  chain: ChainType;
+  chainId: number;
   isHealthy: boolean;
-  latestBlock: number;
-  blockTime: number;
-  gasPrice?: string;
-  energyPrice?: string;
+  /** BigInt, which JSON cannot serialize; 0 when the node is unreachable */
+  latestBlock: bigint;
+  /** EVM only, in wei */
+  currentGasPrice?: string;
+  /** TRON only (not reported yet) */
+  currentEnergyPrice?: number | null;
+  /** State of the client's RPC endpoint pool */
+  rpcPool: unknown;
 }
 
 /**
@@ -80,6 +233,56 @@ export interface TokenBalanceData {
   decimals: number;
 }
 
+/**
+ * EIP-1559 fee tier with its cost preview (fees in wei, costs in native token)
+ */
+export interface GasFeeTier {
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  /** Expected cost at the next block's base fee */
+  estimatedCost: string;
+  /** Worst-case cost at maxFeePerGas */
+  maxCost: string;
+}
+
+/**
+ * Tron resource breakdown of an estimate (energy and bandwidth units, costs in sun)
+ */
+export interface TronResourceEstimate {
+  energyRequired: number;
+  energyAvailable: number;
+  energyBurnSun: number;
+  /** True if the sender's staked energy covers the whole transaction */
+  energyCoveredByStake: boolean;
+  bandwidthRequired: number;
+  bandwidthAvailable: number;
+  bandwidthBurnSun: number;
+  /** TRX burnt for resources the sender does not cover */
+  totalBurnSun: number;
+  totalBurnTRX: string;
+  energyPriceSun: number;
+  bandwidthPriceSun: number;
+  /** Energy comes from a triggerconstantcontract simulation (false: standard estimate) */
+  simulated: boolean;
+  /** Whether the recipient already holds the token (null if no recipient was given) */
+  recipientHoldsToken: boolean | null;
+  /** Sender's TRX balance and whether it pays the burn (null without a sender) */
+  senderBalanceSun: number | null;
+  sufficientBalance: boolean | null;
+}
+
+/**
+ * Concrete transaction to estimate (defaults: system wallet sender, sample recipient and amount)
+ */
+export interface GasEstimateOptions {
+  /** Token called by transfer_token / approve_token (standard limits without it) */
+  token?: TokenContract;
+  from?: string;
+  to?: string;
+  /** Amount in token units (human-readable) */
+  amount?: string;
+}
+
 /**
  * Gas estimation data
  */
@@ -87,7 +290,17 @@ export interface GasEstimateData {
   gasLimit: string;
   gasPrice: string;
   totalCost: string;
-  totalCostUSD?: string;
+  /** Not priced yet; always null */
+  totalCostUSD?: string | null;
+  /** Next block's base fee in wei and slow/standard/fast tiers (EVM chains only) */
+  baseFeePerGas?: string;
+  tiers?: {
+    slow: GasFeeTier;
+    standard: GasFeeTier;
+    fast: GasFeeTier;
+  };
+  /** Energy and bandwidth breakdown (Tron only) */
+  resources?: TronResourceEstimate;
 }
 
 /**
@@ -95,28 +308,105 @@ export interface GasEstimateData {
  */
 export interface IBlockchainClient {
   /**
-   * Gets USDT balance for an address
+   * Gets an address's balance of a registered token (human-readable)
    */
-  getUSDTBalance(address: string): Promise<string>;
+  getBalance(address: string, token: TokenContract): Promise<string>;
+
+  /**
+   * Gets the balances of many addresses for several tokens in as few RPC
+   * round trips as the chain allows (Multicall3 on EVM chains, batched
+   * constant calls on Tron). A failed pair does not fail the batch.
+   */
+  getBalances(addresses: string[], tokens: TokenContract[]): Promise<BatchTokenBalance[]>;
 
   /**
    * Gets transaction details by hash
    */
-  getTransaction(txHash: string): Promise<BlockchainTransactionDetails['transaction']>;
+  getTransaction(txHash: string): Promise<BlockchainTransactionDetails>;
 
   /**
-   * Validates a USDT transaction
+   * Decodes a transaction: method and arguments, every token Transfer log,
+   * native value and internal calls
    */
-  validateUSDTTransaction(txHash: string, expectedToAddress: string): Promise<TransactionValidationResult>;
+  decodeTransaction(txHash: string): Promise<DecodedTransaction>;
 
   /**
-   * Monitors blockchain for USDT transfers
+   * Validates that a transaction transfers the token to an address
+   * (transfers to the address from batch contracts are added up)
    */
-  monitorUSDTTransfers(
+  validateTokenTransaction(
+    txHash: string,
+    expectedToAddress: string,
+    token: TokenContract
+  ): Promise<TransactionValidationResult>;
+
+  /**
+   * Monitors blockchain for transfers of the token to an address
+   */
+  monitorTokenTransfers(
     toAddress: string,
     fromBlock: number,
-    toBlock: number
-  ): Promise<USDTTransfer[]>;
+    toBlock: number,
+    token: TokenContract
+  ): Promise<TokenTransfer[]>;
+
+  /**
+   * Scans a block range for transfers of the token to any of the given addresses
+   */
+  scanTokenTransfers(
+    toAddresses: string[],
+    fromBlock: number,
+    toBlock: number,
+    token: TokenContract
+  ): Promise<TokenTransfer[]>;
+
+  /**
+   * Gets the hash of the canonical block at a height (null if not produced yet)
+   */
+  getBlockHash(blockNumber: number): Promise<string | null>;
+
+  /**
+   * Gets the block a transaction is currently included in (null if not mined)
+   */
+  getTransactionBlock(txHash: string): Promise<{ blockNumber: number; blockHash: string } | null>;
+
+  /**
+   * Gets the system wallet address used for outbound transfers (null if no key is configured)
+   */
+  getSystemWalletAddress(): string | null;
+
+  /**
+   * Signs and broadcasts a token transfer from the system wallet after checking
+   * its token and gas/energy balances. Concurrent calls with the same
+   * idempotency key share a single broadcast.
+   */
+  sendToken(
+    to: string,
+    amount: string,
+    idempotencyKey: string,
+    token: TokenContract,
+    options?: SendTokenOptions
+  ): Promise<SentTokenTransfer>;
+
+  /**
+   * Gets the system wallet's next nonce including mempool transactions (EVM chains only)
+   */
+  getPendingNonce?(): Promise<number>;
+
+  /**
+   * Gets the system wallet's count of mined transactions (EVM chains only)
+   */
+  getMinedNonce?(): Promise<number>;
+
+  /**
+   * Checks if a transaction is mined or still in the node's mempool (EVM chains only)
+   */
+  isTransactionKnown?(txHash: string): Promise<boolean>;
+
+  /**
+   * Broadcasts a speed-up or cancellation at an existing nonce (EVM chains only)
+   */
+  replaceTransaction?(request: ReplacementRequest): Promise<ReplacementTransaction>;
 
   /**
    * Gets network status
@@ -124,12 +414,12 @@ export interface IBlockchainClient {
   getNetworkStatus(): Promise<NetworkStatus>;
 
   /**
-   * Gets transaction count for address (nonce for Polygon, tx count for Tron)
+   * Gets transaction count for address (nonce on EVM chains, tx count for Tron)
    */
   getTransactionCount(chain: ChainType, address: string): Promise<number>;
 
   /**
-   * Gets native token balance (MATIC for Polygon, TRX for Tron)
+   * Gets native token balance (MATIC/ETH/BNB on EVM chains, TRX for Tron)
    */
   getNativeBalance(chain: ChainType, address: string): Promise<string>;
 
@@ -145,6 +435,10 @@ export interface IBlockchainClient {
   /**
    * Estimates gas/energy cost for transaction
    */
-  estimateGas(chain: ChainType, transactionType: string): Promise<GasEstimateData>;
+  estimateGas(
+    chain: ChainType,
+    transactionType: string,
+    options?: GasEstimateOptions
+  ): Promise<GasEstimateData>;
 }
 
@@ -0,0 +1,35 @@
+/**
+ * Mempool Source Interface
+ *
+ * Defines the contract for watching transactions that are not mined yet
+ *
+ * @module blockchain-service/domain/services
+ */
+
+/**
+ * A transaction waiting in the mempool
+ */
+export interface PendingTransaction {
+  hash: string;
+  from: string;
+  /** Recipient (a token contract for token transfers), null for contract creations */
+  to: string | null;
+  /** Calldata, 0x-prefixed */
+  input: string;
+  nonce: number | null;
+}
+
+/**
+ * Mempool source interface
+ */
+export interface IMempoolSource {
+  /**
+   * Starts watching; `onTransactions` receives each batch of newly seen transactions and must not throw
+   */
+  start(onTransactions: (transactions: PendingTransaction[]) => void): void;
+
+  /**
+   * Stops watching and releases the connection
+   */
+  stop(): void;
+}
@@ -0,0 +1,29 @@
+/**
+ * Transaction Service Client Interface
+ *
+ * Defines the contract for emitting merchant webhook events through
+ * transaction-service, which owns the webhook endpoints
+ *
+ * @module blockchain-service/domain/services
+ */
+
+import { WebhookEventType } from '@shield/shared/types';
+
+/**
+ * Transaction service client interface
+ *
+ * Calls are made from event handlers, so they authenticate as the service
+ * itself rather than forwarding a user's token.
+ */
+export interface ITransactionServiceClient {
+  /**
+   * Emits a webhook event for the merchant whose transaction has this hash.
+   * Transaction-service drops events for hashes it does not know.
+   */
+  publishWebhookEvent(
+    type: WebhookEventType,
+    txHash: string,
+    data: Record<string, unknown>,
+    correlationId?: string
+  ): Promise<void>;
+}
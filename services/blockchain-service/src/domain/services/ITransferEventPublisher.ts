@@ -0,0 +1,66 @@
+/**
+ * Transfer Event Publisher Interface
+ *
+ * Defines the contract for announcing changes to recorded transfers
+ *
+ * @module blockchain-service/domain/services
+ */
+
+import { ChainType } from '@shield/shared/types';
+import { BlockchainTxStatus } from '../entities/BlockchainTransaction';
+
+/**
+ * Transfer event types
+ * - transfer.pending: a transfer to a watched address was seen in the mempool
+ * - transfer.detected: the block scanner recorded a new transfer
+ * - transfer.confirmations: a PENDING transfer's confirmation count changed
+ * - transfer.confirmed: the transfer reached the chain's required confirmations
+ * - transfer.reversed: the transfer's block left the canonical chain (reorg)
+ */
+export type TransferEventType =
+  | 'transfer.pending'
+  | 'transfer.detected'
+  | 'transfer.confirmations'
+  | 'transfer.confirmed'
+  | 'transfer.reversed';
+
+/**
+ * Every transfer event type (e.g. for consumers that forward all of them)
+ */
+export const TRANSFER_EVENT_TYPES: readonly TransferEventType[] = [
+  'transfer.pending',
+  'transfer.detected',
+  'transfer.confirmations',
+  'transfer.confirmed',
+  'transfer.reversed',
+];
+
+/**
+ * Event emitted when a recorded transfer changes state
+ */
+export interface TransferEvent {
+  type: TransferEventType;
+  chain: ChainType;
+  txHash: string;
+  fromAddress: string;
+  toAddress: string;
+  /** Contract of the token transferred */
+  tokenAddress: string;
+  /** Amount in token units (the field name predates multi-token support) */
+  amountUSDT: string;
+  blockNumber: number | null;
+  blockHash: string | null;
+  confirmations: number;
+  status: BlockchainTxStatus;
+  occurredAt: Date;
+}
+
+/**
+ * Transfer event publisher interface
+ */
+export interface ITransferEventPublisher {
+  /**
+   * Publishes an event to all subscribers
+   */
+  publish(event: TransferEvent): void;
+}
@@ -0,0 +1,47 @@
+/**
+ * Wallet Service Client Interface
+ *
+ * Defines the contract for looking up registered wallets in wallet-service
+ *
+ * @module blockchain-service/domain/services
+ */
+
+import { ChainType } from '@shield/shared/types';
+
+/**
+ * Confirmed incoming transfer reported for deposit address reconciliation
+ */
+export interface ConfirmedDeposit {
+  chain: ChainType;
+  address: string;
+  /** Token symbol (e.g. USDT) */
+  token: string;
+  /** Amount in token units */
+  amount: string;
+  txHash: string;
+}
+
+/**
+ * Wallet service client interface
+ *
+ * Calls made by background jobs authenticate as the service itself; calls
+ * made on behalf of a user forward that user's token.
+ */
+export interface IWalletServiceClient {
+  /**
+   * Lists the addresses of all active wallets on a chain (across users)
+   */
+  getActiveAddresses(chain: ChainType, correlationId?: string): Promise<string[]>;
+
+  /**
+   * Lists the addresses of the active wallets a user owns on a chain
+   *
+   * @param accessToken - The user's own token (wallet-service scopes the list to it)
+   */
+  getUserAddresses(chain: ChainType, accessToken: string, correlationId?: string): Promise<string[]>;
+
+  /**
+   * Reports a confirmed transfer, so wallet-service can settle the deposit address it was sent to
+   */
+  reportConfirmedDeposit(deposit: ConfirmedDeposit, correlationId?: string): Promise<void>;
+}
@@ -0,0 +1,154 @@
+/**
+ * Authorize Stream Subscription Use Case
+ *
+ * Checks that a user may follow an address or a transaction on the real-time
+ * stream. Addresses must belong to one of the user's active wallets on the
+ * chain; transactions must be recorded transfers from or to one of them.
+ * Ownership is read from wallet-service with the user's own token.
+ *
+ * @module blockchain-service/domain/useCases
+ */
+
+import { IWalletServiceClient } from '../services/IWalletServiceClient';
+import { IBlockchainTransactionRepository } from '../repositories/IBlockchainTransactionRepository';
+import { isChainEnabled } from '../../config/chains';
+import { validateAddress } from '../../utils/addressValidator';
+import { ChainType, isEvmChain } from '@shield/shared/types';
+import {
+  AuthorizationError,
+  BaseError,
+  NotFoundError,
+  ValidationError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { isNonEmptyString, isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * What a client asks to follow (exactly one of address or txHash)
+ */
+export interface StreamSubscriptionRequest {
+  chain: ChainType;
+  address?: string;
+  txHash?: string;
+}
+
+/**
+ * An authorized subscription
+ */
+export interface StreamSubscription {
+  chain: ChainType;
+  kind: 'address' | 'transaction';
+  /** Address or transaction hash, as given by the client */
+  value: string;
+  /** Lookup key matched against transfer events */
+  key: string;
+}
+
+/**
+ * Builds the lookup key of a subscription (EVM addresses and hashes are case-insensitive)
+ */
+export function streamSubscriptionKey(
+  chain: ChainType,
+  kind: StreamSubscription['kind'],
+  value: string
+): string {
+  return `${kind}:${chain}:${isEvmChain(chain) ? value.toLowerCase() : value}`;
+}
+
+/**
+ * Authorize Stream Subscription Use Case
+ */
+export class AuthorizeStreamSubscriptionUseCase {
+  constructor(
+    private readonly walletServiceClient: IWalletServiceClient,
+    private readonly transactionRepository: IBlockchainTransactionRepository
+  ) {}
+
+  /**
+   * Executes the authorize stream subscription use case
+   *
+   * @param accessToken - The user's token, forwarded to wallet-service
+   * @throws ValidationError if the request is malformed or the chain is not enabled
+   * @throws NotFoundError if the transaction has not been recorded
+   * @throws AuthorizationError if the address or transaction is not the user's
+   */
+  public async execute(
+    userId: string,
+    accessToken: string,
+    request: StreamSubscriptionRequest,
+    correlationId: string = ''
+  ): Promise<StreamSubscription> {
+    const { chain, address, txHash } = request;
+
+    try {
+      if (!isChainEnabled(chain)) {
+        throw new ValidationError(`Chain ${chain} is not enabled on this service`, {
+          field: 'chain',
+          value: chain,
+        });
+      }
+
+      if (isNonEmptyString(address) === isNonEmptyString(txHash)) {
+        throw new ValidationError('Exactly one of address or txHash is required', {
+          field: 'address',
+        });
+      }
+
+      const ownedKeys = new Set(
+        (await this.walletServiceClient.getUserAddresses(chain, accessToken, correlationId)).map(
+          (owned) => streamSubscriptionKey(chain, 'address', owned)
+        )
+      );
+
+      if (isNonEmptyString(address)) {
+        validateAddress(chain, address);
+
+        if (!ownedKeys.has(streamSubscriptionKey(chain, 'address', address))) {
+          throw new AuthorizationError('Address does not belong to an active wallet of the user', {
+            chain,
+            address,
+            userId,
+          });
+        }
+
+        return { chain, kind: 'address', value: address, key: streamSubscriptionKey(chain, 'address', address) };
+      }
+
+      const hash = txHash as string;
+      const transaction = await this.transactionRepository.findByTxHash(hash);
+
+      if (!isNotNull(transaction) || transaction.chain !== chain) {
+        throw new NotFoundError('Transaction', hash, { chain });
+      }
+
+      const involvesUser =
+        ownedKeys.has(streamSubscriptionKey(chain, 'address', transaction.fromAddress)) ||
+        ownedKeys.has(streamSubscriptionKey(chain, 'address', transaction.toAddress));
+
+      if (!involvesUser) {
+        throw new AuthorizationError('Transaction does not involve a wallet of the user', {
+          chain,
+          txHash: hash,
+          userId,
+        });
+      }
+
+      return { chain, kind: 'transaction', value: hash, key: streamSubscriptionKey(chain, 'transaction', hash) };
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof BaseError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to authorize stream subscription', {
+        chain,
+        address,
+        txHash,
+        userId,
+        operation: 'authorizeStreamSubscription',
+        correlationId,
+      });
+    }
+  }
+}
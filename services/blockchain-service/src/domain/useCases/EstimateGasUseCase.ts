@@ -7,7 +7,20 @@
  */
 
 import { ChainType } from '@shield/shared/types';
-import { IBlockchainClient } from '../services/IBlockchainClient';
+import { GasEstimateData, GasEstimateOptions, IBlockchainClient } from '../services/IBlockchainClient';
+import { ResolveTokenUseCase } from './ResolveTokenUseCase';
+
+/**
+ * Transaction types that call a token contract
+ */
+const TOKEN_TRANSACTION_TYPES = new Set(['transfer_token', 'approve_token']);
+
+/**
+ * Concrete transaction to estimate, naming the token by symbol (default USDT)
+ */
+export interface EstimateGasRequest extends Omit<GasEstimateOptions, 'token'> {
+  tokenSymbol?: string;
+}
 
 export interface EstimateGasResult {
   chain: ChainType;
@@ -15,22 +28,36 @@ export interface EstimateGasResult {
   estimatedGas: string;
   gasPrice: string;
   estimatedCost: string;
-  estimatedCostUSD?: string;
+  estimatedCostUSD?: string | null;
+  /** Next block's base fee and slow/standard/fast fee tiers (EVM chains only) */
+  baseFeePerGas?: string;
+  tiers?: GasEstimateData['tiers'];
+  /** Energy and bandwidth breakdown (Tron only) */
+  resources?: GasEstimateData['resources'];
 }
 
 /**
  * Estimates transaction gas/energy costs - every call goes directly to blockchain RPC
  */
 export class EstimateGasUseCase {
-  constructor(private readonly blockchainClient: IBlockchainClient) {}
+  constructor(
+    private readonly blockchainClient: IBlockchainClient,
+    private readonly resolveTokenUseCase: ResolveTokenUseCase
+  ) {}
 
   public async execute(
     chain: ChainType,
     transactionType: string,
-    correlationId: string = ''
+    correlationId: string = '',
+    request: EstimateGasRequest = {}
   ): Promise<EstimateGasResult> {
+    const { tokenSymbol, ...options } = request;
+    const token = TOKEN_TRANSACTION_TYPES.has(transactionType)
+      ? await this.resolveTokenUseCase.execute(chain, tokenSymbol, correlationId)
+      : undefined;
+
     // ✅ DIRECT BLOCKCHAIN CALL - NO CACHE
-    const gasData = await this.blockchainClient.estimateGas(chain, transactionType);
+    const gasData = await this.blockchainClient.estimateGas(chain, transactionType, { ...options, token });
 
     return {
       chain,
@@ -39,6 +66,9 @@ export class EstimateGasUseCase {
       gasPrice: gasData.gasPrice,
       estimatedCost: gasData.totalCost,
       estimatedCostUSD: gasData.totalCostUSD,
+      baseFeePerGas: gasData.baseFeePerGas,
+      tiers: gasData.tiers,
+      resources: gasData.resources,
     };
   }
 }
@@ -0,0 +1,96 @@
+/**
+ * Get Balance Use Case
+ * 
+ * Business logic for retrieving the balance of a registered token (USDT by default)
+ * Balances are read through the cache; the block scanner invalidates an
+ * address's entry when it records a transfer touching it.
+ * 
+ * @module blockchain-service/domain/useCases
+ */
+
+import { IBlockchainClient } from '../services/IBlockchainClient';
+import { ResolveTokenUseCase } from './ResolveTokenUseCase';
+import { DEFAULT_TOKEN_SYMBOL } from '../../config/chains';
+import { cacheKeys, getCacheTtlSeconds } from '../../config/cache';
+import { CacheStore } from '@shield/shared/cache';
+import { ChainType } from '@shield/shared/types';
+import {
+  BaseError,
+  handleUnknownError,
+  ValidationError,
+} from '@shield/shared/errors';
+import { isNonEmptyString } from '@shield/shared/utils/guards';
+
+/**
+ * Get balance result
+ */
+export interface GetBalanceResult {
+  chain: ChainType;
+  address: string;
+  balance: string;
+  symbol: string;
+  tokenAddress: string;
+  /** True if the balance was served from the cache */
+  cached: boolean;
+}
+
+/**
+ * Get Balance Use Case
+ */
+export class GetBalanceUseCase {
+  constructor(
+    private readonly blockchainClient: IBlockchainClient,
+    private readonly resolveTokenUseCase: ResolveTokenUseCase,
+    private readonly cache: CacheStore
+  ) {}
+
+  /**
+   * Executes the get balance use case
+   */
+  public async execute(
+    chain: ChainType,
+    address: string,
+    tokenSymbol: string = DEFAULT_TOKEN_SYMBOL,
+    correlationId: string = ''
+  ): Promise<GetBalanceResult> {
+    try {
+      if (!isNonEmptyString(address)) {
+        throw new ValidationError('Address is required', {
+          field: 'address',
+        });
+      }
+
+      const token = await this.resolveTokenUseCase.execute(chain, tokenSymbol, correlationId);
+      const cacheKey = cacheKeys.balance(chain, address, token.symbol);
+      const cachedBalance = await this.cache.get<string>(cacheKey);
+      const balance = cachedBalance ?? await this.blockchainClient.getBalance(address, token);
+
+      if (cachedBalance === null) {
+        await this.cache.set(cacheKey, balance, getCacheTtlSeconds('balance'));
+      }
+
+      return {
+        chain,
+        address,
+        balance,
+        symbol: token.symbol,
+        tokenAddress: token.contractAddress,
+        cached: cachedBalance !== null,
+      };
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof BaseError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to get balance', {
+        chain,
+        address,
+        tokenSymbol,
+        operation: 'getBalance',
+        correlationId,
+      });
+    }
+  }
+}
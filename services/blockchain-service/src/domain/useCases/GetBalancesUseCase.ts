@@ -0,0 +1,201 @@
+/**
+ * Get Balances Use Case
+ *
+ * Business logic for retrieving the balances of many addresses for one or
+ * more registered tokens in a single request. Token decimals come from the
+ * registry, so no decimals() call is made per address. Balances already in
+ * the cache are served from it; only the missing pairs go to the node.
+ *
+ * @module blockchain-service/domain/useCases
+ */
+
+import { BatchTokenBalance, IBlockchainClient } from '../services/IBlockchainClient';
+import { ResolveTokenUseCase } from './ResolveTokenUseCase';
+import { Token } from '../entities/Token';
+import { DEFAULT_TOKEN_SYMBOL } from '../../config/chains';
+import { cacheKeys, getCacheTtlSeconds } from '../../config/cache';
+import { CacheStore } from '@shield/shared/cache';
+import { ChainType, isEvmChain } from '@shield/shared/types';
+import {
+  BaseError,
+  handleUnknownError,
+  ValidationError,
+} from '@shield/shared/errors';
+import { isNonEmptyArray } from '@shield/shared/utils/guards';
+
+/**
+ * Max distinct addresses per request
+ */
+export const MAX_BATCH_BALANCE_ADDRESSES = 500;
+
+/**
+ * Max distinct tokens per request
+ */
+export const MAX_BATCH_BALANCE_TOKENS = 10;
+
+/**
+ * Balances of one address (null for a token whose call failed)
+ */
+export interface AddressBalances {
+  address: string;
+  balances: Record<string, string | null>;
+}
+
+/**
+ * Get balances result
+ */
+export interface GetBalancesResult {
+  chain: ChainType;
+  tokens: Array<{ symbol: string; tokenAddress: string; decimals: number }>;
+  addresses: AddressBalances[];
+  /** Address/token pairs served from the cache */
+  cachedCount: number;
+  /** Address/token pairs whose balance could not be read */
+  failedCount: number;
+}
+
+/**
+ * Get Balances Use Case
+ */
+export class GetBalancesUseCase {
+  constructor(
+    private readonly blockchainClient: IBlockchainClient,
+    private readonly resolveTokenUseCase: ResolveTokenUseCase,
+    private readonly cache: CacheStore
+  ) {}
+
+  /**
+   * Executes the get balances use case
+   *
+   * @throws ValidationError if no addresses are given or a limit is exceeded
+   */
+  public async execute(
+    chain: ChainType,
+    addresses: string[],
+    tokenSymbols: string[] = [DEFAULT_TOKEN_SYMBOL],
+    correlationId: string = ''
+  ): Promise<GetBalancesResult> {
+    try {
+      if (!isNonEmptyArray<string>(addresses)) {
+        throw new ValidationError('At least one address is required', {
+          field: 'addresses',
+        });
+      }
+
+      // EVM addresses are case-insensitive; Tron's base58 addresses are not
+      const uniqueAddresses = [
+        ...new Map(
+          addresses.map((address) => [isEvmChain(chain) ? address.toLowerCase() : address, address])
+        ).values(),
+      ];
+      const symbols = isNonEmptyArray<string>(tokenSymbols) ? tokenSymbols : [DEFAULT_TOKEN_SYMBOL];
+      const uniqueSymbols = [...new Set(symbols.map(Token.normalizeSymbol))];
+
+      if (uniqueAddresses.length > MAX_BATCH_BALANCE_ADDRESSES) {
+        throw new ValidationError(`At most ${MAX_BATCH_BALANCE_ADDRESSES} addresses can be queried at once`, {
+          field: 'addresses',
+          value: uniqueAddresses.length,
+        });
+      }
+
+      if (uniqueSymbols.length > MAX_BATCH_BALANCE_TOKENS) {
+        throw new ValidationError(`At most ${MAX_BATCH_BALANCE_TOKENS} tokens can be queried at once`, {
+          field: 'tokens',
+          value: uniqueSymbols.length,
+        });
+      }
+
+      const tokens: Token[] = [];
+      for (const symbol of uniqueSymbols) {
+        tokens.push(await this.resolveTokenUseCase.execute(chain, symbol, correlationId));
+      }
+
+      const { results, cachedCount } = await this.readBalances(chain, uniqueAddresses, tokens);
+      const balancesByAddress = new Map<string, Array<[string, string | null]>>(
+        uniqueAddresses.map((address) => [address, []])
+      );
+      for (const result of results) {
+        balancesByAddress.get(result.address)?.push([result.symbol, result.balance]);
+      }
+
+      return {
+        chain,
+        tokens: tokens.map((token) => ({
+          symbol: token.symbol,
+          tokenAddress: token.contractAddress,
+          decimals: token.decimals,
+        })),
+        addresses: uniqueAddresses.map((address) => ({
+          address,
+          balances: Object.fromEntries(balancesByAddress.get(address) ?? []),
+        })),
+        cachedCount,
+        failedCount: results.filter((result) => result.balance === null).length,
+      };
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof BaseError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to get balances', {
+        chain,
+        addressCount: Array.isArray(addresses) ? addresses.length : 0,
+        tokenSymbols,
+        operation: 'getBalances',
+        correlationId,
+      });
+    }
+  }
+
+  /**
+   * Reads balances through the cache: cached pairs are returned as they are and
+   * the missing ones are fetched per token, then cached (failed reads are not)
+   */
+  private async readBalances(
+    chain: ChainType,
+    addresses: string[],
+    tokens: Token[]
+  ): Promise<{ results: BatchTokenBalance[]; cachedCount: number }> {
+    const results: BatchTokenBalance[] = [];
+    let cachedCount = 0;
+
+    for (const token of tokens) {
+      const cachedBalances = await this.cache.getMany<string>(
+        addresses.map((address) => cacheKeys.balance(chain, address, token.symbol))
+      );
+      const missingAddresses: string[] = [];
+
+      addresses.forEach((address, index) => {
+        const balance = cachedBalances[index] ?? null;
+        if (balance === null) {
+          missingAddresses.push(address);
+        } else {
+          results.push({ address, symbol: token.symbol, balance });
+          cachedCount += 1;
+        }
+      });
+
+      if (missingAddresses.length === 0) {
+        continue;
+      }
+
+      const fetched = await this.blockchainClient.getBalances(missingAddresses, [token]);
+      await Promise.all(
+        fetched
+          .filter((result) => result.balance !== null)
+          .map((result) =>
+            this.cache.set(
+              cacheKeys.balance(chain, result.address, result.symbol),
+              result.balance,
+              getCacheTtlSeconds('balance')
+            )
+          )
+      );
+      results.push(...fetched);
+    }
+
+    return { results, cachedCount };
+  }
+}
@@ -2,23 +2,36 @@
  * Get Network Status Use Case
  * 
  * Business logic for retrieving network status
+ * Every poll is also recorded in the NetworkStatus table, and the
+ * block scanner's progress is reported alongside the RPC status.
+ * Responses are cached for a few seconds, so frequent polls neither hit the
+ * node nor write a row each time.
  * 
  * @module blockchain-service/domain/useCases
  */
 
 import { IBlockchainClient } from '../services/IBlockchainClient';
-import { ChainType } from '@shield/shared/types';
+import { INetworkStatusRepository, NetworkStatusRecord } from '../repositories/INetworkStatusRepository';
+import { cacheKeys, getCacheTtlSeconds } from '../../config/cache';
+import { CacheStore } from '@shield/shared/cache';
+import { ChainType, logError } from '@shield/shared/types';
 import {
   ServiceError,
   handleUnknownError,
   ExternalServiceError,
+  ensureBaseError,
 } from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
 
 /**
  * Get Network Status Use Case
  */
 export class GetNetworkStatusUseCase {
-  constructor(private readonly blockchainClient: IBlockchainClient) {}
+  constructor(
+    private readonly blockchainClient: IBlockchainClient,
+    private readonly networkStatusRepository: INetworkStatusRepository,
+    private readonly cache: CacheStore
+  ) {}
 
   /**
    * Executes the get network status use case
@@ -28,8 +41,32 @@ export class GetNetworkStatusUseCase {
     correlationId: string = ''
   ): Promise<unknown> {
     try {
+      const cacheKey = cacheKeys.networkStatus(chain);
+      const cached = await this.cache.get<Record<string, unknown>>(cacheKey);
+      if (isNotNull(cached)) {
+        return { ...cached, cached: true };
+      }
+
       const status = await this.blockchainClient.getNetworkStatus();
-      return status;
+
+      // Clients report latestBlock as a BigInt, which JSON cannot serialize
+      const rawStatus = status as unknown as Record<string, unknown>;
+      const latestBlock = Number(rawStatus.latestBlock ?? 0);
+
+      const syncState = await this.recordSync(chain, rawStatus, latestBlock, correlationId);
+
+      // Block scanner progress; null when the database could not be reached
+      const scanner = isNotNull(syncState)
+        ? {
+          lastProcessedBlock: syncState.lastProcessedBlock,
+          lag: Math.max(syncState.latestBlock - syncState.lastProcessedBlock, 0),
+        }
+        : null;
+
+      const result = { ...rawStatus, latestBlock, scanner };
+      await this.cache.set(cacheKey, result, getCacheTtlSeconds('networkStatus'));
+
+      return { ...result, cached: false };
     } catch (error: unknown) {
       // Re-throw known errors
       if (error instanceof ServiceError || error instanceof ExternalServiceError) {
@@ -44,5 +81,30 @@ export class GetNetworkStatusUseCase {
       });
     }
   }
-}
 
+  /**
+   * Persists the poll result (best effort: the RPC answer is still returned if the database is down)
+   */
+  private async recordSync(
+    chain: ChainType,
+    status: Record<string, unknown>,
+    latestBlock: number,
+    correlationId: string
+  ): Promise<NetworkStatusRecord | null> {
+    try {
+      return await this.networkStatusRepository.recordSync(chain, {
+        latestBlock,
+        isHealthy: status.isHealthy === true,
+        currentGasPrice: typeof status.currentGasPrice === 'string' ? status.currentGasPrice : null,
+        currentEnergyPrice: typeof status.currentEnergyPrice === 'number'
+          ? status.currentEnergyPrice
+          : null,
+      });
+    } catch (error: unknown) {
+      logError(ensureBaseError(error, { chain, operation: 'recordNetworkSync', correlationId }), {
+        context: 'Failed to record network status',
+      });
+      return null;
+    }
+  }
+}
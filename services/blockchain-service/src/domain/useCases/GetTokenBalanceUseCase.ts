@@ -6,7 +6,7 @@
  * @module blockchain-service/domain/useCases
  */
 
-import { ChainType } from '@shield/shared/types';
+import { ChainType, isEvmChain } from '@shield/shared/types';
 import { IBlockchainClient } from '../services/IBlockchainClient';
 import { ValidationError } from '@shield/shared/errors';
 
@@ -60,7 +60,7 @@ export class GetTokenBalanceUseCase {
   }
 
   private isValidAddress(chain: ChainType, address: string): boolean {
-    if (chain === ChainType.POLYGON) {
+    if (isEvmChain(chain)) {
       return /^0x[0-9a-fA-F]{40}$/.test(address);
     } else if (chain === ChainType.TRON) {
       return /^T[1-9A-HJ-NP-Za-km-z]{33}$/.test(address);
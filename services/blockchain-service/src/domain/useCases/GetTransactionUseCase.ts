@@ -2,32 +2,55 @@
  * Get Transaction Use Case
  * 
  * Business logic for retrieving transaction details
+ * Final transactions already stored in the database are served without an RPC call;
+ * otherwise the node is queried and any stored record is refreshed.
+ * Final transactions are also cached without expiry, in front of the database.
+ *
+ * With `decode`, the response also carries the decoded transaction: method
+ * and arguments, every token Transfer log (with symbol and amount for
+ * registered tokens), native value and internal calls. Decodings of final
+ * transactions are cached without expiry as well.
  * 
  * @module blockchain-service/domain/useCases
  */
 
 import { IBlockchainClient } from '../services/IBlockchainClient';
-import { ChainType } from '@shield/shared/types';
+import { IBlockchainTransactionRepository } from '../repositories/IBlockchainTransactionRepository';
+import { ITokenRepository } from '../repositories/ITokenRepository';
+import { BlockchainTxStatus } from '../entities/BlockchainTransaction';
+import { getConfirmationsRequired } from '../../config/chains';
+import { cacheKeys } from '../../config/cache';
+import { CacheStore } from '@shield/shared/cache';
+import { formatTokenAmount, timestampToDate } from '../../utils/transactionParser';
+import { ChainType, isEvmChain } from '@shield/shared/types';
 import {
   ServiceError,
   handleUnknownError,
   ValidationError,
   ExternalServiceError,
 } from '@shield/shared/errors';
-import { isNonEmptyString } from '@shield/shared/utils/guards';
+import { isNonEmptyString, isNotNull } from '@shield/shared/utils/guards';
 
 /**
  * Get Transaction Use Case
  */
 export class GetTransactionUseCase {
-  constructor(private readonly blockchainClient: IBlockchainClient) {}
+  constructor(
+    private readonly blockchainClient: IBlockchainClient,
+    private readonly transactionRepository: IBlockchainTransactionRepository,
+    private readonly tokenRepository: ITokenRepository,
+    private readonly cache: CacheStore
+  ) {}
 
   /**
    * Executes the get transaction use case
+   *
+   * @param decode - Adds the decoded transaction (`decoded`) to the details
    */
   public async execute(
     chain: ChainType,
     txHash: string,
+    decode: boolean = false,
     correlationId: string = ''
   ): Promise<unknown> {
     try {
@@ -37,9 +60,12 @@ export class GetTransactionUseCase {
         });
       }
 
-      const transaction = await this.blockchainClient.getTransaction(txHash);
+      const details = await this.getDetails(chain, txHash);
+      if (!decode) {
+        return details;
+      }
 
-      return transaction;
+      return { ...details, decoded: await this.getDecoded(chain, txHash, details) };
     } catch (error: unknown) {
       // Re-throw known errors
       if (
@@ -54,10 +80,135 @@ export class GetTransactionUseCase {
       throw handleUnknownError(error, 'Failed to get transaction', {
         chain,
         txHash,
+        decode,
         operation: 'getTransaction',
         correlationId,
       });
     }
   }
-}
 
+  /**
+   * Gets the transaction details (cache, then final stored record, then the node)
+   */
+  private async getDetails(chain: ChainType, txHash: string): Promise<Record<string, unknown>> {
+    const cacheKey = cacheKeys.transaction(chain, txHash);
+    const cached = await this.cache.get<Record<string, unknown>>(cacheKey);
+    if (isNotNull(cached)) {
+      return { ...cached, cached: true };
+    }
+
+    const stored = await this.transactionRepository.findByTxHash(txHash);
+    const isStoredOnChain = isNotNull(stored) && stored.chain === chain;
+
+    const confirmationsRequired = getConfirmationsRequired(chain);
+
+    if (isStoredOnChain && stored.isFinal(confirmationsRequired) && isNotNull(stored.rawData)) {
+      const final = { ...stored.rawData, confirmations: stored.confirmations };
+      await this.cache.set(cacheKey, final);
+      return { ...final, cached: false };
+    }
+
+    const transaction = await this.blockchainClient.getTransaction(txHash) as unknown as Record<string, unknown>;
+
+    // Derive confirmations from the chain head; client-reported values are not reliable
+    const blockNumber = typeof transaction.blockNumber === 'number' ? transaction.blockNumber : null;
+    const networkStatus = await this.blockchainClient.getNetworkStatus();
+    const latestBlock = Number((networkStatus as unknown as Record<string, unknown>).latestBlock ?? 0);
+    const confirmations = isNotNull(blockNumber) && latestBlock >= blockNumber
+      ? latestBlock - blockNumber + 1
+      : 0;
+
+    const details = { ...transaction, confirmations };
+    const status = this.toTxStatus(transaction.status, confirmations, confirmationsRequired);
+
+    if (isStoredOnChain) {
+      await this.transactionRepository.save(
+        stored.withChainState({
+          status,
+          confirmations,
+          blockNumber,
+          blockHash: typeof transaction.blockHash === 'string' ? transaction.blockHash : null,
+          gasUsed: typeof transaction.gasUsed === 'string' ? transaction.gasUsed : null,
+          gasPrice: typeof transaction.gasPrice === 'string' ? transaction.gasPrice : null,
+          energyUsed: typeof transaction.energyUsed === 'number' ? transaction.energyUsed : null,
+          blockTimestamp: typeof transaction.timestamp === 'number'
+            ? timestampToDate(transaction.timestamp)
+            : null,
+          rawData: details,
+        })
+      );
+    }
+
+    // Mined and failed, or past the required confirmations: it will not change any more
+    const isFinal = isNotNull(blockNumber) &&
+      (status === BlockchainTxStatus.FAILED || status === BlockchainTxStatus.CONFIRMED);
+    if (isFinal) {
+      await this.cache.set(cacheKey, details);
+    }
+
+    return { ...details, cached: false };
+  }
+
+  /**
+   * Decodes the transaction, naming the registered tokens among its transfers
+   */
+  private async getDecoded(
+    chain: ChainType,
+    txHash: string,
+    details: Record<string, unknown>
+  ): Promise<Record<string, unknown>> {
+    const cacheKey = cacheKeys.decodedTransaction(chain, txHash);
+    const cached = await this.cache.get<Record<string, unknown>>(cacheKey);
+    if (isNotNull(cached)) {
+      return cached;
+    }
+
+    const decoded = await this.blockchainClient.decodeTransaction(txHash);
+
+    const normalize = (address: string): string => (isEvmChain(chain) ? address.toLowerCase() : address);
+    const tokens = new Map(
+      (await this.tokenRepository.findByChain(chain)).map((token) => [normalize(token.contractAddress), token])
+    );
+
+    const result = {
+      ...decoded,
+      tokenTransfers: decoded.tokenTransfers.map((transfer) => {
+        const token = tokens.get(normalize(transfer.tokenAddress));
+        return {
+          ...transfer,
+          symbol: token?.symbol ?? null,
+          amountFormatted: token ? formatTokenAmount(transfer.amount, token.decimals) : null,
+        };
+      }),
+    };
+
+    // Same finality rule as the details: mined and failed, or past the required confirmations
+    const confirmations = Number(details.confirmations ?? 0);
+    const isFinal = isNotNull(details.blockNumber ?? null) && (
+      details.status === 'failed' ||
+      (details.status === 'success' && confirmations >= getConfirmationsRequired(chain))
+    );
+    if (isFinal) {
+      await this.cache.set(cacheKey, result);
+    }
+
+    return result;
+  }
+
+  /**
+   * Maps the client's status string to the persisted status.
+   * A successful transaction stays PENDING until it has the required confirmations.
+   */
+  private toTxStatus(
+    status: unknown,
+    confirmations: number,
+    confirmationsRequired: number
+  ): BlockchainTxStatus {
+    if (status === 'success') {
+      return confirmations >= confirmationsRequired
+        ? BlockchainTxStatus.CONFIRMED
+        : BlockchainTxStatus.PENDING;
+    }
+    return status === 'failed' ? BlockchainTxStatus.FAILED : BlockchainTxStatus.PENDING;
+  }
+}
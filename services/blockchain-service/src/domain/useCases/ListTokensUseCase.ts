@@ -0,0 +1,41 @@
+/**
+ * List Tokens Use Case
+ *
+ * Lists the tokens registered for a chain, including disabled ones
+ *
+ * @module blockchain-service/domain/useCases
+ */
+
+import { ITokenRepository } from '../repositories/ITokenRepository';
+import { TokenData } from '../entities/Token';
+import { ChainType } from '@shield/shared/types';
+import { BaseError, handleUnknownError } from '@shield/shared/errors';
+
+/**
+ * List Tokens Use Case
+ */
+export class ListTokensUseCase {
+  constructor(private readonly tokenRepository: ITokenRepository) {}
+
+  /**
+   * Gets the chain's token registry, by symbol
+   */
+  public async execute(chain: ChainType, correlationId: string = ''): Promise<TokenData[]> {
+    try {
+      const tokens = await this.tokenRepository.findByChain(chain);
+      return tokens.map((token) => token.toPlainObject());
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof BaseError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to list tokens', {
+        chain,
+        operation: 'listTokens',
+        correlationId,
+      });
+    }
+  }
+}
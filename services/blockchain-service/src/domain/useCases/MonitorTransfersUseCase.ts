@@ -1,18 +1,27 @@
 /**
  * Monitor Transfers Use Case
  * 
- * Business logic for monitoring USDT transfers
+ * Business logic for monitoring token transfers (USDT by default)
+ * Every transfer found is upserted into the BlockchainTransaction table, and
+ * returned with that record's confirmations and status (CONFIRMED once the
+ * chain's required confirmations are reached, PENDING before)
  * 
  * @module blockchain-service/domain/useCases
  */
 
 import { IBlockchainClient } from '../services/IBlockchainClient';
-import { ChainType } from '@shield/shared/types';
+import { IBlockchainTransactionRepository } from '../repositories/IBlockchainTransactionRepository';
+import { BlockchainTransaction } from '../entities/BlockchainTransaction';
+import { Token } from '../entities/Token';
+import { ResolveTokenUseCase } from './ResolveTokenUseCase';
+import { DEFAULT_TOKEN_SYMBOL, getConfirmationsRequired } from '../../config/chains';
+import { timestampToDate } from '../../utils/transactionParser';
+import { ChainType, logError } from '@shield/shared/types';
 import {
-  ServiceError,
+  BaseError,
   handleUnknownError,
   ValidationError,
-  ExternalServiceError,
+  ensureBaseError,
 } from '@shield/shared/errors';
 import { isNonEmptyString, isInteger, isNonNegativeNumber } from '@shield/shared/utils/guards';
 
@@ -20,7 +29,11 @@ import { isNonEmptyString, isInteger, isNonNegativeNumber } from '@shield/shared
  * Monitor Transfers Use Case
  */
 export class MonitorTransfersUseCase {
-  constructor(private readonly blockchainClient: IBlockchainClient) {}
+  constructor(
+    private readonly blockchainClient: IBlockchainClient,
+    private readonly transactionRepository: IBlockchainTransactionRepository,
+    private readonly resolveTokenUseCase: ResolveTokenUseCase
+  ) {}
 
   /**
    * Executes the monitor transfers use case
@@ -30,6 +43,7 @@ export class MonitorTransfersUseCase {
     toAddress: string,
     fromBlock: number,
     toBlock: number,
+    tokenSymbol: string = DEFAULT_TOKEN_SYMBOL,
     correlationId: string = ''
   ): Promise<unknown[]> {
     try {
@@ -60,20 +74,26 @@ export class MonitorTransfersUseCase {
         });
       }
 
-      const transfers = await this.blockchainClient.monitorUSDTTransfers(
+      const token = await this.resolveTokenUseCase.execute(chain, tokenSymbol, correlationId);
+      const transfers = await this.blockchainClient.monitorTokenTransfers(
         toAddress,
         fromBlock,
-        toBlock
+        toBlock,
+        token
       );
 
-      return transfers;
+      const transactions = await this.toTransactions(chain, token, transfers);
+      await this.recordTransactions(chain, transactions, correlationId);
+
+      return transfers.map((transfer, index) => ({
+        ...transfer,
+        symbol: token.symbol,
+        confirmations: transactions[index].confirmations,
+        status: transactions[index].status,
+      }));
     } catch (error: unknown) {
       // Re-throw known errors
-      if (
-        error instanceof ServiceError ||
-        error instanceof ValidationError ||
-        error instanceof ExternalServiceError
-      ) {
+      if (error instanceof BaseError) {
         throw error;
       }
 
@@ -83,10 +103,68 @@ export class MonitorTransfersUseCase {
         toAddress,
         fromBlock,
         toBlock,
+        tokenSymbol,
         operation: 'monitorTransfers',
         correlationId,
       });
     }
   }
-}
 
+  /**
+   * Builds the records of the transfers, counting confirmations from the chain head
+   */
+  private async toTransactions(
+    chain: ChainType,
+    token: Token,
+    transfers: unknown[]
+  ): Promise<BlockchainTransaction[]> {
+    if (transfers.length === 0) {
+      return [];
+    }
+
+    const networkStatus = await this.blockchainClient.getNetworkStatus();
+    const latestBlock = Number((networkStatus as unknown as Record<string, unknown>).latestBlock ?? 0);
+
+    return (transfers as Array<Record<string, unknown>>).map((transfer) =>
+      BlockchainTransaction.fromTransfer(
+        chain,
+        token.contractAddress,
+        {
+          txHash: String(transfer.txHash),
+          logIndex: Number(transfer.logIndex),
+          from: String(transfer.from),
+          to: String(transfer.to),
+          amount: String(transfer.amount),
+          amountUSDT: String(transfer.amountUSDT),
+          blockNumber: Number(transfer.blockNumber),
+          blockHash: typeof transfer.blockHash === 'string' ? transfer.blockHash : null,
+          blockTimestamp: typeof transfer.timestamp === 'number'
+            ? timestampToDate(transfer.timestamp)
+            : null,
+        },
+        latestBlock,
+        getConfirmationsRequired(chain)
+      )
+    );
+  }
+
+  /**
+   * Upserts the transfers by txHash and log index (best effort: the RPC answer is still returned if the database is down)
+   */
+  private async recordTransactions(
+    chain: ChainType,
+    transactions: BlockchainTransaction[],
+    correlationId: string
+  ): Promise<void> {
+    try {
+      for (const transaction of transactions) {
+        await this.transactionRepository.save(transaction);
+      }
+    } catch (error: unknown) {
+      logError(ensureBaseError(error, { chain, operation: 'recordTransfers', correlationId }), {
+        context: 'Failed to record monitored transfers',
+        count: transactions.length,
+      });
+    }
+  }
+}
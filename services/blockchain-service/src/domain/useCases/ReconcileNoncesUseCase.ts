@@ -0,0 +1,193 @@
+/**
+ * Reconcile Nonces Use Case
+ *
+ * Keeps the system wallet's nonce sequence moving when several payout workers
+ * share it (EVM chains only). A nonce that never reaches the mempool blocks every
+ * later transaction, so nonces between the node's pending count and the
+ * allocator's next nonce are checked:
+ * - BROADCAST transfer whose transactions the node no longer knows: dropped,
+ *   cancelled at its nonce (the payout settles as FAILED once that is mined)
+ * - PENDING transfer older than NONCE_GAP_GRACE_MS: its worker died before
+ *   broadcasting, so it is marked FAILED and the nonce is filled
+ * - no transfer at all: the nonce is filled
+ *
+ * Gaps are filled with a 0-value self-transfer. BROADCAST transfers whose
+ * nonce was mined by another transaction are marked FAILED.
+ *
+ * @module blockchain-service/domain/useCases
+ */
+
+import { IBlockchainClient } from '../services/IBlockchainClient';
+import { IOutboundTransferRepository } from '../repositories/IOutboundTransferRepository';
+import { INonceRepository } from '../repositories/INonceRepository';
+import { OutboundTransfer, OutboundTransferStatus } from '../entities/OutboundTransfer';
+import { ReplaceOutboundTransferUseCase } from './ReplaceOutboundTransferUseCase';
+import { ChainType, logError, logInfo } from '@shield/shared/types';
+import {
+  BaseError,
+  BusinessLogicError,
+  ensureBaseError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Outcome of a reconciliation run
+ */
+export interface ReconcileNoncesResult {
+  /** Transactions of the system wallet that are mined */
+  minedNonce: number;
+  /** Transactions of the system wallet that are mined or in the mempool */
+  pendingNonce: number;
+  /** Next nonce the allocator will hand out */
+  nextNonce: number | null;
+  /** Nonces filled with a self-transfer */
+  gapsFilled: number;
+  /** Dropped payouts that were cancelled */
+  dropped: number;
+  /** Payouts marked FAILED */
+  failed: number;
+}
+
+/**
+ * Reconcile Nonces Use Case
+ */
+export class ReconcileNoncesUseCase {
+  constructor(
+    private readonly blockchainClient: IBlockchainClient,
+    private readonly outboundTransferRepository: IOutboundTransferRepository,
+    private readonly nonceRepository: INonceRepository,
+    private readonly replaceOutboundTransferUseCase: ReplaceOutboundTransferUseCase
+  ) {}
+
+  /**
+   * Detects and fills nonce gaps of the chain's system wallet
+   */
+  public async execute(chain: ChainType, correlationId: string = ''): Promise<ReconcileNoncesResult> {
+    try {
+      const client = this.blockchainClient;
+      const fromAddress = client.getSystemWalletAddress();
+      if (
+        !isNotNull(fromAddress) ||
+        !isNotNull(client.getMinedNonce) ||
+        !isNotNull(client.getPendingNonce) ||
+        !isNotNull(client.isTransactionKnown) ||
+        !isNotNull(client.replaceTransaction)
+      ) {
+        throw new BusinessLogicError(
+          `Nonce reconciliation is not supported on ${chain}`,
+          'nonce_reconciliation_unsupported',
+          { chain }
+        );
+      }
+
+      const [minedNonce, pendingNonce, nextNonce, unsettled] = await Promise.all([
+        client.getMinedNonce(),
+        client.getPendingNonce(),
+        this.nonceRepository.getNextNonce(chain, fromAddress),
+        this.outboundTransferRepository.findUnsettledBySender(chain, fromAddress),
+      ]);
+
+      const result: ReconcileNoncesResult = {
+        minedNonce,
+        pendingNonce,
+        nextNonce,
+        gapsFilled: 0,
+        dropped: 0,
+        failed: 0,
+      };
+
+      const byNonce = new Map<number, OutboundTransfer>();
+      for (const transfer of unsettled) {
+        byNonce.set(transfer.nonce as number, transfer);
+
+        // Mined nonce, but none of the payout's transactions made it
+        if ((transfer.nonce as number) < minedNonce &&
+          transfer.status === OutboundTransferStatus.BROADCAST &&
+          !(await this.isAnyTransactionKnown(transfer))) {
+          await this.outboundTransferRepository.update(
+            transfer.markFailed('Nonce was used by another transaction')
+          );
+          result.failed++;
+        }
+      }
+
+      if (!isNotNull(nextNonce)) {
+        return result;
+      }
+
+      // The node holds every nonce below its pending count, so gaps start there
+      const graceMs = parseInt(process.env.NONCE_GAP_GRACE_MS || '300000', 10);
+      for (let nonce = Math.max(pendingNonce, minedNonce); nonce < nextNonce; nonce++) {
+        try {
+          const transfer = byNonce.get(nonce);
+
+          if (!isNotNull(transfer)) {
+            await this.fillGap(nonce);
+            result.gapsFilled++;
+          } else if (transfer.status === OutboundTransferStatus.BROADCAST) {
+            if (!(await this.isAnyTransactionKnown(transfer))) {
+              await this.replaceOutboundTransferUseCase.execute(
+                chain,
+                transfer.idempotencyKey,
+                'cancel',
+                correlationId
+              );
+              result.dropped++;
+            }
+          } else if (Date.now() - transfer.updatedAt.getTime() > graceMs) {
+            await this.outboundTransferRepository.update(transfer.markFailed('Transfer was never broadcast'));
+            result.failed++;
+            await this.fillGap(nonce);
+            result.gapsFilled++;
+          }
+        } catch (error: unknown) {
+          // One stuck nonce should not stop the others; the next run retries it
+          logError(ensureBaseError(error, { chain, nonce, correlationId }), {
+            context: 'Failed to reconcile nonce',
+          });
+        }
+      }
+
+      if (result.gapsFilled > 0 || result.dropped > 0 || result.failed > 0) {
+        logInfo('Nonces reconciled', { chain, ...result, correlationId });
+      }
+
+      return result;
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof BaseError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to reconcile nonces', {
+        chain,
+        operation: 'reconcileNonces',
+        correlationId,
+      });
+    }
+  }
+
+  /**
+   * Checks if any transaction of a payout is mined or in the mempool
+   */
+  private async isAnyTransactionKnown(transfer: OutboundTransfer): Promise<boolean> {
+    for (const txHash of transfer.allTxHashes()) {
+      if (await this.blockchainClient.isTransactionKnown!(txHash)) {
+        return true;
+      }
+    }
+
+    return false;
+  }
+
+  /**
+   * Occupies a nonce with a 0-value self-transfer
+   */
+  private async fillGap(nonce: number): Promise<void> {
+    const filler = await this.blockchainClient.replaceTransaction!({ kind: 'cancel', nonce });
+
+    logInfo('Nonce gap filled', { nonce, txHash: filler.txHash });
+  }
+}
@@ -0,0 +1,187 @@
+/**
+ * Record Pending Transfers Use Case
+ *
+ * Picks the token transfers to registered wallets out of a batch of mempool
+ * transactions, stores each one as a PENDING BlockchainTransaction without
+ * block data and publishes a `transfer.pending` event.
+ *
+ * Transfers are recognised by their calldata: a call to an enabled token's
+ * contract decoding as transfer(address,uint256) to a watched address.
+ * Transactions that are already recorded (e.g. mined and scanned first) are
+ * left alone. The watched addresses and tokens are reloaded at most every
+ * MEMPOOL_WATCHLIST_REFRESH_MS (default: 60000), since mempool batches
+ * arrive far more often than wallets are created.
+ *
+ * @module blockchain-service/domain/useCases
+ */
+
+import { IWalletServiceClient } from '../services/IWalletServiceClient';
+import { ITransferEventPublisher } from '../services/ITransferEventPublisher';
+import { PendingTransaction } from '../services/IMempoolSource';
+import { IBlockchainTransactionRepository } from '../repositories/IBlockchainTransactionRepository';
+import { ITokenRepository } from '../repositories/ITokenRepository';
+import { BlockchainTransaction } from '../entities/BlockchainTransaction';
+import { Token } from '../entities/Token';
+import { getChainFamily } from '../../config/chains';
+import { decodeTransferCalldata, formatTokenAmount } from '../../utils/transactionParser';
+import { ChainType, logInfo } from '@shield/shared/types';
+import {
+  ConfigurationError,
+  ExternalServiceError,
+  ServiceError,
+  ValidationError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Addresses and tokens watched on a chain, keyed by lowercase address
+ */
+interface Watchlist {
+  addresses: Map<string, string>;
+  tokens: Map<string, Token>;
+  loadedAt: number;
+}
+
+/**
+ * Record Pending Transfers Use Case
+ */
+export class RecordPendingTransfersUseCase {
+  private readonly watchlists = new Map<ChainType, Watchlist>();
+
+  constructor(
+    private readonly walletServiceClient: IWalletServiceClient,
+    private readonly transactionRepository: IBlockchainTransactionRepository,
+    private readonly tokenRepository: ITokenRepository,
+    private readonly eventPublisher: ITransferEventPublisher
+  ) {}
+
+  /**
+   * Records the watched transfers among a batch of mempool transactions
+   *
+   * @returns Number of transfers recorded
+   */
+  public async execute(
+    chain: ChainType,
+    transactions: PendingTransaction[],
+    correlationId: string = ''
+  ): Promise<number> {
+    try {
+      if (getChainFamily(chain) !== 'EVM') {
+        throw new ValidationError(`Pending transfers are not watched on ${chain}`, {
+          field: 'chain',
+          value: chain,
+        });
+      }
+
+      if (transactions.length === 0) {
+        return 0;
+      }
+
+      const watchlist = await this.getWatchlist(chain, correlationId);
+      if (watchlist.addresses.size === 0 || watchlist.tokens.size === 0) {
+        return 0;
+      }
+
+      let recorded = 0;
+
+      for (const transaction of transactions) {
+        const token = isNotNull(transaction.to) ? watchlist.tokens.get(transaction.to.toLowerCase()) : undefined;
+        if (!token) {
+          continue;
+        }
+
+        const call = decodeTransferCalldata(transaction.input);
+        const recipient = isNotNull(call) ? watchlist.addresses.get(`0x${call.to}`) : undefined;
+        if (!isNotNull(call) || !recipient) {
+          continue;
+        }
+
+        // Never overwrite a record the block scanner or an earlier batch already stored
+        if (isNotNull(await this.transactionRepository.findByTxHash(transaction.hash))) {
+          continue;
+        }
+
+        const saved = await this.transactionRepository.save(
+          BlockchainTransaction.fromPendingTransfer(chain, token.contractAddress, {
+            txHash: transaction.hash,
+            from: transaction.from,
+            to: recipient,
+            amount: call.amount,
+            amountUSDT: formatTokenAmount(call.amount, token.decimals),
+            nonce: transaction.nonce,
+          })
+        );
+
+        this.eventPublisher.publish({
+          type: 'transfer.pending',
+          chain,
+          txHash: saved.txHash,
+          fromAddress: saved.fromAddress,
+          toAddress: saved.toAddress,
+          tokenAddress: saved.tokenAddress,
+          amountUSDT: saved.amountUSDT,
+          blockNumber: null,
+          blockHash: null,
+          confirmations: 0,
+          status: saved.status,
+          occurredAt: new Date(),
+        });
+        recorded += 1;
+      }
+
+      if (recorded > 0) {
+        logInfo('Pending transfers recorded', {
+          chain,
+          checked: transactions.length,
+          recorded,
+          correlationId,
+        });
+      }
+
+      return recorded;
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (
+        error instanceof ValidationError ||
+        error instanceof ExternalServiceError ||
+        error instanceof ConfigurationError ||
+        error instanceof ServiceError
+      ) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to record pending transfers', {
+        chain,
+        count: transactions.length,
+        operation: 'recordPendingTransfers',
+        correlationId,
+      });
+    }
+  }
+
+  /**
+   * Gets the watched addresses and enabled tokens of a chain, reloading them once stale
+   */
+  private async getWatchlist(chain: ChainType, correlationId: string): Promise<Watchlist> {
+    const refreshMs = parseInt(process.env.MEMPOOL_WATCHLIST_REFRESH_MS || '60000', 10);
+    const cached = this.watchlists.get(chain);
+
+    if (cached && Date.now() - cached.loadedAt < refreshMs) {
+      return cached;
+    }
+
+    const addresses = await this.walletServiceClient.getActiveAddresses(chain, correlationId);
+    const tokens = (await this.tokenRepository.findByChain(chain)).filter((token) => token.enabled);
+
+    const watchlist: Watchlist = {
+      addresses: new Map(addresses.map((address) => [address.toLowerCase(), address])),
+      tokens: new Map(tokens.map((token) => [token.contractAddress.toLowerCase(), token])),
+      loadedAt: Date.now(),
+    };
+
+    this.watchlists.set(chain, watchlist);
+    return watchlist;
+  }
+}
@@ -0,0 +1,52 @@
+/**
+ * Register Default Tokens Use Case
+ *
+ * Adds the tokens every chain supports out of the box (USDT, USDC) to the
+ * registry at startup. Tokens already registered are left alone, so changes
+ * made in the registry (a disabled token, another contract) survive restarts.
+ *
+ * @module blockchain-service/domain/useCases
+ */
+
+import { ITokenRepository } from '../repositories/ITokenRepository';
+import { Token } from '../entities/Token';
+import { getDefaultTokens } from '../../config/chains';
+import { ChainType, logInfo } from '@shield/shared/types';
+import { BaseError, handleUnknownError } from '@shield/shared/errors';
+
+/**
+ * Register Default Tokens Use Case
+ */
+export class RegisterDefaultTokensUseCase {
+  constructor(private readonly tokenRepository: ITokenRepository) {}
+
+  /**
+   * Registers the chain's default tokens that are missing
+   *
+   * @returns Number of tokens registered
+   */
+  public async execute(chain: ChainType, correlationId: string = ''): Promise<number> {
+    try {
+      const defaults = getDefaultTokens(chain).map((token) => Token.create({ chain, ...token }));
+      const registered = await this.tokenRepository.registerMissing(defaults);
+
+      if (registered > 0) {
+        logInfo('Default tokens registered', { chain, registered, correlationId });
+      }
+
+      return registered;
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof BaseError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to register default tokens', {
+        chain,
+        operation: 'registerDefaultTokens',
+        correlationId,
+      });
+    }
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Replace Outbound Transfer Use Case
+ *
+ * Replace-by-fee for a payout stuck in the mempool (EVM chains only):
+ * - speed-up: re-sends the same token transfer at its nonce with higher fees
+ * - cancel: sends 0 of the native token to the system wallet at its nonce with higher fees
+ *
+ * The new transaction is recorded for the confirmation tracker; whichever
+ * transaction at the nonce is mined settles the payout.
+ *
+ * @module blockchain-service/domain/useCases
+ */
+
+import { IBlockchainClient } from '../services/IBlockchainClient';
+import { IOutboundTransferRepository } from '../repositories/IOutboundTransferRepository';
+import { IBlockchainTransactionRepository } from '../repositories/IBlockchainTransactionRepository';
+import { ITokenRepository } from '../repositories/ITokenRepository';
+import { OutboundTransferData } from '../entities/OutboundTransfer';
+import { BlockchainTransaction, BlockchainTxStatus } from '../entities/BlockchainTransaction';
+import { ChainType, logInfo } from '@shield/shared/types';
+import {
+  BaseError,
+  BusinessLogicError,
+  NotFoundError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Token address recorded for cancellations, which move no token
+ */
+const NATIVE_TOKEN_ADDRESS = '0x0000000000000000000000000000000000000000';
+
+/**
+ * Kind of replacement
+ */
+export type ReplacementKind = 'speed-up' | 'cancel';
+
+/**
+ * Replace Outbound Transfer Use Case
+ */
+export class ReplaceOutboundTransferUseCase {
+  constructor(
+    private readonly blockchainClient: IBlockchainClient,
+    private readonly outboundTransferRepository: IOutboundTransferRepository,
+    private readonly transactionRepository: IBlockchainTransactionRepository,
+    private readonly tokenRepository: ITokenRepository
+  ) {}
+
+  /**
+   * Broadcasts a speed-up or cancellation for the payout recorded under an idempotency key
+   */
+  public async execute(
+    chain: ChainType,
+    idempotencyKey: string,
+    kind: ReplacementKind,
+    correlationId: string = ''
+  ): Promise<OutboundTransferData> {
+    try {
+      if (!isNotNull(this.blockchainClient.replaceTransaction)) {
+        throw new BusinessLogicError(
+          `Replace-by-fee is not supported on ${chain}`,
+          'replacement_unsupported',
+          { chain }
+        );
+      }
+
+      const transfer = await this.outboundTransferRepository.findByIdempotencyKey(idempotencyKey);
+      if (!isNotNull(transfer) || transfer.chain !== chain) {
+        throw new NotFoundError('Outbound transfer', idempotencyKey, { chain });
+      }
+
+      transfer.assertReplaceable();
+
+      // Looked up directly: a payout already in flight is replaced even if its token was disabled since
+      const token = await this.tokenRepository.findBySymbol(chain, transfer.tokenSymbol);
+      if (!isNotNull(token)) {
+        throw new NotFoundError('Token', transfer.tokenSymbol, { chain });
+      }
+
+      const replacement = await this.blockchainClient.replaceTransaction({
+        kind,
+        nonce: transfer.nonce as number,
+        to: transfer.toAddress,
+        amount: transfer.amount,
+        token,
+        previousMaxFeePerGas: transfer.maxFeePerGas,
+        previousMaxPriorityFeePerGas: transfer.maxPriorityFeePerGas,
+      });
+
+      const fees = {
+        maxFeePerGas: replacement.maxFeePerGas,
+        maxPriorityFeePerGas: replacement.maxPriorityFeePerGas,
+      };
+      const updated = await this.outboundTransferRepository.update(
+        kind === 'speed-up'
+          ? transfer.recordSpeedUp(replacement.txHash, fees)
+          : transfer.recordCancellation(replacement.txHash, fees)
+      );
+
+      await this.transactionRepository.save(
+        BlockchainTransaction.create({
+          txHash: replacement.txHash,
+          chain,
+          fromAddress: transfer.fromAddress,
+          toAddress: kind === 'speed-up' ? transfer.toAddress : transfer.fromAddress,
+          tokenAddress: kind === 'speed-up' ? token.contractAddress : NATIVE_TOKEN_ADDRESS,
+          amount: kind === 'speed-up' ? transfer.amount : '0',
+          amountUSDT: kind === 'speed-up' ? transfer.amountUSDT : '0',
+          status: BlockchainTxStatus.PENDING,
+        })
+      );
+
+      logInfo('Outbound transfer replaced', {
+        chain,
+        outboundTransferId: transfer.id,
+        kind,
+        nonce: transfer.nonce,
+        replacedTxHash: transfer.txHash,
+        txHash: replacement.txHash,
+        correlationId,
+      });
+
+      return updated.toPlainObject();
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof BaseError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to replace outbound transfer', {
+        chain,
+        idempotencyKey,
+        kind,
+        operation: 'replaceOutboundTransfer',
+        correlationId,
+      });
+    }
+  }
+}
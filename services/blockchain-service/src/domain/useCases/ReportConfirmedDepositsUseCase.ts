@@ -0,0 +1,128 @@
+/**
+ * Report Confirmed Deposits Use Case
+ *
+ * Reports CONFIRMED transfers to wallet-service, which settles the payment
+ * requests (deposit addresses) they pay. Each transfer is marked once
+ * wallet-service accepted it; transfers that could not be reported stay
+ * unmarked and are sent again on the next run. wallet-service ignores
+ * transfers it already reconciled, so sending one twice is harmless.
+ *
+ * Transfers of unregistered tokens (e.g. native-coin cancellations of payouts)
+ * have nothing to report and are marked straight away.
+ *
+ * @module blockchain-service/domain/useCases
+ */
+
+import { IWalletServiceClient } from '../services/IWalletServiceClient';
+import { IBlockchainTransactionRepository } from '../repositories/IBlockchainTransactionRepository';
+import { ITokenRepository } from '../repositories/ITokenRepository';
+import { ChainType, logError, logInfo } from '@shield/shared/types';
+import {
+  ServiceError,
+  ValidationError,
+  ensureBaseError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { isInteger } from '@shield/shared/utils/guards';
+
+/**
+ * Outcome of a reporting run
+ */
+export interface ReportConfirmedDepositsResult {
+  /** Transfers accepted by wallet-service */
+  reported: number;
+  /** Transfers of unregistered tokens, marked without being sent */
+  skipped: number;
+  /** Transfers that could not be reported (retried on the next run) */
+  failed: number;
+}
+
+/**
+ * Report Confirmed Deposits Use Case
+ */
+export class ReportConfirmedDepositsUseCase {
+  constructor(
+    private readonly walletServiceClient: IWalletServiceClient,
+    private readonly transactionRepository: IBlockchainTransactionRepository,
+    private readonly tokenRepository: ITokenRepository
+  ) {}
+
+  /**
+   * Reports up to `limit` unreported CONFIRMED transfers of a chain, oldest first
+   */
+  public async execute(
+    chain: ChainType,
+    limit: number,
+    correlationId: string = ''
+  ): Promise<ReportConfirmedDepositsResult> {
+    const result: ReportConfirmedDepositsResult = { reported: 0, skipped: 0, failed: 0 };
+
+    try {
+      if (!isInteger(limit) || limit < 1) {
+        throw new ValidationError('Limit must be a positive integer', {
+          field: 'limit',
+          value: limit,
+        });
+      }
+
+      const transactions = await this.transactionRepository.findUnreportedDeposits(chain, limit);
+      if (transactions.length === 0) {
+        return result;
+      }
+
+      const tokens = await this.tokenRepository.findByChain(chain);
+
+      for (const transaction of transactions) {
+        const token = tokens.find(
+          (registered) => registered.contractAddress.toLowerCase() === transaction.tokenAddress.toLowerCase()
+        );
+
+        if (token) {
+          try {
+            await this.walletServiceClient.reportConfirmedDeposit(
+              {
+                chain,
+                address: transaction.toAddress,
+                token: token.symbol,
+                amount: transaction.amountUSDT,
+                txHash: transaction.txHash,
+              },
+              correlationId
+            );
+          } catch (error: unknown) {
+            logError(ensureBaseError(error, { chain, txHash: transaction.txHash, correlationId }), {
+              context: 'Failed to report confirmed deposit, retrying on the next run',
+            });
+            result.failed += 1;
+            continue;
+          }
+        }
+
+        await this.transactionRepository.markDepositReported(transaction.id);
+
+        if (token) {
+          result.reported += 1;
+        } else {
+          result.skipped += 1;
+        }
+      }
+
+      logInfo('Confirmed deposits reported', { chain, ...result, correlationId });
+
+      return result;
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof ValidationError || error instanceof ServiceError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to report confirmed deposits', {
+        chain,
+        limit,
+        operation: 'reportConfirmedDeposits',
+        correlationId,
+      });
+    }
+  }
+}
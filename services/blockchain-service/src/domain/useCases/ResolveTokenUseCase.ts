@@ -0,0 +1,100 @@
+/**
+ * Resolve Token Use Case
+ *
+ * Looks up the registered token a request names by symbol. Use cases that
+ * read or send a token resolve it here, so an unknown or disabled token is
+ * rejected the same way everywhere. Registry lookups are cached per symbol.
+ *
+ * @module blockchain-service/domain/useCases
+ */
+
+import { ITokenRepository } from '../repositories/ITokenRepository';
+import { Token, TokenData } from '../entities/Token';
+import { DEFAULT_TOKEN_SYMBOL } from '../../config/chains';
+import { cacheKeys, getCacheTtlSeconds } from '../../config/cache';
+import { CacheStore } from '@shield/shared/cache';
+import { ChainType } from '@shield/shared/types';
+import {
+  BaseError,
+  BusinessLogicError,
+  NotFoundError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Resolve Token Use Case
+ */
+export class ResolveTokenUseCase {
+  constructor(
+    private readonly tokenRepository: ITokenRepository,
+    private readonly cache: CacheStore
+  ) {}
+
+  /**
+   * Gets an enabled token by symbol (case-insensitive)
+   *
+   * @throws NotFoundError if the token is not registered on the chain
+   * @throws BusinessLogicError if the token is disabled
+   */
+  public async execute(
+    chain: ChainType,
+    symbol: string = DEFAULT_TOKEN_SYMBOL,
+    correlationId: string = ''
+  ): Promise<Token> {
+    try {
+      const normalizedSymbol = Token.normalizeSymbol(symbol);
+      const token = await this.findToken(chain, normalizedSymbol);
+
+      if (!isNotNull(token)) {
+        throw new NotFoundError('Token', normalizedSymbol, { chain });
+      }
+
+      if (!token.enabled) {
+        throw new BusinessLogicError(
+          `${normalizedSymbol} is disabled on ${chain}`,
+          'token_disabled',
+          { chain, symbol: normalizedSymbol }
+        );
+      }
+
+      return token;
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof BaseError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to resolve token', {
+        chain,
+        symbol,
+        operation: 'resolveToken',
+        correlationId,
+      });
+    }
+  }
+
+  /**
+   * Looks a token up through the cache (unregistered symbols are not cached)
+   */
+  private async findToken(chain: ChainType, symbol: string): Promise<Token | null> {
+    const cacheKey = cacheKeys.token(chain, symbol);
+    const cached = await this.cache.get<TokenData>(cacheKey);
+
+    if (isNotNull(cached)) {
+      // Dates are cached as ISO strings
+      return Token.fromPersistence({
+        ...cached,
+        createdAt: new Date(cached.createdAt),
+        updatedAt: new Date(cached.updatedAt),
+      });
+    }
+
+    const token = await this.tokenRepository.findBySymbol(chain, symbol);
+    if (isNotNull(token)) {
+      await this.cache.set(cacheKey, token.toPlainObject(), getCacheTtlSeconds('token'));
+    }
+    return token;
+  }
+}
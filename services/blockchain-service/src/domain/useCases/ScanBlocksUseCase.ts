@@ -0,0 +1,202 @@
+/**
+ * Scan Blocks Use Case
+ *
+ * Records transfers of every enabled token (USDT, USDC, ...) to registered
+ * wallets, one block range at a time.
+ *
+ * Progress is checkpointed in NetworkStatus.lastProcessedBlock, so a restarted
+ * scanner resumes where it stopped. The first run on a chain starts at the
+ * current block. The checkpoint only advances once every transfer in the range
+ * is stored, so a failed range is scanned again on the next run. Cached
+ * balances of both sides of every recorded transfer are invalidated, then a
+ * `transfer.detected` event is published for each transfer.
+ *
+ * @module blockchain-service/domain/useCases
+ */
+
+import { IBlockchainClient } from '../services/IBlockchainClient';
+import { IWalletServiceClient } from '../services/IWalletServiceClient';
+import { ITransferEventPublisher, TransferEventType } from '../services/ITransferEventPublisher';
+import { IBlockchainTransactionRepository } from '../repositories/IBlockchainTransactionRepository';
+import { INetworkStatusRepository } from '../repositories/INetworkStatusRepository';
+import { ITokenRepository } from '../repositories/ITokenRepository';
+import { BlockchainTransaction } from '../entities/BlockchainTransaction';
+import { getConfirmationsRequired } from '../../config/chains';
+import { cacheKeys } from '../../config/cache';
+import { CacheStore } from '@shield/shared/cache';
+import { timestampToDate } from '../../utils/transactionParser';
+import { ChainType, logInfo } from '@shield/shared/types';
+import {
+  ConfigurationError,
+  ExternalServiceError,
+  ServiceError,
+  ValidationError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { isInteger, isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Outcome of scanning one batch of blocks
+ */
+export interface ScanBlocksResult {
+  /** Block range scanned (inclusive), or null if the scanner was already caught up */
+  range: { fromBlock: number; toBlock: number } | null;
+  transfersRecorded: number;
+  /** Blocks produced but not yet processed after this batch */
+  lag: number;
+}
+
+/**
+ * Scan Blocks Use Case
+ */
+export class ScanBlocksUseCase {
+  constructor(
+    private readonly blockchainClient: IBlockchainClient,
+    private readonly walletServiceClient: IWalletServiceClient,
+    private readonly transactionRepository: IBlockchainTransactionRepository,
+    private readonly networkStatusRepository: INetworkStatusRepository,
+    private readonly tokenRepository: ITokenRepository,
+    private readonly cache: CacheStore,
+    private readonly eventPublisher: ITransferEventPublisher
+  ) {}
+
+  /**
+   * Scans the next batch of at most `batchSize` blocks after the checkpoint
+   */
+  public async execute(
+    chain: ChainType,
+    batchSize: number,
+    correlationId: string = ''
+  ): Promise<ScanBlocksResult> {
+    try {
+      if (!isInteger(batchSize) || batchSize < 1) {
+        throw new ValidationError('Batch size must be a positive integer', {
+          field: 'batchSize',
+          value: batchSize,
+        });
+      }
+
+      const status = await this.blockchainClient.getNetworkStatus();
+      const rawStatus = status as unknown as Record<string, unknown>;
+
+      if (rawStatus.isHealthy !== true) {
+        throw new ExternalServiceError(`${chain} RPC`, 'Blockchain node is unreachable', 503, { chain });
+      }
+
+      // Creates the checkpoint at the current block on the first run
+      const syncState = await this.networkStatusRepository.recordSync(chain, {
+        latestBlock: Number(rawStatus.latestBlock),
+        isHealthy: true,
+      });
+
+      if (!isNotNull(syncState)) {
+        throw new ServiceError('Network status was not recorded', 500, { chain });
+      }
+
+      const { latestBlock, lastProcessedBlock } = syncState;
+      const fromBlock = lastProcessedBlock + 1;
+
+      if (fromBlock > latestBlock) {
+        return { range: null, transfersRecorded: 0, lag: 0 };
+      }
+
+      const toBlock = Math.min(latestBlock, lastProcessedBlock + batchSize);
+
+      const addresses = await this.walletServiceClient.getActiveAddresses(chain, correlationId);
+      const tokens = addresses.length > 0
+        ? (await this.tokenRepository.findByChain(chain)).filter((token) => token.enabled)
+        : [];
+      const confirmationsRequired = getConfirmationsRequired(chain);
+      let transfersRecorded = 0;
+
+      for (const token of tokens) {
+        const transfers = await this.blockchainClient.scanTokenTransfers(addresses, fromBlock, toBlock, token);
+
+        const recorded: BlockchainTransaction[] = [];
+
+        for (const transfer of transfers) {
+          recorded.push(await this.transactionRepository.save(
+            BlockchainTransaction.fromTransfer(
+              chain,
+              token.contractAddress,
+              {
+                ...transfer,
+                blockTimestamp: transfer.timestamp > 0 ? timestampToDate(transfer.timestamp) : null,
+              },
+              latestBlock,
+              confirmationsRequired
+            )
+          ));
+        }
+        await this.cache.delete(
+          ...transfers.flatMap((transfer) => [
+            cacheKeys.balance(chain, transfer.from, token.symbol),
+            cacheKeys.balance(chain, transfer.to, token.symbol),
+          ])
+        );
+        // Published after the invalidation, so subscribers re-reading a balance get the new one
+        for (const transaction of recorded) {
+          this.publish('transfer.detected', transaction);
+        }
+        transfersRecorded += transfers.length;
+      }
+
+      await this.networkStatusRepository.recordProcessedBlock(chain, toBlock);
+
+      logInfo('Block range scanned', {
+        chain,
+        fromBlock,
+        toBlock,
+        watchedAddresses: addresses.length,
+        tokens: tokens.map((token) => token.symbol),
+        transfersRecorded,
+        lag: latestBlock - toBlock,
+        correlationId,
+      });
+
+      return {
+        range: { fromBlock, toBlock },
+        transfersRecorded,
+        lag: latestBlock - toBlock,
+      };
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (
+        error instanceof ValidationError ||
+        error instanceof ExternalServiceError ||
+        error instanceof ConfigurationError ||
+        error instanceof ServiceError
+      ) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to scan blocks', {
+        chain,
+        batchSize,
+        operation: 'scanBlocks',
+        correlationId,
+      });
+    }
+  }
+
+  /**
+   * Publishes a transfer event for a stored transaction
+   */
+  private publish(type: TransferEventType, transaction: BlockchainTransaction): void {
+    this.eventPublisher.publish({
+      type,
+      chain: transaction.chain,
+      txHash: transaction.txHash,
+      fromAddress: transaction.fromAddress,
+      toAddress: transaction.toAddress,
+      tokenAddress: transaction.tokenAddress,
+      amountUSDT: transaction.amountUSDT,
+      blockNumber: transaction.blockNumber,
+      blockHash: transaction.blockHash,
+      confirmations: transaction.confirmations,
+      status: transaction.status,
+      occurredAt: new Date(),
+    });
+  }
+}
@@ -0,0 +1,276 @@
+/**
+ * Send Transfer Use Case
+ *
+ * Sends a registered token (USDT by default) from the chain's system wallet
+ * (refunds, treasury moves).
+ *
+ * The payout is recorded under the caller's idempotency key before anything
+ * is signed, so repeating a request returns the stored transfer instead of
+ * sending again. A transfer that fails keeps its key; retrying needs a new one.
+ * Once broadcast, the transaction is also recorded as a PENDING
+ * BlockchainTransaction so the confirmation tracker follows it.
+ *
+ * With a nonce repository (EVM chains), the nonce is reserved under a row lock
+ * and stored on the transfer before signing, so several payout workers can
+ * send from the same wallet. A nonce whose transfer is rejected before
+ * broadcast is handed back; if that is not possible the nonce reconciler
+ * fills the gap.
+ *
+ * @module blockchain-service/domain/useCases
+ */
+
+import { IBlockchainClient } from '../services/IBlockchainClient';
+import { IOutboundTransferRepository } from '../repositories/IOutboundTransferRepository';
+import { IBlockchainTransactionRepository } from '../repositories/IBlockchainTransactionRepository';
+import { INonceRepository } from '../repositories/INonceRepository';
+import { OutboundTransfer, OutboundTransferData } from '../entities/OutboundTransfer';
+import { BlockchainTransaction, BlockchainTxStatus } from '../entities/BlockchainTransaction';
+import { ResolveTokenUseCase } from './ResolveTokenUseCase';
+import { parseTokenAmount } from '../../utils/transactionParser';
+import { ChainType, logError, logInfo } from '@shield/shared/types';
+import {
+  BaseError,
+  ConfigurationError,
+  ConflictError,
+  ValidationError,
+  ensureBaseError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { isNonEmptyString, isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Payout request
+ */
+export interface SendTransferRequest {
+  toAddress: string;
+  /** Amount in token units (human-readable) */
+  amount: string;
+  /** Registered token symbol (default USDT) */
+  tokenSymbol?: string;
+  idempotencyKey: string;
+  /** Service that requested the payout */
+  requestedBy: string;
+  reference?: string | null;
+}
+
+/**
+ * Payout result
+ */
+export interface SendTransferResult {
+  transfer: OutboundTransferData;
+  /** True if the idempotency key was already recorded and nothing was sent */
+  replayed: boolean;
+}
+
+/**
+ * Send Transfer Use Case
+ */
+export class SendTransferUseCase {
+  constructor(
+    private readonly blockchainClient: IBlockchainClient,
+    private readonly outboundTransferRepository: IOutboundTransferRepository,
+    private readonly transactionRepository: IBlockchainTransactionRepository,
+    private readonly resolveTokenUseCase: ResolveTokenUseCase,
+    private readonly nonceRepository: INonceRepository | null = null
+  ) {}
+
+  /**
+   * Sends a payout, or returns the transfer already recorded under its idempotency key
+   */
+  public async execute(
+    chain: ChainType,
+    request: SendTransferRequest,
+    correlationId: string = ''
+  ): Promise<SendTransferResult> {
+    try {
+      if (!isNonEmptyString(request.idempotencyKey)) {
+        throw new ValidationError('Idempotency key is required', { field: 'idempotencyKey' });
+      }
+
+      if (!isNonEmptyString(request.toAddress)) {
+        throw new ValidationError('Recipient address is required', { field: 'toAddress' });
+      }
+
+      const token = await this.resolveTokenUseCase.execute(chain, request.tokenSymbol, correlationId);
+
+      // parseTokenAmount yields 0 for amounts with more decimals than the token has
+      const amount = parseTokenAmount(request.amount, token.decimals);
+      if (amount <= BigInt(0)) {
+        throw new ValidationError(
+          `Amount must be a positive ${token.symbol} amount with at most ${token.decimals} decimals`,
+          { field: 'amount', value: request.amount }
+        );
+      }
+
+      const existing = await this.outboundTransferRepository.findByIdempotencyKey(request.idempotencyKey);
+      if (isNotNull(existing)) {
+        return this.replay(existing, chain, request, token.symbol, amount);
+      }
+
+      const fromAddress = this.blockchainClient.getSystemWalletAddress();
+      if (!isNotNull(fromAddress)) {
+        throw new ConfigurationError(
+          `SHIELD_${chain}_WALLET_PRIVATE_KEY`,
+          'System wallet private key is not configured',
+          { chain }
+        );
+      }
+
+      let transfer: OutboundTransfer;
+      try {
+        transfer = await this.outboundTransferRepository.create(
+          OutboundTransfer.create({
+            idempotencyKey: request.idempotencyKey,
+            chain,
+            fromAddress,
+            toAddress: request.toAddress,
+            tokenSymbol: token.symbol,
+            amount: amount.toString(),
+            amountUSDT: request.amount,
+            requestedBy: request.requestedBy,
+            reference: request.reference,
+          })
+        );
+      } catch (error: unknown) {
+        // A concurrent request with the same key won the insert
+        const winner = error instanceof ConflictError
+          ? await this.outboundTransferRepository.findByIdempotencyKey(request.idempotencyKey)
+          : null;
+        if (isNotNull(winner)) {
+          return this.replay(winner, chain, request, token.symbol, amount);
+        }
+        throw error;
+      }
+
+      let nonce: number | null = null;
+      try {
+        nonce = await this.reserveNonce(chain, fromAddress);
+        if (isNotNull(nonce)) {
+          transfer = await this.outboundTransferRepository.update(transfer.assignNonce(nonce));
+        }
+      } catch (error: unknown) {
+        // Nothing was sent, so the transfer fails instead of staying PENDING without a nonce
+        await this.outboundTransferRepository.update(transfer.markFailed(ensureBaseError(error).message));
+        if (isNotNull(nonce) && isNotNull(this.nonceRepository)) {
+          await this.nonceRepository.release(chain, fromAddress, nonce);
+        }
+        throw error;
+      }
+
+      let sent;
+      try {
+        sent = await this.blockchainClient.sendToken(
+          request.toAddress,
+          request.amount,
+          request.idempotencyKey,
+          token,
+          { nonce: nonce ?? undefined }
+        );
+      } catch (error: unknown) {
+        // Known errors are raised before broadcast; anything else may have
+        // reached the mempool, so the transfer stays PENDING for the reconciler
+        if (error instanceof BaseError || !isNotNull(nonce)) {
+          await this.outboundTransferRepository.update(
+            transfer.markFailed(ensureBaseError(error).message)
+          );
+          if (isNotNull(nonce) && isNotNull(this.nonceRepository)) {
+            await this.nonceRepository.release(chain, fromAddress, nonce);
+          }
+        }
+        throw error;
+      }
+
+      transfer = await this.outboundTransferRepository.update(
+        transfer.markBroadcast(sent.txHash, {
+          maxFeePerGas: sent.maxFeePerGas,
+          maxPriorityFeePerGas: sent.maxPriorityFeePerGas,
+        })
+      );
+
+      // Recorded for the confirmation tracker; the payout itself is already stored
+      try {
+        await this.transactionRepository.save(
+          BlockchainTransaction.create({
+            txHash: sent.txHash,
+            chain,
+            fromAddress: sent.from,
+            toAddress: sent.to,
+            tokenAddress: token.contractAddress,
+            amount: sent.amount,
+            amountUSDT: sent.amountUSDT,
+            status: BlockchainTxStatus.PENDING,
+          })
+        );
+      } catch (error: unknown) {
+        logError(ensureBaseError(error, { chain, txHash: sent.txHash, correlationId }), {
+          context: 'Failed to record outbound transfer for confirmation tracking',
+        });
+      }
+
+      logInfo('Outbound transfer broadcast', {
+        chain,
+        outboundTransferId: transfer.id,
+        txHash: sent.txHash,
+        nonce: sent.nonce,
+        toAddress: request.toAddress,
+        tokenSymbol: token.symbol,
+        amountUSDT: request.amount,
+        requestedBy: request.requestedBy,
+        correlationId,
+      });
+
+      return { transfer: transfer.toPlainObject(), replayed: false };
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof BaseError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to send transfer', {
+        chain,
+        idempotencyKey: request.idempotencyKey,
+        operation: 'sendTransfer',
+        correlationId,
+      });
+    }
+  }
+
+  /**
+   * Reserves the sender's next nonce (null on chains without nonces)
+   */
+  private async reserveNonce(chain: ChainType, fromAddress: string): Promise<number | null> {
+    if (!isNotNull(this.nonceRepository) || !isNotNull(this.blockchainClient.getPendingNonce)) {
+      return null;
+    }
+
+    const networkNonce = await this.blockchainClient.getPendingNonce();
+    return this.nonceRepository.reserve(chain, fromAddress, networkNonce);
+  }
+
+  /**
+   * Returns a recorded transfer for a repeated request
+   *
+   * @throws ConflictError if the key was used for a different payout
+   */
+  private replay(
+    existing: OutboundTransfer,
+    chain: ChainType,
+    request: SendTransferRequest,
+    tokenSymbol: string,
+    amount: bigint
+  ): SendTransferResult {
+    if (!existing.matchesRequest({
+      chain,
+      toAddress: request.toAddress,
+      tokenSymbol,
+      amount: amount.toString(),
+    })) {
+      throw new ConflictError('Idempotency key was already used for a different transfer', {
+        idempotencyKey: request.idempotencyKey,
+      });
+    }
+
+    return { transfer: existing.toPlainObject(), replayed: true };
+  }
+}
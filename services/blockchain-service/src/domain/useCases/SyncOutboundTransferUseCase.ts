@@ -0,0 +1,119 @@
+/**
+ * Sync Outbound Transfer Use Case
+ *
+ * Applies confirmation tracker events to payouts sent from the system wallet.
+ * A confirmed transaction is checked for an on-chain revert before the payout
+ * is marked CONFIRMED; a reverted or reorged one marks the payout FAILED.
+ *
+ * A payout replaced at its nonce has several candidate transactions; the one
+ * that is mined settles it (a mined cancellation marks it FAILED) and the
+ * others, which can no longer be mined, are marked FAILED in the tracker.
+ *
+ * @module blockchain-service/domain/useCases
+ */
+
+import { IBlockchainClient } from '../services/IBlockchainClient';
+import { TransferEvent } from '../services/ITransferEventPublisher';
+import { IOutboundTransferRepository } from '../repositories/IOutboundTransferRepository';
+import { IBlockchainTransactionRepository } from '../repositories/IBlockchainTransactionRepository';
+import { OutboundTransferData, OutboundTransferStatus } from '../entities/OutboundTransfer';
+import { BlockchainTxStatus } from '../entities/BlockchainTransaction';
+import { logInfo } from '@shield/shared/types';
+import { BaseError, handleUnknownError } from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Sync Outbound Transfer Use Case
+ */
+export class SyncOutboundTransferUseCase {
+  constructor(
+    private readonly blockchainClient: IBlockchainClient,
+    private readonly outboundTransferRepository: IOutboundTransferRepository,
+    private readonly transactionRepository: IBlockchainTransactionRepository
+  ) {}
+
+  /**
+   * Updates the payout matching the event's transaction, if any
+   *
+   * @returns The updated payout, or null if the transaction is not a pending payout
+   */
+  public async execute(event: TransferEvent, correlationId: string = ''): Promise<OutboundTransferData | null> {
+    try {
+      const transfer = await this.outboundTransferRepository.findByAnyTxHash(event.txHash);
+      if (!isNotNull(transfer) || transfer.status !== OutboundTransferStatus.BROADCAST) {
+        return null;
+      }
+
+      let updated;
+      if (event.type === 'transfer.reversed') {
+        updated = transfer.markFailed('Transaction was dropped from the canonical chain by a reorg');
+      } else if (event.txHash === transfer.cancelTxHash) {
+        updated = transfer.markFailed('Cancelled by a replacement transaction');
+      } else {
+        // Inclusion alone does not mean the token transfer succeeded
+        const details = await this.blockchainClient.getTransaction(event.txHash);
+
+        if (details.status === 'failed') {
+          updated = transfer.markFailed('Transaction reverted on-chain');
+
+          const transaction = await this.transactionRepository.findByTxHash(event.txHash);
+          if (isNotNull(transaction)) {
+            await this.transactionRepository.save(
+              transaction.withChainState({
+                status: BlockchainTxStatus.FAILED,
+                confirmations: transaction.confirmations,
+              })
+            );
+          }
+        } else {
+          updated = transfer.markConfirmed(event.txHash);
+        }
+      }
+
+      const saved = await this.outboundTransferRepository.update(updated);
+
+      if (event.type === 'transfer.confirmed') {
+        await this.failReplacedTransactions(transfer.allTxHashes(), event.txHash);
+      }
+
+      logInfo('Outbound transfer updated', {
+        chain: event.chain,
+        outboundTransferId: saved.id,
+        txHash: event.txHash,
+        status: saved.status,
+        correlationId,
+      });
+
+      return saved.toPlainObject();
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof BaseError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to sync outbound transfer', {
+        chain: event.chain,
+        txHash: event.txHash,
+        operation: 'syncOutboundTransfer',
+        correlationId,
+      });
+    }
+  }
+
+  /**
+   * Marks the tracker rows of the losing transactions at the same nonce as FAILED
+   */
+  private async failReplacedTransactions(txHashes: string[], minedTxHash: string): Promise<void> {
+    for (const txHash of txHashes) {
+      if (txHash === minedTxHash) continue;
+
+      const transaction = await this.transactionRepository.findByTxHash(txHash);
+      if (isNotNull(transaction) && transaction.status === BlockchainTxStatus.PENDING) {
+        await this.transactionRepository.save(
+          transaction.withChainState({ status: BlockchainTxStatus.FAILED, confirmations: 0 })
+        );
+      }
+    }
+  }
+}
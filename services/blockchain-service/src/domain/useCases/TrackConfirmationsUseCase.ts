@@ -0,0 +1,270 @@
+/**
+ * Track Confirmations Use Case
+ *
+ * Re-checks PENDING transfers until they reach the chain's
+ * `confirmationsRequired`, then marks them CONFIRMED.
+ *
+ * Each check compares the stored block hash with the canonical block at the
+ * same height. On a mismatch the transaction is looked up again: if it was
+ * re-mined in another block its location is updated, otherwise it is marked
+ * FAILED and a `transfer.reversed` event is published. A transfer that is
+ * still PENDING publishes `transfer.confirmations` when its count changes.
+ * Transfers recorded from the mempool that are still not mined after
+ * MEMPOOL_PENDING_TIMEOUT_MS (default: 3600000) were dropped or replaced:
+ * they are marked FAILED and `transfer.reversed` is published.
+ *
+ * @module blockchain-service/domain/useCases
+ */
+
+import { IBlockchainClient } from '../services/IBlockchainClient';
+import { ITransferEventPublisher, TransferEventType } from '../services/ITransferEventPublisher';
+import { IBlockchainTransactionRepository } from '../repositories/IBlockchainTransactionRepository';
+import { BlockchainTransaction, BlockchainTxStatus, MEMPOOL_SOURCE } from '../entities/BlockchainTransaction';
+import { getConfirmationsRequired } from '../../config/chains';
+import { ChainType, logInfo } from '@shield/shared/types';
+import {
+  ConfigurationError,
+  ExternalServiceError,
+  ServiceError,
+  ValidationError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { isInteger, isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Outcome of a tracking run
+ */
+export interface TrackConfirmationsResult {
+  /** Transfers that reached the required confirmations */
+  confirmed: number;
+  /** Transfers still waiting for confirmations (or to be mined) */
+  pending: number;
+  /** Transfers that moved to another block after a reorg */
+  remined: number;
+  /** Transfers dropped from the canonical chain */
+  reversed: number;
+}
+
+/**
+ * Track Confirmations Use Case
+ */
+export class TrackConfirmationsUseCase {
+  constructor(
+    private readonly blockchainClient: IBlockchainClient,
+    private readonly transactionRepository: IBlockchainTransactionRepository,
+    private readonly eventPublisher: ITransferEventPublisher
+  ) {}
+
+  /**
+   * Checks up to `limit` PENDING transfers of a chain
+   */
+  public async execute(
+    chain: ChainType,
+    limit: number,
+    correlationId: string = ''
+  ): Promise<TrackConfirmationsResult> {
+    const result: TrackConfirmationsResult = { confirmed: 0, pending: 0, remined: 0, reversed: 0 };
+
+    try {
+      if (!isInteger(limit) || limit < 1) {
+        throw new ValidationError('Limit must be a positive integer', {
+          field: 'limit',
+          value: limit,
+        });
+      }
+
+      const pending = await this.transactionRepository.findPendingByChain(chain, limit);
+      if (pending.length === 0) {
+        return result;
+      }
+
+      const confirmationsRequired = getConfirmationsRequired(chain);
+
+      const status = await this.blockchainClient.getNetworkStatus();
+      const rawStatus = status as unknown as Record<string, unknown>;
+
+      if (rawStatus.isHealthy !== true) {
+        throw new ExternalServiceError(`${chain} RPC`, 'Blockchain node is unreachable', 503, { chain });
+      }
+
+      const latestBlock = Number(rawStatus.latestBlock);
+
+      // Transfers usually share blocks, so look up each canonical hash once per run
+      const canonicalHashes = new Map<number, string | null>();
+
+      for (const transaction of pending) {
+        const outcome = await this.track(
+          transaction,
+          latestBlock,
+          confirmationsRequired,
+          canonicalHashes
+        );
+
+        if (outcome === 'confirmed') {
+          result.confirmed += 1;
+        } else if (outcome === 'remined') {
+          result.remined += 1;
+        } else if (outcome === 'reversed') {
+          result.reversed += 1;
+        } else {
+          result.pending += 1;
+        }
+      }
+
+      logInfo('Confirmations tracked', {
+        chain,
+        latestBlock,
+        confirmationsRequired,
+        checked: pending.length,
+        ...result,
+        correlationId,
+      });
+
+      return result;
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (
+        error instanceof ValidationError ||
+        error instanceof ExternalServiceError ||
+        error instanceof ConfigurationError ||
+        error instanceof ServiceError
+      ) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to track confirmations', {
+        chain,
+        limit,
+        operation: 'trackConfirmations',
+        correlationId,
+      });
+    }
+  }
+
+  /**
+   * Re-checks a single transfer and stores its new state
+   */
+  private async track(
+    transaction: BlockchainTransaction,
+    latestBlock: number,
+    confirmationsRequired: number,
+    canonicalHashes: Map<number, string | null>
+  ): Promise<keyof TrackConfirmationsResult> {
+    let blockNumber = transaction.blockNumber;
+    let blockHash = transaction.blockHash;
+    let remined = false;
+
+    if (isNotNull(blockNumber)) {
+      const canonicalHash = await this.getCanonicalHash(blockNumber, canonicalHashes);
+
+      // The node has not caught up to this block yet; check again next run
+      if (!isNotNull(canonicalHash)) {
+        return 'pending';
+      }
+
+      if (isNotNull(blockHash) && blockHash !== canonicalHash) {
+        const location = await this.blockchainClient.getTransactionBlock(transaction.txHash);
+
+        if (!isNotNull(location)) {
+          const reversed = await this.transactionRepository.save(
+            transaction.withChainState({ status: BlockchainTxStatus.FAILED, confirmations: 0 })
+          );
+          this.publish('transfer.reversed', reversed);
+          return 'reversed';
+        }
+
+        ({ blockNumber, blockHash } = location);
+        remined = true;
+      } else {
+        // Rows recorded without a block hash are pinned to the current canonical block
+        blockHash = canonicalHash;
+      }
+    } else {
+      // Recorded without block data (e.g. validated before being mined)
+      const location = await this.blockchainClient.getTransactionBlock(transaction.txHash);
+      if (!isNotNull(location)) {
+        if (!this.isDroppedFromMempool(transaction)) {
+          return 'pending';
+        }
+
+        const dropped = await this.transactionRepository.save(
+          transaction.withChainState({ status: BlockchainTxStatus.FAILED, confirmations: 0 })
+        );
+        this.publish('transfer.reversed', dropped);
+        return 'reversed';
+      }
+
+      ({ blockNumber, blockHash } = location);
+    }
+
+    const confirmations = latestBlock >= blockNumber ? latestBlock - blockNumber + 1 : 0;
+    const isConfirmed = confirmations >= confirmationsRequired;
+
+    const updated = await this.transactionRepository.save(
+      transaction.withChainState({
+        status: isConfirmed ? BlockchainTxStatus.CONFIRMED : BlockchainTxStatus.PENDING,
+        confirmations,
+        blockNumber,
+        blockHash,
+      })
+    );
+
+    if (isConfirmed) {
+      this.publish('transfer.confirmed', updated);
+      return 'confirmed';
+    }
+
+    if (confirmations !== transaction.confirmations) {
+      this.publish('transfer.confirmations', updated);
+    }
+
+    return remined ? 'remined' : 'pending';
+  }
+
+  /**
+   * Checks if a transfer seen in the mempool has waited too long to be mined
+   */
+  private isDroppedFromMempool(transaction: BlockchainTransaction): boolean {
+    if (transaction.rawData?.source !== MEMPOOL_SOURCE) {
+      return false;
+    }
+
+    const timeoutMs = parseInt(process.env.MEMPOOL_PENDING_TIMEOUT_MS || '3600000', 10);
+    return Date.now() - transaction.createdAt.getTime() > timeoutMs;
+  }
+
+  /**
+   * Gets the canonical block hash at a height, cached for the current run
+   */
+  private async getCanonicalHash(
+    blockNumber: number,
+    canonicalHashes: Map<number, string | null>
+  ): Promise<string | null> {
+    if (!canonicalHashes.has(blockNumber)) {
+      canonicalHashes.set(blockNumber, await this.blockchainClient.getBlockHash(blockNumber));
+    }
+
+    return canonicalHashes.get(blockNumber) ?? null;
+  }
+
+  /**
+   * Publishes a transfer event for a stored transaction
+   */
+  private publish(type: TransferEventType, transaction: BlockchainTransaction): void {
+    this.eventPublisher.publish({
+      type,
+      chain: transaction.chain,
+      txHash: transaction.txHash,
+      fromAddress: transaction.fromAddress,
+      toAddress: transaction.toAddress,
+      tokenAddress: transaction.tokenAddress,
+      amountUSDT: transaction.amountUSDT,
+      blockNumber: transaction.blockNumber,
+      blockHash: transaction.blockHash,
+      confirmations: transaction.confirmations,
+      status: transaction.status,
+      occurredAt: new Date(),
+    });
+  }
+}
@@ -1,26 +1,36 @@
 /**
  * Validate Transaction Use Case
  * 
- * Business logic for validating USDT transactions
+ * Business logic for validating token transfers (USDT by default)
+ * Valid transfers not seen before are inserted into the BlockchainTransaction table
  * 
  * @module blockchain-service/domain/useCases
  */
 
-import { IBlockchainClient } from '../services/IBlockchainClient';
-import { ChainType } from '@shield/shared/types';
+import { IBlockchainClient, ValidTransactionResult } from '../services/IBlockchainClient';
+import { IBlockchainTransactionRepository } from '../repositories/IBlockchainTransactionRepository';
+import { BlockchainTransaction, BlockchainTxStatus } from '../entities/BlockchainTransaction';
+import { Token } from '../entities/Token';
+import { ResolveTokenUseCase } from './ResolveTokenUseCase';
+import { DEFAULT_TOKEN_SYMBOL } from '../../config/chains';
+import { ChainType, logError } from '@shield/shared/types';
 import {
-  ServiceError,
+  BaseError,
   handleUnknownError,
   ValidationError,
-  ExternalServiceError,
+  ensureBaseError,
 } from '@shield/shared/errors';
-import { isNonEmptyString } from '@shield/shared/utils/guards';
+import { isNonEmptyString, isNotNull } from '@shield/shared/utils/guards';
 
 /**
  * Validate Transaction Use Case
  */
 export class ValidateTransactionUseCase {
-  constructor(private readonly blockchainClient: IBlockchainClient) {}
+  constructor(
+    private readonly blockchainClient: IBlockchainClient,
+    private readonly transactionRepository: IBlockchainTransactionRepository,
+    private readonly resolveTokenUseCase: ResolveTokenUseCase
+  ) {}
 
   /**
    * Executes the validate transaction use case
@@ -29,6 +39,7 @@ export class ValidateTransactionUseCase {
     chain: ChainType,
     txHash: string,
     expectedToAddress: string,
+    tokenSymbol: string = DEFAULT_TOKEN_SYMBOL,
     correlationId: string = ''
   ): Promise<unknown> {
     try {
@@ -44,19 +55,21 @@ export class ValidateTransactionUseCase {
         });
       }
 
-      const validation = await this.blockchainClient.validateUSDTTransaction(
+      const token = await this.resolveTokenUseCase.execute(chain, tokenSymbol, correlationId);
+      const validation = await this.blockchainClient.validateTokenTransaction(
         txHash,
-        expectedToAddress
+        expectedToAddress,
+        token
       );
 
-      return validation;
+      if (validation.valid) {
+        await this.recordTransfer(chain, txHash, token, validation, correlationId);
+      }
+
+      return { ...validation, symbol: token.symbol };
     } catch (error: unknown) {
       // Re-throw known errors
-      if (
-        error instanceof ServiceError ||
-        error instanceof ValidationError ||
-        error instanceof ExternalServiceError
-      ) {
+      if (error instanceof BaseError) {
         throw error;
       }
 
@@ -65,10 +78,47 @@ export class ValidateTransactionUseCase {
         chain,
         txHash,
         expectedToAddress,
+        tokenSymbol,
         operation: 'validateTransaction',
         correlationId,
       });
     }
   }
-}
 
+  /**
+   * Inserts the transfer if it is not stored yet (best effort: the validation
+   * result is still returned if the database is down). Existing rows are left
+   * alone because they already carry block data the validation does not return.
+   * New rows start PENDING; the confirmation tracker fills in the block.
+   */
+  private async recordTransfer(
+    chain: ChainType,
+    txHash: string,
+    token: Token,
+    validation: ValidTransactionResult,
+    correlationId: string
+  ): Promise<void> {
+    try {
+      if (isNotNull(await this.transactionRepository.findByTxHash(txHash))) {
+        return;
+      }
+
+      await this.transactionRepository.save(
+        BlockchainTransaction.create({
+          txHash,
+          chain,
+          fromAddress: validation.from,
+          toAddress: validation.to,
+          tokenAddress: token.contractAddress,
+          amount: validation.amount,
+          amountUSDT: validation.amountUSDT,
+          status: BlockchainTxStatus.PENDING,
+        })
+      );
+    } catch (error: unknown) {
+      logError(ensureBaseError(error, { chain, txHash, operation: 'recordTransfer', correlationId }), {
+        context: 'Failed to record validated transfer',
+      });
+    }
+  }
+}
@@ -6,7 +6,7 @@
  * @module blockchain-service/domain/useCases
  */
 
-import { ChainType } from '@shield/shared/types';
+import { ChainType, isEvmChain } from '@shield/shared/types';
 import { IBlockchainClient } from '../services/IBlockchainClient';
 import { ValidationError } from '@shield/shared/errors';
 
@@ -42,7 +42,7 @@ export class VerifyWalletUseCase {
 
     // ✅ DIRECT BLOCKCHAIN CALL - NO CACHE
     try {
-      // Get transaction count (nonce for Polygon, transaction count for Tron)
+      // Get transaction count (nonce on EVM chains, transaction count for Tron)
       const transactionCount = await this.blockchainClient.getTransactionCount(chain, address);
       
       // Get balance (native token balance as existence check)
@@ -73,8 +73,8 @@ export class VerifyWalletUseCase {
   }
 
   private isValidAddress(chain: ChainType, address: string): boolean {
-    if (chain === ChainType.POLYGON) {
-      // Ethereum/Polygon address format: 0x followed by 40 hex characters
+    if (isEvmChain(chain)) {
+      // EVM address format: 0x followed by 40 hex characters
       return /^0x[0-9a-fA-F]{40}$/.test(address);
     } else if (chain === ChainType.TRON) {
       // Tron address format: T followed by 33 base58 characters
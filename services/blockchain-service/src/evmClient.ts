@@ -0,0 +1,1095 @@
+/**
+ * EVM Network Client using Ethers.js
+ * 
+ * Handles EVM network interactions (Polygon, Ethereum, Arbitrum, Base, BSC)
+ * for ERC-20 token transactions (USDT, USDC, ...). One client per chain,
+ * parameterized by its config. Token contracts come from the token registry.
+ * 
+ * @module blockchain-service/evmClient
+ */
+
+import { ethers } from 'ethers';
+import { ChainType, logError, logInfo } from '@shield/shared/types';
+import { weiToToken, tokenToWei } from '@shield/shared/utils';
+import { BaseError, BusinessLogicError, ConfigurationError, ValidationError } from '@shield/shared/errors';
+import {
+  FEE_HISTORY_BLOCK_COUNT,
+  FEE_HISTORY_PERCENTILES,
+  FeeCaps,
+  FeeHistory,
+  FeeTier,
+  FeeTiers,
+  TransactionType,
+  calculateFeeTiers,
+  calculateLegacyFeeTiers,
+  estimateTierCost,
+  getStandardGasLimit,
+} from './utils/gasEstimator';
+import { PooledJsonRpcProvider } from './data/clients/PooledJsonRpcProvider';
+import { TransactionValidationResult } from './domain/services/IBlockchainClient';
+import {
+  DecodedMethodCall,
+  decodeMethodCall,
+  decodeTokenTransfers,
+  toChecksumAddress,
+} from './utils/transactionParser';
+
+/**
+ * ERC-20 standard functions and events
+ */
+const ERC20_ABI = [
+  'function balanceOf(address owner) view returns (uint256)',
+  'function decimals() view returns (uint8)',
+  'function transfer(address to, uint256 amount) returns (bool)',
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function symbol() view returns (string)',
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+];
+
+/**
+ * Multicall3, deployed at the same address on every supported EVM chain
+ */
+const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+const MULTICALL3_ABI = [
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+];
+
+/**
+ * Max balanceOf calls aggregated into a single eth_call
+ */
+const MULTICALL_BATCH_SIZE = 500;
+
+/**
+ * Max addresses OR-ed into a single Transfer log filter
+ */
+const SCAN_ADDRESS_CHUNK_SIZE = 50;
+
+/**
+ * Minimum fee bump for a replacement, in percent (nodes reject less than 10%)
+ */
+const REPLACEMENT_FEE_BUMP_PERCENT = BigInt(125);
+
+/**
+ * Gas limit of a plain native transfer (used for cancellations)
+ */
+const NATIVE_TRANSFER_GAS_LIMIT = BigInt(21000);
+
+/**
+ * Frame of a callTracer trace (debug_traceTransaction)
+ */
+interface CallFrame {
+  type: string;
+  from: string;
+  to?: string;
+  value?: string;
+  input?: string;
+  error?: string;
+  calls?: CallFrame[];
+}
+
+/**
+ * Call made by a contract while a transaction executed
+ */
+interface InternalCall {
+  depth: number | null;
+  type: string;
+  from: string;
+  to: string | null;
+  value: string;
+  method: DecodedMethodCall | null;
+  error: string | null;
+}
+
+/**
+ * Registered token contract
+ */
+interface TokenContract {
+  symbol: string;
+  contractAddress: string;
+  decimals: number;
+}
+
+/**
+ * One address's balance of one token in a batch lookup
+ */
+interface BatchTokenBalance {
+  address: string;
+  symbol: string;
+  balance: string | null;
+  error?: string;
+}
+
+/**
+ * Concrete transaction to estimate
+ */
+interface GasEstimateOptions {
+  token?: TokenContract;
+  from?: string;
+  to?: string;
+  amount?: string;
+}
+
+/**
+ * EVM network configuration
+ */
+interface EvmConfig {
+  chain: ChainType;
+  /** RPC endpoint URLs in order of preference (calls fail over between them) */
+  rpcUrls: string[];
+  chainId: number;
+  /** Native token gas is paid in (MATIC, ETH, BNB) */
+  nativeSymbol: string;
+  /** System wallet key used for outbound transfers (optional) */
+  privateKey?: string;
+  /** Multiplier applied to oracle fees (GAS_PRICE_MULTIPLIER, default: 1) */
+  gasPriceMultiplier?: number;
+  /** Cap for maxFeePerGas in gwei (MAX_GAS_PRICE, optional) */
+  maxGasPriceGwei?: number;
+}
+
+/**
+ * Token transfer broadcast from the system wallet
+ */
+interface SentTokenTransfer {
+  txHash: string;
+  from: string;
+  to: string;
+  amount: string;
+  amountUSDT: string;
+  nonce: number;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+}
+
+/**
+ * Replace-by-fee request for a broadcast stuck at a nonce
+ */
+interface ReplacementRequest {
+  kind: 'speed-up' | 'cancel';
+  nonce: number;
+  token?: TokenContract;
+  to?: string;
+  amount?: string;
+  previousMaxFeePerGas?: string | null;
+  previousMaxPriorityFeePerGas?: string | null;
+}
+
+/**
+ * EVM client for interacting with an EVM network
+ */
+export class EvmClient {
+  private provider: PooledJsonRpcProvider;
+  private tokenContracts = new Map<string, ethers.Contract>();
+  private config: EvmConfig;
+  private signer: ethers.Wallet | null;
+  private inFlightSends = new Map<string, Promise<SentTokenTransfer>>();
+  private feeCaps: FeeCaps;
+
+  constructor(config: EvmConfig) {
+    this.config = config;
+    this.provider = new PooledJsonRpcProvider(config.chain, config.rpcUrls, config.chainId);
+    this.signer = config.privateKey ? new ethers.Wallet(config.privateKey, this.provider) : null;
+    this.feeCaps = {
+      multiplier: config.gasPriceMultiplier ?? 1,
+      maxFeePerGas: config.maxGasPriceGwei ? ethers.parseUnits(config.maxGasPriceGwei.toString(), 'gwei') : null,
+    };
+  }
+
+  /**
+   * Gets the ERC-20 contract of a token (one instance per address)
+   */
+  private getTokenContract(contractAddress: string): ethers.Contract {
+    const key = contractAddress.toLowerCase();
+    let contract = this.tokenContracts.get(key);
+    if (!contract) {
+      contract = new ethers.Contract(contractAddress, ERC20_ABI, this.provider);
+      this.tokenContracts.set(key, contract);
+    }
+    return contract;
+  }
+
+  /**
+   * Gets a token balance for an address
+   * 
+   * @param address - Wallet address to check
+   * @param token - Registered token
+   * @returns Token balance as string (human-readable)
+   */
+  async getBalance(address: string, token: TokenContract): Promise<string> {
+    try {
+      // Normalize address to checksummed format
+      const checksummedAddress = ethers.getAddress(address);
+      const balance = await this.getTokenContract(token.contractAddress).balanceOf(checksummedAddress);
+      return weiToToken(balance.toString(), token.decimals);
+    } catch (error) {
+      logError(error as Error, { address, token: token.symbol, chain: this.config.chain, context: 'get-balance' });
+      throw new Error(`Failed to get ${token.symbol} balance: ${error}`);
+    }
+  }
+
+  /**
+   * Gets the balances of many addresses for several tokens through Multicall3
+   *
+   * Each address/token pair is an aggregate3 call that is allowed to fail, so
+   * one reverting token does not fail the batch. Calls are sent in chunks of
+   * MULTICALL_BATCH_SIZE.
+   *
+   * @param addresses - Wallet addresses to check
+   * @param tokens - Registered tokens
+   * @returns One entry per address/token pair (balance null if its call failed)
+   */
+  async getBalances(addresses: string[], tokens: TokenContract[]): Promise<BatchTokenBalance[]> {
+    try {
+      const erc20 = new ethers.Interface(ERC20_ABI);
+      const multicall = new ethers.Contract(MULTICALL3_ADDRESS, MULTICALL3_ABI, this.provider);
+      const pairs = tokens.flatMap((token) => addresses.map((address) => ({ address, token })));
+      const results: BatchTokenBalance[] = [];
+
+      for (let i = 0; i < pairs.length; i += MULTICALL_BATCH_SIZE) {
+        const chunk = pairs.slice(i, i + MULTICALL_BATCH_SIZE);
+        const calls = chunk.map(({ address, token }) => ({
+          target: token.contractAddress,
+          allowFailure: true,
+          callData: erc20.encodeFunctionData('balanceOf', [ethers.getAddress(address)]),
+        }));
+
+        // aggregate3 is payable, so it has to be invoked as a static call
+        const responses: Array<{ success: boolean; returnData: string }> =
+          await multicall.aggregate3.staticCall(calls);
+
+        chunk.forEach(({ address, token }, index) => {
+          const response = responses[index];
+          if (!response?.success || response.returnData === '0x') {
+            results.push({ address, symbol: token.symbol, balance: null, error: 'balanceOf call failed' });
+            return;
+          }
+          const [balance] = erc20.decodeFunctionResult('balanceOf', response.returnData);
+          results.push({ address, symbol: token.symbol, balance: weiToToken(balance.toString(), token.decimals) });
+        });
+      }
+
+      return results;
+    } catch (error) {
+      logError(error as Error, {
+        addressCount: addresses.length,
+        tokens: tokens.map((token) => token.symbol),
+        chain: this.config.chain,
+        context: 'get-balances',
+      });
+      throw new Error(`Failed to get balances: ${error}`);
+    }
+  }
+
+  /**
+   * Gets transaction details by hash
+   * 
+   * @param txHash - Transaction hash
+   * @returns Transaction details
+   */
+  async getTransaction(txHash: string) {
+    try {
+      const tx = await this.provider.getTransaction(txHash);
+      if (!tx) {
+        throw new Error('Transaction not found');
+      }
+
+      const receipt = await this.provider.getTransactionReceipt(txHash);
+      const block = await this.provider.getBlock(tx.blockNumber || 0);
+
+      return {
+        hash: tx.hash,
+        from: tx.from,
+        to: tx.to,
+        value: tx.value.toString(),
+        blockNumber: tx.blockNumber,
+        blockHash: tx.blockHash,
+        // ethers v6 exposes confirmations as an async method on the receipt
+        confirmations: receipt ? await receipt.confirmations() : 0,
+        status: receipt?.status === 1 ? 'success' : receipt?.status === 0 ? 'failed' : 'pending',
+        gasUsed: receipt?.gasUsed.toString(),
+        gasPrice: tx.gasPrice?.toString(),
+        timestamp: block?.timestamp,
+      };
+    } catch (error) {
+      logError(error as Error, { txHash, chain: this.config.chain, context: 'get-transaction' });
+      throw new Error(`Failed to get transaction: ${error}`);
+    }
+  }
+
+  /**
+   * Decodes a transaction: method and arguments, every token Transfer log,
+   * native value and internal calls
+   *
+   * Internal calls come from a `callTracer` trace; they are null when the
+   * node does not serve debug_traceTransaction (most public RPC endpoints).
+   *
+   * @param txHash - Transaction hash
+   * @returns Decoded transaction
+   */
+  async decodeTransaction(txHash: string) {
+    try {
+      const tx = await this.provider.getTransaction(txHash);
+      if (!tx) {
+        throw new Error('Transaction not found');
+      }
+
+      const receipt = await this.provider.getTransactionReceipt(txHash);
+
+      return {
+        nativeValue: tx.value.toString(),
+        nativeValueFormatted: ethers.formatEther(tx.value),
+        method: decodeMethodCall(tx.data),
+        tokenTransfers: decodeTokenTransfers(receipt?.logs ?? []).map((transfer) => ({
+          logIndex: transfer.logIndex,
+          tokenAddress: toChecksumAddress(transfer.tokenAddress),
+          from: toChecksumAddress(transfer.from),
+          to: toChecksumAddress(transfer.to),
+          amount: transfer.amount,
+        })),
+        internalCalls: receipt ? await this.traceInternalCalls(txHash) : null,
+      };
+    } catch (error) {
+      logError(error as Error, { txHash, chain: this.config.chain, context: 'decode-transaction' });
+      throw new Error(`Failed to decode transaction: ${error}`);
+    }
+  }
+
+  /**
+   * Lists the calls made during a mined transaction, depth first (null if tracing is unavailable)
+   */
+  private async traceInternalCalls(txHash: string): Promise<InternalCall[] | null> {
+    let trace: CallFrame;
+    try {
+      trace = (await this.provider.send('debug_traceTransaction', [
+        txHash,
+        { tracer: 'callTracer' },
+      ])) as CallFrame;
+    } catch {
+      return null;
+    }
+
+    const calls: InternalCall[] = [];
+    const visit = (frame: CallFrame, depth: number): void => {
+      calls.push({
+        depth,
+        type: frame.type,
+        from: ethers.getAddress(frame.from),
+        to: frame.to ? ethers.getAddress(frame.to) : null,
+        value: frame.value ? BigInt(frame.value).toString() : '0',
+        method: decodeMethodCall(frame.input),
+        error: frame.error ?? null,
+      });
+      (frame.calls || []).forEach((child) => visit(child, depth + 1));
+    };
+
+    // The root frame is the transaction itself
+    (trace?.calls || []).forEach((child) => visit(child, 1));
+    return calls;
+  }
+
+  /**
+   * Validates if a transaction is a transfer of a token to a specific address
+   * 
+   * @param txHash - Transaction hash
+   * @param expectedToAddress - Expected recipient address
+   * @param token - Registered token
+   * @returns Transaction validation result
+   */
+  async validateTokenTransaction(
+    txHash: string,
+    expectedToAddress: string,
+    token: TokenContract
+  ): Promise<TransactionValidationResult> {
+    try {
+      const receipt = await this.provider.getTransactionReceipt(txHash);
+      if (!receipt) {
+        return { valid: false, reason: 'Transaction receipt not found' };
+      }
+
+      // Check if transaction was successful
+      if (receipt.status !== 1) {
+        return { valid: false, reason: 'Transaction failed' };
+      }
+
+      // Parse Transfer events from the token contract
+      const contract = this.getTokenContract(token.contractAddress);
+      const transferEvents = receipt.logs
+        .filter((log) => log.address.toLowerCase() === token.contractAddress.toLowerCase())
+        .map((log) => contract.interface.parseLog({ topics: [...log.topics], data: log.data }))
+        .filter((event): event is ethers.LogDescription => event?.name === 'Transfer');
+
+      if (transferEvents.length === 0) {
+        return { valid: false, reason: `Not a ${token.symbol} transfer` };
+      }
+
+      // Batch payouts may pay the same address more than once in a transaction
+      const received = transferEvents.filter(
+        (event) => event.args.to.toLowerCase() === expectedToAddress.toLowerCase()
+      );
+      if (received.length === 0) {
+        return { valid: false, reason: 'Recipient address mismatch' };
+      }
+
+      const [transferEvent] = received;
+      const toAddress = transferEvent.args.to;
+      const amount = received.reduce((total, event) => total + BigInt(event.args.value), BigInt(0)).toString();
+      const amountUSDT = weiToToken(amount, token.decimals);
+
+      return {
+        valid: true,
+        from: transferEvent.args.from,
+        to: toAddress,
+        amount,
+        amountUSDT,
+        confirmations: await receipt.confirmations(),
+      };
+    } catch (error) {
+      logError(error as Error, { txHash, chain: this.config.chain, context: 'validate-transaction' });
+      return { valid: false, reason: `Validation error: ${error}` };
+    }
+  }
+
+  /**
+   * Gets current network status
+   * 
+   * @returns Network status information
+   */
+  async getNetworkStatus() {
+    try {
+      const blockNumber = await this.provider.getBlockNumber();
+      const gasPrice = await this.provider.getFeeData();
+
+      return {
+        chainId: this.config.chainId,
+        latestBlock: BigInt(blockNumber),
+        currentGasPrice: gasPrice.gasPrice?.toString() || '0',
+        isHealthy: true,
+        rpcPool: this.provider.getPoolState(),
+      };
+    } catch (error) {
+      logError(error as Error, { chain: this.config.chain, context: 'network-status' });
+      return {
+        chainId: this.config.chainId,
+        latestBlock: BigInt(0),
+        currentGasPrice: '0',
+        isHealthy: false,
+        rpcPool: this.provider.getPoolState(),
+      };
+    }
+  }
+
+  /**
+   * Monitors blocks for transfers of a token to a specific address
+   * 
+   * @param toAddress - Address to monitor
+   * @param fromBlock - Starting block number
+   * @param toBlock - Ending block number
+   * @param token - Registered token
+   * @returns Array of token transfer transactions
+   */
+  async monitorTokenTransfers(
+    toAddress: string,
+    fromBlock: number,
+    toBlock: number,
+    token: TokenContract
+  ) {
+    try {
+      // Normalize address to checksummed format
+      const checksummedAddress = ethers.getAddress(toAddress);
+      const contract = this.getTokenContract(token.contractAddress);
+      const filter = contract.filters.Transfer(null, checksummedAddress);
+      const events = await contract.queryFilter(filter, fromBlock, toBlock);
+
+      const latestBlock = await this.provider.getBlockNumber();
+
+      // Logs the contract ABI could not decode carry no args and are skipped
+      const decoded = events.filter((event): event is ethers.EventLog => event instanceof ethers.EventLog);
+
+      const transfers = await Promise.all(
+        decoded.map(async (event) => {
+          const block = await event.getBlock();
+
+          return {
+            txHash: event.transactionHash,
+            logIndex: event.index,
+            from: event.args.from,
+            to: event.args.to,
+            amount: event.args.value.toString(),
+            amountUSDT: weiToToken(event.args.value.toString(), token.decimals),
+            blockNumber: event.blockNumber,
+            blockHash: event.blockHash,
+            confirmations: latestBlock - event.blockNumber + 1,
+            timestamp: block?.timestamp,
+          };
+        })
+      );
+
+      logInfo('Token transfers monitored', {
+        chain: this.config.chain,
+        token: token.symbol,
+        toAddress,
+        count: transfers.length,
+        fromBlock,
+        toBlock,
+      });
+
+      return transfers;
+    } catch (error) {
+      logError(error as Error, {
+        chain: this.config.chain,
+        toAddress,
+        token: token.symbol,
+        fromBlock,
+        toBlock,
+        context: 'monitor-transfers',
+      });
+      throw new Error(`Failed to monitor transfers: ${error}`);
+    }
+  }
+
+  /**
+   * Scans blocks for transfers of a token to any of the given addresses
+   *
+   * Addresses are OR-ed into the `to` topic of a single log filter, in chunks
+   * of SCAN_ADDRESS_CHUNK_SIZE to keep requests within RPC node limits.
+   *
+   * @param toAddresses - Addresses to watch
+   * @param fromBlock - Starting block number
+   * @param toBlock - Ending block number
+   * @param token - Registered token
+   * @returns Array of token transfer transactions
+   */
+  async scanTokenTransfers(
+    toAddresses: string[],
+    fromBlock: number,
+    toBlock: number,
+    token: TokenContract
+  ) {
+    try {
+      const checksummedAddresses = toAddresses.map((address) => ethers.getAddress(address));
+      const contract = this.getTokenContract(token.contractAddress);
+      const blockTimestamps = new Map<number, number>();
+      const transfers = [];
+
+      for (let i = 0; i < checksummedAddresses.length; i += SCAN_ADDRESS_CHUNK_SIZE) {
+        const chunk = checksummedAddresses.slice(i, i + SCAN_ADDRESS_CHUNK_SIZE);
+        const filter = contract.filters.Transfer(null, chunk);
+        const events = await contract.queryFilter(filter, fromBlock, toBlock);
+
+        for (const event of events) {
+          if (!('args' in event)) continue;
+
+          // Several transfers usually share a block, so fetch each block once
+          if (!blockTimestamps.has(event.blockNumber)) {
+            const block = await this.provider.getBlock(event.blockNumber);
+            blockTimestamps.set(event.blockNumber, block?.timestamp ?? 0);
+          }
+
+          transfers.push({
+            txHash: event.transactionHash,
+            logIndex: event.index,
+            from: event.args.from,
+            to: event.args.to,
+            amount: event.args.value.toString(),
+            amountUSDT: weiToToken(event.args.value.toString(), token.decimals),
+            blockNumber: event.blockNumber,
+            blockHash: event.blockHash,
+            timestamp: blockTimestamps.get(event.blockNumber) ?? 0,
+          });
+        }
+      }
+
+      logInfo('Token transfers scanned', {
+        chain: this.config.chain,
+        token: token.symbol,
+        addresses: toAddresses.length,
+        count: transfers.length,
+        fromBlock,
+        toBlock,
+      });
+
+      return transfers;
+    } catch (error) {
+      logError(error as Error, {
+        chain: this.config.chain,
+        addresses: toAddresses.length,
+        token: token.symbol,
+        fromBlock,
+        toBlock,
+        context: 'scan-transfers',
+      });
+      throw new Error(`Failed to scan transfers: ${error}`);
+    }
+  }
+
+  /**
+   * Gets the hash of the canonical block at a height
+   *
+   * @param blockNumber - Block number
+   * @returns Block hash, or null if the block does not exist yet
+   */
+  async getBlockHash(blockNumber: number): Promise<string | null> {
+    try {
+      const block = await this.provider.getBlock(blockNumber);
+      return block?.hash ?? null;
+    } catch (error) {
+      logError(error as Error, { blockNumber, chain: this.config.chain, context: 'get-block-hash' });
+      throw new Error(`Failed to get block hash: ${error}`);
+    }
+  }
+
+  /**
+   * Gets the block a transaction is currently included in
+   *
+   * @param txHash - Transaction hash
+   * @returns Block number and hash, or null if the transaction is not mined
+   */
+  async getTransactionBlock(txHash: string): Promise<{ blockNumber: number; blockHash: string } | null> {
+    try {
+      const receipt = await this.provider.getTransactionReceipt(txHash);
+      if (!receipt) {
+        return null;
+      }
+
+      return { blockNumber: receipt.blockNumber, blockHash: receipt.blockHash };
+    } catch (error) {
+      logError(error as Error, { txHash, chain: this.config.chain, context: 'get-transaction-block' });
+      throw new Error(`Failed to get transaction block: ${error}`);
+    }
+  }
+
+  /**
+   * Gets the system wallet address used for outbound transfers
+   *
+   * @returns Checksummed address, or null if no private key is configured
+   */
+  getSystemWalletAddress(): string | null {
+    return this.signer?.address ?? null;
+  }
+
+  /**
+   * Sends a token from the system wallet
+   *
+   * Concurrent calls with the same idempotency key share one broadcast;
+   * durable idempotency is the caller's responsibility.
+   *
+   * @param to - Recipient address
+   * @param amount - Amount in token units (human-readable)
+   * @param idempotencyKey - Caller's idempotency key
+   * @param token - Registered token
+   * @param options - Nonce reserved by the caller (defaults to the node's pending count)
+   * @returns Broadcast transaction
+   */
+  async sendToken(
+    to: string,
+    amount: string,
+    idempotencyKey: string,
+    token: TokenContract,
+    options: { nonce?: number } = {}
+  ): Promise<SentTokenTransfer> {
+    const inFlight = this.inFlightSends.get(idempotencyKey);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const send = this.broadcastToken(to, amount, idempotencyKey, token, options.nonce).finally(() => {
+      this.inFlightSends.delete(idempotencyKey);
+    });
+    this.inFlightSends.set(idempotencyKey, send);
+    return send;
+  }
+
+  /**
+   * Checks balances, then signs and broadcasts a token transfer
+   */
+  private async broadcastToken(
+    to: string,
+    amount: string,
+    idempotencyKey: string,
+    token: TokenContract,
+    nonce?: number
+  ): Promise<SentTokenTransfer> {
+    try {
+      const signer = this.getSigner();
+
+      if (!ethers.isAddress(to)) {
+        throw new ValidationError(`Invalid ${this.config.chain} address`, { field: 'toAddress', value: to });
+      }
+
+      const recipient = ethers.getAddress(to);
+      const value = ethers.parseUnits(amount, token.decimals);
+      const tokenContract = this.getTokenContract(token.contractAddress);
+
+      const tokenBalance: bigint = await tokenContract.balanceOf(signer.address);
+      if (tokenBalance < value) {
+        throw new BusinessLogicError(
+          `Insufficient ${token.symbol} balance in system wallet`,
+          'insufficient_token_balance',
+          {
+            chain: this.config.chain,
+            token: token.symbol,
+            balance: weiToToken(tokenBalance.toString(), token.decimals),
+            amount,
+          }
+        );
+      }
+
+      const contract = tokenContract.connect(signer) as ethers.Contract;
+      const gasLimit: bigint = await contract.transfer.estimateGas(recipient, value);
+      const { maxFeePerGas, maxPriorityFeePerGas } = await this.getCurrentFees();
+      const nativeBalance = await this.provider.getBalance(signer.address);
+
+      if (nativeBalance < gasLimit * maxFeePerGas) {
+        throw new BusinessLogicError(
+          `Insufficient ${this.config.nativeSymbol} in system wallet to pay for gas`,
+          'insufficient_gas_balance',
+          {
+            chain: this.config.chain,
+            balance: ethers.formatEther(nativeBalance),
+            required: ethers.formatEther(gasLimit * maxFeePerGas),
+          }
+        );
+      }
+
+      const tx = await contract.transfer(recipient, value, {
+        gasLimit,
+        nonce: nonce ?? await this.getPendingNonce(),
+        maxFeePerGas,
+        maxPriorityFeePerGas,
+      });
+
+      logInfo('Token transfer broadcast', {
+        chain: this.config.chain,
+        txHash: tx.hash,
+        token: token.symbol,
+        to: recipient,
+        amount,
+        nonce: tx.nonce,
+        idempotencyKey,
+      });
+
+      return {
+        txHash: tx.hash,
+        from: signer.address,
+        to: recipient,
+        amount: value.toString(),
+        amountUSDT: ethers.formatUnits(value, token.decimals),
+        nonce: tx.nonce,
+        maxFeePerGas: maxFeePerGas.toString(),
+        maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+      };
+    } catch (error) {
+      logError(error as Error, {
+        chain: this.config.chain,
+        to,
+        token: token.symbol,
+        amount,
+        idempotencyKey,
+        context: 'send-token',
+      });
+
+      if (error instanceof BaseError) {
+        throw error;
+      }
+      throw new Error(`Failed to send ${token.symbol}: ${error}`);
+    }
+  }
+
+  /**
+   * Gets the system wallet's next nonce, counting transactions still in the mempool
+   */
+  async getPendingNonce(): Promise<number> {
+    return this.provider.getTransactionCount(this.getSigner().address, 'pending');
+  }
+
+  /**
+   * Gets the system wallet's count of mined transactions (lowest nonce not yet used on-chain)
+   */
+  async getMinedNonce(): Promise<number> {
+    return this.provider.getTransactionCount(this.getSigner().address, 'latest');
+  }
+
+  /**
+   * Checks if a transaction is mined or still in the node's mempool
+   *
+   * @param txHash - Transaction hash
+   * @returns false if the node has dropped (or never received) the transaction
+   */
+  async isTransactionKnown(txHash: string): Promise<boolean> {
+    try {
+      return (await this.provider.getTransaction(txHash)) !== null;
+    } catch (error) {
+      logError(error as Error, { txHash, chain: this.config.chain, context: 'is-transaction-known' });
+      throw new Error(`Failed to look up transaction: ${error}`);
+    }
+  }
+
+  /**
+   * Replaces a broadcast stuck at a nonce (replace-by-fee)
+   *
+   * Both fees are raised by at least REPLACEMENT_FEE_BUMP_PERCENT of the
+   * replaced transaction's fees, or to the current network fees if higher.
+   *
+   * @param request - Speed-up (same token transfer) or cancellation (0 native token to self)
+   * @returns Replacement transaction
+   */
+  async replaceTransaction(request: ReplacementRequest) {
+    try {
+      const signer = this.getSigner();
+      const current = await this.getCurrentFees();
+      const bump = (previous?: string | null): bigint =>
+        previous ? (BigInt(previous) * REPLACEMENT_FEE_BUMP_PERCENT + BigInt(99)) / BigInt(100) : BigInt(0);
+
+      const maxPriorityFeePerGas = [bump(request.previousMaxPriorityFeePerGas), current.maxPriorityFeePerGas]
+        .reduce((a, b) => (a > b ? a : b));
+      const maxFeePerGas = [bump(request.previousMaxFeePerGas), current.maxFeePerGas, maxPriorityFeePerGas]
+        .reduce((a, b) => (a > b ? a : b));
+      const overrides = { nonce: request.nonce, maxFeePerGas, maxPriorityFeePerGas };
+
+      let tx: ethers.TransactionResponse;
+      if (request.kind === 'cancel') {
+        tx = await signer.sendTransaction({
+          to: signer.address,
+          value: BigInt(0),
+          gasLimit: NATIVE_TRANSFER_GAS_LIMIT,
+          ...overrides,
+        });
+      } else {
+        if (!request.token || !request.to || !request.amount) {
+          throw new ValidationError('Speed-up requires the original token, recipient and amount', {
+            field: 'to',
+          });
+        }
+        const contract = this.getTokenContract(request.token.contractAddress).connect(signer) as ethers.Contract;
+        const gasLimit: bigint = await contract.transfer.estimateGas(request.to, BigInt(request.amount));
+        tx = await contract.transfer(request.to, BigInt(request.amount), { gasLimit, ...overrides });
+      }
+
+      logInfo('Replacement transaction broadcast', {
+        chain: this.config.chain,
+        kind: request.kind,
+        nonce: request.nonce,
+        txHash: tx.hash,
+        maxFeePerGas: maxFeePerGas.toString(),
+      });
+
+      return {
+        txHash: tx.hash,
+        nonce: request.nonce,
+        maxFeePerGas: maxFeePerGas.toString(),
+        maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+      };
+    } catch (error) {
+      logError(error as Error, {
+        chain: this.config.chain,
+        kind: request.kind,
+        nonce: request.nonce,
+        context: 'replace-transaction',
+      });
+
+      if (error instanceof BaseError) {
+        throw error;
+      }
+      throw new Error(`Failed to replace transaction: ${error}`);
+    }
+  }
+
+  /**
+   * Gets the system wallet signer
+   *
+   * @throws ConfigurationError if no private key is configured
+   */
+  private getSigner(): ethers.Wallet {
+    if (!this.signer) {
+      throw new ConfigurationError(
+        `SHIELD_${this.config.chain}_WALLET_PRIVATE_KEY`,
+        'System wallet private key is not configured'
+      );
+    }
+    return this.signer;
+  }
+
+  /**
+   * Gets the fee oracle's standard tier, used for payouts
+   */
+  private async getCurrentFees(): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }> {
+    const { standard } = await this.getFeeTiers();
+    return {
+      maxFeePerGas: BigInt(standard.maxFeePerGas),
+      maxPriorityFeePerGas: BigInt(standard.maxPriorityFeePerGas),
+    };
+  }
+
+  /**
+   * Gets slow/standard/fast EIP-1559 fees from eth_feeHistory
+   * (tiers around the legacy gas price on nodes without it)
+   */
+  private async getFeeTiers(): Promise<FeeTiers> {
+    try {
+      const history = (await this.provider.send('eth_feeHistory', [
+        ethers.toQuantity(FEE_HISTORY_BLOCK_COUNT),
+        'latest',
+        FEE_HISTORY_PERCENTILES,
+      ])) as FeeHistory;
+      return calculateFeeTiers(history, this.feeCaps);
+    } catch (error) {
+      logError(error as Error, { chain: this.config.chain, context: 'fee-history' });
+
+      const feeData = await this.provider.getFeeData();
+      return calculateLegacyFeeTiers(feeData.gasPrice ?? BigInt(0), this.feeCaps);
+    }
+  }
+
+  /**
+   * Estimates gas with eth_estimateGas for a concrete call of the transaction type
+   * (standard limit for calls that cannot be built or would revert, e.g. an empty sender,
+   * and for token calls without a token)
+   */
+  private async estimateGasLimit(transactionType: string, options: GasEstimateOptions): Promise<bigint> {
+    const { token } = options;
+    const from = options.from ?? this.signer?.address ?? ethers.ZeroAddress;
+    // Without a recipient, a fresh address: sending to an empty balance is the most expensive case
+    const counterparty = options.to ?? ethers.getAddress(ethers.hexlify(ethers.randomBytes(20)));
+
+    try {
+      const value = options.amount && token ? ethers.parseUnits(options.amount, token.decimals) : BigInt(1);
+
+      switch (transactionType) {
+        case TransactionType.TRANSFER_NATIVE:
+          return await this.provider.estimateGas({ from, to: counterparty, value: BigInt(0) });
+        case TransactionType.TRANSFER_TOKEN:
+          if (!token) break;
+          return await this.getTokenContract(token.contractAddress).transfer.estimateGas(counterparty, value, { from });
+        case TransactionType.APPROVE_TOKEN:
+          if (!token) break;
+          return await this.getTokenContract(token.contractAddress).approve.estimateGas(counterparty, value, { from });
+      }
+      return BigInt(getStandardGasLimit(this.config.chain, transactionType));
+    } catch (error) {
+      logInfo('Gas estimation fell back to the standard limit', {
+        chain: this.config.chain,
+        transactionType,
+        reason: (error as Error).message,
+      });
+      return BigInt(getStandardGasLimit(this.config.chain, transactionType));
+    }
+  }
+
+  /**
+   * Gets transaction count (nonce) for an address
+   * 
+   * @param address - Wallet address
+   * @returns Transaction count
+   */
+  async getTransactionCount(address: string): Promise<number> {
+    try {
+      // Normalize address to checksummed format
+      const checksummedAddress = ethers.getAddress(address);
+      const count = await this.provider.getTransactionCount(checksummedAddress);
+      return count;
+    } catch (error) {
+      logError(error as Error, { address, chain: this.config.chain, context: 'get-transaction-count' });
+      throw new Error(`Failed to get transaction count: ${error}`);
+    }
+  }
+
+  /**
+   * Gets native token balance (MATIC, ETH, BNB) for an address
+   * 
+   * @param address - Wallet address
+   * @returns Balance in wei as string
+   */
+  async getNativeBalance(address: string): Promise<string> {
+    try {
+      // Normalize address to checksummed format
+      const checksummedAddress = ethers.getAddress(address);
+      const balance = await this.provider.getBalance(checksummedAddress);
+      return balance.toString();
+    } catch (error) {
+      logError(error as Error, { address, chain: this.config.chain, context: 'get-native-balance' });
+      throw new Error(`Failed to get native balance: ${error}`);
+    }
+  }
+
+  /**
+   * Gets token balance with metadata
+   * 
+   * @param address - Wallet address
+   * @param tokenAddress - Token contract address
+   * @returns Token balance with metadata
+   */
+  async getTokenBalance(address: string, tokenAddress: string) {
+    try {
+      // Normalize addresses to checksummed format
+      const checksummedAddress = ethers.getAddress(address);
+      const checksummedTokenAddress = ethers.getAddress(tokenAddress);
+      
+      const tokenContract = new ethers.Contract(
+        checksummedTokenAddress,
+        ERC20_ABI,
+        this.provider
+      );
+
+      const [balance, decimals, symbol] = await Promise.all([
+        tokenContract.balanceOf(checksummedAddress),
+        tokenContract.decimals(),
+        tokenContract.symbol(),
+      ]);
+
+      return {
+        balance: balance.toString(),
+        formatted: weiToToken(balance.toString(), decimals),
+        symbol,
+        decimals,
+      };
+    } catch (error) {
+      logError(error as Error, { address, tokenAddress, chain: this.config.chain, context: 'get-token-balance' });
+      throw new Error(`Failed to get token balance: ${error}`);
+    }
+  }
+
+  /**
+   * Estimates gas cost for a transaction at the fee oracle's slow/standard/fast tiers
+   * 
+   * @param _chain - Chain (always the client's chain)
+   * @param transactionType - Type of transaction (transfer, approve, etc.)
+   * @param options - Sender, recipient and amount to estimate (optional)
+   * @returns Gas estimation data (top-level price and cost use the standard tier)
+   */
+  async estimateGas(_chain: ChainType, transactionType: string, options: GasEstimateOptions = {}) {
+    try {
+      const [gasLimit, fees] = await Promise.all([
+        this.estimateGasLimit(transactionType, options),
+        this.getFeeTiers(),
+      ]);
+
+      const withCost = (tier: FeeTier) => ({
+        ...tier,
+        ...estimateTierCost(gasLimit, fees.baseFeePerGas, tier),
+      });
+      const tiers = {
+        slow: withCost(fees.slow),
+        standard: withCost(fees.standard),
+        fast: withCost(fees.fast),
+      };
+
+      // Price actually paid at the standard tier: base fee plus tip, up to the max fee
+      const expectedFee = BigInt(fees.baseFeePerGas) + BigInt(fees.standard.maxPriorityFeePerGas);
+      const maxFee = BigInt(fees.standard.maxFeePerGas);
+
+      return {
+        gasLimit: gasLimit.toString(),
+        gasPrice: (expectedFee < maxFee ? expectedFee : maxFee).toString(),
+        totalCost: tiers.standard.estimatedCost,
+        totalCostUSD: null, // Would integrate with price oracle
+        baseFeePerGas: fees.baseFeePerGas,
+        tiers,
+      };
+    } catch (error) {
+      logError(error as Error, { transactionType, chain: this.config.chain, context: 'estimate-gas' });
+      throw new Error(`Failed to estimate gas: ${error}`);
+    }
+  }
+}
+
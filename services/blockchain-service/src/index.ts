@@ -2,12 +2,15 @@
  * Blockchain Service - Entry Point
  * 
  * Handles blockchain network interactions for Shield platform:
- * - Polygon (MATIC) network integration
+ * - EVM network integration (Polygon, plus Ethereum, Arbitrum, Base and BSC when configured)
  * - Tron network integration
  * - USDT balance checking
  * - Transaction monitoring and validation
  * - Wallet verification on blockchain
- * - Gas estimation and balance caching
+ * - Gas estimation
+ * - Read-through caching of balances, network status, tokens and final transactions (Redis or in-memory)
+ * - Background block scanning for deposits to registered wallets
+ * - Real-time transfer and balance updates over WebSocket (SSE fallback)
  * 
  * @module blockchain-service
  */
@@ -15,8 +18,9 @@
 import express from 'express';
 import swaggerUi from 'swagger-ui-express';
 import { setupSecurityHeaders, errorHandler, authenticate } from '@shield/shared/middleware';
-import { logInfo } from '@shield/shared/types';
+import { logError, logInfo } from '@shield/shared/types';
 import { swaggerSpec } from './config/swagger.js';
+import { getChainDisplayName, getChainId, getNativeSymbol } from './config/chains.js';
 
 // ============================================================================
 // STEP 1: Initialize Environment (MUST be first!)
@@ -69,6 +73,8 @@ app.get('/', (req, res) => {
       health: '/health',
       apiDocs: '/v1/api-docs',
       getBalance: 'GET /v1/blockchain/:chain/balance/:address',
+      getBalances: 'POST /v1/blockchain/:chain/balances',
+      stream: 'GET /v1/blockchain/stream (WebSocket upgrade or SSE)',
       getTransaction: 'GET /v1/blockchain/:chain/transaction/:hash',
       validateTransaction: 'POST /v1/blockchain/:chain/validate',
       monitorTransfers: 'POST /v1/blockchain/:chain/monitor',
@@ -104,7 +110,25 @@ app.use('/v1/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec, {
   try {
     // Dynamic import ensures env vars are loaded before route modules
     const { default: blockchainRoutes } = await import('./routes.js');
+    const { default: streamRoutes, attachStreamWebSocket } = await import('./streamRoutes.js');
+    const { DependencyContainer } = await import('./infrastructure/dependencyInjection.js');
+    const { chains, registerDefaultTokensUseCase, cache, streamController } = DependencyContainer.getInstance();
+
+    // Stops the background jobs of every chain
+    const stopJobs = (): void => {
+      for (const services of chains.values()) {
+        services.blockScannerJob.stop();
+        services.confirmationTrackerJob.stop();
+        services.nonceReconcilerJob?.stop();
+        services.mempoolWatcherJob?.stop();
+        services.depositReporterJob.stop();
+      }
+    };
     
+    // Mount the real-time stream first: it also accepts the token as a query parameter
+    // (browsers cannot set headers on EventSource / WebSocket connections)
+    app.use('/v1/blockchain/stream', streamRoutes);
+
     // Mount v1 blockchain routes with mandatory authentication layer
     // API versioning allows easy migration to v2 by changing prefix
     app.use('/v1/blockchain', authenticate, blockchainRoutes);
@@ -131,6 +155,13 @@ app.use((req, res) => {
     // STEP 8: Server Startup
     // ========================================================================
 if (process.env.NODE_ENV !== 'test') {
+  // Seed USDT and USDC in the token registry; tokens already registered are left as they are
+  for (const chain of chains.keys()) {
+    await registerDefaultTokensUseCase.execute(chain).catch((error: Error) => {
+      logError(error, { chain, context: 'Failed to register default tokens' });
+    });
+  }
+
   const server = app.listen(PORT, () => {
     console.log('');
     console.log('╔═══════════════════════════════════════════════════════════════╗');
@@ -141,37 +172,86 @@ if (process.env.NODE_ENV !== 'test') {
     console.log(`📡 Port:        ${PORT}`);
         console.log(`🌍 Environment: ${envConfig.environment.toUpperCase()}`);
         console.log(`🔑 Auth:        ${envConfig.authServiceUrl}`);
+        console.log(`🗄️  Cache:       ${process.env.REDIS_URL ? 'Redis' : 'in-memory'}`);
     console.log(`❤️  Health:      http://localhost:${PORT}/health`);
     console.log('');
     console.log('📋 Supported Networks:');
-        console.log(`   🔷 Polygon (MATIC)`);
-        console.log(`      RPC: ${envConfig.polygonRpcUrl}`);
-        console.log(`      USDT: ${envConfig.polygonUsdtAddress}`);
-        console.log(`   🔸 Tron`);
-        console.log(`      RPC: ${envConfig.tronRpcUrl}`);
-        console.log(`      USDT: ${envConfig.tronUsdtAddress}`);
+        for (const chain of chains.keys()) {
+          console.log(`   🔷 ${getChainDisplayName(chain)} (${getNativeSymbol(chain)})`);
+          console.log(`      Chain ID: ${getChainId(chain)}`);
+        }
         console.log('');
         console.log('📋 Available Endpoints (v1):');
-        console.log(`   GET    /v1/blockchain/:chain/balance/:address         - Get USDT balance`);
-        console.log(`   GET    /v1/blockchain/:chain/transaction/:hash        - Get transaction`);
+        console.log(`   GET    /v1/blockchain/:chain/tokens                   - List registered tokens`);
+        console.log(`   GET    /v1/blockchain/:chain/balance/:address         - Get token balance (?token=USDC)`);
+        console.log(`   POST   /v1/blockchain/:chain/balances                 - Get balances of many addresses`);
+        console.log(`   GET    /v1/blockchain/:chain/transaction/:hash        - Get transaction (?decode=true)`);
         console.log(`   POST   /v1/blockchain/:chain/validate                 - Validate transaction`);
         console.log(`   POST   /v1/blockchain/:chain/monitor                  - Monitor transfers`);
         console.log(`   GET    /v1/blockchain/:chain/status                   - Network status`);
+        console.log(`   POST   /v1/blockchain/:chain/transfers                - Send tokens (internal)`);
+        console.log(`   POST   /v1/blockchain/:chain/transfers/:key/speed-up  - Speed up payout (internal)`);
+        console.log(`   POST   /v1/blockchain/:chain/transfers/:key/cancel    - Cancel payout (internal)`);
         console.log(`   GET    /v1/blockchain/:chain/verify/:address          - Verify wallet (direct RPC)`);
         console.log(`   GET    /v1/blockchain/:chain/token-balance/:address   - Get token balance (direct RPC)`);
         console.log(`   GET    /v1/blockchain/:chain/gas-estimate             - Estimate gas (direct RPC)`);
         console.log(`   GET    /v1/blockchain/supported-chains                - List supported chains`);
+        console.log(`   GET    /v1/blockchain/stream                          - Real-time updates (WebSocket / SSE)`);
     console.log('');
 
         logInfo('Blockchain service started successfully', {
           port: PORT,
           environment: envConfig.environment,
         });
+
+        // Record deposits to registered wallets in the background
+        if (process.env.BLOCK_SCANNER_ENABLED !== 'false') {
+          for (const services of chains.values()) {
+            services.blockScannerJob.start();
+          }
+        }
+
+        // Confirm recorded transfers and detect reorgs in the background
+        if (process.env.CONFIRMATION_TRACKER_ENABLED !== 'false') {
+          for (const services of chains.values()) {
+            services.confirmationTrackerJob.start();
+          }
+        }
+
+        // Fill nonce gaps left by dropped payouts on EVM chains with a system wallet
+        if (process.env.NONCE_RECONCILER_ENABLED !== 'false') {
+          for (const services of chains.values()) {
+            if (services.client.getSystemWalletAddress()) {
+              services.nonceReconcilerJob?.start();
+            }
+          }
+        }
+
+        // Announce incoming transfers seen in the mempool, before they are mined
+        if (process.env.MEMPOOL_WATCHER_ENABLED !== 'false') {
+          for (const services of chains.values()) {
+            services.mempoolWatcherJob?.start();
+          }
+        }
+
+        // Retry confirmed deposits wallet-service has not accepted yet
+        if (process.env.DEPOSIT_REPORTER_ENABLED !== 'false') {
+          for (const services of chains.values()) {
+            services.depositReporterJob.start();
+          }
+        }
   });
 
+      // Real-time stream: WebSocket upgrades share the HTTP server
+      const webSocketServer = attachStreamWebSocket(server);
+
       // Graceful shutdown handlers
   process.on('SIGINT', () => {
     console.log('\n🚦 Shutting down Blockchain Service gracefully...');
+    stopJobs();
+    streamController.closeAll();
+    webSocketServer.close();
+    void cache.close();
     server.close(() => {
       console.log('✅ Blockchain Service shut down successfully.');
       process.exit(0);
@@ -180,6 +260,10 @@ if (process.env.NODE_ENV !== 'test') {
 
   process.on('SIGTERM', () => {
     console.log('\n🚦 Shutting down Blockchain Service gracefully...');
+    stopJobs();
+    streamController.closeAll();
+    webSocketServer.close();
+    void cache.close();
     server.close(() => {
       console.log('✅ Blockchain Service shut down successfully.');
       process.exit(0);
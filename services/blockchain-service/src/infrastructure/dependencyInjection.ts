@@ -2,18 +2,56 @@
  * Dependency Injection Container
  * 
  * Wires up all dependencies following Clean Architecture principles
- * ALL BLOCKCHAIN CALLS ARE DIRECT - NO CACHING
+ * Observed transfers and network status are persisted for history and replay
+ * A block scanner job per chain records deposits to registered wallets
+ * A confirmation tracker job per chain confirms them and handles reorgs
+ * Tokens (USDT, USDC, ...) come from a per-chain registry seeded at startup
+ * Outbound token payouts are sent from the system wallets and follow the same tracker events
+ * EVM payout nonces are reserved in Postgres and a reconciler job per EVM chain fills nonce gaps
+ * Chains are wired from configuration: Polygon and Tron, plus each EVM chain with an RPC URL
+ * Confirmed transfers are forwarded to transaction-service as deposit.confirmed webhook events
+ * Transfer events and balance changes are streamed to subscribed users (WebSocket / SSE)
+ * A mempool watcher job per configured EVM chain records incoming transfers before they are mined
  * 
  * @module blockchain-service/infrastructure
  */
 
-import { ChainType } from '@shield/shared/types';
+import { ChainType, WebhookEventType } from '@shield/shared/types';
+import { ValidationError } from '@shield/shared/errors';
 import { DatabaseConnection } from '@shield/shared/database/DatabaseConnection';
+import { CacheStore, createCacheStore } from '@shield/shared/cache';
 import { BlockchainClientFactory } from '../data/clients/BlockchainClientFactory';
+import { MempoolSourceFactory } from '../data/clients/MempoolSourceFactory';
 import { IBlockchainClient } from '../domain/services/IBlockchainClient';
+import { IWalletServiceClient } from '../domain/services/IWalletServiceClient';
+import { ITransactionServiceClient } from '../domain/services/ITransactionServiceClient';
+import { TransferEvent } from '../domain/services/ITransferEventPublisher';
+import { WalletServiceClient } from '../data/clients/WalletServiceClient';
+import { TransactionServiceClient } from '../data/clients/TransactionServiceClient';
+import { TransferEventBus } from './events/TransferEventBus';
+import { StreamBalanceReader, TransferStreamHub } from './events/TransferStreamHub';
+import { getChainFamily, getEnabledChains } from '../config/chains';
+
+// Domain repositories (interfaces)
+import { IBlockchainTransactionRepository } from '../domain/repositories/IBlockchainTransactionRepository';
+import { INetworkStatusRepository } from '../domain/repositories/INetworkStatusRepository';
+import { IOutboundTransferRepository } from '../domain/repositories/IOutboundTransferRepository';
+import { INonceRepository } from '../domain/repositories/INonceRepository';
+import { ITokenRepository } from '../domain/repositories/ITokenRepository';
+
+// Data layer implementations
+import { BlockchainTransactionRepository } from '../data/repositories/BlockchainTransactionRepository';
+import { NetworkStatusRepository } from '../data/repositories/NetworkStatusRepository';
+import { OutboundTransferRepository } from '../data/repositories/OutboundTransferRepository';
+import { NonceRepository } from '../data/repositories/NonceRepository';
+import { TokenRepository } from '../data/repositories/TokenRepository';
 
 // Domain use cases (all direct blockchain calls)
-import { GetUSDTBalanceUseCase } from '../domain/useCases/GetUSDTBalanceUseCase';
+import { ResolveTokenUseCase } from '../domain/useCases/ResolveTokenUseCase';
+import { ListTokensUseCase } from '../domain/useCases/ListTokensUseCase';
+import { RegisterDefaultTokensUseCase } from '../domain/useCases/RegisterDefaultTokensUseCase';
+import { GetBalanceUseCase } from '../domain/useCases/GetBalanceUseCase';
+import { GetBalancesUseCase } from '../domain/useCases/GetBalancesUseCase';
 import { GetTransactionUseCase } from '../domain/useCases/GetTransactionUseCase';
 import { ValidateTransactionUseCase } from '../domain/useCases/ValidateTransactionUseCase';
 import { MonitorTransfersUseCase } from '../domain/useCases/MonitorTransfersUseCase';
@@ -21,89 +59,321 @@ import { GetNetworkStatusUseCase } from '../domain/useCases/GetNetworkStatusUseC
 import { VerifyWalletUseCase } from '../domain/useCases/VerifyWalletUseCase';
 import { GetTokenBalanceUseCase } from '../domain/useCases/GetTokenBalanceUseCase';
 import { EstimateGasUseCase } from '../domain/useCases/EstimateGasUseCase';
+import { ScanBlocksUseCase } from '../domain/useCases/ScanBlocksUseCase';
+import { TrackConfirmationsUseCase } from '../domain/useCases/TrackConfirmationsUseCase';
+import { SendTransferUseCase } from '../domain/useCases/SendTransferUseCase';
+import { SyncOutboundTransferUseCase } from '../domain/useCases/SyncOutboundTransferUseCase';
+import { ReplaceOutboundTransferUseCase } from '../domain/useCases/ReplaceOutboundTransferUseCase';
+import { ReconcileNoncesUseCase } from '../domain/useCases/ReconcileNoncesUseCase';
+import { AuthorizeStreamSubscriptionUseCase } from '../domain/useCases/AuthorizeStreamSubscriptionUseCase';
+import { RecordPendingTransfersUseCase } from '../domain/useCases/RecordPendingTransfersUseCase';
+import { ReportConfirmedDepositsUseCase } from '../domain/useCases/ReportConfirmedDepositsUseCase';
+
+// Background jobs
+import { BlockScannerJob } from './jobs/BlockScannerJob';
+import { ConfirmationTrackerJob } from './jobs/ConfirmationTrackerJob';
+import { NonceReconcilerJob } from './jobs/NonceReconcilerJob';
+import { MempoolWatcherJob } from './jobs/MempoolWatcherJob';
+import { DepositReporterJob } from './jobs/DepositReporterJob';
 
 // Presentation layer
-import { BlockchainController } from '../presentation/controllers/BlockchainController';
+import { BlockchainController, ChainUseCases } from '../presentation/controllers/BlockchainController';
+import { StreamController } from '../presentation/controllers/StreamController';
+
+/**
+ * Client, use cases and background jobs of one chain
+ */
+export interface ChainServices extends ChainUseCases {
+  client: IBlockchainClient;
+  verifyWalletUseCase: VerifyWalletUseCase;
+  getTokenBalanceUseCase: GetTokenBalanceUseCase;
+  estimateGasUseCase: EstimateGasUseCase;
+  scanBlocksUseCase: ScanBlocksUseCase;
+  blockScannerJob: BlockScannerJob;
+  trackConfirmationsUseCase: TrackConfirmationsUseCase;
+  confirmationTrackerJob: ConfirmationTrackerJob;
+  syncOutboundTransferUseCase: SyncOutboundTransferUseCase;
+  /** Nonce reconciliation (EVM chains only; Tron has no nonces) */
+  reconcileNoncesUseCase: ReconcileNoncesUseCase | null;
+  nonceReconcilerJob: NonceReconcilerJob | null;
+  /** Pending transfer detection (EVM chains with a mempool source only) */
+  mempoolWatcherJob: MempoolWatcherJob | null;
+  /** Confirmed transfers reported to wallet-service */
+  depositReporterJob: DepositReporterJob;
+}
 
 /**
  * Dependency Injection Container
- * ALL USE CASES CALL BLOCKCHAIN DIRECTLY - NO CACHING
+ * Use cases call the blockchain directly; only final transactions are served from the database
  */
 export class DependencyContainer {
   private static instance: DependencyContainer | null = null;
 
-  // Blockchain clients (created per chain)
-  private readonly polygonClient: IBlockchainClient;
-  private readonly tronClient: IBlockchainClient;
-
-  // Use Cases (per chain) - all direct blockchain calls
-  public readonly polygonGetBalanceUseCase: GetUSDTBalanceUseCase;
-  public readonly tronGetBalanceUseCase: GetUSDTBalanceUseCase;
-  public readonly polygonGetTransactionUseCase: GetTransactionUseCase;
-  public readonly tronGetTransactionUseCase: GetTransactionUseCase;
-  public readonly polygonValidateTransactionUseCase: ValidateTransactionUseCase;
-  public readonly tronValidateTransactionUseCase: ValidateTransactionUseCase;
-  public readonly polygonMonitorTransfersUseCase: MonitorTransfersUseCase;
-  public readonly tronMonitorTransfersUseCase: MonitorTransfersUseCase;
-  public readonly polygonGetNetworkStatusUseCase: GetNetworkStatusUseCase;
-  public readonly tronGetNetworkStatusUseCase: GetNetworkStatusUseCase;
-  
-  // Direct blockchain call use cases
-  public readonly polygonVerifyWalletUseCase: VerifyWalletUseCase;
-  public readonly tronVerifyWalletUseCase: VerifyWalletUseCase;
-  public readonly polygonGetTokenBalanceUseCase: GetTokenBalanceUseCase;
-  public readonly tronGetTokenBalanceUseCase: GetTokenBalanceUseCase;
-  public readonly polygonEstimateGasUseCase: EstimateGasUseCase;
-  public readonly tronEstimateGasUseCase: EstimateGasUseCase;
+  // Other services
+  public readonly walletServiceClient: IWalletServiceClient;
+  public readonly transactionServiceClient: ITransactionServiceClient;
+
+  // Events (transfer.pending / transfer.detected / transfer.confirmations / transfer.confirmed / transfer.reversed)
+  public readonly transferEventBus: TransferEventBus;
+
+  // Read cache (Redis when REDIS_URL is set, in-memory otherwise)
+  public readonly cache: CacheStore;
+
+  // Repositories
+  public readonly blockchainTransactionRepository: IBlockchainTransactionRepository;
+  public readonly networkStatusRepository: INetworkStatusRepository;
+  public readonly outboundTransferRepository: IOutboundTransferRepository;
+  public readonly nonceRepository: INonceRepository;
+  public readonly tokenRepository: ITokenRepository;
+
+  // Token registry (shared by all chains)
+  public readonly resolveTokenUseCase: ResolveTokenUseCase;
+  public readonly listTokensUseCase: ListTokensUseCase;
+  public readonly registerDefaultTokensUseCase: RegisterDefaultTokensUseCase;
+
+  // Mempool detection (shared by the mempool watcher jobs of all chains)
+  public readonly recordPendingTransfersUseCase: RecordPendingTransfersUseCase;
+
+  // Deposit reporting to wallet-service (shared by the deposit reporter jobs of all chains)
+  public readonly reportConfirmedDepositsUseCase: ReportConfirmedDepositsUseCase;
+
+  // Client, use cases and jobs per enabled chain - all direct blockchain calls
+  public readonly chains: ReadonlyMap<ChainType, ChainServices>;
+
+  // Real-time stream (subscriptions are authorized against wallet ownership)
+  public readonly authorizeStreamSubscriptionUseCase: AuthorizeStreamSubscriptionUseCase;
+  public readonly transferStreamHub: TransferStreamHub;
 
   // Controllers
   public readonly blockchainController: BlockchainController;
+  public readonly streamController: StreamController;
 
   private constructor() {
-    // Initialize database connection (for transaction history only)
+    // Initialize database connection (transaction history and network status)
     DatabaseConnection.getInstance().connect().catch((error) => {
       throw new Error(`Failed to initialize database: ${error.message}`);
     });
 
-    // Initialize blockchain clients
-    this.polygonClient = BlockchainClientFactory.create(ChainType.POLYGON);
-    this.tronClient = BlockchainClientFactory.create(ChainType.TRON);
-
-    // ✅ ALL USE CASES - DIRECT BLOCKCHAIN CALLS (NO CACHING)
-
-    // Initialize use cases for Polygon
-    this.polygonGetBalanceUseCase = new GetUSDTBalanceUseCase(this.polygonClient);
-    this.polygonGetTransactionUseCase = new GetTransactionUseCase(this.polygonClient);
-    this.polygonValidateTransactionUseCase = new ValidateTransactionUseCase(this.polygonClient);
-    this.polygonMonitorTransfersUseCase = new MonitorTransfersUseCase(this.polygonClient);
-    this.polygonGetNetworkStatusUseCase = new GetNetworkStatusUseCase(this.polygonClient);
-    this.polygonVerifyWalletUseCase = new VerifyWalletUseCase(this.polygonClient);
-    this.polygonGetTokenBalanceUseCase = new GetTokenBalanceUseCase(this.polygonClient);
-    this.polygonEstimateGasUseCase = new EstimateGasUseCase(this.polygonClient);
-
-    // Initialize use cases for Tron
-    this.tronGetBalanceUseCase = new GetUSDTBalanceUseCase(this.tronClient);
-    this.tronGetTransactionUseCase = new GetTransactionUseCase(this.tronClient);
-    this.tronValidateTransactionUseCase = new ValidateTransactionUseCase(this.tronClient);
-    this.tronMonitorTransfersUseCase = new MonitorTransfersUseCase(this.tronClient);
-    this.tronGetNetworkStatusUseCase = new GetNetworkStatusUseCase(this.tronClient);
-    this.tronVerifyWalletUseCase = new VerifyWalletUseCase(this.tronClient);
-    this.tronGetTokenBalanceUseCase = new GetTokenBalanceUseCase(this.tronClient);
-    this.tronEstimateGasUseCase = new EstimateGasUseCase(this.tronClient);
+    // Initialize service clients
+    this.walletServiceClient = new WalletServiceClient();
+    this.transactionServiceClient = new TransactionServiceClient();
+
+    // Initialize event bus
+    this.transferEventBus = new TransferEventBus();
+
+    // Initialize read cache (tests always use the in-memory store)
+    this.cache = createCacheStore({
+      redisUrl: process.env.NODE_ENV === 'test' ? undefined : process.env.REDIS_URL,
+      redisPassword: process.env.REDIS_PASSWORD,
+      keyPrefix: 'shield:blockchain:',
+    });
+
+    // Initialize repositories
+    this.blockchainTransactionRepository = new BlockchainTransactionRepository();
+    this.networkStatusRepository = new NetworkStatusRepository();
+    this.outboundTransferRepository = new OutboundTransferRepository();
+    this.nonceRepository = new NonceRepository();
+    this.tokenRepository = new TokenRepository();
+
+    // Initialize token registry
+    this.resolveTokenUseCase = new ResolveTokenUseCase(this.tokenRepository, this.cache);
+    this.listTokensUseCase = new ListTokensUseCase(this.tokenRepository);
+    this.registerDefaultTokensUseCase = new RegisterDefaultTokensUseCase(this.tokenRepository);
+
+    // Initialize mempool detection
+    this.recordPendingTransfersUseCase = new RecordPendingTransfersUseCase(
+      this.walletServiceClient,
+      this.blockchainTransactionRepository,
+      this.tokenRepository,
+      this.transferEventBus
+    );
+
+    // Initialize deposit reporting
+    this.reportConfirmedDepositsUseCase = new ReportConfirmedDepositsUseCase(
+      this.walletServiceClient,
+      this.blockchainTransactionRepository,
+      this.tokenRepository
+    );
+
+    // ✅ ALL USE CASES - BLOCKCHAIN READS GO THROUGH THE CACHE (final transactions are also served from the database)
+    this.chains = new Map(getEnabledChains().map((chain) => [chain, this.createChainServices(chain)]));
+
+    // Payouts follow the confirmation tracker (handler errors are logged by the bus)
+    const syncOutboundTransfer = async (event: TransferEvent): Promise<void> => {
+      await this.getChainServices(event.chain).syncOutboundTransferUseCase.execute(event);
+    };
+    this.transferEventBus.subscribe('transfer.confirmed', syncOutboundTransfer);
+    this.transferEventBus.subscribe('transfer.reversed', syncOutboundTransfer);
+
+    // Merchants learn about deposits seen in the mempool (transaction-service matches them by deposit address)
+    this.transferEventBus.subscribe('transfer.pending', async (event: TransferEvent): Promise<void> => {
+      await this.transactionServiceClient.publishWebhookEvent(WebhookEventType.DEPOSIT_PENDING, event.txHash, {
+        chain: event.chain,
+        txHash: event.txHash,
+        fromAddress: event.fromAddress,
+        toAddress: event.toAddress,
+        tokenAddress: event.tokenAddress,
+        amount: event.amountUSDT,
+        status: event.status,
+      });
+    });
+
+    // Merchants learn about confirmed deposits through their webhooks (hashes of payouts are dropped there)
+    this.transferEventBus.subscribe('transfer.confirmed', async (event: TransferEvent): Promise<void> => {
+      await this.transactionServiceClient.publishWebhookEvent(WebhookEventType.DEPOSIT_CONFIRMED, event.txHash, {
+        chain: event.chain,
+        txHash: event.txHash,
+        fromAddress: event.fromAddress,
+        toAddress: event.toAddress,
+        tokenAddress: event.tokenAddress,
+        amount: event.amountUSDT,
+        blockNumber: event.blockNumber,
+        confirmations: event.confirmations,
+      });
+    });
+
+    // Deposit addresses (payment requests) in wallet-service are settled by confirmed transfers;
+    // the reporter sends them right away and retries what wallet-service did not accept
+    this.transferEventBus.subscribe('transfer.confirmed', async (event: TransferEvent): Promise<void> => {
+      await this.getChainServices(event.chain).depositReporterJob.runOnce();
+    });
+
+    // Users follow their own addresses and transactions; balances are re-read through the cache
+    const readStreamBalance: StreamBalanceReader = async (chain, address, tokenAddress) => {
+      const token = (await this.tokenRepository.findByChain(chain)).find(
+        (registered) => registered.contractAddress === tokenAddress
+      );
+      if (!token) {
+        return null;
+      }
+
+      const { symbol, balance } = await this.getChainServices(chain).getBalanceUseCase.execute(
+        chain,
+        address,
+        token.symbol
+      );
+      return { symbol, balance };
+    };
+    this.authorizeStreamSubscriptionUseCase = new AuthorizeStreamSubscriptionUseCase(
+      this.walletServiceClient,
+      this.blockchainTransactionRepository
+    );
+    this.transferStreamHub = new TransferStreamHub(this.transferEventBus, readStreamBalance);
 
     // Initialize controllers
     this.blockchainController = new BlockchainController(
-      this.polygonGetBalanceUseCase,
-      this.tronGetBalanceUseCase,
-      this.polygonGetTransactionUseCase,
-      this.tronGetTransactionUseCase,
-      this.polygonValidateTransactionUseCase,
-      this.tronValidateTransactionUseCase,
-      this.polygonMonitorTransfersUseCase,
-      this.tronMonitorTransfersUseCase,
-      this.polygonGetNetworkStatusUseCase,
-      this.tronGetNetworkStatusUseCase
+      (chain) => this.getChainServices(chain),
+      this.listTokensUseCase
+    );
+    this.streamController = new StreamController(
+      this.transferStreamHub,
+      this.authorizeStreamSubscriptionUseCase
+    );
+  }
+
+  /**
+   * Gets the client, use cases and jobs of a chain
+   *
+   * @throws ValidationError if the chain is not enabled on this service
+   */
+  public getChainServices(chain: ChainType): ChainServices {
+    const services = this.chains.get(chain);
+    if (!services) {
+      throw new ValidationError(`Chain ${chain} is not enabled on this service`, {
+        field: 'chain',
+        value: chain,
+      });
+    }
+    return services;
+  }
+
+  /**
+   * Wires the client, use cases and background jobs of a chain
+   */
+  private createChainServices(chain: ChainType): ChainServices {
+    const client = BlockchainClientFactory.create(chain);
+    const isEvm = getChainFamily(chain) === 'EVM';
+
+    const scanBlocksUseCase = new ScanBlocksUseCase(
+      client,
+      this.walletServiceClient,
+      this.blockchainTransactionRepository,
+      this.networkStatusRepository,
+      this.tokenRepository,
+      this.cache,
+      this.transferEventBus
+    );
+    const trackConfirmationsUseCase = new TrackConfirmationsUseCase(
+      client,
+      this.blockchainTransactionRepository,
+      this.transferEventBus
+    );
+
+    // Initialize outbound payouts (nonces are reserved in Postgres on EVM chains)
+    const replaceOutboundTransferUseCase = new ReplaceOutboundTransferUseCase(
+      client,
+      this.outboundTransferRepository,
+      this.blockchainTransactionRepository,
+      this.tokenRepository
     );
+    const mempoolSource = MempoolSourceFactory.create(chain);
+    const reconcileNoncesUseCase = isEvm
+      ? new ReconcileNoncesUseCase(
+        client,
+        this.outboundTransferRepository,
+        this.nonceRepository,
+        replaceOutboundTransferUseCase
+      )
+      : null;
+
+    return {
+      client,
+      getBalanceUseCase: new GetBalanceUseCase(client, this.resolveTokenUseCase, this.cache),
+      getBalancesUseCase: new GetBalancesUseCase(client, this.resolveTokenUseCase, this.cache),
+      getTransactionUseCase: new GetTransactionUseCase(
+        client,
+        this.blockchainTransactionRepository,
+        this.tokenRepository,
+        this.cache
+      ),
+      validateTransactionUseCase: new ValidateTransactionUseCase(
+        client,
+        this.blockchainTransactionRepository,
+        this.resolveTokenUseCase
+      ),
+      monitorTransfersUseCase: new MonitorTransfersUseCase(
+        client,
+        this.blockchainTransactionRepository,
+        this.resolveTokenUseCase
+      ),
+      getNetworkStatusUseCase: new GetNetworkStatusUseCase(client, this.networkStatusRepository, this.cache),
+      verifyWalletUseCase: new VerifyWalletUseCase(client),
+      getTokenBalanceUseCase: new GetTokenBalanceUseCase(client),
+      estimateGasUseCase: new EstimateGasUseCase(client, this.resolveTokenUseCase),
+      scanBlocksUseCase,
+      blockScannerJob: new BlockScannerJob(chain, scanBlocksUseCase),
+      trackConfirmationsUseCase,
+      confirmationTrackerJob: new ConfirmationTrackerJob(chain, trackConfirmationsUseCase),
+      sendTransferUseCase: new SendTransferUseCase(
+        client,
+        this.outboundTransferRepository,
+        this.blockchainTransactionRepository,
+        this.resolveTokenUseCase,
+        isEvm ? this.nonceRepository : null
+      ),
+      syncOutboundTransferUseCase: new SyncOutboundTransferUseCase(
+        client,
+        this.outboundTransferRepository,
+        this.blockchainTransactionRepository
+      ),
+      replaceOutboundTransferUseCase,
+      reconcileNoncesUseCase,
+      nonceReconcilerJob: reconcileNoncesUseCase ? new NonceReconcilerJob(chain, reconcileNoncesUseCase) : null,
+      mempoolWatcherJob: mempoolSource
+        ? new MempoolWatcherJob(chain, mempoolSource, this.recordPendingTransfersUseCase)
+        : null,
+      depositReporterJob: new DepositReporterJob(chain, this.reportConfirmedDepositsUseCase),
+    };
   }
 
   /**
@@ -123,4 +393,3 @@ export class DependencyContainer {
     DependencyContainer.instance = null;
   }
 }
-
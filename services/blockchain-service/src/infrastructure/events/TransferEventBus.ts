@@ -0,0 +1,62 @@
+/**
+ * Transfer Event Bus
+ *
+ * In-process implementation of ITransferEventPublisher. Consumers inside the
+ * service register handlers with `subscribe`; a failing handler is logged and
+ * does not affect the publisher or the other handlers.
+ *
+ * @module blockchain-service/infrastructure/events
+ */
+
+import { EventEmitter } from 'events';
+import {
+  ITransferEventPublisher,
+  TransferEvent,
+  TransferEventType,
+} from '../../domain/services/ITransferEventPublisher';
+import { logError, logInfo } from '@shield/shared/types';
+import { ensureBaseError } from '@shield/shared/errors';
+
+/**
+ * Transfer event handler
+ */
+export type TransferEventHandler = (event: TransferEvent) => void | Promise<void>;
+
+/**
+ * Transfer Event Bus
+ */
+export class TransferEventBus implements ITransferEventPublisher {
+  private readonly emitter = new EventEmitter();
+
+  /**
+   * Publishes an event to all subscribers of its type
+   */
+  public publish(event: TransferEvent): void {
+    logInfo('Transfer event published', {
+      type: event.type,
+      chain: event.chain,
+      txHash: event.txHash,
+      toAddress: event.toAddress,
+      tokenAddress: event.tokenAddress,
+      amountUSDT: event.amountUSDT,
+      blockNumber: event.blockNumber,
+    });
+
+    this.emitter.emit(event.type, event);
+  }
+
+  /**
+   * Registers a handler for an event type
+   */
+  public subscribe(type: TransferEventType, handler: TransferEventHandler): void {
+    this.emitter.on(type, (event: TransferEvent) => {
+      Promise.resolve()
+        .then(() => handler(event))
+        .catch((error: unknown) => {
+          logError(ensureBaseError(error, { type, txHash: event.txHash }), {
+            context: 'Transfer event handler failed',
+          });
+        });
+    });
+  }
+}
@@ -0,0 +1,197 @@
+/**
+ * Transfer Stream Hub
+ *
+ * Fans transfer events out to connected stream clients (WebSocket or SSE).
+ * Each client holds authorized subscriptions to addresses and transactions;
+ * an event is sent once to every client subscribed to its hash or to either
+ * side of the transfer. When a transfer is detected or reversed, address
+ * subscribers also receive the address's new balance of the token.
+ *
+ * Configuration:
+ * - STREAM_MAX_SUBSCRIPTIONS - Max subscriptions per connection (default: 50)
+ *
+ * @module blockchain-service/infrastructure/events
+ */
+
+import { TransferEventBus } from './TransferEventBus';
+import { TRANSFER_EVENT_TYPES, TransferEvent } from '../../domain/services/ITransferEventPublisher';
+import {
+  StreamSubscription,
+  streamSubscriptionKey,
+} from '../../domain/useCases/AuthorizeStreamSubscriptionUseCase';
+import { ChainType, logError } from '@shield/shared/types';
+import { ValidationError, ensureBaseError } from '@shield/shared/errors';
+
+/**
+ * Message pushed to stream clients
+ */
+export interface StreamMessage {
+  type: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * A connected stream client; `send` must not throw
+ */
+export interface StreamClient {
+  id: string;
+  userId: string;
+  send(message: StreamMessage): void;
+}
+
+/**
+ * Reads an address's balance of a token contract (null if the token is not registered)
+ */
+export type StreamBalanceReader = (
+  chain: ChainType,
+  address: string,
+  tokenAddress: string
+) => Promise<{ symbol: string; balance: string } | null>;
+
+/**
+ * Transfer Stream Hub
+ */
+export class TransferStreamHub {
+  private readonly clients = new Map<
+    string,
+    { client: StreamClient; subscriptions: Map<string, StreamSubscription> }
+  >();
+
+  constructor(
+    eventBus: TransferEventBus,
+    private readonly readBalance: StreamBalanceReader
+  ) {
+    for (const type of TRANSFER_EVENT_TYPES) {
+      eventBus.subscribe(type, (event) => this.dispatch(event));
+    }
+  }
+
+  /**
+   * Number of connected clients
+   */
+  public get connectionCount(): number {
+    return this.clients.size;
+  }
+
+  /**
+   * Registers a connected client (without subscriptions)
+   */
+  public register(client: StreamClient): void {
+    this.clients.set(client.id, { client, subscriptions: new Map() });
+  }
+
+  /**
+   * Removes a client and its subscriptions
+   */
+  public unregister(clientId: string): void {
+    this.clients.delete(clientId);
+  }
+
+  /**
+   * Adds an authorized subscription to a client (no-op if it already has it)
+   *
+   * @throws ValidationError if the client reached STREAM_MAX_SUBSCRIPTIONS
+   */
+  public subscribe(clientId: string, subscription: StreamSubscription): void {
+    const entry = this.clients.get(clientId);
+    if (!entry || entry.subscriptions.has(subscription.key)) {
+      return;
+    }
+
+    const maxSubscriptions = parseInt(process.env.STREAM_MAX_SUBSCRIPTIONS || '50', 10);
+    if (entry.subscriptions.size >= maxSubscriptions) {
+      throw new ValidationError(`At most ${maxSubscriptions} subscriptions are allowed per connection`, {
+        field: 'subscriptions',
+        value: entry.subscriptions.size,
+      });
+    }
+
+    entry.subscriptions.set(subscription.key, subscription);
+  }
+
+  /**
+   * Removes a subscription from a client
+   *
+   * @returns True if the client had the subscription
+   */
+  public unsubscribe(clientId: string, key: string): boolean {
+    return this.clients.get(clientId)?.subscriptions.delete(key) ?? false;
+  }
+
+  /**
+   * Sends a transfer event to its subscribers, then the new balances to address subscribers
+   */
+  private async dispatch(event: TransferEvent): Promise<void> {
+    const addressKeys = new Map([
+      [streamSubscriptionKey(event.chain, 'address', event.fromAddress), event.fromAddress],
+      [streamSubscriptionKey(event.chain, 'address', event.toAddress), event.toAddress],
+    ]);
+    const keys = [streamSubscriptionKey(event.chain, 'transaction', event.txHash), ...addressKeys.keys()];
+
+    const message: StreamMessage = {
+      type: event.type,
+      data: {
+        chain: event.chain,
+        txHash: event.txHash,
+        fromAddress: event.fromAddress,
+        toAddress: event.toAddress,
+        tokenAddress: event.tokenAddress,
+        amount: event.amountUSDT,
+        blockNumber: event.blockNumber,
+        confirmations: event.confirmations,
+        status: event.status,
+        occurredAt: event.occurredAt.toISOString(),
+      },
+    };
+
+    for (const { client } of this.findSubscribers(keys)) {
+      client.send(message);
+    }
+
+    // Confirmations do not move funds; only new and reversed transfers change a balance
+    if (event.type !== 'transfer.detected' && event.type !== 'transfer.reversed') {
+      return;
+    }
+
+    for (const [key, address] of addressKeys) {
+      const subscribers = this.findSubscribers([key]);
+      if (subscribers.length === 0) {
+        continue;
+      }
+
+      try {
+        const result = await this.readBalance(event.chain, address, event.tokenAddress);
+        if (!result) {
+          continue;
+        }
+
+        for (const { client } of subscribers) {
+          client.send({
+            type: 'balance.changed',
+            data: {
+              chain: event.chain,
+              address,
+              symbol: result.symbol,
+              tokenAddress: event.tokenAddress,
+              balance: result.balance,
+              txHash: event.txHash,
+            },
+          });
+        }
+      } catch (error: unknown) {
+        logError(ensureBaseError(error, { chain: event.chain, address, txHash: event.txHash }), {
+          context: 'Failed to read balance for stream subscribers',
+        });
+      }
+    }
+  }
+
+  /**
+   * Finds the clients subscribed to any of the keys
+   */
+  private findSubscribers(
+    keys: string[]
+  ): Array<{ client: StreamClient; subscriptions: Map<string, StreamSubscription> }> {
+    return [...this.clients.values()].filter((entry) => keys.some((key) => entry.subscriptions.has(key)));
+  }
+}
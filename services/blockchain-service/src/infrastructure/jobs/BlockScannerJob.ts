@@ -0,0 +1,95 @@
+/**
+ * Block Scanner Job
+ *
+ * Periodically runs ScanBlocksUseCase for one chain, so deposits to
+ * registered wallets are recorded without anyone calling the API.
+ *
+ * Each run processes batches until the scanner has caught up with the chain
+ * or BLOCK_SCANNER_MAX_BATCHES_PER_RUN is reached; the remainder is picked up
+ * by the next run. Progress lives in NetworkStatus.lastProcessedBlock.
+ *
+ * Configuration:
+ * - BLOCK_SCANNER_INTERVAL_MS           - Delay between runs (default: 15000)
+ * - BLOCK_SCANNER_BATCH_SIZE            - Max blocks scanned per batch (default: 100)
+ * - BLOCK_SCANNER_MAX_BATCHES_PER_RUN   - Max batches per run (default: 10)
+ *
+ * @module blockchain-service/infrastructure/jobs
+ */
+
+import { randomUUID } from 'crypto';
+import { ScanBlocksUseCase } from '../../domain/useCases/ScanBlocksUseCase';
+import { ChainType, logError, logInfo } from '@shield/shared/types';
+import { ensureBaseError } from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Block Scanner Job (one instance per chain)
+ */
+export class BlockScannerJob {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  constructor(
+    private readonly chain: ChainType,
+    private readonly scanBlocksUseCase: ScanBlocksUseCase
+  ) {}
+
+  /**
+   * Starts the periodic run (no-op if already started)
+   */
+  public start(): void {
+    if (isNotNull(this.timer)) {
+      return;
+    }
+
+    const intervalMs = parseInt(process.env.BLOCK_SCANNER_INTERVAL_MS || '15000', 10);
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, intervalMs);
+
+    logInfo('Block scanner started', { chain: this.chain, intervalMs });
+  }
+
+  /**
+   * Stops the periodic run
+   */
+  public stop(): void {
+    if (isNotNull(this.timer)) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logInfo('Block scanner stopped', { chain: this.chain });
+    }
+  }
+
+  /**
+   * Scans batches until caught up. Overlapping runs are skipped, and a failed
+   * batch ends the run so it is retried from the same checkpoint next time.
+   */
+  public async runOnce(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    const correlationId = randomUUID();
+
+    try {
+      const batchSize = parseInt(process.env.BLOCK_SCANNER_BATCH_SIZE || '100', 10);
+      const maxBatches = parseInt(process.env.BLOCK_SCANNER_MAX_BATCHES_PER_RUN || '10', 10);
+
+      for (let batch = 0; batch < maxBatches; batch++) {
+        const result = await this.scanBlocksUseCase.execute(this.chain, batchSize, correlationId);
+
+        if (!isNotNull(result.range) || result.lag === 0) {
+          break;
+        }
+      }
+    } catch (error: unknown) {
+      logError(ensureBaseError(error, { chain: this.chain, operation: 'blockScannerJob', correlationId }), {
+        context: 'Block scanner run failed',
+      });
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
@@ -0,0 +1,82 @@
+/**
+ * Confirmation Tracker Job
+ *
+ * Periodically runs TrackConfirmationsUseCase for one chain, so recorded
+ * transfers only become CONFIRMED once they are deep enough to survive a reorg.
+ *
+ * Configuration:
+ * - CONFIRMATION_TRACKER_INTERVAL_MS  - Delay between runs (default: 30000)
+ * - CONFIRMATION_TRACKER_BATCH_SIZE   - Max PENDING transfers checked per run (default: 200)
+ *
+ * @module blockchain-service/infrastructure/jobs
+ */
+
+import { randomUUID } from 'crypto';
+import { TrackConfirmationsUseCase } from '../../domain/useCases/TrackConfirmationsUseCase';
+import { ChainType, logError, logInfo } from '@shield/shared/types';
+import { ensureBaseError } from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Confirmation Tracker Job (one instance per chain)
+ */
+export class ConfirmationTrackerJob {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  constructor(
+    private readonly chain: ChainType,
+    private readonly trackConfirmationsUseCase: TrackConfirmationsUseCase
+  ) {}
+
+  /**
+   * Starts the periodic run (no-op if already started)
+   */
+  public start(): void {
+    if (isNotNull(this.timer)) {
+      return;
+    }
+
+    const intervalMs = parseInt(process.env.CONFIRMATION_TRACKER_INTERVAL_MS || '30000', 10);
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, intervalMs);
+
+    logInfo('Confirmation tracker started', { chain: this.chain, intervalMs });
+  }
+
+  /**
+   * Stops the periodic run
+   */
+  public stop(): void {
+    if (isNotNull(this.timer)) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logInfo('Confirmation tracker stopped', { chain: this.chain });
+    }
+  }
+
+  /**
+   * Checks one batch of PENDING transfers (overlapping runs are skipped)
+   */
+  public async runOnce(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    const correlationId = randomUUID();
+
+    try {
+      const batchSize = parseInt(process.env.CONFIRMATION_TRACKER_BATCH_SIZE || '200', 10);
+      await this.trackConfirmationsUseCase.execute(this.chain, batchSize, correlationId);
+    } catch (error: unknown) {
+      logError(
+        ensureBaseError(error, { chain: this.chain, operation: 'confirmationTrackerJob', correlationId }),
+        { context: 'Confirmation tracker run failed' }
+      );
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Deposit Reporter Job
+ *
+ * Periodically runs ReportConfirmedDepositsUseCase for one chain, so confirmed
+ * transfers reach wallet-service even if it was down when they confirmed.
+ * Confirmations also trigger a run right away (see runOnce).
+ *
+ * Configuration:
+ * - DEPOSIT_REPORTER_INTERVAL_MS  - Delay between runs (default: 60000)
+ * - DEPOSIT_REPORTER_BATCH_SIZE   - Max transfers reported per run (default: 100)
+ *
+ * @module blockchain-service/infrastructure/jobs
+ */
+
+import { randomUUID } from 'crypto';
+import { ReportConfirmedDepositsUseCase } from '../../domain/useCases/ReportConfirmedDepositsUseCase';
+import { ChainType, logError, logInfo } from '@shield/shared/types';
+import { ensureBaseError } from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Deposit Reporter Job (one instance per chain)
+ */
+export class DepositReporterJob {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  constructor(
+    private readonly chain: ChainType,
+    private readonly reportConfirmedDepositsUseCase: ReportConfirmedDepositsUseCase
+  ) {}
+
+  /**
+   * Starts the periodic run (no-op if already started)
+   */
+  public start(): void {
+    if (isNotNull(this.timer)) {
+      return;
+    }
+
+    const intervalMs = parseInt(process.env.DEPOSIT_REPORTER_INTERVAL_MS || '60000', 10);
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, intervalMs);
+
+    logInfo('Deposit reporter started', { chain: this.chain, intervalMs });
+  }
+
+  /**
+   * Stops the periodic run
+   */
+  public stop(): void {
+    if (isNotNull(this.timer)) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logInfo('Deposit reporter stopped', { chain: this.chain });
+    }
+  }
+
+  /**
+   * Reports one batch of confirmed transfers (overlapping runs are skipped;
+   * what they miss is picked up by the next one)
+   */
+  public async runOnce(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    const correlationId = randomUUID();
+
+    try {
+      const batchSize = parseInt(process.env.DEPOSIT_REPORTER_BATCH_SIZE || '100', 10);
+      await this.reportConfirmedDepositsUseCase.execute(this.chain, batchSize, correlationId);
+    } catch (error: unknown) {
+      logError(
+        ensureBaseError(error, { chain: this.chain, operation: 'depositReporterJob', correlationId }),
+        { context: 'Deposit reporter run failed' }
+      );
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Mempool Watcher Job
+ *
+ * Buffers the transactions a chain's mempool source reports and periodically
+ * runs RecordPendingTransfersUseCase on them, so incoming transfers are
+ * announced before they are mined.
+ *
+ * Configuration:
+ * - MEMPOOL_WATCHER_INTERVAL_MS - Delay between runs (default: 1000)
+ * - MEMPOOL_BUFFER_SIZE         - Max transactions buffered between runs; the oldest are dropped (default: 10000)
+ *
+ * @module blockchain-service/infrastructure/jobs
+ */
+
+import { randomUUID } from 'crypto';
+import { IMempoolSource, PendingTransaction } from '../../domain/services/IMempoolSource';
+import { RecordPendingTransfersUseCase } from '../../domain/useCases/RecordPendingTransfersUseCase';
+import { ChainType, logError, logInfo } from '@shield/shared/types';
+import { ensureBaseError } from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Mempool Watcher Job (one instance per chain)
+ */
+export class MempoolWatcherJob {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+  private buffer: PendingTransaction[] = [];
+
+  constructor(
+    private readonly chain: ChainType,
+    private readonly source: IMempoolSource,
+    private readonly recordPendingTransfersUseCase: RecordPendingTransfersUseCase
+  ) {}
+
+  /**
+   * Starts the source and the periodic run (no-op if already started)
+   */
+  public start(): void {
+    if (isNotNull(this.timer)) {
+      return;
+    }
+
+    const intervalMs = parseInt(process.env.MEMPOOL_WATCHER_INTERVAL_MS || '1000', 10);
+    this.source.start((transactions) => this.enqueue(transactions));
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, intervalMs);
+
+    logInfo('Mempool watcher started', { chain: this.chain, intervalMs });
+  }
+
+  /**
+   * Stops the source and the periodic run
+   */
+  public stop(): void {
+    if (isNotNull(this.timer)) {
+      clearInterval(this.timer);
+      this.timer = null;
+      this.source.stop();
+      this.buffer = [];
+      logInfo('Mempool watcher stopped', { chain: this.chain });
+    }
+  }
+
+  /**
+   * Records the transfers among the buffered transactions (overlapping runs are skipped)
+   */
+  public async runOnce(): Promise<void> {
+    if (this.isRunning || this.buffer.length === 0) {
+      return;
+    }
+
+    this.isRunning = true;
+    const correlationId = randomUUID();
+    const transactions = this.buffer;
+    this.buffer = [];
+
+    try {
+      await this.recordPendingTransfersUseCase.execute(this.chain, transactions, correlationId);
+    } catch (error: unknown) {
+      logError(
+        ensureBaseError(error, { chain: this.chain, operation: 'mempoolWatcherJob', correlationId }),
+        { context: 'Mempool watcher run failed' }
+      );
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Adds transactions to the buffer, dropping the oldest beyond MEMPOOL_BUFFER_SIZE
+   */
+  private enqueue(transactions: PendingTransaction[]): void {
+    const maxSize = parseInt(process.env.MEMPOOL_BUFFER_SIZE || '10000', 10);
+
+    this.buffer.push(...transactions);
+    if (this.buffer.length > maxSize) {
+      this.buffer = this.buffer.slice(this.buffer.length - maxSize);
+    }
+  }
+}
@@ -0,0 +1,81 @@
+/**
+ * Nonce Reconciler Job
+ *
+ * Periodically runs ReconcileNoncesUseCase for one chain, so a payout that
+ * never reached the mempool does not block the system wallet's later payouts.
+ *
+ * Configuration:
+ * - NONCE_RECONCILER_INTERVAL_MS  - Delay between runs (default: 60000)
+ * - NONCE_GAP_GRACE_MS            - Age after which an unsent payout's nonce is filled (default: 300000)
+ *
+ * @module blockchain-service/infrastructure/jobs
+ */
+
+import { randomUUID } from 'crypto';
+import { ReconcileNoncesUseCase } from '../../domain/useCases/ReconcileNoncesUseCase';
+import { ChainType, logError, logInfo } from '@shield/shared/types';
+import { ensureBaseError } from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Nonce Reconciler Job (one instance per chain)
+ */
+export class NonceReconcilerJob {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  constructor(
+    private readonly chain: ChainType,
+    private readonly reconcileNoncesUseCase: ReconcileNoncesUseCase
+  ) {}
+
+  /**
+   * Starts the periodic run (no-op if already started)
+   */
+  public start(): void {
+    if (isNotNull(this.timer)) {
+      return;
+    }
+
+    const intervalMs = parseInt(process.env.NONCE_RECONCILER_INTERVAL_MS || '60000', 10);
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, intervalMs);
+
+    logInfo('Nonce reconciler started', { chain: this.chain, intervalMs });
+  }
+
+  /**
+   * Stops the periodic run
+   */
+  public stop(): void {
+    if (isNotNull(this.timer)) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logInfo('Nonce reconciler stopped', { chain: this.chain });
+    }
+  }
+
+  /**
+   * Checks the system wallet's nonces once (overlapping runs are skipped)
+   */
+  public async runOnce(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    const correlationId = randomUUID();
+
+    try {
+      await this.reconcileNoncesUseCase.execute(this.chain, correlationId);
+    } catch (error: unknown) {
+      logError(
+        ensureBaseError(error, { chain: this.chain, operation: 'nonceReconcilerJob', correlationId }),
+        { context: 'Nonce reconciler run failed' }
+      );
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
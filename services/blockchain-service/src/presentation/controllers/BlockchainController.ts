@@ -7,11 +7,18 @@
  */
 
 import { Request, Response } from 'express';
-import { GetUSDTBalanceUseCase } from '../../domain/useCases/GetUSDTBalanceUseCase';
+import { GetBalanceUseCase } from '../../domain/useCases/GetBalanceUseCase';
+import { GetBalancesUseCase } from '../../domain/useCases/GetBalancesUseCase';
 import { GetTransactionUseCase } from '../../domain/useCases/GetTransactionUseCase';
 import { ValidateTransactionUseCase } from '../../domain/useCases/ValidateTransactionUseCase';
 import { MonitorTransfersUseCase } from '../../domain/useCases/MonitorTransfersUseCase';
 import { GetNetworkStatusUseCase } from '../../domain/useCases/GetNetworkStatusUseCase';
+import { SendTransferUseCase } from '../../domain/useCases/SendTransferUseCase';
+import { ListTokensUseCase } from '../../domain/useCases/ListTokensUseCase';
+import {
+  ReplaceOutboundTransferUseCase,
+  ReplacementKind,
+} from '../../domain/useCases/ReplaceOutboundTransferUseCase';
 import { createSuccessResponse, createErrorResponse } from '@shield/shared/utils';
 import { ChainType } from '@shield/shared/types';
 import {
@@ -22,6 +29,20 @@ import {
 import { blockchainServiceLogger } from '@shield/shared/logger/serviceLogger';
 import { logControllerEntry, extractLogContext } from '@shield/shared/logger/helpers';
 
+/**
+ * Use cases the controller serves for one chain
+ */
+export interface ChainUseCases {
+  getBalanceUseCase: GetBalanceUseCase;
+  getBalancesUseCase: GetBalancesUseCase;
+  getTransactionUseCase: GetTransactionUseCase;
+  validateTransactionUseCase: ValidateTransactionUseCase;
+  monitorTransfersUseCase: MonitorTransfersUseCase;
+  getNetworkStatusUseCase: GetNetworkStatusUseCase;
+  sendTransferUseCase: SendTransferUseCase;
+  replaceOutboundTransferUseCase: ReplaceOutboundTransferUseCase;
+}
+
 /**
  * Blockchain Controller
  * 
@@ -33,20 +54,12 @@ import { logControllerEntry, extractLogContext } from '@shield/shared/logger/hel
  */
 export class BlockchainController {
   constructor(
-    private readonly polygonGetBalanceUseCase: GetUSDTBalanceUseCase,
-    private readonly tronGetBalanceUseCase: GetUSDTBalanceUseCase,
-    private readonly polygonGetTransactionUseCase: GetTransactionUseCase,
-    private readonly tronGetTransactionUseCase: GetTransactionUseCase,
-    private readonly polygonValidateTransactionUseCase: ValidateTransactionUseCase,
-    private readonly tronValidateTransactionUseCase: ValidateTransactionUseCase,
-    private readonly polygonMonitorTransfersUseCase: MonitorTransfersUseCase,
-    private readonly tronMonitorTransfersUseCase: MonitorTransfersUseCase,
-    private readonly polygonGetNetworkStatusUseCase: GetNetworkStatusUseCase,
-    private readonly tronGetNetworkStatusUseCase: GetNetworkStatusUseCase
+    private readonly getChainUseCases: (chain: ChainType) => ChainUseCases,
+    private readonly listTokensUseCase: ListTokensUseCase
   ) {}
 
   /**
-   * Gets USDT balance
+   * Gets a token balance (USDT unless a token symbol is given)
    */
   public async getBalance(req: Request, res: Response): Promise<void> {
     const logger = blockchainServiceLogger();
@@ -56,12 +69,13 @@ export class BlockchainController {
 
       // Extract data from request (validation already done by Joi middleware)
       const { chain, address } = req.params;
+      const token = req.query.token as string | undefined;
 
       // Get appropriate use case based on chain
-      const useCase = this.getBalanceUseCaseForChain(chain as ChainType);
+      const useCase = this.getChainUseCases(chain as ChainType).getBalanceUseCase;
 
       // Call use case
-      const result = await useCase.execute(chain as ChainType, address, this.getCorrelationId(req));
+      const result = await useCase.execute(chain as ChainType, address, token, this.getCorrelationId(req));
 
       // Format HTTP response
       res.status(200).json(
@@ -88,6 +102,50 @@ export class BlockchainController {
     }
   }
 
+  /**
+   * Gets the balances of many addresses for one or more tokens (USDT unless token symbols are given)
+   */
+  public async getBalances(req: Request, res: Response): Promise<void> {
+    const logger = blockchainServiceLogger();
+
+    try {
+      logControllerEntry(logger, 'BlockchainController', 'getBalances', req);
+
+      // Extract data from request (validation already done by Joi middleware)
+      const { chain } = req.params;
+      const { addresses, tokens } = req.body as { addresses: string[]; tokens?: string[] };
+
+      // Get appropriate use case based on chain
+      const useCase = this.getChainUseCases(chain as ChainType).getBalancesUseCase;
+
+      // Call use case
+      const result = await useCase.execute(chain as ChainType, addresses, tokens, this.getCorrelationId(req));
+
+      // Format HTTP response
+      res.status(200).json(
+        createSuccessResponse(result, 'Balances retrieved successfully')
+      );
+    } catch (error: unknown) {
+      // Handle errors with strong typing
+      const baseError = ensureBaseError(error, {
+        action: 'getBalances',
+        chain: req.params.chain,
+        addressCount: Array.isArray(req.body?.addresses) ? req.body.addresses.length : 0,
+        ...extractLogContext(req),
+      });
+
+      if (shouldLogError(baseError)) {
+        logger.error('Failed to get balances', baseError, {
+          ...extractLogContext(req),
+          errorCode: baseError.code,
+          statusCode: baseError.statusCode,
+        });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
   /**
    * Gets transaction details
    */
@@ -99,12 +157,13 @@ export class BlockchainController {
 
       // Extract data from request (validation already done by Joi middleware)
       const { chain, hash } = req.params;
+      const decode = String(req.query.decode).toLowerCase() === 'true';
 
       // Get appropriate use case based on chain
-      const useCase = this.getTransactionUseCaseForChain(chain as ChainType);
+      const useCase = this.getChainUseCases(chain as ChainType).getTransactionUseCase;
 
       // Call use case
-      const result = await useCase.execute(chain as ChainType, hash, this.getCorrelationId(req));
+      const result = await useCase.execute(chain as ChainType, hash, decode, this.getCorrelationId(req));
 
       // Format HTTP response
       res.status(200).json(
@@ -142,16 +201,17 @@ export class BlockchainController {
 
       // Extract data from request (validation already done by Joi middleware)
       const { chain } = req.params;
-      const { txHash, expectedToAddress } = req.body;
+      const { txHash, expectedToAddress, token } = req.body;
 
       // Get appropriate use case based on chain
-      const useCase = this.getValidateTransactionUseCaseForChain(chain as ChainType);
+      const useCase = this.getChainUseCases(chain as ChainType).validateTransactionUseCase;
 
       // Call use case
       const result = await useCase.execute(
         chain as ChainType,
         txHash,
         expectedToAddress,
+        token,
         this.getCorrelationId(req)
       );
 
@@ -191,10 +251,10 @@ export class BlockchainController {
 
       // Extract data from request (validation already done by Joi middleware)
       const { chain } = req.params;
-      const { toAddress, fromBlock, toBlock } = req.body;
+      const { toAddress, fromBlock, toBlock, token } = req.body;
 
       // Get appropriate use case based on chain
-      const useCase = this.getMonitorTransfersUseCaseForChain(chain as ChainType);
+      const useCase = this.getChainUseCases(chain as ChainType).monitorTransfersUseCase;
 
       // Call use case
       const result = await useCase.execute(
@@ -202,6 +262,7 @@ export class BlockchainController {
         toAddress,
         fromBlock || 0,
         toBlock || 0,
+        token,
         this.getCorrelationId(req)
       );
 
@@ -243,7 +304,7 @@ export class BlockchainController {
       const { chain } = req.params;
 
       // Get appropriate use case based on chain
-      const useCase = this.getNetworkStatusUseCaseForChain(chain as ChainType);
+      const useCase = this.getChainUseCases(chain as ChainType).getNetworkStatusUseCase;
 
       // Call use case
       const result = await useCase.execute(chain as ChainType, this.getCorrelationId(req));
@@ -273,48 +334,168 @@ export class BlockchainController {
   }
 
   /**
-   * Gets balance use case for chain
+   * Gets the tokens registered for a chain
    */
-  private getBalanceUseCaseForChain(chain: ChainType): GetUSDTBalanceUseCase {
-    return chain === ChainType.POLYGON
-      ? this.polygonGetBalanceUseCase
-      : this.tronGetBalanceUseCase;
+  public async getTokens(req: Request, res: Response): Promise<void> {
+    const logger = blockchainServiceLogger();
+
+    try {
+      logControllerEntry(logger, 'BlockchainController', 'getTokens', req);
+
+      // Extract data from request (validation already done by Joi middleware)
+      const { chain } = req.params;
+
+      // Call use case
+      const result = await this.listTokensUseCase.execute(chain as ChainType, this.getCorrelationId(req));
+
+      // Format HTTP response
+      res.status(200).json(
+        createSuccessResponse(result, 'Tokens retrieved successfully')
+      );
+    } catch (error: unknown) {
+      // Handle errors with strong typing
+      const baseError = ensureBaseError(error, {
+        action: 'getTokens',
+        chain: req.params.chain,
+        ...extractLogContext(req),
+      });
+
+      if (shouldLogError(baseError)) {
+        logger.error('Failed to get tokens', baseError, {
+          ...extractLogContext(req),
+          errorCode: baseError.code,
+          statusCode: baseError.statusCode,
+        });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
   }
 
   /**
-   * Gets transaction use case for chain
+   * Sends a token from the system wallet (service tokens only)
    */
-  private getTransactionUseCaseForChain(chain: ChainType): GetTransactionUseCase {
-    return chain === ChainType.POLYGON
-      ? this.polygonGetTransactionUseCase
-      : this.tronGetTransactionUseCase;
+  public async sendTransfer(req: Request, res: Response): Promise<void> {
+    const logger = blockchainServiceLogger();
+
+    try {
+      logControllerEntry(logger, 'BlockchainController', 'sendTransfer', req);
+
+      // Extract data from request (validation already done by Joi middleware)
+      const { chain } = req.params;
+      const { toAddress, amount, token, idempotencyKey, reference } = req.body;
+      const userId = (req as Request & { user?: { userId?: string } }).user?.userId || '';
+
+      // Get appropriate use case based on chain
+      const useCase = this.getChainUseCases(chain as ChainType).sendTransferUseCase;
+
+      // Call use case
+      const result = await useCase.execute(
+        chain as ChainType,
+        {
+          toAddress,
+          amount,
+          tokenSymbol: token,
+          idempotencyKey,
+          requestedBy: userId.replace(/^system:/, ''),
+          reference,
+        },
+        this.getCorrelationId(req)
+      );
+
+      // Format HTTP response (202: confirmation is tracked in the background)
+      res.status(result.replayed ? 200 : 202).json(
+        createSuccessResponse(
+          result.transfer,
+          result.replayed ? 'Transfer already requested with this idempotency key' : 'Transfer broadcast successfully'
+        )
+      );
+    } catch (error: unknown) {
+      // Handle errors with strong typing
+      const baseError = ensureBaseError(error, {
+        action: 'sendTransfer',
+        chain: req.params.chain,
+        toAddress: req.body.toAddress,
+        idempotencyKey: req.body.idempotencyKey,
+        ...extractLogContext(req),
+      });
+
+      if (shouldLogError(baseError)) {
+        logger.error('Failed to send transfer', baseError, {
+          ...extractLogContext(req),
+          errorCode: baseError.code,
+          statusCode: baseError.statusCode,
+        });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
   }
 
   /**
-   * Gets validate transaction use case for chain
+   * Re-sends a stuck payout with higher fees (service tokens only)
    */
-  private getValidateTransactionUseCaseForChain(chain: ChainType): ValidateTransactionUseCase {
-    return chain === ChainType.POLYGON
-      ? this.polygonValidateTransactionUseCase
-      : this.tronValidateTransactionUseCase;
+  public async speedUpTransfer(req: Request, res: Response): Promise<void> {
+    await this.replaceTransfer(req, res, 'speed-up');
   }
 
   /**
-   * Gets monitor transfers use case for chain
+   * Cancels a stuck payout with a 0-value replacement (service tokens only)
    */
-  private getMonitorTransfersUseCaseForChain(chain: ChainType): MonitorTransfersUseCase {
-    return chain === ChainType.POLYGON
-      ? this.polygonMonitorTransfersUseCase
-      : this.tronMonitorTransfersUseCase;
+  public async cancelTransfer(req: Request, res: Response): Promise<void> {
+    await this.replaceTransfer(req, res, 'cancel');
   }
 
   /**
-   * Gets network status use case for chain
+   * Broadcasts a replacement for a stuck payout
    */
-  private getNetworkStatusUseCaseForChain(chain: ChainType): GetNetworkStatusUseCase {
-    return chain === ChainType.POLYGON
-      ? this.polygonGetNetworkStatusUseCase
-      : this.tronGetNetworkStatusUseCase;
+  private async replaceTransfer(req: Request, res: Response, kind: ReplacementKind): Promise<void> {
+    const logger = blockchainServiceLogger();
+    const action = kind === 'speed-up' ? 'speedUpTransfer' : 'cancelTransfer';
+
+    try {
+      logControllerEntry(logger, 'BlockchainController', action, req);
+
+      // Extract data from request (validation already done by Joi middleware)
+      const { chain, idempotencyKey } = req.params;
+
+      // Get appropriate use case based on chain
+      const useCase = this.getChainUseCases(chain as ChainType).replaceOutboundTransferUseCase;
+
+      // Call use case
+      const transfer = await useCase.execute(
+        chain as ChainType,
+        idempotencyKey,
+        kind,
+        this.getCorrelationId(req)
+      );
+
+      // Format HTTP response (202: the replacement still has to be mined)
+      res.status(202).json(
+        createSuccessResponse(
+          transfer,
+          kind === 'speed-up' ? 'Speed-up broadcast successfully' : 'Cancellation broadcast successfully'
+        )
+      );
+    } catch (error: unknown) {
+      // Handle errors with strong typing
+      const baseError = ensureBaseError(error, {
+        action,
+        chain: req.params.chain,
+        idempotencyKey: req.params.idempotencyKey,
+        ...extractLogContext(req),
+      });
+
+      if (shouldLogError(baseError)) {
+        logger.error(`Failed to ${kind} transfer`, baseError, {
+          ...extractLogContext(req),
+          errorCode: baseError.code,
+          statusCode: baseError.statusCode,
+        });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
   }
 
   /**
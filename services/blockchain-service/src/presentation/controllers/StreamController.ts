@@ -0,0 +1,418 @@
+/**
+ * Stream Controller - Presentation Layer
+ *
+ * Real-time transfer and balance updates over WebSocket, with Server-Sent
+ * Events as a fallback for clients that cannot open a WebSocket.
+ *
+ * - WebSocket: subscriptions are added and removed with JSON messages
+ *   (`{ "action": "subscribe", "chain": "POLYGON", "address": "0x..." }`)
+ * - SSE: subscriptions are fixed by the query string when the stream opens
+ *
+ * Connections are closed when the user's token expires; clients reconnect
+ * with a fresh token.
+ *
+ * Configuration:
+ * - STREAM_HEARTBEAT_INTERVAL_MS - WebSocket ping / SSE comment interval (default: 25000)
+ *
+ * @module blockchain-service/presentation/controllers
+ */
+
+import { randomUUID } from 'crypto';
+import { Request, Response } from 'express';
+import { WebSocket, type RawData } from 'ws';
+import {
+  AuthorizeStreamSubscriptionUseCase,
+  StreamSubscription,
+  StreamSubscriptionRequest,
+  streamSubscriptionKey,
+} from '../../domain/useCases/AuthorizeStreamSubscriptionUseCase';
+import { StreamClient, StreamMessage, TransferStreamHub } from '../../infrastructure/events/TransferStreamHub';
+import type { AuthenticatedRequest, AuthenticatedUser } from '@shield/shared/middleware';
+import { createErrorResponse } from '@shield/shared/utils';
+import { ChainType, logError, logInfo } from '@shield/shared/types';
+import {
+  AuthorizationError,
+  BaseError,
+  ValidationError,
+  ensureBaseError,
+  shouldLogError,
+} from '@shield/shared/errors';
+import { isNonEmptyString } from '@shield/shared/utils/guards';
+import { blockchainServiceLogger } from '@shield/shared/logger/serviceLogger';
+import { logControllerEntry, extractLogContext } from '@shield/shared/logger/helpers';
+
+/**
+ * WebSocket close code sent when the user's token expires
+ */
+export const STREAM_TOKEN_EXPIRED_CLOSE_CODE = 4001;
+
+/**
+ * Longest delay accepted by setTimeout (about 24.8 days)
+ */
+const MAX_TIMER_DELAY_MS = 2147483647;
+
+/**
+ * Stream Controller
+ */
+export class StreamController {
+  /** Closes each open connection (used on shutdown) */
+  private readonly openConnections = new Set<() => void>();
+
+  constructor(
+    private readonly hub: TransferStreamHub,
+    private readonly authorizeStreamSubscriptionUseCase: AuthorizeStreamSubscriptionUseCase
+  ) {}
+
+  /**
+   * Opens a Server-Sent Events stream for the addresses and transactions in the query
+   *
+   * Every subscription is authorized before the stream opens, so a rejected
+   * one is answered with a regular JSON error.
+   */
+  public async openEventStream(req: Request, res: Response): Promise<void> {
+    const logger = blockchainServiceLogger();
+
+    try {
+      logControllerEntry(logger, 'StreamController', 'openEventStream', req);
+
+      // Extract data from request (validation already done by Joi middleware)
+      const userId = this.getUserId(req);
+      const chain = req.query.chain as ChainType;
+      const requests: StreamSubscriptionRequest[] = [
+        ...this.toList(req.query.address).map((address) => ({ chain, address })),
+        ...this.toList(req.query.txHash).map((txHash) => ({ chain, txHash })),
+      ];
+
+      const subscriptions: StreamSubscription[] = [];
+      for (const request of requests) {
+        subscriptions.push(
+          await this.authorizeStreamSubscriptionUseCase.execute(
+            userId,
+            String(res.locals.accessToken),
+            request,
+            this.getCorrelationId(req)
+          )
+        );
+      }
+
+      const client: StreamClient = {
+        id: randomUUID(),
+        userId,
+        send: (message: StreamMessage): void => {
+          res.write(`event: ${message.type}\ndata: ${JSON.stringify(message.data)}\n\n`);
+        },
+      };
+
+      this.hub.register(client);
+      try {
+        for (const subscription of subscriptions) {
+          this.hub.subscribe(client.id, subscription);
+        }
+      } catch (error: unknown) {
+        this.hub.unregister(client.id);
+        throw error;
+      }
+
+      res.status(200).set({
+        'Content-Type': 'text/event-stream',
+        'Cache-Control': 'no-cache, no-transform',
+        Connection: 'keep-alive',
+        'X-Accel-Buffering': 'no', // Disable proxy buffering (nginx)
+      });
+      res.flushHeaders();
+
+      client.send({ type: 'connected', data: { connectionId: client.id } });
+      for (const subscription of subscriptions) {
+        client.send({ type: 'subscribed', data: this.describe(subscription) });
+      }
+
+      const heartbeat = setInterval(() => res.write(': ping\n\n'), this.getHeartbeatIntervalMs());
+      const expiry = this.scheduleExpiry((req as AuthenticatedRequest).user?.exp ?? 0, () => {
+        client.send({
+          type: 'error',
+          data: { code: 'TOKEN_EXPIRED', message: 'Authentication token has expired', statusCode: 401 },
+        });
+        res.end();
+      });
+      const close = (): void => {
+        res.end();
+      };
+
+      this.openConnections.add(close);
+      req.on('close', () => {
+        clearInterval(heartbeat);
+        clearTimeout(expiry ?? undefined);
+        this.openConnections.delete(close);
+        this.hub.unregister(client.id);
+        logInfo('Event stream closed', { connectionId: client.id, userId });
+      });
+
+      logInfo('Event stream opened', {
+        connectionId: client.id,
+        userId,
+        subscriptions: subscriptions.length,
+        correlationId: this.getCorrelationId(req),
+      });
+    } catch (error: unknown) {
+      // Handle errors with strong typing
+      const baseError = ensureBaseError(error, {
+        action: 'openEventStream',
+        chain: req.query.chain,
+        ...extractLogContext(req),
+      });
+
+      if (shouldLogError(baseError)) {
+        logger.error('Failed to open event stream', baseError, {
+          ...extractLogContext(req),
+          errorCode: baseError.code,
+          statusCode: baseError.statusCode,
+        });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Serves an authenticated WebSocket connection
+   *
+   * The connection starts without subscriptions; each `subscribe` message is
+   * authorized on its own and answered with `subscribed` or `error` (echoing
+   * the message's `id`, if any).
+   */
+  public handleWebSocket(
+    socket: WebSocket,
+    user: AuthenticatedUser,
+    accessToken: string,
+    correlationId: string = ''
+  ): void {
+    const client: StreamClient = {
+      id: randomUUID(),
+      userId: user.userId,
+      send: (message: StreamMessage): void => {
+        if (socket.readyState === WebSocket.OPEN) {
+          socket.send(JSON.stringify(message));
+        }
+      },
+    };
+
+    this.hub.register(client);
+
+    // Connections that miss a ping round are dropped (e.g. a client that vanished without a close frame)
+    let isAlive = true;
+    socket.on('pong', () => {
+      isAlive = true;
+    });
+    const heartbeat = setInterval(() => {
+      if (!isAlive) {
+        socket.terminate();
+        return;
+      }
+      isAlive = false;
+      socket.ping();
+    }, this.getHeartbeatIntervalMs());
+    const expiry = this.scheduleExpiry(user.exp, () => {
+      socket.close(STREAM_TOKEN_EXPIRED_CLOSE_CODE, 'Authentication token has expired');
+    });
+    const close = (): void => {
+      socket.close(1001, 'Server shutting down');
+    };
+
+    this.openConnections.add(close);
+    socket.on('message', (data: RawData) => {
+      void this.handleMessage(client, accessToken, data.toString(), correlationId);
+    });
+    socket.on('close', () => {
+      clearInterval(heartbeat);
+      clearTimeout(expiry ?? undefined);
+      this.openConnections.delete(close);
+      this.hub.unregister(client.id);
+      logInfo('WebSocket stream closed', { connectionId: client.id, userId: user.userId });
+    });
+    socket.on('error', (error: Error) => {
+      logError(ensureBaseError(error, { connectionId: client.id, userId: user.userId }), {
+        context: 'WebSocket stream error',
+      });
+    });
+
+    client.send({ type: 'connected', data: { connectionId: client.id } });
+
+    logInfo('WebSocket stream opened', {
+      connectionId: client.id,
+      userId: user.userId,
+      correlationId,
+    });
+  }
+
+  /**
+   * Closes every open stream (WebSocket and SSE)
+   */
+  public closeAll(): void {
+    for (const close of [...this.openConnections]) {
+      close();
+    }
+  }
+
+  /**
+   * Handles a subscribe / unsubscribe message from a WebSocket client
+   */
+  private async handleMessage(
+    client: StreamClient,
+    accessToken: string,
+    raw: string,
+    correlationId: string
+  ): Promise<void> {
+    let id: unknown;
+
+    try {
+      const message = this.parseMessage(raw);
+      id = message.id;
+
+      if (message.action !== 'subscribe' && message.action !== 'unsubscribe') {
+        throw new ValidationError('action must be subscribe or unsubscribe', {
+          field: 'action',
+          value: message.action,
+        });
+      }
+
+      const request: StreamSubscriptionRequest = {
+        chain: message.chain as ChainType,
+        address: isNonEmptyString(message.address) ? message.address : undefined,
+        txHash: isNonEmptyString(message.txHash) ? message.txHash : undefined,
+      };
+
+      if (message.action === 'unsubscribe') {
+        if (!isNonEmptyString(request.chain) || isNonEmptyString(request.address) === isNonEmptyString(request.txHash)) {
+          throw new ValidationError('chain and exactly one of address or txHash are required', {
+            field: 'address',
+          });
+        }
+
+        const key = isNonEmptyString(request.address)
+          ? streamSubscriptionKey(request.chain, 'address', request.address)
+          : streamSubscriptionKey(request.chain, 'transaction', request.txHash as string);
+
+        this.hub.unsubscribe(client.id, key);
+        client.send({ type: 'unsubscribed', data: { id, ...request } });
+        return;
+      }
+
+      const subscription = await this.authorizeStreamSubscriptionUseCase.execute(
+        client.userId,
+        accessToken,
+        request,
+        correlationId
+      );
+      this.hub.subscribe(client.id, subscription);
+      client.send({ type: 'subscribed', data: { id, ...this.describe(subscription) } });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        action: 'streamMessage',
+        connectionId: client.id,
+        userId: client.userId,
+        correlationId,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Failed to handle stream message' });
+      }
+
+      client.send({
+        type: 'error',
+        data: { id, code: baseError.code, message: baseError.message, statusCode: baseError.statusCode },
+      });
+    }
+  }
+
+  /**
+   * Parses a client message
+   *
+   * @throws ValidationError if it is not a JSON object
+   */
+  private parseMessage(raw: string): Record<string, unknown> {
+    let message: unknown;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      throw new ValidationError('Messages must be JSON objects', { field: 'message' });
+    }
+
+    if (typeof message !== 'object' || message === null || Array.isArray(message)) {
+      throw new ValidationError('Messages must be JSON objects', { field: 'message' });
+    }
+
+    return message as Record<string, unknown>;
+  }
+
+  /**
+   * Public shape of a subscription (as sent in `subscribed` messages)
+   */
+  private describe(subscription: StreamSubscription): Record<string, unknown> {
+    return subscription.kind === 'address'
+      ? { chain: subscription.chain, address: subscription.value }
+      : { chain: subscription.chain, txHash: subscription.value };
+  }
+
+  /**
+   * Runs a callback when the token expires (null for tokens without an expiry)
+   */
+  private scheduleExpiry(exp: number, onExpire: () => void): NodeJS.Timeout | null {
+    if (exp <= 0) {
+      return null;
+    }
+
+    return setTimeout(onExpire, Math.min(Math.max(exp * 1000 - Date.now(), 0), MAX_TIMER_DELAY_MS));
+  }
+
+  /**
+   * Reads a query value that may be given once or repeated
+   */
+  private toList(value: unknown): string[] {
+    return (Array.isArray(value) ? value : [value]).filter(isNonEmptyString);
+  }
+
+  /**
+   * Heartbeat interval (STREAM_HEARTBEAT_INTERVAL_MS)
+   */
+  private getHeartbeatIntervalMs(): number {
+    const parsed = parseInt(process.env.STREAM_HEARTBEAT_INTERVAL_MS || '', 10);
+    return Number.isInteger(parsed) && parsed > 0 ? parsed : 25000;
+  }
+
+  /**
+   * Extracts user ID from authenticated request
+   *
+   * @throws AuthorizationError if user is not authenticated
+   */
+  private getUserId(req: Request): string {
+    const userId = (req as AuthenticatedRequest).user?.userId;
+    if (!userId) {
+      throw new AuthorizationError('User not authenticated');
+    }
+    return userId;
+  }
+
+  /**
+   * Gets the correlation ID of a request
+   */
+  private getCorrelationId(req: Request): string {
+    return (req as Request & { correlationId?: string }).correlationId || '';
+  }
+
+  /**
+   * Handles errors and formats HTTP error response
+   */
+  private handleError(error: BaseError, res: Response, path: string): void {
+    res.status(error.statusCode).json(
+      createErrorResponse(
+        error.message,
+        error.statusCode,
+        path,
+        {
+          code: error.code,
+          context: error.context,
+        }
+      )
+    );
+  }
+}
@@ -18,9 +18,24 @@
 
 import { Router, type Request, type Response } from 'express';
 import { DependencyContainer } from './infrastructure/dependencyInjection';
-import { authenticate, validateRequest } from '@shield/shared/middleware';
+import {
+  MAX_BATCH_BALANCE_ADDRESSES,
+  MAX_BATCH_BALANCE_TOKENS,
+} from './domain/useCases/GetBalancesUseCase';
+import { authenticate, requireServiceToken, validateRequest } from '@shield/shared/middleware';
 import Joi from 'joi';
 import type { AuthenticatedRequest } from '@shield/shared/middleware';
+import { ChainType } from '@shield/shared/types';
+import {
+  getChainDisplayName,
+  getChainFamily,
+  getChainId,
+  getConfirmationsRequired,
+  getDefaultTokens,
+  getEnabledChains,
+  getNativeSymbol,
+  getUsdtContractAddress,
+} from './config/chains';
 
 const router = Router();
 const container = DependencyContainer.getInstance();
@@ -54,10 +69,10 @@ const addressSchema = Joi.alternatives().try(
   'any.required': 'Address is required',
 });
 
-// Chain parameter schema
+// Chain parameter schema (chains that are not enabled on this service are rejected by the handlers)
 const chainParamSchema = Joi.object({
-  chain: Joi.string().valid('POLYGON', 'TRON').required().messages({
-    'any.only': 'Chain must be either POLYGON or TRON',
+  chain: Joi.string().valid(...Object.values(ChainType)).required().messages({
+    'any.only': `Chain must be one of ${Object.values(ChainType).join(', ')}`,
     'any.required': 'Chain parameter is required',
   }),
 });
@@ -70,7 +85,7 @@ const addressParamSchema = chainParamSchema.keys({
 // Transaction hash parameter schema
 const txHashParamSchema = chainParamSchema.keys({
   hash: Joi.alternatives().try(
-    Joi.string().pattern(/^0x[0-9a-fA-F]{64}$/), // Polygon
+    Joi.string().pattern(/^0x[0-9a-fA-F]{64}$/), // EVM chains
     Joi.string().pattern(/^[0-9a-fA-F]{64}$/) // Tron
   ).required().messages({
     'alternatives.match': 'Invalid transaction hash format',
@@ -78,6 +93,42 @@ const txHashParamSchema = chainParamSchema.keys({
   }),
 });
 
+// Registered token symbol (USDT, USDC, ...); the registry decides what is supported
+const tokenSymbolSchema = Joi.string().pattern(/^[A-Za-z0-9]{2,11}$/).messages({
+  'string.pattern.base': 'Token must be a token symbol such as USDT or USDC',
+});
+
+// Balance query schema
+const balanceQuerySchema = Joi.object({
+  token: tokenSymbolSchema.optional(),
+});
+
+// Transaction query schema
+const transactionQuerySchema = Joi.object({
+  decode: Joi.boolean().optional().messages({
+    'boolean.base': 'decode must be true or false',
+  }),
+});
+
+// Batch balance body schema
+const batchBalanceBodySchema = Joi.object({
+  addresses: Joi.array().items(addressSchema).min(1).max(MAX_BATCH_BALANCE_ADDRESSES).required().messages({
+    'array.min': 'At least one address is required',
+    'array.max': `At most ${MAX_BATCH_BALANCE_ADDRESSES} addresses can be queried at once`,
+    'any.required': 'Addresses are required',
+  }),
+  tokens: Joi.array().items(tokenSymbolSchema).min(1).max(MAX_BATCH_BALANCE_TOKENS).optional().messages({
+    'array.max': `At most ${MAX_BATCH_BALANCE_TOKENS} tokens can be queried at once`,
+  }),
+});
+
+// Outbound transfer parameter schema
+const outboundTransferParamSchema = chainParamSchema.keys({
+  idempotencyKey: Joi.string().min(8).max(128).required().messages({
+    'any.required': 'Idempotency key is required',
+  }),
+});
+
 // Validate transaction body schema
 const validateTransactionBodySchema = Joi.object({
   txHash: Joi.alternatives().try(
@@ -85,6 +136,7 @@ const validateTransactionBodySchema = Joi.object({
     Joi.string().pattern(/^[0-9a-fA-F]{64}$/)
   ).required(),
   expectedToAddress: addressSchema,
+  token: tokenSymbolSchema.optional(),
 });
 
 // Monitor transfers body schema
@@ -92,6 +144,21 @@ const monitorTransfersBodySchema = Joi.object({
   toAddress: addressSchema,
   fromBlock: Joi.number().integer().min(0).optional().default(0),
   toBlock: Joi.number().integer().min(0).optional().default(0),
+  token: tokenSymbolSchema.optional(),
+});
+
+// Outbound transfer body schema (the token's own decimals are checked by the use case)
+const sendTransferBodySchema = Joi.object({
+  toAddress: addressSchema,
+  amount: Joi.string().pattern(/^\d+(\.\d{1,18})?$/).required().messages({
+    'string.pattern.base': 'Amount must be a positive decimal amount',
+    'any.required': 'Amount is required',
+  }),
+  token: tokenSymbolSchema.optional(),
+  idempotencyKey: Joi.string().min(8).max(128).required().messages({
+    'any.required': 'Idempotency key is required',
+  }),
+  reference: Joi.string().max(255).optional(),
 });
 
 // Token balance query schema
@@ -109,29 +176,53 @@ const gasEstimateQuerySchema = Joi.object({
   transactionType: Joi.string()
     .valid('transfer_native', 'transfer_token', 'approve_token', 'swap')
     .optional(),
+  // Concrete transaction to estimate (sender defaults to the system wallet, token to USDT)
+  token: tokenSymbolSchema.optional(),
+  from: addressSchema.optional(),
+  to: addressSchema.optional(),
+  amount: Joi.string().pattern(/^\d+(\.\d{1,18})?$/).optional().messages({
+    'string.pattern.base': 'Amount must be a positive decimal amount',
+  }),
 });
 
 /**
  * ============================================================================
- * API v1 Routes (USDT Balance, Transactions, Validation)
+ * API v1 Routes (Token Balance, Transactions, Validation)
  * ============================================================================
  */
 
-// GET /v1/:chain/balance/:address - Get USDT balance for an address
+// GET /v1/:chain/tokens - List the tokens registered for a chain
+router.get(
+  '/:chain/tokens',
+  validateRequest(chainParamSchema, 'params'),
+  withAuth((req, res) => blockchainController.getTokens(req, res))
+);
+
+// GET /v1/:chain/balance/:address?token=USDC - Get a token balance for an address (default USDT)
 router.get(
   '/:chain/balance/:address',
   validateRequest(addressParamSchema, 'params'),
+  validateRequest(balanceQuerySchema, 'query'),
   withAuth((req, res) => blockchainController.getBalance(req, res))
 );
 
-// GET /:chain/transaction/:hash - Get transaction details
+// POST /:chain/balances - Get token balances for many addresses at once (default USDT)
+router.post(
+  '/:chain/balances',
+  validateRequest(chainParamSchema, 'params'),
+  validateRequest(batchBalanceBodySchema),
+  withAuth((req, res) => blockchainController.getBalances(req, res))
+);
+
+// GET /:chain/transaction/:hash - Get transaction details (?decode=true for the decoded transaction)
 router.get(
   '/:chain/transaction/:hash',
   validateRequest(txHashParamSchema, 'params'),
+  validateRequest(transactionQuerySchema, 'query'),
   withAuth((req, res) => blockchainController.getTransaction(req, res))
 );
 
-// POST /:chain/validate - Validate a USDT transaction
+// POST /:chain/validate - Validate a token transfer (default USDT)
 router.post(
   '/:chain/validate',
   validateRequest(chainParamSchema, 'params'),
@@ -139,7 +230,7 @@ router.post(
   withAuth((req, res) => blockchainController.validateTransaction(req, res))
 );
 
-// POST /:chain/monitor - Monitor USDT transfers to an address
+// POST /:chain/monitor - Monitor token transfers to an address (default USDT)
 router.post(
   '/:chain/monitor',
   validateRequest(chainParamSchema, 'params'),
@@ -154,9 +245,34 @@ router.get(
   withAuth((req, res) => blockchainController.getNetworkStatus(req, res))
 );
 
+// POST /:chain/transfers - Send a token from the system wallet (default USDT, service tokens only)
+router.post(
+  '/:chain/transfers',
+  requireServiceToken,
+  validateRequest(chainParamSchema, 'params'),
+  validateRequest(sendTransferBodySchema),
+  withAuth((req, res) => blockchainController.sendTransfer(req, res))
+);
+
+// POST /:chain/transfers/:idempotencyKey/speed-up - Re-send a stuck payout with higher fees (EVM chains, service tokens only)
+router.post(
+  '/:chain/transfers/:idempotencyKey/speed-up',
+  requireServiceToken,
+  validateRequest(outboundTransferParamSchema, 'params'),
+  withAuth((req, res) => blockchainController.speedUpTransfer(req, res))
+);
+
+// POST /:chain/transfers/:idempotencyKey/cancel - Cancel a stuck payout (EVM chains, service tokens only)
+router.post(
+  '/:chain/transfers/:idempotencyKey/cancel',
+  requireServiceToken,
+  validateRequest(outboundTransferParamSchema, 'params'),
+  withAuth((req, res) => blockchainController.cancelTransfer(req, res))
+);
+
 /**
  * ============================================================================
- * NEW ROUTES (Wallet Verification, Balance Cache, Gas Estimation)
+ * NEW ROUTES (Wallet Verification, Direct Token Balance, Gas Estimation)
  * ============================================================================
  */
 
@@ -167,13 +283,10 @@ router.get(
   withAuth(async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { chain, address } = req.params;
-      const useCase =
-        chain === 'POLYGON'
-          ? container.polygonVerifyWalletUseCase
-          : container.tronVerifyWalletUseCase;
+      const useCase = container.getChainServices(chain as ChainType).verifyWalletUseCase;
 
       const result = await useCase.execute(
-        chain as 'POLYGON' | 'TRON',
+        chain as ChainType,
         address,
         req.correlationId || ''
       );
@@ -205,20 +318,15 @@ router.get(
 
       // Default to USDT contract if not specified
       // Accept both 'token' and 'tokenAddress' query parameters
+      const useCase = container.getChainServices(chain as ChainType).getTokenBalanceUseCase;
+
       const tokenAddress =
         (tokenAddressParam as string) ||
         (token as string) ||
-        (chain === 'POLYGON'
-          ? process.env.POLYGON_USDT_ADDRESS!
-          : process.env.TRON_USDT_ADDRESS!);
-
-      const useCase =
-        chain === 'POLYGON'
-          ? container.polygonGetTokenBalanceUseCase
-          : container.tronGetTokenBalanceUseCase;
+        getUsdtContractAddress(chain as ChainType);
 
       const result = await useCase.execute(
-        chain as 'POLYGON' | 'TRON',
+        chain as ChainType,
         address,
         tokenAddress,
         req.correlationId || ''
@@ -247,20 +355,23 @@ router.get(
   withAuth(async (req: AuthenticatedRequest, res: Response) => {
     try {
       const { chain } = req.params;
-      const { type, transactionType } = req.query;
+      const { type, transactionType, token, from, to, amount } = req.query;
 
       // Accept both 'type' and 'transactionType' query parameters
       const txType = (transactionType as string) || (type as string) || 'transfer_token';
 
-      const useCase =
-        chain === 'POLYGON'
-          ? container.polygonEstimateGasUseCase
-          : container.tronEstimateGasUseCase;
+      const useCase = container.getChainServices(chain as ChainType).estimateGasUseCase;
 
       const result = await useCase.execute(
-        chain as 'POLYGON' | 'TRON',
+        chain as ChainType,
         txType,
-        req.correlationId || ''
+        req.correlationId || '',
+        {
+          tokenSymbol: token as string | undefined,
+          from: from as string | undefined,
+          to: to as string | undefined,
+          amount: amount as string | undefined,
+        }
       );
 
       res.status(200).json({
@@ -284,26 +395,23 @@ router.get(
  * ============================================================================
  */
 
-// GET /v1/supported-chains - Get list of supported blockchain networks
+// GET /v1/supported-chains - Get the blockchain networks enabled on this service
 router.get('/supported-chains', withAuth((req, res) => {
+  const chains = getEnabledChains();
+
   res.status(200).json({
     success: true,
     data: {
-      chains: ['POLYGON', 'TRON'],
-      details: [
-        {
-          name: 'POLYGON',
-          displayName: 'Polygon',
-          nativeToken: 'MATIC',
-          usdtContract: process.env.POLYGON_USDT_ADDRESS,
-        },
-        {
-          name: 'TRON',
-          displayName: 'Tron',
-          nativeToken: 'TRX',
-          usdtContract: process.env.TRON_USDT_ADDRESS,
-        },
-      ],
+      chains,
+      details: chains.map((chain) => ({
+        name: chain,
+        displayName: getChainDisplayName(chain),
+        family: getChainFamily(chain),
+        chainId: getChainId(chain),
+        nativeToken: getNativeSymbol(chain),
+        confirmationsRequired: getConfirmationsRequired(chain),
+        usdtContract: getDefaultTokens(chain).find((token) => token.symbol === 'USDT')?.contractAddress ?? null,
+      })),
     },
     message: 'Supported chains retrieved successfully',
   });
@@ -0,0 +1,196 @@
+/**
+ * Blockchain Service Stream Routes - API v1
+ *
+ * Real-time transfer and balance updates at /v1/blockchain/stream:
+ * - WebSocket: upgrade requests on the path, handled by attachStreamWebSocket
+ * - Server-Sent Events: GET requests, for clients that cannot open a WebSocket
+ *
+ * Browsers cannot set an Authorization header on WebSocket or EventSource
+ * connections, so the token may also be passed as the `token` query
+ * parameter. Either way it is verified with the shared JWT validation.
+ *
+ * @module blockchain-service/streamRoutes
+ */
+
+import { STATUS_CODES, type IncomingMessage, type Server } from 'http';
+import type { Duplex } from 'stream';
+import { Router, type NextFunction, type Request, type Response } from 'express';
+import { WebSocketServer } from 'ws';
+import Joi from 'joi';
+import { DependencyContainer } from './infrastructure/dependencyInjection';
+import {
+  verifyAccessToken,
+  validateRequest,
+  type AuthenticatedRequest,
+  type AuthenticatedUser,
+} from '@shield/shared/middleware';
+import { createErrorResponse } from '@shield/shared/utils';
+import { ChainType, logError } from '@shield/shared/types';
+import { AuthenticationError, ensureBaseError, shouldLogError } from '@shield/shared/errors';
+
+/**
+ * Path of the stream (WebSocket upgrades and SSE)
+ */
+export const STREAM_PATH = '/v1/blockchain/stream';
+
+/**
+ * Max size of a WebSocket message from a client (subscribe / unsubscribe)
+ */
+const MAX_MESSAGE_BYTES = 16 * 1024;
+
+const router = Router();
+const container = DependencyContainer.getInstance();
+const streamController = container.streamController;
+
+/**
+ * Reads the access token from the Authorization header or the token query parameter
+ */
+function extractAccessToken(authorization: string | undefined, url: string | undefined): string {
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.substring(7);
+  }
+
+  return new URL(url || '/', 'http://localhost').searchParams.get('token') || '';
+}
+
+/**
+ * Verifies the token of a stream connection
+ *
+ * @throws AuthenticationError if the token is missing, invalid or expired
+ */
+function authenticateConnection(req: IncomingMessage): { user: AuthenticatedUser; accessToken: string } {
+  const context = { path: STREAM_PATH, method: req.method };
+  const accessToken = extractAccessToken(req.headers.authorization, req.url);
+
+  if (!accessToken) {
+    throw new AuthenticationError('No authentication token provided', context);
+  }
+
+  return { user: verifyAccessToken(accessToken, context), accessToken };
+}
+
+/**
+ * Authentication middleware of the SSE endpoint (header or query token)
+ */
+const authenticateStream = (req: Request, res: Response, next: NextFunction): void => {
+  try {
+    const { user, accessToken } = authenticateConnection(req);
+    (req as AuthenticatedRequest).user = user;
+    res.locals.accessToken = accessToken;
+    next();
+  } catch (error: unknown) {
+    const baseError = ensureBaseError(error, { operation: 'authenticateStream', path: req.path });
+
+    if (shouldLogError(baseError)) {
+      logError(baseError, { message: 'Stream authentication failed' });
+    }
+
+    res.status(baseError.statusCode).json(
+      createErrorResponse(baseError.message, baseError.statusCode, req.path, { code: baseError.code })
+    );
+  }
+};
+
+/**
+ * Validation Schemas
+ */
+
+// Address of a subscription (ownership is checked against wallet-service)
+const addressSchema = Joi.alternatives().try(
+  Joi.string().pattern(/^0x[0-9a-fA-F]{40}$/),
+  Joi.string().pattern(/^T[1-9A-HJ-NP-Za-km-z]{33}$/)
+).messages({
+  'alternatives.match': 'Invalid address format for the specified chain',
+});
+
+// Transaction hash of a subscription (EVM chains, then Tron)
+const txHashSchema = Joi.alternatives().try(
+  Joi.string().pattern(/^0x[0-9a-fA-F]{64}$/),
+  Joi.string().pattern(/^[0-9a-fA-F]{64}$/)
+).messages({
+  'alternatives.match': 'Invalid transaction hash format',
+});
+
+// GET /stream query (address and txHash may be repeated)
+const eventStreamQuerySchema = Joi.object({
+  chain: Joi.string().valid(...Object.values(ChainType)).required().messages({
+    'any.only': `Chain must be one of ${Object.values(ChainType).join(', ')}`,
+    'any.required': 'Chain is required',
+  }),
+  address: Joi.array().items(addressSchema).single().optional(),
+  txHash: Joi.array().items(txHashSchema).single().optional(),
+  token: Joi.string().optional(),
+}).or('address', 'txHash').messages({
+  'object.missing': 'At least one address or txHash is required',
+});
+
+/**
+ * ============================================================================
+ * API v1 Routes - All require authentication
+ * ============================================================================
+ */
+
+// GET /v1/blockchain/stream - Server-Sent Events stream of transfers and balances
+router.get(
+  '/',
+  authenticateStream,
+  validateRequest(eventStreamQuerySchema, 'query'),
+  (req: Request, res: Response) => streamController.openEventStream(req, res)
+);
+
+/**
+ * Serves WebSocket connections on the stream path of an HTTP server
+ *
+ * Upgrades are authenticated before the handshake completes; a missing or
+ * invalid token is answered with a plain HTTP error.
+ *
+ * @returns The WebSocket server (closed with the HTTP server)
+ */
+export function attachStreamWebSocket(server: Server): WebSocketServer {
+  const webSocketServer = new WebSocketServer({ noServer: true, maxPayload: MAX_MESSAGE_BYTES });
+
+  server.on('upgrade', (req: IncomingMessage, socket: Duplex, head: Buffer) => {
+    if (new URL(req.url || '/', 'http://localhost').pathname !== STREAM_PATH) {
+      rejectUpgrade(socket, 404, 'Route not found');
+      return;
+    }
+
+    let connection: { user: AuthenticatedUser; accessToken: string };
+    try {
+      connection = authenticateConnection(req);
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, { operation: 'authenticateStream', path: STREAM_PATH });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { message: 'Stream authentication failed' });
+      }
+
+      rejectUpgrade(socket, baseError.statusCode, baseError.message);
+      return;
+    }
+
+    const correlationId = String(req.headers['x-correlation-id'] || '');
+    webSocketServer.handleUpgrade(req, socket, head, (webSocket) => {
+      streamController.handleWebSocket(webSocket, connection.user, connection.accessToken, correlationId);
+    });
+  });
+
+  return webSocketServer;
+}
+
+/**
+ * Answers a rejected upgrade with an HTTP error and closes the socket
+ */
+function rejectUpgrade(socket: Duplex, statusCode: number, message: string): void {
+  const body = JSON.stringify(createErrorResponse(message, statusCode, STREAM_PATH));
+
+  socket.end(
+    `HTTP/1.1 ${statusCode} ${STATUS_CODES[statusCode] || 'Error'}\r\n` +
+    'Content-Type: application/json\r\n' +
+    `Content-Length: ${Buffer.byteLength(body)}\r\n` +
+    'Connection: close\r\n\r\n' +
+    body
+  );
+}
+
+export default router;
@@ -1,53 +1,277 @@
 /**
  * Tron Network Client using TronWeb
  * 
- * Handles Tron network interactions for USDT transactions.
+ * Handles Tron network interactions for TRC-20 token transactions
+ * (USDT, USDC, ...). Token contracts come from the token registry.
  * 
  * @module blockchain-service/tronClient
  */
 
 import TronWeb from 'tronweb';
+import axios from 'axios';
 import { ChainType, logError, logInfo } from '@shield/shared/types';
 import { weiToToken } from '@shield/shared/utils';
+import { BaseError, BusinessLogicError, ConfigurationError, ValidationError } from '@shield/shared/errors';
+import {
+  DecodedMethodCall,
+  decodeMethodCall,
+  decodeTokenTransfers,
+  decodeTransferLog,
+  formatTokenAmount,
+  parseTokenAmount,
+} from './utils/transactionParser';
+import { PooledTronHttpProvider, TronEndpoint } from './data/clients/PooledTronHttpProvider';
+import { TransactionValidationResult } from './domain/services/IBlockchainClient';
+import {
+  GAS_LIMITS,
+  TRON_BANDWIDTH_BYTES,
+  TransactionType,
+  TronAccountResources,
+  TronResourceCost,
+  calculateTronResourceCost,
+  getStandardGasLimit,
+} from './utils/gasEstimator';
+
+/**
+ * Blocks behind the head below which the event API is trusted to be indexed
+ */
+const EVENT_API_MIN_DEPTH = 10;
+
+/**
+ * Events per event API page (TronGrid maximum)
+ */
+const EVENT_API_PAGE_SIZE = 200;
+
+/**
+ * Max balanceOf constant calls in flight at once during a batch lookup
+ */
+const BALANCE_BATCH_CONCURRENCY = 20;
+
+/**
+ * Default max TRX (in sun) an outbound transfer may burn for energy (100 TRX)
+ */
+const DEFAULT_FEE_LIMIT_SUN = 100_000_000;
+
+/**
+ * Energy price (sun per unit) used when the chain parameter cannot be read
+ */
+const DEFAULT_ENERGY_PRICE_SUN = 420;
+
+/**
+ * Bandwidth price (sun per byte) used when the chain parameter cannot be read
+ */
+const DEFAULT_BANDWIDTH_PRICE_SUN = 1000;
 
 /**
  * Tron network configuration
  */
 interface TronConfig {
-  rpcUrl: string;
+  /** Node endpoints in order of preference (calls fail over between them) */
+  rpcEndpoints: TronEndpoint[];
   chainId: number;
-  usdtContract: string;
+  /** TronGrid base URL for the event API (defaults to the first RPC endpoint) */
+  eventApiUrl?: string;
+  /** TronGrid API key (optional, raises rate limits) */
+  apiKey?: string;
+  /** System wallet key used for outbound transfers (optional) */
+  privateKey?: string;
+  /** Max TRX (in sun) an outbound transfer may burn for energy */
+  feeLimitSun?: number;
+}
+
+/**
+ * Registered token contract
+ */
+interface TokenContract {
+  symbol: string;
+  contractAddress: string;
+  decimals: number;
+}
+
+/**
+ * One address's balance of one token in a batch lookup
+ */
+interface BatchTokenBalance {
+  address: string;
+  symbol: string;
+  balance: string | null;
+  error?: string;
+}
+
+/**
+ * Token Transfer log decoded from the event API or a block's receipts
+ */
+interface TronTransferLog {
+  txHash: string;
+  /** Position of the log in the transaction */
+  logIndex: number;
+  from: string;
+  to: string;
+  amount: string;
+  blockNumber: number;
+  timestamp: number;
+}
+
+/**
+ * Token transfer returned by monitorTokenTransfers and scanTokenTransfers
+ */
+interface TronTokenTransfer extends TronTransferLog {
+  amountUSDT: string;
+  blockHash: string;
+}
+
+/**
+ * Token transfer broadcast from the system wallet
+ */
+interface SentTokenTransfer {
+  txHash: string;
+  from: string;
+  to: string;
+  amount: string;
+  amountUSDT: string;
+}
+
+/**
+ * Concrete transaction to estimate
+ */
+interface GasEstimateOptions {
+  token?: TokenContract;
+  from?: string;
+  to?: string;
+  /** Amount in token units (human-readable) */
+  amount?: string;
+}
+
+/**
+ * Internal transaction of a Tron receipt (gettransactioninfobyid)
+ */
+interface TronInternalTransaction {
+  caller_address: string;
+  transferTo_address?: string;
+  callValueInfo?: Array<{ callValue?: number; tokenId?: string }>;
+  /** Hex-encoded kind: call, create or suicide */
+  note?: string;
+  rejected?: boolean;
+}
+
+/**
+ * Call made by a contract while a transaction executed
+ */
+interface InternalCall {
+  depth: number | null;
+  type: string;
+  from: string;
+  to: string | null;
+  value: string;
+  method: DecodedMethodCall | null;
+  error: string | null;
+}
+
+/**
+ * Energy and bandwidth a transaction needs from its sender, and the TRX burnt for the rest
+ */
+interface ResourceEstimate extends TronResourceCost {
+  totalBurnTRX: string;
+  energyPriceSun: number;
+  bandwidthPriceSun: number;
+  simulated: boolean;
+  recipientHoldsToken: boolean | null;
+  senderBalanceSun: number | null;
+  sufficientBalance: boolean | null;
 }
 
 /**
  * Tron client for interacting with Tron network
  */
 export class TronClient {
-  private tronWeb: TronWeb;
+  private tronWeb: InstanceType<typeof TronWeb>;
+  private nodeProvider: PooledTronHttpProvider;
   private config: TronConfig;
+  private eventApiUrl: string;
+  private inFlightSends = new Map<string, Promise<SentTokenTransfer>>();
 
   constructor(config: TronConfig) {
     this.config = config;
+    this.eventApiUrl = (config.eventApiUrl || config.rpcEndpoints[0].url).replace(/\/$/, '');
+    // Endpoints carry their own API key headers; TronWeb's `headers` option would replace the pooled provider
+    this.nodeProvider = new PooledTronHttpProvider(
+      ChainType.TRON,
+      config.rpcEndpoints.map((endpoint) => ({ ...endpoint, apiKey: endpoint.apiKey ?? config.apiKey }))
+    );
     this.tronWeb = new TronWeb({
-      fullHost: config.rpcUrl,
+      fullNode: this.nodeProvider,
+      solidityNode: this.nodeProvider,
+      eventServer: this.nodeProvider,
+      privateKey: config.privateKey,
     });
   }
 
   /**
-   * Gets USDT balance for an address
+   * Gets a token balance for an address
    * 
    * @param address - Wallet address to check
-   * @returns USDT balance as string (human-readable)
+   * @param token - Registered token
+   * @returns Token balance as string (human-readable)
    */
-  async getUSDTBalance(address: string): Promise<string> {
+  async getBalance(address: string, token: TokenContract): Promise<string> {
     try {
-      const contract = await this.tronWeb.contract().at(this.config.usdtContract);
+      const contract = await this.tronWeb.contract().at(token.contractAddress);
       const balance = await contract.balanceOf(address).call();
-      // Tron USDT has 6 decimals
-      return weiToToken(balance.toString(), 6);
+      return weiToToken(balance.toString(), token.decimals);
     } catch (error) {
-      logError(error as Error, { address, chain: ChainType.TRON, context: 'get-balance' });
-      throw new Error(`Failed to get USDT balance: ${error}`);
+      logError(error as Error, { address, token: token.symbol, chain: ChainType.TRON, context: 'get-balance' });
+      throw new Error(`Failed to get ${token.symbol} balance: ${error}`);
+    }
+  }
+
+  /**
+   * Gets the balances of many addresses for several tokens
+   *
+   * Tron has no standard Multicall contract, so each address/token pair is a
+   * triggerconstantcontract balanceOf call; calls run BALANCE_BATCH_CONCURRENCY
+   * at a time across the endpoint pool.
+   *
+   * @param addresses - Wallet addresses to check
+   * @param tokens - Registered tokens
+   * @returns One entry per address/token pair (balance null if its call failed)
+   */
+  async getBalances(addresses: string[], tokens: TokenContract[]): Promise<BatchTokenBalance[]> {
+    const pairs = tokens.flatMap((token) => addresses.map((address) => ({ address, token })));
+    const results: BatchTokenBalance[] = [];
+
+    for (let i = 0; i < pairs.length; i += BALANCE_BATCH_CONCURRENCY) {
+      const chunk = pairs.slice(i, i + BALANCE_BATCH_CONCURRENCY);
+      results.push(...(await Promise.all(chunk.map(({ address, token }) => this.callBalanceOf(address, token)))));
+    }
+
+    return results;
+  }
+
+  /**
+   * Reads a token balance with a triggerconstantcontract balanceOf call
+   */
+  private async callBalanceOf(address: string, token: TokenContract): Promise<BatchTokenBalance> {
+    try {
+      const response = await this.tronWeb.transactionBuilder.triggerConstantContract(
+        token.contractAddress,
+        'balanceOf(address)',
+        {},
+        [{ type: 'address', value: address }],
+        address
+      );
+
+      const [encodedBalance] = response?.constant_result ?? [];
+      if (!response?.result?.result || !encodedBalance) {
+        return { address, symbol: token.symbol, balance: null, error: 'balanceOf call failed' };
+      }
+      return {
+        address,
+        symbol: token.symbol,
+        balance: weiToToken(BigInt(`0x${encodedBalance}`).toString(), token.decimals),
+      };
+    } catch (error) {
+      logError(error as Error, { address, token: token.symbol, chain: ChainType.TRON, context: 'get-balances' });
+      return { address, symbol: token.symbol, balance: null, error: error instanceof Error ? error.message : String(error) };
     }
   }
 
@@ -89,13 +313,83 @@ export class TronClient {
   }
 
   /**
-   * Validates if a transaction is a USDT transfer to a specific address
+   * Decodes a transaction: method and arguments, every TRC-20 Transfer log,
+   * TRX value and internal transactions
+   *
+   * @param txHash - Transaction hash
+   * @returns Decoded transaction (addresses in base58)
+   */
+  async decodeTransaction(txHash: string) {
+    try {
+      const tx = await this.tronWeb.trx.getTransaction(txHash);
+      if (!tx) {
+        throw new Error('Transaction not found');
+      }
+
+      // Unconfirmed transactions have an empty receipt
+      const txInfo = await this.tronWeb.trx.getTransactionInfo(txHash);
+      const isExecuted = Boolean(txInfo?.id);
+
+      const contract = tx.raw_data.contract[0];
+      const value = contract.parameter.value;
+      const nativeValue = String(
+        (contract.type === 'TransferContract' ? value.amount : value.call_value) ?? 0
+      );
+      const fromHex = (hex: string): string => this.tronWeb.address.fromHex(`41${hex}`);
+
+      return {
+        nativeValue,
+        nativeValueFormatted: formatTokenAmount(nativeValue, 6),
+        method: contract.type === 'TriggerSmartContract' ? decodeMethodCall(value.data, fromHex) : null,
+        tokenTransfers: decodeTokenTransfers(txInfo?.log || []).map((transfer) => ({
+          logIndex: transfer.logIndex,
+          tokenAddress: fromHex(transfer.tokenAddress),
+          from: fromHex(transfer.from),
+          to: fromHex(transfer.to),
+          amount: transfer.amount,
+        })),
+        internalCalls: isExecuted
+          ? (txInfo.internal_transactions || []).map((internal: TronInternalTransaction) => this.toInternalCall(internal))
+          : null,
+      };
+    } catch (error) {
+      logError(error as Error, { txHash, chain: ChainType.TRON, context: 'decode-transaction' });
+      throw new Error(`Failed to decode transaction: ${error}`);
+    }
+  }
+
+  /**
+   * Converts an internal transaction of a receipt (TRX value only; TRC-10 tokens are skipped)
+   */
+  private toInternalCall(internal: TronInternalTransaction): InternalCall {
+    const value = (internal.callValueInfo || [])
+      .filter((info) => !info.tokenId)
+      .reduce((total, info) => total + BigInt(info.callValue ?? 0), BigInt(0));
+
+    return {
+      depth: null,
+      type: internal.note ? Buffer.from(internal.note, 'hex').toString('utf8') : 'call',
+      from: this.tronWeb.address.fromHex(internal.caller_address),
+      to: internal.transferTo_address ? this.tronWeb.address.fromHex(internal.transferTo_address) : null,
+      value: value.toString(),
+      method: null,
+      error: internal.rejected ? 'rejected' : null,
+    };
+  }
+
+  /**
+   * Validates if a transaction is a transfer of a token to a specific address
    * 
    * @param txHash - Transaction hash
    * @param expectedToAddress - Expected recipient address
+   * @param token - Registered token
    * @returns Transaction validation result
    */
-  async validateUSDTTransaction(txHash: string, expectedToAddress: string) {
+  async validateTokenTransaction(
+    txHash: string,
+    expectedToAddress: string,
+    token: TokenContract
+  ): Promise<TransactionValidationResult> {
     try {
       const tx = await this.tronWeb.trx.getTransaction(txHash);
       if (!tx) {
@@ -107,41 +401,32 @@ export class TronClient {
         return { valid: false, reason: 'Transaction failed' };
       }
 
-      // Check if it's a TRC20 transfer
-      const contract = tx.raw_data.contract[0];
-      if (contract.type !== 'TriggerSmartContract') {
-        return { valid: false, reason: 'Not a smart contract transaction' };
-      }
-
-      const contractAddress = this.tronWeb.address.fromHex(contract.parameter.value.contract_address);
-      if (contractAddress !== this.config.usdtContract) {
-        return { valid: false, reason: 'Not a USDT contract transaction' };
-      }
+      // Transfers are read from the receipt logs, so calls through batch
+      // contracts count as well as direct transfer() calls
+      const tokenHex = this.tronWeb.address.toHex(token.contractAddress).toLowerCase().slice(-40);
+      const tokenTransfers = decodeTokenTransfers(txInfo.log || []).filter(
+        (transfer) => transfer.tokenAddress === tokenHex
+      );
 
-      // Parse transfer data
-      const data = contract.parameter.value.data;
-      // Transfer function signature: transfer(address,uint256)
-      // First 4 bytes are function selector: 0xa9059cbb
-      if (!data.startsWith('a9059cbb')) {
-        return { valid: false, reason: 'Not a transfer function call' };
+      if (tokenTransfers.length === 0) {
+        return { valid: false, reason: `Not a ${token.symbol} transfer` };
       }
 
-      // Extract to address and amount from data
-      const toAddressHex = '41' + data.slice(32, 72); // Add T prefix
-      const toAddress = this.tronWeb.address.fromHex(toAddressHex);
-      const amountHex = data.slice(72, 136);
-      const amount = BigInt('0x' + amountHex).toString();
-
-      if (toAddress !== expectedToAddress) {
+      // Batch payouts may pay the same address more than once in a transaction
+      const received = tokenTransfers.filter(
+        (transfer) => this.tronWeb.address.fromHex(`41${transfer.to}`) === expectedToAddress
+      );
+      if (received.length === 0) {
         return { valid: false, reason: 'Recipient address mismatch' };
       }
 
-      const amountUSDT = weiToToken(amount, 6); // Tron USDT has 6 decimals
+      const amount = received.reduce((total, transfer) => total + BigInt(transfer.amount), BigInt(0)).toString();
+      const amountUSDT = weiToToken(amount, token.decimals);
 
       return {
         valid: true,
-        from: this.tronWeb.address.fromHex(contract.parameter.value.owner_address),
-        to: toAddress,
+        from: this.tronWeb.address.fromHex(`41${received[0].from}`),
+        to: expectedToAddress,
         amount,
         amountUSDT,
         confirmations: 1, // Tron transactions are confirmed immediately
@@ -167,6 +452,7 @@ export class TronClient {
         latestBlock: BigInt(blockNumber),
         currentEnergyPrice: null, // Tron doesn't use gas, uses energy/bandwidth
         isHealthy: true,
+        rpcPool: this.nodeProvider.getPoolState(),
       };
     } catch (error) {
       logError(error as Error, { chain: ChainType.TRON, context: 'network-status' });
@@ -175,73 +461,48 @@ export class TronClient {
         latestBlock: BigInt(0),
         currentEnergyPrice: null,
         isHealthy: false,
+        rpcPool: this.nodeProvider.getPoolState(),
       };
     }
   }
 
   /**
-   * Monitors blocks for USDT transfers to a specific address
+   * Monitors blocks for transfers of a token to a specific address
    * 
    * @param toAddress - Address to monitor
    * @param fromBlock - Starting block number
    * @param toBlock - Ending block number
-   * @returns Array of USDT transfer transactions
+   * @param token - Registered token
+   * @returns Array of token transfer transactions
    */
-  async monitorUSDTTransfers(
+  async monitorTokenTransfers(
     toAddress: string,
     fromBlock: number,
-    toBlock: number
+    toBlock: number,
+    token: TokenContract
   ) {
     try {
-      const transfers: Array<{ from: string; to: string; amount: string; txHash: string; timestamp: number }> = [];
-      
-      // Tron doesn't have event filtering like Ethereum
-      // We need to check each block
-      for (let blockNum = fromBlock; blockNum <= toBlock; blockNum++) {
-        try {
-          const block = await this.tronWeb.trx.getBlockByNumber(blockNum);
-          if (!block || !block.transactions) continue;
-
-          for (const tx of block.transactions) {
-            const contract = tx.raw_data?.contract?.[0];
-            if (!contract || contract.type !== 'TriggerSmartContract') continue;
-
-            const contractAddress = this.tronWeb.address.fromHex(contract.parameter.value.contract_address);
-            if (contractAddress !== this.config.usdtContract) continue;
-
-            const validation = await this.validateUSDTTransaction(tx.txID, toAddress);
-            if (validation.valid) {
-              transfers.push({
-                txHash: tx.txID,
-                from: validation.from,
-                to: validation.to,
-                amount: validation.amount,
-                amountUSDT: validation.amountUSDT,
-                blockNumber: blockNum,
-                confirmations: 1,
-                timestamp: block.block_header.raw_data.timestamp,
-              });
-            }
-          }
-        } catch (error) {
-          // Continue to next block if error
-          logError(error as Error, { blockNum, chain: ChainType.TRON, context: 'monitor-block' });
-        }
-      }
+      const latestBlock = await this.getLatestBlockNumber();
+      const transfers = await this.getTokenTransfers(token, new Set([toAddress]), fromBlock, toBlock, latestBlock);
 
-      logInfo('USDT transfers monitored', {
+      logInfo('Token transfers monitored', {
         chain: ChainType.TRON,
+        token: token.symbol,
         toAddress,
         count: transfers.length,
         fromBlock,
         toBlock,
       });
 
-      return transfers;
+      return transfers.map((transfer) => ({
+        ...transfer,
+        confirmations: latestBlock - transfer.blockNumber + 1,
+      }));
     } catch (error) {
       logError(error as Error, {
         chain: ChainType.TRON,
         toAddress,
+        token: token.symbol,
         fromBlock,
         toBlock,
         context: 'monitor-transfers',
@@ -250,6 +511,575 @@ export class TronClient {
     }
   }
 
+  /**
+   * Scans blocks for transfers of a token to any of the given addresses
+   *
+   * Any block that cannot be read fails the whole scan so the range can be
+   * retried.
+   *
+   * @param toAddresses - Addresses to watch
+   * @param fromBlock - Starting block number
+   * @param toBlock - Ending block number
+   * @param token - Registered token
+   * @returns Array of token transfer transactions
+   */
+  async scanTokenTransfers(
+    toAddresses: string[],
+    fromBlock: number,
+    toBlock: number,
+    token: TokenContract
+  ) {
+    try {
+      const latestBlock = await this.getLatestBlockNumber();
+      const transfers = await this.getTokenTransfers(token, new Set(toAddresses), fromBlock, toBlock, latestBlock);
+
+      logInfo('Token transfers scanned', {
+        chain: ChainType.TRON,
+        token: token.symbol,
+        addresses: toAddresses.length,
+        count: transfers.length,
+        fromBlock,
+        toBlock,
+      });
+
+      return transfers;
+    } catch (error) {
+      logError(error as Error, {
+        chain: ChainType.TRON,
+        addresses: toAddresses.length,
+        token: token.symbol,
+        fromBlock,
+        toBlock,
+        context: 'scan-transfers',
+      });
+      throw new Error(`Failed to scan transfers: ${error}`);
+    }
+  }
+
+  /**
+   * Gets transfers of a token to the watched addresses in a block range
+   *
+   * Transfer events come from the TronGrid contract-event API, one paginated
+   * query for the whole range. The newest EVENT_API_MIN_DEPTH blocks are read
+   * block by block instead, since the event index trails the chain head by a
+   * few seconds. If the event API is unavailable the whole range is read
+   * block by block.
+   */
+  private async getTokenTransfers(
+    token: TokenContract,
+    watched: Set<string>,
+    fromBlock: number,
+    toBlock: number,
+    latestBlock: number
+  ): Promise<TronTokenTransfer[]> {
+    const tailStart = Math.max(fromBlock, latestBlock - EVENT_API_MIN_DEPTH + 1);
+    let logs: TronTransferLog[] = [];
+    let blockScanFrom = fromBlock;
+
+    if (tailStart > fromBlock) {
+      try {
+        logs = await this.getTransferLogsFromEventApi(token, fromBlock, Math.min(toBlock, tailStart - 1));
+        blockScanFrom = tailStart;
+      } catch (error) {
+        logError(error as Error, {
+          chain: ChainType.TRON,
+          token: token.symbol,
+          fromBlock,
+          toBlock,
+          context: 'event-api',
+          fallback: 'block-scan',
+        });
+      }
+    }
+
+    for (let blockNum = blockScanFrom; blockNum <= toBlock; blockNum++) {
+      logs.push(...(await this.getTransferLogsFromBlock(token, blockNum)));
+    }
+
+    // Block IDs are only needed for blocks that contain a watched transfer
+    const blockHashes = new Map<number, string>();
+    const transfers: TronTokenTransfer[] = [];
+
+    for (const log of logs) {
+      if (!watched.has(log.to)) continue;
+
+      if (!blockHashes.has(log.blockNumber)) {
+        const blockHash = await this.getBlockHash(log.blockNumber);
+        if (!blockHash) {
+          throw new Error(`Block ${log.blockNumber} not found`);
+        }
+        blockHashes.set(log.blockNumber, blockHash);
+      }
+
+      transfers.push({
+        ...log,
+        amountUSDT: weiToToken(log.amount, token.decimals),
+        blockHash: blockHashes.get(log.blockNumber) as string,
+      });
+    }
+
+    return transfers;
+  }
+
+  /**
+   * Reads a token's Transfer events from the TronGrid contract-event API
+   *
+   * The API filters by block timestamp, so the range is converted using the
+   * first and last block headers. Results are paginated with the fingerprint
+   * returned in `meta`.
+   */
+  private async getTransferLogsFromEventApi(
+    token: TokenContract,
+    fromBlock: number,
+    toBlock: number
+  ): Promise<TronTransferLog[]> {
+    const [first, last] = await Promise.all([
+      this.tronWeb.trx.getBlockByNumber(fromBlock),
+      this.tronWeb.trx.getBlockByNumber(toBlock),
+    ]);
+    if (!first?.block_header || !last?.block_header) {
+      throw new Error(`Blocks ${fromBlock}-${toBlock} not found`);
+    }
+
+    const logs: TronTransferLog[] = [];
+    let fingerprint: string | undefined;
+
+    do {
+      const response = await axios.get(`${this.eventApiUrl}/v1/contracts/${token.contractAddress}/events`, {
+        params: {
+          'event_name': 'Transfer',
+          'min_block_timestamp': first.block_header.raw_data.timestamp,
+          'max_block_timestamp': last.block_header.raw_data.timestamp,
+          'order_by': 'block_timestamp,asc',
+          limit: EVENT_API_PAGE_SIZE,
+          fingerprint,
+        },
+        headers: this.config.apiKey ? { 'TRON-PRO-API-KEY': this.config.apiKey } : undefined,
+        timeout: 10000,
+      });
+
+      if (response.data?.success === false || !Array.isArray(response.data?.data)) {
+        throw new Error(`Event API error: ${response.data?.error || 'unexpected response'}`);
+      }
+
+      for (const event of response.data.data) {
+        if (event.block_number < fromBlock || event.block_number > toBlock) continue;
+
+        logs.push({
+          txHash: event.transaction_id,
+          logIndex: Number(event.event_index ?? 0),
+          from: this.toBase58Address(event.result.from),
+          to: this.toBase58Address(event.result.to),
+          amount: BigInt(event.result.value).toString(),
+          blockNumber: event.block_number,
+          timestamp: event.block_timestamp,
+        });
+      }
+
+      const next: string | undefined = response.data.meta?.fingerprint;
+      fingerprint = next && next !== fingerprint ? next : undefined;
+    } while (fingerprint);
+
+    return logs;
+  }
+
+  /**
+   * Reads a token's Transfer logs of one block from its transaction receipts
+   *
+   * A single gettransactioninfobyblocknum call returns every receipt in the
+   * block; logs are decoded locally.
+   */
+  private async getTransferLogsFromBlock(token: TokenContract, blockNum: number): Promise<TronTransferLog[]> {
+    const receipts = await this.tronWeb.fullNode.request(
+      'wallet/gettransactioninfobyblocknum',
+      { num: blockNum },
+      'post'
+    );
+
+    // Empty blocks return {} instead of []
+    if (!Array.isArray(receipts)) {
+      return [];
+    }
+
+    const tokenHex = this.tronWeb.address.toHex(token.contractAddress).toLowerCase();
+    const logs: TronTransferLog[] = [];
+
+    for (const receipt of receipts) {
+      if (receipt.receipt?.result !== 'SUCCESS') continue;
+
+      for (const [logIndex, log] of (receipt.log || []).entries()) {
+        if (`41${log.address}`.toLowerCase() !== tokenHex) continue;
+
+        const decoded = decodeTransferLog(log);
+        if (!decoded) continue;
+
+        logs.push({
+          txHash: receipt.id,
+          logIndex,
+          from: this.tronWeb.address.fromHex(`41${decoded.from}`),
+          to: this.tronWeb.address.fromHex(`41${decoded.to}`),
+          amount: decoded.amount,
+          blockNumber: blockNum,
+          timestamp: receipt.blockTimeStamp,
+        });
+      }
+    }
+
+    return logs;
+  }
+
+  /**
+   * Converts an address from the event API (base58, 0x-hex or 41-hex) to base58
+   */
+  private toBase58Address(address: string): string {
+    if (address.startsWith('T')) {
+      return address;
+    }
+    return this.tronWeb.address.fromHex(`41${address.slice(-40)}`);
+  }
+
+  /**
+   * Gets the current block number
+   */
+  private async getLatestBlockNumber(): Promise<number> {
+    const block = await this.tronWeb.trx.getCurrentBlock();
+    return block.block_header.raw_data.number;
+  }
+
+  /**
+   * Gets the hash (block ID) of the canonical block at a height
+   *
+   * @param blockNumber - Block number
+   * @returns Block ID, or null if the block does not exist yet
+   */
+  async getBlockHash(blockNumber: number): Promise<string | null> {
+    try {
+      const block = await this.tronWeb.trx.getBlockByNumber(blockNumber);
+      return block?.blockID ?? null;
+    } catch (error) {
+      logError(error as Error, { blockNumber, chain: ChainType.TRON, context: 'get-block-hash' });
+      throw new Error(`Failed to get block hash: ${error}`);
+    }
+  }
+
+  /**
+   * Gets the block a transaction is currently included in
+   *
+   * @param txHash - Transaction hash
+   * @returns Block number and ID, or null if the transaction is not in a block
+   */
+  async getTransactionBlock(txHash: string): Promise<{ blockNumber: number; blockHash: string } | null> {
+    try {
+      // getTransactionInfo returns an empty object for unknown or unconfirmed transactions
+      const txInfo = await this.tronWeb.trx.getTransactionInfo(txHash);
+      if (!txInfo || typeof txInfo.blockNumber !== 'number') {
+        return null;
+      }
+
+      const blockHash = await this.getBlockHash(txInfo.blockNumber);
+      return blockHash ? { blockNumber: txInfo.blockNumber, blockHash } : null;
+    } catch (error) {
+      logError(error as Error, { txHash, chain: ChainType.TRON, context: 'get-transaction-block' });
+      throw new Error(`Failed to get transaction block: ${error}`);
+    }
+  }
+
+  /**
+   * Gets the system wallet address used for outbound transfers
+   *
+   * @returns Base58 address, or null if no private key is configured
+   */
+  getSystemWalletAddress(): string | null {
+    if (!this.config.privateKey) {
+      return null;
+    }
+    return this.tronWeb.address.fromPrivateKey(this.config.privateKey) || null;
+  }
+
+  /**
+   * Sends a token from the system wallet
+   *
+   * Concurrent calls with the same idempotency key share one broadcast;
+   * durable idempotency is the caller's responsibility.
+   *
+   * @param to - Recipient address
+   * @param amount - Amount in token units (human-readable)
+   * @param idempotencyKey - Caller's idempotency key
+   * @param token - Registered token
+   * @returns Broadcast transaction
+   */
+  async sendToken(
+    to: string,
+    amount: string,
+    idempotencyKey: string,
+    token: TokenContract
+  ): Promise<SentTokenTransfer> {
+    const inFlight = this.inFlightSends.get(idempotencyKey);
+    if (inFlight) {
+      return inFlight;
+    }
+
+    const send = this.broadcastToken(to, amount, idempotencyKey, token).finally(() => {
+      this.inFlightSends.delete(idempotencyKey);
+    });
+    this.inFlightSends.set(idempotencyKey, send);
+    return send;
+  }
+
+  /**
+   * Checks token, energy and TRX balances, then signs and broadcasts a token transfer
+   */
+  private async broadcastToken(
+    to: string,
+    amount: string,
+    idempotencyKey: string,
+    token: TokenContract
+  ): Promise<SentTokenTransfer> {
+    try {
+      const from = this.getSystemWalletAddress();
+      if (!from) {
+        throw new ConfigurationError(
+          'SHIELD_TRON_WALLET_PRIVATE_KEY',
+          'System wallet private key is not configured'
+        );
+      }
+
+      if (!this.tronWeb.isAddress(to)) {
+        throw new ValidationError('Invalid Tron address', { field: 'toAddress', value: to });
+      }
+
+      const value = parseTokenAmount(amount, token.decimals);
+      if (value <= BigInt(0)) {
+        throw new ValidationError('Amount must be greater than zero', { field: 'amount', value: amount });
+      }
+
+      const contract = await this.tronWeb.contract().at(token.contractAddress);
+      const tokenBalance = BigInt((await contract.balanceOf(from).call()).toString());
+      if (tokenBalance < value) {
+        throw new BusinessLogicError(
+          `Insufficient ${token.symbol} balance in system wallet`,
+          'insufficient_token_balance',
+          {
+            chain: ChainType.TRON,
+            token: token.symbol,
+            balance: weiToToken(tokenBalance.toString(), token.decimals),
+            amount,
+          }
+        );
+      }
+
+      // An account that was never activated cannot send anything
+      const account = await this.tronWeb.trx.getAccount(from);
+      if (!account || Object.keys(account).length === 0) {
+        throw new BusinessLogicError('System wallet account is not activated on Tron', 'account_not_activated', {
+          chain: ChainType.TRON,
+          address: from,
+        });
+      }
+
+      // Energy and bandwidth not covered by the wallet's resources are paid by burning TRX
+      const functionSelector = 'transfer(address,uint256)';
+      const parameters = [
+        { type: 'address', value: to },
+        { type: 'uint256', value: value.toString() },
+      ];
+      const estimate = await this.estimateResources(TransactionType.TRANSFER_TOKEN, { token, from, to, amount });
+
+      const feeLimitSun = this.config.feeLimitSun ?? DEFAULT_FEE_LIMIT_SUN;
+      if (estimate.energyBurnSun > feeLimitSun) {
+        throw new BusinessLogicError('Transfer would exceed the configured fee limit', 'fee_limit_exceeded', {
+          chain: ChainType.TRON,
+          energyRequired: estimate.energyRequired,
+          energyBurnSun: estimate.energyBurnSun,
+          feeLimitSun,
+        });
+      }
+
+      if (estimate.sufficientBalance === false) {
+        throw new BusinessLogicError(
+          'Insufficient TRX in system wallet to pay for energy and bandwidth',
+          'insufficient_gas_balance',
+          {
+            chain: ChainType.TRON,
+            balance: this.tronWeb.fromSun(estimate.senderBalanceSun ?? 0),
+            required: estimate.totalBurnTRX,
+            energyRequired: estimate.energyRequired,
+            bandwidthRequired: estimate.bandwidthRequired,
+          }
+        );
+      }
+
+      const { transaction } = await this.tronWeb.transactionBuilder.triggerSmartContract(
+        token.contractAddress,
+        functionSelector,
+        { feeLimit: feeLimitSun },
+        parameters,
+        from
+      );
+      const signed = await this.tronWeb.trx.sign(transaction);
+      const result = await this.tronWeb.trx.sendRawTransaction(signed);
+
+      if (!result?.result) {
+        const message = result?.message ? this.tronWeb.toUtf8(result.message) : 'unknown error';
+        throw new Error(`Broadcast rejected (${result?.code ?? 'UNKNOWN'}): ${message}`);
+      }
+
+      logInfo('Token transfer broadcast', {
+        chain: ChainType.TRON,
+        txHash: signed.txID,
+        token: token.symbol,
+        to,
+        amount,
+        energyRequired: estimate.energyRequired,
+        burnSun: estimate.totalBurnSun,
+        idempotencyKey,
+      });
+
+      return {
+        txHash: signed.txID,
+        from,
+        to,
+        amount: value.toString(),
+        amountUSDT: weiToToken(value.toString(), token.decimals),
+      };
+    } catch (error) {
+      logError(error as Error, {
+        chain: ChainType.TRON,
+        to,
+        token: token.symbol,
+        amount,
+        idempotencyKey,
+        context: 'send-token',
+      });
+
+      if (error instanceof BaseError) {
+        throw error;
+      }
+      throw new Error(`Failed to send ${token.symbol}: ${error}`);
+    }
+  }
+
+  /**
+   * Estimates the energy and bandwidth of a transaction and the TRX its sender burns
+   *
+   * Energy is simulated with triggerconstantcontract when the token, sender
+   * and recipient are known; otherwise (or if the simulation reverts) the
+   * standard energy is used, which doubles when the recipient holds none of
+   * the token yet. Sender resources come from getaccountresource.
+   */
+  private async estimateResources(
+    transactionType: string,
+    options: GasEstimateOptions
+  ): Promise<ResourceEstimate> {
+    const from = options.from ?? this.getSystemWalletAddress();
+    const to = options.to ?? null;
+    const { token } = options;
+    const isTokenCall = transactionType !== TransactionType.TRANSFER_NATIVE;
+
+    let recipientHoldsToken: boolean | null = null;
+    if (token && transactionType === TransactionType.TRANSFER_TOKEN && to) {
+      const contract = await this.tronWeb.contract().at(token.contractAddress);
+      recipientHoldsToken = BigInt((await contract.balanceOf(to).call()).toString()) > BigInt(0);
+    }
+
+    let energy = isTokenCall ? getStandardGasLimit(ChainType.TRON, transactionType) : 0;
+    if (recipientHoldsToken === true) {
+      energy = GAS_LIMITS.TRON.TRANSFER_TRC20_TO_HOLDER;
+    }
+
+    // A transfer is only simulated to a real recipient: its token balance decides the energy
+    const canSimulate = transactionType === TransactionType.APPROVE_TOKEN ||
+      (transactionType === TransactionType.TRANSFER_TOKEN && to !== null);
+
+    let simulated = false;
+    if (token && from && canSimulate) {
+      const simulatedEnergy = await this.simulateEnergy(transactionType, token, from, to ?? from, options.amount);
+      if (simulatedEnergy !== null) {
+        energy = simulatedEnergy;
+        simulated = true;
+      }
+    }
+
+    const [resources, prices, balance] = await Promise.all([
+      from ? this.tronWeb.trx.getAccountResources(from) as Promise<TronAccountResources> : Promise.resolve({}),
+      this.getResourcePricesSun(),
+      from ? this.tronWeb.trx.getBalance(from) as Promise<number> : Promise.resolve(null),
+    ]);
+
+    const cost = calculateTronResourceCost(
+      {
+        energy,
+        bandwidth: isTokenCall ? TRON_BANDWIDTH_BYTES.CONTRACT_CALL : TRON_BANDWIDTH_BYTES.TRANSFER_NATIVE,
+      },
+      resources ?? {},
+      prices
+    );
+
+    return {
+      ...cost,
+      totalBurnTRX: (cost.totalBurnSun / 1_000_000).toFixed(6),
+      energyPriceSun: prices.energySun,
+      bandwidthPriceSun: prices.bandwidthSun,
+      simulated,
+      recipientHoldsToken,
+      senderBalanceSun: balance,
+      sufficientBalance: balance === null ? null : balance >= cost.totalBurnSun,
+    };
+  }
+
+  /**
+   * Simulates a token call with triggerconstantcontract
+   *
+   * @returns Energy used, or null if the call reverts (e.g. the sender lacks the amount)
+   */
+  private async simulateEnergy(
+    transactionType: string,
+    token: TokenContract,
+    from: string,
+    to: string,
+    amount?: string
+  ): Promise<number | null> {
+    try {
+      const value = amount ? parseTokenAmount(amount, token.decimals) : BigInt(1);
+      const simulation = await this.tronWeb.transactionBuilder.triggerConstantContract(
+        token.contractAddress,
+        transactionType === TransactionType.APPROVE_TOKEN ? 'approve(address,uint256)' : 'transfer(address,uint256)',
+        {},
+        [
+          { type: 'address', value: to },
+          { type: 'uint256', value: value.toString() },
+        ],
+        from
+      );
+
+      const reverted = simulation?.transaction?.ret?.some((ret: { ret?: string }) => ret.ret === 'REVERT');
+      if (!simulation?.result?.result || reverted) {
+        return null;
+      }
+      return (simulation.energy_used ?? 0) + (simulation.energy_penalty ?? 0);
+    } catch (error) {
+      logInfo('Energy simulation failed, using the standard estimate', {
+        chain: ChainType.TRON,
+        transactionType,
+        reason: (error as Error).message,
+      });
+      return null;
+    }
+  }
+
+  /**
+   * Gets the current energy and bandwidth prices in sun from the chain parameters
+   */
+  private async getResourcePricesSun(): Promise<{ energySun: number; bandwidthSun: number }> {
+    const parameters: Array<{ key: string; value?: number }> = await this.tronWeb.trx.getChainParameters();
+    const energyFee = parameters.find((parameter) => parameter.key === 'getEnergyFee');
+    const transactionFee = parameters.find((parameter) => parameter.key === 'getTransactionFee');
+    return {
+      energySun: energyFee?.value ?? DEFAULT_ENERGY_PRICE_SUN,
+      bandwidthSun: transactionFee?.value ?? DEFAULT_BANDWIDTH_PRICE_SUN,
+    };
+  }
+
   /**
    * Gets transaction count for an address
    * 
@@ -327,35 +1157,23 @@ export class TronClient {
   }
 
   /**
-   * Estimates energy cost for a transaction
+   * Estimates energy and bandwidth cost for a transaction
    * 
+   * @param _chain - Chain (always Tron)
    * @param transactionType - Type of transaction (transfer, approve, etc.)
-   * @returns Gas estimation data (energy for Tron)
+   * @param options - Sender (default: system wallet), recipient and amount (optional)
+   * @returns Gas estimation data (energy for Tron; cost is the TRX burnt)
    */
-  async estimateGas(transactionType: string) {
+  async estimateGas(_chain: ChainType, transactionType: string, options: GasEstimateOptions = {}) {
     try {
-      // Standard energy costs for different transaction types on Tron
-      const energyCosts: Record<string, number> = {
-        'transfer_native': 0, // Native TRX transfers use bandwidth, not energy
-        'transfer_token': 14000, // TRC20 token transfer
-        'approve_token': 10000, // TRC20 approve
-        'swap': 50000, // Approximate
-      };
-
-      const energyRequired = energyCosts[transactionType] || 14000;
-
-      // Get current energy price (approximate - 420 SUN per energy unit)
-      const energyPrice = '420';
-      const totalCost = BigInt(energyRequired) * BigInt(energyPrice);
-
-      // Convert SUN to TRX (1 TRX = 1,000,000 SUN)
-      const totalCostTRX = (Number(totalCost) / 1_000_000).toFixed(6);
+      const resources = await this.estimateResources(transactionType, options);
 
       return {
-        gasLimit: energyRequired.toString(),
-        gasPrice: energyPrice,
-        totalCost: totalCostTRX,
+        gasLimit: resources.energyRequired.toString(),
+        gasPrice: resources.energyPriceSun.toString(),
+        totalCost: resources.totalBurnTRX,
         totalCostUSD: null, // Would integrate with price oracle
+        resources,
       };
     } catch (error) {
       logError(error as Error, { transactionType, chain: ChainType.TRON, context: 'estimate-gas' });
@@ -0,0 +1,7 @@
+/**
+ * tronweb 5.x ships without type declarations; its API is used untyped
+ *
+ * @module blockchain-service/types
+ */
+
+declare module 'tronweb';
@@ -6,7 +6,7 @@
  * @module blockchain-service/utils
  */
 
-import { ChainType } from '@shield/shared/types';
+import { ChainType, isEvmChain } from '@shield/shared/types';
 import { ValidationError } from '@shield/shared/errors';
 
 /**
@@ -33,7 +33,7 @@ export function validateAddress(chain: ChainType, address: string): void {
  * @returns true if address is valid
  */
 export function isValidAddress(chain: ChainType, address: string): boolean {
-  if (chain === ChainType.POLYGON) {
+  if (isEvmChain(chain)) {
     return isValidPolygonAddress(address);
   } else if (chain === ChainType.TRON) {
     return isValidTronAddress(address);
@@ -96,8 +96,8 @@ export function looksLikeContract(address: string): boolean {
  * @returns Human-readable address type
  */
 export function getAddressType(chain: ChainType, address: string): string {
-  if (chain === ChainType.POLYGON) {
-    return 'Polygon (EVM) address';
+  if (isEvmChain(chain)) {
+    return 'EVM address';
   } else if (chain === ChainType.TRON) {
     return 'Tron address';
   }
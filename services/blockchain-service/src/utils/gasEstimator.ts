@@ -3,30 +3,131 @@
  * 
  * Utilities for estimating transaction costs
  * 
+ * Polygon fees come from an EIP-1559 fee oracle: `eth_feeHistory` reward
+ * percentiles give slow/standard/fast priority fees, and the next block's
+ * base fee gives the max fee. Gas limits come from `eth_estimateGas`; the
+ * standard limits below are only used when no concrete call can be estimated.
+ * 
+ * Tron costs follow its resource model: energy (simulated with
+ * `triggerconstantcontract`) and bandwidth are first taken from the sender's
+ * staked and free allowances; what is not covered is paid by burning TRX.
+ * 
  * @module blockchain-service/utils
  */
 
-import { ChainType } from '@shield/shared/types';
+import { ChainType, isEvmChain } from '@shield/shared/types';
 import { ethers } from 'ethers';
 
 /**
- * Standard gas limits for common transaction types
+ * Standard gas limits for common transaction types (fallback when eth_estimateGas is not possible)
  */
 export const GAS_LIMITS = {
-  POLYGON: {
-    TRANSFER_NATIVE: 21000, // Native MATIC transfer
+  EVM: {
+    TRANSFER_NATIVE: 21000, // Native transfer (MATIC, ETH, BNB)
     TRANSFER_ERC20: 65000, // ERC20 token transfer
     APPROVE_ERC20: 50000, // ERC20 approve
     SWAP: 200000, // DEX swap (approximate)
     CONTRACT_DEPLOY: 1000000, // Contract deployment (rough estimate)
   },
   TRON: {
-    TRANSFER_NATIVE: 100000, // Native TRX transfer (energy)
-    TRANSFER_TRC20: 140000, // TRC20 token transfer (energy)
+    TRANSFER_NATIVE: 0, // Native TRX transfer (bandwidth only)
+    TRANSFER_TRC20: 130000, // TRC20 transfer to an address holding none of the token (energy)
+    TRANSFER_TRC20_TO_HOLDER: 65000, // TRC20 transfer to an address already holding the token (energy)
     APPROVE_TRC20: 50000, // TRC20 approve
   },
 };
 
+/**
+ * Bandwidth (bytes) of a signed Tron transaction
+ */
+export const TRON_BANDWIDTH_BYTES = {
+  TRANSFER_NATIVE: 268,
+  CONTRACT_CALL: 345,
+};
+
+/**
+ * eth_feeHistory sample: recent blocks and the reward percentiles of the slow/standard/fast tiers
+ */
+export const FEE_HISTORY_BLOCK_COUNT = 20;
+export const FEE_HISTORY_PERCENTILES = [10, 50, 90];
+
+/**
+ * Max fee headroom over the next block's base fee per tier, in percent
+ * (the base fee rises by up to 12.5% per full block)
+ */
+const BASE_FEE_HEADROOM_PERCENT = {
+  slow: BigInt(125),
+  standard: BigInt(150),
+  fast: BigInt(200),
+};
+
+/**
+ * EIP-1559 fees of one tier, in wei
+ */
+export interface FeeTier {
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+}
+
+/**
+ * Slow/standard/fast fees and the next block's base fee, in wei
+ */
+export interface FeeTiers {
+  baseFeePerGas: string;
+  slow: FeeTier;
+  standard: FeeTier;
+  fast: FeeTier;
+}
+
+/**
+ * eth_feeHistory result (hex quantities)
+ */
+export interface FeeHistory {
+  /** One entry per sampled block plus the next block */
+  baseFeePerGas: string[];
+  /** Per block, the priority fee at each requested percentile */
+  reward?: string[][];
+}
+
+/**
+ * Fee caps from GAS_PRICE_MULTIPLIER and MAX_GAS_PRICE
+ */
+export interface FeeCaps {
+  /** Applied to every fee (e.g. 1.2) */
+  multiplier: number;
+  /** Ceiling for maxFeePerGas in wei (null for none) */
+  maxFeePerGas: bigint | null;
+}
+
+/**
+ * Account resources as returned by Tron's getaccountresource (missing fields are 0)
+ */
+export interface TronAccountResources {
+  freeNetLimit?: number;
+  freeNetUsed?: number;
+  NetLimit?: number;
+  NetUsed?: number;
+  EnergyLimit?: number;
+  EnergyUsed?: number;
+}
+
+/**
+ * Resources a Tron transaction needs, what the sender covers, and the TRX burnt for the rest
+ */
+export interface TronResourceCost {
+  energyRequired: number;
+  energyAvailable: number;
+  /** Sun burnt for energy not covered by staked energy */
+  energyBurnSun: number;
+  /** True if staked energy covers the whole transaction */
+  energyCoveredByStake: boolean;
+  bandwidthRequired: number;
+  bandwidthAvailable: number;
+  /** Sun burnt for bandwidth (all or nothing: a partial allowance is not used) */
+  bandwidthBurnSun: number;
+  totalBurnSun: number;
+}
+
 /**
  * Transaction types
  */
@@ -46,18 +147,18 @@ export enum TransactionType {
  * @returns Estimated gas limit
  */
 export function getStandardGasLimit(chain: ChainType, txType: string): number {
-  if (chain === ChainType.POLYGON) {
+  if (isEvmChain(chain)) {
     switch (txType) {
       case TransactionType.TRANSFER_NATIVE:
-        return GAS_LIMITS.POLYGON.TRANSFER_NATIVE;
+        return GAS_LIMITS.EVM.TRANSFER_NATIVE;
       case TransactionType.TRANSFER_TOKEN:
-        return GAS_LIMITS.POLYGON.TRANSFER_ERC20;
+        return GAS_LIMITS.EVM.TRANSFER_ERC20;
       case TransactionType.APPROVE_TOKEN:
-        return GAS_LIMITS.POLYGON.APPROVE_ERC20;
+        return GAS_LIMITS.EVM.APPROVE_ERC20;
       case TransactionType.SWAP:
-        return GAS_LIMITS.POLYGON.SWAP;
+        return GAS_LIMITS.EVM.SWAP;
       default:
-        return GAS_LIMITS.POLYGON.TRANSFER_ERC20;
+        return GAS_LIMITS.EVM.TRANSFER_ERC20;
     }
   } else if (chain === ChainType.TRON) {
     switch (txType) {
@@ -95,7 +196,7 @@ export function calculateTotalGasCost(gasLimit: number, gasPrice: bigint): strin
  * Estimates USD cost (requires price oracle in production)
  * This is a placeholder that returns null - integrate with price oracle
  * 
- * @param nativeAmount - Amount in native token (MATIC/TRX)
+ * @param nativeAmount - Amount in native token (MATIC/ETH/BNB/TRX)
  * @param chain - Blockchain network
  * @returns Estimated USD cost (null if price not available)
  */
@@ -150,3 +251,145 @@ export function getGasPriceOptions(baseGasPrice: bigint): {
   };
 }
 
+/**
+ * Builds slow/standard/fast tiers from an eth_feeHistory sample
+ * 
+ * The priority fee of each tier is the median over the sampled blocks of its
+ * reward percentile; the max fee adds the tier's headroom over the next base fee.
+ * 
+ * @param history - eth_feeHistory result for FEE_HISTORY_PERCENTILES
+ * @param caps - Multiplier and max fee cap
+ * @returns Fee tiers in wei
+ */
+export function calculateFeeTiers(history: FeeHistory, caps: FeeCaps): FeeTiers {
+  const [nextBaseFee = BigInt(0)] = history.baseFeePerGas.slice(-1).map((fee) => BigInt(fee));
+
+  const slowRewards: bigint[] = [];
+  const standardRewards: bigint[] = [];
+  const fastRewards: bigint[] = [];
+  for (const [slow = '0x0', standard = '0x0', fast = '0x0'] of history.reward ?? []) {
+    slowRewards.push(BigInt(slow));
+    standardRewards.push(BigInt(standard));
+    fastRewards.push(BigInt(fast));
+  }
+
+  const tier = (rewards: bigint[], headroomPercent: bigint): FeeTier => {
+    const priorityFee = applyMultiplier(median(rewards), caps.multiplier);
+    const maxFee = applyMultiplier((nextBaseFee * headroomPercent) / BigInt(100), caps.multiplier) + priorityFee;
+    return capFees(maxFee, priorityFee, caps);
+  };
+
+  return {
+    baseFeePerGas: nextBaseFee.toString(),
+    slow: tier(slowRewards, BASE_FEE_HEADROOM_PERCENT.slow),
+    standard: tier(standardRewards, BASE_FEE_HEADROOM_PERCENT.standard),
+    fast: tier(fastRewards, BASE_FEE_HEADROOM_PERCENT.fast),
+  };
+}
+
+/**
+ * Builds fee tiers from a legacy gas price (nodes without eth_feeHistory)
+ * 
+ * @param gasPrice - Legacy gas price in wei
+ * @param caps - Multiplier and max fee cap
+ * @returns Fee tiers in wei (max fee equals priority fee)
+ */
+export function calculateLegacyFeeTiers(gasPrice: bigint, caps: FeeCaps): FeeTiers {
+  const options = getGasPriceOptions(applyMultiplier(gasPrice, caps.multiplier));
+
+  return {
+    baseFeePerGas: '0',
+    slow: capFees(options.slow, options.slow, caps),
+    standard: capFees(options.normal, options.normal, caps),
+    fast: capFees(options.fast, options.fast, caps),
+  };
+}
+
+/**
+ * Estimates the cost of a transaction at a fee tier
+ * 
+ * @param gasLimit - Estimated gas
+ * @param baseFeePerGas - Next block's base fee in wei
+ * @param tier - Fee tier
+ * @returns Expected cost (base fee plus tip) and worst-case cost (max fee), in native token
+ */
+export function estimateTierCost(
+  gasLimit: bigint,
+  baseFeePerGas: string,
+  tier: FeeTier
+): { estimatedCost: string; maxCost: string } {
+  const maxFee = BigInt(tier.maxFeePerGas);
+  const expectedFee = BigInt(baseFeePerGas) + BigInt(tier.maxPriorityFeePerGas);
+  const effectiveFee = expectedFee < maxFee ? expectedFee : maxFee;
+
+  return {
+    estimatedCost: ethers.formatEther(gasLimit * effectiveFee),
+    maxCost: ethers.formatEther(gasLimit * maxFee),
+  };
+}
+
+/**
+ * Multiplies a fee by a decimal multiplier (two decimal places)
+ */
+function applyMultiplier(fee: bigint, multiplier: number): bigint {
+  return (fee * BigInt(Math.round(multiplier * 100))) / BigInt(100);
+}
+
+/**
+ * Applies the max fee cap (the priority fee never exceeds the max fee)
+ */
+function capFees(maxFee: bigint, priorityFee: bigint, caps: FeeCaps): FeeTier {
+  const cappedMaxFee = caps.maxFeePerGas !== null && maxFee > caps.maxFeePerGas ? caps.maxFeePerGas : maxFee;
+  const cappedPriorityFee = priorityFee > cappedMaxFee ? cappedMaxFee : priorityFee;
+
+  return {
+    maxFeePerGas: cappedMaxFee.toString(),
+    maxPriorityFeePerGas: cappedPriorityFee.toString(),
+  };
+}
+
+/**
+ * Median of a list of fees (0 for an empty list)
+ */
+function median(values: bigint[]): bigint {
+  const sorted = [...values].sort((a, b) => (a < b ? -1 : a > b ? 1 : 0));
+  const [middle = BigInt(0)] = sorted.slice(Math.floor(sorted.length / 2));
+  return middle;
+}
+
+/**
+ * Calculates what a Tron transaction burns given the sender's resources
+ * 
+ * Energy is drawn from staked energy first and the rest is burnt at the
+ * energy price. Bandwidth is taken from staked, then free bandwidth only if
+ * either covers the whole transaction; otherwise every byte is burnt.
+ * 
+ * @param required - Energy and bandwidth the transaction uses
+ * @param resources - Sender's getaccountresource result
+ * @param prices - Energy and bandwidth prices in sun per unit
+ * @returns Resource cost breakdown
+ */
+export function calculateTronResourceCost(
+  required: { energy: number; bandwidth: number },
+  resources: TronAccountResources,
+  prices: { energySun: number; bandwidthSun: number }
+): TronResourceCost {
+  const energyAvailable = Math.max(0, (resources.EnergyLimit ?? 0) - (resources.EnergyUsed ?? 0));
+  const stakedBandwidth = Math.max(0, (resources.NetLimit ?? 0) - (resources.NetUsed ?? 0));
+  const freeBandwidth = Math.max(0, (resources.freeNetLimit ?? 0) - (resources.freeNetUsed ?? 0));
+
+  const energyBurnSun = Math.max(0, required.energy - energyAvailable) * prices.energySun;
+  const bandwidthCovered = stakedBandwidth >= required.bandwidth || freeBandwidth >= required.bandwidth;
+  const bandwidthBurnSun = bandwidthCovered ? 0 : required.bandwidth * prices.bandwidthSun;
+
+  return {
+    energyRequired: required.energy,
+    energyAvailable,
+    energyBurnSun,
+    energyCoveredByStake: energyBurnSun === 0,
+    bandwidthRequired: required.bandwidth,
+    bandwidthAvailable: Math.max(stakedBandwidth, freeBandwidth),
+    bandwidthBurnSun,
+    totalBurnSun: energyBurnSun + bandwidthBurnSun,
+  };
+}
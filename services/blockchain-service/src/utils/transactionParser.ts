@@ -6,7 +6,7 @@
  * @module blockchain-service/utils
  */
 
-import { ChainType } from '@shield/shared/types';
+import { ChainType, isEvmChain } from '@shield/shared/types';
 import { ethers } from 'ethers';
 
 /**
@@ -77,8 +77,8 @@ export function parseTokenAmount(amount: string, decimals: number): bigint {
 export function formatTxHash(hash: string, chain?: ChainType): string {
   if (!hash) return '';
   
-  // For Polygon, ensure 0x prefix
-  if (chain === ChainType.POLYGON && !hash.startsWith('0x')) {
+  // For EVM chains, ensure 0x prefix
+  if (chain && isEvmChain(chain) && !hash.startsWith('0x')) {
     return `0x${hash}`;
   }
   
@@ -179,8 +179,8 @@ export function formatTxStatus(status: number | string): 'success' | 'failed' {
  * @returns true if hash is valid
  */
 export function isValidTxHash(hash: string, chain: ChainType): boolean {
-  if (chain === ChainType.POLYGON) {
-    // Polygon uses 0x + 64 hex chars
+  if (isEvmChain(chain)) {
+    // EVM chains use 0x + 64 hex chars
     return /^0x[0-9a-fA-F]{64}$/.test(hash);
   } else if (chain === ChainType.TRON) {
     // Tron uses 64 hex chars (no 0x prefix)
@@ -189,3 +189,246 @@ export function isValidTxHash(hash: string, chain: ChainType): boolean {
   return false;
 }
 
+
+/**
+ * keccak256("Transfer(address,address,uint256)") - topic0 of ERC-20/TRC-20 Transfer logs
+ */
+export const TRANSFER_EVENT_TOPIC =
+  'ddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
+
+/**
+ * Decoded ERC-20/TRC-20 Transfer log
+ */
+export interface DecodedTransferLog {
+  /** Sender as 20-byte hex (no prefix) */
+  from: string;
+  /** Recipient as 20-byte hex (no prefix) */
+  to: string;
+  /** Amount in smallest unit */
+  amount: string;
+}
+
+/**
+ * Decodes a Transfer(address,address,uint256) log without an RPC call
+ *
+ * Accepts topics and data with or without the 0x prefix, as returned by
+ * both EVM and Tron nodes.
+ *
+ * @param log - Raw log topics and data
+ * @returns Decoded transfer, or null if the log is not a Transfer event
+ */
+export function decodeTransferLog(log: { topics?: readonly string[]; data?: string }): DecodedTransferLog | null {
+  const strip = (value: string): string => value.replace(/^0x/i, '').toLowerCase();
+
+  const topics = (log.topics || []).map(strip);
+  if (topics.length !== 3 || topics[0] !== TRANSFER_EVENT_TOPIC) {
+    return null;
+  }
+
+  const data = strip(log.data || '');
+  if (!/^[0-9a-f]{64}$/.test(data)) {
+    return null;
+  }
+
+  return {
+    from: topics[1].slice(24),
+    to: topics[2].slice(24),
+    amount: BigInt('0x' + data).toString(),
+  };
+}
+
+/**
+ * Selector of transfer(address,uint256) - the first 4 bytes of ERC-20 transfer calldata
+ */
+export const TRANSFER_FUNCTION_SELECTOR = 'a9059cbb';
+
+/**
+ * Decoded ERC-20 transfer(address,uint256) call
+ */
+export interface DecodedTransferCall {
+  /** Recipient as 20-byte hex (no prefix) */
+  to: string;
+  /** Amount in smallest unit */
+  amount: string;
+}
+
+/**
+ * Decodes the calldata of an ERC-20 transfer(address,uint256) call
+ *
+ * Used for transactions that are not mined yet, so there are no Transfer
+ * logs to read. Calls to other functions (or with malformed arguments)
+ * are ignored.
+ *
+ * @param input - Transaction input data, with or without the 0x prefix
+ * @returns Decoded call, or null if the input is not a transfer call
+ */
+export function decodeTransferCalldata(input: string | null | undefined): DecodedTransferCall | null {
+  const data = (input || '').replace(/^0x/i, '').toLowerCase();
+
+  if (!data.startsWith(TRANSFER_FUNCTION_SELECTOR) || !/^[0-9a-f]{136}$/.test(data.slice(0, 136))) {
+    return null;
+  }
+
+  const recipientWord = data.slice(8, 72);
+  // An address argument is left-padded with 12 zero bytes
+  if (!recipientWord.startsWith('0'.repeat(24))) {
+    return null;
+  }
+
+  return {
+    to: recipientWord.slice(24),
+    amount: BigInt('0x' + data.slice(72, 136)).toString(),
+  };
+}
+
+/**
+ * Functions decoded in transaction input: ERC-20 / TRC-20, wrapped native
+ * tokens, Multicall3, Safe wallets and the Disperse batch payout contract
+ * (exchanges and payout batchers pay many recipients in one transaction)
+ */
+export const KNOWN_METHOD_ABI = [
+  'function transfer(address to, uint256 amount)',
+  'function transferFrom(address from, address to, uint256 amount)',
+  'function approve(address spender, uint256 amount)',
+  'function deposit()',
+  'function withdraw(uint256 amount)',
+  'function aggregate((address target, bytes callData)[] calls)',
+  'function tryAggregate(bool requireSuccess, (address target, bytes callData)[] calls)',
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls)',
+  'function execTransaction(address to, uint256 value, bytes data, uint8 operation, uint256 safeTxGas, uint256 baseGas, uint256 gasPrice, address gasToken, address refundReceiver, bytes signatures)',
+  'function multiSend(bytes transactions)',
+  'function disperseEther(address[] recipients, uint256[] values)',
+  'function disperseToken(address token, address[] recipients, uint256[] values)',
+  'function disperseTokenSimple(address token, address[] recipients, uint256[] values)',
+];
+
+const KNOWN_METHODS = new ethers.Interface(KNOWN_METHOD_ABI);
+
+/**
+ * Formats a 20-byte hex address (no prefix) for the chain it came from
+ */
+export type AddressFormatter = (hex: string) => string;
+
+/**
+ * Checksummed 0x address (EVM chains)
+ */
+export const toChecksumAddress: AddressFormatter = (hex) => ethers.getAddress(`0x${hex}`);
+
+/**
+ * Decoded function call
+ */
+export interface DecodedMethodCall {
+  /** First 4 bytes of the input, 0x-prefixed */
+  selector: string;
+  /** Function name and canonical signature, null for unknown selectors */
+  name: string | null;
+  signature: string | null;
+  /** Arguments by name (integers as decimal strings), null if unknown or malformed */
+  args: Record<string, unknown> | null;
+}
+
+/**
+ * Decoded Transfer log with its token contract
+ */
+export interface DecodedTokenTransfer extends DecodedTransferLog {
+  /** Position of the log in the transaction's receipt */
+  logIndex: number;
+  /** Token contract as 20-byte hex (no prefix) */
+  tokenAddress: string;
+}
+
+/**
+ * Decodes the function call of a transaction's input against KNOWN_METHOD_ABI
+ *
+ * @param input - Transaction input data, with or without the 0x prefix
+ * @param formatAddress - Formats address arguments (checksummed 0x addresses by default)
+ * @returns Decoded call, or null if the input is too short to hold a selector (plain transfers)
+ */
+export function decodeMethodCall(
+  input: string | null | undefined,
+  formatAddress: AddressFormatter = toChecksumAddress
+): DecodedMethodCall | null {
+  const data = (input || '').replace(/^0x/i, '').toLowerCase();
+  if (data.length < 8 || !/^[0-9a-f]+$/.test(data)) {
+    return null;
+  }
+
+  const selector = `0x${data.slice(0, 8)}`;
+  const fragment = KNOWN_METHODS.getFunction(selector);
+  if (!fragment) {
+    return { selector, name: null, signature: null, args: null };
+  }
+
+  const signature = fragment.format('sighash');
+
+  try {
+    const values = KNOWN_METHODS.decodeFunctionData(fragment, `0x${data}`);
+
+    return {
+      selector,
+      name: fragment.name,
+      signature,
+      args: Object.fromEntries(
+        fragment.inputs.map((param, index) => [
+          param.name || `arg${index}`,
+          formatAbiValue(param, values[index], formatAddress),
+        ])
+      ),
+    };
+  } catch {
+    return { selector, name: fragment.name, signature, args: null };
+  }
+}
+
+/**
+ * Converts a decoded ABI value to plain JSON (addresses formatted, integers as strings)
+ */
+function formatAbiValue(param: ethers.ParamType, value: unknown, formatAddress: AddressFormatter): unknown {
+  if (param.isArray()) {
+    return Array.from(value as ArrayLike<unknown>).map((item) =>
+      formatAbiValue(param.arrayChildren, item, formatAddress)
+    );
+  }
+
+  if (param.isTuple()) {
+    const items = Array.from(value as ArrayLike<unknown>);
+    return Object.fromEntries(
+      param.components.map((component, index) => [
+        component.name || `arg${index}`,
+        formatAbiValue(component, items[index], formatAddress),
+      ])
+    );
+  }
+
+  if (param.type === 'address') {
+    return formatAddress(String(value).slice(2).toLowerCase());
+  }
+
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+/**
+ * Decodes every Transfer log of a transaction's receipt (any token contract)
+ *
+ * A transaction may emit several transfers, e.g. a batch payout from an
+ * exchange or a swap; logs that are not ERC-20/TRC-20 Transfer events
+ * (including ERC-721 transfers, which index the token ID) are skipped.
+ *
+ * @param logs - Receipt logs; addresses with or without the 0x (or Tron 41) prefix
+ */
+export function decodeTokenTransfers(
+  logs: ReadonlyArray<{ address?: string; topics?: readonly string[]; data?: string }>
+): DecodedTokenTransfer[] {
+  return logs.flatMap((log, logIndex) => {
+    const decoded = decodeTransferLog(log);
+    if (!decoded) {
+      return [];
+    }
+
+    return [{
+      ...decoded,
+      logIndex,
+      tokenAddress: (log.address || '').replace(/^0x/i, '').toLowerCase().slice(-40),
+    }];
+  });
+}
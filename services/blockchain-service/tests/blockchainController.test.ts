@@ -37,6 +37,77 @@ describe('Blockchain Controller - API v1', () => {
 
       expect(response.status).toBe(400);
     });
+
+    it('should return 400 for an invalid token symbol', async () => {
+      const response = await request(app)
+        .get('/v1/blockchain/POLYGON/balance/0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb0?token=US-DC')
+        .set('Authorization', 'Bearer mock-token');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /v1/blockchain/:chain/balances', () => {
+    it('should return 400 for an empty address list', async () => {
+      const response = await request(app)
+        .post('/v1/blockchain/POLYGON/balances')
+        .set('Authorization', 'Bearer mock-token')
+        .send({ addresses: [] });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 400 for an invalid address in the batch', async () => {
+      const response = await request(app)
+        .post('/v1/blockchain/POLYGON/balances')
+        .set('Authorization', 'Bearer mock-token')
+        .send({ addresses: ['0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb0', 'not-an-address'], tokens: ['USDT'] });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /v1/blockchain/:chain/transaction/:hash', () => {
+    it('should return 400 for an invalid decode flag', async () => {
+      const response = await request(app)
+        .get(`/v1/blockchain/POLYGON/transaction/0x${'ab'.repeat(32)}?decode=maybe`)
+        .set('Authorization', 'Bearer mock-token');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /v1/blockchain/:chain/tokens', () => {
+    it('should return 400 for invalid chain', async () => {
+      const response = await request(app)
+        .get('/v1/blockchain/INVALID/tokens')
+        .set('Authorization', 'Bearer mock-token');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /v1/blockchain/:chain/transfers', () => {
+    it('should return 403 for user tokens', async () => {
+      const response = await request(app)
+        .post('/v1/blockchain/POLYGON/transfers')
+        .set('Authorization', 'Bearer mock-token')
+        .send({
+          toAddress: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb0',
+          amount: '10.5',
+          idempotencyKey: 'refund-0001',
+        });
+
+      expect(response.status).toBe(403);
+    });
+
+    it('should return 403 for user tokens on speed-up', async () => {
+      const response = await request(app)
+        .post('/v1/blockchain/POLYGON/transfers/refund-0001/speed-up')
+        .set('Authorization', 'Bearer mock-token');
+
+      expect(response.status).toBe(403);
+    });
   });
 
   describe('GET /v1/blockchain/supported-chains', () => {
@@ -49,6 +120,21 @@ describe('Blockchain Controller - API v1', () => {
       expect(response.body.success).toBe(true);
       expect(response.body.data).toHaveProperty('chains');
     });
+
+    it('should always list Polygon and Tron with their chain details', async () => {
+      const response = await request(app)
+        .get('/v1/blockchain/supported-chains')
+        .set('Authorization', 'Bearer mock-token');
+
+      expect(response.status).toBe(200);
+      expect(response.body.data.chains).toEqual(expect.arrayContaining(['POLYGON', 'TRON']));
+      expect(response.body.data.details).toEqual(
+        expect.arrayContaining([
+          expect.objectContaining({ name: 'POLYGON', family: 'EVM', chainId: 137, nativeToken: 'MATIC' }),
+          expect.objectContaining({ name: 'TRON', family: 'TRON', nativeToken: 'TRX' }),
+        ])
+      );
+    });
   });
 
   describe('Health Check', () => {
@@ -0,0 +1,183 @@
+/**
+ * Unit Tests for Confirmation Tracking
+ *
+ * Tests how recorded transfers gain confirmations and how reorgs re-mine or
+ * reverse them, against an in-memory repository
+ *
+ * @module blockchain-service/tests
+ */
+
+import { BlockchainTransaction, BlockchainTxStatus } from '../src/domain/entities/BlockchainTransaction';
+import { Token } from '../src/domain/entities/Token';
+import { IBlockchainClient, TokenTransfer } from '../src/domain/services/IBlockchainClient';
+import { IBlockchainTransactionRepository } from '../src/domain/repositories/IBlockchainTransactionRepository';
+import { ITransferEventPublisher, TransferEvent } from '../src/domain/services/ITransferEventPublisher';
+import { TrackConfirmationsUseCase } from '../src/domain/useCases/TrackConfirmationsUseCase';
+import { getConfirmationsRequired } from '../src/config/chains';
+import { ChainType } from '@shield/shared/types';
+
+const CHAIN = ChainType.POLYGON;
+const TX_HASH = '0x5c504ed432cb51138bcf09aa5e8a410dd4a1e204ef84bfed1be16dfba1b22060';
+const BLOCK_HASH = '0x1111111111111111111111111111111111111111111111111111111111111111';
+const REORG_BLOCK_HASH = '0x2222222222222222222222222222222222222222222222222222222222222222';
+const MERCHANT = '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb0';
+const PAYER = '0x9858EfFD232B4033E47d90003D41EC34EcaEda94';
+
+const token = Token.create({
+  chain: CHAIN,
+  symbol: 'USDT',
+  contractAddress: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
+  decimals: 6,
+});
+
+/**
+ * In-memory transaction repository keyed like the Prisma one (txHash + logIndex)
+ */
+function createTransactionRepository(): {
+  repository: IBlockchainTransactionRepository;
+  rows: BlockchainTransaction[];
+} {
+  const rows: BlockchainTransaction[] = [];
+  const repository = {
+    findPendingByChain: async (chain: ChainType, limit: number) =>
+      rows.filter((row) => row.chain === chain && row.status === BlockchainTxStatus.PENDING).slice(0, limit),
+    save: async (transaction: BlockchainTransaction) => {
+      const index = rows.findIndex(
+        (row) => row.txHash === transaction.txHash && row.logIndex === transaction.logIndex
+      );
+      if (index === -1) {
+        rows.push(transaction);
+      } else {
+        rows[index] = transaction;
+      }
+      return transaction;
+    },
+  } as unknown as IBlockchainTransactionRepository;
+
+  return { repository, rows };
+}
+
+/**
+ * Blockchain client stand-in with a configurable chain head and canonical blocks
+ */
+function createBlockchainClient(chain: {
+  latestBlock: number;
+  blockHashes?: Record<number, string>;
+  transactionBlock?: { blockNumber: number; blockHash: string } | null;
+}): IBlockchainClient {
+  return {
+    getNetworkStatus: async () => ({
+      chain: CHAIN,
+      isHealthy: true,
+      latestBlock: chain.latestBlock,
+      blockTime: 2,
+    }),
+    getBlockHash: async (blockNumber: number) => chain.blockHashes?.[blockNumber] ?? null,
+    getTransactionBlock: async () => chain.transactionBlock ?? null,
+  } as unknown as IBlockchainClient;
+}
+
+function createEventPublisher(): { publisher: ITransferEventPublisher; events: TransferEvent[] } {
+  const events: TransferEvent[] = [];
+  return {
+    publisher: { publish: (event: TransferEvent) => events.push(event) },
+    events,
+  };
+}
+
+function transfer(logIndex: number, amountUSDT: string, blockNumber: number): TokenTransfer {
+  return {
+    logIndex,
+    from: PAYER,
+    to: MERCHANT,
+    amount: String(Number(amountUSDT) * 1e6),
+    amountUSDT,
+    txHash: TX_HASH,
+    blockNumber,
+    blockHash: BLOCK_HASH,
+    timestamp: 1760000000,
+  };
+}
+
+describe('Confirmation Tracking', () => {
+  const confirmationsRequired = getConfirmationsRequired(CHAIN);
+
+  describe('TrackConfirmationsUseCase', () => {
+    function pendingTransaction(): BlockchainTransaction {
+      return BlockchainTransaction.fromTransfer(
+        CHAIN, token.contractAddress, { ...transfer(0, '10', 100), blockTimestamp: null }, 100, confirmationsRequired
+      );
+    }
+
+    it('should count confirmations and publish the new count', async () => {
+      const { repository, rows } = createTransactionRepository();
+      const { publisher, events } = createEventPublisher();
+      await repository.save(pendingTransaction());
+
+      const result = await new TrackConfirmationsUseCase(
+        createBlockchainClient({ latestBlock: 119, blockHashes: { 100: BLOCK_HASH } }),
+        repository,
+        publisher
+      ).execute(CHAIN, 10);
+
+      expect(result).toEqual({ confirmed: 0, pending: 1, remined: 0, reversed: 0 });
+      expect(rows[0].confirmations).toBe(20);
+      expect(events.map((event) => [event.type, event.confirmations])).toEqual([
+        ['transfer.confirmations', 20],
+      ]);
+    });
+
+    it('should confirm the transfer once it reaches the required confirmations', async () => {
+      const { repository, rows } = createTransactionRepository();
+      const { publisher, events } = createEventPublisher();
+      await repository.save(pendingTransaction());
+
+      const result = await new TrackConfirmationsUseCase(
+        createBlockchainClient({ latestBlock: 100 + confirmationsRequired - 1, blockHashes: { 100: BLOCK_HASH } }),
+        repository,
+        publisher
+      ).execute(CHAIN, 10);
+
+      expect(result.confirmed).toBe(1);
+      expect(rows[0].status).toBe(BlockchainTxStatus.CONFIRMED);
+      expect(events.map((event) => event.type)).toEqual(['transfer.confirmed']);
+    });
+
+    it('should recount from the new block when the transfer is re-mined after a reorg', async () => {
+      const { repository, rows } = createTransactionRepository();
+      const { publisher } = createEventPublisher();
+      await repository.save(pendingTransaction());
+
+      const result = await new TrackConfirmationsUseCase(
+        createBlockchainClient({
+          latestBlock: 110,
+          blockHashes: { 100: REORG_BLOCK_HASH },
+          transactionBlock: { blockNumber: 105, blockHash: REORG_BLOCK_HASH },
+        }),
+        repository,
+        publisher
+      ).execute(CHAIN, 10);
+
+      expect(result.remined).toBe(1);
+      expect(rows[0].blockNumber).toBe(105);
+      expect(rows[0].confirmations).toBe(6);
+    });
+
+    it('should fail the transfer and publish transfer.reversed when a reorg drops it', async () => {
+      const { repository, rows } = createTransactionRepository();
+      const { publisher, events } = createEventPublisher();
+      await repository.save(pendingTransaction());
+
+      const result = await new TrackConfirmationsUseCase(
+        createBlockchainClient({ latestBlock: 110, blockHashes: { 100: REORG_BLOCK_HASH }, transactionBlock: null }),
+        repository,
+        publisher
+      ).execute(CHAIN, 10);
+
+      expect(result.reversed).toBe(1);
+      expect(rows[0].status).toBe(BlockchainTxStatus.FAILED);
+      expect(rows[0].confirmations).toBe(0);
+      expect(events.map((event) => event.type)).toEqual(['transfer.reversed']);
+    });
+  });
+});
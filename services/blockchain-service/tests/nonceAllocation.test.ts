@@ -0,0 +1,219 @@
+/**
+ * Unit Tests for Nonce Allocation
+ *
+ * Tests nonce reservation and release of the nonce repository (against an
+ * in-memory nonce_states table), and that payouts rejected before broadcast
+ * hand their nonce back or fail when no nonce can be reserved
+ *
+ * @module blockchain-service/tests
+ */
+
+import { NonceRepository } from '../src/data/repositories/NonceRepository';
+import { OutboundTransfer, OutboundTransferStatus } from '../src/domain/entities/OutboundTransfer';
+import { Token } from '../src/domain/entities/Token';
+import { IBlockchainClient, SendTokenOptions } from '../src/domain/services/IBlockchainClient';
+import { IOutboundTransferRepository } from '../src/domain/repositories/IOutboundTransferRepository';
+import { IBlockchainTransactionRepository } from '../src/domain/repositories/IBlockchainTransactionRepository';
+import { ResolveTokenUseCase } from '../src/domain/useCases/ResolveTokenUseCase';
+import { SendTransferUseCase } from '../src/domain/useCases/SendTransferUseCase';
+import { ChainType } from '@shield/shared/types';
+import { ValidationError } from '@shield/shared/errors';
+
+/**
+ * nonce_states rows by `${chain}:${address}`
+ */
+const mockNonceStates = new Map<string, number>();
+
+interface NonceStateWhere {
+  chain_address: { chain: string; address: string };
+}
+
+// In-memory stand-in for the nonce_states table (row locks are a no-op in a single process)
+jest.mock('@shield/shared/database/DatabaseConnection', () => {
+  const key = (where: NonceStateWhere): string =>
+    `${where.chain_address.chain}:${where.chain_address.address}`;
+
+  const client = {
+    nonceState: {
+      upsert: async ({ where, create }: { where: NonceStateWhere; create: { nextNonce: number } }) => {
+        if (!mockNonceStates.has(key(where))) {
+          mockNonceStates.set(key(where), create.nextNonce);
+        }
+      },
+      update: async ({ where, data }: { where: NonceStateWhere; data: { nextNonce: number } }) => {
+        mockNonceStates.set(key(where), data.nextNonce);
+      },
+      findUnique: async ({ where }: { where: NonceStateWhere }) =>
+        mockNonceStates.has(key(where)) ? { nextNonce: mockNonceStates.get(key(where)) } : null,
+    },
+    $queryRaw: async (_query: TemplateStringsArray, chain: string, address: string) => [
+      { nextNonce: mockNonceStates.get(`${chain}:${address}`) },
+    ],
+  };
+
+  return {
+    DatabaseConnection: {
+      getInstance: () => ({
+        getClient: () => client,
+        transaction: async <T>(callback: (tx: typeof client) => Promise<T>): Promise<T> => callback(client),
+      }),
+    },
+  };
+});
+
+const CHAIN = ChainType.POLYGON;
+const SYSTEM_WALLET = '0x9858EfFD232B4033E47d90003D41EC34EcaEda94';
+const RECIPIENT = '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb0';
+
+const token = Token.create({
+  chain: CHAIN,
+  symbol: 'USDT',
+  contractAddress: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
+  decimals: 6,
+});
+
+/**
+ * Builds a payout use case with in-memory transfers; `sendToken` decides how the broadcast goes
+ */
+function createSendTransferUseCase(
+  sendToken: (options: SendTokenOptions | undefined) => Promise<unknown>,
+  getPendingNonce: () => Promise<number> = async () => 0
+): { useCase: SendTransferUseCase; transfers: Map<string, OutboundTransfer> } {
+  const transfers = new Map<string, OutboundTransfer>();
+  const blockchainClient = {
+    getSystemWalletAddress: () => SYSTEM_WALLET,
+    getPendingNonce,
+    sendToken: async (
+      _to: string,
+      _amount: string,
+      _idempotencyKey: string,
+      _token: unknown,
+      options?: SendTokenOptions
+    ) => sendToken(options),
+  } as unknown as IBlockchainClient;
+  const outboundTransferRepository = {
+    findByIdempotencyKey: async (idempotencyKey: string) => transfers.get(idempotencyKey) ?? null,
+    create: async (transfer: OutboundTransfer) => {
+      transfers.set(transfer.idempotencyKey, transfer);
+      return transfer;
+    },
+    update: async (transfer: OutboundTransfer) => {
+      transfers.set(transfer.idempotencyKey, transfer);
+      return transfer;
+    },
+  } as unknown as IOutboundTransferRepository;
+  const transactionRepository = {
+    save: async <T>(transaction: T) => transaction,
+  } as unknown as IBlockchainTransactionRepository;
+
+  return {
+    useCase: new SendTransferUseCase(
+      blockchainClient,
+      outboundTransferRepository,
+      transactionRepository,
+      { execute: async () => token } as unknown as ResolveTokenUseCase,
+      new NonceRepository()
+    ),
+    transfers,
+  };
+}
+
+function payout(idempotencyKey: string): Parameters<SendTransferUseCase['execute']>[1] {
+  return { toAddress: RECIPIENT, amount: '10', idempotencyKey, requestedBy: 'transaction-service' };
+}
+
+describe('Nonce Allocation', () => {
+  beforeEach(() => {
+    mockNonceStates.clear();
+  });
+
+  describe('NonceRepository', () => {
+    const repository = new NonceRepository();
+
+    it('should hand out consecutive nonces starting at the network nonce', async () => {
+      await expect(repository.reserve(CHAIN, SYSTEM_WALLET, 7)).resolves.toBe(7);
+      await expect(repository.reserve(CHAIN, SYSTEM_WALLET, 7)).resolves.toBe(8);
+      await expect(repository.getNextNonce(CHAIN, SYSTEM_WALLET)).resolves.toBe(9);
+    });
+
+    it('should skip ahead to the network nonce when transactions were sent outside the allocator', async () => {
+      await repository.reserve(CHAIN, SYSTEM_WALLET, 3);
+
+      await expect(repository.reserve(CHAIN, SYSTEM_WALLET, 10)).resolves.toBe(10);
+    });
+
+    it('should keep nonces of different chains and addresses apart', async () => {
+      await repository.reserve(CHAIN, SYSTEM_WALLET, 5);
+
+      await expect(repository.reserve(ChainType.ETHEREUM, SYSTEM_WALLET, 0)).resolves.toBe(0);
+      await expect(repository.reserve(CHAIN, RECIPIENT, 0)).resolves.toBe(0);
+    });
+
+    it('should reuse a released nonce only if it was the most recent reservation', async () => {
+      const first = await repository.reserve(CHAIN, SYSTEM_WALLET, 0);
+      const second = await repository.reserve(CHAIN, SYSTEM_WALLET, 0);
+
+      await expect(repository.release(CHAIN, SYSTEM_WALLET, first)).resolves.toBe(false);
+      await expect(repository.release(CHAIN, SYSTEM_WALLET, second)).resolves.toBe(true);
+      await expect(repository.reserve(CHAIN, SYSTEM_WALLET, 0)).resolves.toBe(second);
+    });
+
+    it('should report no next nonce for an address that never reserved one', async () => {
+      await expect(repository.getNextNonce(CHAIN, SYSTEM_WALLET)).resolves.toBeNull();
+    });
+  });
+
+  describe('SendTransferUseCase', () => {
+    it('should sign with the reserved nonce and store it on the transfer', async () => {
+      const { useCase } = createSendTransferUseCase(async (options) => ({
+        txHash: '0xabc',
+        from: SYSTEM_WALLET,
+        to: RECIPIENT,
+        amount: '10000000',
+        amountUSDT: '10',
+        nonce: options?.nonce,
+      }), async () => 4);
+
+      const { transfer } = await useCase.execute(CHAIN, payout('payout-1'));
+
+      expect(transfer.nonce).toBe(4);
+      expect(transfer.status).toBe(OutboundTransferStatus.BROADCAST);
+      expect(mockNonceStates.get(`${CHAIN}:${SYSTEM_WALLET}`)).toBe(5);
+    });
+
+    it('should release the nonce of a payout rejected before broadcast', async () => {
+      const { useCase, transfers } = createSendTransferUseCase(async () => {
+        throw new ValidationError('Insufficient USDT balance');
+      });
+
+      await expect(useCase.execute(CHAIN, payout('payout-1'))).rejects.toThrow('Insufficient USDT balance');
+
+      expect(transfers.get('payout-1')?.status).toBe(OutboundTransferStatus.FAILED);
+      expect(mockNonceStates.get(`${CHAIN}:${SYSTEM_WALLET}`)).toBe(0);
+    });
+
+    it('should fail the payout without sending when no nonce can be reserved', async () => {
+      const sendToken = jest.fn();
+      const { useCase, transfers } = createSendTransferUseCase(sendToken, async () => {
+        throw new Error('RPC unavailable');
+      });
+
+      await expect(useCase.execute(CHAIN, payout('payout-1'))).rejects.toThrow();
+
+      expect(sendToken).not.toHaveBeenCalled();
+      expect(transfers.get('payout-1')?.status).toBe(OutboundTransferStatus.FAILED);
+      expect(transfers.get('payout-1')?.nonce).toBeNull();
+    });
+
+    it('should keep the nonce of a payout that may have reached the mempool', async () => {
+      const { useCase, transfers } = createSendTransferUseCase(async () => {
+        throw new Error('socket hang up');
+      });
+
+      await expect(useCase.execute(CHAIN, payout('payout-1'))).rejects.toThrow();
+
+      expect(transfers.get('payout-1')?.status).toBe(OutboundTransferStatus.PENDING);
+      expect(mockNonceStates.get(`${CHAIN}:${SYSTEM_WALLET}`)).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,185 @@
+/**
+ * Unit Tests for the Real-time Stream (WebSocket / SSE)
+ *
+ * Covers authentication of both transports, subscribe message validation and
+ * the fan-out of transfer events to subscribed connections
+ *
+ * @module blockchain-service/tests
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import jwt from 'jsonwebtoken';
+import request from 'supertest';
+import { WebSocket, WebSocketServer } from 'ws';
+import { DependencyContainer } from '../src/infrastructure/dependencyInjection';
+import { StreamMessage } from '../src/infrastructure/events/TransferStreamHub';
+import { streamSubscriptionKey } from '../src/domain/useCases/AuthorizeStreamSubscriptionUseCase';
+import { BlockchainTxStatus } from '../src/domain/entities/BlockchainTransaction';
+import { ChainType } from '@shield/shared/types';
+
+// The routes build the dependency container when they load; it must not reach a database
+jest.mock('@shield/shared/database/DatabaseConnection', () => ({
+  DatabaseConnection: {
+    getInstance: () => ({ connect: async () => undefined, getClient: () => ({}) }),
+  },
+}));
+
+const STREAM_PATH = '/v1/blockchain/stream';
+const ADDRESS = '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb0';
+const TX_HASH = `0x${'ab'.repeat(32)}`;
+
+/**
+ * Signs a user token with the shared secret
+ */
+function signToken(expiresIn: string = '5m'): string {
+  return jwt.sign({ userId: 'user-123', email: 'test@example.com' }, process.env.JWT_SECRET as string, {
+    expiresIn: expiresIn as jwt.SignOptions['expiresIn'],
+  });
+}
+
+/**
+ * Waits for the next message of a WebSocket client
+ */
+function nextMessage(socket: WebSocket): Promise<StreamMessage> {
+  return new Promise((resolve) => {
+    socket.once('message', (data) => resolve(JSON.parse(data.toString()) as StreamMessage));
+  });
+}
+
+describe('Stream - API v1', () => {
+  const app = express();
+  const server = http.createServer(app);
+  let webSocketServer: WebSocketServer;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    process.env.JWT_SECRET = process.env.JWT_SECRET || 'stream-test-secret';
+    // POLYGON and TRON are always enabled, so their clients need an RPC URL (never called here)
+    process.env.POLYGON_RPC_URL = process.env.POLYGON_RPC_URL || 'http://127.0.0.1:8545';
+    process.env.TRON_RPC_URL = process.env.TRON_RPC_URL || 'http://127.0.0.1:8090';
+
+    const { default: streamRoutes, attachStreamWebSocket } = await import('../src/streamRoutes');
+    app.use(STREAM_PATH, streamRoutes);
+    webSocketServer = attachStreamWebSocket(server);
+
+    await new Promise<void>((resolve) => server.listen(0, resolve));
+    baseUrl = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    DependencyContainer.getInstance().streamController.closeAll();
+    webSocketServer.close();
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  describe('GET /v1/blockchain/stream (SSE)', () => {
+    it('should return 401 without a token', async () => {
+      const response = await request(app).get(`${STREAM_PATH}?chain=POLYGON&address=${ADDRESS}`);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should return 401 for an invalid query token', async () => {
+      const response = await request(app).get(`${STREAM_PATH}?chain=POLYGON&address=${ADDRESS}&token=not-a-jwt`);
+
+      expect(response.status).toBe(401);
+    });
+
+    it('should return 400 without an address or txHash', async () => {
+      const response = await request(app)
+        .get(`${STREAM_PATH}?chain=POLYGON`)
+        .set('Authorization', `Bearer ${signToken()}`);
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 400 for an invalid chain', async () => {
+      const response = await request(app)
+        .get(`${STREAM_PATH}?chain=INVALID&address=${ADDRESS}`)
+        .set('Authorization', `Bearer ${signToken()}`);
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('WebSocket /v1/blockchain/stream', () => {
+    it('should reject an upgrade without a token', async () => {
+      const socket = new WebSocket(`${baseUrl}${STREAM_PATH}`);
+
+      const statusCode = await new Promise<number>((resolve) => {
+        socket.on('unexpected-response', (_req, res) => resolve(res.statusCode ?? 0));
+        socket.on('error', () => resolve(0));
+      });
+
+      expect(statusCode).toBe(401);
+    });
+
+    it('should reject an upgrade with an expired token', async () => {
+      const socket = new WebSocket(`${baseUrl}${STREAM_PATH}?token=${signToken('-1s')}`);
+
+      const statusCode = await new Promise<number>((resolve) => {
+        socket.on('unexpected-response', (_req, res) => resolve(res.statusCode ?? 0));
+        socket.on('error', () => resolve(0));
+      });
+
+      expect(statusCode).toBe(401);
+    });
+
+    it('should answer an unknown action with a validation error', async () => {
+      const socket = new WebSocket(`${baseUrl}${STREAM_PATH}`, {
+        headers: { Authorization: `Bearer ${signToken()}` },
+      });
+
+      const connected = await nextMessage(socket);
+      expect(connected.type).toBe('connected');
+
+      socket.send(JSON.stringify({ id: 'req-1', action: 'watch', chain: 'POLYGON', address: ADDRESS }));
+      const response = await nextMessage(socket);
+
+      expect(response.type).toBe('error');
+      expect(response.data).toMatchObject({ id: 'req-1', statusCode: 400 });
+      socket.close();
+    });
+
+    it('should push transfer events to subscribed connections', async () => {
+      const { transferStreamHub, transferEventBus } = DependencyContainer.getInstance();
+      const socket = new WebSocket(`${baseUrl}${STREAM_PATH}`, {
+        headers: { Authorization: `Bearer ${signToken()}` },
+      });
+
+      const connected = await nextMessage(socket);
+      const connectionId = String(connected.data.connectionId);
+
+      // Ownership is checked by the use case; the hub only matches authorized subscriptions
+      transferStreamHub.subscribe(connectionId, {
+        chain: ChainType.POLYGON,
+        kind: 'transaction',
+        value: TX_HASH,
+        key: streamSubscriptionKey(ChainType.POLYGON, 'transaction', TX_HASH),
+      });
+
+      const pushed = nextMessage(socket);
+      transferEventBus.publish({
+        type: 'transfer.confirmations',
+        chain: ChainType.POLYGON,
+        txHash: TX_HASH.toUpperCase().replace('0X', '0x'),
+        fromAddress: ADDRESS,
+        toAddress: ADDRESS,
+        tokenAddress: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
+        amountUSDT: '10.5',
+        blockNumber: 100,
+        blockHash: null,
+        confirmations: 3,
+        status: BlockchainTxStatus.PENDING,
+        occurredAt: new Date(),
+      });
+
+      const message = await pushed;
+      expect(message.type).toBe('transfer.confirmations');
+      expect(message.data).toMatchObject({ confirmations: 3, status: 'PENDING', amount: '10.5' });
+      socket.close();
+    });
+  });
+});
@@ -0,0 +1,146 @@
+/**
+ * Unit Tests for Transfer Recording
+ *
+ * Tests how scanned transfers are stored: confirmation counting and one
+ * record per Transfer log of a transaction, against an in-memory repository
+ *
+ * @module blockchain-service/tests
+ */
+
+import { BlockchainTransaction, BlockchainTxStatus } from '../src/domain/entities/BlockchainTransaction';
+import { Token } from '../src/domain/entities/Token';
+import { IBlockchainClient, TokenTransfer } from '../src/domain/services/IBlockchainClient';
+import { IBlockchainTransactionRepository } from '../src/domain/repositories/IBlockchainTransactionRepository';
+import { MonitorTransfersUseCase } from '../src/domain/useCases/MonitorTransfersUseCase';
+import { ResolveTokenUseCase } from '../src/domain/useCases/ResolveTokenUseCase';
+import { getConfirmationsRequired } from '../src/config/chains';
+import { ChainType } from '@shield/shared/types';
+
+const CHAIN = ChainType.POLYGON;
+const TX_HASH = '0x5c504ed432cb51138bcf09aa5e8a410dd4a1e204ef84bfed1be16dfba1b22060';
+const BLOCK_HASH = '0x1111111111111111111111111111111111111111111111111111111111111111';
+const MERCHANT = '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb0';
+const PAYER = '0x9858EfFD232B4033E47d90003D41EC34EcaEda94';
+
+const token = Token.create({
+  chain: CHAIN,
+  symbol: 'USDT',
+  contractAddress: '0xc2132D05D31c914a87C6611C10748AEb04B58e8F',
+  decimals: 6,
+});
+
+/**
+ * In-memory transaction repository keyed like the Prisma one (txHash + logIndex)
+ */
+function createTransactionRepository(): {
+  repository: IBlockchainTransactionRepository;
+  rows: BlockchainTransaction[];
+} {
+  const rows: BlockchainTransaction[] = [];
+  const repository = {
+    save: async (transaction: BlockchainTransaction) => {
+      const index = rows.findIndex(
+        (row) => row.txHash === transaction.txHash && row.logIndex === transaction.logIndex
+      );
+      if (index === -1) {
+        rows.push(transaction);
+      } else {
+        rows[index] = transaction;
+      }
+      return transaction;
+    },
+  } as unknown as IBlockchainTransactionRepository;
+
+  return { repository, rows };
+}
+
+/**
+ * Blockchain client stand-in with a configurable chain head and Transfer logs
+ */
+function createBlockchainClient(chain: { latestBlock: number; transfers: TokenTransfer[] }): IBlockchainClient {
+  return {
+    getNetworkStatus: async () => ({
+      chain: CHAIN,
+      isHealthy: true,
+      latestBlock: chain.latestBlock,
+      blockTime: 2,
+    }),
+    monitorTokenTransfers: async () => chain.transfers,
+  } as unknown as IBlockchainClient;
+}
+
+function transfer(logIndex: number, amountUSDT: string, blockNumber: number): TokenTransfer {
+  return {
+    logIndex,
+    from: PAYER,
+    to: MERCHANT,
+    amount: String(Number(amountUSDT) * 1e6),
+    amountUSDT,
+    txHash: TX_HASH,
+    blockNumber,
+    blockHash: BLOCK_HASH,
+    timestamp: 1760000000,
+  };
+}
+
+describe('Transfer Recording', () => {
+  const confirmationsRequired = getConfirmationsRequired(CHAIN);
+
+  describe('BlockchainTransaction.fromTransfer', () => {
+    it('should count the transfer block itself as the first confirmation', () => {
+      const transaction = BlockchainTransaction.fromTransfer(
+        CHAIN, token.contractAddress, { ...transfer(0, '10', 100), blockTimestamp: null }, 109, confirmationsRequired
+      );
+
+      expect(transaction.confirmations).toBe(10);
+      expect(transaction.status).toBe(BlockchainTxStatus.PENDING);
+    });
+
+    it('should be CONFIRMED exactly at the required confirmations', () => {
+      const latestBlock = 100 + confirmationsRequired - 1;
+      const transaction = BlockchainTransaction.fromTransfer(
+        CHAIN, token.contractAddress, { ...transfer(0, '10', 100), blockTimestamp: null }, latestBlock, confirmationsRequired
+      );
+
+      expect(transaction.confirmations).toBe(confirmationsRequired);
+      expect(transaction.status).toBe(BlockchainTxStatus.CONFIRMED);
+    });
+
+    it('should have no confirmations while the node is behind the transfer block', () => {
+      const transaction = BlockchainTransaction.fromTransfer(
+        CHAIN, token.contractAddress, { ...transfer(0, '10', 100), blockTimestamp: null }, 99, confirmationsRequired
+      );
+
+      expect(transaction.confirmations).toBe(0);
+      expect(transaction.status).toBe(BlockchainTxStatus.PENDING);
+    });
+
+    it('should reject a negative log index', () => {
+      expect(() =>
+        BlockchainTransaction.fromTransfer(
+          CHAIN, token.contractAddress, { ...transfer(-1, '10', 100), blockTimestamp: null }, 100, confirmationsRequired
+        )
+      ).toThrow('BlockchainTransaction logIndex must be a non-negative integer');
+    });
+  });
+
+  describe('MonitorTransfersUseCase', () => {
+    it('should record every Transfer log of a multi-log transaction', async () => {
+      const { repository, rows } = createTransactionRepository();
+      const useCase = new MonitorTransfersUseCase(
+        createBlockchainClient({ latestBlock: 104, transfers: [transfer(3, '10', 100), transfer(4, '25', 100)] }),
+        repository,
+        { execute: async () => token } as unknown as ResolveTokenUseCase
+      );
+
+      const result = await useCase.execute(CHAIN, MERCHANT, 100, 104);
+
+      expect(result).toHaveLength(2);
+      expect(rows.map((row) => [row.txHash, row.logIndex, row.amountUSDT])).toEqual([
+        [TX_HASH, 3, '10'],
+        [TX_HASH, 4, '25'],
+      ]);
+      expect(rows.every((row) => row.confirmations === 5)).toBe(true);
+    });
+  });
+});
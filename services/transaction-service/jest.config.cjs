@@ -0,0 +1,43 @@
+/**
+ * Jest configuration for Transaction Service tests
+ */
+
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/tests'],
+  testMatch: ['**/*.test.ts'],
+  collectCoverageFrom: [
+    'src/**/*.ts',
+    '!src/**/*.d.ts',
+    '!src/index.ts',
+  ],
+  coverageDirectory: 'coverage',
+  coverageReporters: ['text', 'lcov', 'html'],
+  coverageThreshold: {
+    global: {
+      branches: 80,
+      functions: 80,
+      lines: 80,
+      statements: 80,
+    },
+  },
+  verbose: true,
+  forceExit: true,
+  clearMocks: true,
+  resetMocks: true,
+  restoreMocks: true,
+  // uuid only ships ES modules
+  transformIgnorePatterns: ['/node_modules/(?!uuid/)'],
+  transform: {
+    '^.+\\.[tj]s$': ['ts-jest', {
+      tsconfig: 'tsconfig.test.json',
+      isolatedModules: false,
+    }],
+  },
+  moduleNameMapper: {
+    '^@shield/shared/(.*)$': '<rootDir>/../../shared/$1',
+    '^(\\.{1,2}/(.*/)?config/env)(\\.js)?$': '<rootDir>/src/config/__mocks__/env.ts',
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+  },
+};
@@ -0,0 +1,164 @@
+/**
+ * Swagger/OpenAPI Configuration for Transaction Service
+ *
+ * Production-ready API documentation using OpenAPI 3.0 specification
+ *
+ * @module transaction-service/config/swagger
+ */
+
+import swaggerJsdoc from 'swagger-jsdoc';
+import { SwaggerDefinition } from 'swagger-jsdoc';
+
+const swaggerDefinition: SwaggerDefinition = {
+  openapi: '3.0.0',
+  info: {
+    title: 'Shield Transaction Service API',
+    version: '1.0.0',
+    description: `
+# Shield Transaction Service API v1
+
+Production-ready USDT off-ramp transaction service for EVM networks (Polygon, Ethereum, Arbitrum, Base, BSC) and Tron.
+
+## Features
+- Create off-ramp transactions from a user's registered wallet
+- Automatic USD conversion and service fee calculation
+- Transaction listing with chain/status filters and pagination
+- Enforced status lifecycle from deposit to USD wire, with a full status history (operator transitions need a service token; owners can cancel pending transactions)
+- Automatic matching of on-chain deposits, with under/over-payments flagged for review
+- Signed webhooks (deposit.pending, deposit.detected, deposit.confirmed, transaction.status_changed, wallet.created, deposit_address.status_changed)
+  with exponential-backoff retries, a delivery log, a dead-letter list and manual redelivery
+
+## Webhook Signatures
+Each webhook is a JSON POST with \`X-Shield-Event\`, \`X-Shield-Delivery\`, \`X-Shield-Timestamp\` and
+\`X-Shield-Signature\` headers. The signature is \`sha256=<hex HMAC-SHA256>\` of \`<timestamp>.<raw body>\`
+keyed with the endpoint secret; reject requests whose timestamp is more than 5 minutes old.
+
+## Authentication
+All endpoints require JWT authentication via Bearer token in the Authorization header.
+
+## API Versioning
+- Current version: **v1**
+- Future version: **v2** (will be implemented when breaking changes are needed)
+- To upgrade: Simply change \`/v1\` to \`/v2\` in your API requests
+    `,
+    contact: {
+      name: 'Shield Security, Inc.',
+      email: 'support@shield.com',
+    },
+  },
+  servers: [
+    {
+      url: 'http://localhost:3003/v1',
+      description: 'Development server (v1 API)',
+    },
+    {
+      url: 'https://api.shield.com/v1',
+      description: 'Production server (v1 API)',
+    },
+  ],
+  tags: [
+    {
+      name: 'Transactions',
+      description: 'Off-ramp transaction endpoints',
+    },
+    {
+      name: 'Webhooks',
+      description: 'Webhook endpoints, delivery log and redelivery',
+    },
+  ],
+  components: {
+    securitySchemes: {
+      bearerAuth: {
+        type: 'http',
+        scheme: 'bearer',
+        bearerFormat: 'JWT',
+      },
+    },
+    schemas: {
+      Transaction: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          userId: { type: 'string', format: 'uuid' },
+          walletId: { type: 'string', format: 'uuid' },
+          sourceAddress: { type: 'string', nullable: true },
+          chain: { type: 'string', enum: ['POLYGON', 'TRON', 'ETHEREUM', 'ARBITRUM', 'BASE', 'BSC'] },
+          txHash: { type: 'string', nullable: true },
+          fromAddress: { type: 'string', nullable: true },
+          toAddress: { type: 'string' },
+          amountUSDT: { type: 'string' },
+          amountUSD: { type: 'string' },
+          exchangeRate: { type: 'string' },
+          serviceFee: { type: 'string' },
+          netAmount: { type: 'string' },
+          status: {
+            type: 'string',
+            enum: [
+              'PENDING',
+              'PAYMENT_RECEIVED',
+              'VALIDATING',
+              'COMPLIANCE_CHECK',
+              'APPROVED',
+              'WIRE_SUBMITTED',
+              'WIRE_PROCESSED',
+              'FAILED',
+              'REJECTED',
+            ],
+          },
+          bankAccountName: { type: 'string', nullable: true },
+          bankAccountNumber: { type: 'string', nullable: true, description: 'Masked, last 4 digits only' },
+          notes: { type: 'string', nullable: true },
+        },
+      },
+      WebhookEndpoint: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          url: { type: 'string', format: 'uri' },
+          eventTypes: {
+            type: 'array',
+            items: {
+              type: 'string',
+              enum: ['deposit.pending', 'deposit.detected', 'deposit.confirmed', 'transaction.status_changed', 'wallet.created', 'deposit_address.status_changed'],
+            },
+          },
+          description: { type: 'string', nullable: true },
+          isActive: { type: 'boolean' },
+          secret: { type: 'string', description: 'Signing secret, only returned when the endpoint is created' },
+        },
+      },
+      WebhookDelivery: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          endpointId: { type: 'string', format: 'uuid' },
+          eventId: { type: 'string', format: 'uuid' },
+          eventType: { type: 'string' },
+          payload: { type: 'object' },
+          status: { type: 'string', enum: ['PENDING', 'SUCCEEDED', 'DEAD_LETTER'] },
+          attempts: { type: 'integer' },
+          lastStatusCode: { type: 'integer', nullable: true },
+          lastError: { type: 'string', nullable: true },
+          lastAttemptAt: { type: 'string', format: 'date-time', nullable: true },
+          nextAttemptAt: { type: 'string', format: 'date-time', nullable: true },
+          deliveredAt: { type: 'string', format: 'date-time', nullable: true },
+        },
+      },
+      ErrorResponse: {
+        type: 'object',
+        properties: {
+          success: { type: 'boolean', example: false },
+          error: { type: 'string' },
+          message: { type: 'string' },
+        },
+      },
+    },
+  },
+};
+
+const options = {
+  definition: swaggerDefinition,
+  apis: ['./src/routes.ts', './src/webhookRoutes.ts'],
+};
+
+export const swaggerSpec = swaggerJsdoc(options);
@@ -0,0 +1,140 @@
+/**
+ * Blockchain Service Client
+ *
+ * HTTP implementation of IBlockchainServiceClient backed by blockchain-service
+ *
+ * @module transaction-service/data/clients
+ */
+
+import axios from 'axios';
+import {
+  IBlockchainServiceClient,
+  IncomingTransfer,
+} from '../../domain/services/IBlockchainServiceClient';
+import { ChainType } from '@shield/shared/types';
+import { ExternalServiceError } from '@shield/shared/errors';
+import { generateServiceToken } from '@shield/shared/middleware';
+
+/**
+ * Blockchain Service Client
+ */
+export class BlockchainServiceClient implements IBlockchainServiceClient {
+  private get baseUrl(): string {
+    return process.env.BLOCKCHAIN_SERVICE_URL || 'http://localhost:3004';
+  }
+
+  /**
+   * Gets the latest block number of a chain
+   *
+   * @throws ExternalServiceError if blockchain-service is unavailable or fails
+   */
+  public async getLatestBlock(chain: ChainType, correlationId: string = ''): Promise<number> {
+    const data = await this.request<{ latestBlock?: number }>(
+      'get',
+      `/v1/blockchain/${chain}/status`,
+      undefined,
+      correlationId,
+      { chain }
+    );
+
+    if (typeof data.latestBlock !== 'number') {
+      throw new ExternalServiceError('blockchain-service', 'Unexpected network status response format', 502, {
+        chain,
+      });
+    }
+
+    return data.latestBlock;
+  }
+
+  /**
+   * Lists USDT transfers to an address within a block range (inclusive)
+   *
+   * @throws ExternalServiceError if blockchain-service is unavailable or fails
+   */
+  public async getIncomingTransfers(
+    chain: ChainType,
+    toAddress: string,
+    fromBlock: number,
+    toBlock: number,
+    correlationId: string = ''
+  ): Promise<IncomingTransfer[]> {
+    const data = await this.request<Array<Record<string, unknown>>>(
+      'post',
+      `/v1/blockchain/${chain}/monitor`,
+      { toAddress, fromBlock, toBlock },
+      correlationId,
+      { chain, toAddress, fromBlock, toBlock }
+    );
+
+    if (!Array.isArray(data)) {
+      throw new ExternalServiceError('blockchain-service', 'Unexpected transfers response format', 502, {
+        chain,
+        toAddress,
+      });
+    }
+
+    return data.map((transfer) => ({
+      txHash: String(transfer.txHash),
+      from: String(transfer.from),
+      to: String(transfer.to),
+      amountUSDT: String(transfer.amountUSDT),
+      blockNumber: Number(transfer.blockNumber),
+      confirmed: transfer.status === 'CONFIRMED',
+    }));
+  }
+
+  /**
+   * Performs an authenticated request and unwraps the `data` envelope
+   */
+  private async request<T>(
+    method: 'get' | 'post',
+    path: string,
+    body: unknown,
+    correlationId: string,
+    context: Record<string, unknown>
+  ): Promise<T> {
+    try {
+      const response = await axios.request({
+        method,
+        url: `${this.baseUrl}${path}`,
+        data: body,
+        timeout: 30000, // 30 second timeout (block scans can be slow on Tron)
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${generateServiceToken('transaction-service')}`,
+          'X-Correlation-ID': correlationId,
+        },
+      });
+
+      if (!response.data?.success) {
+        throw new ExternalServiceError('blockchain-service', 'Unexpected response format', 502, context);
+      }
+
+      return response.data.data as T;
+    } catch (error: unknown) {
+      if (error instanceof ExternalServiceError) {
+        throw error;
+      }
+
+      if (axios.isAxiosError(error)) {
+        if (error.code === 'ECONNREFUSED' || error.code === 'ETIMEDOUT' || !error.response) {
+          throw new ExternalServiceError(
+            'blockchain-service',
+            'Blockchain service is currently unavailable. Please try again later.',
+            503,
+            { ...context, error: error.message }
+          );
+        }
+
+        throw new ExternalServiceError(
+          'blockchain-service',
+          error.response.data?.message || error.message,
+          502,
+          { ...context, statusCode: error.response.status }
+        );
+      }
+
+      throw new ExternalServiceError('blockchain-service', (error as Error).message, 502, context);
+    }
+  }
+}
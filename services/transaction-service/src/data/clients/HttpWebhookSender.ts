@@ -0,0 +1,96 @@
+/**
+ * HTTP Webhook Sender
+ *
+ * HTTP implementation of IWebhookSender. Each attempt is signed with a fresh
+ * timestamp: X-Shield-Signature is `sha256=<hex HMAC-SHA256>` of
+ * `<X-Shield-Timestamp>.<raw body>` keyed with the endpoint secret.
+ * Hosts resolving to private addresses are refused on every attempt, and
+ * the connection uses the address that was checked.
+ *
+ * @module transaction-service/data/clients
+ */
+
+import http from 'http';
+import https from 'https';
+import axios from 'axios';
+import { WebhookEndpoint } from '../../domain/entities/WebhookEndpoint';
+import { WebhookDelivery } from '../../domain/entities/WebhookDelivery';
+import { IWebhookSender, WebhookSendResult } from '../../domain/services/IWebhookSender';
+import {
+  assertPublicWebhookUrl,
+  decrypt,
+  publicAddressLookup,
+  signWebhookPayload,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from '@shield/shared/security';
+
+/**
+ * Longest error message kept in the delivery log
+ */
+const MAX_ERROR_LENGTH = 500;
+
+/**
+ * Agents that only connect to public addresses
+ */
+const httpAgent = new http.Agent({ lookup: publicAddressLookup });
+const httpsAgent = new https.Agent({ lookup: publicAddressLookup });
+
+/**
+ * HTTP Webhook Sender
+ */
+export class HttpWebhookSender implements IWebhookSender {
+  private get timeoutMs(): number {
+    const value = parseInt(process.env.WEBHOOK_TIMEOUT_MS || '10000', 10);
+    return Number.isInteger(value) && value > 0 ? value : 10000;
+  }
+
+  /**
+   * Signs and POSTs the delivery payload to the endpoint
+   */
+  public async send(endpoint: WebhookEndpoint, delivery: WebhookDelivery): Promise<WebhookSendResult> {
+    try {
+      // IP literals never go through the agents' lookup
+      await assertPublicWebhookUrl(endpoint.url);
+
+      const body = JSON.stringify(delivery.payload);
+      const timestamp = Math.floor(Date.now() / 1000);
+      const signature = signWebhookPayload(decrypt(endpoint.encryptedSecret), timestamp, body);
+
+      const response = await axios.post(endpoint.url, body, {
+        timeout: this.timeoutMs,
+        // Redirects could forward the signed payload to another host
+        maxRedirects: 0,
+        httpAgent,
+        httpsAgent,
+        // Every status is reported to the caller instead of thrown
+        validateStatus: () => true,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Shield-Webhooks/1.0',
+          'X-Shield-Event': delivery.eventType,
+          'X-Shield-Delivery': delivery.id,
+          [WEBHOOK_TIMESTAMP_HEADER]: String(timestamp),
+          [WEBHOOK_SIGNATURE_HEADER]: signature,
+        },
+      });
+
+      const success = response.status >= 200 && response.status < 300;
+      return {
+        success,
+        statusCode: response.status,
+        error: success ? undefined : `Endpoint responded with HTTP ${response.status}`,
+      };
+    } catch (error: unknown) {
+      const message = axios.isAxiosError(error)
+        ? `${error.code ?? 'REQUEST_FAILED'}: ${error.message}`
+        : (error as Error).message;
+
+      return {
+        success: false,
+        statusCode: null,
+        error: message.slice(0, MAX_ERROR_LENGTH),
+      };
+    }
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Wallet Service Client
+ *
+ * HTTP implementation of IWalletServiceClient backed by wallet-service
+ *
+ * @module transaction-service/data/clients
+ */
+
+import axios from 'axios';
+import {
+  IWalletServiceClient,
+  WalletSummary,
+} from '../../domain/services/IWalletServiceClient';
+import { AuthorizationError, ExternalServiceError } from '@shield/shared/errors';
+
+/**
+ * Wallet Service Client
+ */
+export class WalletServiceClient implements IWalletServiceClient {
+  private get baseUrl(): string {
+    return process.env.WALLET_SERVICE_URL || 'http://localhost:3002';
+  }
+
+  /**
+   * Fetches a wallet by ID, forwarding the caller's access token
+   *
+   * @returns The wallet, or null if it does not exist or belongs to another user
+   * @throws AuthorizationError if wallet-service rejects the token
+   * @throws ExternalServiceError if wallet-service is unavailable or fails
+   */
+  public async getWallet(
+    walletId: string,
+    accessToken: string,
+    correlationId: string = ''
+  ): Promise<WalletSummary | null> {
+    try {
+      const response = await axios.get(`${this.baseUrl}/v1/wallets/${walletId}`, {
+        timeout: 10000, // 10 second timeout
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${accessToken}`,
+          'X-Correlation-ID': correlationId,
+        },
+      });
+
+      const wallet = response.data?.data;
+      if (!response.data?.success || !wallet) {
+        throw new ExternalServiceError('wallet-service', 'Unexpected wallet response format', 502, {
+          walletId,
+        });
+      }
+
+      return {
+        id: wallet.id,
+        userId: wallet.userId,
+        chain: wallet.chain,
+        address: wallet.address,
+        isActive: wallet.isActive,
+      };
+    } catch (error: unknown) {
+      if (error instanceof ExternalServiceError) {
+        throw error;
+      }
+
+      if (axios.isAxiosError(error)) {
+        // Missing wallet and foreign wallet look the same from here
+        if (error.response?.status === 404) {
+          return null;
+        }
+
+        if (error.response?.status === 401 || error.response?.status === 403) {
+          throw new AuthorizationError('Wallet service rejected the access token', {
+            walletId,
+            service: 'wallet-service',
+          });
+        }
+
+        if (error.code === 'ECONNREFUSED' || error.code === 'ETIMEDOUT' || !error.response) {
+          throw new ExternalServiceError(
+            'wallet-service',
+            'Wallet service is currently unavailable. Please try again later.',
+            503,
+            { walletId, error: error.message }
+          );
+        }
+
+        throw new ExternalServiceError(
+          'wallet-service',
+          error.response.data?.message || error.message,
+          502,
+          { walletId, statusCode: error.response.status }
+        );
+      }
+
+      throw new ExternalServiceError('wallet-service', (error as Error).message, 502, {
+        walletId,
+      });
+    }
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * Deposit Matcher Checkpoint Repository Implementation
+ *
+ * Prisma-based implementation of IDepositMatcherCheckpointRepository
+ *
+ * @module transaction-service/data/repositories
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { IDepositMatcherCheckpointRepository } from '../../domain/repositories/IDepositMatcherCheckpointRepository';
+import { ChainType } from '@shield/shared/types';
+import { DatabaseConnection } from '@shield/shared/database/DatabaseConnection';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Deposit Matcher Checkpoint Repository Implementation
+ */
+export class DepositMatcherCheckpointRepository implements IDepositMatcherCheckpointRepository {
+  private get prisma(): PrismaClient {
+    return DatabaseConnection.getInstance().getClient();
+  }
+
+  /**
+   * Gets the last block matched on a chain (null before the first run)
+   */
+  public async findLastScannedBlock(chain: ChainType): Promise<number | null> {
+    const checkpoint = await this.prisma.depositMatcherCheckpoint.findUnique({
+      where: { chain },
+    });
+
+    return isNotNull(checkpoint) ? Number(checkpoint.lastScannedBlock) : null;
+  }
+
+  /**
+   * Records the last block matched on a chain
+   */
+  public async saveLastScannedBlock(chain: ChainType, blockNumber: number): Promise<void> {
+    await this.prisma.depositMatcherCheckpoint.upsert({
+      where: { chain },
+      create: { chain, lastScannedBlock: BigInt(blockNumber) },
+      update: { lastScannedBlock: BigInt(blockNumber) },
+    });
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Held Webhook Event Repository Implementation
+ *
+ * Prisma-based implementation of IHeldWebhookEventRepository
+ *
+ * @module transaction-service/data/repositories
+ */
+
+import { Prisma, PrismaClient, HeldWebhookEvent as HeldWebhookEventData } from '@prisma/client';
+import {
+  HeldWebhookEvent,
+  IHeldWebhookEventRepository,
+} from '../../domain/repositories/IHeldWebhookEventRepository';
+import { WebhookEventType } from '@shield/shared/types';
+import { DatabaseConnection } from '@shield/shared/database/DatabaseConnection';
+
+/**
+ * Held Webhook Event Repository Implementation
+ */
+export class HeldWebhookEventRepository implements IHeldWebhookEventRepository {
+  private get prisma(): PrismaClient {
+    return DatabaseConnection.getInstance().getClient();
+  }
+
+  /**
+   * Holds an event until a transaction is linked to its hash
+   */
+  public async hold(
+    type: WebhookEventType,
+    txHash: string,
+    data: Record<string, unknown>
+  ): Promise<HeldWebhookEvent> {
+    const eventData = await this.prisma.heldWebhookEvent.create({
+      data: { eventType: type, txHash, data: data as Prisma.InputJsonObject },
+    });
+
+    return this.toDomain(eventData);
+  }
+
+  /**
+   * Finds the events held for a transaction hash, oldest first
+   */
+  public async findByTxHash(txHash: string): Promise<HeldWebhookEvent[]> {
+    const eventsData = await this.prisma.heldWebhookEvent.findMany({
+      where: { txHash },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return eventsData.map((eventData) => this.toDomain(eventData));
+  }
+
+  /**
+   * Removes a held event once it was published (no-op if already removed)
+   */
+  public async delete(id: string): Promise<void> {
+    await this.prisma.heldWebhookEvent.deleteMany({
+      where: { id },
+    });
+  }
+
+  /**
+   * Removes the events held since before a date
+   */
+  public async deleteHeldBefore(before: Date): Promise<number> {
+    const { count } = await this.prisma.heldWebhookEvent.deleteMany({
+      where: { createdAt: { lt: before } },
+    });
+
+    return count;
+  }
+
+  /**
+   * Maps a Prisma row to the held event
+   */
+  private toDomain(eventData: HeldWebhookEventData): HeldWebhookEvent {
+    return {
+      id: eventData.id,
+      type: eventData.eventType as WebhookEventType,
+      txHash: eventData.txHash,
+      data: eventData.data as Record<string, unknown>,
+      createdAt: eventData.createdAt,
+    };
+  }
+}
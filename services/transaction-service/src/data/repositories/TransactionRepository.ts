@@ -0,0 +1,232 @@
+/**
+ * Transaction Repository Implementation
+ *
+ * Prisma-based implementation of ITransactionRepository
+ *
+ * @module transaction-service/data/repositories
+ */
+
+import { PrismaClient, Transaction as TransactionData } from '@prisma/client';
+import { Transaction } from '../../domain/entities/Transaction';
+import { TransactionStatusHistory } from '../../domain/entities/TransactionStatusHistory';
+import {
+  ITransactionRepository,
+  TransactionFilters,
+  PaginationOptions,
+} from '../../domain/repositories/ITransactionRepository';
+import { ChainType, TransactionStatus } from '@shield/shared/types';
+import { DatabaseConnection } from '@shield/shared/database/DatabaseConnection';
+import { ConflictError } from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Transaction Repository Implementation
+ */
+export class TransactionRepository implements ITransactionRepository {
+  private get prisma(): PrismaClient {
+    return DatabaseConnection.getInstance().getClient();
+  }
+
+  /**
+   * Finds a transaction by ID
+   */
+  public async findById(id: string): Promise<Transaction | null> {
+    const transactionData = await this.prisma.transaction.findUnique({
+      where: { id },
+    });
+
+    return isNotNull(transactionData) ? this.toDomain(transactionData) : null;
+  }
+
+  /**
+   * Finds a transaction by ID and user ID (ensures ownership)
+   */
+  public async findByIdAndUserId(id: string, userId: string): Promise<Transaction | null> {
+    const transactionData = await this.prisma.transaction.findFirst({
+      where: {
+        id,
+        userId,
+      },
+    });
+
+    return isNotNull(transactionData) ? this.toDomain(transactionData) : null;
+  }
+
+  /**
+   * Finds a page of transactions for a user, newest first
+   */
+  public async findByUserId(
+    userId: string,
+    filters: TransactionFilters,
+    pagination: PaginationOptions
+  ): Promise<Transaction[]> {
+    const transactionsData = await this.prisma.transaction.findMany({
+      where: this.buildWhere(userId, filters),
+      orderBy: { createdAt: 'desc' },
+      take: pagination.limit,
+      skip: pagination.offset,
+    });
+
+    return transactionsData.map((transactionData) => this.toDomain(transactionData));
+  }
+
+  /**
+   * Counts transactions for a user matching the filters
+   */
+  public async countByUserId(userId: string, filters: TransactionFilters): Promise<number> {
+    return this.prisma.transaction.count({
+      where: this.buildWhere(userId, filters),
+    });
+  }
+
+  /**
+   * Finds a transaction by its on-chain hash
+   */
+  public async findByTxHash(txHash: string): Promise<Transaction | null> {
+    const transactionData = await this.prisma.transaction.findUnique({
+      where: { txHash },
+    });
+
+    return isNotNull(transactionData) ? this.toDomain(transactionData) : null;
+  }
+
+  /**
+   * Finds PENDING transactions on a chain that have no deposit linked yet, oldest first
+   */
+  public async findAwaitingDeposit(chain: ChainType): Promise<Transaction[]> {
+    const transactionsData = await this.prisma.transaction.findMany({
+      where: {
+        chain,
+        status: TransactionStatus.PENDING,
+        txHash: null,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return transactionsData.map((transactionData) => this.toDomain(transactionData));
+  }
+
+  /**
+   * Saves a new transaction together with its initial status history row
+   */
+  public async save(
+    transaction: Transaction,
+    initialHistory: TransactionStatusHistory
+  ): Promise<Transaction> {
+    const transactionData = await DatabaseConnection.getInstance().transaction(async (tx) => {
+      const created = await tx.transaction.create({
+        data: transaction.toPersistence(),
+      });
+
+      await tx.transactionStatusHistory.create({
+        data: initialHistory.toPlainObject(),
+      });
+
+      return created;
+    });
+
+    return this.toDomain(transactionData);
+  }
+
+  /**
+   * Persists a status transition and its history row atomically
+   */
+  public async updateStatus(
+    transaction: Transaction,
+    history: TransactionStatusHistory
+  ): Promise<Transaction> {
+    const transactionData = await DatabaseConnection.getInstance().transaction(async (tx) => {
+      // Compare-and-set on the previous status so concurrent transitions cannot both apply
+      const { count } = await tx.transaction.updateMany({
+        where: {
+          id: transaction.id,
+          status: history.fromStatus ?? undefined,
+        },
+        data: {
+          status: transaction.status,
+          txHash: transaction.txHash,
+          fromAddress: transaction.fromAddress,
+          amountReceivedUSDT: transaction.amountReceivedUSDT,
+          bankWireReference: transaction.bankWireReference,
+          complianceCheckId: transaction.complianceCheckId,
+          complianceStatus: transaction.complianceStatus,
+          requiresReview: transaction.requiresReview,
+          reviewReason: transaction.reviewReason,
+          notes: transaction.notes,
+          updatedAt: transaction.updatedAt,
+        },
+      });
+
+      if (count === 0) {
+        throw new ConflictError('Transaction status was changed by another request. Please retry.', {
+          transactionId: transaction.id,
+          expectedStatus: history.fromStatus,
+        });
+      }
+
+      await tx.transactionStatusHistory.create({
+        data: history.toPlainObject(),
+      });
+
+      return tx.transaction.findUniqueOrThrow({
+        where: { id: transaction.id },
+      });
+    });
+
+    return this.toDomain(transactionData);
+  }
+
+  /**
+   * Builds the Prisma where clause for user-scoped queries
+   */
+  private buildWhere(
+    userId: string,
+    filters: TransactionFilters
+  ): { userId: string; chain?: ChainType; status?: TransactionStatus } {
+    const where: { userId: string; chain?: ChainType; status?: TransactionStatus } = { userId };
+
+    if (isNotNull(filters.chain)) {
+      where.chain = filters.chain;
+    }
+
+    if (isNotNull(filters.status)) {
+      where.status = filters.status;
+    }
+
+    return where;
+  }
+
+  /**
+   * Maps a Prisma row to the domain entity (Decimal columns become strings)
+   */
+  private toDomain(transactionData: TransactionData): Transaction {
+    return Transaction.fromPersistence({
+      id: transactionData.id,
+      userId: transactionData.userId,
+      walletId: transactionData.walletId,
+      sourceAddress: transactionData.sourceAddress,
+      chain: transactionData.chain as ChainType,
+      txHash: transactionData.txHash,
+      fromAddress: transactionData.fromAddress,
+      toAddress: transactionData.toAddress,
+      amountUSDT: transactionData.amountUSDT.toString(),
+      amountReceivedUSDT: transactionData.amountReceivedUSDT?.toString() ?? null,
+      amountUSD: transactionData.amountUSD.toString(),
+      exchangeRate: transactionData.exchangeRate.toString(),
+      serviceFee: transactionData.serviceFee.toString(),
+      netAmount: transactionData.netAmount.toString(),
+      status: transactionData.status as TransactionStatus,
+      bankAccountName: transactionData.bankAccountName,
+      bankAccountNumber: transactionData.bankAccountNumber,
+      bankRoutingNumber: transactionData.bankRoutingNumber,
+      bankWireReference: transactionData.bankWireReference,
+      complianceCheckId: transactionData.complianceCheckId,
+      complianceStatus: transactionData.complianceStatus,
+      requiresReview: transactionData.requiresReview,
+      reviewReason: transactionData.reviewReason,
+      notes: transactionData.notes,
+      createdAt: transactionData.createdAt,
+      updatedAt: transactionData.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * Transaction Status History Repository Implementation
+ *
+ * Prisma-based implementation of ITransactionStatusHistoryRepository
+ *
+ * @module transaction-service/data/repositories
+ */
+
+import { PrismaClient } from '@prisma/client';
+import { TransactionStatusHistory } from '../../domain/entities/TransactionStatusHistory';
+import { ITransactionStatusHistoryRepository } from '../../domain/repositories/ITransactionStatusHistoryRepository';
+import { TransactionStatus } from '@shield/shared/types';
+import { DatabaseConnection } from '@shield/shared/database/DatabaseConnection';
+
+/**
+ * Transaction Status History Repository Implementation
+ */
+export class TransactionStatusHistoryRepository implements ITransactionStatusHistoryRepository {
+  private get prisma(): PrismaClient {
+    return DatabaseConnection.getInstance().getClient();
+  }
+
+  /**
+   * Finds all transitions of a transaction, oldest first
+   */
+  public async findByTransactionId(transactionId: string): Promise<TransactionStatusHistory[]> {
+    const historyData = await this.prisma.transactionStatusHistory.findMany({
+      where: { transactionId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return historyData.map((entry) =>
+      TransactionStatusHistory.fromPersistence({
+        id: entry.id,
+        transactionId: entry.transactionId,
+        fromStatus: entry.fromStatus as TransactionStatus | null,
+        toStatus: entry.toStatus as TransactionStatus,
+        actor: entry.actor,
+        reason: entry.reason,
+        notes: entry.notes,
+        createdAt: entry.createdAt,
+      })
+    );
+  }
+}
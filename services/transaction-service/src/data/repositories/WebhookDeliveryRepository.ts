@@ -0,0 +1,160 @@
+/**
+ * Webhook Delivery Repository Implementation
+ *
+ * Prisma-based implementation of IWebhookDeliveryRepository
+ *
+ * @module transaction-service/data/repositories
+ */
+
+import { Prisma, PrismaClient, WebhookDelivery as WebhookDeliveryData } from '@prisma/client';
+import {
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookPayload,
+} from '../../domain/entities/WebhookDelivery';
+import {
+  IWebhookDeliveryRepository,
+  WebhookDeliveryFilters,
+} from '../../domain/repositories/IWebhookDeliveryRepository';
+import { PaginationOptions } from '../../domain/repositories/ITransactionRepository';
+import { WebhookEventType } from '@shield/shared/types';
+import { DatabaseConnection } from '@shield/shared/database/DatabaseConnection';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Webhook Delivery Repository Implementation
+ */
+export class WebhookDeliveryRepository implements IWebhookDeliveryRepository {
+  private get prisma(): PrismaClient {
+    return DatabaseConnection.getInstance().getClient();
+  }
+
+  /**
+   * Finds a delivery by ID
+   */
+  public async findById(id: string): Promise<WebhookDelivery | null> {
+    const deliveryData = await this.prisma.webhookDelivery.findUnique({
+      where: { id },
+    });
+
+    return isNotNull(deliveryData) ? this.toDomain(deliveryData) : null;
+  }
+
+  /**
+   * Finds a page of deliveries to the endpoints of a user, newest first
+   */
+  public async findByUserId(
+    userId: string,
+    filters: WebhookDeliveryFilters,
+    pagination: PaginationOptions
+  ): Promise<WebhookDelivery[]> {
+    const deliveriesData = await this.prisma.webhookDelivery.findMany({
+      where: this.buildWhere(userId, filters),
+      orderBy: { createdAt: 'desc' },
+      take: pagination.limit,
+      skip: pagination.offset,
+    });
+
+    return deliveriesData.map((deliveryData) => this.toDomain(deliveryData));
+  }
+
+  /**
+   * Counts deliveries to the endpoints of a user matching the filters
+   */
+  public async countByUserId(userId: string, filters: WebhookDeliveryFilters): Promise<number> {
+    return this.prisma.webhookDelivery.count({
+      where: this.buildWhere(userId, filters),
+    });
+  }
+
+  /**
+   * Finds PENDING deliveries to active endpoints whose next attempt was due before the given time
+   *
+   * Deliveries created before next attempts were recorded have none; they are due once created before that time.
+   */
+  public async findDue(before: Date, limit: number): Promise<WebhookDelivery[]> {
+    const deliveriesData = await this.prisma.webhookDelivery.findMany({
+      where: {
+        status: WebhookDeliveryStatus.PENDING,
+        OR: [{ nextAttemptAt: { lte: before } }, { nextAttemptAt: null, createdAt: { lte: before } }],
+        endpoint: { isActive: true },
+      },
+      orderBy: { nextAttemptAt: { sort: 'asc', nulls: 'first' } },
+      take: limit,
+    });
+
+    return deliveriesData.map((deliveryData) => this.toDomain(deliveryData));
+  }
+
+  /**
+   * Saves new deliveries
+   */
+  public async saveMany(deliveries: WebhookDelivery[]): Promise<void> {
+    await this.prisma.webhookDelivery.createMany({
+      data: deliveries.map((delivery) => ({
+        ...delivery.toPlainObject(),
+        payload: delivery.payload as unknown as Prisma.InputJsonObject,
+      })),
+    });
+  }
+
+  /**
+   * Persists the outcome of an attempt
+   */
+  public async update(delivery: WebhookDelivery): Promise<WebhookDelivery> {
+    const deliveryData = await this.prisma.webhookDelivery.update({
+      where: { id: delivery.id },
+      data: {
+        status: delivery.status,
+        attempts: delivery.attempts,
+        lastStatusCode: delivery.lastStatusCode,
+        lastError: delivery.lastError,
+        lastAttemptAt: delivery.lastAttemptAt,
+        nextAttemptAt: delivery.nextAttemptAt,
+        deliveredAt: delivery.deliveredAt,
+        updatedAt: delivery.updatedAt,
+      },
+    });
+
+    return this.toDomain(deliveryData);
+  }
+
+  /**
+   * Builds the Prisma where clause for user-scoped queries
+   */
+  private buildWhere(userId: string, filters: WebhookDeliveryFilters): Prisma.WebhookDeliveryWhereInput {
+    const where: Prisma.WebhookDeliveryWhereInput = { endpoint: { userId } };
+
+    if (isNotNull(filters.endpointId)) {
+      where.endpointId = filters.endpointId;
+    }
+
+    if (isNotNull(filters.status)) {
+      where.status = filters.status;
+    }
+
+    return where;
+  }
+
+  /**
+   * Maps a Prisma row to the domain entity
+   */
+  private toDomain(deliveryData: WebhookDeliveryData): WebhookDelivery {
+    return WebhookDelivery.fromPersistence({
+      id: deliveryData.id,
+      endpointId: deliveryData.endpointId,
+      eventId: deliveryData.eventId,
+      eventType: deliveryData.eventType as WebhookEventType,
+      payload: deliveryData.payload as unknown as WebhookPayload,
+      status: deliveryData.status as WebhookDeliveryStatus,
+      attempts: deliveryData.attempts,
+      lastStatusCode: deliveryData.lastStatusCode,
+      lastError: deliveryData.lastError,
+      lastAttemptAt: deliveryData.lastAttemptAt,
+      nextAttemptAt: deliveryData.nextAttemptAt,
+      deliveredAt: deliveryData.deliveredAt,
+      createdAt: deliveryData.createdAt,
+      updatedAt: deliveryData.updatedAt,
+    });
+  }
+}
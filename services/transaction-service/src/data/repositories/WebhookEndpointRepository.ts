@@ -0,0 +1,125 @@
+/**
+ * Webhook Endpoint Repository Implementation
+ *
+ * Prisma-based implementation of IWebhookEndpointRepository
+ *
+ * @module transaction-service/data/repositories
+ */
+
+import { Prisma, PrismaClient, WebhookEndpoint as WebhookEndpointData } from '@prisma/client';
+import { WebhookEndpoint } from '../../domain/entities/WebhookEndpoint';
+import { IWebhookEndpointRepository } from '../../domain/repositories/IWebhookEndpointRepository';
+import { WebhookEventType } from '@shield/shared/types';
+import { EncryptedData } from '@shield/shared/security';
+import { DatabaseConnection } from '@shield/shared/database/DatabaseConnection';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Webhook Endpoint Repository Implementation
+ */
+export class WebhookEndpointRepository implements IWebhookEndpointRepository {
+  private get prisma(): PrismaClient {
+    return DatabaseConnection.getInstance().getClient();
+  }
+
+  /**
+   * Finds an endpoint by ID
+   */
+  public async findById(id: string): Promise<WebhookEndpoint | null> {
+    const endpointData = await this.prisma.webhookEndpoint.findUnique({
+      where: { id },
+    });
+
+    return isNotNull(endpointData) ? this.toDomain(endpointData) : null;
+  }
+
+  /**
+   * Finds an endpoint by ID and user ID (ensures ownership)
+   */
+  public async findByIdAndUserId(id: string, userId: string): Promise<WebhookEndpoint | null> {
+    const endpointData = await this.prisma.webhookEndpoint.findFirst({
+      where: {
+        id,
+        userId,
+      },
+    });
+
+    return isNotNull(endpointData) ? this.toDomain(endpointData) : null;
+  }
+
+  /**
+   * Finds the active endpoints of a user, newest first
+   */
+  public async findActiveByUserId(userId: string): Promise<WebhookEndpoint[]> {
+    const endpointsData = await this.prisma.webhookEndpoint.findMany({
+      where: { userId, isActive: true },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return endpointsData.map((endpointData) => this.toDomain(endpointData));
+  }
+
+  /**
+   * Finds the active endpoints of a user subscribed to an event type
+   */
+  public async findSubscribed(userId: string, eventType: WebhookEventType): Promise<WebhookEndpoint[]> {
+    const endpointsData = await this.prisma.webhookEndpoint.findMany({
+      where: {
+        userId,
+        isActive: true,
+        eventTypes: { has: eventType },
+      },
+    });
+
+    return endpointsData.map((endpointData) => this.toDomain(endpointData));
+  }
+
+  /**
+   * Saves a new endpoint
+   */
+  public async save(endpoint: WebhookEndpoint): Promise<WebhookEndpoint> {
+    const endpointData = await this.prisma.webhookEndpoint.create({
+      data: {
+        ...endpoint.toPlainObject(),
+        secret: endpoint.encryptedSecret as unknown as Prisma.InputJsonObject,
+      },
+    });
+
+    return this.toDomain(endpointData);
+  }
+
+  /**
+   * Updates an existing endpoint
+   */
+  public async update(endpoint: WebhookEndpoint): Promise<WebhookEndpoint> {
+    const endpointData = await this.prisma.webhookEndpoint.update({
+      where: { id: endpoint.id },
+      data: {
+        url: endpoint.url,
+        eventTypes: endpoint.eventTypes,
+        description: endpoint.description,
+        isActive: endpoint.isActive,
+        updatedAt: endpoint.updatedAt,
+      },
+    });
+
+    return this.toDomain(endpointData);
+  }
+
+  /**
+   * Maps a Prisma row to the domain entity
+   */
+  private toDomain(endpointData: WebhookEndpointData): WebhookEndpoint {
+    return WebhookEndpoint.fromPersistence({
+      id: endpointData.id,
+      userId: endpointData.userId,
+      url: endpointData.url,
+      encryptedSecret: endpointData.secret as unknown as EncryptedData,
+      eventTypes: endpointData.eventTypes as WebhookEventType[],
+      description: endpointData.description,
+      isActive: endpointData.isActive,
+      createdAt: endpointData.createdAt,
+      updatedAt: endpointData.updatedAt,
+    });
+  }
+}
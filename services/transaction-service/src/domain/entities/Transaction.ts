@@ -0,0 +1,333 @@
+/**
+ * Transaction Domain Entity
+ *
+ * Represents a USDT off-ramp transaction in the domain layer
+ *
+ * @module transaction-service/domain/entities
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ChainType, TransactionStatus, isEvmChain } from '@shield/shared/types';
+import { isNotNull, isNonEmptyString, isValidUUID } from '@shield/shared/utils/guards';
+import { isValidEthereumAddress, isValidTronAddress } from '@shield/shared/utils';
+import { TransactionStatusMachine } from '../valueObjects/TransactionStatusMachine';
+
+/**
+ * Persisted shape of a transaction
+ */
+export interface TransactionData {
+  id: string;
+  userId: string;
+  walletId: string;
+  sourceAddress: string | null;
+  chain: ChainType;
+  txHash: string | null;
+  fromAddress: string | null;
+  toAddress: string;
+  amountUSDT: string;
+  amountReceivedUSDT: string | null;
+  amountUSD: string;
+  exchangeRate: string;
+  serviceFee: string;
+  netAmount: string;
+  status: TransactionStatus;
+  bankAccountName: string | null;
+  bankAccountNumber: string | null;
+  bankRoutingNumber: string | null;
+  bankWireReference: string | null;
+  complianceCheckId: string | null;
+  complianceStatus: string | null;
+  requiresReview: boolean;
+  reviewReason: string | null;
+  notes: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Transaction domain entity
+ */
+export class Transaction {
+  private constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly walletId: string,
+    // Address of the wallet the deposit must come from (null on transactions created before it was recorded)
+    public readonly sourceAddress: string | null,
+    public readonly chain: ChainType,
+    // Blockchain details (txHash/fromAddress are filled once the deposit is detected)
+    public readonly txHash: string | null,
+    public readonly fromAddress: string | null,
+    public readonly toAddress: string,
+    public readonly amountUSDT: string,
+    public readonly amountReceivedUSDT: string | null,
+    // Fiat conversion
+    public readonly amountUSD: string,
+    public readonly exchangeRate: string,
+    public readonly serviceFee: string,
+    public readonly netAmount: string,
+    public readonly status: TransactionStatus,
+    // Bank details
+    public readonly bankAccountName: string | null,
+    public readonly bankAccountNumber: string | null,
+    public readonly bankRoutingNumber: string | null,
+    public readonly bankWireReference: string | null,
+    // Compliance
+    public readonly complianceCheckId: string | null,
+    public readonly complianceStatus: string | null,
+    // Manual review (e.g. deposit amount did not match)
+    public readonly requiresReview: boolean,
+    public readonly reviewReason: string | null,
+    public readonly notes: string | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {
+    this.validate();
+  }
+
+  /**
+   * Creates a new PENDING transaction awaiting the user's USDT deposit
+   */
+  public static create(data: {
+    userId: string;
+    walletId: string;
+    sourceAddress: string;
+    chain: ChainType;
+    toAddress: string;
+    amountUSDT: string;
+    amountUSD: string;
+    exchangeRate: string;
+    serviceFee: string;
+    netAmount: string;
+    bankAccountName: string;
+    bankAccountNumber: string;
+    bankRoutingNumber?: string | null;
+  }): Transaction {
+    const now = new Date();
+
+    return Transaction.fromPersistence({
+      id: uuidv4(),
+      userId: data.userId,
+      walletId: data.walletId,
+      sourceAddress: data.sourceAddress,
+      chain: data.chain,
+      txHash: null,
+      fromAddress: null,
+      toAddress: data.toAddress,
+      amountUSDT: data.amountUSDT,
+      amountReceivedUSDT: null,
+      amountUSD: data.amountUSD,
+      exchangeRate: data.exchangeRate,
+      serviceFee: data.serviceFee,
+      netAmount: data.netAmount,
+      status: TransactionStatus.PENDING,
+      bankAccountName: data.bankAccountName,
+      bankAccountNumber: data.bankAccountNumber,
+      bankRoutingNumber: data.bankRoutingNumber ?? null,
+      bankWireReference: null,
+      complianceCheckId: null,
+      complianceStatus: null,
+      requiresReview: false,
+      reviewReason: null,
+      notes: null,
+      createdAt: now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Reconstructs Transaction from persistence layer
+   */
+  public static fromPersistence(data: TransactionData): Transaction {
+    return new Transaction(
+      data.id,
+      data.userId,
+      data.walletId,
+      data.sourceAddress,
+      data.chain,
+      data.txHash,
+      data.fromAddress,
+      data.toAddress,
+      data.amountUSDT,
+      data.amountReceivedUSDT,
+      data.amountUSD,
+      data.exchangeRate,
+      data.serviceFee,
+      data.netAmount,
+      data.status,
+      data.bankAccountName,
+      data.bankAccountNumber,
+      data.bankRoutingNumber,
+      data.bankWireReference,
+      data.complianceCheckId,
+      data.complianceStatus,
+      data.requiresReview,
+      data.reviewReason,
+      data.notes,
+      data.createdAt,
+      data.updatedAt
+    );
+  }
+
+  /**
+   * Validates transaction entity invariants
+   */
+  private validate(): void {
+    if (!isValidUUID(this.id)) {
+      throw new Error('Transaction ID must be a valid UUID');
+    }
+
+    if (!isValidUUID(this.userId)) {
+      throw new Error('Transaction userId must be a valid UUID');
+    }
+
+    if (!isValidUUID(this.walletId)) {
+      throw new Error('Transaction walletId must be a valid UUID');
+    }
+
+    if (!isNonEmptyString(this.toAddress) || !this.isValidAddress(this.toAddress)) {
+      throw new Error(`Invalid ${this.chain} deposit address format`);
+    }
+
+    if (isNotNull(this.sourceAddress) && !this.isValidAddress(this.sourceAddress)) {
+      throw new Error(`Invalid ${this.chain} source wallet address format`);
+    }
+
+    if (isNotNull(this.fromAddress) && !this.isValidAddress(this.fromAddress)) {
+      throw new Error(`Invalid ${this.chain} sender address format`);
+    }
+
+    if (!isNonEmptyString(this.amountUSDT) || parseFloat(this.amountUSDT) <= 0) {
+      throw new Error('Transaction amountUSDT must be a positive amount');
+    }
+
+    if (!Object.values(TransactionStatus).includes(this.status)) {
+      throw new Error(`Invalid transaction status: ${this.status}`);
+    }
+
+    if (!isNotNull(this.createdAt) || !isNotNull(this.updatedAt)) {
+      throw new Error('Transaction timestamps cannot be null');
+    }
+  }
+
+  /**
+   * Checks an address against the format of this transaction's chain
+   */
+  private isValidAddress(address: string): boolean {
+    return isEvmChain(this.chain)
+      ? isValidEthereumAddress(address)
+      : isValidTronAddress(address);
+  }
+
+  /**
+   * Moves the transaction to a new status, optionally recording the on-chain payment details
+   *
+   * @throws BusinessLogicError if the status machine does not allow the transition
+   */
+  public updateStatus(
+    status: TransactionStatus,
+    details: { txHash?: string; fromAddress?: string; notes?: string } = {}
+  ): Transaction {
+    TransactionStatusMachine.assertTransition(this.status, status);
+
+    return Transaction.fromPersistence({
+      ...this.toPersistence(),
+      status,
+      txHash: details.txHash ?? this.txHash,
+      fromAddress: details.fromAddress ?? this.fromAddress,
+      notes: details.notes ?? this.notes,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Records a detected on-chain deposit and moves the transaction to PAYMENT_RECEIVED
+   *
+   * Pass `reviewReason` when the deposit cannot be settled automatically
+   * (e.g. under- or over-payment); the transaction is then flagged for manual review.
+   *
+   * @throws BusinessLogicError if the transaction is no longer awaiting payment
+   */
+  public recordPayment(payment: {
+    txHash: string;
+    fromAddress: string;
+    amountReceivedUSDT: string;
+    reviewReason?: string | null;
+  }): Transaction {
+    TransactionStatusMachine.assertTransition(this.status, TransactionStatus.PAYMENT_RECEIVED);
+
+    return Transaction.fromPersistence({
+      ...this.toPersistence(),
+      status: TransactionStatus.PAYMENT_RECEIVED,
+      txHash: payment.txHash,
+      fromAddress: payment.fromAddress,
+      amountReceivedUSDT: payment.amountReceivedUSDT,
+      requiresReview: isNonEmptyString(payment.reviewReason),
+      reviewReason: payment.reviewReason ?? null,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Checks if transaction is equal to another transaction
+   */
+  public equals(other: Transaction): boolean {
+    return this.id === other.id;
+  }
+
+  /**
+   * Returns every field, including unmasked bank details (persistence only)
+   */
+  public toPersistence(): TransactionData {
+    return {
+      id: this.id,
+      userId: this.userId,
+      walletId: this.walletId,
+      sourceAddress: this.sourceAddress,
+      chain: this.chain,
+      txHash: this.txHash,
+      fromAddress: this.fromAddress,
+      toAddress: this.toAddress,
+      amountUSDT: this.amountUSDT,
+      amountReceivedUSDT: this.amountReceivedUSDT,
+      amountUSD: this.amountUSD,
+      exchangeRate: this.exchangeRate,
+      serviceFee: this.serviceFee,
+      netAmount: this.netAmount,
+      status: this.status,
+      bankAccountName: this.bankAccountName,
+      bankAccountNumber: this.bankAccountNumber,
+      bankRoutingNumber: this.bankRoutingNumber,
+      bankWireReference: this.bankWireReference,
+      complianceCheckId: this.complianceCheckId,
+      complianceStatus: this.complianceStatus,
+      requiresReview: this.requiresReview,
+      reviewReason: this.reviewReason,
+      notes: this.notes,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+
+  /**
+   * Converts to plain object for serialization
+   * NOTE: Bank account and routing numbers are masked to their last 4 characters
+   */
+  public toPlainObject(): TransactionData {
+    return {
+      ...this.toPersistence(),
+      bankAccountNumber: Transaction.mask(this.bankAccountNumber),
+      bankRoutingNumber: Transaction.mask(this.bankRoutingNumber),
+    };
+  }
+
+  /**
+   * Masks all but the last 4 characters of a sensitive value
+   */
+  private static mask(value: string | null): string | null {
+    if (!isNotNull(value)) {
+      return null;
+    }
+    return value.length <= 4 ? value : `${'*'.repeat(value.length - 4)}${value.slice(-4)}`;
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Transaction Status History Domain Entity
+ *
+ * Immutable record of a single status transition. Rows are append-only:
+ * there are no update methods and the repository exposes no update/delete.
+ *
+ * @module transaction-service/domain/entities
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { TransactionStatus } from '@shield/shared/types';
+import { isNotNull, isNonEmptyString, isValidUUID } from '@shield/shared/utils/guards';
+
+/**
+ * Actor recorded for transitions performed by background processes
+ * rather than an authenticated user (e.g. `system:deposit-matcher`)
+ */
+export const SYSTEM_ACTOR_PREFIX = 'system:';
+
+/**
+ * Transaction status history domain entity
+ */
+export class TransactionStatusHistory {
+  private constructor(
+    public readonly id: string,
+    public readonly transactionId: string,
+    // Null for the row written when the transaction is created
+    public readonly fromStatus: TransactionStatus | null,
+    public readonly toStatus: TransactionStatus,
+    // User ID, or `system:<component>` for automated transitions
+    public readonly actor: string,
+    public readonly reason: string | null,
+    public readonly notes: string | null,
+    public readonly createdAt: Date
+  ) {
+    this.validate();
+  }
+
+  /**
+   * Records a new transition
+   */
+  public static create(data: {
+    transactionId: string;
+    fromStatus: TransactionStatus | null;
+    toStatus: TransactionStatus;
+    actor: string;
+    reason?: string | null;
+    notes?: string | null;
+  }): TransactionStatusHistory {
+    return new TransactionStatusHistory(
+      uuidv4(),
+      data.transactionId,
+      data.fromStatus,
+      data.toStatus,
+      data.actor,
+      data.reason ?? null,
+      data.notes ?? null,
+      new Date()
+    );
+  }
+
+  /**
+   * Reconstructs TransactionStatusHistory from persistence layer
+   */
+  public static fromPersistence(data: {
+    id: string;
+    transactionId: string;
+    fromStatus: TransactionStatus | null;
+    toStatus: TransactionStatus;
+    actor: string;
+    reason: string | null;
+    notes: string | null;
+    createdAt: Date;
+  }): TransactionStatusHistory {
+    return new TransactionStatusHistory(
+      data.id,
+      data.transactionId,
+      data.fromStatus,
+      data.toStatus,
+      data.actor,
+      data.reason,
+      data.notes,
+      data.createdAt
+    );
+  }
+
+  /**
+   * Validates status history invariants
+   */
+  private validate(): void {
+    if (!isValidUUID(this.id)) {
+      throw new Error('Status history ID must be a valid UUID');
+    }
+
+    if (!isValidUUID(this.transactionId)) {
+      throw new Error('Status history transactionId must be a valid UUID');
+    }
+
+    if (!isNonEmptyString(this.actor)) {
+      throw new Error('Status history actor cannot be empty');
+    }
+
+    if (!isNotNull(this.createdAt)) {
+      throw new Error('Status history timestamp cannot be null');
+    }
+  }
+
+  /**
+   * Checks if the transition was performed by a background process
+   */
+  public isSystemActor(): boolean {
+    return this.actor.startsWith(SYSTEM_ACTOR_PREFIX);
+  }
+
+  /**
+   * Converts to plain object for serialization
+   */
+  public toPlainObject(): {
+    id: string;
+    transactionId: string;
+    fromStatus: TransactionStatus | null;
+    toStatus: TransactionStatus;
+    actor: string;
+    reason: string | null;
+    notes: string | null;
+    createdAt: Date;
+  } {
+    return {
+      id: this.id,
+      transactionId: this.transactionId,
+      fromStatus: this.fromStatus,
+      toStatus: this.toStatus,
+      actor: this.actor,
+      reason: this.reason,
+      notes: this.notes,
+      createdAt: this.createdAt,
+    };
+  }
+}
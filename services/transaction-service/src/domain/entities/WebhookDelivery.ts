@@ -0,0 +1,255 @@
+/**
+ * Webhook Delivery Domain Entity
+ *
+ * One event sent to one endpoint, with the outcome of its latest attempt.
+ * The delivery log is made of these rows; deliveries whose retries are
+ * exhausted stay in DEAD_LETTER until they are redelivered manually.
+ * PENDING deliveries carry the time of their next attempt, so retries
+ * interrupted by a restart can be picked up again.
+ *
+ * @module transaction-service/domain/entities
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { WebhookEventType } from '@shield/shared/types';
+import { isNonNegativeNumber, isValidUUID } from '@shield/shared/utils/guards';
+
+/**
+ * Delivery status
+ */
+export enum WebhookDeliveryStatus {
+  PENDING = 'PENDING',
+  SUCCEEDED = 'SUCCEEDED',
+  DEAD_LETTER = 'DEAD_LETTER',
+}
+
+/**
+ * JSON body POSTed to the endpoint
+ */
+export interface WebhookPayload {
+  /** Event ID, identical for every endpoint receiving the event */
+  id: string;
+  type: WebhookEventType;
+  createdAt: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Webhook delivery data
+ */
+export interface WebhookDeliveryData {
+  id: string;
+  endpointId: string;
+  eventId: string;
+  eventType: WebhookEventType;
+  payload: WebhookPayload;
+  status: WebhookDeliveryStatus;
+  attempts: number;
+  lastStatusCode: number | null;
+  lastError: string | null;
+  lastAttemptAt: Date | null;
+  nextAttemptAt: Date | null;
+  deliveredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Webhook delivery domain entity
+ */
+export class WebhookDelivery {
+  private constructor(
+    public readonly id: string,
+    public readonly endpointId: string,
+    public readonly eventId: string,
+    public readonly eventType: WebhookEventType,
+    public readonly payload: WebhookPayload,
+    public readonly status: WebhookDeliveryStatus,
+    public readonly attempts: number,
+    public readonly lastStatusCode: number | null,
+    public readonly lastError: string | null,
+    public readonly lastAttemptAt: Date | null,
+    public readonly nextAttemptAt: Date | null,
+    public readonly deliveredAt: Date | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {
+    this.validate();
+  }
+
+  /**
+   * Queues an event for an endpoint
+   */
+  public static create(data: { endpointId: string; payload: WebhookPayload }): WebhookDelivery {
+    const now = new Date();
+    return new WebhookDelivery(
+      uuidv4(),
+      data.endpointId,
+      data.payload.id,
+      data.payload.type,
+      data.payload,
+      WebhookDeliveryStatus.PENDING,
+      0,
+      null,
+      null,
+      null,
+      now,
+      null,
+      now,
+      now
+    );
+  }
+
+  /**
+   * Reconstructs WebhookDelivery from persistence layer
+   */
+  public static fromPersistence(data: WebhookDeliveryData): WebhookDelivery {
+    return new WebhookDelivery(
+      data.id,
+      data.endpointId,
+      data.eventId,
+      data.eventType,
+      data.payload,
+      data.status,
+      data.attempts,
+      data.lastStatusCode,
+      data.lastError,
+      data.lastAttemptAt,
+      data.nextAttemptAt,
+      data.deliveredAt,
+      data.createdAt,
+      data.updatedAt
+    );
+  }
+
+  /**
+   * Validates delivery invariants
+   */
+  private validate(): void {
+    if (!isValidUUID(this.id)) {
+      throw new Error('Webhook delivery ID must be a valid UUID');
+    }
+
+    if (!isValidUUID(this.endpointId)) {
+      throw new Error('Webhook delivery endpointId must be a valid UUID');
+    }
+
+    if (!isNonNegativeNumber(this.attempts)) {
+      throw new Error('Webhook delivery attempts cannot be negative');
+    }
+  }
+
+  /**
+   * Records a failed attempt; the delivery stays PENDING until it is retried
+   * (after retryDelayMs) or dead-lettered
+   */
+  public recordFailure(statusCode: number | null, error: string, retryDelayMs: number): WebhookDelivery {
+    const now = new Date();
+    return this.with({
+      attempts: this.attempts + 1,
+      lastStatusCode: statusCode,
+      lastError: error,
+      lastAttemptAt: now,
+      nextAttemptAt: new Date(now.getTime() + retryDelayMs),
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Records a successful attempt
+   */
+  public markSucceeded(statusCode: number): WebhookDelivery {
+    const now = new Date();
+    return this.with({
+      status: WebhookDeliveryStatus.SUCCEEDED,
+      attempts: this.attempts + 1,
+      lastStatusCode: statusCode,
+      lastError: null,
+      lastAttemptAt: now,
+      nextAttemptAt: null,
+      deliveredAt: now,
+      updatedAt: now,
+    });
+  }
+
+  /**
+   * Moves the delivery to the dead-letter list once retries are exhausted
+   */
+  public markDeadLetter(): WebhookDelivery {
+    return this.with({
+      status: WebhookDeliveryStatus.DEAD_LETTER,
+      nextAttemptAt: null,
+      updatedAt: new Date(),
+    });
+  }
+
+  /**
+   * Puts the delivery back in PENDING for a manual redelivery (attempts keep counting)
+   */
+  public resetForRedelivery(): WebhookDelivery {
+    const now = new Date();
+    return this.with({ status: WebhookDeliveryStatus.PENDING, nextAttemptAt: now, updatedAt: now });
+  }
+
+  /**
+   * Checks if the delivery was acknowledged by the endpoint
+   */
+  public isDelivered(): boolean {
+    return this.status === WebhookDeliveryStatus.SUCCEEDED;
+  }
+
+  /**
+   * Returns a copy with the given fields changed
+   */
+  private with(
+    changes: Partial<{
+      status: WebhookDeliveryStatus;
+      attempts: number;
+      lastStatusCode: number | null;
+      lastError: string | null;
+      lastAttemptAt: Date | null;
+      nextAttemptAt: Date | null;
+      deliveredAt: Date | null;
+      updatedAt: Date;
+    }>
+  ): WebhookDelivery {
+    return new WebhookDelivery(
+      this.id,
+      this.endpointId,
+      this.eventId,
+      this.eventType,
+      this.payload,
+      changes.status ?? this.status,
+      changes.attempts ?? this.attempts,
+      changes.lastStatusCode !== undefined ? changes.lastStatusCode : this.lastStatusCode,
+      changes.lastError !== undefined ? changes.lastError : this.lastError,
+      changes.lastAttemptAt !== undefined ? changes.lastAttemptAt : this.lastAttemptAt,
+      changes.nextAttemptAt !== undefined ? changes.nextAttemptAt : this.nextAttemptAt,
+      changes.deliveredAt !== undefined ? changes.deliveredAt : this.deliveredAt,
+      this.createdAt,
+      changes.updatedAt ?? this.updatedAt
+    );
+  }
+
+  /**
+   * Converts to plain object for serialization
+   */
+  public toPlainObject(): WebhookDeliveryData {
+    return {
+      id: this.id,
+      endpointId: this.endpointId,
+      eventId: this.eventId,
+      eventType: this.eventType,
+      payload: this.payload,
+      status: this.status,
+      attempts: this.attempts,
+      lastStatusCode: this.lastStatusCode,
+      lastError: this.lastError,
+      lastAttemptAt: this.lastAttemptAt,
+      nextAttemptAt: this.nextAttemptAt,
+      deliveredAt: this.deliveredAt,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
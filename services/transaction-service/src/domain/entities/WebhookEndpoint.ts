@@ -0,0 +1,154 @@
+/**
+ * Webhook Endpoint Domain Entity
+ *
+ * A merchant URL that receives signed event notifications. The signing
+ * secret is held encrypted; it is only shown in plaintext once, when the
+ * endpoint is registered.
+ *
+ * @module transaction-service/domain/entities
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { WebhookEventType } from '@shield/shared/types';
+import { EncryptedData } from '@shield/shared/security';
+import { isNonEmptyArray, isNonEmptyString, isValidUUID } from '@shield/shared/utils/guards';
+
+/**
+ * Webhook endpoint domain entity
+ */
+export class WebhookEndpoint {
+  private constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly url: string,
+    public readonly encryptedSecret: EncryptedData,
+    public readonly eventTypes: WebhookEventType[],
+    public readonly description: string | null,
+    public readonly isActive: boolean,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {
+    this.validate();
+  }
+
+  /**
+   * Registers a new endpoint
+   */
+  public static create(data: {
+    userId: string;
+    url: string;
+    encryptedSecret: EncryptedData;
+    eventTypes: WebhookEventType[];
+    description?: string | null;
+  }): WebhookEndpoint {
+    const now = new Date();
+    return new WebhookEndpoint(
+      uuidv4(),
+      data.userId,
+      data.url,
+      data.encryptedSecret,
+      [...new Set(data.eventTypes)],
+      data.description ?? null,
+      true,
+      now,
+      now
+    );
+  }
+
+  /**
+   * Reconstructs WebhookEndpoint from persistence layer
+   */
+  public static fromPersistence(data: {
+    id: string;
+    userId: string;
+    url: string;
+    encryptedSecret: EncryptedData;
+    eventTypes: WebhookEventType[];
+    description: string | null;
+    isActive: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+  }): WebhookEndpoint {
+    return new WebhookEndpoint(
+      data.id,
+      data.userId,
+      data.url,
+      data.encryptedSecret,
+      data.eventTypes,
+      data.description,
+      data.isActive,
+      data.createdAt,
+      data.updatedAt
+    );
+  }
+
+  /**
+   * Validates endpoint invariants
+   */
+  private validate(): void {
+    if (!isValidUUID(this.id)) {
+      throw new Error('Webhook endpoint ID must be a valid UUID');
+    }
+
+    if (!isValidUUID(this.userId)) {
+      throw new Error('Webhook endpoint userId must be a valid UUID');
+    }
+
+    if (!isNonEmptyString(this.url)) {
+      throw new Error('Webhook endpoint URL cannot be empty');
+    }
+
+    if (!isNonEmptyArray<WebhookEventType>(this.eventTypes)) {
+      throw new Error('Webhook endpoint must subscribe to at least one event type');
+    }
+  }
+
+  /**
+   * Checks if the endpoint should receive an event of the given type
+   */
+  public isSubscribedTo(eventType: WebhookEventType): boolean {
+    return this.isActive && this.eventTypes.includes(eventType);
+  }
+
+  /**
+   * Returns a deactivated copy (deleted endpoints are kept for the delivery log)
+   */
+  public deactivate(): WebhookEndpoint {
+    return new WebhookEndpoint(
+      this.id,
+      this.userId,
+      this.url,
+      this.encryptedSecret,
+      this.eventTypes,
+      this.description,
+      false,
+      this.createdAt,
+      new Date()
+    );
+  }
+
+  /**
+   * Converts to plain object for serialization (never includes the secret)
+   */
+  public toPlainObject(): {
+    id: string;
+    userId: string;
+    url: string;
+    eventTypes: WebhookEventType[];
+    description: string | null;
+    isActive: boolean;
+    createdAt: Date;
+    updatedAt: Date;
+  } {
+    return {
+      id: this.id,
+      userId: this.userId,
+      url: this.url,
+      eventTypes: this.eventTypes,
+      description: this.description,
+      isActive: this.isActive,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,24 @@
+/**
+ * Deposit Matcher Checkpoint Repository Interface
+ *
+ * Defines the contract for persisting the deposit matcher's progress per chain
+ *
+ * @module transaction-service/domain/repositories
+ */
+
+import { ChainType } from '@shield/shared/types';
+
+/**
+ * Deposit matcher checkpoint repository interface
+ */
+export interface IDepositMatcherCheckpointRepository {
+  /**
+   * Gets the last block matched on a chain (null before the first run)
+   */
+  findLastScannedBlock(chain: ChainType): Promise<number | null>;
+
+  /**
+   * Records the last block matched on a chain
+   */
+  saveLastScannedBlock(chain: ChainType, blockNumber: number): Promise<void>;
+}
@@ -0,0 +1,48 @@
+/**
+ * Held Webhook Event Repository Interface
+ *
+ * Defines the contract for webhook events waiting for their transaction hash
+ * to be linked to a transaction
+ *
+ * @module transaction-service/domain/repositories
+ */
+
+import { WebhookEventType } from '@shield/shared/types';
+
+/**
+ * Event whose merchant could not be resolved when it was published
+ */
+export interface HeldWebhookEvent {
+  id: string;
+  type: WebhookEventType;
+  txHash: string;
+  data: Record<string, unknown>;
+  createdAt: Date;
+}
+
+/**
+ * Held webhook event repository interface
+ */
+export interface IHeldWebhookEventRepository {
+  /**
+   * Holds an event until a transaction is linked to its hash
+   */
+  hold(type: WebhookEventType, txHash: string, data: Record<string, unknown>): Promise<HeldWebhookEvent>;
+
+  /**
+   * Finds the events held for a transaction hash, oldest first
+   */
+  findByTxHash(txHash: string): Promise<HeldWebhookEvent[]>;
+
+  /**
+   * Removes a held event once it was published
+   */
+  delete(id: string): Promise<void>;
+
+  /**
+   * Removes the events held since before a date
+   *
+   * @returns The number of events removed
+   */
+  deleteHeldBefore(before: Date): Promise<number>;
+}
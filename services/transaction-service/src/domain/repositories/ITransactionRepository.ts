@@ -0,0 +1,78 @@
+/**
+ * Transaction Repository Interface
+ *
+ * Defines the contract for transaction persistence operations
+ *
+ * @module transaction-service/domain/repositories
+ */
+
+import { Transaction } from '../entities/Transaction';
+import { TransactionStatusHistory } from '../entities/TransactionStatusHistory';
+import { ChainType, TransactionStatus } from '@shield/shared/types';
+
+/**
+ * Transaction filters
+ */
+export interface TransactionFilters {
+  chain?: ChainType;
+  status?: TransactionStatus;
+}
+
+/**
+ * Pagination options
+ */
+export interface PaginationOptions {
+  limit: number;
+  offset: number;
+}
+
+/**
+ * Transaction repository interface
+ */
+export interface ITransactionRepository {
+  /**
+   * Finds a transaction by ID
+   */
+  findById(id: string): Promise<Transaction | null>;
+
+  /**
+   * Finds a transaction by ID and user ID (ensures ownership)
+   */
+  findByIdAndUserId(id: string, userId: string): Promise<Transaction | null>;
+
+  /**
+   * Finds a page of transactions for a user, newest first
+   */
+  findByUserId(
+    userId: string,
+    filters: TransactionFilters,
+    pagination: PaginationOptions
+  ): Promise<Transaction[]>;
+
+  /**
+   * Counts transactions for a user matching the filters
+   */
+  countByUserId(userId: string, filters: TransactionFilters): Promise<number>;
+
+  /**
+   * Finds a transaction by its on-chain hash
+   */
+  findByTxHash(txHash: string): Promise<Transaction | null>;
+
+  /**
+   * Finds PENDING transactions on a chain that have no deposit linked yet, oldest first
+   */
+  findAwaitingDeposit(chain: ChainType): Promise<Transaction[]>;
+
+  /**
+   * Saves a new transaction together with its initial status history row
+   */
+  save(transaction: Transaction, initialHistory: TransactionStatusHistory): Promise<Transaction>;
+
+  /**
+   * Persists a status transition and its history row atomically.
+   * Fails with ConflictError if the stored status no longer matches
+   * `history.fromStatus` (another transition won the race).
+   */
+  updateStatus(transaction: Transaction, history: TransactionStatusHistory): Promise<Transaction>;
+}
@@ -0,0 +1,20 @@
+/**
+ * Transaction Status History Repository Interface
+ *
+ * Read-only access to the status audit trail. History rows are written
+ * by ITransactionRepository together with the status change itself.
+ *
+ * @module transaction-service/domain/repositories
+ */
+
+import { TransactionStatusHistory } from '../entities/TransactionStatusHistory';
+
+/**
+ * Transaction status history repository interface
+ */
+export interface ITransactionStatusHistoryRepository {
+  /**
+   * Finds all transitions of a transaction, oldest first
+   */
+  findByTransactionId(transactionId: string): Promise<TransactionStatusHistory[]>;
+}
@@ -0,0 +1,57 @@
+/**
+ * Webhook Delivery Repository Interface
+ *
+ * Defines the contract for the webhook delivery log
+ *
+ * @module transaction-service/domain/repositories
+ */
+
+import { WebhookDelivery, WebhookDeliveryStatus } from '../entities/WebhookDelivery';
+import { PaginationOptions } from './ITransactionRepository';
+
+/**
+ * Delivery log filters
+ */
+export interface WebhookDeliveryFilters {
+  endpointId?: string;
+  status?: WebhookDeliveryStatus;
+}
+
+/**
+ * Webhook delivery repository interface
+ */
+export interface IWebhookDeliveryRepository {
+  /**
+   * Finds a delivery by ID
+   */
+  findById(id: string): Promise<WebhookDelivery | null>;
+
+  /**
+   * Finds a page of deliveries to the endpoints of a user, newest first
+   */
+  findByUserId(
+    userId: string,
+    filters: WebhookDeliveryFilters,
+    pagination: PaginationOptions
+  ): Promise<WebhookDelivery[]>;
+
+  /**
+   * Counts deliveries to the endpoints of a user matching the filters
+   */
+  countByUserId(userId: string, filters: WebhookDeliveryFilters): Promise<number>;
+
+  /**
+   * Finds PENDING deliveries to active endpoints whose next attempt was due before the given time
+   */
+  findDue(before: Date, limit: number): Promise<WebhookDelivery[]>;
+
+  /**
+   * Saves new deliveries
+   */
+  saveMany(deliveries: WebhookDelivery[]): Promise<void>;
+
+  /**
+   * Persists the outcome of an attempt
+   */
+  update(delivery: WebhookDelivery): Promise<WebhookDelivery>;
+}
@@ -0,0 +1,45 @@
+/**
+ * Webhook Endpoint Repository Interface
+ *
+ * Defines the contract for webhook endpoint persistence operations
+ *
+ * @module transaction-service/domain/repositories
+ */
+
+import { WebhookEndpoint } from '../entities/WebhookEndpoint';
+import { WebhookEventType } from '@shield/shared/types';
+
+/**
+ * Webhook endpoint repository interface
+ */
+export interface IWebhookEndpointRepository {
+  /**
+   * Finds an endpoint by ID
+   */
+  findById(id: string): Promise<WebhookEndpoint | null>;
+
+  /**
+   * Finds an endpoint by ID and user ID (ensures ownership)
+   */
+  findByIdAndUserId(id: string, userId: string): Promise<WebhookEndpoint | null>;
+
+  /**
+   * Finds the active endpoints of a user, newest first
+   */
+  findActiveByUserId(userId: string): Promise<WebhookEndpoint[]>;
+
+  /**
+   * Finds the active endpoints of a user subscribed to an event type
+   */
+  findSubscribed(userId: string, eventType: WebhookEventType): Promise<WebhookEndpoint[]>;
+
+  /**
+   * Saves a new endpoint
+   */
+  save(endpoint: WebhookEndpoint): Promise<WebhookEndpoint>;
+
+  /**
+   * Updates an existing endpoint
+   */
+  update(endpoint: WebhookEndpoint): Promise<WebhookEndpoint>;
+}
@@ -0,0 +1,47 @@
+/**
+ * Blockchain Service Client Interface
+ *
+ * Defines the contract for on-chain lookups against blockchain-service
+ *
+ * @module transaction-service/domain/services
+ */
+
+import { ChainType } from '@shield/shared/types';
+
+/**
+ * USDT transfer into a deposit address, as reported by blockchain-service
+ */
+export interface IncomingTransfer {
+  txHash: string;
+  from: string;
+  to: string;
+  /** Human-readable USDT amount (decimals already applied) */
+  amountUSDT: string;
+  blockNumber: number;
+  /** Whether the transfer has the chain's required confirmations (blockchain-service CONFIRMED status) */
+  confirmed: boolean;
+}
+
+/**
+ * Blockchain service client interface
+ *
+ * Calls are made by background jobs, so they authenticate as the service
+ * itself rather than forwarding a user's token.
+ */
+export interface IBlockchainServiceClient {
+  /**
+   * Gets the latest block number of a chain
+   */
+  getLatestBlock(chain: ChainType, correlationId?: string): Promise<number>;
+
+  /**
+   * Lists USDT transfers to an address within a block range (inclusive)
+   */
+  getIncomingTransfers(
+    chain: ChainType,
+    toAddress: string,
+    fromBlock: number,
+    toBlock: number,
+    correlationId?: string
+  ): Promise<IncomingTransfer[]>;
+}
@@ -0,0 +1,36 @@
+/**
+ * Wallet Service Client Interface
+ *
+ * Defines the contract for wallet lookups against wallet-service
+ *
+ * @module transaction-service/domain/services
+ */
+
+import { ChainType } from '@shield/shared/types';
+
+/**
+ * Wallet details as exposed by wallet-service
+ */
+export interface WalletSummary {
+  id: string;
+  userId: string;
+  chain: ChainType;
+  address: string;
+  isActive: boolean;
+}
+
+/**
+ * Wallet service client interface
+ */
+export interface IWalletServiceClient {
+  /**
+   * Fetches a wallet on behalf of the user who owns the access token.
+   * wallet-service scopes the lookup to that user, so a wallet owned by
+   * someone else resolves to null exactly like a missing one.
+   */
+  getWallet(
+    walletId: string,
+    accessToken: string,
+    correlationId?: string
+  ): Promise<WalletSummary | null>;
+}
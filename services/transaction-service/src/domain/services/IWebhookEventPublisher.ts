@@ -0,0 +1,36 @@
+/**
+ * Webhook Event Publisher Interface
+ *
+ * Lets use cases emit merchant-facing events without waiting for delivery
+ *
+ * @module transaction-service/domain/services
+ */
+
+import { WebhookEventType } from '@shield/shared/types';
+
+/**
+ * Event emitted to the webhook subsystem
+ */
+export interface WebhookEvent {
+  type: WebhookEventType;
+  /** Merchant the event belongs to */
+  userId: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Webhook event publisher interface
+ */
+export interface IWebhookEventPublisher {
+  /**
+   * Queues an event for delivery. Returns immediately and never throws:
+   * a webhook failure must not fail the operation that produced the event.
+   */
+  publish(event: WebhookEvent): void;
+
+  /**
+   * Publishes the events held for a transaction hash now that the merchant's
+   * transaction is linked to it. Returns immediately and never throws.
+   */
+  releaseHeld(txHash: string, userId: string): void;
+}
@@ -0,0 +1,32 @@
+/**
+ * Webhook Sender Interface
+ *
+ * Defines the contract for sending one signed delivery to an endpoint
+ *
+ * @module transaction-service/domain/services
+ */
+
+import { WebhookEndpoint } from '../entities/WebhookEndpoint';
+import { WebhookDelivery } from '../entities/WebhookDelivery';
+
+/**
+ * Outcome of a single delivery attempt
+ */
+export interface WebhookSendResult {
+  /** True if the endpoint answered with a 2xx status */
+  success: boolean;
+  /** HTTP status, or null if no response was received */
+  statusCode: number | null;
+  error?: string;
+}
+
+/**
+ * Webhook sender interface
+ */
+export interface IWebhookSender {
+  /**
+   * Signs and POSTs the delivery payload to the endpoint.
+   * Never throws: network errors and non-2xx responses are reported in the result.
+   */
+  send(endpoint: WebhookEndpoint, delivery: WebhookDelivery): Promise<WebhookSendResult>;
+}
@@ -0,0 +1,103 @@
+/**
+ * Cancel Transaction Use Case
+ *
+ * Lets the owner of a transaction cancel it while it is still waiting for the
+ * deposit. The transaction moves to FAILED through UpdateTransactionStatusUseCase,
+ * so the transition is recorded in the status history and announced to the
+ * merchant like any other. Once funds are received, only operators can move it.
+ *
+ * @module transaction-service/domain/useCases
+ */
+
+import { Transaction } from '../entities/Transaction';
+import { ITransactionRepository } from '../repositories/ITransactionRepository';
+import { UpdateTransactionStatusUseCase } from './UpdateTransactionStatusUseCase';
+import { TransactionStatus } from '@shield/shared/types';
+import {
+  BusinessLogicError,
+  ConflictError,
+  NotFoundError,
+  ServiceError,
+  ValidationError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Cancel transaction use case input
+ */
+export interface CancelTransactionInput {
+  transactionId: string;
+  userId: string;
+  reason?: string;
+}
+
+/**
+ * Cancel Transaction Use Case
+ */
+export class CancelTransactionUseCase {
+  constructor(
+    private readonly transactionRepository: ITransactionRepository,
+    private readonly updateTransactionStatusUseCase: UpdateTransactionStatusUseCase
+  ) {}
+
+  /**
+   * Executes the cancel transaction use case
+   *
+   * @throws NotFoundError if the transaction does not exist or belongs to another user
+   * @throws BusinessLogicError if the transaction is no longer PENDING
+   */
+  public async execute(
+    input: CancelTransactionInput,
+    correlationId: string = ''
+  ): Promise<Transaction> {
+    try {
+      const transaction = await this.transactionRepository.findByIdAndUserId(
+        input.transactionId,
+        input.userId
+      );
+
+      if (!isNotNull(transaction)) {
+        throw new NotFoundError('Transaction');
+      }
+
+      if (transaction.status !== TransactionStatus.PENDING) {
+        throw new BusinessLogicError(
+          `Transaction is ${transaction.status}; only PENDING transactions can be cancelled`,
+          'TRANSACTION_NOT_CANCELLABLE',
+          { transactionId: transaction.id, status: transaction.status }
+        );
+      }
+
+      return await this.updateTransactionStatusUseCase.execute(
+        {
+          transactionId: transaction.id,
+          userId: input.userId,
+          status: TransactionStatus.FAILED,
+          actor: input.userId,
+          reason: input.reason ?? 'Cancelled by user',
+        },
+        correlationId
+      );
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (
+        error instanceof NotFoundError ||
+        error instanceof BusinessLogicError ||
+        error instanceof ValidationError ||
+        error instanceof ConflictError ||
+        error instanceof ServiceError
+      ) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to cancel transaction', {
+        transactionId: input.transactionId,
+        userId: input.userId,
+        operation: 'cancelTransaction',
+        correlationId,
+      });
+    }
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Create Transaction Use Case
+ *
+ * Business logic for opening a new USDT -> USD off-ramp transaction
+ * Verifies wallet ownership against wallet-service before creation and
+ * records the wallet address as the only accepted deposit sender
+ *
+ * @module transaction-service/domain/useCases
+ */
+
+import { Transaction } from '../entities/Transaction';
+import { TransactionStatusHistory } from '../entities/TransactionStatusHistory';
+import { ITransactionRepository } from '../repositories/ITransactionRepository';
+import { IWalletServiceClient } from '../services/IWalletServiceClient';
+import { ChainType } from '@shield/shared/types';
+import {
+  AuthorizationError,
+  BusinessLogicError,
+  ConfigurationError,
+  ExternalServiceError,
+  NotFoundError,
+  ServiceError,
+  ValidationError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { isNotNull, isNonEmptyString } from '@shield/shared/utils/guards';
+import { calculateServiceFee, calculateNetAmount } from '@shield/shared/utils';
+
+/**
+ * Create transaction use case input
+ */
+export interface CreateTransactionInput {
+  userId: string;
+  accessToken: string;
+  walletId: string;
+  chain: ChainType;
+  amountUSDT: string;
+  bankAccountName: string;
+  bankAccountNumber: string;
+  bankRoutingNumber?: string | null;
+}
+
+/**
+ * Create Transaction Use Case
+ */
+export class CreateTransactionUseCase {
+  constructor(
+    private readonly transactionRepository: ITransactionRepository,
+    private readonly walletServiceClient: IWalletServiceClient
+  ) {}
+
+  /**
+   * Executes the create transaction use case
+   */
+  public async execute(
+    input: CreateTransactionInput,
+    correlationId: string = ''
+  ): Promise<Transaction> {
+    try {
+      this.assertWithinLimits(input.amountUSDT);
+
+      // Ownership check: wallet-service only returns wallets owned by the token holder
+      const wallet = await this.walletServiceClient.getWallet(
+        input.walletId,
+        input.accessToken,
+        correlationId
+      );
+
+      if (!isNotNull(wallet)) {
+        throw new NotFoundError('Wallet', input.walletId);
+      }
+
+      if (wallet.userId !== input.userId) {
+        throw new AuthorizationError('Wallet does not belong to the authenticated user', {
+          walletId: input.walletId,
+        });
+      }
+
+      if (!wallet.isActive) {
+        throw new BusinessLogicError(
+          'Transactions cannot be created from an inactive wallet',
+          'WALLET_MUST_BE_ACTIVE',
+          { walletId: input.walletId }
+        );
+      }
+
+      if (wallet.chain !== input.chain) {
+        throw new ValidationError(
+          `Wallet is registered on ${wallet.chain}, not ${input.chain}`,
+          { walletId: input.walletId, walletChain: wallet.chain, chain: input.chain }
+        );
+      }
+
+      // Fiat conversion
+      const exchangeRate = process.env.USDT_USD_EXCHANGE_RATE || '1.00';
+      const feePercentage = parseFloat(process.env.SERVICE_FEE_PERCENTAGE || '1');
+      const amountUSD = (parseFloat(input.amountUSDT) * parseFloat(exchangeRate)).toFixed(2);
+      const serviceFee = calculateServiceFee(amountUSD, feePercentage);
+      const netAmount = calculateNetAmount(amountUSD, serviceFee);
+
+      const transaction = Transaction.create({
+        userId: input.userId,
+        walletId: wallet.id,
+        sourceAddress: wallet.address,
+        chain: input.chain,
+        toAddress: this.getDepositAddress(input.chain),
+        amountUSDT: input.amountUSDT,
+        amountUSD,
+        exchangeRate,
+        serviceFee,
+        netAmount,
+        bankAccountName: input.bankAccountName,
+        bankAccountNumber: input.bankAccountNumber,
+        bankRoutingNumber: input.bankRoutingNumber,
+      });
+
+      const initialHistory = TransactionStatusHistory.create({
+        transactionId: transaction.id,
+        fromStatus: null,
+        toStatus: transaction.status,
+        actor: input.userId,
+        reason: 'Transaction created',
+      });
+
+      return await this.transactionRepository.save(transaction, initialHistory);
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (
+        error instanceof ValidationError ||
+        error instanceof NotFoundError ||
+        error instanceof AuthorizationError ||
+        error instanceof BusinessLogicError ||
+        error instanceof ConfigurationError ||
+        error instanceof ExternalServiceError ||
+        error instanceof ServiceError
+      ) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to create transaction', {
+        userId: input.userId,
+        walletId: input.walletId,
+        chain: input.chain,
+        operation: 'createTransaction',
+        correlationId,
+      });
+    }
+  }
+
+  /**
+   * Enforces MIN_TRANSACTION_AMOUNT / MAX_TRANSACTION_AMOUNT
+   */
+  private assertWithinLimits(amountUSDT: string): void {
+    const amount = parseFloat(amountUSDT);
+    const minAmount = parseFloat(process.env.MIN_TRANSACTION_AMOUNT || '0.01');
+    const maxAmount = parseFloat(process.env.MAX_TRANSACTION_AMOUNT || '1000000');
+
+    if (amount < minAmount || amount > maxAmount) {
+      throw new ValidationError(
+        `Amount must be between ${minAmount} and ${maxAmount} USDT`,
+        { amountUSDT, minAmount, maxAmount }
+      );
+    }
+  }
+
+  /**
+   * Resolves the Shield deposit address for a chain
+   */
+  private getDepositAddress(chain: ChainType): string {
+    const setting = `SHIELD_${chain}_WALLET_ADDRESS`;
+    const address = process.env[`SHIELD_${chain}_WALLET_ADDRESS`];
+
+    if (!isNonEmptyString(address)) {
+      throw new ConfigurationError(setting, `No deposit address configured for ${chain}`);
+    }
+
+    return address;
+  }
+}
@@ -0,0 +1,102 @@
+/**
+ * Create Webhook Endpoint Use Case
+ *
+ * Business logic for registering a merchant webhook endpoint. A signing
+ * secret is generated when none is supplied; it is stored encrypted and
+ * returned in plaintext only by this call. URLs whose host resolves to a
+ * private address are rejected.
+ *
+ * @module transaction-service/domain/useCases
+ */
+
+import { WebhookEndpoint } from '../entities/WebhookEndpoint';
+import { IWebhookEndpointRepository } from '../repositories/IWebhookEndpointRepository';
+import { WebhookEventType } from '@shield/shared/types';
+import { assertPublicWebhookUrl, encrypt, generateToken } from '@shield/shared/security';
+import {
+  ConfigurationError,
+  ServiceError,
+  ValidationError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+
+/**
+ * Prefix of generated signing secrets
+ */
+const WEBHOOK_SECRET_PREFIX = 'whsec_';
+
+/**
+ * Create webhook endpoint use case input
+ */
+export interface CreateWebhookEndpointInput {
+  userId: string;
+  url: string;
+  secret?: string;
+  eventTypes: WebhookEventType[];
+  description?: string | null;
+}
+
+/**
+ * Create webhook endpoint result
+ */
+export interface CreateWebhookEndpointResult {
+  endpoint: WebhookEndpoint;
+  /** Plaintext signing secret (not retrievable later) */
+  secret: string;
+}
+
+/**
+ * Create Webhook Endpoint Use Case
+ */
+export class CreateWebhookEndpointUseCase {
+  constructor(private readonly webhookEndpointRepository: IWebhookEndpointRepository) {}
+
+  /**
+   * Executes the create webhook endpoint use case
+   *
+   * @throws ValidationError if the URL's host cannot be resolved or is private
+   */
+  public async execute(
+    input: CreateWebhookEndpointInput,
+    correlationId: string = ''
+  ): Promise<CreateWebhookEndpointResult> {
+    try {
+      if (!process.env.ENCRYPTION_KEY) {
+        throw new ConfigurationError('ENCRYPTION_KEY', 'Webhook secrets cannot be stored without ENCRYPTION_KEY');
+      }
+
+      await assertPublicWebhookUrl(input.url);
+
+      const secret = input.secret ?? `${WEBHOOK_SECRET_PREFIX}${generateToken(32)}`;
+
+      const endpoint = WebhookEndpoint.create({
+        userId: input.userId,
+        url: input.url,
+        encryptedSecret: encrypt(secret),
+        eventTypes: input.eventTypes,
+        description: input.description,
+      });
+
+      const saved = await this.webhookEndpointRepository.save(endpoint);
+
+      return { endpoint: saved, secret };
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (
+        error instanceof ConfigurationError ||
+        error instanceof ValidationError ||
+        error instanceof ServiceError
+      ) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to create webhook endpoint', {
+        userId: input.userId,
+        url: input.url,
+        operation: 'createWebhookEndpoint',
+        correlationId,
+      });
+    }
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Delete Webhook Endpoint Use Case
+ *
+ * Business logic for removing a webhook endpoint. The endpoint is
+ * deactivated rather than deleted so its delivery log stays available.
+ *
+ * @module transaction-service/domain/useCases
+ */
+
+import { IWebhookEndpointRepository } from '../repositories/IWebhookEndpointRepository';
+import { NotFoundError, ServiceError, handleUnknownError } from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Delete Webhook Endpoint Use Case
+ */
+export class DeleteWebhookEndpointUseCase {
+  constructor(private readonly webhookEndpointRepository: IWebhookEndpointRepository) {}
+
+  /**
+   * Executes the delete webhook endpoint use case
+   */
+  public async execute(endpointId: string, userId: string, correlationId: string = ''): Promise<void> {
+    try {
+      const endpoint = await this.webhookEndpointRepository.findByIdAndUserId(endpointId, userId);
+
+      if (!isNotNull(endpoint) || !endpoint.isActive) {
+        throw new NotFoundError('Webhook endpoint', endpointId);
+      }
+
+      await this.webhookEndpointRepository.update(endpoint.deactivate());
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof NotFoundError || error instanceof ServiceError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to delete webhook endpoint', {
+        endpointId,
+        userId,
+        operation: 'deleteWebhookEndpoint',
+        correlationId,
+      });
+    }
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * Deliver Webhook Use Case
+ *
+ * Sends a delivery to its endpoint, retrying with exponential backoff
+ * (WEBHOOK_RETRY_BASE_DELAY_MS doubled after each failure, up to
+ * WEBHOOK_MAX_ATTEMPTS attempts). Every attempt is written to the delivery
+ * log together with the time of the next one; once the attempts are
+ * exhausted the delivery is moved to DEAD_LETTER. A delivery picked up again
+ * after a restart only makes the attempts it has left.
+ *
+ * @module transaction-service/domain/useCases
+ */
+
+import { WebhookDelivery } from '../entities/WebhookDelivery';
+import { IWebhookEndpointRepository } from '../repositories/IWebhookEndpointRepository';
+import { IWebhookDeliveryRepository } from '../repositories/IWebhookDeliveryRepository';
+import { IWebhookSender } from '../services/IWebhookSender';
+import { logInfo } from '@shield/shared/types';
+import { NotFoundError, ServiceError, handleUnknownError } from '@shield/shared/errors';
+import { retryWithBackoff } from '@shield/shared/utils';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Delivery options
+ */
+export interface DeliverWebhookOptions {
+  /** Overrides WEBHOOK_MAX_ATTEMPTS (manual redeliveries make a single attempt) */
+  maxAttempts?: number;
+}
+
+/**
+ * Deliver Webhook Use Case
+ */
+export class DeliverWebhookUseCase {
+  constructor(
+    private readonly webhookEndpointRepository: IWebhookEndpointRepository,
+    private readonly webhookDeliveryRepository: IWebhookDeliveryRepository,
+    private readonly webhookSender: IWebhookSender
+  ) {}
+
+  /**
+   * Executes the deliver webhook use case
+   *
+   * @returns The delivery after its last attempt (SUCCEEDED or DEAD_LETTER)
+   */
+  public async execute(
+    deliveryId: string,
+    options: DeliverWebhookOptions = {},
+    correlationId: string = ''
+  ): Promise<WebhookDelivery> {
+    try {
+      const found = await this.webhookDeliveryRepository.findById(deliveryId);
+
+      if (!isNotNull(found)) {
+        throw new NotFoundError('Webhook delivery', deliveryId);
+      }
+
+      let delivery = found;
+
+      if (delivery.isDelivered()) {
+        return delivery;
+      }
+
+      const endpoint = await this.webhookEndpointRepository.findById(delivery.endpointId);
+
+      if (!isNotNull(endpoint)) {
+        throw new NotFoundError('Webhook endpoint', delivery.endpointId);
+      }
+
+      const maxAttempts = options.maxAttempts ?? Math.max(this.getMaxAttempts() - delivery.attempts, 1);
+      const baseDelayMs = this.getRetryBaseDelayMs();
+      let attempt = 0;
+
+      try {
+        await retryWithBackoff(
+          async () => {
+            const result = await this.webhookSender.send(endpoint, delivery);
+
+            if (result.success && isNotNull(result.statusCode)) {
+              delivery = await this.webhookDeliveryRepository.update(delivery.markSucceeded(result.statusCode));
+              return;
+            }
+
+            // Same delay retryWithBackoff waits before the next attempt
+            const message = result.error ?? `Endpoint responded with HTTP ${result.statusCode}`;
+            delivery = await this.webhookDeliveryRepository.update(
+              delivery.recordFailure(result.statusCode, message, baseDelayMs * Math.pow(2, attempt++))
+            );
+            throw new Error(message);
+          },
+          maxAttempts,
+          baseDelayMs
+        );
+      } catch {
+        delivery = await this.webhookDeliveryRepository.update(delivery.markDeadLetter());
+
+        logInfo('Webhook delivery moved to dead-letter list', {
+          deliveryId: delivery.id,
+          endpointId: endpoint.id,
+          eventType: delivery.eventType,
+          attempts: delivery.attempts,
+          lastStatusCode: delivery.lastStatusCode,
+          lastError: delivery.lastError,
+          correlationId,
+        });
+      }
+
+      return delivery;
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof NotFoundError || error instanceof ServiceError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to deliver webhook', {
+        deliveryId,
+        operation: 'deliverWebhook',
+        correlationId,
+      });
+    }
+  }
+
+  /**
+   * Attempts per delivery (WEBHOOK_MAX_ATTEMPTS, default 5)
+   */
+  private getMaxAttempts(): number {
+    const value = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || '5', 10);
+    return Number.isInteger(value) && value > 0 ? value : 5;
+  }
+
+  /**
+   * Delay before the first retry (WEBHOOK_RETRY_BASE_DELAY_MS, default 1s)
+   */
+  private getRetryBaseDelayMs(): number {
+    const value = parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_MS || '1000', 10);
+    return Number.isInteger(value) && value >= 0 ? value : 1000;
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * Get Transaction History Use Case
+ *
+ * Business logic for retrieving the status audit trail of a transaction
+ *
+ * @module transaction-service/domain/useCases
+ */
+
+import { TransactionStatusHistory } from '../entities/TransactionStatusHistory';
+import { ITransactionRepository } from '../repositories/ITransactionRepository';
+import { ITransactionStatusHistoryRepository } from '../repositories/ITransactionStatusHistoryRepository';
+import {
+  NotFoundError,
+  ServiceError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Get Transaction History Use Case
+ */
+export class GetTransactionHistoryUseCase {
+  constructor(
+    private readonly transactionRepository: ITransactionRepository,
+    private readonly statusHistoryRepository: ITransactionStatusHistoryRepository
+  ) {}
+
+  /**
+   * Executes the get transaction history use case
+   */
+  public async execute(
+    transactionId: string,
+    userId: string,
+    correlationId: string = ''
+  ): Promise<TransactionStatusHistory[]> {
+    try {
+      // Ensure ownership before exposing the audit trail
+      const transaction = await this.transactionRepository.findByIdAndUserId(
+        transactionId,
+        userId
+      );
+
+      if (!isNotNull(transaction)) {
+        throw new NotFoundError('Transaction');
+      }
+
+      return await this.statusHistoryRepository.findByTransactionId(transaction.id);
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof NotFoundError || error instanceof ServiceError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to retrieve transaction history', {
+        transactionId,
+        userId,
+        operation: 'getTransactionHistory',
+        correlationId,
+      });
+    }
+  }
+}
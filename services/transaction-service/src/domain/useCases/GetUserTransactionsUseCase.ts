@@ -0,0 +1,65 @@
+/**
+ * Get User Transactions Use Case
+ *
+ * Business logic for listing a user's transactions
+ *
+ * @module transaction-service/domain/useCases
+ */
+
+import { Transaction } from '../entities/Transaction';
+import {
+  ITransactionRepository,
+  TransactionFilters,
+  PaginationOptions,
+} from '../repositories/ITransactionRepository';
+import {
+  ServiceError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+
+/**
+ * Get user transactions result
+ */
+export interface GetUserTransactionsResult {
+  transactions: Transaction[];
+  total: number;
+}
+
+/**
+ * Get User Transactions Use Case
+ */
+export class GetUserTransactionsUseCase {
+  constructor(private readonly transactionRepository: ITransactionRepository) {}
+
+  /**
+   * Executes the get user transactions use case
+   */
+  public async execute(
+    userId: string,
+    filters: TransactionFilters,
+    pagination: PaginationOptions,
+    correlationId: string = ''
+  ): Promise<GetUserTransactionsResult> {
+    try {
+      const [transactions, total] = await Promise.all([
+        this.transactionRepository.findByUserId(userId, filters, pagination),
+        this.transactionRepository.countByUserId(userId, filters),
+      ]);
+
+      return { transactions, total };
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof ServiceError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to retrieve transactions', {
+        userId,
+        filters,
+        operation: 'getUserTransactions',
+        correlationId,
+      });
+    }
+  }
+}
@@ -0,0 +1,63 @@
+/**
+ * List Webhook Deliveries Use Case
+ *
+ * Business logic for reading a merchant's delivery log. Filtering on
+ * DEAD_LETTER lists the deliveries waiting for a manual redelivery.
+ *
+ * @module transaction-service/domain/useCases
+ */
+
+import { WebhookDelivery } from '../entities/WebhookDelivery';
+import {
+  IWebhookDeliveryRepository,
+  WebhookDeliveryFilters,
+} from '../repositories/IWebhookDeliveryRepository';
+import { PaginationOptions } from '../repositories/ITransactionRepository';
+import { ServiceError, handleUnknownError } from '@shield/shared/errors';
+
+/**
+ * List webhook deliveries result
+ */
+export interface ListWebhookDeliveriesResult {
+  deliveries: WebhookDelivery[];
+  total: number;
+}
+
+/**
+ * List Webhook Deliveries Use Case
+ */
+export class ListWebhookDeliveriesUseCase {
+  constructor(private readonly webhookDeliveryRepository: IWebhookDeliveryRepository) {}
+
+  /**
+   * Executes the list webhook deliveries use case
+   */
+  public async execute(
+    userId: string,
+    filters: WebhookDeliveryFilters,
+    pagination: PaginationOptions,
+    correlationId: string = ''
+  ): Promise<ListWebhookDeliveriesResult> {
+    try {
+      const [deliveries, total] = await Promise.all([
+        this.webhookDeliveryRepository.findByUserId(userId, filters, pagination),
+        this.webhookDeliveryRepository.countByUserId(userId, filters),
+      ]);
+
+      return { deliveries, total };
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof ServiceError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to list webhook deliveries', {
+        userId,
+        filters,
+        operation: 'listWebhookDeliveries',
+        correlationId,
+      });
+    }
+  }
+}
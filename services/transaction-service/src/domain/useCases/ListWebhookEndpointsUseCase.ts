@@ -0,0 +1,39 @@
+/**
+ * List Webhook Endpoints Use Case
+ *
+ * Business logic for listing a merchant's active webhook endpoints
+ *
+ * @module transaction-service/domain/useCases
+ */
+
+import { WebhookEndpoint } from '../entities/WebhookEndpoint';
+import { IWebhookEndpointRepository } from '../repositories/IWebhookEndpointRepository';
+import { ServiceError, handleUnknownError } from '@shield/shared/errors';
+
+/**
+ * List Webhook Endpoints Use Case
+ */
+export class ListWebhookEndpointsUseCase {
+  constructor(private readonly webhookEndpointRepository: IWebhookEndpointRepository) {}
+
+  /**
+   * Executes the list webhook endpoints use case
+   */
+  public async execute(userId: string, correlationId: string = ''): Promise<WebhookEndpoint[]> {
+    try {
+      return await this.webhookEndpointRepository.findActiveByUserId(userId);
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof ServiceError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to list webhook endpoints', {
+        userId,
+        operation: 'listWebhookEndpoints',
+        correlationId,
+      });
+    }
+  }
+}
@@ -0,0 +1,347 @@
+/**
+ * Match Deposits Use Case
+ *
+ * Links incoming on-chain USDT transfers to PENDING transactions.
+ *
+ * Only transfers blockchain-service reports as CONFIRMED are considered. A
+ * transfer matches a transaction when it was sent from the transaction's
+ * source wallet to its deposit address and its amount is within
+ * DEPOSIT_MATCH_TOLERANCE_USDT of `amountUSDT`. Matched transactions move
+ * PENDING -> PAYMENT_RECEIVED -> VALIDATING.
+ *
+ * When no amount matches but exactly one transaction awaits a deposit from
+ * that wallet at that address, the transfer is linked to it and flagged for
+ * manual review as an under- or over-payment (the transaction stops at
+ * PAYMENT_RECEIVED). Transfers from any other sender are never linked
+ * automatically, and neither are transactions without a recorded source
+ * wallet; they are left for manual reconciliation.
+ *
+ * Linked deposits are announced to the merchant as deposit.detected, and each
+ * transition as transaction.status_changed.
+ *
+ * @module transaction-service/domain/useCases
+ */
+
+import { Transaction } from '../entities/Transaction';
+import { SYSTEM_ACTOR_PREFIX, TransactionStatusHistory } from '../entities/TransactionStatusHistory';
+import { ITransactionRepository } from '../repositories/ITransactionRepository';
+import { IBlockchainServiceClient, IncomingTransfer } from '../services/IBlockchainServiceClient';
+import { IWebhookEventPublisher } from '../services/IWebhookEventPublisher';
+import {
+  ChainType,
+  TransactionStatus,
+  WebhookEventType,
+  isEvmChain,
+  logError,
+  logInfo,
+} from '@shield/shared/types';
+import {
+  BusinessLogicError,
+  ConflictError,
+  ExternalServiceError,
+  ServiceError,
+  ValidationError,
+  ensureBaseError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Actor recorded on status history rows written by the matcher
+ */
+export const DEPOSIT_MATCHER_ACTOR = `${SYSTEM_ACTOR_PREFIX}deposit-matcher`;
+
+/**
+ * Outcome of a matching run
+ */
+export interface MatchDepositsResult {
+  /** Transfers settled automatically (now VALIDATING) */
+  matched: number;
+  /** Transfers linked but flagged as under- or over-payments */
+  flaggedForReview: number;
+  /** Confirmed transfers that could not be attributed to a transaction */
+  unmatched: number;
+  /** Lowest block with a transfer still awaiting confirmations (null if none); it must be scanned again */
+  firstUnconfirmedBlock: number | null;
+}
+
+/**
+ * Match Deposits Use Case
+ */
+export class MatchDepositsUseCase {
+  constructor(
+    private readonly transactionRepository: ITransactionRepository,
+    private readonly blockchainServiceClient: IBlockchainServiceClient,
+    private readonly webhookEventPublisher: IWebhookEventPublisher
+  ) {}
+
+  /**
+   * Executes the match deposits use case for a block range (inclusive)
+   */
+  public async execute(
+    chain: ChainType,
+    fromBlock: number,
+    toBlock: number,
+    correlationId: string = ''
+  ): Promise<MatchDepositsResult> {
+    const result: MatchDepositsResult = {
+      matched: 0,
+      flaggedForReview: 0,
+      unmatched: 0,
+      firstUnconfirmedBlock: null,
+    };
+
+    try {
+      if (toBlock < fromBlock) {
+        throw new ValidationError('To block must be greater than or equal to from block', {
+          fromBlock,
+          toBlock,
+        });
+      }
+
+      const awaiting = await this.transactionRepository.findAwaitingDeposit(chain);
+
+      // Group by deposit address so each address is scanned once
+      const byAddress = new Map<string, Transaction[]>();
+      for (const transaction of awaiting) {
+        const key = this.normalizeAddress(chain, transaction.toAddress);
+        byAddress.set(key, [...(byAddress.get(key) ?? []), transaction]);
+      }
+
+      for (const candidates of byAddress.values()) {
+        const transfers = await this.blockchainServiceClient.getIncomingTransfers(
+          chain,
+          candidates[0].toAddress,
+          fromBlock,
+          toBlock,
+          correlationId
+        );
+
+        // Oldest transfer first, so it settles the oldest matching transaction
+        const ordered = [...transfers].sort((a, b) => a.blockNumber - b.blockNumber);
+
+        for (const transfer of ordered) {
+          if (!transfer.confirmed) {
+            result.firstUnconfirmedBlock = Math.min(
+              result.firstUnconfirmedBlock ?? transfer.blockNumber,
+              transfer.blockNumber
+            );
+            continue;
+          }
+
+          const outcome = await this.matchTransfer(chain, transfer, candidates, correlationId);
+          if (outcome === 'matched') {
+            result.matched += 1;
+          } else if (outcome === 'flaggedForReview') {
+            result.flaggedForReview += 1;
+          } else if (outcome === 'unmatched') {
+            result.unmatched += 1;
+          }
+        }
+      }
+
+      logInfo('Deposit matching completed', {
+        chain,
+        fromBlock,
+        toBlock,
+        awaitingDeposit: awaiting.length,
+        ...result,
+        correlationId,
+      });
+
+      return result;
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (
+        error instanceof ValidationError ||
+        error instanceof ExternalServiceError ||
+        error instanceof ServiceError
+      ) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to match deposits', {
+        chain,
+        fromBlock,
+        toBlock,
+        operation: 'matchDeposits',
+        correlationId,
+      });
+    }
+  }
+
+  /**
+   * Attributes a single confirmed transfer to one of the candidate transactions.
+   * Settled candidates are removed from the list so they cannot match twice.
+   *
+   * @returns The outcome, or null if the transfer was already linked on a previous run
+   */
+  private async matchTransfer(
+    chain: ChainType,
+    transfer: IncomingTransfer,
+    candidates: Transaction[],
+    correlationId: string
+  ): Promise<'matched' | 'flaggedForReview' | 'unmatched' | null> {
+    // Block ranges may overlap after a restart
+    if (isNotNull(await this.transactionRepository.findByTxHash(transfer.txHash))) {
+      return null;
+    }
+
+    const tolerance = parseFloat(process.env.DEPOSIT_MATCH_TOLERANCE_USDT || '0.01');
+    const received = parseFloat(transfer.amountUSDT);
+    const sender = this.normalizeAddress(chain, transfer.from);
+
+    const fromSender = candidates.filter(
+      (candidate) =>
+        isNotNull(candidate.sourceAddress) &&
+        this.normalizeAddress(chain, candidate.sourceAddress) === sender
+    );
+    const exactMatch = fromSender.find(
+      (candidate) => Math.abs(parseFloat(candidate.amountUSDT) - received) <= tolerance
+    );
+
+    let transaction: Transaction | null = exactMatch ?? null;
+    let reviewReason: string | null = null;
+
+    if (!isNotNull(transaction) && fromSender.length === 1) {
+      transaction = fromSender[0];
+      const expected = parseFloat(transaction.amountUSDT);
+      reviewReason = received < expected
+        ? `Underpayment: expected ${transaction.amountUSDT} USDT, received ${transfer.amountUSDT} USDT`
+        : `Overpayment: expected ${transaction.amountUSDT} USDT, received ${transfer.amountUSDT} USDT`;
+    }
+
+    if (!isNotNull(transaction)) {
+      logInfo('Unmatched deposit requires manual reconciliation', {
+        txHash: transfer.txHash,
+        fromAddress: transfer.from,
+        toAddress: transfer.to,
+        amountUSDT: transfer.amountUSDT,
+        candidates: candidates.length,
+        candidatesFromSender: fromSender.length,
+        correlationId,
+      });
+      return 'unmatched';
+    }
+
+    try {
+      await this.settle(transaction, transfer, reviewReason);
+    } catch (error: unknown) {
+      // Another writer (e.g. a manual status update) got there first; leave it to them
+      if (error instanceof ConflictError || error instanceof BusinessLogicError) {
+        logError(ensureBaseError(error), {
+          context: 'Deposit could not be linked to transaction',
+          transactionId: transaction.id,
+          txHash: transfer.txHash,
+          correlationId,
+        });
+        return 'unmatched';
+      }
+      throw error;
+    }
+
+    candidates.splice(candidates.indexOf(transaction), 1);
+
+    logInfo(isNotNull(reviewReason) ? 'Deposit flagged for manual review' : 'Deposit matched', {
+      transactionId: transaction.id,
+      txHash: transfer.txHash,
+      fromAddress: transfer.from,
+      amountUSDT: transaction.amountUSDT,
+      amountReceivedUSDT: transfer.amountUSDT,
+      reviewReason,
+      correlationId,
+    });
+
+    return isNotNull(reviewReason) ? 'flaggedForReview' : 'matched';
+  }
+
+  /**
+   * Records the payment and, for amounts within the tolerance, starts validation
+   */
+  private async settle(
+    transaction: Transaction,
+    transfer: IncomingTransfer,
+    reviewReason: string | null
+  ): Promise<void> {
+    const received = transaction.recordPayment({
+      txHash: transfer.txHash,
+      fromAddress: transfer.from,
+      amountReceivedUSDT: transfer.amountUSDT,
+      reviewReason,
+    });
+
+    const receivedHistory = TransactionStatusHistory.create({
+      transactionId: transaction.id,
+      fromStatus: transaction.status,
+      toStatus: received.status,
+      actor: DEPOSIT_MATCHER_ACTOR,
+      reason: reviewReason ?? `Deposit detected on-chain (${transfer.txHash})`,
+    });
+
+    await this.transactionRepository.updateStatus(received, receivedHistory);
+
+    // e.g. deposit.pending, sent before the deposit could be linked to this transaction
+    this.webhookEventPublisher.releaseHeld(transfer.txHash, transaction.userId);
+    this.webhookEventPublisher.publish({
+      type: WebhookEventType.DEPOSIT_DETECTED,
+      userId: transaction.userId,
+      data: {
+        transactionId: transaction.id,
+        chain: transaction.chain,
+        txHash: transfer.txHash,
+        fromAddress: transfer.from,
+        toAddress: transfer.to,
+        amountUSDT: transaction.amountUSDT,
+        amountReceivedUSDT: transfer.amountUSDT,
+        blockNumber: transfer.blockNumber,
+        requiresReview: isNotNull(reviewReason),
+        reviewReason,
+      },
+    });
+    this.publishStatusChanged(received, receivedHistory);
+
+    if (isNotNull(reviewReason)) {
+      return;
+    }
+
+    const validating = received.updateStatus(TransactionStatus.VALIDATING);
+    const validatingHistory = TransactionStatusHistory.create({
+      transactionId: transaction.id,
+      fromStatus: received.status,
+      toStatus: validating.status,
+      actor: DEPOSIT_MATCHER_ACTOR,
+      reason: 'Deposit amount matches transaction',
+    });
+
+    await this.transactionRepository.updateStatus(validating, validatingHistory);
+
+    this.publishStatusChanged(validating, validatingHistory);
+  }
+
+  /**
+   * Announces a transition to the merchant
+   */
+  private publishStatusChanged(transaction: Transaction, history: TransactionStatusHistory): void {
+    this.webhookEventPublisher.publish({
+      type: WebhookEventType.TRANSACTION_STATUS_CHANGED,
+      userId: transaction.userId,
+      data: {
+        transactionId: transaction.id,
+        chain: transaction.chain,
+        fromStatus: history.fromStatus,
+        toStatus: history.toStatus,
+        txHash: transaction.txHash,
+        amountUSDT: transaction.amountUSDT,
+        reason: history.reason,
+      },
+    });
+  }
+
+  /**
+   * EVM addresses are case-insensitive; Tron base58 addresses are not
+   */
+  private normalizeAddress(chain: ChainType, address: string): string {
+    return isEvmChain(chain) ? address.toLowerCase() : address;
+  }
+}
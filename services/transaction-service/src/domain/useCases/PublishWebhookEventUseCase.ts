@@ -0,0 +1,178 @@
+/**
+ * Publish Webhook Event Use Case
+ *
+ * Fans an event out to every active endpoint of the merchant subscribed to
+ * its type, creating one PENDING delivery per endpoint. Sending is left to
+ * DeliverWebhookUseCase so the caller can decide whether to wait for it.
+ *
+ * Events from other services may identify the merchant by the on-chain
+ * hash of one of their transactions instead of a user ID. Deposits that are
+ * not linked to a transaction yet (e.g. deposit.pending) fall back to the
+ * `chain`, `fromAddress` and `toAddress` of their data: the merchant is the
+ * one whose transactions await a deposit at that address from that source
+ * wallet. The deposit address alone is not enough, as it is the SHIELD wallet
+ * shared by every merchant on the chain. Events that more than one merchant
+ * awaits are held, and published by ReleaseHeldWebhookEventsUseCase once a
+ * transaction is linked to the hash (or purged after WEBHOOK_HELD_EVENT_TTL_MS
+ * by PurgeHeldWebhookEventsUseCase). Events that no merchant awaits are
+ * dropped, as no transaction will be linked to them.
+ *
+ * @module transaction-service/domain/useCases
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { WebhookDelivery } from '../entities/WebhookDelivery';
+import { IWebhookEndpointRepository } from '../repositories/IWebhookEndpointRepository';
+import { IWebhookDeliveryRepository } from '../repositories/IWebhookDeliveryRepository';
+import { ITransactionRepository } from '../repositories/ITransactionRepository';
+import { IHeldWebhookEventRepository } from '../repositories/IHeldWebhookEventRepository';
+import { ChainType, WebhookEventType, isEvmChain, logInfo } from '@shield/shared/types';
+import { ServiceError, ValidationError, handleUnknownError } from '@shield/shared/errors';
+import { isNonEmptyString, isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Publish webhook event use case input
+ */
+export interface PublishWebhookEventInput {
+  type: WebhookEventType;
+  userId?: string;
+  /** Resolves the merchant from their transaction when userId is absent */
+  txHash?: string;
+  data: Record<string, unknown>;
+}
+
+/**
+ * Publish Webhook Event Use Case
+ */
+export class PublishWebhookEventUseCase {
+  constructor(
+    private readonly webhookEndpointRepository: IWebhookEndpointRepository,
+    private readonly webhookDeliveryRepository: IWebhookDeliveryRepository,
+    private readonly transactionRepository: ITransactionRepository,
+    private readonly heldWebhookEventRepository: IHeldWebhookEventRepository
+  ) {}
+
+  /**
+   * Executes the publish webhook event use case
+   *
+   * @returns The deliveries created (empty if no endpoint is subscribed or the event was held or dropped)
+   */
+  public async execute(
+    input: PublishWebhookEventInput,
+    correlationId: string = ''
+  ): Promise<WebhookDelivery[]> {
+    try {
+      const userIds = await this.resolveUserIds(input);
+
+      if (userIds.length === 0) {
+        logInfo('Webhook event dropped, no transaction awaits a deposit from its sender', {
+          type: input.type,
+          txHash: input.txHash,
+          correlationId,
+        });
+        return [];
+      }
+
+      // Only events identified by a hash can have more than one candidate merchant
+      if (userIds.length > 1) {
+        const held = await this.heldWebhookEventRepository.hold(input.type, input.txHash as string, input.data);
+
+        logInfo('Webhook event held until a transaction is linked to its hash', {
+          heldEventId: held.id,
+          type: input.type,
+          txHash: input.txHash,
+          correlationId,
+        });
+        return [];
+      }
+
+      const [userId] = userIds;
+      const endpoints = await this.webhookEndpointRepository.findSubscribed(userId, input.type);
+
+      if (endpoints.length === 0) {
+        return [];
+      }
+
+      const payload = {
+        id: uuidv4(),
+        type: input.type,
+        createdAt: new Date().toISOString(),
+        data: input.data,
+      };
+      const deliveries = endpoints.map((endpoint) =>
+        WebhookDelivery.create({ endpointId: endpoint.id, payload })
+      );
+
+      await this.webhookDeliveryRepository.saveMany(deliveries);
+
+      return deliveries;
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof ValidationError || error instanceof ServiceError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to publish webhook event', {
+        type: input.type,
+        userId: input.userId,
+        txHash: input.txHash,
+        operation: 'publishWebhookEvent',
+        correlationId,
+      });
+    }
+  }
+
+  /**
+   * Resolves the candidate merchants of the event
+   *
+   * @returns One user ID once the merchant is known, every merchant awaiting the deposit otherwise
+   * @throws ValidationError if neither userId nor txHash is given
+   */
+  private async resolveUserIds(input: PublishWebhookEventInput): Promise<string[]> {
+    if (isNonEmptyString(input.userId)) {
+      return [input.userId];
+    }
+
+    if (!isNonEmptyString(input.txHash)) {
+      throw new ValidationError('Either userId or txHash is required', { type: input.type });
+    }
+
+    const transaction = await this.transactionRepository.findByTxHash(input.txHash);
+    if (isNotNull(transaction)) {
+      return [transaction.userId];
+    }
+
+    return this.resolveUserIdsByDeposit(input.data);
+  }
+
+  /**
+   * Resolves the merchants whose transactions await the event's deposit
+   *
+   * @returns The user IDs of the transactions awaiting a deposit at that address from that sender
+   */
+  private async resolveUserIdsByDeposit(data: Record<string, unknown>): Promise<string[]> {
+    const { chain, fromAddress, toAddress } = data;
+    if (
+      !Object.values(ChainType).includes(chain as ChainType) ||
+      !isNonEmptyString(fromAddress) ||
+      !isNonEmptyString(toAddress)
+    ) {
+      return [];
+    }
+
+    const normalize = (address: string): string => (isEvmChain(chain as ChainType) ? address.toLowerCase() : address);
+    const userIds = new Set(
+      (await this.transactionRepository.findAwaitingDeposit(chain as ChainType))
+        .filter(
+          (transaction) =>
+            normalize(transaction.toAddress) === normalize(toAddress) &&
+            isNotNull(transaction.sourceAddress) &&
+            normalize(transaction.sourceAddress) === normalize(fromAddress)
+        )
+        .map((transaction) => transaction.userId)
+    );
+
+    return [...userIds];
+  }
+}
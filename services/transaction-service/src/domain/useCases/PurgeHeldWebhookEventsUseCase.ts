@@ -0,0 +1,54 @@
+/**
+ * Purge Held Webhook Events Use Case
+ *
+ * Removes the events held by PublishWebhookEventUseCase that no transaction
+ * was linked to in time, e.g. because the deposit was never matched. Their
+ * merchant cannot be resolved anymore, so they would otherwise pile up.
+ *
+ * @module transaction-service/domain/useCases
+ */
+
+import { IHeldWebhookEventRepository } from '../repositories/IHeldWebhookEventRepository';
+import { logInfo } from '@shield/shared/types';
+import { ServiceError, ValidationError, handleUnknownError } from '@shield/shared/errors';
+
+/**
+ * Purge Held Webhook Events Use Case
+ */
+export class PurgeHeldWebhookEventsUseCase {
+  constructor(private readonly heldWebhookEventRepository: IHeldWebhookEventRepository) {}
+
+  /**
+   * Executes the purge held webhook events use case
+   *
+   * @param heldBefore - Events held since before this date are removed
+   * @returns The number of events removed
+   */
+  public async execute(heldBefore: Date, correlationId: string = ''): Promise<number> {
+    try {
+      const purged = await this.heldWebhookEventRepository.deleteHeldBefore(heldBefore);
+
+      if (purged > 0) {
+        logInfo('Expired held webhook events purged', {
+          heldBefore: heldBefore.toISOString(),
+          purged,
+          correlationId,
+        });
+      }
+
+      return purged;
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof ValidationError || error instanceof ServiceError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to purge held webhook events', {
+        heldBefore: heldBefore.toISOString(),
+        operation: 'purgeHeldWebhookEvents',
+        correlationId,
+      });
+    }
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * Redeliver Webhook Use Case
+ *
+ * Business logic for the manual redelivery of a webhook, typically one
+ * from the dead-letter list (delivered webhooks can be sent again too).
+ * A single attempt is made and its outcome is returned; a failed attempt
+ * puts the delivery back in DEAD_LETTER.
+ *
+ * @module transaction-service/domain/useCases
+ */
+
+import { WebhookDelivery, WebhookDeliveryStatus } from '../entities/WebhookDelivery';
+import { IWebhookEndpointRepository } from '../repositories/IWebhookEndpointRepository';
+import { IWebhookDeliveryRepository } from '../repositories/IWebhookDeliveryRepository';
+import { DeliverWebhookUseCase } from './DeliverWebhookUseCase';
+import {
+  BusinessLogicError,
+  NotFoundError,
+  ServiceError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Redeliver Webhook Use Case
+ */
+export class RedeliverWebhookUseCase {
+  constructor(
+    private readonly webhookEndpointRepository: IWebhookEndpointRepository,
+    private readonly webhookDeliveryRepository: IWebhookDeliveryRepository,
+    private readonly deliverWebhookUseCase: DeliverWebhookUseCase
+  ) {}
+
+  /**
+   * Executes the redeliver webhook use case
+   *
+   * @throws NotFoundError if the delivery does not exist or belongs to another user
+   * @throws BusinessLogicError if the delivery is still being retried or its endpoint was deleted
+   */
+  public async execute(
+    deliveryId: string,
+    userId: string,
+    correlationId: string = ''
+  ): Promise<WebhookDelivery> {
+    try {
+      const delivery = await this.webhookDeliveryRepository.findById(deliveryId);
+      const endpoint = isNotNull(delivery)
+        ? await this.webhookEndpointRepository.findByIdAndUserId(delivery.endpointId, userId)
+        : null;
+
+      // A delivery to another user's endpoint looks exactly like a missing one
+      if (!isNotNull(delivery) || !isNotNull(endpoint)) {
+        throw new NotFoundError('Webhook delivery', deliveryId);
+      }
+
+      if (delivery.status === WebhookDeliveryStatus.PENDING) {
+        throw new BusinessLogicError(
+          'This webhook is still being delivered',
+          'WEBHOOK_DELIVERY_IN_PROGRESS',
+          { deliveryId }
+        );
+      }
+
+      if (!endpoint.isActive) {
+        throw new BusinessLogicError(
+          'The endpoint of this webhook was deleted',
+          'WEBHOOK_ENDPOINT_INACTIVE',
+          { deliveryId, endpointId: endpoint.id }
+        );
+      }
+
+      await this.webhookDeliveryRepository.update(delivery.resetForRedelivery());
+
+      return await this.deliverWebhookUseCase.execute(deliveryId, { maxAttempts: 1 }, correlationId);
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (
+        error instanceof NotFoundError ||
+        error instanceof BusinessLogicError ||
+        error instanceof ServiceError
+      ) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to redeliver webhook', {
+        deliveryId,
+        userId,
+        operation: 'redeliverWebhook',
+        correlationId,
+      });
+    }
+  }
+}
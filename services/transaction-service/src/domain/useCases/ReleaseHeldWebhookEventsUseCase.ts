@@ -0,0 +1,77 @@
+/**
+ * Release Held Webhook Events Use Case
+ *
+ * Publishes the events held for a transaction hash (see
+ * PublishWebhookEventUseCase) to the merchant whose transaction was just
+ * linked to it, oldest first. Each event is removed once its deliveries
+ * exist, so a failed release is picked up by the next one.
+ *
+ * @module transaction-service/domain/useCases
+ */
+
+import { WebhookDelivery } from '../entities/WebhookDelivery';
+import { IHeldWebhookEventRepository } from '../repositories/IHeldWebhookEventRepository';
+import { PublishWebhookEventUseCase } from './PublishWebhookEventUseCase';
+import { logInfo } from '@shield/shared/types';
+import { ServiceError, ValidationError, handleUnknownError } from '@shield/shared/errors';
+
+/**
+ * Release Held Webhook Events Use Case
+ */
+export class ReleaseHeldWebhookEventsUseCase {
+  constructor(
+    private readonly heldWebhookEventRepository: IHeldWebhookEventRepository,
+    private readonly publishWebhookEventUseCase: PublishWebhookEventUseCase
+  ) {}
+
+  /**
+   * Executes the release held webhook events use case
+   *
+   * @returns The deliveries created for the released events
+   */
+  public async execute(
+    txHash: string,
+    userId: string,
+    correlationId: string = ''
+  ): Promise<WebhookDelivery[]> {
+    try {
+      const events = await this.heldWebhookEventRepository.findByTxHash(txHash);
+      const deliveries: WebhookDelivery[] = [];
+
+      for (const event of events) {
+        deliveries.push(
+          ...(await this.publishWebhookEventUseCase.execute(
+            { type: event.type, userId, data: event.data },
+            correlationId
+          ))
+        );
+        await this.heldWebhookEventRepository.delete(event.id);
+      }
+
+      if (events.length > 0) {
+        logInfo('Held webhook events released', {
+          txHash,
+          userId,
+          events: events.length,
+          deliveries: deliveries.length,
+          correlationId,
+        });
+      }
+
+      return deliveries;
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof ValidationError || error instanceof ServiceError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to release held webhook events', {
+        txHash,
+        userId,
+        operation: 'releaseHeldWebhookEvents',
+        correlationId,
+      });
+    }
+  }
+}
@@ -0,0 +1,110 @@
+/**
+ * Retry Webhook Deliveries Use Case
+ *
+ * Picks up PENDING deliveries whose next attempt is overdue, i.e. retries
+ * that were scheduled but never made because the process delivering them
+ * stopped, and delivers them again with the attempts they have left.
+ *
+ * @module transaction-service/domain/useCases
+ */
+
+import { IWebhookDeliveryRepository } from '../repositories/IWebhookDeliveryRepository';
+import { DeliverWebhookUseCase } from './DeliverWebhookUseCase';
+import { WebhookDeliveryStatus } from '../entities/WebhookDelivery';
+import { logError, logInfo } from '@shield/shared/types';
+import {
+  ServiceError,
+  ValidationError,
+  ensureBaseError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { isInteger } from '@shield/shared/utils/guards';
+
+/**
+ * Outcome of a retry run
+ */
+export interface RetryWebhookDeliveriesResult {
+  /** Deliveries acknowledged by their endpoint */
+  delivered: number;
+  /** Deliveries whose remaining attempts failed */
+  deadLettered: number;
+  /** Deliveries that could not be processed (picked up again on the next run) */
+  failed: number;
+}
+
+/**
+ * Retry Webhook Deliveries Use Case
+ */
+export class RetryWebhookDeliveriesUseCase {
+  constructor(
+    private readonly webhookDeliveryRepository: IWebhookDeliveryRepository,
+    private readonly deliverWebhookUseCase: DeliverWebhookUseCase
+  ) {}
+
+  /**
+   * Delivers up to `limit` PENDING deliveries whose next attempt was due before `dueBefore`
+   */
+  public async execute(
+    dueBefore: Date,
+    limit: number,
+    correlationId: string = ''
+  ): Promise<RetryWebhookDeliveriesResult> {
+    const result: RetryWebhookDeliveriesResult = { delivered: 0, deadLettered: 0, failed: 0 };
+
+    try {
+      if (!isInteger(limit) || limit < 1) {
+        throw new ValidationError('Limit must be a positive integer', {
+          field: 'limit',
+          value: limit,
+        });
+      }
+
+      const deliveries = await this.webhookDeliveryRepository.findDue(dueBefore, limit);
+      if (deliveries.length === 0) {
+        return result;
+      }
+
+      // Endpoints are independent, so their retries run side by side
+      const outcomes = await Promise.allSettled(
+        deliveries.map((delivery) => this.deliverWebhookUseCase.execute(delivery.id, {}, correlationId))
+      );
+
+      outcomes.forEach((outcome, index) => {
+        if (outcome.status === 'fulfilled') {
+          if (outcome.value.status === WebhookDeliveryStatus.DEAD_LETTER) {
+            result.deadLettered++;
+          } else {
+            result.delivered++;
+          }
+          return;
+        }
+
+        result.failed++;
+        const delivery = deliveries[index];
+        logError(ensureBaseError(outcome.reason, { deliveryId: delivery.id, endpointId: delivery.endpointId }), {
+          context: 'Webhook delivery retry failed',
+          correlationId,
+        });
+      });
+
+      logInfo('Overdue webhook deliveries retried', {
+        ...result,
+        correlationId,
+      });
+
+      return result;
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof ValidationError || error instanceof ServiceError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to retry webhook deliveries', {
+        limit,
+        operation: 'retryWebhookDeliveries',
+        correlationId,
+      });
+    }
+  }
+}
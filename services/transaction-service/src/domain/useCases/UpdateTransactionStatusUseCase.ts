@@ -0,0 +1,157 @@
+/**
+ * Update Transaction Status Use Case
+ *
+ * Business logic for moving a transaction through its status lifecycle.
+ * Every transition is announced to the merchant as transaction.status_changed.
+ *
+ * Operator transitions (compliance decisions, wires, deposit details) are
+ * only reachable with a service token; owners go through CancelTransactionUseCase.
+ *
+ * @module transaction-service/domain/useCases
+ */
+
+import { Transaction } from '../entities/Transaction';
+import { TransactionStatusHistory } from '../entities/TransactionStatusHistory';
+import { ITransactionRepository } from '../repositories/ITransactionRepository';
+import { IWebhookEventPublisher } from '../services/IWebhookEventPublisher';
+import { TransactionStatus, WebhookEventType, isEvmChain } from '@shield/shared/types';
+import {
+  BusinessLogicError,
+  ConflictError,
+  NotFoundError,
+  ServiceError,
+  ValidationError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+import { isValidEthereumAddress, isValidTronAddress } from '@shield/shared/utils';
+
+/**
+ * Update transaction status use case input
+ */
+export interface UpdateTransactionStatusInput {
+  transactionId: string;
+  /** Owner the transaction must belong to; omitted for operator (service token) updates */
+  userId?: string;
+  status: TransactionStatus;
+  /** User ID, or `system:<component>` for automated transitions */
+  actor: string;
+  reason?: string;
+  txHash?: string;
+  fromAddress?: string;
+  notes?: string;
+}
+
+/**
+ * Update Transaction Status Use Case
+ */
+export class UpdateTransactionStatusUseCase {
+  constructor(
+    private readonly transactionRepository: ITransactionRepository,
+    private readonly webhookEventPublisher: IWebhookEventPublisher
+  ) {}
+
+  /**
+   * Executes the update transaction status use case
+   */
+  public async execute(
+    input: UpdateTransactionStatusInput,
+    correlationId: string = ''
+  ): Promise<Transaction> {
+    try {
+      // Find transaction and ensure ownership (operators may update any transaction)
+      const transaction = isNotNull(input.userId)
+        ? await this.transactionRepository.findByIdAndUserId(input.transactionId, input.userId)
+        : await this.transactionRepository.findById(input.transactionId);
+
+      if (!isNotNull(transaction)) {
+        throw new NotFoundError('Transaction');
+      }
+
+      // The request schema cannot know the chain up-front, so check the sender format here
+      if (isNotNull(input.fromAddress)) {
+        const isValidAddress = isEvmChain(transaction.chain)
+          ? isValidEthereumAddress(input.fromAddress)
+          : isValidTronAddress(input.fromAddress);
+
+        if (!isValidAddress) {
+          throw new ValidationError(`fromAddress is not a valid ${transaction.chain} address`, {
+            fromAddress: input.fromAddress,
+            chain: transaction.chain,
+          });
+        }
+      }
+
+      // A deposit can only settle a single transaction
+      if (isNotNull(input.txHash) && input.txHash !== transaction.txHash) {
+        const existing = await this.transactionRepository.findByTxHash(input.txHash);
+
+        if (isNotNull(existing) && !existing.equals(transaction)) {
+          throw new ConflictError('This transaction hash is already linked to another transaction', {
+            txHash: input.txHash,
+          });
+        }
+      }
+
+      // Throws BusinessLogicError for transitions the status machine does not allow
+      const updatedTransaction = transaction.updateStatus(input.status, {
+        txHash: input.txHash,
+        fromAddress: input.fromAddress,
+        notes: input.notes,
+      });
+
+      const history = TransactionStatusHistory.create({
+        transactionId: transaction.id,
+        fromStatus: transaction.status,
+        toStatus: updatedTransaction.status,
+        actor: input.actor,
+        reason: input.reason,
+        notes: input.notes,
+      });
+
+      const saved = await this.transactionRepository.updateStatus(updatedTransaction, history);
+
+      this.webhookEventPublisher.publish({
+        type: WebhookEventType.TRANSACTION_STATUS_CHANGED,
+        userId: saved.userId,
+        data: {
+          transactionId: saved.id,
+          chain: saved.chain,
+          fromStatus: history.fromStatus,
+          toStatus: saved.status,
+          txHash: saved.txHash,
+          amountUSDT: saved.amountUSDT,
+          reason: history.reason,
+        },
+      });
+
+      // Events that arrived before the deposit was reconciled manually
+      if (isNotNull(saved.txHash) && saved.txHash !== transaction.txHash) {
+        this.webhookEventPublisher.releaseHeld(saved.txHash, saved.userId);
+      }
+
+      return saved;
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (
+        error instanceof NotFoundError ||
+        error instanceof BusinessLogicError ||
+        error instanceof ValidationError ||
+        error instanceof ConflictError ||
+        error instanceof ServiceError
+      ) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to update transaction status', {
+        transactionId: input.transactionId,
+        userId: input.userId,
+        status: input.status,
+        actor: input.actor,
+        operation: 'updateTransactionStatus',
+        correlationId,
+      });
+    }
+  }
+}
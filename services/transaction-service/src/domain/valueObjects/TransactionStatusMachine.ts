@@ -0,0 +1,100 @@
+/**
+ * Transaction Status Machine
+ *
+ * Defines the legal transitions of the TransactionStatus lifecycle
+ *
+ *   PENDING -> PAYMENT_RECEIVED -> VALIDATING -> COMPLIANCE_CHECK -> APPROVED
+ *     -> WIRE_SUBMITTED -> WIRE_PROCESSED
+ *
+ * Any non-terminal status may move to FAILED; only COMPLIANCE_CHECK may move
+ * to REJECTED. WIRE_PROCESSED, FAILED and REJECTED are terminal.
+ *
+ * @module transaction-service/domain/valueObjects
+ */
+
+import { TransactionStatus } from '@shield/shared/types';
+import { BusinessLogicError } from '@shield/shared/errors';
+
+/**
+ * Allowed next statuses for every status
+ */
+const TRANSITIONS: ReadonlyMap<TransactionStatus, readonly TransactionStatus[]> = new Map([
+  [TransactionStatus.PENDING, [
+    TransactionStatus.PAYMENT_RECEIVED,
+    TransactionStatus.FAILED,
+  ]],
+  [TransactionStatus.PAYMENT_RECEIVED, [
+    TransactionStatus.VALIDATING,
+    TransactionStatus.FAILED,
+  ]],
+  [TransactionStatus.VALIDATING, [
+    TransactionStatus.COMPLIANCE_CHECK,
+    TransactionStatus.FAILED,
+  ]],
+  [TransactionStatus.COMPLIANCE_CHECK, [
+    TransactionStatus.APPROVED,
+    TransactionStatus.REJECTED,
+    TransactionStatus.FAILED,
+  ]],
+  [TransactionStatus.APPROVED, [
+    TransactionStatus.WIRE_SUBMITTED,
+    TransactionStatus.FAILED,
+  ]],
+  [TransactionStatus.WIRE_SUBMITTED, [
+    TransactionStatus.WIRE_PROCESSED,
+    TransactionStatus.FAILED,
+  ]],
+  [TransactionStatus.WIRE_PROCESSED, []],
+  [TransactionStatus.FAILED, []],
+  [TransactionStatus.REJECTED, []],
+]);
+
+/**
+ * Transaction status machine
+ */
+export class TransactionStatusMachine {
+  private constructor() {}
+
+  /**
+   * Gets the statuses a transaction may move to from the given status
+   */
+  public static getAllowedTransitions(from: TransactionStatus): readonly TransactionStatus[] {
+    return TRANSITIONS.get(from) ?? [];
+  }
+
+  /**
+   * Checks if moving from one status to another is legal
+   */
+  public static canTransition(from: TransactionStatus, to: TransactionStatus): boolean {
+    return TransactionStatusMachine.getAllowedTransitions(from).includes(to);
+  }
+
+  /**
+   * Checks if a status is terminal (no further transitions)
+   */
+  public static isTerminal(status: TransactionStatus): boolean {
+    return TransactionStatusMachine.getAllowedTransitions(status).length === 0;
+  }
+
+  /**
+   * Ensures a transition is legal
+   *
+   * @throws BusinessLogicError if the transition is not allowed
+   */
+  public static assertTransition(from: TransactionStatus, to: TransactionStatus): void {
+    if (TransactionStatusMachine.canTransition(from, to)) {
+      return;
+    }
+
+    const allowed = TransactionStatusMachine.getAllowedTransitions(from);
+    const message = allowed.length === 0
+      ? `Transaction is ${from}, which is a final status`
+      : `Transaction cannot move from ${from} to ${to}. Allowed: ${allowed.join(', ')}`;
+
+    throw new BusinessLogicError(message, 'TRANSACTION_STATUS_TRANSITION', {
+      fromStatus: from,
+      toStatus: to,
+      allowedTransitions: [...allowed],
+    });
+  }
+}
@@ -0,0 +1,209 @@
+/**
+ * Transaction Service - Entry Point
+ * 
+ * Handles USDT off-ramp transactions for Shield platform:
+ * - Create transactions from wallets owned by the user
+ * - USD conversion and service fee calculation
+ * - Status lifecycle tracking from deposit to USD wire
+ * - Automatic matching of on-chain deposits to pending transactions
+ * - Signed webhooks to merchant endpoints, with retries and a dead-letter list
+ * 
+ * @module transaction-service
+ */
+
+import express from 'express';
+import swaggerUi from 'swagger-ui-express';
+import { setupSecurityHeaders, errorHandler, authenticate } from '@shield/shared/middleware';
+import { logInfo } from '@shield/shared/types';
+import { swaggerSpec } from './config/swagger.js';
+
+// ============================================================================
+// STEP 1: Initialize Environment (MUST be first!)
+// ============================================================================
+import { initializeEnvironment } from './config/env.js';
+
+const envConfig = initializeEnvironment();
+
+// ============================================================================
+// STEP 2: Initialize Express App
+// ============================================================================
+const app = express();
+const PORT = process.env.PORT || 3003;
+
+// ============================================================================
+// STEP 3: Security Middleware (apply early)
+// ============================================================================
+setupSecurityHeaders(app, {
+  cspEnabled: process.env.CSP_ENABLED === 'true',
+  hstsMaxAge: parseInt(process.env.HSTS_MAX_AGE || '31536000', 10),
+  crossOriginEmbedderPolicy: false,
+});
+
+// ============================================================================
+// STEP 4: Body Parsing Middleware
+// ============================================================================
+app.use(express.json({ limit: '10mb' }));
+app.use(express.urlencoded({ extended: true, limit: '10mb' }));
+
+// ============================================================================
+// STEP 5: Root & Health Check Endpoints (before auth)
+// ============================================================================
+app.get('/', (req, res) => {
+  res.json({
+    service: 'Shield Transaction Service',
+    version: process.env.SERVICE_VERSION || '1.0.0',
+    status: 'running',
+    environment: envConfig.environment,
+    endpoints: {
+      health: '/health',
+      apiDocs: '/v1/api-docs',
+      createTransaction: 'POST /v1/transactions',
+      listTransactions: 'GET /v1/transactions',
+      getTransaction: 'GET /v1/transactions/:id',
+      getTransactionHistory: 'GET /v1/transactions/:id/history',
+      cancelTransaction: 'POST /v1/transactions/:id/cancel',
+      updateTransactionStatus: 'PUT /v1/transactions/:id/status (internal)',
+      createWebhook: 'POST /v1/webhooks',
+      listWebhooks: 'GET /v1/webhooks',
+      deleteWebhook: 'DELETE /v1/webhooks/:id',
+      listWebhookDeliveries: 'GET /v1/webhooks/deliveries',
+      redeliverWebhook: 'POST /v1/webhooks/deliveries/:id/redeliver',
+    },
+  });
+});
+
+app.get('/health', (req, res) => {
+  res.json({
+    status: 'ok',
+    timestamp: new Date().toISOString(),
+    service: 'transaction-service',
+    environment: envConfig.environment,
+  });
+});
+
+// Swagger API Documentation (v1)
+app.use('/v1/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec, {
+  customCss: '.swagger-ui .topbar { display: none }',
+  customSiteTitle: 'Shield Transaction Service API Documentation (v1)',
+}));
+
+// ============================================================================
+// STEP 6: Application Routes (loaded dynamically after env is ready)
+// ============================================================================
+(async () => {
+  try {
+    // Dynamic import ensures env vars are loaded before route modules
+    const { default: transactionRoutes } = await import('./routes.js');
+    const { default: webhookRoutes } = await import('./webhookRoutes.js');
+    const { DependencyContainer } = await import('./infrastructure/dependencyInjection.js');
+    const { depositMatcherJob, webhookRetryJob } = DependencyContainer.getInstance();
+    
+    // Mount v1 transaction routes with mandatory authentication layer
+    // API versioning allows easy migration to v2 by changing prefix
+    app.use('/v1/transactions', authenticate, transactionRoutes);
+    app.use('/v1/webhooks', authenticate, webhookRoutes);
+
+    // ========================================================================
+    // STEP 7: Error Handling (after all routes)
+    // ========================================================================
+    
+    // Global error handler
+    app.use(errorHandler);
+
+    // 404 handler (must be last)
+    app.use((req, res) => {
+      res.status(404).json({
+        success: false,
+        error: 'NOT_FOUND',
+        message: 'Route not found',
+        path: req.path,
+        timestamp: new Date().toISOString(),
+      });
+    });
+
+    // ========================================================================
+    // STEP 8: Server Startup
+    // ========================================================================
+    if (process.env.NODE_ENV !== 'test') {
+      const server = app.listen(PORT, () => {
+        console.log('');
+        console.log('╔═══════════════════════════════════════════════════════════════╗');
+        console.log('║           💸 Shield Transaction Service Started              ║');
+        console.log('╚═══════════════════════════════════════════════════════════════╝');
+        console.log('');
+        console.log(`🚀 Service:     Transaction Service`);
+        console.log(`📡 Port:        ${PORT}`);
+        console.log(`🌍 Environment: ${envConfig.environment.toUpperCase()}`);
+        console.log(`💼 Wallets:     ${envConfig.walletServiceUrl}`);
+        console.log(`❤️  Health:      http://localhost:${PORT}/health`);
+        console.log('');
+        console.log('📋 Available Endpoints (v1):');
+        console.log(`   POST   /v1/transactions            - Create transaction`);
+        console.log(`   GET    /v1/transactions            - List transactions`);
+        console.log(`   GET    /v1/transactions/:id        - Get specific transaction`);
+        console.log(`   GET    /v1/transactions/:id/history - Get status history`);
+        console.log(`   POST   /v1/transactions/:id/cancel - Cancel pending transaction`);
+        console.log(`   PUT    /v1/transactions/:id/status - Update transaction status (internal)`);
+        console.log(`   POST   /v1/webhooks                - Register webhook endpoint`);
+        console.log(`   GET    /v1/webhooks                - List webhook endpoints`);
+        console.log(`   DELETE /v1/webhooks/:id            - Delete webhook endpoint`);
+        console.log(`   GET    /v1/webhooks/deliveries     - Delivery log / dead letters`);
+        console.log(`   POST   /v1/webhooks/deliveries/:id/redeliver - Redeliver webhook`);
+        console.log('');
+
+        logInfo('Transaction service started successfully', {
+          port: PORT,
+          environment: envConfig.environment,
+        });
+
+        // Link on-chain deposits to PENDING transactions in the background
+        if (process.env.DEPOSIT_MATCHER_ENABLED !== 'false') {
+          depositMatcherJob.start();
+        }
+
+        // Pick up webhook retries that were interrupted (e.g. by a restart)
+        if (process.env.WEBHOOK_RETRY_SWEEP_ENABLED !== 'false') {
+          webhookRetryJob.start();
+        }
+      });
+
+      // Graceful shutdown handlers
+      process.on('SIGINT', () => {
+        console.log('\n🚦 Shutting down Transaction Service gracefully...');
+        depositMatcherJob.stop();
+        webhookRetryJob.stop();
+        server.close(() => {
+          console.log('✅ Transaction Service shut down successfully.');
+          process.exit(0);
+        });
+      });
+
+      process.on('SIGTERM', () => {
+        console.log('\n🚦 Shutting down Transaction Service gracefully...');
+        depositMatcherJob.stop();
+        webhookRetryJob.stop();
+        server.close(() => {
+          console.log('✅ Transaction Service shut down successfully.');
+          process.exit(0);
+        });
+      });
+
+      // Handle uncaught exceptions
+      process.on('uncaughtException', (error) => {
+        console.error('❌ Uncaught Exception:', error);
+        process.exit(1);
+      });
+
+      // Handle unhandled promise rejections
+      process.on('unhandledRejection', (reason, promise) => {
+        console.error('❌ Unhandled Rejection at:', promise, 'reason:', reason);
+        process.exit(1);
+      });
+    }
+  } catch (error) {
+    console.error('❌ Failed to start Transaction Service:', error);
+    process.exit(1);
+  }
+})();
+
+export default app;
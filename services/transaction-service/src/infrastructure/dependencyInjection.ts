@@ -0,0 +1,239 @@
+/**
+ * Dependency Injection Container
+ *
+ * Wires up all dependencies following Clean Architecture principles
+ *
+ * @module transaction-service/infrastructure
+ */
+
+import { DatabaseConnection } from '@shield/shared/database/DatabaseConnection';
+
+// Domain repositories and services (interfaces)
+import { ITransactionRepository } from '../domain/repositories/ITransactionRepository';
+import { ITransactionStatusHistoryRepository } from '../domain/repositories/ITransactionStatusHistoryRepository';
+import { IWebhookEndpointRepository } from '../domain/repositories/IWebhookEndpointRepository';
+import { IWebhookDeliveryRepository } from '../domain/repositories/IWebhookDeliveryRepository';
+import { IDepositMatcherCheckpointRepository } from '../domain/repositories/IDepositMatcherCheckpointRepository';
+import { IHeldWebhookEventRepository } from '../domain/repositories/IHeldWebhookEventRepository';
+import { IWalletServiceClient } from '../domain/services/IWalletServiceClient';
+import { IBlockchainServiceClient } from '../domain/services/IBlockchainServiceClient';
+import { IWebhookSender } from '../domain/services/IWebhookSender';
+
+// Data layer implementations
+import { TransactionRepository } from '../data/repositories/TransactionRepository';
+import { TransactionStatusHistoryRepository } from '../data/repositories/TransactionStatusHistoryRepository';
+import { WebhookEndpointRepository } from '../data/repositories/WebhookEndpointRepository';
+import { WebhookDeliveryRepository } from '../data/repositories/WebhookDeliveryRepository';
+import { DepositMatcherCheckpointRepository } from '../data/repositories/DepositMatcherCheckpointRepository';
+import { HeldWebhookEventRepository } from '../data/repositories/HeldWebhookEventRepository';
+import { WalletServiceClient } from '../data/clients/WalletServiceClient';
+import { BlockchainServiceClient } from '../data/clients/BlockchainServiceClient';
+import { HttpWebhookSender } from '../data/clients/HttpWebhookSender';
+
+// Domain use cases
+import { CreateTransactionUseCase } from '../domain/useCases/CreateTransactionUseCase';
+import { GetTransactionByIdUseCase } from '../domain/useCases/GetTransactionByIdUseCase';
+import { GetUserTransactionsUseCase } from '../domain/useCases/GetUserTransactionsUseCase';
+import { UpdateTransactionStatusUseCase } from '../domain/useCases/UpdateTransactionStatusUseCase';
+import { CancelTransactionUseCase } from '../domain/useCases/CancelTransactionUseCase';
+import { GetTransactionHistoryUseCase } from '../domain/useCases/GetTransactionHistoryUseCase';
+import { MatchDepositsUseCase } from '../domain/useCases/MatchDepositsUseCase';
+import { CreateWebhookEndpointUseCase } from '../domain/useCases/CreateWebhookEndpointUseCase';
+import { ListWebhookEndpointsUseCase } from '../domain/useCases/ListWebhookEndpointsUseCase';
+import { DeleteWebhookEndpointUseCase } from '../domain/useCases/DeleteWebhookEndpointUseCase';
+import { PublishWebhookEventUseCase } from '../domain/useCases/PublishWebhookEventUseCase';
+import { DeliverWebhookUseCase } from '../domain/useCases/DeliverWebhookUseCase';
+import { ListWebhookDeliveriesUseCase } from '../domain/useCases/ListWebhookDeliveriesUseCase';
+import { RedeliverWebhookUseCase } from '../domain/useCases/RedeliverWebhookUseCase';
+import { RetryWebhookDeliveriesUseCase } from '../domain/useCases/RetryWebhookDeliveriesUseCase';
+import { ReleaseHeldWebhookEventsUseCase } from '../domain/useCases/ReleaseHeldWebhookEventsUseCase';
+import { PurgeHeldWebhookEventsUseCase } from '../domain/useCases/PurgeHeldWebhookEventsUseCase';
+
+// Events
+import { WebhookDispatcher } from './events/WebhookDispatcher';
+
+// Background jobs
+import { DepositMatcherJob } from './jobs/DepositMatcherJob';
+import { WebhookRetryJob } from './jobs/WebhookRetryJob';
+
+// Presentation layer
+import { TransactionController } from '../presentation/controllers/TransactionController';
+import { WebhookController } from '../presentation/controllers/WebhookController';
+
+/**
+ * Dependency Injection Container
+ */
+export class DependencyContainer {
+  private static instance: DependencyContainer | null = null;
+
+  // Repositories
+  public readonly transactionRepository: ITransactionRepository;
+  public readonly transactionStatusHistoryRepository: ITransactionStatusHistoryRepository;
+  public readonly webhookEndpointRepository: IWebhookEndpointRepository;
+  public readonly webhookDeliveryRepository: IWebhookDeliveryRepository;
+  public readonly depositMatcherCheckpointRepository: IDepositMatcherCheckpointRepository;
+  public readonly heldWebhookEventRepository: IHeldWebhookEventRepository;
+
+  // External service clients
+  public readonly walletServiceClient: IWalletServiceClient;
+  public readonly blockchainServiceClient: IBlockchainServiceClient;
+  public readonly webhookSender: IWebhookSender;
+
+  // Use Cases
+  public readonly createTransactionUseCase: CreateTransactionUseCase;
+  public readonly getTransactionByIdUseCase: GetTransactionByIdUseCase;
+  public readonly getUserTransactionsUseCase: GetUserTransactionsUseCase;
+  public readonly updateTransactionStatusUseCase: UpdateTransactionStatusUseCase;
+  public readonly cancelTransactionUseCase: CancelTransactionUseCase;
+  public readonly getTransactionHistoryUseCase: GetTransactionHistoryUseCase;
+  public readonly matchDepositsUseCase: MatchDepositsUseCase;
+  public readonly createWebhookEndpointUseCase: CreateWebhookEndpointUseCase;
+  public readonly listWebhookEndpointsUseCase: ListWebhookEndpointsUseCase;
+  public readonly deleteWebhookEndpointUseCase: DeleteWebhookEndpointUseCase;
+  public readonly publishWebhookEventUseCase: PublishWebhookEventUseCase;
+  public readonly deliverWebhookUseCase: DeliverWebhookUseCase;
+  public readonly listWebhookDeliveriesUseCase: ListWebhookDeliveriesUseCase;
+  public readonly redeliverWebhookUseCase: RedeliverWebhookUseCase;
+  public readonly retryWebhookDeliveriesUseCase: RetryWebhookDeliveriesUseCase;
+  public readonly releaseHeldWebhookEventsUseCase: ReleaseHeldWebhookEventsUseCase;
+  public readonly purgeHeldWebhookEventsUseCase: PurgeHeldWebhookEventsUseCase;
+
+  // Events (webhooks to merchant endpoints)
+  public readonly webhookDispatcher: WebhookDispatcher;
+
+  // Background jobs (started from index.ts)
+  public readonly depositMatcherJob: DepositMatcherJob;
+  public readonly webhookRetryJob: WebhookRetryJob;
+
+  // Controllers
+  public readonly transactionController: TransactionController;
+  public readonly webhookController: WebhookController;
+
+  private constructor() {
+    // Initialize database connection
+    DatabaseConnection.getInstance().connect().catch((error) => {
+      throw new Error(`Failed to initialize database: ${error.message}`);
+    });
+
+    // Initialize repositories
+    this.transactionRepository = new TransactionRepository();
+    this.transactionStatusHistoryRepository = new TransactionStatusHistoryRepository();
+    this.webhookEndpointRepository = new WebhookEndpointRepository();
+    this.webhookDeliveryRepository = new WebhookDeliveryRepository();
+    this.depositMatcherCheckpointRepository = new DepositMatcherCheckpointRepository();
+    this.heldWebhookEventRepository = new HeldWebhookEventRepository();
+
+    // Initialize external service clients
+    this.walletServiceClient = new WalletServiceClient();
+    this.blockchainServiceClient = new BlockchainServiceClient();
+    this.webhookSender = new HttpWebhookSender();
+
+    // Initialize webhook use cases (other use cases publish through the dispatcher)
+    this.createWebhookEndpointUseCase = new CreateWebhookEndpointUseCase(this.webhookEndpointRepository);
+    this.listWebhookEndpointsUseCase = new ListWebhookEndpointsUseCase(this.webhookEndpointRepository);
+    this.deleteWebhookEndpointUseCase = new DeleteWebhookEndpointUseCase(this.webhookEndpointRepository);
+    this.publishWebhookEventUseCase = new PublishWebhookEventUseCase(
+      this.webhookEndpointRepository,
+      this.webhookDeliveryRepository,
+      this.transactionRepository,
+      this.heldWebhookEventRepository
+    );
+    this.deliverWebhookUseCase = new DeliverWebhookUseCase(
+      this.webhookEndpointRepository,
+      this.webhookDeliveryRepository,
+      this.webhookSender
+    );
+    this.listWebhookDeliveriesUseCase = new ListWebhookDeliveriesUseCase(this.webhookDeliveryRepository);
+    this.redeliverWebhookUseCase = new RedeliverWebhookUseCase(
+      this.webhookEndpointRepository,
+      this.webhookDeliveryRepository,
+      this.deliverWebhookUseCase
+    );
+    this.retryWebhookDeliveriesUseCase = new RetryWebhookDeliveriesUseCase(
+      this.webhookDeliveryRepository,
+      this.deliverWebhookUseCase
+    );
+    this.releaseHeldWebhookEventsUseCase = new ReleaseHeldWebhookEventsUseCase(
+      this.heldWebhookEventRepository,
+      this.publishWebhookEventUseCase
+    );
+    this.purgeHeldWebhookEventsUseCase = new PurgeHeldWebhookEventsUseCase(this.heldWebhookEventRepository);
+    this.webhookDispatcher = new WebhookDispatcher(
+      this.publishWebhookEventUseCase,
+      this.deliverWebhookUseCase,
+      this.releaseHeldWebhookEventsUseCase
+    );
+
+    // Initialize use cases
+    this.createTransactionUseCase = new CreateTransactionUseCase(
+      this.transactionRepository,
+      this.walletServiceClient
+    );
+    this.getTransactionByIdUseCase = new GetTransactionByIdUseCase(this.transactionRepository);
+    this.getUserTransactionsUseCase = new GetUserTransactionsUseCase(this.transactionRepository);
+    this.updateTransactionStatusUseCase = new UpdateTransactionStatusUseCase(
+      this.transactionRepository,
+      this.webhookDispatcher
+    );
+    this.cancelTransactionUseCase = new CancelTransactionUseCase(
+      this.transactionRepository,
+      this.updateTransactionStatusUseCase
+    );
+    this.getTransactionHistoryUseCase = new GetTransactionHistoryUseCase(
+      this.transactionRepository,
+      this.transactionStatusHistoryRepository
+    );
+    this.matchDepositsUseCase = new MatchDepositsUseCase(
+      this.transactionRepository,
+      this.blockchainServiceClient,
+      this.webhookDispatcher
+    );
+
+    // Initialize background jobs
+    this.depositMatcherJob = new DepositMatcherJob(
+      this.matchDepositsUseCase,
+      this.blockchainServiceClient,
+      this.depositMatcherCheckpointRepository
+    );
+    this.webhookRetryJob = new WebhookRetryJob(
+      this.retryWebhookDeliveriesUseCase,
+      this.purgeHeldWebhookEventsUseCase
+    );
+
+    // Initialize controllers
+    this.transactionController = new TransactionController(
+      this.createTransactionUseCase,
+      this.getTransactionByIdUseCase,
+      this.getUserTransactionsUseCase,
+      this.updateTransactionStatusUseCase,
+      this.getTransactionHistoryUseCase,
+      this.cancelTransactionUseCase
+    );
+    this.webhookController = new WebhookController(
+      this.createWebhookEndpointUseCase,
+      this.listWebhookEndpointsUseCase,
+      this.deleteWebhookEndpointUseCase,
+      this.listWebhookDeliveriesUseCase,
+      this.redeliverWebhookUseCase,
+      this.publishWebhookEventUseCase,
+      this.webhookDispatcher
+    );
+  }
+
+  /**
+   * Gets the singleton instance
+   */
+  public static getInstance(): DependencyContainer {
+    if (!DependencyContainer.instance) {
+      DependencyContainer.instance = new DependencyContainer();
+    }
+    return DependencyContainer.instance;
+  }
+
+  /**
+   * Resets the instance (for testing)
+   */
+  public static reset(): void {
+    DependencyContainer.instance = null;
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * Webhook Dispatcher
+ *
+ * Implementation of IWebhookEventPublisher. Events are fanned out and
+ * delivered in the background, so the operation that produced them never
+ * waits for (or fails because of) a merchant endpoint. Failures are logged;
+ * the delivery log keeps the outcome of every attempt.
+ *
+ * @module transaction-service/infrastructure/events
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { IWebhookEventPublisher, WebhookEvent } from '../../domain/services/IWebhookEventPublisher';
+import { WebhookDelivery } from '../../domain/entities/WebhookDelivery';
+import {
+  PublishWebhookEventInput,
+  PublishWebhookEventUseCase,
+} from '../../domain/useCases/PublishWebhookEventUseCase';
+import { DeliverWebhookUseCase } from '../../domain/useCases/DeliverWebhookUseCase';
+import { ReleaseHeldWebhookEventsUseCase } from '../../domain/useCases/ReleaseHeldWebhookEventsUseCase';
+import { logError } from '@shield/shared/types';
+import { ensureBaseError } from '@shield/shared/errors';
+
+/**
+ * Webhook Dispatcher
+ */
+export class WebhookDispatcher implements IWebhookEventPublisher {
+  constructor(
+    private readonly publishWebhookEventUseCase: PublishWebhookEventUseCase,
+    private readonly deliverWebhookUseCase: DeliverWebhookUseCase,
+    private readonly releaseHeldWebhookEventsUseCase: ReleaseHeldWebhookEventsUseCase
+  ) {}
+
+  /**
+   * Queues an event for delivery to the merchant's subscribed endpoints
+   */
+  public publish(event: WebhookEvent): void {
+    void this.run(event, uuidv4());
+  }
+
+  /**
+   * Publishes the events held for a transaction hash and delivers them in the background
+   */
+  public releaseHeld(txHash: string, userId: string): void {
+    const correlationId = uuidv4();
+
+    this.releaseHeldWebhookEventsUseCase
+      .execute(txHash, userId, correlationId)
+      .then((deliveries) => this.deliver(deliveries, correlationId))
+      .catch((error: unknown) => {
+        logError(ensureBaseError(error, { txHash, userId }), {
+          context: 'Held webhook events could not be released',
+          correlationId,
+        });
+      });
+  }
+
+  /**
+   * Fans an event out and delivers it in the background
+   */
+  private async run(input: PublishWebhookEventInput, correlationId: string): Promise<WebhookDelivery[]> {
+    try {
+      const deliveries = await this.publishWebhookEventUseCase.execute(input, correlationId);
+      this.deliver(deliveries, correlationId);
+      return deliveries;
+    } catch (error: unknown) {
+      logError(ensureBaseError(error, { type: input.type, userId: input.userId, txHash: input.txHash }), {
+        context: 'Webhook event could not be published',
+        correlationId,
+      });
+      return [];
+    }
+  }
+
+  /**
+   * Delivers already created deliveries in the background
+   */
+  public deliver(deliveries: WebhookDelivery[], correlationId: string): void {
+    for (const delivery of deliveries) {
+      this.deliverWebhookUseCase.execute(delivery.id, {}, correlationId).catch((error: unknown) => {
+        logError(ensureBaseError(error, { deliveryId: delivery.id, endpointId: delivery.endpointId }), {
+          context: 'Webhook delivery failed',
+          correlationId,
+        });
+      });
+    }
+  }
+}
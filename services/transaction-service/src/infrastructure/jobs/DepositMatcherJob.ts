@@ -0,0 +1,139 @@
+/**
+ * Deposit Matcher Job
+ *
+ * Periodically runs MatchDepositsUseCase over newly produced blocks of every
+ * enabled chain with a deposit address (SHIELD_{CHAIN}_WALLET_ADDRESS);
+ * transactions cannot be created on other chains, so they are not scanned.
+ *
+ * Progress is checkpointed per chain in the database, so a restarted job
+ * resumes where it stopped; the first run on a chain starts
+ * DEPOSIT_MATCHER_LOOKBACK_BLOCKS behind the head. Matching is idempotent
+ * (a txHash can only be linked once), so overlapping ranges are harmless.
+ *
+ * Configuration:
+ * - DEPOSIT_MATCHER_INTERVAL_MS      - Delay between runs (default: 30000)
+ * - DEPOSIT_MATCHER_LOOKBACK_BLOCKS  - Blocks scanned before the head on the first run (default: 200)
+ * - DEPOSIT_MATCHER_MAX_BLOCK_RANGE  - Max blocks scanned per chain per run (default: 100)
+ * - DEPOSIT_MATCHER_CHAINS           - Comma-separated chains to scan (default: every chain with a deposit address)
+ *
+ * @module transaction-service/infrastructure/jobs
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { MatchDepositsUseCase } from '../../domain/useCases/MatchDepositsUseCase';
+import { IBlockchainServiceClient } from '../../domain/services/IBlockchainServiceClient';
+import { IDepositMatcherCheckpointRepository } from '../../domain/repositories/IDepositMatcherCheckpointRepository';
+import { ChainType, logError, logInfo } from '@shield/shared/types';
+import { ensureBaseError } from '@shield/shared/errors';
+import { isNonEmptyString, isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Deposit Matcher Job
+ */
+export class DepositMatcherJob {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  constructor(
+    private readonly matchDepositsUseCase: MatchDepositsUseCase,
+    private readonly blockchainServiceClient: IBlockchainServiceClient,
+    private readonly checkpointRepository: IDepositMatcherCheckpointRepository
+  ) {}
+
+  /**
+   * Starts the periodic run (no-op if already started)
+   */
+  public start(): void {
+    if (isNotNull(this.timer)) {
+      return;
+    }
+
+    const intervalMs = parseInt(process.env.DEPOSIT_MATCHER_INTERVAL_MS || '30000', 10);
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, intervalMs);
+
+    logInfo('Deposit matcher started', { intervalMs, chains: this.getConfiguredChains() });
+  }
+
+  /**
+   * Stops the periodic run
+   */
+  public stop(): void {
+    if (isNotNull(this.timer)) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logInfo('Deposit matcher stopped');
+    }
+  }
+
+  /**
+   * Scans every configured chain once. Overlapping runs are skipped, and a
+   * failure on one chain does not prevent the others from being scanned.
+   */
+  public async runOnce(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    try {
+      for (const chain of this.getConfiguredChains()) {
+        await this.scanChain(chain);
+      }
+    } finally {
+      this.isRunning = false;
+    }
+  }
+
+  /**
+   * Matches deposits in the next block range of a chain and advances the checkpoint
+   */
+  private async scanChain(chain: ChainType): Promise<void> {
+    const correlationId = uuidv4();
+
+    try {
+      const lookback = parseInt(process.env.DEPOSIT_MATCHER_LOOKBACK_BLOCKS || '200', 10);
+      const maxRange = parseInt(process.env.DEPOSIT_MATCHER_MAX_BLOCK_RANGE || '100', 10);
+
+      const latestBlock = await this.blockchainServiceClient.getLatestBlock(chain, correlationId);
+      const lastScanned = (await this.checkpointRepository.findLastScannedBlock(chain)) ??
+        Math.max(latestBlock - lookback, 0) - 1;
+
+      const fromBlock = lastScanned + 1;
+      if (fromBlock > latestBlock) {
+        return;
+      }
+      const toBlock = Math.min(latestBlock, fromBlock + maxRange - 1);
+
+      const result = await this.matchDepositsUseCase.execute(chain, fromBlock, toBlock, correlationId);
+
+      // Only advance once the range was processed, so failures are retried next run,
+      // and stop before transfers that still await confirmations
+      await this.checkpointRepository.saveLastScannedBlock(
+        chain,
+        isNotNull(result.firstUnconfirmedBlock) ? result.firstUnconfirmedBlock - 1 : toBlock
+      );
+    } catch (error: unknown) {
+      logError(ensureBaseError(error, { chain, operation: 'depositMatcherJob', correlationId }), {
+        context: 'Deposit matcher run failed',
+      });
+    }
+  }
+
+  /**
+   * Gets the enabled chains with a deposit address configured
+   */
+  private getConfiguredChains(): ChainType[] {
+    const enabled = (process.env.DEPOSIT_MATCHER_CHAINS || '')
+      .split(',')
+      .map((chain) => chain.trim().toUpperCase())
+      .filter(isNonEmptyString);
+
+    return Object.values(ChainType).filter(
+      (chain) =>
+        (enabled.length === 0 || enabled.includes(chain)) &&
+        isNonEmptyString(process.env[`SHIELD_${chain}_WALLET_ADDRESS`])
+    );
+  }
+}
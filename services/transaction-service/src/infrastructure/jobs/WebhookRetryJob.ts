@@ -0,0 +1,101 @@
+/**
+ * Webhook Retry Job
+ *
+ * Runs RetryWebhookDeliveriesUseCase on startup and then periodically, so
+ * PENDING deliveries whose retries were lost (e.g. to a restart) are still
+ * delivered or dead-lettered.
+ *
+ * Retries scheduled in this process run in memory; a delivery only counts as
+ * abandoned once its next attempt is overdue by WEBHOOK_RETRY_SWEEP_GRACE_MS,
+ * which must exceed WEBHOOK_TIMEOUT_MS so attempts in flight are not repeated.
+ *
+ * Each run also purges the webhook events held for longer than
+ * WEBHOOK_HELD_EVENT_TTL_MS without a transaction being linked to them.
+ *
+ * Configuration:
+ * - WEBHOOK_RETRY_SWEEP_INTERVAL_MS  - Delay between runs (default: 60000)
+ * - WEBHOOK_RETRY_SWEEP_GRACE_MS     - Overdue time before a delivery is picked up (default: 60000)
+ * - WEBHOOK_RETRY_SWEEP_BATCH_SIZE   - Max deliveries retried per run (default: 100)
+ * - WEBHOOK_HELD_EVENT_TTL_MS        - How long an event is held before it is purged (default: 86400000)
+ *
+ * @module transaction-service/infrastructure/jobs
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { RetryWebhookDeliveriesUseCase } from '../../domain/useCases/RetryWebhookDeliveriesUseCase';
+import { PurgeHeldWebhookEventsUseCase } from '../../domain/useCases/PurgeHeldWebhookEventsUseCase';
+import { logError, logInfo } from '@shield/shared/types';
+import { ensureBaseError } from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Webhook Retry Job
+ */
+export class WebhookRetryJob {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  constructor(
+    private readonly retryWebhookDeliveriesUseCase: RetryWebhookDeliveriesUseCase,
+    private readonly purgeHeldWebhookEventsUseCase: PurgeHeldWebhookEventsUseCase
+  ) {}
+
+  /**
+   * Runs once immediately, then periodically (no-op if already started)
+   */
+  public start(): void {
+    if (isNotNull(this.timer)) {
+      return;
+    }
+
+    const intervalMs = parseInt(process.env.WEBHOOK_RETRY_SWEEP_INTERVAL_MS || '60000', 10);
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, intervalMs);
+    void this.runOnce();
+
+    logInfo('Webhook retry sweep started', { intervalMs });
+  }
+
+  /**
+   * Stops the periodic run
+   */
+  public stop(): void {
+    if (isNotNull(this.timer)) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logInfo('Webhook retry sweep stopped');
+    }
+  }
+
+  /**
+   * Retries overdue deliveries and purges expired held events once (overlapping runs are skipped)
+   */
+  public async runOnce(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    const correlationId = uuidv4();
+
+    try {
+      const graceMs = parseInt(process.env.WEBHOOK_RETRY_SWEEP_GRACE_MS || '60000', 10);
+      const batchSize = parseInt(process.env.WEBHOOK_RETRY_SWEEP_BATCH_SIZE || '100', 10);
+      const heldEventTtlMs = parseInt(process.env.WEBHOOK_HELD_EVENT_TTL_MS || '86400000', 10);
+
+      await this.retryWebhookDeliveriesUseCase.execute(
+        new Date(Date.now() - graceMs),
+        batchSize,
+        correlationId
+      );
+      await this.purgeHeldWebhookEventsUseCase.execute(new Date(Date.now() - heldEventTtlMs), correlationId);
+    } catch (error: unknown) {
+      logError(ensureBaseError(error, { operation: 'webhookRetryJob', correlationId }), {
+        context: 'Webhook retry sweep failed',
+      });
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
@@ -0,0 +1,417 @@
+/**
+ * Transaction Controller - Presentation Layer
+ *
+ * Thin HTTP handler - only handles HTTP concerns, delegates to use cases
+ *
+ * @module transaction-service/presentation/controllers
+ */
+
+import { Response } from 'express';
+import { AuthenticatedRequest } from '@shield/shared/middleware';
+import { TransactionData } from '../../domain/entities/Transaction';
+import { CreateTransactionUseCase } from '../../domain/useCases/CreateTransactionUseCase';
+import { GetTransactionByIdUseCase } from '../../domain/useCases/GetTransactionByIdUseCase';
+import { GetUserTransactionsUseCase } from '../../domain/useCases/GetUserTransactionsUseCase';
+import { UpdateTransactionStatusUseCase } from '../../domain/useCases/UpdateTransactionStatusUseCase';
+import { CancelTransactionUseCase } from '../../domain/useCases/CancelTransactionUseCase';
+import { GetTransactionHistoryUseCase } from '../../domain/useCases/GetTransactionHistoryUseCase';
+import { ChainType, PaginatedResponse, TransactionStatus } from '@shield/shared/types';
+import {
+  BaseError,
+  ensureBaseError,
+  shouldLogError,
+  AuthenticationError,
+  AuthorizationError,
+} from '@shield/shared/errors';
+import { logError, logInfo } from '@shield/shared/types';
+
+/**
+ * Transaction Controller
+ *
+ * Responsibilities:
+ * - Extract data from HTTP request
+ * - Call appropriate use case
+ * - Format HTTP response
+ * - Handle HTTP errors
+ */
+export class TransactionController {
+  constructor(
+    private readonly createTransactionUseCase: CreateTransactionUseCase,
+    private readonly getTransactionByIdUseCase: GetTransactionByIdUseCase,
+    private readonly getUserTransactionsUseCase: GetUserTransactionsUseCase,
+    private readonly updateTransactionStatusUseCase: UpdateTransactionStatusUseCase,
+    private readonly getTransactionHistoryUseCase: GetTransactionHistoryUseCase,
+    private readonly cancelTransactionUseCase: CancelTransactionUseCase
+  ) {}
+
+  /**
+   * Creates a new off-ramp transaction
+   */
+  public async createTransaction(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Extract data from request (validation already done by Joi middleware)
+      const userId = this.getUserId(req);
+      const { walletId, chain, amountUSDT, bankAccountName, bankAccountNumber, bankRoutingNumber } =
+        req.body;
+
+      // Call use case
+      const transaction = await this.createTransactionUseCase.execute(
+        {
+          userId,
+          accessToken: this.getAccessToken(req),
+          walletId,
+          chain,
+          amountUSDT,
+          bankAccountName,
+          bankAccountNumber,
+          bankRoutingNumber,
+        },
+        this.getCorrelationId(req)
+      );
+
+      // Log success
+      logInfo('Transaction created successfully', {
+        path: req.path,
+        method: req.method,
+        transactionId: transaction.id,
+        chain: transaction.chain,
+        amountUSDT: transaction.amountUSDT,
+        userId,
+      });
+
+      // Format HTTP response
+      res.status(201).json({
+        success: true,
+        data: transaction.toPlainObject(),
+        message: `Transaction created. Send ${transaction.amountUSDT} USDT to ${transaction.toAddress}`,
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        action: 'createTransaction',
+        userId: req.user?.userId,
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Transaction creation failed' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Gets a page of transactions for the authenticated user
+   */
+  public async getUserTransactions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Extract data from request (validation already done by Joi middleware)
+      const userId = this.getUserId(req);
+
+      // req.query is read-only in Express 5, so defaults are applied here
+      const limit = req.query.limit !== undefined ? Number(req.query.limit) : 20;
+      const offset = req.query.offset !== undefined ? Number(req.query.offset) : 0;
+      const filters = {
+        chain: req.query.chain as ChainType | undefined,
+        status: req.query.status as TransactionStatus | undefined,
+      };
+
+      // Call use case
+      const { transactions, total } = await this.getUserTransactionsUseCase.execute(
+        userId,
+        filters,
+        { limit, offset },
+        this.getCorrelationId(req)
+      );
+
+      // Log success
+      logInfo('Transactions retrieved successfully', {
+        path: req.path,
+        method: req.method,
+        count: transactions.length,
+        total,
+        userId,
+      });
+
+      // Format HTTP response
+      const response: PaginatedResponse<TransactionData> = {
+        success: true,
+        data: transactions.map((t) => t.toPlainObject()),
+        pagination: {
+          page: Math.floor(offset / limit) + 1,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+        timestamp: new Date().toISOString(),
+      };
+
+      res.status(200).json(response);
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        action: 'getUserTransactions',
+        userId: req.user?.userId,
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Failed to retrieve transactions' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Gets a specific transaction by ID
+   */
+  public async getTransactionById(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Extract data from request (validation already done by Joi middleware)
+      const userId = this.getUserId(req);
+      const { id } = req.params;
+
+      // Call use case
+      const transaction = await this.getTransactionByIdUseCase.execute(
+        id,
+        userId,
+        this.getCorrelationId(req)
+      );
+
+      // Log success
+      logInfo('Transaction retrieved successfully', {
+        path: req.path,
+        method: req.method,
+        transactionId: transaction.id,
+        userId,
+      });
+
+      // Format HTTP response
+      res.status(200).json({
+        success: true,
+        data: transaction.toPlainObject(),
+        message: 'Transaction retrieved successfully',
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        action: 'getTransactionById',
+        transactionId: req.params.id,
+        userId: req.user?.userId,
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Failed to retrieve transaction' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Updates the status of any transaction (internal services and operators only)
+   */
+  public async updateTransactionStatus(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Extract data from request (validation already done by Joi middleware)
+      const actor = this.getUserId(req);
+      const { id } = req.params;
+      const { status, reason, txHash, fromAddress, notes } = req.body;
+
+      // Call use case (no owner: service tokens act on behalf of operators)
+      const transaction = await this.updateTransactionStatusUseCase.execute(
+        {
+          transactionId: id,
+          status,
+          actor,
+          reason,
+          txHash,
+          fromAddress,
+          notes,
+        },
+        this.getCorrelationId(req)
+      );
+
+      // Log success
+      logInfo('Transaction status updated successfully', {
+        path: req.path,
+        method: req.method,
+        transactionId: transaction.id,
+        status: transaction.status,
+        actor,
+      });
+
+      // Format HTTP response
+      res.status(200).json({
+        success: true,
+        data: transaction.toPlainObject(),
+        message: `Transaction status updated to ${transaction.status}`,
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        action: 'updateTransactionStatus',
+        transactionId: req.params.id,
+        userId: req.user?.userId,
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Transaction status update failed' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Cancels a transaction of the authenticated user that is still PENDING
+   */
+  public async cancelTransaction(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Extract data from request (validation already done by Joi middleware)
+      const userId = this.getUserId(req);
+      const { id } = req.params;
+      const { reason } = req.body;
+
+      // Call use case
+      const transaction = await this.cancelTransactionUseCase.execute(
+        { transactionId: id, userId, reason },
+        this.getCorrelationId(req)
+      );
+
+      // Log success
+      logInfo('Transaction cancelled successfully', {
+        path: req.path,
+        method: req.method,
+        transactionId: transaction.id,
+        userId,
+      });
+
+      // Format HTTP response
+      res.status(200).json({
+        success: true,
+        data: transaction.toPlainObject(),
+        message: 'Transaction cancelled',
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        action: 'cancelTransaction',
+        transactionId: req.params.id,
+        userId: req.user?.userId,
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Transaction cancellation failed' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Gets the status history of a transaction, oldest first
+   */
+  public async getTransactionHistory(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Extract data from request (validation already done by Joi middleware)
+      const userId = this.getUserId(req);
+      const { id } = req.params;
+
+      // Call use case
+      const history = await this.getTransactionHistoryUseCase.execute(
+        id,
+        userId,
+        this.getCorrelationId(req)
+      );
+
+      // Log success
+      logInfo('Transaction history retrieved successfully', {
+        path: req.path,
+        method: req.method,
+        transactionId: id,
+        count: history.length,
+        userId,
+      });
+
+      // Format HTTP response
+      res.status(200).json({
+        success: true,
+        data: history.map((entry) => entry.toPlainObject()),
+        message: 'Transaction history retrieved successfully',
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        action: 'getTransactionHistory',
+        transactionId: req.params.id,
+        userId: req.user?.userId,
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Failed to retrieve transaction history' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Gets user ID from request
+   */
+  private getUserId(req: AuthenticatedRequest): string {
+    const userId = req.user?.userId;
+    if (!userId) {
+      throw new AuthorizationError('User ID not found in request', {
+        path: req.path,
+      });
+    }
+    return userId;
+  }
+
+  /**
+   * Gets the caller's bearer token so it can be forwarded to wallet-service
+   */
+  private getAccessToken(req: AuthenticatedRequest): string {
+    const authHeader = req.headers.authorization;
+    if (!authHeader || !authHeader.startsWith('Bearer ')) {
+      throw new AuthenticationError('Bearer token not found in request', {
+        path: req.path,
+      });
+    }
+    return authHeader.substring(7);
+  }
+
+  /**
+   * Gets the correlation ID propagated by the gateway, if any
+   */
+  private getCorrelationId(req: AuthenticatedRequest): string {
+    const correlationId = req.headers['x-correlation-id'];
+    return typeof correlationId === 'string' ? correlationId : '';
+  }
+
+  /**
+   * Handles errors and formats HTTP error response
+   * Uses strongly typed error handling
+   */
+  private handleError(error: BaseError, res: Response, path: string): void {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.code,
+      message: error.message,
+      statusCode: error.statusCode,
+      timestamp: error.timestamp,
+      path: path,
+      details: {
+        code: error.code,
+        context: error.context,
+      },
+    });
+  }
+}
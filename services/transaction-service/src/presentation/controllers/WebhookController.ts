@@ -0,0 +1,340 @@
+/**
+ * Webhook Controller - Presentation Layer
+ *
+ * Thin HTTP handler for webhook endpoints, the delivery log and the
+ * internal event intake - delegates to use cases
+ *
+ * @module transaction-service/presentation/controllers
+ */
+
+import { Response } from 'express';
+import { AuthenticatedRequest } from '@shield/shared/middleware';
+import { WebhookDeliveryData, WebhookDeliveryStatus } from '../../domain/entities/WebhookDelivery';
+import { CreateWebhookEndpointUseCase } from '../../domain/useCases/CreateWebhookEndpointUseCase';
+import { ListWebhookEndpointsUseCase } from '../../domain/useCases/ListWebhookEndpointsUseCase';
+import { DeleteWebhookEndpointUseCase } from '../../domain/useCases/DeleteWebhookEndpointUseCase';
+import { ListWebhookDeliveriesUseCase } from '../../domain/useCases/ListWebhookDeliveriesUseCase';
+import { RedeliverWebhookUseCase } from '../../domain/useCases/RedeliverWebhookUseCase';
+import { PublishWebhookEventUseCase } from '../../domain/useCases/PublishWebhookEventUseCase';
+import { WebhookDispatcher } from '../../infrastructure/events/WebhookDispatcher';
+import { PaginatedResponse } from '@shield/shared/types';
+import {
+  BaseError,
+  ensureBaseError,
+  shouldLogError,
+  AuthorizationError,
+} from '@shield/shared/errors';
+import { logError, logInfo } from '@shield/shared/types';
+
+/**
+ * Webhook Controller
+ */
+export class WebhookController {
+  constructor(
+    private readonly createWebhookEndpointUseCase: CreateWebhookEndpointUseCase,
+    private readonly listWebhookEndpointsUseCase: ListWebhookEndpointsUseCase,
+    private readonly deleteWebhookEndpointUseCase: DeleteWebhookEndpointUseCase,
+    private readonly listWebhookDeliveriesUseCase: ListWebhookDeliveriesUseCase,
+    private readonly redeliverWebhookUseCase: RedeliverWebhookUseCase,
+    private readonly publishWebhookEventUseCase: PublishWebhookEventUseCase,
+    private readonly webhookDispatcher: WebhookDispatcher
+  ) {}
+
+  /**
+   * Registers a webhook endpoint (the signing secret is only returned here)
+   */
+  public async createEndpoint(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Extract data from request (validation already done by Joi middleware)
+      const userId = this.getUserId(req);
+      const { url, secret, eventTypes, description } = req.body;
+
+      // Call use case
+      const result = await this.createWebhookEndpointUseCase.execute(
+        { userId, url, secret, eventTypes, description },
+        this.getCorrelationId(req)
+      );
+
+      // Log success
+      logInfo('Webhook endpoint created successfully', {
+        path: req.path,
+        method: req.method,
+        endpointId: result.endpoint.id,
+        eventTypes: result.endpoint.eventTypes,
+        userId,
+      });
+
+      // Format HTTP response
+      res.status(201).json({
+        success: true,
+        data: {
+          ...result.endpoint.toPlainObject(),
+          secret: result.secret,
+        },
+        message: 'Webhook endpoint created. Store the secret now: it will not be shown again',
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        action: 'createWebhookEndpoint',
+        userId: req.user?.userId,
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Webhook endpoint creation failed' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Lists the active webhook endpoints of the authenticated user
+   */
+  public async listEndpoints(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = this.getUserId(req);
+
+      // Call use case
+      const endpoints = await this.listWebhookEndpointsUseCase.execute(userId, this.getCorrelationId(req));
+
+      // Format HTTP response
+      res.status(200).json({
+        success: true,
+        data: endpoints.map((endpoint) => endpoint.toPlainObject()),
+        message: 'Webhook endpoints retrieved successfully',
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        action: 'listWebhookEndpoints',
+        userId: req.user?.userId,
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Failed to retrieve webhook endpoints' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Deletes (deactivates) a webhook endpoint
+   */
+  public async deleteEndpoint(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = this.getUserId(req);
+      const { id } = req.params;
+
+      // Call use case
+      await this.deleteWebhookEndpointUseCase.execute(id, userId, this.getCorrelationId(req));
+
+      // Log success
+      logInfo('Webhook endpoint deleted successfully', {
+        path: req.path,
+        method: req.method,
+        endpointId: id,
+        userId,
+      });
+
+      // Format HTTP response
+      res.status(200).json({
+        success: true,
+        data: null,
+        message: 'Webhook endpoint deleted successfully',
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        action: 'deleteWebhookEndpoint',
+        endpointId: req.params.id,
+        userId: req.user?.userId,
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Webhook endpoint deletion failed' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Gets a page of the delivery log (status=DEAD_LETTER lists the dead-letter deliveries)
+   */
+  public async listDeliveries(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = this.getUserId(req);
+
+      // req.query is read-only in Express 5, so defaults are applied here
+      const limit = req.query.limit !== undefined ? Number(req.query.limit) : 20;
+      const offset = req.query.offset !== undefined ? Number(req.query.offset) : 0;
+      const filters = {
+        endpointId: req.query.endpointId as string | undefined,
+        status: req.query.status as WebhookDeliveryStatus | undefined,
+      };
+
+      // Call use case
+      const { deliveries, total } = await this.listWebhookDeliveriesUseCase.execute(
+        userId,
+        filters,
+        { limit, offset },
+        this.getCorrelationId(req)
+      );
+
+      // Format HTTP response
+      const response: PaginatedResponse<WebhookDeliveryData> = {
+        success: true,
+        data: deliveries.map((delivery) => delivery.toPlainObject()),
+        pagination: {
+          page: Math.floor(offset / limit) + 1,
+          limit,
+          total,
+          totalPages: Math.ceil(total / limit),
+        },
+        timestamp: new Date().toISOString(),
+      };
+
+      res.status(200).json(response);
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        action: 'listWebhookDeliveries',
+        userId: req.user?.userId,
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Failed to retrieve webhook deliveries' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Redelivers a webhook once and returns the outcome
+   */
+  public async redeliver(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = this.getUserId(req);
+      const { id } = req.params;
+
+      // Call use case
+      const delivery = await this.redeliverWebhookUseCase.execute(id, userId, this.getCorrelationId(req));
+
+      // Log success
+      logInfo('Webhook redelivered', {
+        path: req.path,
+        method: req.method,
+        deliveryId: delivery.id,
+        status: delivery.status,
+        userId,
+      });
+
+      // Format HTTP response (a failed attempt is a result, not an error)
+      res.status(200).json({
+        success: true,
+        data: delivery.toPlainObject(),
+        message: delivery.isDelivered()
+          ? 'Webhook delivered successfully'
+          : `Webhook delivery failed: ${delivery.lastError ?? 'unknown error'}`,
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        action: 'redeliverWebhook',
+        deliveryId: req.params.id,
+        userId: req.user?.userId,
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Webhook redelivery failed' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Accepts an event from another service and delivers it in the background (internal)
+   */
+  public async publishEvent(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { type, userId, txHash, data } = req.body;
+      const correlationId = this.getCorrelationId(req);
+
+      // Call use case
+      const deliveries = await this.publishWebhookEventUseCase.execute(
+        { type, userId, txHash, data },
+        correlationId
+      );
+      this.webhookDispatcher.deliver(deliveries, correlationId);
+
+      // Format HTTP response
+      res.status(202).json({
+        success: true,
+        data: { deliveries: deliveries.length },
+        message: `Event accepted for ${deliveries.length} endpoint(s)`,
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        action: 'publishWebhookEvent',
+        service: req.user?.userId,
+        type: req.body?.type,
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Webhook event intake failed' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Gets user ID from request
+   */
+  private getUserId(req: AuthenticatedRequest): string {
+    const userId = req.user?.userId;
+    if (!userId) {
+      throw new AuthorizationError('User ID not found in request', {
+        path: req.path,
+      });
+    }
+    return userId;
+  }
+
+  /**
+   * Gets the correlation ID propagated by the gateway, if any
+   */
+  private getCorrelationId(req: AuthenticatedRequest): string {
+    const correlationId = req.headers['x-correlation-id'];
+    return typeof correlationId === 'string' ? correlationId : '';
+  }
+
+  /**
+   * Handles errors and formats HTTP error response
+   */
+  private handleError(error: BaseError, res: Response, path: string): void {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.code,
+      message: error.message,
+      statusCode: error.statusCode,
+      timestamp: error.timestamp,
+      path: path,
+      details: {
+        code: error.code,
+        context: error.context,
+      },
+    });
+  }
+}
@@ -0,0 +1,113 @@
+/**
+ * Transaction Service Routes - API v1
+ *
+ * Defines HTTP routes and maps them to controller methods
+ *
+ * API Versioning Strategy:
+ * - Current version: v1 (all routes prefixed with /v1)
+ * - Future version: v2 (will be implemented when breaking changes are needed)
+ *
+ * Validation schemas live in @shield/shared/validation so the gateway and
+ * any other consumer validate transactions exactly the same way.
+ *
+ * @module transaction-service/routes
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { DependencyContainer } from './infrastructure/dependencyInjection';
+import { authenticate, requireServiceToken, validateRequest } from '@shield/shared/middleware';
+import {
+  createTransactionSchema,
+  updateTransactionStatusSchema,
+  cancelTransactionSchema,
+  transactionIdParamSchema,
+  listTransactionsQuerySchema,
+} from '@shield/shared/validation';
+import type { AuthenticatedRequest } from '@shield/shared/middleware';
+
+const router = Router();
+const container = DependencyContainer.getInstance();
+const transactionController = container.transactionController;
+
+/**
+ * Helper to ensure Express passes AuthenticatedRequest to controller methods
+ */
+const withAuth =
+  (
+    handler: (req: AuthenticatedRequest, res: Response) => Promise<void> | void
+  ) =>
+    (req: Request, res: Response) => handler(req as AuthenticatedRequest, res);
+
+/**
+ * 🚨 Security Hardening
+ * Apply authentication middleware to ALL transaction routes up-front.
+ * This guarantees no route can be registered without JWT protection.
+ */
+router.use(authenticate);
+
+/**
+ * ============================================================================
+ * API v1 Routes - All require authentication
+ * ============================================================================
+ */
+
+// POST /v1/transactions - Create a new off-ramp transaction (wallet must belong to the user)
+router.post(
+  '/',
+  validateRequest(createTransactionSchema),
+  withAuth((req, res) => transactionController.createTransaction(req, res))
+);
+
+// GET /v1/transactions - List transactions for authenticated user (chain/status filters, pagination)
+router.get(
+  '/',
+  validateRequest(listTransactionsQuerySchema, 'query'),
+  withAuth((req, res) => transactionController.getUserTransactions(req, res))
+);
+
+// GET /v1/transactions/:id - Get a specific transaction by ID
+router.get(
+  '/:id',
+  validateRequest(transactionIdParamSchema, 'params'),
+  withAuth((req, res) => transactionController.getTransactionById(req, res))
+);
+
+// GET /v1/transactions/:id/history - Get the status history of a transaction
+router.get(
+  '/:id/history',
+  validateRequest(transactionIdParamSchema, 'params'),
+  withAuth((req, res) => transactionController.getTransactionHistory(req, res))
+);
+
+// POST /v1/transactions/:id/cancel - Cancel a PENDING transaction (owner only)
+router.post(
+  '/:id/cancel',
+  validateRequest(transactionIdParamSchema, 'params'),
+  validateRequest(cancelTransactionSchema),
+  withAuth((req, res) => transactionController.cancelTransaction(req, res))
+);
+
+// PUT /v1/transactions/:id/status - Update any transaction's status (service tokens only; transitions are enforced)
+// Compliance decisions, wires and deposit details are operator actions, never the owner's
+router.put(
+  '/:id/status',
+  requireServiceToken,
+  validateRequest(transactionIdParamSchema, 'params'),
+  validateRequest(updateTransactionStatusSchema),
+  withAuth((req, res) => transactionController.updateTransactionStatus(req, res))
+);
+
+/**
+ * ============================================================================
+ * Future API v2 Implementation
+ * ============================================================================
+ *
+ * When implementing v2, create a new router and mount it at /v2/transactions
+ * Example:
+ *
+ * const v2Router = Router();
+ * // ... v2 routes with updated schemas/controllers
+ * router.use('/v2', v2Router);
+ */
+
+export default router;
@@ -0,0 +1,83 @@
+/**
+ * Webhook Routes - API v1
+ *
+ * Merchant webhook endpoints, the delivery log (with its dead-letter list
+ * and manual redelivery) and the internal intake other services use to
+ * emit events such as deposit.confirmed and wallet.created.
+ *
+ * @module transaction-service/webhookRoutes
+ */
+
+import { Router, type Request, type Response } from 'express';
+import { DependencyContainer } from './infrastructure/dependencyInjection';
+import { authenticate, requireServiceToken, validateRequest } from '@shield/shared/middleware';
+import {
+  createWebhookEndpointSchema,
+  webhookIdParamSchema,
+  listWebhookDeliveriesQuerySchema,
+  publishWebhookEventSchema,
+} from '@shield/shared/validation';
+import type { AuthenticatedRequest } from '@shield/shared/middleware';
+
+const router = Router();
+const container = DependencyContainer.getInstance();
+const webhookController = container.webhookController;
+
+/**
+ * Helper to ensure Express passes AuthenticatedRequest to controller methods
+ */
+const withAuth =
+  (
+    handler: (req: AuthenticatedRequest, res: Response) => Promise<void> | void
+  ) =>
+    (req: Request, res: Response) => handler(req as AuthenticatedRequest, res);
+
+/**
+ * 🚨 Security Hardening
+ * Apply authentication middleware to ALL webhook routes up-front.
+ */
+router.use(authenticate);
+
+// POST /v1/webhooks/internal/events - Emit an event from another service (service token required)
+router.post(
+  '/internal/events',
+  requireServiceToken,
+  validateRequest(publishWebhookEventSchema),
+  withAuth((req, res) => webhookController.publishEvent(req, res))
+);
+
+// POST /v1/webhooks - Register an endpoint (returns the signing secret once)
+router.post(
+  '/',
+  validateRequest(createWebhookEndpointSchema),
+  withAuth((req, res) => webhookController.createEndpoint(req, res))
+);
+
+// GET /v1/webhooks - List the active endpoints of the authenticated user
+router.get(
+  '/',
+  withAuth((req, res) => webhookController.listEndpoints(req, res))
+);
+
+// GET /v1/webhooks/deliveries - Delivery log (endpointId/status filters; status=DEAD_LETTER for the dead-letter list)
+router.get(
+  '/deliveries',
+  validateRequest(listWebhookDeliveriesQuerySchema, 'query'),
+  withAuth((req, res) => webhookController.listDeliveries(req, res))
+);
+
+// POST /v1/webhooks/deliveries/:id/redeliver - Send a delivery again (single attempt)
+router.post(
+  '/deliveries/:id/redeliver',
+  validateRequest(webhookIdParamSchema, 'params'),
+  withAuth((req, res) => webhookController.redeliver(req, res))
+);
+
+// DELETE /v1/webhooks/:id - Delete (deactivate) an endpoint
+router.delete(
+  '/:id',
+  validateRequest(webhookIdParamSchema, 'params'),
+  withAuth((req, res) => webhookController.deleteEndpoint(req, res))
+);
+
+export default router;
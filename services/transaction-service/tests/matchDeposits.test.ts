@@ -0,0 +1,246 @@
+/**
+ * Unit Tests for Deposit Matching
+ *
+ * Tests which on-chain transfers settle PENDING transactions: sender,
+ * amount tolerance, under- and over-payments, dust, confirmations and duplicates
+ *
+ * @module transaction-service/tests
+ */
+
+import { Transaction } from '../src/domain/entities/Transaction';
+import { TransactionStatusHistory } from '../src/domain/entities/TransactionStatusHistory';
+import { ITransactionRepository } from '../src/domain/repositories/ITransactionRepository';
+import { IBlockchainServiceClient, IncomingTransfer } from '../src/domain/services/IBlockchainServiceClient';
+import { IWebhookEventPublisher, WebhookEvent } from '../src/domain/services/IWebhookEventPublisher';
+import { MatchDepositsUseCase } from '../src/domain/useCases/MatchDepositsUseCase';
+import { ChainType, TransactionStatus, WebhookEventType } from '@shield/shared/types';
+
+const CHAIN = ChainType.POLYGON;
+const DEPOSIT_ADDRESS = '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb0';
+const SOURCE_WALLET = '0x9858EfFD232B4033E47d90003D41EC34EcaEda94';
+const OTHER_WALLET = '0x6Fac4D18c912343BF86fa7049364Dd4E424Ab9C0';
+
+function createTransaction(amountUSDT: string): Transaction {
+  return Transaction.create({
+    userId: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+    walletId: '5b0c7a3e-2f5d-4c1a-9d8e-6f7a8b9c0d1e',
+    sourceAddress: SOURCE_WALLET,
+    chain: CHAIN,
+    toAddress: DEPOSIT_ADDRESS,
+    amountUSDT,
+    amountUSD: amountUSDT,
+    exchangeRate: '1',
+    serviceFee: '0',
+    netAmount: amountUSDT,
+    bankAccountName: 'Test Merchant',
+    bankAccountNumber: '000123456789',
+  });
+}
+
+function transfer(overrides: Partial<IncomingTransfer>): IncomingTransfer {
+  return {
+    txHash: '0x5c504ed432cb51138bcf09aa5e8a410dd4a1e204ef84bfed1be16dfba1b22060',
+    from: SOURCE_WALLET,
+    to: DEPOSIT_ADDRESS,
+    amountUSDT: '100',
+    blockNumber: 100,
+    confirmed: true,
+    ...overrides,
+  };
+}
+
+/**
+ * Builds a matcher over in-memory transactions and the given incoming transfers
+ */
+function createMatcher(transactions: Transaction[], transfers: IncomingTransfer[]): {
+  useCase: MatchDepositsUseCase;
+  stored: (id: string) => Transaction;
+  history: TransactionStatusHistory[];
+  events: WebhookEvent[];
+} {
+  const rows = new Map(transactions.map((transaction) => [transaction.id, transaction]));
+  const history: TransactionStatusHistory[] = [];
+  const events: WebhookEvent[] = [];
+
+  const transactionRepository = {
+    findAwaitingDeposit: async () =>
+      [...rows.values()].filter((transaction) => transaction.status === TransactionStatus.PENDING),
+    findByTxHash: async (txHash: string) =>
+      [...rows.values()].find((transaction) => transaction.txHash === txHash) ?? null,
+    updateStatus: async (transaction: Transaction, entry: TransactionStatusHistory) => {
+      rows.set(transaction.id, transaction);
+      history.push(entry);
+      return transaction;
+    },
+  } as unknown as ITransactionRepository;
+  const blockchainServiceClient = {
+    getIncomingTransfers: async () => transfers,
+  } as unknown as IBlockchainServiceClient;
+  const webhookEventPublisher: IWebhookEventPublisher = {
+    publish: (event: WebhookEvent) => events.push(event),
+    releaseHeld: () => undefined,
+  };
+
+  return {
+    useCase: new MatchDepositsUseCase(transactionRepository, blockchainServiceClient, webhookEventPublisher),
+    stored: (id: string) => rows.get(id) as Transaction,
+    history,
+    events,
+  };
+}
+
+describe('Deposit Matching', () => {
+  const originalTolerance = process.env.DEPOSIT_MATCH_TOLERANCE_USDT;
+
+  beforeEach(() => {
+    delete process.env.DEPOSIT_MATCH_TOLERANCE_USDT;
+  });
+
+  afterAll(() => {
+    if (originalTolerance !== undefined) {
+      process.env.DEPOSIT_MATCH_TOLERANCE_USDT = originalTolerance;
+    }
+  });
+
+  it('should settle a confirmed deposit from the source wallet and start validation', async () => {
+    const transaction = createTransaction('100');
+    const { useCase, stored, history, events } = createMatcher([transaction], [transfer({})]);
+
+    const result = await useCase.execute(CHAIN, 90, 110);
+
+    expect(result).toEqual({ matched: 1, flaggedForReview: 0, unmatched: 0, firstUnconfirmedBlock: null });
+    expect(stored(transaction.id).status).toBe(TransactionStatus.VALIDATING);
+    expect(stored(transaction.id).amountReceivedUSDT).toBe('100');
+    expect(history.map((entry) => [entry.fromStatus, entry.toStatus])).toEqual([
+      [TransactionStatus.PENDING, TransactionStatus.PAYMENT_RECEIVED],
+      [TransactionStatus.PAYMENT_RECEIVED, TransactionStatus.VALIDATING],
+    ]);
+    expect(events[0].type).toBe(WebhookEventType.DEPOSIT_DETECTED);
+  });
+
+  it('should compare EVM sender addresses case-insensitively', async () => {
+    const transaction = createTransaction('100');
+    const { useCase } = createMatcher([transaction], [transfer({ from: SOURCE_WALLET.toLowerCase() })]);
+
+    await expect(useCase.execute(CHAIN, 90, 110)).resolves.toMatchObject({ matched: 1 });
+  });
+
+  it('should not settle a deposit from another wallet', async () => {
+    const transaction = createTransaction('100');
+    const { useCase, stored, events } = createMatcher([transaction], [transfer({ from: OTHER_WALLET })]);
+
+    const result = await useCase.execute(CHAIN, 90, 110);
+
+    expect(result).toEqual({ matched: 0, flaggedForReview: 0, unmatched: 1, firstUnconfirmedBlock: null });
+    expect(stored(transaction.id).status).toBe(TransactionStatus.PENDING);
+    expect(events).toHaveLength(0);
+  });
+
+  it('should not link a dust transfer from another wallet', async () => {
+    const transaction = createTransaction('100');
+    const { useCase, stored } = createMatcher(
+      [transaction],
+      [transfer({ from: OTHER_WALLET, amountUSDT: '0.000001' })]
+    );
+
+    await expect(useCase.execute(CHAIN, 90, 110)).resolves.toMatchObject({ matched: 0, unmatched: 1 });
+    expect(stored(transaction.id).status).toBe(TransactionStatus.PENDING);
+  });
+
+  it('should settle an amount within the tolerance without review', async () => {
+    const transaction = createTransaction('100');
+    const { useCase, stored } = createMatcher([transaction], [transfer({ amountUSDT: '99.995' })]);
+
+    await expect(useCase.execute(CHAIN, 90, 110)).resolves.toMatchObject({ matched: 1, flaggedForReview: 0 });
+    expect(stored(transaction.id).status).toBe(TransactionStatus.VALIDATING);
+    expect(stored(transaction.id).requiresReview).toBe(false);
+  });
+
+  it('should link an underpayment from the source wallet and flag it for review', async () => {
+    const transaction = createTransaction('100');
+    const { useCase, stored, history, events } = createMatcher([transaction], [transfer({ amountUSDT: '90' })]);
+
+    const result = await useCase.execute(CHAIN, 90, 110);
+
+    expect(result).toEqual({ matched: 0, flaggedForReview: 1, unmatched: 0, firstUnconfirmedBlock: null });
+    expect(stored(transaction.id).status).toBe(TransactionStatus.PAYMENT_RECEIVED);
+    expect(stored(transaction.id).amountReceivedUSDT).toBe('90');
+    expect(stored(transaction.id).requiresReview).toBe(true);
+    expect(stored(transaction.id).reviewReason).toBe('Underpayment: expected 100 USDT, received 90 USDT');
+    expect(history).toHaveLength(1);
+    expect(events[0].data).toMatchObject({ requiresReview: true });
+  });
+
+  it('should link an overpayment from the source wallet and flag it for review', async () => {
+    const transaction = createTransaction('100');
+    const { useCase, stored } = createMatcher([transaction], [transfer({ amountUSDT: '150' })]);
+
+    await expect(useCase.execute(CHAIN, 90, 110)).resolves.toMatchObject({ flaggedForReview: 1 });
+    expect(stored(transaction.id).status).toBe(TransactionStatus.PAYMENT_RECEIVED);
+    expect(stored(transaction.id).reviewReason).toBe('Overpayment: expected 100 USDT, received 150 USDT');
+  });
+
+  it('should leave an off-amount transfer unmatched when several transactions await the same wallet', async () => {
+    const first = createTransaction('100');
+    const second = createTransaction('50');
+    const { useCase, stored } = createMatcher([first, second], [transfer({ amountUSDT: '75' })]);
+
+    await expect(useCase.execute(CHAIN, 90, 110)).resolves.toMatchObject({ flaggedForReview: 0, unmatched: 1 });
+    expect(stored(first.id).status).toBe(TransactionStatus.PENDING);
+    expect(stored(second.id).status).toBe(TransactionStatus.PENDING);
+  });
+
+  it('should use DEPOSIT_MATCH_TOLERANCE_USDT as the tolerance', async () => {
+    process.env.DEPOSIT_MATCH_TOLERANCE_USDT = '0.5';
+    const transaction = createTransaction('100');
+    const { useCase } = createMatcher([transaction], [transfer({ amountUSDT: '99.6' })]);
+
+    await expect(useCase.execute(CHAIN, 90, 110)).resolves.toMatchObject({ matched: 1 });
+  });
+
+  it('should skip unconfirmed transfers and report the lowest block to scan again', async () => {
+    const transaction = createTransaction('100');
+    const { useCase, stored } = createMatcher(
+      [transaction],
+      [
+        transfer({ txHash: '0x01', blockNumber: 105, confirmed: false }),
+        transfer({ txHash: '0x02', blockNumber: 102, confirmed: false }),
+      ]
+    );
+
+    const result = await useCase.execute(CHAIN, 90, 110);
+
+    expect(result).toEqual({ matched: 0, flaggedForReview: 0, unmatched: 0, firstUnconfirmedBlock: 102 });
+    expect(stored(transaction.id).status).toBe(TransactionStatus.PENDING);
+  });
+
+  it('should settle one transaction per transfer, oldest transfer first', async () => {
+    const first = createTransaction('100');
+    const second = createTransaction('100');
+    const { useCase, stored } = createMatcher(
+      [first, second],
+      [
+        transfer({ txHash: '0x02', blockNumber: 104 }),
+        transfer({ txHash: '0x01', blockNumber: 101 }),
+      ]
+    );
+
+    await expect(useCase.execute(CHAIN, 90, 110)).resolves.toMatchObject({ matched: 2 });
+    expect(stored(first.id).txHash).toBe('0x01');
+    expect(stored(second.id).txHash).toBe('0x02');
+  });
+
+  it('should ignore a transfer already linked on a previous run', async () => {
+    const transaction = createTransaction('100');
+    const { useCase } = createMatcher([transaction], [transfer({})]);
+
+    await useCase.execute(CHAIN, 90, 110);
+
+    await expect(useCase.execute(CHAIN, 90, 110)).resolves.toEqual({
+      matched: 0,
+      flaggedForReview: 0,
+      unmatched: 0,
+      firstUnconfirmedBlock: null,
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Unit Tests for Webhook Event Publishing
+ *
+ * Tests how the merchant of an event is resolved, in particular deposits
+ * that are not linked to a transaction yet
+ *
+ * @module transaction-service/tests
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Transaction } from '../src/domain/entities/Transaction';
+import { WebhookEndpoint } from '../src/domain/entities/WebhookEndpoint';
+import { ITransactionRepository } from '../src/domain/repositories/ITransactionRepository';
+import { IWebhookEndpointRepository } from '../src/domain/repositories/IWebhookEndpointRepository';
+import { IWebhookDeliveryRepository } from '../src/domain/repositories/IWebhookDeliveryRepository';
+import {
+  HeldWebhookEvent,
+  IHeldWebhookEventRepository,
+} from '../src/domain/repositories/IHeldWebhookEventRepository';
+import { PublishWebhookEventUseCase } from '../src/domain/useCases/PublishWebhookEventUseCase';
+import { ChainType, WebhookEventType } from '@shield/shared/types';
+
+const CHAIN = ChainType.POLYGON;
+const DEPOSIT_ADDRESS = '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb0';
+const MERCHANT_A = '3fa85f64-5717-4562-b3fc-2c963f66afa6';
+const MERCHANT_B = '7c9e6679-7425-40de-944b-e07fc1f90ae7';
+const WALLET_A = '0x9858EfFD232B4033E47d90003D41EC34EcaEda94';
+const WALLET_B = '0x6Fac4D18c912343BF86fa7049364Dd4E424Ab9C0';
+const TX_HASH = '0x5c504ed432cb51138bcf09aa5e8a410dd4a1e204ef84bfed1be16dfba1b22060';
+
+function createTransaction(userId: string, sourceAddress: string): Transaction {
+  return Transaction.create({
+    userId,
+    walletId: '5b0c7a3e-2f5d-4c1a-9d8e-6f7a8b9c0d1e',
+    sourceAddress,
+    chain: CHAIN,
+    toAddress: DEPOSIT_ADDRESS,
+    amountUSDT: '100',
+    amountUSD: '100',
+    exchangeRate: '1',
+    serviceFee: '0',
+    netAmount: '100',
+    bankAccountName: 'Test Merchant',
+    bankAccountNumber: '000123456789',
+  });
+}
+
+function depositPending(fromAddress: string): Record<string, unknown> {
+  return { chain: CHAIN, txHash: TX_HASH, fromAddress, toAddress: DEPOSIT_ADDRESS, amount: '100' };
+}
+
+/**
+ * Builds the use case over transactions awaiting a deposit; every merchant has one subscribed endpoint
+ */
+function createPublisher(awaiting: Transaction[]): {
+  useCase: PublishWebhookEventUseCase;
+  notifiedUserIds: string[];
+  held: HeldWebhookEvent[];
+} {
+  const notifiedUserIds: string[] = [];
+  const held: HeldWebhookEvent[] = [];
+
+  const webhookEndpointRepository = {
+    findSubscribed: async (userId: string) => {
+      notifiedUserIds.push(userId);
+      return [{ id: uuidv4() } as WebhookEndpoint];
+    },
+  } as unknown as IWebhookEndpointRepository;
+  const webhookDeliveryRepository = {
+    saveMany: async () => undefined,
+  } as unknown as IWebhookDeliveryRepository;
+  const transactionRepository = {
+    findByTxHash: async () => null,
+    findAwaitingDeposit: async () => awaiting,
+  } as unknown as ITransactionRepository;
+  const heldWebhookEventRepository = {
+    hold: async (type: WebhookEventType, txHash: string, data: Record<string, unknown>) => {
+      const event = { id: `held-${held.length}`, type, txHash, data, createdAt: new Date() };
+      held.push(event);
+      return event;
+    },
+  } as unknown as IHeldWebhookEventRepository;
+
+  return {
+    useCase: new PublishWebhookEventUseCase(
+      webhookEndpointRepository,
+      webhookDeliveryRepository,
+      transactionRepository,
+      heldWebhookEventRepository
+    ),
+    notifiedUserIds,
+    held,
+  };
+}
+
+describe('PublishWebhookEventUseCase', () => {
+  it('should notify the merchant awaiting a deposit from the sender', async () => {
+    const { useCase, notifiedUserIds } = createPublisher([
+      createTransaction(MERCHANT_A, WALLET_A),
+      createTransaction(MERCHANT_B, WALLET_B),
+    ]);
+
+    const deliveries = await useCase.execute({
+      type: WebhookEventType.DEPOSIT_PENDING,
+      txHash: TX_HASH,
+      data: depositPending(WALLET_B.toLowerCase()),
+    });
+
+    expect(deliveries).toHaveLength(1);
+    expect(notifiedUserIds).toEqual([MERCHANT_B]);
+  });
+
+  it('should drop a deposit from a wallet that no merchant awaits, without holding it', async () => {
+    const { useCase, notifiedUserIds, held } = createPublisher([createTransaction(MERCHANT_A, WALLET_A)]);
+
+    const deliveries = await useCase.execute({
+      type: WebhookEventType.DEPOSIT_PENDING,
+      txHash: TX_HASH,
+      data: depositPending(WALLET_B),
+    });
+
+    expect(deliveries).toHaveLength(0);
+    expect(notifiedUserIds).toEqual([]);
+    expect(held).toHaveLength(0);
+  });
+
+  it('should hold a deposit that more than one merchant awaits from the sender', async () => {
+    const { useCase, notifiedUserIds, held } = createPublisher([
+      createTransaction(MERCHANT_A, WALLET_A),
+      createTransaction(MERCHANT_B, WALLET_A),
+    ]);
+
+    await useCase.execute({
+      type: WebhookEventType.DEPOSIT_PENDING,
+      txHash: TX_HASH,
+      data: depositPending(WALLET_A),
+    });
+
+    expect(notifiedUserIds).toEqual([]);
+    expect(held).toHaveLength(1);
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * Unit Tests for Transaction Controller
+ *
+ * Tests transaction endpoint validation and health check
+ *
+ * @module transaction-service/tests
+ */
+
+import request from 'supertest';
+import app from '../src/index';
+
+// Mock authentication middleware
+jest.mock('@shield/shared/middleware', () => ({
+  ...jest.requireActual('@shield/shared/middleware'),
+  authenticate: (req: any, res: any, next: any) => {
+    req.user = { userId: '3fa85f64-5717-4562-b3fc-2c963f66afa6', email: 'test@example.com' };
+    next();
+  },
+}));
+
+// No database in unit tests (requests are rejected before reaching a repository)
+jest.mock('@shield/shared/database/DatabaseConnection', () => ({
+  DatabaseConnection: {
+    getInstance: () => ({
+      connect: async () => undefined,
+      getClient: () => ({}),
+    }),
+  },
+}));
+
+describe('Transaction Controller - API v1', () => {
+  describe('POST /v1/transactions', () => {
+    it('should return 400 for invalid amount', async () => {
+      const response = await request(app)
+        .post('/v1/transactions')
+        .set('Authorization', 'Bearer mock-token')
+        .send({
+          walletId: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+          chain: 'POLYGON',
+          amountUSDT: '-10',
+          bankAccountName: 'John Doe',
+          bankAccountNumber: '123456789',
+        });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 400 for missing bank details', async () => {
+      const response = await request(app)
+        .post('/v1/transactions')
+        .set('Authorization', 'Bearer mock-token')
+        .send({
+          walletId: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+          chain: 'TRON',
+          amountUSDT: '100',
+        });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /v1/transactions', () => {
+    it('should return 400 for unknown status filter', async () => {
+      const response = await request(app)
+        .get('/v1/transactions?status=SETTLED')
+        .set('Authorization', 'Bearer mock-token');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('PUT /v1/transactions/:id/status', () => {
+    it('should return 403 for user tokens', async () => {
+      const response = await request(app)
+        .put('/v1/transactions/3fa85f64-5717-4562-b3fc-2c963f66afa6/status')
+        .set('Authorization', 'Bearer mock-token')
+        .send({ status: 'APPROVED' });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('POST /v1/transactions/:id/cancel', () => {
+    it('should return 400 for invalid transaction ID', async () => {
+      const response = await request(app)
+        .post('/v1/transactions/not-a-uuid/cancel')
+        .set('Authorization', 'Bearer mock-token')
+        .send({});
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /v1/transactions/:id/history', () => {
+    it('should return 400 for invalid transaction ID', async () => {
+      const response = await request(app)
+        .get('/v1/transactions/not-a-uuid/history')
+        .set('Authorization', 'Bearer mock-token');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('Health Check', () => {
+    it('should return health status', async () => {
+      const response = await request(app).get('/health');
+      expect(response.status).toBe(200);
+      expect(response.body.status).toBe('ok');
+    });
+  });
+});
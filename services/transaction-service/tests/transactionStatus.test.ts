@@ -0,0 +1,135 @@
+/**
+ * Unit Tests for Transaction Status Transitions
+ *
+ * Tests the status machine and the Transaction entity transitions built on it
+ *
+ * @module transaction-service/tests
+ */
+
+import { Transaction } from '../src/domain/entities/Transaction';
+import { TransactionStatusMachine } from '../src/domain/valueObjects/TransactionStatusMachine';
+import { ChainType, TransactionStatus } from '@shield/shared/types';
+import { BusinessLogicError } from '@shield/shared/errors';
+
+const HAPPY_PATH: TransactionStatus[] = [
+  TransactionStatus.PENDING,
+  TransactionStatus.PAYMENT_RECEIVED,
+  TransactionStatus.VALIDATING,
+  TransactionStatus.COMPLIANCE_CHECK,
+  TransactionStatus.APPROVED,
+  TransactionStatus.WIRE_SUBMITTED,
+  TransactionStatus.WIRE_PROCESSED,
+];
+
+function createTransaction(): Transaction {
+  return Transaction.create({
+    userId: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+    walletId: '5b0c7a3e-2f5d-4c1a-9d8e-6f7a8b9c0d1e',
+    sourceAddress: '0x9858EfFD232B4033E47d90003D41EC34EcaEda94',
+    chain: ChainType.POLYGON,
+    toAddress: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb0',
+    amountUSDT: '100',
+    amountUSD: '100',
+    exchangeRate: '1',
+    serviceFee: '1',
+    netAmount: '99',
+    bankAccountName: 'Test Merchant',
+    bankAccountNumber: '000123456789',
+  });
+}
+
+describe('Transaction Status Transitions', () => {
+  describe('TransactionStatusMachine', () => {
+    it('should allow every step of the lifecycle in order', () => {
+      for (let i = 0; i < HAPPY_PATH.length - 1; i += 1) {
+        expect(TransactionStatusMachine.canTransition(HAPPY_PATH[i], HAPPY_PATH[i + 1])).toBe(true);
+      }
+    });
+
+    it('should not allow skipping or going back a step', () => {
+      expect(TransactionStatusMachine.canTransition(TransactionStatus.PENDING, TransactionStatus.VALIDATING)).toBe(false);
+      expect(TransactionStatusMachine.canTransition(TransactionStatus.APPROVED, TransactionStatus.WIRE_PROCESSED)).toBe(false);
+      expect(TransactionStatusMachine.canTransition(TransactionStatus.VALIDATING, TransactionStatus.PENDING)).toBe(false);
+    });
+
+    it('should allow FAILED from every non-terminal status', () => {
+      for (const status of HAPPY_PATH.slice(0, -1)) {
+        expect(TransactionStatusMachine.canTransition(status, TransactionStatus.FAILED)).toBe(true);
+      }
+    });
+
+    it('should allow REJECTED only from COMPLIANCE_CHECK', () => {
+      for (const status of Object.values(TransactionStatus)) {
+        expect(TransactionStatusMachine.canTransition(status, TransactionStatus.REJECTED)).toBe(
+          status === TransactionStatus.COMPLIANCE_CHECK
+        );
+      }
+    });
+
+    it('should treat WIRE_PROCESSED, FAILED and REJECTED as terminal', () => {
+      const terminal = Object.values(TransactionStatus).filter((status) =>
+        TransactionStatusMachine.isTerminal(status)
+      );
+
+      expect(terminal.sort()).toEqual(
+        [TransactionStatus.FAILED, TransactionStatus.REJECTED, TransactionStatus.WIRE_PROCESSED].sort()
+      );
+    });
+
+    it('should explain a rejected transition with the allowed statuses', () => {
+      expect(() =>
+        TransactionStatusMachine.assertTransition(TransactionStatus.PENDING, TransactionStatus.APPROVED)
+      ).toThrow('Transaction cannot move from PENDING to APPROVED. Allowed: PAYMENT_RECEIVED, FAILED');
+      expect(() =>
+        TransactionStatusMachine.assertTransition(TransactionStatus.FAILED, TransactionStatus.PENDING)
+      ).toThrow('Transaction is FAILED, which is a final status');
+    });
+  });
+
+  describe('Transaction', () => {
+    it('should start PENDING without payment details', () => {
+      const transaction = createTransaction();
+
+      expect(transaction.status).toBe(TransactionStatus.PENDING);
+      expect(transaction.txHash).toBeNull();
+      expect(transaction.amountReceivedUSDT).toBeNull();
+    });
+
+    it('should record a payment and flag it for review when a reason is given', () => {
+      const transaction = createTransaction().recordPayment({
+        txHash: '0xabc',
+        fromAddress: '0x9858EfFD232B4033E47d90003D41EC34EcaEda94',
+        amountReceivedUSDT: '90',
+        reviewReason: 'Underpaid by 10 USDT',
+      });
+
+      expect(transaction.status).toBe(TransactionStatus.PAYMENT_RECEIVED);
+      expect(transaction.amountReceivedUSDT).toBe('90');
+      expect(transaction.requiresReview).toBe(true);
+      expect(transaction.reviewReason).toBe('Underpaid by 10 USDT');
+    });
+
+    it('should not record a second payment', () => {
+      const paid = createTransaction().recordPayment({
+        txHash: '0xabc',
+        fromAddress: '0x9858EfFD232B4033E47d90003D41EC34EcaEda94',
+        amountReceivedUSDT: '100',
+      });
+
+      expect(() =>
+        paid.recordPayment({
+          txHash: '0xdef',
+          fromAddress: '0x9858EfFD232B4033E47d90003D41EC34EcaEda94',
+          amountReceivedUSDT: '100',
+        })
+      ).toThrow(BusinessLogicError);
+    });
+
+    it('should reject an illegal status update and leave the transaction unchanged', () => {
+      const transaction = createTransaction();
+
+      expect(() => transaction.updateStatus(TransactionStatus.WIRE_SUBMITTED)).toThrow(BusinessLogicError);
+      expect(transaction.status).toBe(TransactionStatus.PENDING);
+    });
+  });
+});
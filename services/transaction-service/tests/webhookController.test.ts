@@ -0,0 +1,276 @@
+/**
+ * Unit Tests for Webhook Controller
+ *
+ * Tests webhook endpoint validation, and delivery signing, retries,
+ * dead-lettering and private address blocking against a local HTTP receiver
+ *
+ * @module transaction-service/tests
+ */
+
+import http from 'http';
+import { AddressInfo } from 'net';
+import request from 'supertest';
+import app from '../src/index';
+import { WebhookEndpoint } from '../src/domain/entities/WebhookEndpoint';
+import { WebhookDelivery, WebhookDeliveryStatus } from '../src/domain/entities/WebhookDelivery';
+import { IWebhookEndpointRepository } from '../src/domain/repositories/IWebhookEndpointRepository';
+import { IWebhookDeliveryRepository } from '../src/domain/repositories/IWebhookDeliveryRepository';
+import { DeliverWebhookUseCase } from '../src/domain/useCases/DeliverWebhookUseCase';
+import { HttpWebhookSender } from '../src/data/clients/HttpWebhookSender';
+import { WebhookEventType } from '@shield/shared/types';
+import { encrypt, verifyWebhookSignature } from '@shield/shared/security';
+
+// Mock authentication middleware
+jest.mock('@shield/shared/middleware', () => ({
+  ...jest.requireActual('@shield/shared/middleware'),
+  authenticate: (req: any, res: any, next: any) => {
+    req.user = { userId: '3fa85f64-5717-4562-b3fc-2c963f66afa6', email: 'test@example.com' };
+    next();
+  },
+}));
+
+// No database in unit tests (requests are rejected before reaching a repository)
+jest.mock('@shield/shared/database/DatabaseConnection', () => ({
+  DatabaseConnection: {
+    getInstance: () => ({
+      connect: async () => undefined,
+      getClient: () => ({}),
+    }),
+  },
+}));
+
+const USER_ID = '3fa85f64-5717-4562-b3fc-2c963f66afa6';
+const SECRET = 'whsec_test-secret-for-webhook-signatures';
+
+/**
+ * Local stand-in for a merchant endpoint: answers with the queued status codes (200 once empty)
+ */
+interface ReceivedWebhook {
+  headers: http.IncomingHttpHeaders;
+  body: string;
+}
+
+async function startReceiver(statusCodes: number[]): Promise<{
+  url: string;
+  received: ReceivedWebhook[];
+  close: () => Promise<void>;
+}> {
+  const received: ReceivedWebhook[] = [];
+  const server = http.createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => {
+      body += chunk;
+    });
+    req.on('end', () => {
+      received.push({ headers: req.headers, body });
+      res.statusCode = statusCodes.shift() ?? 200;
+      res.end();
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    url: `http://127.0.0.1:${port}/webhooks`,
+    received,
+    close: () => new Promise<void>((resolve) => server.close(() => resolve())),
+  };
+}
+
+/**
+ * Builds a delivery use case backed by in-memory repositories
+ */
+function createDeliverUseCase(endpoint: WebhookEndpoint, delivery: WebhookDelivery): {
+  useCase: DeliverWebhookUseCase;
+  stored: () => WebhookDelivery;
+} {
+  let current = delivery;
+  const endpointRepository = {
+    findById: async () => endpoint,
+  } as unknown as IWebhookEndpointRepository;
+  const deliveryRepository = {
+    findById: async () => current,
+    update: async (updated: WebhookDelivery) => {
+      current = updated;
+      return updated;
+    },
+  } as unknown as IWebhookDeliveryRepository;
+
+  return {
+    useCase: new DeliverWebhookUseCase(endpointRepository, deliveryRepository, new HttpWebhookSender()),
+    stored: () => current,
+  };
+}
+
+describe('Webhook Controller - API v1', () => {
+  describe('POST /v1/webhooks', () => {
+    it('should return 400 for a non-http URL', async () => {
+      const response = await request(app)
+        .post('/v1/webhooks')
+        .set('Authorization', 'Bearer mock-token')
+        .send({
+          url: 'ftp://merchant.example.com/hooks',
+          eventTypes: ['deposit.detected'],
+        });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 400 for an unknown event type', async () => {
+      const response = await request(app)
+        .post('/v1/webhooks')
+        .set('Authorization', 'Bearer mock-token')
+        .send({
+          url: 'https://merchant.example.com/hooks',
+          eventTypes: ['deposit.settled'],
+        });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('GET /v1/webhooks/deliveries', () => {
+    it('should return 400 for unknown status filter', async () => {
+      const response = await request(app)
+        .get('/v1/webhooks/deliveries?status=FAILED')
+        .set('Authorization', 'Bearer mock-token');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /v1/webhooks/deliveries/:id/redeliver', () => {
+    it('should return 400 for invalid delivery ID', async () => {
+      const response = await request(app)
+        .post('/v1/webhooks/deliveries/not-a-uuid/redeliver')
+        .set('Authorization', 'Bearer mock-token');
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /v1/webhooks/internal/events', () => {
+    it('should return 403 for a user token', async () => {
+      const response = await request(app)
+        .post('/v1/webhooks/internal/events')
+        .set('Authorization', 'Bearer mock-token')
+        .send({ type: 'deposit.confirmed', txHash: `0x${'a'.repeat(64)}`, data: {} });
+
+      expect(response.status).toBe(403);
+    });
+  });
+});
+
+describe('Webhook delivery', () => {
+  const originalEnv = { ...process.env };
+
+  beforeAll(() => {
+    process.env.ENCRYPTION_KEY = 'test-encryption-key-for-webhook-secrets-0123456789';
+    process.env.WEBHOOK_RETRY_BASE_DELAY_MS = '10';
+    // The local receiver listens on a loopback address
+    process.env.WEBHOOK_ALLOW_PRIVATE_URLS = 'true';
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  function createFixtures(url: string): { endpoint: WebhookEndpoint; delivery: WebhookDelivery } {
+    const endpoint = WebhookEndpoint.create({
+      userId: USER_ID,
+      url,
+      encryptedSecret: encrypt(SECRET),
+      eventTypes: [WebhookEventType.DEPOSIT_DETECTED],
+    });
+    const delivery = WebhookDelivery.create({
+      endpointId: endpoint.id,
+      payload: {
+        id: '9b2f6a4e-1c3d-4e5f-8a7b-6c5d4e3f2a1b',
+        type: WebhookEventType.DEPOSIT_DETECTED,
+        createdAt: new Date().toISOString(),
+        data: { transactionId: USER_ID, amountUSDT: '100' },
+      },
+    });
+    return { endpoint, delivery };
+  }
+
+  it('should sign the payload with the endpoint secret', async () => {
+    const receiver = await startReceiver([200]);
+    try {
+      const { endpoint, delivery } = createFixtures(receiver.url);
+      const { useCase } = createDeliverUseCase(endpoint, delivery);
+
+      const result = await useCase.execute(delivery.id);
+
+      expect(result.status).toBe(WebhookDeliveryStatus.SUCCEEDED);
+      expect(receiver.received).toHaveLength(1);
+
+      const [webhook] = receiver.received;
+      expect(webhook.headers['x-shield-event']).toBe('deposit.detected');
+      expect(webhook.headers['x-shield-delivery']).toBe(delivery.id);
+      expect(JSON.parse(webhook.body)).toEqual(delivery.payload);
+      expect(
+        verifyWebhookSignature(
+          SECRET,
+          webhook.headers['x-shield-timestamp'] as string,
+          webhook.body,
+          webhook.headers['x-shield-signature'] as string
+        )
+      ).toBe(true);
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('should retry failed attempts until the endpoint accepts', async () => {
+    const receiver = await startReceiver([500, 503, 200]);
+    try {
+      const { endpoint, delivery } = createFixtures(receiver.url);
+      const { useCase, stored } = createDeliverUseCase(endpoint, delivery);
+
+      const result = await useCase.execute(delivery.id);
+
+      expect(result.status).toBe(WebhookDeliveryStatus.SUCCEEDED);
+      expect(result.attempts).toBe(3);
+      expect(stored().deliveredAt).not.toBeNull();
+      expect(receiver.received).toHaveLength(3);
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('should move the delivery to the dead-letter list once attempts are exhausted', async () => {
+    const receiver = await startReceiver([500, 500, 500]);
+    try {
+      const { endpoint, delivery } = createFixtures(receiver.url);
+      const { useCase } = createDeliverUseCase(endpoint, delivery);
+
+      const result = await useCase.execute(delivery.id, { maxAttempts: 3 });
+
+      expect(result.status).toBe(WebhookDeliveryStatus.DEAD_LETTER);
+      expect(result.attempts).toBe(3);
+      expect(result.lastStatusCode).toBe(500);
+    } finally {
+      await receiver.close();
+    }
+  });
+
+  it('should refuse to deliver to a private address without the override', async () => {
+    const receiver = await startReceiver([200]);
+    process.env.WEBHOOK_ALLOW_PRIVATE_URLS = 'false';
+    try {
+      const { endpoint, delivery } = createFixtures(receiver.url);
+      const { useCase } = createDeliverUseCase(endpoint, delivery);
+
+      const result = await useCase.execute(delivery.id, { maxAttempts: 1 });
+
+      expect(result.status).toBe(WebhookDeliveryStatus.DEAD_LETTER);
+      expect(result.lastError).toBe('Webhook URL must resolve to a public address');
+      expect(receiver.received).toHaveLength(0);
+    } finally {
+      process.env.WEBHOOK_ALLOW_PRIVATE_URLS = 'true';
+      await receiver.close();
+    }
+  });
+});
@@ -27,5 +27,18 @@ module.exports = {
   clearMocks: true,
   resetMocks: true,
   restoreMocks: true,
+  // uuid only ships ES modules
+  transformIgnorePatterns: ['/node_modules/(?!uuid/)'],
+  transform: {
+    '^.+\\.[tj]s$': ['ts-jest', {
+      tsconfig: 'tsconfig.test.json',
+      isolatedModules: false,
+    }],
+  },
+  moduleNameMapper: {
+    '^@shield/shared/(.*)$': '<rootDir>/../../shared/$1',
+    '^(\\.{1,2}/(.*/)?config/env)(\\.js)?$': '<rootDir>/src/config/__mocks__/env.ts',
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+  },
 };
 
@@ -117,6 +117,11 @@ export function initializeEnvironment(): {
   process.env.JWT_SECRET = jwtSecret;
   process.env.AUTH_SERVICE_URL = authServiceUrl;
 
+  // Relative key file paths are resolved against the service root, like .env
+  if (process.env.WALLET_MASTER_KEY_FILE) {
+    process.env.WALLET_MASTER_KEY_FILE = resolve(serviceRoot, process.env.WALLET_MASTER_KEY_FILE);
+  }
+
   // Validate required variables
   const requiredVars = [
     { name: 'DATABASE_URL', value: databaseUrl },
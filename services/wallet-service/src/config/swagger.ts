@@ -17,13 +17,17 @@ const swaggerDefinition: SwaggerDefinition = {
     description: `
 # Shield Wallet Service API v1
 
-Production-ready wallet management service for Polygon and Tron networks.
+Production-ready wallet management service for EVM networks (Polygon, Ethereum, Arbitrum, Base, BSC) and Tron.
 
 ## Features
 - Create and manage blockchain wallets
-- Generate new wallets with encrypted private key storage
+- Generate new wallets with envelope-encrypted private key storage (optional password as second factor)
+- Key rotation: password changes per wallet and resumable master key migrations
+- HD wallets: one encrypted BIP-39 seed per user, deposit addresses derived along BIP-44 paths
+- Per-invoice deposit addresses with expected amount, expiry and automatic reconciliation
 - Import existing wallet addresses
-- Reveal private keys (system-generated wallets only)
+- Import existing private keys or V3 keystore files (MetaMask, TronLink), encrypted like generated wallets
+- Reveal private keys (generated and key-imported wallets)
 - Wallet filtering and management
 
 ## Authentication
@@ -69,11 +73,31 @@ All endpoints require JWT authentication via Bearer token in the Authorization h
         properties: {
           id: { type: 'string', format: 'uuid' },
           userId: { type: 'string', format: 'uuid' },
-          chain: { type: 'string', enum: ['POLYGON', 'TRON'] },
+          chain: { type: 'string', enum: ['POLYGON', 'TRON', 'ETHEREUM', 'ARBITRUM', 'BASE', 'BSC'] },
           address: { type: 'string' },
           tag: { type: 'string', nullable: true },
           isActive: { type: 'boolean' },
-          createdBySystem: { type: 'boolean' },
+          createdBySystem: { type: 'boolean', description: 'Generated by the service (false for imported wallets)' },
+          hasPrivateKey: { type: 'boolean', description: 'The private key is stored and can be revealed' },
+          derivationIndex: { type: 'integer', nullable: true, description: 'BIP-44 address index (HD wallets only)' },
+          passwordProtected: { type: 'boolean', description: 'Revealing the private key needs the password' },
+        },
+      },
+      DepositAddress: {
+        type: 'object',
+        properties: {
+          id: { type: 'string', format: 'uuid' },
+          walletId: { type: 'string', format: 'uuid' },
+          chain: { type: 'string', enum: ['POLYGON', 'TRON', 'ETHEREUM', 'ARBITRUM', 'BASE', 'BSC'] },
+          address: { type: 'string' },
+          token: { type: 'string', example: 'USDT' },
+          expectedAmount: { type: 'string', example: '125.5' },
+          receivedAmount: { type: 'string', example: '0' },
+          status: { type: 'string', enum: ['AWAITING', 'PAID', 'EXPIRED', 'OVERPAID'] },
+          reference: { type: 'string', nullable: true },
+          txHashes: { type: 'array', items: { type: 'string' } },
+          expiresAt: { type: 'string', format: 'date-time' },
+          paidAt: { type: 'string', format: 'date-time', nullable: true },
         },
       },
       ErrorResponse: {
@@ -0,0 +1,67 @@
+/**
+ * Transaction Service Client
+ *
+ * HTTP implementation of ITransactionServiceClient backed by transaction-service
+ *
+ * @module wallet-service/data/clients
+ */
+
+import axios from 'axios';
+import { ITransactionServiceClient } from '../../domain/services/ITransactionServiceClient';
+import { WebhookEventType, logError } from '@shield/shared/types';
+import { ExternalServiceError, ensureBaseError } from '@shield/shared/errors';
+import { generateServiceToken } from '@shield/shared/middleware';
+
+/**
+ * Transaction Service Client
+ */
+export class TransactionServiceClient implements ITransactionServiceClient {
+  private get baseUrl(): string {
+    return process.env.TRANSACTION_SERVICE_URL || 'http://localhost:3003';
+  }
+
+  /**
+   * Emits a webhook event in the background
+   */
+  public publishWebhookEvent(
+    type: WebhookEventType,
+    userId: string,
+    data: Record<string, unknown>,
+    correlationId: string = ''
+  ): void {
+    this.sendWebhookEvent(type, userId, data, correlationId).catch((error: unknown) => {
+      logError(ensureBaseError(error), { context: 'Webhook event could not be sent', correlationId });
+    });
+  }
+
+  /**
+   * Emits a webhook event and waits until transaction-service accepts it
+   */
+  public async sendWebhookEvent(
+    type: WebhookEventType,
+    userId: string,
+    data: Record<string, unknown>,
+    correlationId: string = ''
+  ): Promise<void> {
+    try {
+      await axios.post(
+        `${this.baseUrl}/v1/webhooks/internal/events`,
+        { type, userId, data },
+        {
+          timeout: 10000, // 10 second timeout
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${generateServiceToken('wallet-service')}`,
+            'X-Correlation-ID': correlationId,
+          },
+        }
+      );
+    } catch (error: unknown) {
+      const message = axios.isAxiosError(error)
+        ? error.response?.data?.message || error.message
+        : (error as Error).message;
+
+      throw new ExternalServiceError('transaction-service', message, 502, { type, userId });
+    }
+  }
+}
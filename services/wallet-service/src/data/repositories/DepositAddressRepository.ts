@@ -0,0 +1,212 @@
+/**
+ * Deposit Address Repository Implementation
+ * 
+ * Prisma-based implementation of IDepositAddressRepository
+ * 
+ * @module wallet-service/data/repositories
+ */
+
+import { DepositAddress as DepositAddressData, Prisma, PrismaClient } from '@prisma/client';
+import { DepositAddress, DepositAddressStatus } from '../../domain/entities/DepositAddress';
+import {
+  DepositAddressFilters,
+  IDepositAddressRepository,
+} from '../../domain/repositories/IDepositAddressRepository';
+import { ChainType, isEvmChain } from '@shield/shared/types';
+import { DatabaseConnection } from '@shield/shared/database/DatabaseConnection';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Attempts at claiming a pooled address before giving up (another request may take it first)
+ */
+const MAX_CLAIM_ATTEMPTS = 3;
+
+/**
+ * Deposit Address Repository Implementation
+ */
+export class DepositAddressRepository implements IDepositAddressRepository {
+  private get prisma(): PrismaClient {
+    return DatabaseConnection.getInstance().getClient();
+  }
+
+  /**
+   * Finds a deposit address by ID and user ID (ensures ownership)
+   */
+  public async findByIdAndUserId(id: string, userId: string): Promise<DepositAddress | null> {
+    const depositData = await this.prisma.depositAddress.findFirst({
+      where: { id, userId },
+    });
+
+    return isNotNull(depositData) ? this.toEntity(depositData) : null;
+  }
+
+  /**
+   * Finds all deposit addresses of a user, newest first
+   */
+  public async findByUserId(
+    userId: string,
+    filters?: DepositAddressFilters
+  ): Promise<DepositAddress[]> {
+    const depositsData = await this.prisma.depositAddress.findMany({
+      where: {
+        userId,
+        ...(isNotNull(filters?.chain) && { chain: filters.chain }),
+        ...(isNotNull(filters?.status) && { status: filters.status }),
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return depositsData.map((depositData) => this.toEntity(depositData));
+  }
+
+  /**
+   * Finds the request an address is currently bound to
+   * EVM addresses are compared case-insensitively; Tron base58 addresses are not
+   */
+  public async findCurrentByAddress(
+    chain: ChainType,
+    address: string
+  ): Promise<DepositAddress | null> {
+    const depositData = await this.prisma.depositAddress.findFirst({
+      where: {
+        chain,
+        address: isEvmChain(chain) ? { equals: address, mode: 'insensitive' } : address,
+        reusedAt: null,
+      },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return isNotNull(depositData) ? this.toEntity(depositData) : null;
+  }
+
+  /**
+   * Finds AWAITING requests whose expiry has passed, oldest first
+   */
+  public async findExpired(now: Date, limit: number): Promise<DepositAddress[]> {
+    const depositsData = await this.prisma.depositAddress.findMany({
+      where: {
+        status: DepositAddressStatus.AWAITING,
+        expiresAt: { lte: now },
+      },
+      orderBy: { expiresAt: 'asc' },
+      take: limit,
+    });
+
+    return depositsData.map((depositData) => this.toEntity(depositData));
+  }
+
+  /**
+   * Atomically takes the oldest request whose address is back in the pool
+   */
+  public async claimFromPool(
+    userId: string,
+    chain: ChainType,
+    now: Date
+  ): Promise<DepositAddress | null> {
+    for (let attempt = 0; attempt < MAX_CLAIM_ATTEMPTS; attempt++) {
+      const candidate = await this.prisma.depositAddress.findFirst({
+        where: {
+          userId,
+          chain,
+          status: DepositAddressStatus.EXPIRED,
+          availableAt: { lte: now },
+          reusedAt: null,
+        },
+        orderBy: { availableAt: 'asc' },
+      });
+
+      if (!isNotNull(candidate)) {
+        return null;
+      }
+
+      // Only one caller can flip reusedAt from null
+      const { count } = await this.prisma.depositAddress.updateMany({
+        where: { id: candidate.id, reusedAt: null },
+        data: { reusedAt: now },
+      });
+
+      if (count === 1) {
+        return this.toEntity({ ...candidate, reusedAt: now });
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Saves a new deposit address
+   */
+  public async save(depositAddress: DepositAddress): Promise<DepositAddress> {
+    const depositData = await this.prisma.depositAddress.create({
+      data: {
+        id: depositAddress.id,
+        userId: depositAddress.userId,
+        walletId: depositAddress.walletId,
+        chain: depositAddress.chain,
+        address: depositAddress.address,
+        token: depositAddress.token,
+        expectedAmount: depositAddress.expectedAmount,
+        receivedAmount: depositAddress.receivedAmount,
+        status: depositAddress.status,
+        reference: depositAddress.reference,
+        txHashes: depositAddress.txHashes,
+        pendingNotifications: depositAddress.pendingNotifications as Prisma.InputJsonObject[],
+        expiresAt: depositAddress.expiresAt,
+        paidAt: depositAddress.paidAt,
+        availableAt: depositAddress.availableAt,
+        reusedAt: depositAddress.reusedAt,
+        createdAt: depositAddress.createdAt,
+        updatedAt: depositAddress.updatedAt,
+      },
+    });
+
+    return this.toEntity(depositData);
+  }
+
+  /**
+   * Updates a deposit address unless it changed since it was read
+   * (optimistic concurrency on updatedAt)
+   */
+  public async update(depositAddress: DepositAddress, previous: DepositAddress): Promise<boolean> {
+    const { count } = await this.prisma.depositAddress.updateMany({
+      where: { id: depositAddress.id, updatedAt: previous.updatedAt },
+      data: {
+        receivedAmount: depositAddress.receivedAmount,
+        status: depositAddress.status,
+        txHashes: depositAddress.txHashes,
+        pendingNotifications: depositAddress.pendingNotifications as Prisma.InputJsonObject[],
+        paidAt: depositAddress.paidAt,
+        availableAt: depositAddress.availableAt,
+        updatedAt: depositAddress.updatedAt,
+      },
+    });
+
+    return count === 1;
+  }
+
+  /**
+   * Maps a database row to the domain entity (Decimal columns become strings)
+   */
+  private toEntity(depositData: DepositAddressData): DepositAddress {
+    return DepositAddress.fromPersistence({
+      id: depositData.id,
+      userId: depositData.userId,
+      walletId: depositData.walletId,
+      chain: depositData.chain as ChainType,
+      address: depositData.address,
+      token: depositData.token,
+      expectedAmount: depositData.expectedAmount.toFixed(),
+      receivedAmount: depositData.receivedAmount.toFixed(),
+      status: depositData.status as DepositAddressStatus,
+      reference: depositData.reference,
+      txHashes: depositData.txHashes,
+      pendingNotifications: depositData.pendingNotifications as Record<string, unknown>[],
+      expiresAt: depositData.expiresAt,
+      paidAt: depositData.paidAt,
+      availableAt: depositData.availableAt,
+      reusedAt: depositData.reusedAt,
+      createdAt: depositData.createdAt,
+      updatedAt: depositData.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,168 @@
+/**
+ * HD Seed Repository Implementation
+ * 
+ * Prisma-based implementation of IHdSeedRepository
+ * 
+ * @module wallet-service/data/repositories
+ */
+
+import { HdSeed as HdSeedData, PrismaClient } from '@prisma/client';
+import { HdSeed } from '../../domain/entities/HdSeed';
+import { IHdSeedRepository } from '../../domain/repositories/IHdSeedRepository';
+import { ChainType, isEvmChain } from '@shield/shared/types';
+import { DatabaseConnection } from '@shield/shared/database/DatabaseConnection';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * HD Seed Repository Implementation
+ */
+export class HdSeedRepository implements IHdSeedRepository {
+  private get prisma(): PrismaClient {
+    return DatabaseConnection.getInstance().getClient();
+  }
+
+  /**
+   * Finds a seed by ID
+   */
+  public async findById(id: string): Promise<HdSeed | null> {
+    const seedData = await this.prisma.hdSeed.findUnique({
+      where: { id },
+    });
+
+    return isNotNull(seedData) ? this.toEntity(seedData) : null;
+  }
+
+  /**
+   * Finds the seed of a user
+   */
+  public async findByUserId(userId: string): Promise<HdSeed | null> {
+    const seedData = await this.prisma.hdSeed.findUnique({
+      where: { userId },
+    });
+
+    return isNotNull(seedData) ? this.toEntity(seedData) : null;
+  }
+
+  /**
+   * Finds seeds whose data key is wrapped with a key-encryption key version,
+   * ordered by ID and starting after the given ID (for resumable batches)
+   */
+  public async findByKeyVersion(
+    keyVersion: number,
+    afterId: string | null,
+    limit: number
+  ): Promise<HdSeed[]> {
+    const seedsData = await this.prisma.hdSeed.findMany({
+      where: {
+        keyVersion,
+        ...(isNotNull(afterId) && { id: { gt: afterId } }),
+      },
+      orderBy: { id: 'asc' },
+      take: limit,
+    });
+
+    return seedsData.map((seedData) => this.toEntity(seedData));
+  }
+
+  /**
+   * Counts seeds whose data key is wrapped with a key-encryption key version
+   */
+  public async countByKeyVersion(keyVersion: number): Promise<number> {
+    return this.prisma.hdSeed.count({
+      where: { keyVersion },
+    });
+  }
+
+  /**
+   * Saves a new seed
+   */
+  public async save(seed: HdSeed): Promise<HdSeed> {
+    const seedData = await this.prisma.hdSeed.create({
+      data: {
+        id: seed.id,
+        userId: seed.userId,
+        mnemonicEncrypted: seed.mnemonicEncrypted,
+        encryptionIv: seed.encryptionIv,
+        encryptionSalt: seed.encryptionSalt,
+        encryptedDataKey: seed.encryptedDataKey,
+        keyVersion: seed.keyVersion,
+        evmExtendedPublicKey: seed.evmExtendedPublicKey,
+        tronExtendedPublicKey: seed.tronExtendedPublicKey,
+        nextEvmIndex: seed.nextEvmIndex,
+        nextTronIndex: seed.nextTronIndex,
+        createdAt: seed.createdAt,
+        updatedAt: seed.updatedAt,
+      },
+    });
+
+    return this.toEntity(seedData);
+  }
+
+  /**
+   * Replaces the stored mnemonic encryption unless it changed since the seed
+   * was read (optimistic concurrency on the encrypted mnemonic). Address
+   * indexes are left alone, so concurrent derivations are not lost.
+   */
+  public async updateEncryption(seed: HdSeed, previous: HdSeed): Promise<boolean> {
+    const { count } = await this.prisma.hdSeed.updateMany({
+      where: {
+        id: seed.id,
+        mnemonicEncrypted: previous.mnemonicEncrypted,
+        encryptedDataKey: previous.encryptedDataKey,
+      },
+      data: {
+        mnemonicEncrypted: seed.mnemonicEncrypted,
+        encryptionIv: seed.encryptionIv,
+        encryptionSalt: seed.encryptionSalt,
+        encryptedDataKey: seed.encryptedDataKey,
+        keyVersion: seed.keyVersion,
+        updatedAt: seed.updatedAt,
+      },
+    });
+
+    return count === 1;
+  }
+
+  /**
+   * Atomically reserves the next unused address index of the chain's family
+   * The increment happens in the database, so concurrent derivations never share an index
+   */
+  public async reserveNextIndex(id: string, chain: ChainType): Promise<number> {
+    if (isEvmChain(chain)) {
+      const seedData = await this.prisma.hdSeed.update({
+        where: { id },
+        data: { nextEvmIndex: { increment: 1 } },
+        select: { nextEvmIndex: true },
+      });
+      return seedData.nextEvmIndex - 1;
+    }
+
+    const seedData = await this.prisma.hdSeed.update({
+      where: { id },
+      data: { nextTronIndex: { increment: 1 } },
+      select: { nextTronIndex: true },
+    });
+    return seedData.nextTronIndex - 1;
+  }
+
+  /**
+   * Maps a database row to the domain entity
+   */
+  private toEntity(seedData: HdSeedData): HdSeed {
+    return HdSeed.fromPersistence({
+      id: seedData.id,
+      userId: seedData.userId,
+      mnemonicEncrypted: seedData.mnemonicEncrypted,
+      encryptionIv: seedData.encryptionIv,
+      encryptionSalt: seedData.encryptionSalt,
+      encryptedDataKey: seedData.encryptedDataKey,
+      keyVersion: seedData.keyVersion,
+      evmExtendedPublicKey: seedData.evmExtendedPublicKey,
+      tronExtendedPublicKey: seedData.tronExtendedPublicKey,
+      nextEvmIndex: seedData.nextEvmIndex,
+      nextTronIndex: seedData.nextTronIndex,
+      createdAt: seedData.createdAt,
+      updatedAt: seedData.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,135 @@
+/**
+ * Key Rotation Run Repository Implementation
+ *
+ * Prisma-based implementation of IKeyRotationRunRepository
+ *
+ * @module wallet-service/data/repositories
+ */
+
+import { KeyRotationRun as KeyRotationRunData, PrismaClient } from '@prisma/client';
+import { KeyRotationRun, KeyRotationStatus } from '../../domain/entities/KeyRotationRun';
+import { IKeyRotationRunRepository } from '../../domain/repositories/IKeyRotationRunRepository';
+import { DatabaseConnection } from '@shield/shared/database/DatabaseConnection';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Key Rotation Run Repository Implementation
+ */
+export class KeyRotationRunRepository implements IKeyRotationRunRepository {
+  private get prisma(): PrismaClient {
+    return DatabaseConnection.getInstance().getClient();
+  }
+
+  /**
+   * Finds a run by ID
+   */
+  public async findById(id: string): Promise<KeyRotationRun | null> {
+    const runData = await this.prisma.keyRotationRun.findUnique({
+      where: { id },
+    });
+
+    return isNotNull(runData) ? this.toEntity(runData) : null;
+  }
+
+  /**
+   * Lists runs, newest first
+   */
+  public async findAll(limit: number): Promise<KeyRotationRun[]> {
+    const runsData = await this.prisma.keyRotationRun.findMany({
+      orderBy: { createdAt: 'desc' },
+      take: limit,
+    });
+
+    return runsData.map((runData) => this.toEntity(runData));
+  }
+
+  /**
+   * Finds runs with the given status, oldest first
+   */
+  public async findByStatus(status: KeyRotationStatus): Promise<KeyRotationRun[]> {
+    const runsData = await this.prisma.keyRotationRun.findMany({
+      where: { status },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return runsData.map((runData) => this.toEntity(runData));
+  }
+
+  /**
+   * Saves a new run
+   */
+  public async save(run: KeyRotationRun): Promise<KeyRotationRun> {
+    const runData = await this.prisma.keyRotationRun.create({
+      data: {
+        id: run.id,
+        fromVersion: run.fromVersion,
+        toVersion: run.toVersion,
+        status: run.status,
+        totalWallets: run.totalWallets,
+        migratedWallets: run.migratedWallets,
+        failedWallets: run.failedWallets,
+        lastWalletId: run.lastWalletId,
+        totalHdSeeds: run.totalHdSeeds,
+        migratedHdSeeds: run.migratedHdSeeds,
+        failedHdSeeds: run.failedHdSeeds,
+        lastHdSeedId: run.lastHdSeedId,
+        lastError: run.lastError,
+        requestedBy: run.requestedBy,
+        completedAt: run.completedAt,
+        createdAt: run.createdAt,
+        updatedAt: run.updatedAt,
+      },
+    });
+
+    return this.toEntity(runData);
+  }
+
+  /**
+   * Updates a run unless it changed since it was read
+   * (optimistic concurrency on updatedAt)
+   */
+  public async update(run: KeyRotationRun, previous: KeyRotationRun): Promise<boolean> {
+    const { count } = await this.prisma.keyRotationRun.updateMany({
+      where: { id: run.id, updatedAt: previous.updatedAt },
+      data: {
+        status: run.status,
+        migratedWallets: run.migratedWallets,
+        failedWallets: run.failedWallets,
+        lastWalletId: run.lastWalletId,
+        migratedHdSeeds: run.migratedHdSeeds,
+        failedHdSeeds: run.failedHdSeeds,
+        lastHdSeedId: run.lastHdSeedId,
+        lastError: run.lastError,
+        completedAt: run.completedAt,
+        updatedAt: run.updatedAt,
+      },
+    });
+
+    return count === 1;
+  }
+
+  /**
+   * Maps a database row to the domain entity
+   */
+  private toEntity(runData: KeyRotationRunData): KeyRotationRun {
+    return KeyRotationRun.fromPersistence({
+      id: runData.id,
+      fromVersion: runData.fromVersion,
+      toVersion: runData.toVersion,
+      status: runData.status as KeyRotationStatus,
+      totalWallets: runData.totalWallets,
+      migratedWallets: runData.migratedWallets,
+      failedWallets: runData.failedWallets,
+      lastWalletId: runData.lastWalletId,
+      totalHdSeeds: runData.totalHdSeeds,
+      migratedHdSeeds: runData.migratedHdSeeds,
+      failedHdSeeds: runData.failedHdSeeds,
+      lastHdSeedId: runData.lastHdSeedId,
+      lastError: runData.lastError,
+      requestedBy: runData.requestedBy,
+      completedAt: runData.completedAt,
+      createdAt: runData.createdAt,
+      updatedAt: runData.updatedAt,
+    });
+  }
+}
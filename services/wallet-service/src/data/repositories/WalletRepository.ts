@@ -46,6 +46,10 @@ export class WalletRepository implements IWalletRepository {
       encryptionIv: walletData.encryptionIv,
       encryptionSalt: walletData.encryptionSalt,
       createdBySystem: walletData.createdBySystem,
+      hdSeedId: walletData.hdSeedId,
+      derivationIndex: walletData.derivationIndex,
+      encryptedDataKey: walletData.encryptedDataKey,
+      keyVersion: walletData.keyVersion,
     });
   }
 
@@ -77,6 +81,10 @@ export class WalletRepository implements IWalletRepository {
       encryptionIv: walletData.encryptionIv,
       encryptionSalt: walletData.encryptionSalt,
       createdBySystem: walletData.createdBySystem,
+      hdSeedId: walletData.hdSeedId,
+      derivationIndex: walletData.derivationIndex,
+      encryptedDataKey: walletData.encryptedDataKey,
+      keyVersion: walletData.keyVersion,
     });
   }
 
@@ -117,6 +125,10 @@ export class WalletRepository implements IWalletRepository {
         encryptionIv: walletData.encryptionIv,
         encryptionSalt: walletData.encryptionSalt,
         createdBySystem: walletData.createdBySystem,
+        hdSeedId: walletData.hdSeedId,
+        derivationIndex: walletData.derivationIndex,
+        encryptedDataKey: walletData.encryptedDataKey,
+        keyVersion: walletData.keyVersion,
       })
     );
   }
@@ -152,6 +164,73 @@ export class WalletRepository implements IWalletRepository {
       encryptionIv: walletData.encryptionIv,
       encryptionSalt: walletData.encryptionSalt,
       createdBySystem: walletData.createdBySystem,
+      hdSeedId: walletData.hdSeedId,
+      derivationIndex: walletData.derivationIndex,
+      encryptedDataKey: walletData.encryptedDataKey,
+      keyVersion: walletData.keyVersion,
+    });
+  }
+
+  /**
+   * Lists the distinct addresses of all active wallets on a chain (across users)
+   */
+  public async findActiveAddressesByChain(chain: ChainType): Promise<string[]> {
+    const walletsData = await this.prisma.wallet.findMany({
+      where: { chain, isActive: true },
+      select: { address: true },
+      distinct: ['address'],
+      orderBy: { address: 'asc' },
+    });
+
+    return walletsData.map((walletData) => walletData.address);
+  }
+
+  /**
+   * Finds wallets whose data key is wrapped with a key-encryption key version,
+   * ordered by ID and starting after the given ID (for resumable batches)
+   */
+  public async findByKeyVersion(
+    keyVersion: number,
+    afterId: string | null,
+    limit: number
+  ): Promise<Wallet[]> {
+    const walletsData = await this.prisma.wallet.findMany({
+      where: {
+        keyVersion,
+        ...(isNotNull(afterId) && { id: { gt: afterId } }),
+      },
+      orderBy: { id: 'asc' },
+      take: limit,
+    });
+
+    return walletsData.map((walletData) =>
+      Wallet.fromPersistence({
+        id: walletData.id,
+        userId: walletData.userId,
+        tag: walletData.tag,
+        chain: walletData.chain as ChainType,
+        address: walletData.address,
+        isActive: walletData.isActive,
+        createdAt: walletData.createdAt,
+        updatedAt: walletData.updatedAt,
+        privateKeyEncrypted: walletData.privateKeyEncrypted,
+        encryptionIv: walletData.encryptionIv,
+        encryptionSalt: walletData.encryptionSalt,
+        createdBySystem: walletData.createdBySystem,
+        hdSeedId: walletData.hdSeedId,
+        derivationIndex: walletData.derivationIndex,
+        encryptedDataKey: walletData.encryptedDataKey,
+        keyVersion: walletData.keyVersion,
+      })
+    );
+  }
+
+  /**
+   * Counts wallets whose data key is wrapped with a key-encryption key version
+   */
+  public async countByKeyVersion(keyVersion: number): Promise<number> {
+    return this.prisma.wallet.count({
+      where: { keyVersion },
     });
   }
 
@@ -174,6 +253,12 @@ export class WalletRepository implements IWalletRepository {
         encryptionIv: wallet.encryptionIv,
         encryptionSalt: wallet.encryptionSalt,
         createdBySystem: wallet.createdBySystem,
+        // Derivation data (for HD wallets)
+        hdSeedId: wallet.hdSeedId,
+        derivationIndex: wallet.derivationIndex,
+        // Envelope encryption (wrapped data key)
+        encryptedDataKey: wallet.encryptedDataKey,
+        keyVersion: wallet.keyVersion,
       },
     });
 
@@ -190,6 +275,10 @@ export class WalletRepository implements IWalletRepository {
       encryptionIv: walletData.encryptionIv,
       encryptionSalt: walletData.encryptionSalt,
       createdBySystem: walletData.createdBySystem,
+      hdSeedId: walletData.hdSeedId,
+      derivationIndex: walletData.derivationIndex,
+      encryptedDataKey: walletData.encryptedDataKey,
+      keyVersion: walletData.keyVersion,
     });
   }
 
@@ -219,7 +308,35 @@ export class WalletRepository implements IWalletRepository {
       encryptionIv: walletData.encryptionIv,
       encryptionSalt: walletData.encryptionSalt,
       createdBySystem: walletData.createdBySystem,
+      hdSeedId: walletData.hdSeedId,
+      derivationIndex: walletData.derivationIndex,
+      encryptedDataKey: walletData.encryptedDataKey,
+      keyVersion: walletData.keyVersion,
+    });
+  }
+
+  /**
+   * Replaces the stored private key encryption unless it changed since the
+   * wallet was read (optimistic concurrency on the encrypted key)
+   */
+  public async updateEncryption(wallet: Wallet, previous: Wallet): Promise<boolean> {
+    const { count } = await this.prisma.wallet.updateMany({
+      where: {
+        id: wallet.id,
+        privateKeyEncrypted: previous.privateKeyEncrypted,
+        encryptedDataKey: previous.encryptedDataKey,
+      },
+      data: {
+        privateKeyEncrypted: wallet.privateKeyEncrypted,
+        encryptionIv: wallet.encryptionIv,
+        encryptionSalt: wallet.encryptionSalt,
+        encryptedDataKey: wallet.encryptedDataKey,
+        keyVersion: wallet.keyVersion,
+        updatedAt: wallet.updatedAt,
+      },
     });
+
+    return count === 1;
   }
 
   /**
@@ -0,0 +1,172 @@
+/**
+ * Local Key Provider Implementation
+ *
+ * Keeps the key-encryption keys in process memory, loaded from a key file or
+ * the environment. Meant for development and single-host deployments; the
+ * HSM/KMS adapters implement the same interface.
+ *
+ * Configuration:
+ * - WALLET_MASTER_KEY_FILE - JSON file mapping versions to base64 keys ({"1": "..."}),
+ *   resolved against the service root by initializeEnvironment
+ * - WALLET_MASTER_KEYS - Same keys inline as "1:<base64>,2:<base64>" (used when no file is set)
+ * - WALLET_MASTER_KEY_VERSION - Version new data keys are wrapped with (default: highest)
+ *
+ * @module wallet-service/data/services
+ */
+
+import fs from 'fs';
+import { IKeyProvider, WrappedDataKey } from '../../domain/services/IKeyProvider';
+import { ConfigurationError, ValidationError } from '@shield/shared/errors';
+import { decryptWithKey, encryptWithKey } from '../../utils/cryptoUtils';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Key-encryption keys are AES-256 keys
+ */
+const KEY_ENCRYPTION_KEY_LENGTH = 32;
+
+/**
+ * Local Key Provider Implementation
+ */
+export class LocalKeyProvider implements IKeyProvider {
+  public readonly name = 'local';
+
+  private keys: Map<number, Buffer> | null = null;
+  private currentVersion = 0;
+
+  /**
+   * @param keyFile - Absolute path of the master key file, or null to use WALLET_MASTER_KEYS
+   */
+  constructor(private readonly keyFile: string | null = null) {}
+
+  /**
+   * Version of the key-encryption key new data keys are wrapped with
+   */
+  public async getCurrentKeyVersion(): Promise<number> {
+    this.loadKeys();
+    return this.currentVersion;
+  }
+
+  /**
+   * Checks if a key-encryption key version is configured
+   */
+  public async hasKeyVersion(keyVersion: number): Promise<boolean> {
+    return this.loadKeys().has(keyVersion);
+  }
+
+  /**
+   * Wraps a data key with the current key-encryption key, or with the given version
+   */
+  public async wrapKey(dataKey: Buffer, keyVersion?: number): Promise<WrappedDataKey> {
+    const version = keyVersion ?? (await this.getCurrentKeyVersion());
+    const encrypted = encryptWithKey(dataKey, this.getKey(version));
+
+    return {
+      wrappedKey: `${encrypted.iv}:${encrypted.encryptedData}`,
+      keyVersion: version,
+    };
+  }
+
+  /**
+   * Unwraps a data key with the key-encryption key version it was wrapped with
+   */
+  public async unwrapKey(wrappedKey: string, keyVersion: number): Promise<Buffer> {
+    const [iv, encryptedData] = wrappedKey.split(':');
+    if (!iv || !encryptedData) {
+      throw new ValidationError('Invalid wrapped data key format', { keyVersion });
+    }
+
+    return decryptWithKey(encryptedData, iv, this.getKey(keyVersion));
+  }
+
+  /**
+   * Gets a key-encryption key by version
+   */
+  private getKey(keyVersion: number): Buffer {
+    const key = this.loadKeys().get(keyVersion);
+    if (!key) {
+      throw new ValidationError('Unknown master key version', {
+        keyVersion,
+        provider: this.name,
+      });
+    }
+    return key;
+  }
+
+  /**
+   * Loads the key-encryption keys once, from the key file or the environment
+   */
+  private loadKeys(): Map<number, Buffer> {
+    if (this.keys) {
+      return this.keys;
+    }
+
+    const entries = this.readKeyEntries();
+    const keys = new Map<number, Buffer>();
+
+    for (const [versionText, encodedKey] of entries) {
+      const version = parseInt(versionText, 10);
+      const key = Buffer.from(encodedKey.trim(), 'base64');
+
+      if (!Number.isInteger(version) || version < 1) {
+        throw new ConfigurationError('WALLET_MASTER_KEYS', `Invalid master key version: ${versionText}`);
+      }
+
+      if (key.length !== KEY_ENCRYPTION_KEY_LENGTH) {
+        throw new ConfigurationError(
+          'WALLET_MASTER_KEYS',
+          `Master key version ${version} must be ${KEY_ENCRYPTION_KEY_LENGTH} bytes (base64 encoded)`
+        );
+      }
+
+      keys.set(version, key);
+    }
+
+    if (keys.size === 0) {
+      throw new ConfigurationError(
+        'WALLET_MASTER_KEYS',
+        'No master key configured: set WALLET_MASTER_KEY_FILE or WALLET_MASTER_KEYS'
+      );
+    }
+
+    const configuredVersion = process.env.WALLET_MASTER_KEY_VERSION;
+    const currentVersion = configuredVersion
+      ? parseInt(configuredVersion, 10)
+      : Math.max(...keys.keys());
+
+    if (!keys.has(currentVersion)) {
+      throw new ConfigurationError(
+        'WALLET_MASTER_KEY_VERSION',
+        `Master key version ${configuredVersion} is not configured`
+      );
+    }
+
+    this.keys = keys;
+    this.currentVersion = currentVersion;
+    return keys;
+  }
+
+  /**
+   * Reads [version, base64 key] pairs from the configured source
+   */
+  private readKeyEntries(): Array<[string, string]> {
+    if (isNotNull(this.keyFile)) {
+      try {
+        const parsed = JSON.parse(fs.readFileSync(this.keyFile, 'utf8')) as Record<string, string>;
+        return Object.entries(parsed);
+      } catch (error) {
+        throw new ConfigurationError('WALLET_MASTER_KEY_FILE', 'Master key file could not be read', {
+          originalError: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    return (process.env.WALLET_MASTER_KEYS || '')
+      .split(',')
+      .filter((entry) => entry.trim() !== '')
+      .map((entry) => {
+        const separator = entry.indexOf(':');
+        return [entry.slice(0, separator).trim(), entry.slice(separator + 1)];
+      });
+  }
+}
@@ -0,0 +1,329 @@
+/**
+ * DepositAddress Domain Entity
+ *
+ * Represents a payment request: one wallet address handed out for an
+ * expected amount of a token, until it expires
+ *
+ * @module wallet-service/domain/entities
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ChainType } from '@shield/shared/types';
+import { isNotNull, isNonEmptyString, isValidUUID } from '@shield/shared/utils/guards';
+import { addAmounts, compareAmounts } from '../../utils/amountUtils';
+
+/**
+ * Deposit address status
+ * - AWAITING: waiting for (the rest of) the expected amount
+ * - PAID: exactly the expected amount arrived
+ * - EXPIRED: expired before the expected amount arrived
+ * - OVERPAID: more than the expected amount arrived
+ */
+export enum DepositAddressStatus {
+  AWAITING = 'AWAITING',
+  PAID = 'PAID',
+  EXPIRED = 'EXPIRED',
+  OVERPAID = 'OVERPAID',
+}
+
+/**
+ * DepositAddress domain entity
+ */
+export class DepositAddress {
+  private constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    public readonly walletId: string,
+    public readonly chain: ChainType,
+    public readonly address: string,
+    public readonly token: string,
+    // Amounts in token units (decimal strings)
+    public readonly expectedAmount: string,
+    public readonly receivedAmount: string,
+    public readonly status: DepositAddressStatus,
+    public readonly reference: string | null,
+    public readonly txHashes: string[],
+    // deposit_address.status_changed payloads not accepted by transaction-service yet
+    public readonly pendingNotifications: Record<string, unknown>[],
+    public readonly expiresAt: Date,
+    public readonly paidAt: Date | null,
+    // Pool bookkeeping: when the address may be handed out again, and when it was
+    public readonly availableAt: Date | null,
+    public readonly reusedAt: Date | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {
+    this.validate();
+  }
+
+  /**
+   * Creates a new payment request on a wallet's address
+   */
+  public static create(data: {
+    userId: string;
+    walletId: string;
+    chain: ChainType;
+    address: string;
+    token: string;
+    expectedAmount: string;
+    expiresAt: Date;
+    reference?: string;
+  }): DepositAddress {
+    return new DepositAddress(
+      uuidv4(),
+      data.userId,
+      data.walletId,
+      data.chain,
+      data.address,
+      data.token,
+      data.expectedAmount,
+      '0', // receivedAmount
+      DepositAddressStatus.AWAITING,
+      data.reference ?? null,
+      [], // txHashes
+      [], // pendingNotifications
+      data.expiresAt,
+      null, // paidAt
+      null, // availableAt
+      null, // reusedAt
+      new Date(), // createdAt
+      new Date() // updatedAt
+    );
+  }
+
+  /**
+   * Reconstructs DepositAddress from persistence layer
+   */
+  public static fromPersistence(data: {
+    id: string;
+    userId: string;
+    walletId: string;
+    chain: ChainType;
+    address: string;
+    token: string;
+    expectedAmount: string;
+    receivedAmount: string;
+    status: DepositAddressStatus;
+    reference: string | null;
+    txHashes: string[];
+    pendingNotifications: Record<string, unknown>[];
+    expiresAt: Date;
+    paidAt: Date | null;
+    availableAt: Date | null;
+    reusedAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+  }): DepositAddress {
+    return new DepositAddress(
+      data.id,
+      data.userId,
+      data.walletId,
+      data.chain,
+      data.address,
+      data.token,
+      data.expectedAmount,
+      data.receivedAmount,
+      data.status,
+      data.reference,
+      data.txHashes,
+      data.pendingNotifications,
+      data.expiresAt,
+      data.paidAt,
+      data.availableAt,
+      data.reusedAt,
+      data.createdAt,
+      data.updatedAt
+    );
+  }
+
+  /**
+   * Validates deposit address entity invariants
+   */
+  private validate(): void {
+    if (!isValidUUID(this.id)) {
+      throw new Error('Deposit address ID must be a valid UUID');
+    }
+
+    if (!isValidUUID(this.userId) || !isValidUUID(this.walletId)) {
+      throw new Error('Deposit address userId and walletId must be valid UUIDs');
+    }
+
+    if (!isNonEmptyString(this.address) || !isNonEmptyString(this.token)) {
+      throw new Error('Deposit address address and token cannot be empty');
+    }
+
+    if (compareAmounts(this.expectedAmount, '0') <= 0) {
+      throw new Error('Deposit address expected amount must be positive');
+    }
+
+    if (!isNotNull(this.expiresAt) || !isNotNull(this.createdAt) || !isNotNull(this.updatedAt)) {
+      throw new Error('Deposit address timestamps cannot be null');
+    }
+  }
+
+  /**
+   * Adds a transfer to the amount received. An AWAITING request becomes PAID
+   * or OVERPAID once the expected amount is reached, and a PAID one becomes
+   * OVERPAID on any further payment. Payments to an EXPIRED request are
+   * recorded but do not reopen it; the address is then kept out of the pool.
+   * Status changes, and payments after expiry, queue a status_changed
+   * notification for the merchant.
+   */
+  public recordPayment(txHash: string, amount: string): DepositAddress {
+    const receivedAmount = addAmounts(this.receivedAmount, amount);
+    let status = this.status;
+    let paidAt = this.paidAt;
+    let availableAt = this.availableAt;
+
+    if (this.status === DepositAddressStatus.EXPIRED) {
+      availableAt = null;
+    } else {
+      const comparison = compareAmounts(receivedAmount, this.expectedAmount);
+      if (comparison >= 0) {
+        status = comparison === 0 ? DepositAddressStatus.PAID : DepositAddressStatus.OVERPAID;
+        paidAt = paidAt ?? new Date();
+      }
+    }
+
+    const latePayment = this.status === DepositAddressStatus.EXPIRED;
+    const pendingNotifications =
+      status !== this.status || latePayment
+        ? [
+            ...this.pendingNotifications,
+            {
+              depositAddressId: this.id,
+              chain: this.chain,
+              address: this.address,
+              token: this.token,
+              reference: this.reference,
+              fromStatus: this.status,
+              toStatus: status,
+              expectedAmount: this.expectedAmount,
+              receivedAmount,
+              txHash,
+              latePayment,
+            },
+          ]
+        : this.pendingNotifications;
+
+    return new DepositAddress(
+      this.id,
+      this.userId,
+      this.walletId,
+      this.chain,
+      this.address,
+      this.token,
+      this.expectedAmount,
+      receivedAmount,
+      status,
+      this.reference,
+      [...this.txHashes, txHash],
+      pendingNotifications,
+      this.expiresAt,
+      paidAt,
+      availableAt,
+      this.reusedAt,
+      this.createdAt,
+      new Date()
+    );
+  }
+
+  /**
+   * Expires an AWAITING request. Addresses that received nothing return to
+   * the pool after the quarantine; partially paid ones never do.
+   */
+  public expire(quarantineMs: number): DepositAddress {
+    const untouched = this.txHashes.length === 0;
+
+    return new DepositAddress(
+      this.id,
+      this.userId,
+      this.walletId,
+      this.chain,
+      this.address,
+      this.token,
+      this.expectedAmount,
+      this.receivedAmount,
+      DepositAddressStatus.EXPIRED,
+      this.reference,
+      this.txHashes,
+      this.pendingNotifications,
+      this.expiresAt,
+      this.paidAt,
+      untouched ? new Date(Date.now() + quarantineMs) : null,
+      this.reusedAt,
+      this.createdAt,
+      new Date()
+    );
+  }
+
+  /**
+   * Drops the queued notifications once transaction-service has accepted them
+   */
+  public clearPendingNotifications(): DepositAddress {
+    return new DepositAddress(
+      this.id,
+      this.userId,
+      this.walletId,
+      this.chain,
+      this.address,
+      this.token,
+      this.expectedAmount,
+      this.receivedAmount,
+      this.status,
+      this.reference,
+      this.txHashes,
+      [],
+      this.expiresAt,
+      this.paidAt,
+      this.availableAt,
+      this.reusedAt,
+      this.createdAt,
+      new Date()
+    );
+  }
+
+  /**
+   * Checks if a transfer was already reconciled to this request
+   */
+  public hasTransfer(txHash: string): boolean {
+    return this.txHashes.includes(txHash);
+  }
+
+  /**
+   * Converts to plain object for serialization
+   */
+  public toPlainObject(): {
+    id: string;
+    walletId: string;
+    chain: ChainType;
+    address: string;
+    token: string;
+    expectedAmount: string;
+    receivedAmount: string;
+    status: DepositAddressStatus;
+    reference: string | null;
+    txHashes: string[];
+    expiresAt: Date;
+    paidAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+  } {
+    return {
+      id: this.id,
+      walletId: this.walletId,
+      chain: this.chain,
+      address: this.address,
+      token: this.token,
+      expectedAmount: this.expectedAmount,
+      receivedAmount: this.receivedAmount,
+      status: this.status,
+      reference: this.reference,
+      txHashes: this.txHashes,
+      expiresAt: this.expiresAt,
+      paidAt: this.paidAt,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
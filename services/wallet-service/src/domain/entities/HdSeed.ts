@@ -0,0 +1,216 @@
+/**
+ * HdSeed Domain Entity
+ *
+ * Represents a user's HD wallet master seed: an encrypted BIP-39 mnemonic and
+ * the extended public keys deposit addresses are derived from. The mnemonic
+ * is envelope-encrypted like wallet private keys, always with the password
+ * factor; seeds created before envelope encryption are password-only.
+ *
+ * @module wallet-service/domain/entities
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ChainType, isEvmChain } from '@shield/shared/types';
+import { isNotNull, isNonEmptyString, isValidUUID } from '@shield/shared/utils/guards';
+
+/**
+ * HdSeed domain entity
+ */
+export class HdSeed {
+  private constructor(
+    public readonly id: string,
+    public readonly userId: string,
+    // Encrypted mnemonic (same AES-256-GCM + PBKDF2 scheme as wallet private keys)
+    public readonly mnemonicEncrypted: string,
+    public readonly encryptionIv: string,
+    public readonly encryptionSalt: string,
+    // Envelope encryption: data key wrapped by the key provider (null for password-only seeds)
+    public readonly encryptedDataKey: string | null,
+    public readonly keyVersion: number | null,
+    // Account-level xpubs (m/44'/60'/0'/0 and m/44'/195'/0'/0)
+    public readonly evmExtendedPublicKey: string,
+    public readonly tronExtendedPublicKey: string,
+    // Next unused address index per chain family
+    public readonly nextEvmIndex: number,
+    public readonly nextTronIndex: number,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {
+    this.validate();
+  }
+
+  /**
+   * Creates a new HdSeed with no addresses derived yet
+   */
+  public static create(data: {
+    userId: string;
+    mnemonicEncrypted: string;
+    encryptionIv: string;
+    encryptionSalt: string;
+    encryptedDataKey: string;
+    keyVersion: number;
+    evmExtendedPublicKey: string;
+    tronExtendedPublicKey: string;
+  }): HdSeed {
+    return new HdSeed(
+      uuidv4(),
+      data.userId,
+      data.mnemonicEncrypted,
+      data.encryptionIv,
+      data.encryptionSalt,
+      data.encryptedDataKey,
+      data.keyVersion,
+      data.evmExtendedPublicKey,
+      data.tronExtendedPublicKey,
+      0, // nextEvmIndex
+      0, // nextTronIndex
+      new Date(), // createdAt
+      new Date() // updatedAt
+    );
+  }
+
+  /**
+   * Reconstructs HdSeed from persistence layer
+   */
+  public static fromPersistence(data: {
+    id: string;
+    userId: string;
+    mnemonicEncrypted: string;
+    encryptionIv: string;
+    encryptionSalt: string;
+    encryptedDataKey?: string | null;
+    keyVersion?: number | null;
+    evmExtendedPublicKey: string;
+    tronExtendedPublicKey: string;
+    nextEvmIndex: number;
+    nextTronIndex: number;
+    createdAt: Date;
+    updatedAt: Date;
+  }): HdSeed {
+    return new HdSeed(
+      data.id,
+      data.userId,
+      data.mnemonicEncrypted,
+      data.encryptionIv,
+      data.encryptionSalt,
+      data.encryptedDataKey ?? null,
+      data.keyVersion ?? null,
+      data.evmExtendedPublicKey,
+      data.tronExtendedPublicKey,
+      data.nextEvmIndex,
+      data.nextTronIndex,
+      data.createdAt,
+      data.updatedAt
+    );
+  }
+
+  /**
+   * Validates HdSeed entity invariants
+   */
+  private validate(): void {
+    if (!isValidUUID(this.id)) {
+      throw new Error('HD seed ID must be a valid UUID');
+    }
+
+    if (!isValidUUID(this.userId)) {
+      throw new Error('HD seed userId must be a valid UUID');
+    }
+
+    if (
+      !isNonEmptyString(this.mnemonicEncrypted) ||
+      !isNonEmptyString(this.encryptionIv) ||
+      !isNonEmptyString(this.encryptionSalt)
+    ) {
+      throw new Error('HD seed encrypted mnemonic data cannot be empty');
+    }
+
+    if (isNotNull(this.encryptedDataKey) !== isNotNull(this.keyVersion)) {
+      throw new Error('HD seed data key and key version must be set together');
+    }
+
+    if (isNotNull(this.keyVersion) && (!Number.isInteger(this.keyVersion) || this.keyVersion < 1)) {
+      throw new Error('HD seed key version must be a positive integer');
+    }
+
+    if (!isNonEmptyString(this.evmExtendedPublicKey) || !isNonEmptyString(this.tronExtendedPublicKey)) {
+      throw new Error('HD seed extended public keys cannot be empty');
+    }
+
+    if (
+      !Number.isInteger(this.nextEvmIndex) ||
+      this.nextEvmIndex < 0 ||
+      !Number.isInteger(this.nextTronIndex) ||
+      this.nextTronIndex < 0
+    ) {
+      throw new Error('HD seed address indexes must be non-negative integers');
+    }
+
+    if (!isNotNull(this.createdAt) || !isNotNull(this.updatedAt)) {
+      throw new Error('HD seed timestamps cannot be null');
+    }
+  }
+
+  /**
+   * Checks if the mnemonic is envelope-encrypted (data key wrapped by the key provider)
+   */
+  public isEnvelopeEncrypted(): boolean {
+    return isNotNull(this.keyVersion);
+  }
+
+  /**
+   * Replaces the stored mnemonic encryption (password change, master key rotation)
+   */
+  public withEncryption(data: {
+    mnemonicEncrypted: string;
+    encryptionIv: string;
+    encryptionSalt: string;
+    encryptedDataKey: string;
+    keyVersion: number;
+  }): HdSeed {
+    return new HdSeed(
+      this.id,
+      this.userId,
+      data.mnemonicEncrypted,
+      data.encryptionIv,
+      data.encryptionSalt,
+      data.encryptedDataKey,
+      data.keyVersion,
+      this.evmExtendedPublicKey,
+      this.tronExtendedPublicKey,
+      this.nextEvmIndex,
+      this.nextTronIndex,
+      this.createdAt,
+      new Date()
+    );
+  }
+
+  /**
+   * Gets the extended public key addresses on a chain are derived from
+   */
+  public getExtendedPublicKey(chain: ChainType): string {
+    return isEvmChain(chain) ? this.evmExtendedPublicKey : this.tronExtendedPublicKey;
+  }
+
+  /**
+   * Converts to plain object for serialization
+   * NOTE: NEVER includes the encrypted mnemonic for security
+   */
+  public toPlainObject(): {
+    id: string;
+    userId: string;
+    nextEvmIndex: number;
+    nextTronIndex: number;
+    createdAt: Date;
+    updatedAt: Date;
+  } {
+    return {
+      id: this.id,
+      userId: this.userId,
+      nextEvmIndex: this.nextEvmIndex,
+      nextTronIndex: this.nextTronIndex,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+      // SECURITY: Never include mnemonicEncrypted, encryptionIv, encryptionSalt, encryptedDataKey
+    };
+  }
+}
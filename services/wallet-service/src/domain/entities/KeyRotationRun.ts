@@ -0,0 +1,315 @@
+/**
+ * KeyRotationRun Domain Entity
+ *
+ * Represents the migration of wallet and HD seed data keys from one master
+ * key version to another, with the progress needed to report on it and
+ * resume it. Wallets are migrated first, then seeds.
+ *
+ * @module wallet-service/domain/entities
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { isNotNull, isValidUUID } from '@shield/shared/utils/guards';
+
+/**
+ * Key rotation run status
+ * - RUNNING: wallets, then seeds, are being migrated batch by batch
+ * - COMPLETED: no wallet or seed left on the source version (failures are counted)
+ * - FAILED: stopped on an error affecting the whole run; can be resumed
+ */
+export enum KeyRotationStatus {
+  RUNNING = 'RUNNING',
+  COMPLETED = 'COMPLETED',
+  FAILED = 'FAILED',
+}
+
+/**
+ * KeyRotationRun domain entity
+ */
+export class KeyRotationRun {
+  private constructor(
+    public readonly id: string,
+    public readonly fromVersion: number,
+    public readonly toVersion: number,
+    public readonly status: KeyRotationStatus,
+    public readonly totalWallets: number,
+    public readonly migratedWallets: number,
+    public readonly failedWallets: number,
+    // Resume cursor: wallets are processed in ID order
+    public readonly lastWalletId: string | null,
+    public readonly totalHdSeeds: number,
+    public readonly migratedHdSeeds: number,
+    public readonly failedHdSeeds: number,
+    // Resume cursor for seeds, once every wallet was processed
+    public readonly lastHdSeedId: string | null,
+    public readonly lastError: string | null,
+    public readonly requestedBy: string | null,
+    public readonly completedAt: Date | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {
+    this.validate();
+  }
+
+  /**
+   * Creates a new run
+   */
+  public static create(data: {
+    fromVersion: number;
+    toVersion: number;
+    totalWallets: number;
+    totalHdSeeds: number;
+    requestedBy?: string;
+  }): KeyRotationRun {
+    return new KeyRotationRun(
+      uuidv4(),
+      data.fromVersion,
+      data.toVersion,
+      KeyRotationStatus.RUNNING,
+      data.totalWallets,
+      0, // migratedWallets
+      0, // failedWallets
+      null, // lastWalletId
+      data.totalHdSeeds,
+      0, // migratedHdSeeds
+      0, // failedHdSeeds
+      null, // lastHdSeedId
+      null, // lastError
+      data.requestedBy ?? null,
+      null, // completedAt
+      new Date(), // createdAt
+      new Date() // updatedAt
+    );
+  }
+
+  /**
+   * Reconstructs KeyRotationRun from persistence layer
+   */
+  public static fromPersistence(data: {
+    id: string;
+    fromVersion: number;
+    toVersion: number;
+    status: KeyRotationStatus;
+    totalWallets: number;
+    migratedWallets: number;
+    failedWallets: number;
+    lastWalletId: string | null;
+    totalHdSeeds: number;
+    migratedHdSeeds: number;
+    failedHdSeeds: number;
+    lastHdSeedId: string | null;
+    lastError: string | null;
+    requestedBy: string | null;
+    completedAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+  }): KeyRotationRun {
+    return new KeyRotationRun(
+      data.id,
+      data.fromVersion,
+      data.toVersion,
+      data.status,
+      data.totalWallets,
+      data.migratedWallets,
+      data.failedWallets,
+      data.lastWalletId,
+      data.totalHdSeeds,
+      data.migratedHdSeeds,
+      data.failedHdSeeds,
+      data.lastHdSeedId,
+      data.lastError,
+      data.requestedBy,
+      data.completedAt,
+      data.createdAt,
+      data.updatedAt
+    );
+  }
+
+  /**
+   * Validates key rotation run invariants
+   */
+  private validate(): void {
+    if (!isValidUUID(this.id)) {
+      throw new Error('Key rotation run ID must be a valid UUID');
+    }
+
+    if (
+      !Number.isInteger(this.fromVersion) ||
+      !Number.isInteger(this.toVersion) ||
+      this.fromVersion < 1 ||
+      this.toVersion < 1
+    ) {
+      throw new Error('Key rotation versions must be positive integers');
+    }
+
+    if (this.fromVersion === this.toVersion) {
+      throw new Error('Key rotation source and target versions must differ');
+    }
+
+    if (!isNotNull(this.createdAt) || !isNotNull(this.updatedAt)) {
+      throw new Error('Key rotation run timestamps cannot be null');
+    }
+  }
+
+  /**
+   * Records a processed batch and moves the cursor past its last wallet
+   */
+  public recordBatch(data: {
+    migrated: number;
+    failed: number;
+    lastWalletId: string;
+    lastError?: string;
+  }): KeyRotationRun {
+    return new KeyRotationRun(
+      this.id,
+      this.fromVersion,
+      this.toVersion,
+      this.status,
+      this.totalWallets,
+      this.migratedWallets + data.migrated,
+      this.failedWallets + data.failed,
+      data.lastWalletId,
+      this.totalHdSeeds,
+      this.migratedHdSeeds,
+      this.failedHdSeeds,
+      this.lastHdSeedId,
+      data.lastError ?? this.lastError,
+      this.requestedBy,
+      this.completedAt,
+      this.createdAt,
+      new Date()
+    );
+  }
+
+  /**
+   * Records a processed batch of seeds and moves the seed cursor past its last seed
+   */
+  public recordSeedBatch(data: {
+    migrated: number;
+    failed: number;
+    lastHdSeedId: string;
+    lastError?: string;
+  }): KeyRotationRun {
+    return new KeyRotationRun(
+      this.id,
+      this.fromVersion,
+      this.toVersion,
+      this.status,
+      this.totalWallets,
+      this.migratedWallets,
+      this.failedWallets,
+      this.lastWalletId,
+      this.totalHdSeeds,
+      this.migratedHdSeeds + data.migrated,
+      this.failedHdSeeds + data.failed,
+      data.lastHdSeedId,
+      data.lastError ?? this.lastError,
+      this.requestedBy,
+      this.completedAt,
+      this.createdAt,
+      new Date()
+    );
+  }
+
+  /**
+   * Marks the run as completed
+   */
+  public complete(): KeyRotationRun {
+    return this.withStatus(KeyRotationStatus.COMPLETED, this.lastError, new Date());
+  }
+
+  /**
+   * Marks the run as failed
+   */
+  public fail(error: string): KeyRotationRun {
+    return this.withStatus(KeyRotationStatus.FAILED, error, null);
+  }
+
+  /**
+   * Puts a failed run back to RUNNING, keeping its cursor
+   */
+  public resume(): KeyRotationRun {
+    return this.withStatus(KeyRotationStatus.RUNNING, this.lastError, null);
+  }
+
+  /**
+   * Share of the wallets and seeds processed so far (0-100)
+   */
+  public getProgressPercent(): number {
+    const total = this.totalWallets + this.totalHdSeeds;
+    if (total === 0) {
+      return this.status === KeyRotationStatus.COMPLETED ? 100 : 0;
+    }
+
+    const processed =
+      this.migratedWallets + this.failedWallets + this.migratedHdSeeds + this.failedHdSeeds;
+    return Math.min(100, Math.floor((processed / total) * 100));
+  }
+
+  /**
+   * Converts to plain object for serialization
+   */
+  public toPlainObject(): {
+    id: string;
+    fromVersion: number;
+    toVersion: number;
+    status: KeyRotationStatus;
+    totalWallets: number;
+    migratedWallets: number;
+    failedWallets: number;
+    totalHdSeeds: number;
+    migratedHdSeeds: number;
+    failedHdSeeds: number;
+    progressPercent: number;
+    lastError: string | null;
+    requestedBy: string | null;
+    completedAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+  } {
+    return {
+      id: this.id,
+      fromVersion: this.fromVersion,
+      toVersion: this.toVersion,
+      status: this.status,
+      totalWallets: this.totalWallets,
+      migratedWallets: this.migratedWallets,
+      failedWallets: this.failedWallets,
+      totalHdSeeds: this.totalHdSeeds,
+      migratedHdSeeds: this.migratedHdSeeds,
+      failedHdSeeds: this.failedHdSeeds,
+      progressPercent: this.getProgressPercent(),
+      lastError: this.lastError,
+      requestedBy: this.requestedBy,
+      completedAt: this.completedAt,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+
+  private withStatus(
+    status: KeyRotationStatus,
+    lastError: string | null,
+    completedAt: Date | null
+  ): KeyRotationRun {
+    return new KeyRotationRun(
+      this.id,
+      this.fromVersion,
+      this.toVersion,
+      status,
+      this.totalWallets,
+      this.migratedWallets,
+      this.failedWallets,
+      this.lastWalletId,
+      this.totalHdSeeds,
+      this.migratedHdSeeds,
+      this.failedHdSeeds,
+      this.lastHdSeedId,
+      lastError,
+      this.requestedBy,
+      completedAt,
+      this.createdAt,
+      new Date()
+    );
+  }
+}
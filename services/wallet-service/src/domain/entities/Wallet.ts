@@ -7,7 +7,7 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { ChainType } from '@shield/shared/types';
+import { ChainType, isEvmChain } from '@shield/shared/types';
 import { isNotNull, isNonEmptyString, isValidUUID } from '@shield/shared/utils/guards';
 import { isValidEthereumAddress, isValidTronAddress } from '@shield/shared/utils';
 
@@ -24,11 +24,17 @@ export class Wallet {
     public readonly isActive: boolean,
     public readonly createdAt: Date,
     public readonly updatedAt: Date,
-    // Encrypted private key storage (only for system-generated wallets)
+    // Encrypted private key storage (system-generated and key-imported wallets)
     public readonly privateKeyEncrypted: string | null = null,
     public readonly encryptionIv: string | null = null,
     public readonly encryptionSalt: string | null = null,
-    public readonly createdBySystem: boolean = false
+    public readonly createdBySystem: boolean = false,
+    // HD wallets: seed and BIP-44 address index the key is derived from (no key stored)
+    public readonly hdSeedId: string | null = null,
+    public readonly derivationIndex: number | null = null,
+    // Envelope encryption: wrapped per-wallet data key and the key-encryption key version
+    public readonly encryptedDataKey: string | null = null,
+    public readonly keyVersion: number | null = null
   ) {
     this.validate();
   }
@@ -69,6 +75,8 @@ export class Wallet {
   /**
    * Creates a new system-generated Wallet with encrypted private key
    * This is a convenience method for wallets created by our system
+   * Envelope-encrypted keys carry the wrapped data key and key version; the
+   * salt is then only set when the password is a second factor
    */
   public static createWithEncryption(data: {
     userId: string;
@@ -76,7 +84,9 @@ export class Wallet {
     address: string;
     privateKeyEncrypted: string;
     encryptionIv: string;
-    encryptionSalt: string;
+    encryptionSalt: string | null;
+    encryptedDataKey?: string;
+    keyVersion?: number;
     tag?: string;
   }): Wallet {
     return new Wallet(
@@ -91,7 +101,76 @@ export class Wallet {
       data.privateKeyEncrypted,
       data.encryptionIv,
       data.encryptionSalt,
-      true // createdBySystem
+      true, // createdBySystem
+      null, // hdSeedId
+      null, // derivationIndex
+      data.encryptedDataKey ?? null,
+      data.keyVersion ?? null
+    );
+  }
+
+  /**
+   * Creates a new Wallet from a private key imported by the user
+   * (raw key or keystore file), stored with the same encryption as generated wallets
+   */
+  public static createImported(data: {
+    userId: string;
+    chain: ChainType;
+    address: string;
+    privateKeyEncrypted: string;
+    encryptionIv: string;
+    encryptionSalt: string | null;
+    encryptedDataKey: string;
+    keyVersion: number;
+    tag?: string;
+  }): Wallet {
+    return new Wallet(
+      uuidv4(),
+      data.userId,
+      data.tag ?? null,
+      data.chain,
+      data.address,
+      true, // isActive
+      new Date(), // createdAt
+      new Date(), // updatedAt
+      data.privateKeyEncrypted,
+      data.encryptionIv,
+      data.encryptionSalt,
+      false, // createdBySystem
+      null, // hdSeedId
+      null, // derivationIndex
+      data.encryptedDataKey,
+      data.keyVersion
+    );
+  }
+
+  /**
+   * Creates a new system-generated Wallet derived from the user's HD seed
+   * Only the derivation index is stored; the private key is re-derived from the seed
+   */
+  public static createDerived(data: {
+    userId: string;
+    chain: ChainType;
+    address: string;
+    hdSeedId: string;
+    derivationIndex: number;
+    tag?: string;
+  }): Wallet {
+    return new Wallet(
+      uuidv4(),
+      data.userId,
+      data.tag ?? null,
+      data.chain,
+      data.address,
+      true, // isActive
+      new Date(), // createdAt
+      new Date(), // updatedAt
+      null, // privateKeyEncrypted
+      null, // encryptionIv
+      null, // encryptionSalt
+      true, // createdBySystem
+      data.hdSeedId,
+      data.derivationIndex
     );
   }
 
@@ -111,6 +190,10 @@ export class Wallet {
     encryptionIv?: string | null;
     encryptionSalt?: string | null;
     createdBySystem?: boolean;
+    hdSeedId?: string | null;
+    derivationIndex?: number | null;
+    encryptedDataKey?: string | null;
+    keyVersion?: number | null;
   }): Wallet {
     return new Wallet(
       data.id,
@@ -124,7 +207,11 @@ export class Wallet {
       data.privateKeyEncrypted ?? null,
       data.encryptionIv ?? null,
       data.encryptionSalt ?? null,
-      data.createdBySystem ?? false
+      data.createdBySystem ?? false,
+      data.hdSeedId ?? null,
+      data.derivationIndex ?? null,
+      data.encryptedDataKey ?? null,
+      data.keyVersion ?? null
     );
   }
 
@@ -145,19 +232,97 @@ export class Wallet {
     }
 
     // Validate address format based on chain
-    if (this.chain === ChainType.POLYGON && !isValidEthereumAddress(this.address)) {
-      throw new Error('Invalid Polygon wallet address format');
+    if (isEvmChain(this.chain) && !isValidEthereumAddress(this.address)) {
+      throw new Error('Invalid EVM wallet address format');
     }
 
     if (this.chain === ChainType.TRON && !isValidTronAddress(this.address)) {
       throw new Error('Invalid Tron wallet address format');
     }
 
+    if (isNotNull(this.hdSeedId) !== isNotNull(this.derivationIndex)) {
+      throw new Error('HD wallet seed and derivation index must be set together');
+    }
+
+    if (
+      isNotNull(this.derivationIndex) &&
+      (!Number.isInteger(this.derivationIndex) || this.derivationIndex < 0)
+    ) {
+      throw new Error('Wallet derivation index must be a non-negative integer');
+    }
+
+    if (isNotNull(this.encryptedDataKey) !== isNotNull(this.keyVersion)) {
+      throw new Error('Wallet data key and key version must be set together');
+    }
+
+    if (isNotNull(this.keyVersion) && (!Number.isInteger(this.keyVersion) || this.keyVersion < 1)) {
+      throw new Error('Wallet key version must be a positive integer');
+    }
+
     if (!isNotNull(this.createdAt) || !isNotNull(this.updatedAt)) {
       throw new Error('Wallet timestamps cannot be null');
     }
   }
 
+  /**
+   * Checks if the wallet's key is derived from an HD seed
+   */
+  public isHdWallet(): boolean {
+    return isNotNull(this.hdSeedId);
+  }
+
+  /**
+   * Checks if the private key can be recovered (stored encrypted, or derived from the HD seed)
+   */
+  public hasStoredPrivateKey(): boolean {
+    return isNotNull(this.privateKeyEncrypted) || this.isHdWallet();
+  }
+
+  /**
+   * Checks if the private key is envelope-encrypted (data key wrapped by the key provider)
+   */
+  public isEnvelopeEncrypted(): boolean {
+    return isNotNull(this.keyVersion);
+  }
+
+  /**
+   * Checks if decrypting the private key requires the user's password
+   * (password-only keys, and envelope-encrypted keys with the password factor)
+   */
+  public requiresPassword(): boolean {
+    return isNotNull(this.privateKeyEncrypted) && isNotNull(this.encryptionSalt);
+  }
+
+  /**
+   * Replaces the stored private key encryption (password change, master key rotation)
+   */
+  public withEncryption(data: {
+    privateKeyEncrypted: string;
+    encryptionIv: string;
+    encryptionSalt: string | null;
+    encryptedDataKey: string | null;
+    keyVersion: number | null;
+  }): Wallet {
+    return new Wallet(
+      this.id,
+      this.userId,
+      this.tag,
+      this.chain,
+      this.address,
+      this.isActive,
+      this.createdAt,
+      new Date(),
+      data.privateKeyEncrypted,
+      data.encryptionIv,
+      data.encryptionSalt,
+      this.createdBySystem,
+      this.hdSeedId,
+      this.derivationIndex,
+      data.encryptedDataKey,
+      data.keyVersion
+    );
+  }
+
   /**
    * Activates the wallet
    */
@@ -174,7 +339,11 @@ export class Wallet {
       this.privateKeyEncrypted,
       this.encryptionIv,
       this.encryptionSalt,
-      this.createdBySystem
+      this.createdBySystem,
+      this.hdSeedId,
+      this.derivationIndex,
+      this.encryptedDataKey,
+      this.keyVersion
     );
   }
 
@@ -194,7 +363,11 @@ export class Wallet {
       this.privateKeyEncrypted,
       this.encryptionIv,
       this.encryptionSalt,
-      this.createdBySystem
+      this.createdBySystem,
+      this.hdSeedId,
+      this.derivationIndex,
+      this.encryptedDataKey,
+      this.keyVersion
     );
   }
 
@@ -214,7 +387,11 @@ export class Wallet {
       this.privateKeyEncrypted,
       this.encryptionIv,
       this.encryptionSalt,
-      this.createdBySystem
+      this.createdBySystem,
+      this.hdSeedId,
+      this.derivationIndex,
+      this.encryptedDataKey,
+      this.keyVersion
     );
   }
 
@@ -236,7 +413,10 @@ export class Wallet {
     chain: ChainType;
     address: string;
     isActive: boolean;
-    createdBySystem: boolean; // Indicates if private key is stored (can be revealed)
+    createdBySystem: boolean; // Generated by our system (false for watch-only and key imports)
+    hasPrivateKey: boolean; // Indicates if private key is stored (can be revealed)
+    derivationIndex: number | null; // BIP-44 address index (HD wallets only)
+    passwordProtected: boolean; // Revealing the private key needs the user's password
     createdAt: Date;
     updatedAt: Date;
   } {
@@ -247,10 +427,13 @@ export class Wallet {
       chain: this.chain,
       address: this.address,
       isActive: this.isActive,
-      createdBySystem: this.createdBySystem, // Client needs this to know if private key can be revealed
+      createdBySystem: this.createdBySystem,
+      hasPrivateKey: this.hasStoredPrivateKey(), // Client needs this to know if private key can be revealed
+      derivationIndex: this.derivationIndex,
+      passwordProtected: this.requiresPassword(),
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
-      // SECURITY: Never include privateKeyEncrypted, encryptionIv, encryptionSalt
+      // SECURITY: Never include privateKeyEncrypted, encryptionIv, encryptionSalt, encryptedDataKey
     };
   }
 }
@@ -0,0 +1,64 @@
+/**
+ * Deposit Address Repository Interface
+ * 
+ * Defines the contract for deposit address persistence operations
+ * 
+ * @module wallet-service/domain/repositories
+ */
+
+import { DepositAddress, DepositAddressStatus } from '../entities/DepositAddress';
+import { ChainType } from '@shield/shared/types';
+
+/**
+ * Deposit address filters
+ */
+export interface DepositAddressFilters {
+  chain?: ChainType;
+  status?: DepositAddressStatus;
+}
+
+/**
+ * Deposit address repository interface
+ */
+export interface IDepositAddressRepository {
+  /**
+   * Finds a deposit address by ID and user ID (ensures ownership)
+   */
+  findByIdAndUserId(id: string, userId: string): Promise<DepositAddress | null>;
+
+  /**
+   * Finds all deposit addresses of a user, newest first
+   */
+  findByUserId(userId: string, filters?: DepositAddressFilters): Promise<DepositAddress[]>;
+
+  /**
+   * Finds the request an address is currently bound to (the newest one not handed out again)
+   */
+  findCurrentByAddress(chain: ChainType, address: string): Promise<DepositAddress | null>;
+
+  /**
+   * Finds AWAITING requests whose expiry has passed, oldest first
+   */
+  findExpired(now: Date, limit: number): Promise<DepositAddress[]>;
+
+  /**
+   * Atomically takes the oldest request whose address is back in the pool
+   * (marks it as reused so no other request can take it)
+   * 
+   * @returns The request the address was released from, or null if the pool is empty
+   */
+  claimFromPool(userId: string, chain: ChainType, now: Date): Promise<DepositAddress | null>;
+
+  /**
+   * Saves a new deposit address
+   */
+  save(depositAddress: DepositAddress): Promise<DepositAddress>;
+
+  /**
+   * Updates a deposit address unless it changed since it was read
+   * 
+   * @param previous - The version the update was computed from
+   * @returns false if another writer updated it first
+   */
+  update(depositAddress: DepositAddress, previous: DepositAddress): Promise<boolean>;
+}
@@ -0,0 +1,56 @@
+/**
+ * HD Seed Repository Interface
+ * 
+ * Defines the contract for HD seed persistence operations
+ * 
+ * @module wallet-service/domain/repositories
+ */
+
+import { HdSeed } from '../entities/HdSeed';
+import { ChainType } from '@shield/shared/types';
+
+/**
+ * HD seed repository interface
+ */
+export interface IHdSeedRepository {
+  /**
+   * Finds a seed by ID
+   */
+  findById(id: string): Promise<HdSeed | null>;
+
+  /**
+   * Finds the seed of a user
+   */
+  findByUserId(userId: string): Promise<HdSeed | null>;
+
+  /**
+   * Finds seeds whose data key is wrapped with a key-encryption key version,
+   * ordered by ID and starting after the given ID (for resumable batches)
+   */
+  findByKeyVersion(keyVersion: number, afterId: string | null, limit: number): Promise<HdSeed[]>;
+
+  /**
+   * Counts seeds whose data key is wrapped with a key-encryption key version
+   */
+  countByKeyVersion(keyVersion: number): Promise<number>;
+
+  /**
+   * Saves a new seed
+   */
+  save(seed: HdSeed): Promise<HdSeed>;
+
+  /**
+   * Replaces the stored mnemonic encryption unless it changed since the seed
+   * was read (optimistic concurrency on the encrypted mnemonic)
+   *
+   * @returns false if the seed was re-encrypted concurrently
+   */
+  updateEncryption(seed: HdSeed, previous: HdSeed): Promise<boolean>;
+
+  /**
+   * Atomically reserves the next unused address index of the chain's family
+   * 
+   * @returns The reserved index
+   */
+  reserveNextIndex(id: string, chain: ChainType): Promise<number>;
+}
@@ -0,0 +1,40 @@
+/**
+ * Key Rotation Run Repository Interface
+ *
+ * Defines the contract for key rotation run persistence operations
+ *
+ * @module wallet-service/domain/repositories
+ */
+
+import { KeyRotationRun, KeyRotationStatus } from '../entities/KeyRotationRun';
+
+/**
+ * Key rotation run repository interface
+ */
+export interface IKeyRotationRunRepository {
+  /**
+   * Finds a run by ID
+   */
+  findById(id: string): Promise<KeyRotationRun | null>;
+
+  /**
+   * Lists runs, newest first
+   */
+  findAll(limit: number): Promise<KeyRotationRun[]>;
+
+  /**
+   * Finds runs with the given status, oldest first
+   */
+  findByStatus(status: KeyRotationStatus): Promise<KeyRotationRun[]>;
+
+  /**
+   * Saves a new run
+   */
+  save(run: KeyRotationRun): Promise<KeyRotationRun>;
+
+  /**
+   * Updates a run unless it changed since it was read
+   * (optimistic concurrency on updatedAt)
+   */
+  update(run: KeyRotationRun, previous: KeyRotationRun): Promise<boolean>;
+}
@@ -41,6 +41,22 @@ export interface IWalletRepository {
    */
   findByAddressAndUserId(address: string, userId: string): Promise<Wallet | null>;
 
+  /**
+   * Lists the distinct addresses of all active wallets on a chain (across users)
+   */
+  findActiveAddressesByChain(chain: ChainType): Promise<string[]>;
+
+  /**
+   * Finds wallets whose data key is wrapped with a key-encryption key version,
+   * ordered by ID and starting after the given ID (for resumable batches)
+   */
+  findByKeyVersion(keyVersion: number, afterId: string | null, limit: number): Promise<Wallet[]>;
+
+  /**
+   * Counts wallets whose data key is wrapped with a key-encryption key version
+   */
+  countByKeyVersion(keyVersion: number): Promise<number>;
+
   /**
    * Saves a new wallet
    */
@@ -51,6 +67,12 @@ export interface IWalletRepository {
    */
   update(wallet: Wallet): Promise<Wallet>;
 
+  /**
+   * Replaces the stored private key encryption unless it changed since the
+   * wallet was read (optimistic concurrency on the encrypted key)
+   */
+  updateEncryption(wallet: Wallet, previous: Wallet): Promise<boolean>;
+
   /**
    * Deletes a wallet by ID
    */
@@ -0,0 +1,50 @@
+/**
+ * Key Provider Interface
+ *
+ * Defines the contract for the key-management backend holding the
+ * key-encryption keys (KEKs) of the envelope scheme: every wallet has its own
+ * data key, and only the wrapped data key is stored next to the wallet.
+ * This abstraction allows a local key file today and HSM/KMS adapters later
+ *
+ * @module wallet-service/domain/services
+ */
+
+/**
+ * A data key wrapped by a key-encryption key
+ */
+export interface WrappedDataKey {
+  wrappedKey: string; // Base64 encoded, opaque to callers
+  keyVersion: number; // Version of the key-encryption key that wrapped it
+}
+
+/**
+ * Key provider interface
+ */
+export interface IKeyProvider {
+  /**
+   * Name of the provider (e.g., 'local'), for logs
+   */
+  readonly name: string;
+
+  /**
+   * Version of the key-encryption key new data keys are wrapped with
+   */
+  getCurrentKeyVersion(): Promise<number>;
+
+  /**
+   * Checks if a key-encryption key version is available to this provider
+   */
+  hasKeyVersion(keyVersion: number): Promise<boolean>;
+
+  /**
+   * Wraps a data key with the current key-encryption key, or with the given version
+   */
+  wrapKey(dataKey: Buffer, keyVersion?: number): Promise<WrappedDataKey>;
+
+  /**
+   * Unwraps a data key with the key-encryption key version it was wrapped with
+   *
+   * @throws ValidationError if the version is unknown or the wrapped key is corrupted
+   */
+  unwrapKey(wrappedKey: string, keyVersion: number): Promise<Buffer>;
+}
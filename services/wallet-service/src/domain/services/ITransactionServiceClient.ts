@@ -0,0 +1,38 @@
+/**
+ * Transaction Service Client Interface
+ *
+ * Defines the contract for emitting merchant webhook events through
+ * transaction-service, which owns the webhook endpoints
+ *
+ * @module wallet-service/domain/services
+ */
+
+import { WebhookEventType } from '@shield/shared/types';
+
+/**
+ * Transaction service client interface
+ */
+export interface ITransactionServiceClient {
+  /**
+   * Emits a webhook event for a user. Fire-and-forget: returns immediately
+   * and only logs failures, so a webhook problem never fails a wallet operation.
+   */
+  publishWebhookEvent(
+    type: WebhookEventType,
+    userId: string,
+    data: Record<string, unknown>,
+    correlationId?: string
+  ): void;
+
+  /**
+   * Emits a webhook event for a user and waits until transaction-service accepts it
+   *
+   * @throws ExternalServiceError if transaction-service cannot be reached or rejects the event
+   */
+  sendWebhookEvent(
+    type: WebhookEventType,
+    userId: string,
+    data: Record<string, unknown>,
+    correlationId?: string
+  ): Promise<void>;
+}
@@ -0,0 +1,150 @@
+/**
+ * Create Deposit Address Use Case
+ *
+ * Hands out a dedicated address for one payment request, bound to an
+ * expected amount of a token and an expiry.
+ *
+ * The address is taken from the pool (an expired request's address whose
+ * quarantine is over) when one is available on the chain; otherwise the next
+ * address is derived from the user's HD seed.
+ *
+ * Configuration:
+ * - DEPOSIT_ADDRESS_DEFAULT_TTL_MINUTES - Expiry when none is given (default: 60)
+ *
+ * @module wallet-service/domain/useCases
+ */
+
+import { IDepositAddressRepository } from '../repositories/IDepositAddressRepository';
+import { IWalletRepository } from '../repositories/IWalletRepository';
+import { DepositAddress } from '../entities/DepositAddress';
+import { Wallet } from '../entities/Wallet';
+import { DeriveHdWalletUseCase } from './DeriveHdWalletUseCase';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  ServiceError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { ChainType, logInfo } from '@shield/shared/types';
+import { isNotNull } from '@shield/shared/utils/guards';
+import { compareAmounts, normalizeAmount } from '../../utils/amountUtils';
+
+/**
+ * Input for deposit address creation
+ */
+export interface CreateDepositAddressInput {
+  userId: string;
+  chain: ChainType;
+  token: string;
+  expectedAmount: string;
+  expiresInMinutes?: number;
+  reference?: string;
+}
+
+/**
+ * Create Deposit Address Use Case
+ */
+export class CreateDepositAddressUseCase {
+  constructor(
+    private readonly depositAddressRepository: IDepositAddressRepository,
+    private readonly walletRepository: IWalletRepository,
+    private readonly deriveHdWalletUseCase: DeriveHdWalletUseCase
+  ) {}
+
+  /**
+   * Executes the create deposit address use case
+   *
+   * @throws ValidationError if the expected amount is not a positive number
+   * @throws NotFoundError if no address is pooled and the user has no HD seed
+   */
+  public async execute(
+    input: CreateDepositAddressInput,
+    correlationId: string = ''
+  ): Promise<DepositAddress> {
+    try {
+      const { userId, chain, reference } = input;
+      const token = input.token.toUpperCase();
+      const expectedAmount = normalizeAmount(input.expectedAmount);
+
+      if (compareAmounts(expectedAmount, '0') <= 0) {
+        throw new ValidationError('Expected amount must be greater than zero', {
+          expectedAmount: input.expectedAmount,
+        });
+      }
+
+      const ttlMinutes =
+        input.expiresInMinutes ?? parseInt(process.env.DEPOSIT_ADDRESS_DEFAULT_TTL_MINUTES || '60', 10);
+      const expiresAt = new Date(Date.now() + ttlMinutes * 60 * 1000);
+
+      const pooledWallet = await this.takePooledWallet(userId, chain);
+      const wallet =
+        pooledWallet ??
+        (await this.deriveHdWalletUseCase.execute(
+          { userId, chain, tag: isNotNull(reference) ? `Deposit ${reference}` : undefined },
+          correlationId
+        ));
+
+      const depositAddress = await this.depositAddressRepository.save(
+        DepositAddress.create({
+          userId,
+          walletId: wallet.id,
+          chain,
+          address: wallet.address,
+          token,
+          expectedAmount,
+          expiresAt,
+          reference,
+        })
+      );
+
+      logInfo('Deposit address created', {
+        userId,
+        chain,
+        depositAddressId: depositAddress.id,
+        address: depositAddress.address,
+        pooled: isNotNull(pooledWallet),
+        expiresAt,
+        correlationId,
+      });
+
+      return depositAddress;
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (
+        error instanceof ValidationError ||
+        error instanceof NotFoundError ||
+        error instanceof ConflictError ||
+        error instanceof ServiceError
+      ) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to create deposit address', {
+        userId: input.userId,
+        chain: input.chain,
+        operation: 'createDepositAddress',
+        correlationId,
+      });
+    }
+  }
+
+  /**
+   * Takes a wallet back from the pool, skipping addresses whose wallet was
+   * deactivated or deleted in the meantime
+   */
+  private async takePooledWallet(userId: string, chain: ChainType): Promise<Wallet | null> {
+    for (;;) {
+      const released = await this.depositAddressRepository.claimFromPool(userId, chain, new Date());
+      if (!isNotNull(released)) {
+        return null;
+      }
+
+      const wallet = await this.walletRepository.findByIdAndUserId(released.walletId, userId);
+      if (isNotNull(wallet) && wallet.isActive) {
+        return wallet;
+      }
+    }
+  }
+}
@@ -0,0 +1,134 @@
+/**
+ * Create HD Seed Use Case
+ *
+ * Generates a user's BIP-39 master seed, envelope-encrypts the mnemonic
+ * (data key wrapped by the key provider, plus the user's password as a
+ * second factor) and stores it with the extended public keys of the EVM
+ * and Tron account paths. Deposit addresses are then derived from the seed
+ * instead of each getting its own random key.
+ *
+ * The mnemonic is returned once, for the user to back up offline.
+ *
+ * @module wallet-service/domain/useCases
+ */
+
+import { IHdSeedRepository } from '../repositories/IHdSeedRepository';
+import { IKeyProvider } from '../services/IKeyProvider';
+import { HdSeed } from '../entities/HdSeed';
+import {
+  ValidationError,
+  ConflictError,
+  ServiceError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { logInfo } from '@shield/shared/types';
+import { isNotNull } from '@shield/shared/utils/guards';
+import { generateHdSeed } from '../../utils/walletGenerator';
+import { encryptWithEnvelope } from '../../utils/cryptoUtils';
+
+/**
+ * Input for HD seed creation
+ */
+export interface CreateHdSeedInput {
+  userId: string;
+  password: string; // User's password for encrypting the mnemonic
+}
+
+/**
+ * Result of HD seed creation
+ */
+export interface CreateHdSeedResult {
+  seed: HdSeed;
+  mnemonic: string;
+  warning: string;
+}
+
+/**
+ * Create HD Seed Use Case
+ */
+export class CreateHdSeedUseCase {
+  constructor(
+    private readonly hdSeedRepository: IHdSeedRepository,
+    private readonly keyProvider: IKeyProvider
+  ) {}
+
+  /**
+   * Executes the create HD seed use case
+   *
+   * @throws ValidationError if the password is too weak
+   * @throws ConflictError if the user already has a seed
+   */
+  public async execute(
+    input: CreateHdSeedInput,
+    correlationId: string = ''
+  ): Promise<CreateHdSeedResult> {
+    try {
+      const { userId, password } = input;
+
+      if (!password || password.length < 8) {
+        throw new ValidationError(
+          'Password must be at least 8 characters long for mnemonic encryption',
+          { providedLength: password?.length || 0 }
+        );
+      }
+
+      // One seed per user: a second one would split the backup again
+      const existing = await this.hdSeedRepository.findByUserId(userId);
+      if (isNotNull(existing)) {
+        throw new ConflictError('An HD seed already exists for your account', {
+          hdSeedId: existing.id,
+        });
+      }
+
+      const generated = generateHdSeed();
+      const encryptionResult = await encryptWithEnvelope(generated.mnemonic, this.keyProvider, password);
+
+      const seed = await this.hdSeedRepository.save(
+        HdSeed.create({
+          userId,
+          mnemonicEncrypted: encryptionResult.encryptedData,
+          encryptionIv: encryptionResult.iv,
+          // Always set: the password factor is mandatory for seeds
+          encryptionSalt: encryptionResult.salt as string,
+          encryptedDataKey: encryptionResult.encryptedDataKey,
+          keyVersion: encryptionResult.keyVersion,
+          evmExtendedPublicKey: generated.evmExtendedPublicKey,
+          tronExtendedPublicKey: generated.tronExtendedPublicKey,
+        })
+      );
+
+      logInfo('HD seed created', {
+        userId,
+        hdSeedId: seed.id,
+        keyProvider: this.keyProvider.name,
+        keyVersion: seed.keyVersion,
+        correlationId,
+      });
+
+      return {
+        seed,
+        mnemonic: generated.mnemonic,
+        warning:
+          '⚠️ SECURITY WARNING: Write down this recovery phrase and store it securely offline. ' +
+          'It controls every address derived from it and will not be shown again. ' +
+          'Shield will never ask you for it.',
+      };
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (
+        error instanceof ValidationError ||
+        error instanceof ConflictError ||
+        error instanceof ServiceError
+      ) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to create HD seed', {
+        userId: input.userId,
+        operation: 'createHdSeed',
+        correlationId,
+      });
+    }
+  }
+}
@@ -3,13 +3,15 @@
  * 
  * Business logic for creating a new wallet (importing existing wallet)
  * Verifies wallet exists on blockchain before import
+ * Announces the wallet to the user's webhooks as wallet.created
  * 
  * @module wallet-service/domain/useCases
  */
 
 import { Wallet } from '../entities/Wallet';
 import { IWalletRepository } from '../repositories/IWalletRepository';
-import { ChainType } from '@shield/shared/types';
+import { ITransactionServiceClient } from '../services/ITransactionServiceClient';
+import { ChainType, WebhookEventType } from '@shield/shared/types';
 import {
   ConflictError,
   ServiceError,
@@ -34,7 +36,10 @@ export interface CreateWalletInput {
  * Create Wallet Use Case (Import Wallet)
  */
 export class CreateWalletUseCase {
-  constructor(private readonly walletRepository: IWalletRepository) {}
+  constructor(
+    private readonly walletRepository: IWalletRepository,
+    private readonly transactionServiceClient: ITransactionServiceClient
+  ) {}
 
   /**
    * Executes the create wallet use case
@@ -74,6 +79,19 @@ export class CreateWalletUseCase {
       // Save wallet
       const savedWallet = await this.walletRepository.save(wallet);
 
+      this.transactionServiceClient.publishWebhookEvent(
+        WebhookEventType.WALLET_CREATED,
+        savedWallet.userId,
+        {
+          walletId: savedWallet.id,
+          chain: savedWallet.chain,
+          address: savedWallet.address,
+          tag: savedWallet.tag,
+          createdBySystem: false,
+        },
+        correlationId
+      );
+
       return savedWallet;
     } catch (error: unknown) {
       // Re-throw known errors
@@ -0,0 +1,146 @@
+/**
+ * Derive HD Wallet Use Case
+ *
+ * Derives the next unused deposit address from the user's HD seed and stores
+ * it as a Wallet holding only the derivation index. Addresses come from the
+ * seed's extended public keys, so no password is needed; the private key is
+ * re-derived from the mnemonic only when revealed.
+ *
+ * Indexes are reserved atomically per chain family (one EVM counter for all
+ * EVM chains). An index whose address the user already registered (e.g.
+ * imported by hand) is skipped.
+ * Announces the wallet to the user's webhooks as wallet.created
+ *
+ * @module wallet-service/domain/useCases
+ */
+
+import { IWalletRepository } from '../repositories/IWalletRepository';
+import { IHdSeedRepository } from '../repositories/IHdSeedRepository';
+import { ITransactionServiceClient } from '../services/ITransactionServiceClient';
+import { Wallet } from '../entities/Wallet';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  ServiceError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { ChainType, WebhookEventType, logInfo } from '@shield/shared/types';
+import { isNotNull } from '@shield/shared/utils/guards';
+import { deriveHdAddress, getDerivationPath } from '../../utils/walletGenerator';
+
+/**
+ * Max indexes tried before giving up on finding an unused address
+ */
+const MAX_DERIVATION_ATTEMPTS = 20;
+
+/**
+ * Input for HD wallet derivation
+ */
+export interface DeriveHdWalletInput {
+  userId: string;
+  chain: ChainType;
+  tag?: string;
+}
+
+/**
+ * Derive HD Wallet Use Case
+ */
+export class DeriveHdWalletUseCase {
+  constructor(
+    private readonly walletRepository: IWalletRepository,
+    private readonly hdSeedRepository: IHdSeedRepository,
+    private readonly transactionServiceClient: ITransactionServiceClient
+  ) {}
+
+  /**
+   * Executes the derive HD wallet use case
+   *
+   * @returns The derived wallet
+   *
+   * @throws NotFoundError if the user has no HD seed
+   * @throws ConflictError if no unused address was found
+   */
+  public async execute(
+    input: DeriveHdWalletInput,
+    correlationId: string = ''
+  ): Promise<Wallet> {
+    try {
+      const { userId, chain, tag } = input;
+
+      const seed = await this.hdSeedRepository.findByUserId(userId);
+      if (!isNotNull(seed)) {
+        throw new NotFoundError('HD seed', undefined, { userId });
+      }
+
+      for (let attempt = 0; attempt < MAX_DERIVATION_ATTEMPTS; attempt++) {
+        const index = await this.hdSeedRepository.reserveNextIndex(seed.id, chain);
+        const address = await deriveHdAddress(seed.getExtendedPublicKey(chain), chain, index);
+
+        if (await this.walletRepository.existsByAddressAndUserId(address, userId)) {
+          logInfo('Derived address already registered, skipping index', {
+            userId,
+            chain,
+            index,
+            correlationId,
+          });
+          continue;
+        }
+
+        const savedWallet = await this.walletRepository.save(
+          Wallet.createDerived({
+            userId,
+            chain,
+            address,
+            hdSeedId: seed.id,
+            derivationIndex: index,
+            tag: tag || `${chain} Deposit #${index}`,
+          })
+        );
+
+        logInfo('HD wallet derived', {
+          userId,
+          chain,
+          walletId: savedWallet.id,
+          address: savedWallet.address,
+          derivationPath: getDerivationPath(chain, index),
+          correlationId,
+        });
+
+        this.transactionServiceClient.publishWebhookEvent(WebhookEventType.WALLET_CREATED, userId, {
+          walletId: savedWallet.id,
+          chain: savedWallet.chain,
+          address: savedWallet.address,
+          tag: savedWallet.tag,
+          createdBySystem: true,
+          derivationIndex: index,
+        }, correlationId);
+
+        return savedWallet;
+      }
+
+      throw new ConflictError('No unused address found on the HD seed', {
+        chain,
+        attempts: MAX_DERIVATION_ATTEMPTS,
+      });
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (
+        error instanceof ValidationError ||
+        error instanceof NotFoundError ||
+        error instanceof ConflictError ||
+        error instanceof ServiceError
+      ) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to derive HD wallet', {
+        userId: input.userId,
+        chain: input.chain,
+        operation: 'deriveHdWallet',
+        correlationId,
+      });
+    }
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * Expire Deposit Addresses Use Case
+ *
+ * Moves AWAITING requests past their expiry to EXPIRED. Addresses that
+ * received nothing return to the pool once DEPOSIT_ADDRESS_QUARANTINE_MS has
+ * passed, so a late payment for the old request is never credited to a new
+ * one. Each expiry is announced to the merchant as
+ * deposit_address.status_changed.
+ *
+ * Configuration:
+ * - DEPOSIT_ADDRESS_QUARANTINE_MS      - Time before an expired address is reused (default: 604800000, 7 days)
+ * - DEPOSIT_ADDRESS_EXPIRY_BATCH_SIZE  - Max requests expired per run (default: 100)
+ *
+ * @module wallet-service/domain/useCases
+ */
+
+import { IDepositAddressRepository } from '../repositories/IDepositAddressRepository';
+import { ITransactionServiceClient } from '../services/ITransactionServiceClient';
+import {
+  ServiceError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { WebhookEventType, logInfo } from '@shield/shared/types';
+
+/**
+ * Expire Deposit Addresses Use Case
+ */
+export class ExpireDepositAddressesUseCase {
+  constructor(
+    private readonly depositAddressRepository: IDepositAddressRepository,
+    private readonly transactionServiceClient: ITransactionServiceClient
+  ) {}
+
+  /**
+   * Executes the expire deposit addresses use case
+   *
+   * @returns Number of requests expired
+   */
+  public async execute(correlationId: string = ''): Promise<number> {
+    try {
+      const quarantineMs = parseInt(process.env.DEPOSIT_ADDRESS_QUARANTINE_MS || '604800000', 10);
+      const batchSize = parseInt(process.env.DEPOSIT_ADDRESS_EXPIRY_BATCH_SIZE || '100', 10);
+
+      const due = await this.depositAddressRepository.findExpired(new Date(), batchSize);
+      let expired = 0;
+
+      for (const depositAddress of due) {
+        const updated = depositAddress.expire(quarantineMs);
+
+        // A payment reconciled in the meantime wins; the next run re-checks it
+        if (!(await this.depositAddressRepository.update(updated, depositAddress))) {
+          continue;
+        }
+
+        this.transactionServiceClient.publishWebhookEvent(
+          WebhookEventType.DEPOSIT_ADDRESS_STATUS_CHANGED,
+          updated.userId,
+          {
+            depositAddressId: updated.id,
+            chain: updated.chain,
+            address: updated.address,
+            token: updated.token,
+            reference: updated.reference,
+            fromStatus: depositAddress.status,
+            toStatus: updated.status,
+            expectedAmount: updated.expectedAmount,
+            receivedAmount: updated.receivedAmount,
+          },
+          correlationId
+        );
+        expired += 1;
+      }
+
+      if (expired > 0) {
+        logInfo('Deposit addresses expired', {
+          expired,
+          correlationId,
+        });
+      }
+
+      return expired;
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof ServiceError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to expire deposit addresses', {
+        operation: 'expireDepositAddresses',
+        correlationId,
+      });
+    }
+  }
+}
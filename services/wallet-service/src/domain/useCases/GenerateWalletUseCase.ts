@@ -3,20 +3,25 @@
  * 
  * Generates a new blockchain wallet, encrypts the private key, and stores it securely
  * This creates a wallet ON-CHAIN (not imported) with encrypted private key storage
+ * The key is envelope-encrypted through the key provider; a password, when
+ * given, is required as a second factor to decrypt it
+ * Announces the wallet to the user's webhooks as wallet.created
  * 
  * @module wallet-service/domain/useCases
  */
 
 import { IWalletRepository } from '../repositories/IWalletRepository';
+import { ITransactionServiceClient } from '../services/ITransactionServiceClient';
+import { IKeyProvider } from '../services/IKeyProvider';
 import { Wallet } from '../entities/Wallet';
 import { 
   ValidationError, 
   ConflictError,
   handleUnknownError 
 } from '@shield/shared/errors';
-import { logInfo } from '@shield/shared/types';
+import { EVM_CHAINS, WebhookEventType, isEvmChain, logInfo } from '@shield/shared/types';
 import { generateWallet, type ChainType } from '../../utils/walletGenerator';
-import { encryptPrivateKey, wipeFromMemory } from '../../utils/cryptoUtils';
+import { encryptWithEnvelope, wipeFromMemory } from '../../utils/cryptoUtils';
 
 /**
  * Input for wallet generation
@@ -24,7 +29,7 @@ import { encryptPrivateKey, wipeFromMemory } from '../../utils/cryptoUtils';
 export interface GenerateWalletInput {
   userId: string;
   chain: ChainType;
-  password: string; // User's password for encrypting the private key
+  password?: string; // Optional second factor for decrypting the private key
   tag?: string;
 }
 
@@ -32,7 +37,11 @@ export interface GenerateWalletInput {
  * Use case for generating a new blockchain wallet
  */
 export class GenerateWalletUseCase {
-  constructor(private walletRepository: IWalletRepository) {}
+  constructor(
+    private walletRepository: IWalletRepository,
+    private transactionServiceClient: ITransactionServiceClient,
+    private keyProvider: IKeyProvider
+  ) {}
 
   /**
    * Executes the wallet generation use case
@@ -50,24 +59,23 @@ export class GenerateWalletUseCase {
       const { userId, chain, password, tag } = input;
 
       // Validate required fields
-      if (!userId || !chain || !password) {
+      if (!userId || !chain) {
         throw new ValidationError('Missing required fields for wallet generation', {
           hasUserId: !!userId,
           hasChain: !!chain,
-          hasPassword: !!password,
         });
       }
 
       // Validate chain
-      if (chain !== 'POLYGON' && chain !== 'TRON') {
+      if (!isEvmChain(chain) && chain !== 'TRON') {
         throw new ValidationError('Invalid blockchain network', {
           providedChain: chain,
-          supportedChains: ['POLYGON', 'TRON'],
+          supportedChains: [...EVM_CHAINS, 'TRON'],
         });
       }
 
-      // Validate password strength
-      if (password.length < 8) {
+      // Validate password strength (when used as second factor)
+      if (password !== undefined && password.length < 8) {
         throw new ValidationError(
           'Password must be at least 8 characters long for private key encryption',
           { providedLength: password.length }
@@ -107,13 +115,15 @@ export class GenerateWalletUseCase {
         );
       }
 
-      // Step 3: Encrypt the private key with user's password
+      // Step 3: Encrypt the private key (envelope, plus the password factor if given)
       logInfo('Encrypting private key', {
         userId,
         chain,
+        keyProvider: this.keyProvider.name,
+        passwordFactor: password !== undefined,
       });
 
-      const encryptionResult = await encryptPrivateKey(privateKey, password);
+      const encryptionResult = await encryptWithEnvelope(privateKey, this.keyProvider, password);
 
       // Step 4: Create wallet entity with encrypted private key
       const wallet = Wallet.createWithEncryption({
@@ -124,6 +134,8 @@ export class GenerateWalletUseCase {
         privateKeyEncrypted: encryptionResult.encryptedData,
         encryptionIv: encryptionResult.iv,
         encryptionSalt: encryptionResult.salt,
+        encryptedDataKey: encryptionResult.encryptedDataKey,
+        keyVersion: encryptionResult.keyVersion,
       });
 
       // Step 5: Save to database
@@ -137,6 +149,14 @@ export class GenerateWalletUseCase {
         createdBySystem: true,
       });
 
+      this.transactionServiceClient.publishWebhookEvent(WebhookEventType.WALLET_CREATED, userId, {
+        walletId: savedWallet.id,
+        chain: savedWallet.chain,
+        address: savedWallet.address,
+        tag: savedWallet.tag,
+        createdBySystem: true,
+      });
+
       return savedWallet;
     } catch (error: unknown) {
       if (
@@ -0,0 +1,46 @@
+/**
+ * Get Active Addresses Use Case
+ *
+ * Business logic for listing every active wallet address on a chain.
+ * Used by blockchain-service to decide which transfers to record.
+ *
+ * @module wallet-service/domain/useCases
+ */
+
+import { IWalletRepository } from '../repositories/IWalletRepository';
+import { ChainType } from '@shield/shared/types';
+import {
+  ServiceError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+
+/**
+ * Get Active Addresses Use Case
+ */
+export class GetActiveAddressesUseCase {
+  constructor(private readonly walletRepository: IWalletRepository) {}
+
+  /**
+   * Executes the get active addresses use case
+   */
+  public async execute(
+    chain: ChainType,
+    correlationId: string = ''
+  ): Promise<string[]> {
+    try {
+      return await this.walletRepository.findActiveAddressesByChain(chain);
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof ServiceError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to retrieve active addresses', {
+        chain,
+        operation: 'getActiveAddresses',
+        correlationId,
+      });
+    }
+  }
+}
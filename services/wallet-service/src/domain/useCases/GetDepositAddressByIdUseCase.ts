@@ -0,0 +1,59 @@
+/**
+ * Get Deposit Address By ID Use Case
+ * 
+ * Business logic for retrieving a deposit address (payment request) by ID
+ * 
+ * @module wallet-service/domain/useCases
+ */
+
+import { DepositAddress } from '../entities/DepositAddress';
+import { IDepositAddressRepository } from '../repositories/IDepositAddressRepository';
+import {
+  NotFoundError,
+  ServiceError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Get Deposit Address By ID Use Case
+ */
+export class GetDepositAddressByIdUseCase {
+  constructor(private readonly depositAddressRepository: IDepositAddressRepository) {}
+
+  /**
+   * Executes the get deposit address by ID use case
+   */
+  public async execute(
+    depositAddressId: string,
+    userId: string,
+    correlationId: string = ''
+  ): Promise<DepositAddress> {
+    try {
+      // Find deposit address and ensure ownership
+      const depositAddress = await this.depositAddressRepository.findByIdAndUserId(
+        depositAddressId,
+        userId
+      );
+
+      if (!isNotNull(depositAddress)) {
+        throw new NotFoundError('Deposit address');
+      }
+
+      return depositAddress;
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof NotFoundError || error instanceof ServiceError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to retrieve deposit address', {
+        depositAddressId,
+        userId,
+        operation: 'getDepositAddressById',
+        correlationId,
+      });
+    }
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Get Deposit Addresses Use Case
+ * 
+ * Business logic for listing a user's deposit addresses (payment requests)
+ * 
+ * @module wallet-service/domain/useCases
+ */
+
+import { DepositAddress } from '../entities/DepositAddress';
+import {
+  DepositAddressFilters,
+  IDepositAddressRepository,
+} from '../repositories/IDepositAddressRepository';
+import {
+  ServiceError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+
+/**
+ * Get Deposit Addresses Use Case
+ */
+export class GetDepositAddressesUseCase {
+  constructor(private readonly depositAddressRepository: IDepositAddressRepository) {}
+
+  /**
+   * Executes the get deposit addresses use case
+   */
+  public async execute(
+    userId: string,
+    filters?: DepositAddressFilters,
+    correlationId: string = ''
+  ): Promise<DepositAddress[]> {
+    try {
+      return await this.depositAddressRepository.findByUserId(userId, filters);
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof ServiceError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to retrieve deposit addresses', {
+        userId,
+        filters,
+        operation: 'getDepositAddresses',
+        correlationId,
+      });
+    }
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Get Key Rotation By ID Use Case
+ * 
+ * Business logic for retrieving a master key rotation run and its progress
+ * 
+ * @module wallet-service/domain/useCases
+ */
+
+import { KeyRotationRun } from '../entities/KeyRotationRun';
+import { IKeyRotationRunRepository } from '../repositories/IKeyRotationRunRepository';
+import {
+  NotFoundError,
+  ServiceError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Get Key Rotation By ID Use Case
+ */
+export class GetKeyRotationByIdUseCase {
+  constructor(private readonly keyRotationRunRepository: IKeyRotationRunRepository) {}
+
+  /**
+   * Executes the get key rotation by ID use case
+   */
+  public async execute(keyRotationId: string, correlationId: string = ''): Promise<KeyRotationRun> {
+    try {
+      const run = await this.keyRotationRunRepository.findById(keyRotationId);
+
+      if (!isNotNull(run)) {
+        throw new NotFoundError('Key rotation', keyRotationId);
+      }
+
+      return run;
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof NotFoundError || error instanceof ServiceError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to retrieve key rotation', {
+        keyRotationId,
+        operation: 'getKeyRotationById',
+        correlationId,
+      });
+    }
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * Get Key Rotations Use Case
+ * 
+ * Business logic for listing master key rotation runs with their progress
+ * 
+ * @module wallet-service/domain/useCases
+ */
+
+import { KeyRotationRun } from '../entities/KeyRotationRun';
+import { IKeyRotationRunRepository } from '../repositories/IKeyRotationRunRepository';
+import {
+  ServiceError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+
+/**
+ * Max runs listed
+ */
+const MAX_RUNS_LISTED = 50;
+
+/**
+ * Get Key Rotations Use Case
+ */
+export class GetKeyRotationsUseCase {
+  constructor(private readonly keyRotationRunRepository: IKeyRotationRunRepository) {}
+
+  /**
+   * Executes the get key rotations use case (newest first)
+   */
+  public async execute(correlationId: string = ''): Promise<KeyRotationRun[]> {
+    try {
+      return await this.keyRotationRunRepository.findAll(MAX_RUNS_LISTED);
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof ServiceError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to retrieve key rotations', {
+        operation: 'getKeyRotations',
+        correlationId,
+      });
+    }
+  }
+}
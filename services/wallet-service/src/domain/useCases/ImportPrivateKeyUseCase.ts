@@ -0,0 +1,239 @@
+/**
+ * Import Private Key Use Case
+ *
+ * Imports an existing wallet together with its private key, given either as a
+ * raw hex key or as a Web3 Secret Storage (V3) keystore file plus passphrase
+ * (MetaMask, geth and TronLink exports). The address is derived from the key,
+ * so the user proves control of the wallet; an expected address, if given,
+ * must match.
+ *
+ * The key is stored with the same encryption as generated wallets (envelope
+ * encryption, plus the password factor if given) and the wallet is marked
+ * createdBySystem=false. The keystore passphrase is only used for the import.
+ * Announces the wallet to the user's webhooks as wallet.created
+ *
+ * @module wallet-service/domain/useCases
+ */
+
+import { IWalletRepository } from '../repositories/IWalletRepository';
+import { ITransactionServiceClient } from '../services/ITransactionServiceClient';
+import { IKeyProvider } from '../services/IKeyProvider';
+import { Wallet } from '../entities/Wallet';
+import {
+  ValidationError,
+  ConflictError,
+  ServiceError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { ChainType, EVM_CHAINS, WebhookEventType, isEvmChain, logInfo } from '@shield/shared/types';
+import { isNotNull } from '@shield/shared/utils/guards';
+import {
+  walletFromKeystore,
+  walletFromPrivateKey,
+  type GeneratedWallet,
+} from '../../utils/walletGenerator';
+import {
+  encryptWithEnvelope,
+  isValidEthereumPrivateKey,
+  isValidTronPrivateKey,
+  wipeFromMemory,
+} from '../../utils/cryptoUtils';
+
+/**
+ * Input for importing a private key (exactly one of privateKey or keystore)
+ */
+export interface ImportPrivateKeyInput {
+  userId: string;
+  chain: ChainType;
+  privateKey?: string; // Hex private key (Tron: without 0x)
+  keystore?: string; // V3 keystore JSON
+  passphrase?: string; // Keystore passphrase
+  password?: string; // Optional second factor for decrypting the stored private key
+  address?: string; // Expected address, verified against the key
+  tag?: string;
+}
+
+/**
+ * Use case for importing a wallet with its private key
+ */
+export class ImportPrivateKeyUseCase {
+  constructor(
+    private readonly walletRepository: IWalletRepository,
+    private readonly transactionServiceClient: ITransactionServiceClient,
+    private readonly keyProvider: IKeyProvider
+  ) {}
+
+  /**
+   * Executes the import private key use case
+   *
+   * @returns Imported wallet entity
+   *
+   * @throws ValidationError if the key or keystore is invalid, the passphrase
+   * is wrong, the address does not match or the password is weak
+   * @throws ConflictError if the address is already registered for this user
+   */
+  public async execute(
+    input: ImportPrivateKeyInput,
+    correlationId: string = ''
+  ): Promise<Wallet> {
+    let imported: GeneratedWallet | null = null;
+
+    try {
+      const { userId, chain, password, address, tag } = input;
+
+      if (!isEvmChain(chain) && chain !== 'TRON') {
+        throw new ValidationError('Invalid blockchain network', {
+          providedChain: chain,
+          supportedChains: [...EVM_CHAINS, 'TRON'],
+        });
+      }
+
+      if (password !== undefined && password.length < 8) {
+        throw new ValidationError(
+          'Password must be at least 8 characters long for private key encryption',
+          { providedLength: password.length }
+        );
+      }
+
+      // Step 1: Recover the private key and derive the chain's address from it
+      imported = await this.recoverWallet(input);
+
+      if (address !== undefined && !this.isSameAddress(address, imported.address, chain)) {
+        throw new ValidationError('Private key does not belong to the given address', {
+          chain,
+          address,
+          derivedAddress: imported.address,
+        });
+      }
+
+      // Step 2: Check if address already exists for this user
+      const existing = await this.walletRepository.findByAddressAndUserId(
+        imported.address,
+        userId
+      );
+
+      if (isNotNull(existing)) {
+        throw new ConflictError('This wallet address is already registered for your account', {
+          address: imported.address,
+          existingWalletId: existing.id,
+        });
+      }
+
+      // Step 3: Encrypt the private key (envelope, plus the password factor if given)
+      const encryptionResult = await encryptWithEnvelope(
+        imported.privateKey,
+        this.keyProvider,
+        password
+      );
+
+      // Step 4: Store the wallet
+      const savedWallet = await this.walletRepository.save(
+        Wallet.createImported({
+          userId,
+          chain,
+          address: imported.address,
+          tag: tag || `${chain} Wallet`,
+          privateKeyEncrypted: encryptionResult.encryptedData,
+          encryptionIv: encryptionResult.iv,
+          encryptionSalt: encryptionResult.salt,
+          encryptedDataKey: encryptionResult.encryptedDataKey,
+          keyVersion: encryptionResult.keyVersion,
+        })
+      );
+
+      logInfo('Wallet private key imported successfully', {
+        userId,
+        chain,
+        walletId: savedWallet.id,
+        address: savedWallet.address,
+        source: input.keystore !== undefined ? 'keystore' : 'privateKey',
+        keyProvider: this.keyProvider.name,
+        passwordFactor: password !== undefined,
+        correlationId,
+      });
+
+      this.transactionServiceClient.publishWebhookEvent(
+        WebhookEventType.WALLET_CREATED,
+        userId,
+        {
+          walletId: savedWallet.id,
+          chain: savedWallet.chain,
+          address: savedWallet.address,
+          tag: savedWallet.tag,
+          createdBySystem: false,
+        },
+        correlationId
+      );
+
+      return savedWallet;
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (
+        error instanceof ValidationError ||
+        error instanceof ConflictError ||
+        error instanceof ServiceError
+      ) {
+        throw error;
+      }
+
+      // Wrap unknown errors (never with the key, keystore or passphrase)
+      throw handleUnknownError(error, 'Failed to import private key', {
+        userId: input.userId,
+        chain: input.chain,
+        operation: 'importPrivateKey',
+        correlationId,
+      });
+    } finally {
+      // CRITICAL SECURITY: Wipe private key from memory
+      if (imported) {
+        wipeFromMemory(imported.privateKey);
+        imported = null;
+      }
+    }
+  }
+
+  /**
+   * Recovers the wallet from the raw private key or the keystore
+   */
+  private async recoverWallet(input: ImportPrivateKeyInput): Promise<GeneratedWallet> {
+    const { chain, privateKey, keystore, passphrase } = input;
+
+    if ((privateKey === undefined) === (keystore === undefined)) {
+      throw new ValidationError('Provide either a private key or a keystore', {
+        hasPrivateKey: privateKey !== undefined,
+        hasKeystore: keystore !== undefined,
+      });
+    }
+
+    if (keystore !== undefined) {
+      if (passphrase === undefined) {
+        throw new ValidationError('Keystore passphrase is required', { chain });
+      }
+
+      return walletFromKeystore(keystore, passphrase, chain);
+    }
+
+    const isValidKey =
+      chain === 'TRON'
+        ? isValidTronPrivateKey(privateKey as string)
+        : isValidEthereumPrivateKey(privateKey as string);
+
+    if (!isValidKey) {
+      throw new ValidationError(
+        chain === 'TRON'
+          ? 'Tron private keys must be 64 hex characters (without 0x)'
+          : 'Private key must be 64 hex characters (optionally 0x-prefixed)',
+        { chain }
+      );
+    }
+
+    return walletFromPrivateKey(privateKey as string, chain);
+  }
+
+  /**
+   * Compares addresses (EVM addresses are case-insensitive, Tron base58 is not)
+   */
+  private isSameAddress(expected: string, derived: string, chain: ChainType): boolean {
+    return chain === 'TRON' ? expected === derived : expected.toLowerCase() === derived.toLowerCase();
+  }
+}
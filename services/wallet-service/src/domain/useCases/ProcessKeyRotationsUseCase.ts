@@ -0,0 +1,298 @@
+/**
+ * Process Key Rotations Use Case
+ *
+ * Migrates the next batch of each RUNNING key rotation: the data key is
+ * unwrapped with the source master key version and wrapped with the target
+ * one. Wallets are migrated first, then HD seeds. Private keys, mnemonics
+ * and passwords are not involved.
+ *
+ * Wallets and seeds are taken in ID order after the run's cursors, and the
+ * cursors and counters are stored after each batch, so a restarted service
+ * continues where it stopped. A wallet or seed that cannot be migrated is
+ * counted as failed and skipped; starting a new run for the same versions
+ * retries it. A run whose target version is unavailable is marked FAILED and
+ * can be resumed.
+ *
+ * Configuration:
+ * - KEY_ROTATION_BATCH_SIZE - Wallets or seeds migrated per run and batch (default: 100)
+ *
+ * @module wallet-service/domain/useCases
+ */
+
+import { IKeyRotationRunRepository } from '../repositories/IKeyRotationRunRepository';
+import { IWalletRepository } from '../repositories/IWalletRepository';
+import { IHdSeedRepository } from '../repositories/IHdSeedRepository';
+import { IKeyProvider } from '../services/IKeyProvider';
+import { KeyRotationRun, KeyRotationStatus } from '../entities/KeyRotationRun';
+import { Wallet } from '../entities/Wallet';
+import { HdSeed } from '../entities/HdSeed';
+import {
+  ServiceError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { logInfo } from '@shield/shared/types';
+import { isNotNull } from '@shield/shared/utils/guards';
+import { rewrapDataKey } from '../../utils/cryptoUtils';
+
+/**
+ * Process Key Rotations Use Case
+ */
+export class ProcessKeyRotationsUseCase {
+  constructor(
+    private readonly keyRotationRunRepository: IKeyRotationRunRepository,
+    private readonly walletRepository: IWalletRepository,
+    private readonly hdSeedRepository: IHdSeedRepository,
+    private readonly keyProvider: IKeyProvider
+  ) {}
+
+  /**
+   * Executes the process key rotations use case
+   *
+   * @returns Number of wallets and seeds migrated
+   */
+  public async execute(correlationId: string = ''): Promise<number> {
+    try {
+      const runs = await this.keyRotationRunRepository.findByStatus(KeyRotationStatus.RUNNING);
+      let migrated = 0;
+
+      for (const run of runs) {
+        migrated += await this.processBatch(run, correlationId);
+      }
+
+      return migrated;
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (error instanceof ServiceError) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to process key rotations', {
+        operation: 'processKeyRotations',
+        correlationId,
+      });
+    }
+  }
+
+  /**
+   * Migrates one batch of a run and stores its progress
+   */
+  private async processBatch(run: KeyRotationRun, correlationId: string): Promise<number> {
+    for (const keyVersion of [run.fromVersion, run.toVersion]) {
+      if (!(await this.keyProvider.hasKeyVersion(keyVersion))) {
+        await this.keyRotationRunRepository.update(
+          run.fail(`Master key version ${keyVersion} is not available`),
+          run
+        );
+        logInfo('Key rotation stopped: master key version unavailable', {
+          keyRotationId: run.id,
+          keyVersion,
+          correlationId,
+        });
+        return 0;
+      }
+    }
+
+    const batchSize = parseInt(process.env.KEY_ROTATION_BATCH_SIZE || '100', 10);
+    const wallets = await this.walletRepository.findByKeyVersion(
+      run.fromVersion,
+      run.lastWalletId,
+      batchSize
+    );
+
+    if (wallets.length === 0) {
+      return this.processSeedBatch(run, batchSize, correlationId);
+    }
+
+    let migrated = 0;
+    let failed = 0;
+    let lastError: string | undefined;
+
+    for (const wallet of wallets) {
+      const error = await this.migrateWallet(wallet, run);
+      if (isNotNull(error)) {
+        failed += 1;
+        lastError = `Wallet ${wallet.id}: ${error}`;
+      } else {
+        migrated += 1;
+      }
+    }
+
+    const progressed = run.recordBatch({
+      migrated,
+      failed,
+      lastWalletId: wallets[wallets.length - 1].id,
+      lastError,
+    });
+
+    if (!(await this.keyRotationRunRepository.update(progressed, run))) {
+      // Another instance stored this batch first; its counters stand
+      logInfo('Key rotation progress changed concurrently', {
+        keyRotationId: run.id,
+        correlationId,
+      });
+      return migrated;
+    }
+
+    logInfo('Key rotation batch processed', {
+      keyRotationId: run.id,
+      migrated,
+      failed,
+      progressPercent: progressed.getProgressPercent(),
+      correlationId,
+    });
+
+    return migrated;
+  }
+
+  /**
+   * Migrates one batch of seeds once every wallet was processed, and
+   * completes the run when none is left
+   */
+  private async processSeedBatch(
+    run: KeyRotationRun,
+    batchSize: number,
+    correlationId: string
+  ): Promise<number> {
+    const seeds = await this.hdSeedRepository.findByKeyVersion(
+      run.fromVersion,
+      run.lastHdSeedId,
+      batchSize
+    );
+
+    if (seeds.length === 0) {
+      const completed = run.complete();
+      if (await this.keyRotationRunRepository.update(completed, run)) {
+        logInfo('Key rotation completed', {
+          keyRotationId: run.id,
+          fromVersion: run.fromVersion,
+          toVersion: run.toVersion,
+          migratedWallets: completed.migratedWallets,
+          failedWallets: completed.failedWallets,
+          migratedHdSeeds: completed.migratedHdSeeds,
+          failedHdSeeds: completed.failedHdSeeds,
+          correlationId,
+        });
+      }
+      return 0;
+    }
+
+    let migrated = 0;
+    let failed = 0;
+    let lastError: string | undefined;
+
+    for (const seed of seeds) {
+      const error = await this.migrateSeed(seed, run);
+      if (isNotNull(error)) {
+        failed += 1;
+        lastError = `HD seed ${seed.id}: ${error}`;
+      } else {
+        migrated += 1;
+      }
+    }
+
+    const progressed = run.recordSeedBatch({
+      migrated,
+      failed,
+      lastHdSeedId: seeds[seeds.length - 1].id,
+      lastError,
+    });
+
+    if (!(await this.keyRotationRunRepository.update(progressed, run))) {
+      // Another instance stored this batch first; its counters stand
+      logInfo('Key rotation progress changed concurrently', {
+        keyRotationId: run.id,
+        correlationId,
+      });
+      return migrated;
+    }
+
+    logInfo('Key rotation seed batch processed', {
+      keyRotationId: run.id,
+      migrated,
+      failed,
+      progressPercent: progressed.getProgressPercent(),
+      correlationId,
+    });
+
+    return migrated;
+  }
+
+  /**
+   * Re-wraps one wallet's data key
+   *
+   * @returns null on success, otherwise the failure reason
+   */
+  private async migrateWallet(wallet: Wallet, run: KeyRotationRun): Promise<string | null> {
+    if (
+      !isNotNull(wallet.privateKeyEncrypted) ||
+      !isNotNull(wallet.encryptionIv) ||
+      !isNotNull(wallet.encryptedDataKey)
+    ) {
+      return 'Envelope encryption data is missing';
+    }
+
+    try {
+      const wrapped = await rewrapDataKey(
+        wallet.encryptedDataKey,
+        run.fromVersion,
+        run.toVersion,
+        this.keyProvider
+      );
+      const rotated = wallet.withEncryption({
+        privateKeyEncrypted: wallet.privateKeyEncrypted,
+        encryptionIv: wallet.encryptionIv,
+        encryptionSalt: wallet.encryptionSalt,
+        encryptedDataKey: wrapped.wrappedKey,
+        keyVersion: wrapped.keyVersion,
+      });
+
+      if (await this.walletRepository.updateEncryption(rotated, wallet)) {
+        return null;
+      }
+
+      // Re-encrypted in the meantime (password change or another instance)
+      const current = await this.walletRepository.findById(wallet.id);
+      return current?.keyVersion === run.toVersion ? null : 'Wallet changed during rotation';
+    } catch (error: unknown) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+
+  /**
+   * Re-wraps one seed's data key
+   *
+   * @returns null on success, otherwise the failure reason
+   */
+  private async migrateSeed(seed: HdSeed, run: KeyRotationRun): Promise<string | null> {
+    if (!isNotNull(seed.encryptedDataKey)) {
+      return 'Envelope encryption data is missing';
+    }
+
+    try {
+      const wrapped = await rewrapDataKey(
+        seed.encryptedDataKey,
+        run.fromVersion,
+        run.toVersion,
+        this.keyProvider
+      );
+      const rotated = seed.withEncryption({
+        mnemonicEncrypted: seed.mnemonicEncrypted,
+        encryptionIv: seed.encryptionIv,
+        encryptionSalt: seed.encryptionSalt,
+        encryptedDataKey: wrapped.wrappedKey,
+        keyVersion: wrapped.keyVersion,
+      });
+
+      if (await this.hdSeedRepository.updateEncryption(rotated, seed)) {
+        return null;
+      }
+
+      // Re-encrypted in the meantime (password change or another instance)
+      const current = await this.hdSeedRepository.findById(seed.id);
+      return current?.keyVersion === run.toVersion ? null : 'HD seed changed during rotation';
+    } catch (error: unknown) {
+      return error instanceof Error ? error.message : String(error);
+    }
+  }
+}
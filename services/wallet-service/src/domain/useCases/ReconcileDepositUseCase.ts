@@ -0,0 +1,159 @@
+/**
+ * Reconcile Deposit Use Case
+ *
+ * Applies a confirmed incoming transfer, reported by blockchain-service, to
+ * the payment request its address is currently bound to. The request moves
+ * to PAID or OVERPAID once the expected amount is reached; partial payments
+ * add up. Transfers of another token, to addresses that are not deposit
+ * addresses, or already reconciled are ignored.
+ *
+ * Status changes (and payments after expiry) are announced to the merchant
+ * as deposit_address.status_changed. The notification is queued on the
+ * request with the payment and sent before the report is acknowledged; if
+ * transaction-service does not accept it the report fails, and the queue is
+ * sent again when blockchain-service retries it.
+ *
+ * @module wallet-service/domain/useCases
+ */
+
+import { IDepositAddressRepository } from '../repositories/IDepositAddressRepository';
+import { ITransactionServiceClient } from '../services/ITransactionServiceClient';
+import { DepositAddress } from '../entities/DepositAddress';
+import {
+  ValidationError,
+  ConflictError,
+  ServiceError,
+  ExternalServiceError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { ChainType, WebhookEventType, logInfo } from '@shield/shared/types';
+import { isNotNull } from '@shield/shared/utils/guards';
+import { compareAmounts, normalizeAmount } from '../../utils/amountUtils';
+
+/**
+ * Attempts before giving up when the request keeps changing underneath (e.g. expiry job)
+ */
+const MAX_UPDATE_ATTEMPTS = 3;
+
+/**
+ * Confirmed incoming transfer
+ */
+export interface ReconcileDepositInput {
+  chain: ChainType;
+  address: string;
+  /** Token symbol (e.g. USDT) */
+  token: string;
+  /** Amount in token units */
+  amount: string;
+  txHash: string;
+}
+
+/**
+ * Reconcile Deposit Use Case
+ */
+export class ReconcileDepositUseCase {
+  constructor(
+    private readonly depositAddressRepository: IDepositAddressRepository,
+    private readonly transactionServiceClient: ITransactionServiceClient
+  ) {}
+
+  /**
+   * Executes the reconcile deposit use case
+   *
+   * @returns The updated request, or null if the transfer does not belong to one
+   * @throws ConflictError if the request could not be updated
+   */
+  public async execute(
+    input: ReconcileDepositInput,
+    correlationId: string = ''
+  ): Promise<DepositAddress | null> {
+    try {
+      const amount = normalizeAmount(input.amount);
+      if (compareAmounts(amount, '0') <= 0) {
+        return null;
+      }
+
+      for (let attempt = 0; attempt < MAX_UPDATE_ATTEMPTS; attempt++) {
+        const current = await this.depositAddressRepository.findCurrentByAddress(input.chain, input.address);
+
+        if (!isNotNull(current) || current.token !== input.token.toUpperCase()) {
+          return null;
+        }
+
+        // Confirmation events may be delivered more than once; a retried report re-sends what is still queued
+        if (current.hasTransfer(input.txHash)) {
+          return await this.sendPendingNotifications(current, correlationId);
+        }
+
+        const updated = current.recordPayment(input.txHash, amount);
+        if (!(await this.depositAddressRepository.update(updated, current))) {
+          continue;
+        }
+
+        logInfo('Deposit reconciled', {
+          depositAddressId: updated.id,
+          chain: updated.chain,
+          txHash: input.txHash,
+          amount,
+          receivedAmount: updated.receivedAmount,
+          status: updated.status,
+          correlationId,
+        });
+
+        return await this.sendPendingNotifications(updated, correlationId);
+      }
+
+      throw new ConflictError('Deposit address changed while reconciling, try again', {
+        chain: input.chain,
+        address: input.address,
+        txHash: input.txHash,
+      });
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (
+        error instanceof ValidationError ||
+        error instanceof ConflictError ||
+        error instanceof ServiceError ||
+        error instanceof ExternalServiceError
+      ) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to reconcile deposit', {
+        chain: input.chain,
+        address: input.address,
+        txHash: input.txHash,
+        operation: 'reconcileDeposit',
+        correlationId,
+      });
+    }
+  }
+
+  /**
+   * Sends the request's queued status_changed notifications, then clears them
+   *
+   * @throws ExternalServiceError if transaction-service does not accept one
+   */
+  private async sendPendingNotifications(
+    depositAddress: DepositAddress,
+    correlationId: string
+  ): Promise<DepositAddress> {
+    if (depositAddress.pendingNotifications.length === 0) {
+      return depositAddress;
+    }
+
+    for (const data of depositAddress.pendingNotifications) {
+      await this.transactionServiceClient.sendWebhookEvent(
+        WebhookEventType.DEPOSIT_ADDRESS_STATUS_CHANGED,
+        depositAddress.userId,
+        data,
+        correlationId
+      );
+    }
+
+    // If the request changed meanwhile its queue is kept and sent again; merchants dedupe on txHash
+    const cleared = depositAddress.clearPendingNotifications();
+    return (await this.depositAddressRepository.update(cleared, depositAddress)) ? cleared : depositAddress;
+  }
+}
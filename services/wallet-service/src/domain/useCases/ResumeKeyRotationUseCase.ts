@@ -0,0 +1,88 @@
+/**
+ * Resume Key Rotation Use Case
+ *
+ * Puts a FAILED key rotation run back to RUNNING (e.g. once the missing
+ * master key version is configured). The run keeps its cursor, so wallets
+ * already migrated are not processed again.
+ *
+ * @module wallet-service/domain/useCases
+ */
+
+import { IKeyRotationRunRepository } from '../repositories/IKeyRotationRunRepository';
+import { KeyRotationRun, KeyRotationStatus } from '../entities/KeyRotationRun';
+import {
+  NotFoundError,
+  ConflictError,
+  ServiceError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { logInfo } from '@shield/shared/types';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Resume Key Rotation Use Case
+ */
+export class ResumeKeyRotationUseCase {
+  constructor(private readonly keyRotationRunRepository: IKeyRotationRunRepository) {}
+
+  /**
+   * Executes the resume key rotation use case
+   *
+   * @throws NotFoundError if the run doesn't exist
+   * @throws ConflictError if the run did not fail or another run is in progress
+   */
+  public async execute(keyRotationId: string, correlationId: string = ''): Promise<KeyRotationRun> {
+    try {
+      const run = await this.keyRotationRunRepository.findById(keyRotationId);
+      if (!isNotNull(run)) {
+        throw new NotFoundError('Key rotation', keyRotationId);
+      }
+
+      if (run.status !== KeyRotationStatus.FAILED) {
+        throw new ConflictError('Only failed key rotations can be resumed', {
+          keyRotationId,
+          status: run.status,
+        });
+      }
+
+      const running = await this.keyRotationRunRepository.findByStatus(KeyRotationStatus.RUNNING);
+      if (running.length > 0) {
+        throw new ConflictError('A key rotation is already running', {
+          keyRotationId: running[0].id,
+        });
+      }
+
+      const resumed = run.resume();
+      if (!(await this.keyRotationRunRepository.update(resumed, run))) {
+        throw new ConflictError('Key rotation was changed concurrently, please retry', {
+          keyRotationId,
+        });
+      }
+
+      logInfo('Key rotation resumed', {
+        keyRotationId,
+        migratedWallets: resumed.migratedWallets,
+        totalWallets: resumed.totalWallets,
+        correlationId,
+      });
+
+      return resumed;
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (
+        error instanceof NotFoundError ||
+        error instanceof ConflictError ||
+        error instanceof ServiceError
+      ) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to resume key rotation', {
+        keyRotationId,
+        operation: 'resumeKeyRotation',
+        correlationId,
+      });
+    }
+  }
+}
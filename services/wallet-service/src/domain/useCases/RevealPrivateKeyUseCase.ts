@@ -1,8 +1,10 @@
 /**
  * Reveal Private Key Use Case
  * 
- * Decrypts and returns the private key of a system-generated wallet
- * Requires password verification and wallet ownership
+ * Decrypts and returns the private key of a system-generated or key-imported wallet
+ * Requires wallet ownership, and the password for password-protected keys
+ * Envelope-encrypted keys are decrypted through the key provider
+ * HD wallets have no stored key: the seed's mnemonic is decrypted and the key re-derived
  * 
  * SECURITY: This is a highly sensitive operation - use with extreme caution
  * 
@@ -10,6 +12,8 @@
  */
 
 import { IWalletRepository } from '../repositories/IWalletRepository';
+import { IHdSeedRepository } from '../repositories/IHdSeedRepository';
+import { IKeyProvider } from '../services/IKeyProvider';
 import {
   ValidationError,
   NotFoundError,
@@ -17,7 +21,9 @@ import {
   handleUnknownError,
 } from '@shield/shared/errors';
 import { logInfo, logError } from '@shield/shared/types';
-import { decryptPrivateKey, wipeFromMemory } from '../../utils/cryptoUtils';
+import { isNotNull } from '@shield/shared/utils/guards';
+import { decryptPrivateKey, decryptWithEnvelope, wipeFromMemory } from '../../utils/cryptoUtils';
+import { deriveHdWallet } from '../../utils/walletGenerator';
 
 /**
  * Input for revealing private key
@@ -25,7 +31,7 @@ import { decryptPrivateKey, wipeFromMemory } from '../../utils/cryptoUtils';
 export interface RevealPrivateKeyInput {
   walletId: string;
   userId: string;
-  password: string; // User's password used for encryption
+  password?: string; // User's password (required for password-protected keys and HD seeds)
 }
 
 /**
@@ -42,7 +48,11 @@ export interface RevealPrivateKeyResult {
  * Use case for revealing an encrypted private key
  */
 export class RevealPrivateKeyUseCase {
-  constructor(private walletRepository: IWalletRepository) {}
+  constructor(
+    private walletRepository: IWalletRepository,
+    private hdSeedRepository: IHdSeedRepository,
+    private keyProvider: IKeyProvider
+  ) {}
 
   /**
    * Executes the private key revelation use case
@@ -56,16 +66,16 @@ export class RevealPrivateKeyUseCase {
    */
   async execute(input: RevealPrivateKeyInput): Promise<RevealPrivateKeyResult> {
     let decryptedKey: string | null = null;
+    let mnemonic: string | null = null;
 
     try {
       const { walletId, userId, password } = input;
 
       // Validate input
-      if (!walletId || !userId || !password) {
+      if (!walletId || !userId) {
         throw new ValidationError('Missing required fields', {
           hasWalletId: !!walletId,
           hasUserId: !!userId,
-          hasPassword: !!password,
         });
       }
 
@@ -101,10 +111,10 @@ export class RevealPrivateKeyUseCase {
         );
       }
 
-      // Step 3: Verify wallet was created by system (has encrypted private key)
-      if (!wallet.createdBySystem) {
+      // Step 3: Verify the private key is stored (generated or key-imported wallet)
+      if (!wallet.hasStoredPrivateKey()) {
         throw new ValidationError(
-          'This wallet was imported by you, not created by our system. Private key is not stored.',
+          'This wallet was imported as a watch-only address. Private key is not stored.',
           {
             walletId,
             createdBySystem: wallet.createdBySystem,
@@ -112,34 +122,121 @@ export class RevealPrivateKeyUseCase {
         );
       }
 
-      if (
-        !wallet.privateKeyEncrypted ||
-        !wallet.encryptionIv ||
-        !wallet.encryptionSalt
+      if (isNotNull(wallet.hdSeedId) && isNotNull(wallet.derivationIndex)) {
+        // Step 4: Re-derive the key from the HD seed
+        const seed = await this.hdSeedRepository.findById(wallet.hdSeedId);
+
+        if (!seed) {
+          throw new ValidationError('HD seed of this wallet is missing', {
+            walletId,
+            hdSeedId: wallet.hdSeedId,
+          });
+        }
+
+        if (!password) {
+          throw new ValidationError('Password is required to decrypt the recovery phrase', {
+            walletId,
+          });
+        }
+
+        logInfo('Deriving private key from HD seed', {
+          walletId,
+          userId,
+          derivationIndex: wallet.derivationIndex,
+        });
+
+        mnemonic =
+          isNotNull(seed.encryptedDataKey) && isNotNull(seed.keyVersion)
+            ? await decryptWithEnvelope(
+                {
+                  encryptedData: seed.mnemonicEncrypted,
+                  iv: seed.encryptionIv,
+                  salt: seed.encryptionSalt,
+                  encryptedDataKey: seed.encryptedDataKey,
+                  keyVersion: seed.keyVersion,
+                },
+                this.keyProvider,
+                password
+              )
+            : await decryptPrivateKey(
+                seed.mnemonicEncrypted,
+                seed.encryptionIv,
+                seed.encryptionSalt,
+                password
+              );
+
+        const derived = await deriveHdWallet(mnemonic, wallet.chain, wallet.derivationIndex);
+
+        // Guard against a seed/index mismatch ever handing out the wrong key
+        if (derived.address !== wallet.address) {
+          throw new ValidationError('Derived key does not match the wallet address', {
+            walletId,
+            derivationIndex: wallet.derivationIndex,
+          });
+        }
+
+        decryptedKey = derived.privateKey;
+      } else if (
+        wallet.privateKeyEncrypted &&
+        wallet.encryptionIv &&
+        wallet.encryptedDataKey &&
+        isNotNull(wallet.keyVersion)
       ) {
-        throw new ValidationError(
-          'Private key data is missing or corrupted',
+        // Step 4: Unwrap the data key and decrypt the private key
+        logInfo('Decrypting envelope-encrypted private key', {
+          walletId,
+          userId,
+          keyProvider: this.keyProvider.name,
+          keyVersion: wallet.keyVersion,
+        });
+
+        decryptedKey = await decryptWithEnvelope(
           {
-            walletId,
-            hasEncryptedKey: !!wallet.privateKeyEncrypted,
-            hasIv: !!wallet.encryptionIv,
-            hasSalt: !!wallet.encryptionSalt,
-          }
+            encryptedData: wallet.privateKeyEncrypted,
+            iv: wallet.encryptionIv,
+            salt: wallet.encryptionSalt,
+            encryptedDataKey: wallet.encryptedDataKey,
+            keyVersion: wallet.keyVersion,
+          },
+          this.keyProvider,
+          password
         );
-      }
+      } else {
+        if (
+          !wallet.privateKeyEncrypted ||
+          !wallet.encryptionIv ||
+          !wallet.encryptionSalt
+        ) {
+          throw new ValidationError(
+            'Private key data is missing or corrupted',
+            {
+              walletId,
+              hasEncryptedKey: !!wallet.privateKeyEncrypted,
+              hasIv: !!wallet.encryptionIv,
+              hasSalt: !!wallet.encryptionSalt,
+            }
+          );
+        }
 
-      // Step 4: Decrypt the private key
-      logInfo('Decrypting private key', {
-        walletId,
-        userId,
-      });
+        if (!password) {
+          throw new ValidationError('Password is required to decrypt the private key', {
+            walletId,
+          });
+        }
 
-      decryptedKey = await decryptPrivateKey(
-        wallet.privateKeyEncrypted,
-        wallet.encryptionIv,
-        wallet.encryptionSalt,
-        password
-      );
+        // Step 4: Decrypt the private key
+        logInfo('Decrypting private key', {
+          walletId,
+          userId,
+        });
+
+        decryptedKey = await decryptPrivateKey(
+          wallet.privateKeyEncrypted,
+          wallet.encryptionIv,
+          wallet.encryptionSalt,
+          password
+        );
+      }
 
       logInfo('Private key revealed successfully', {
         walletId,
@@ -174,6 +271,12 @@ export class RevealPrivateKeyUseCase {
         operation: 'revealPrivateKey',
       });
     } finally {
+      // CRITICAL SECURITY: Wipe the mnemonic right away, it is never returned
+      if (mnemonic) {
+        wipeFromMemory(mnemonic);
+        mnemonic = null;
+      }
+
       // CRITICAL SECURITY: Clear decrypted key from memory after a short delay
       // This gives the caller time to use it, then wipes it
       if (decryptedKey) {
@@ -0,0 +1,266 @@
+/**
+ * Rotate Wallet Encryption Use Case
+ *
+ * Re-encrypts a system-generated wallet's private key when the user changes
+ * the password protecting it: the key is decrypted with the current password
+ * and encrypted again with a fresh data key under the current master key
+ * version, with the new password as second factor. Password-only keys from
+ * before envelope encryption are upgraded on the way.
+ *
+ * HD wallets have no key of their own: their seed's mnemonic is re-encrypted
+ * the same way, so the new password covers every wallet derived from it.
+ *
+ * The new encryption is only stored if the wallet's key (or seed) was not
+ * changed in the meantime, so the old password never stops working half-way.
+ *
+ * @module wallet-service/domain/useCases
+ */
+
+import { IWalletRepository } from '../repositories/IWalletRepository';
+import { IHdSeedRepository } from '../repositories/IHdSeedRepository';
+import { IKeyProvider } from '../services/IKeyProvider';
+import { Wallet } from '../entities/Wallet';
+import {
+  ValidationError,
+  NotFoundError,
+  ConflictError,
+  ServiceError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { logInfo } from '@shield/shared/types';
+import { isNotNull } from '@shield/shared/utils/guards';
+import {
+  decryptPrivateKey,
+  decryptWithEnvelope,
+  encryptWithEnvelope,
+  wipeFromMemory,
+} from '../../utils/cryptoUtils';
+
+/**
+ * Input for wallet encryption rotation
+ */
+export interface RotateWalletEncryptionInput {
+  walletId: string;
+  userId: string;
+  currentPassword?: string; // Required if the key is password-protected (always for HD wallets)
+  newPassword: string;
+}
+
+/**
+ * Rotate Wallet Encryption Use Case
+ */
+export class RotateWalletEncryptionUseCase {
+  constructor(
+    private readonly walletRepository: IWalletRepository,
+    private readonly hdSeedRepository: IHdSeedRepository,
+    private readonly keyProvider: IKeyProvider
+  ) {}
+
+  /**
+   * Executes the rotate wallet encryption use case
+   *
+   * @returns The wallet with its new encryption (HD wallets are returned unchanged)
+   *
+   * @throws NotFoundError if the wallet doesn't exist or isn't owned by the user
+   * @throws ValidationError if the wallet has no stored key or the current password is wrong
+   * @throws ConflictError if the key or seed was re-encrypted concurrently
+   */
+  public async execute(
+    input: RotateWalletEncryptionInput,
+    correlationId: string = ''
+  ): Promise<Wallet> {
+    let privateKey: string | null = null;
+
+    try {
+      const { walletId, userId, currentPassword, newPassword } = input;
+
+      const wallet = await this.walletRepository.findByIdAndUserId(walletId, userId);
+      if (!isNotNull(wallet)) {
+        throw new NotFoundError('Wallet', walletId, { userId });
+      }
+
+      if (currentPassword === newPassword) {
+        throw new ValidationError('New password must differ from the current password', {
+          walletId,
+        });
+      }
+
+      if (wallet.isHdWallet()) {
+        await this.rotateSeedEncryption(wallet, currentPassword, newPassword, correlationId);
+        return wallet;
+      }
+
+      if (
+        !isNotNull(wallet.privateKeyEncrypted) ||
+        !isNotNull(wallet.encryptionIv)
+      ) {
+        throw new ValidationError('This wallet has no stored private key to re-encrypt', {
+          walletId,
+          createdBySystem: wallet.createdBySystem,
+        });
+      }
+
+      if (wallet.requiresPassword() && !currentPassword) {
+        throw new ValidationError('Current password is required to re-encrypt this private key', {
+          walletId,
+        });
+      }
+
+      // Step 1: Decrypt with the current password (envelope or password-only)
+      if (isNotNull(wallet.encryptedDataKey) && isNotNull(wallet.keyVersion)) {
+        privateKey = await decryptWithEnvelope(
+          {
+            encryptedData: wallet.privateKeyEncrypted,
+            iv: wallet.encryptionIv,
+            salt: wallet.encryptionSalt,
+            encryptedDataKey: wallet.encryptedDataKey,
+            keyVersion: wallet.keyVersion,
+          },
+          this.keyProvider,
+          currentPassword
+        );
+      } else {
+        privateKey = await decryptPrivateKey(
+          wallet.privateKeyEncrypted,
+          wallet.encryptionIv,
+          wallet.encryptionSalt ?? '',
+          currentPassword ?? ''
+        );
+      }
+
+      // Step 2: Encrypt again with a fresh data key and the new password
+      const encryptionResult = await encryptWithEnvelope(privateKey, this.keyProvider, newPassword);
+      const rotated = wallet.withEncryption({
+        privateKeyEncrypted: encryptionResult.encryptedData,
+        encryptionIv: encryptionResult.iv,
+        encryptionSalt: encryptionResult.salt,
+        encryptedDataKey: encryptionResult.encryptedDataKey,
+        keyVersion: encryptionResult.keyVersion,
+      });
+
+      // Step 3: Swap atomically (fails if the key changed since it was read)
+      if (!(await this.walletRepository.updateEncryption(rotated, wallet))) {
+        throw new ConflictError('Wallet encryption was changed concurrently, please retry', {
+          walletId,
+        });
+      }
+
+      logInfo('Wallet encryption rotated', {
+        walletId,
+        userId,
+        fromKeyVersion: wallet.keyVersion,
+        toKeyVersion: rotated.keyVersion,
+        correlationId,
+      });
+
+      return rotated;
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (
+        error instanceof ValidationError ||
+        error instanceof NotFoundError ||
+        error instanceof ConflictError ||
+        error instanceof ServiceError
+      ) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to rotate wallet encryption', {
+        walletId: input.walletId,
+        userId: input.userId,
+        operation: 'rotateWalletEncryption',
+        correlationId,
+      });
+    } finally {
+      // CRITICAL SECURITY: Wipe private key from memory
+      if (privateKey) {
+        wipeFromMemory(privateKey);
+        privateKey = null;
+      }
+    }
+  }
+
+  /**
+   * Re-encrypts the mnemonic of an HD wallet's seed with the new password
+   */
+  private async rotateSeedEncryption(
+    wallet: Wallet,
+    currentPassword: string | undefined,
+    newPassword: string,
+    correlationId: string
+  ): Promise<void> {
+    let mnemonic: string | null = null;
+
+    try {
+      const seed = await this.hdSeedRepository.findById(wallet.hdSeedId as string);
+      if (!isNotNull(seed)) {
+        throw new ValidationError('HD seed of this wallet is missing', {
+          walletId: wallet.id,
+          hdSeedId: wallet.hdSeedId,
+        });
+      }
+
+      if (!currentPassword) {
+        throw new ValidationError('Current password is required to re-encrypt the recovery phrase', {
+          walletId: wallet.id,
+        });
+      }
+
+      // Step 1: Decrypt the mnemonic with the current password (envelope or password-only)
+      if (isNotNull(seed.encryptedDataKey) && isNotNull(seed.keyVersion)) {
+        mnemonic = await decryptWithEnvelope(
+          {
+            encryptedData: seed.mnemonicEncrypted,
+            iv: seed.encryptionIv,
+            salt: seed.encryptionSalt,
+            encryptedDataKey: seed.encryptedDataKey,
+            keyVersion: seed.keyVersion,
+          },
+          this.keyProvider,
+          currentPassword
+        );
+      } else {
+        mnemonic = await decryptPrivateKey(
+          seed.mnemonicEncrypted,
+          seed.encryptionIv,
+          seed.encryptionSalt,
+          currentPassword
+        );
+      }
+
+      // Step 2: Encrypt again with a fresh data key and the new password
+      const encryptionResult = await encryptWithEnvelope(mnemonic, this.keyProvider, newPassword);
+      const rotated = seed.withEncryption({
+        mnemonicEncrypted: encryptionResult.encryptedData,
+        encryptionIv: encryptionResult.iv,
+        encryptionSalt: encryptionResult.salt as string,
+        encryptedDataKey: encryptionResult.encryptedDataKey,
+        keyVersion: encryptionResult.keyVersion,
+      });
+
+      // Step 3: Swap atomically (fails if the seed changed since it was read)
+      if (!(await this.hdSeedRepository.updateEncryption(rotated, seed))) {
+        throw new ConflictError('HD seed encryption was changed concurrently, please retry', {
+          walletId: wallet.id,
+          hdSeedId: seed.id,
+        });
+      }
+
+      logInfo('HD seed encryption rotated', {
+        walletId: wallet.id,
+        userId: wallet.userId,
+        hdSeedId: seed.id,
+        fromKeyVersion: seed.keyVersion,
+        toKeyVersion: rotated.keyVersion,
+        correlationId,
+      });
+    } finally {
+      // CRITICAL SECURITY: Wipe mnemonic from memory
+      if (mnemonic) {
+        wipeFromMemory(mnemonic);
+        mnemonic = null;
+      }
+    }
+  }
+}
@@ -0,0 +1,117 @@
+/**
+ * Start Key Rotation Use Case
+ *
+ * Starts migrating every wallet and HD seed data key wrapped with one master
+ * key version to another. Only the run is created here; KeyRotationJob
+ * re-wraps the data keys batch by batch. One run at a time, so two runs
+ * never compete for the same wallets.
+ *
+ * @module wallet-service/domain/useCases
+ */
+
+import { IKeyRotationRunRepository } from '../repositories/IKeyRotationRunRepository';
+import { IWalletRepository } from '../repositories/IWalletRepository';
+import { IHdSeedRepository } from '../repositories/IHdSeedRepository';
+import { IKeyProvider } from '../services/IKeyProvider';
+import { KeyRotationRun, KeyRotationStatus } from '../entities/KeyRotationRun';
+import {
+  ValidationError,
+  ConflictError,
+  ServiceError,
+  handleUnknownError,
+} from '@shield/shared/errors';
+import { logInfo } from '@shield/shared/types';
+
+/**
+ * Input for starting a key rotation
+ */
+export interface StartKeyRotationInput {
+  fromVersion: number;
+  toVersion: number;
+  requestedBy?: string;
+}
+
+/**
+ * Start Key Rotation Use Case
+ */
+export class StartKeyRotationUseCase {
+  constructor(
+    private readonly keyRotationRunRepository: IKeyRotationRunRepository,
+    private readonly walletRepository: IWalletRepository,
+    private readonly hdSeedRepository: IHdSeedRepository,
+    private readonly keyProvider: IKeyProvider
+  ) {}
+
+  /**
+   * Executes the start key rotation use case
+   *
+   * @throws ValidationError if the versions are equal or not available to the key provider
+   * @throws ConflictError if another run is in progress
+   */
+  public async execute(
+    input: StartKeyRotationInput,
+    correlationId: string = ''
+  ): Promise<KeyRotationRun> {
+    try {
+      const { fromVersion, toVersion, requestedBy } = input;
+
+      if (fromVersion === toVersion) {
+        throw new ValidationError('Source and target key versions must differ', {
+          fromVersion,
+          toVersion,
+        });
+      }
+
+      for (const keyVersion of [fromVersion, toVersion]) {
+        if (!(await this.keyProvider.hasKeyVersion(keyVersion))) {
+          throw new ValidationError('Master key version is not available to the key provider', {
+            keyVersion,
+            keyProvider: this.keyProvider.name,
+          });
+        }
+      }
+
+      const running = await this.keyRotationRunRepository.findByStatus(KeyRotationStatus.RUNNING);
+      if (running.length > 0) {
+        throw new ConflictError('A key rotation is already running', {
+          keyRotationId: running[0].id,
+        });
+      }
+
+      const totalWallets = await this.walletRepository.countByKeyVersion(fromVersion);
+      const totalHdSeeds = await this.hdSeedRepository.countByKeyVersion(fromVersion);
+      const run = await this.keyRotationRunRepository.save(
+        KeyRotationRun.create({ fromVersion, toVersion, totalWallets, totalHdSeeds, requestedBy })
+      );
+
+      logInfo('Key rotation started', {
+        keyRotationId: run.id,
+        fromVersion,
+        toVersion,
+        totalWallets,
+        totalHdSeeds,
+        requestedBy,
+        correlationId,
+      });
+
+      return run;
+    } catch (error: unknown) {
+      // Re-throw known errors
+      if (
+        error instanceof ValidationError ||
+        error instanceof ConflictError ||
+        error instanceof ServiceError
+      ) {
+        throw error;
+      }
+
+      // Wrap unknown errors
+      throw handleUnknownError(error, 'Failed to start key rotation', {
+        fromVersion: input.fromVersion,
+        toVersion: input.toVersion,
+        operation: 'startKeyRotation',
+        correlationId,
+      });
+    }
+  }
+}
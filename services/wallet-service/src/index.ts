@@ -3,7 +3,7 @@
  * 
  * Handles wallet management for Shield platform:
  * - Create, read, update, delete wallet addresses
- * - Support for Polygon and Tron networks
+ * - Support for EVM networks (Polygon, Ethereum, Arbitrum, Base, BSC) and Tron
  * - Wallet filtering and statistics
  * 
  * @module wallet-service
@@ -67,11 +67,14 @@ app.get('/', (req, res) => {
       apiDocs: '/v1/api-docs',
       createWallet: 'POST /v1/wallets',
       generateWallet: 'POST /v1/wallets/generate',
+      importPrivateKey: 'POST /v1/wallets/import-key',
       listWallets: 'GET /v1/wallets',
       getWallet: 'GET /v1/wallets/:id',
       updateWallet: 'PUT /v1/wallets/:id',
       deleteWallet: 'DELETE /v1/wallets/:id',
       revealPrivateKey: 'POST /v1/wallets/:id/reveal-key',
+      rotateEncryption: 'POST /v1/wallets/:id/rotate-encryption',
+      activeAddresses: 'GET /v1/wallets/internal/addresses (internal)',
     },
   });
 });
@@ -98,6 +101,8 @@ app.use('/v1/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec, {
   try {
     // Dynamic import ensures env vars are loaded before route modules
     const { default: walletRoutes } = await import('./routes.js');
+    const { DependencyContainer } = await import('./infrastructure/dependencyInjection.js');
+    const { depositAddressExpiryJob, keyRotationJob } = DependencyContainer.getInstance();
     
     // Mount v1 wallet routes with mandatory authentication layer
     // API versioning allows easy migration to v2 by changing prefix
@@ -140,22 +145,47 @@ app.use('/v1/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec, {
         console.log('📋 Available Endpoints (v1):');
         console.log(`   POST   /v1/wallets         - Create new wallet`);
         console.log(`   POST   /v1/wallets/generate - Generate new wallet`);
+        console.log(`   POST   /v1/wallets/import-key - Import private key or keystore`);
         console.log(`   GET    /v1/wallets         - Get all wallets`);
         console.log(`   GET    /v1/wallets/:id     - Get specific wallet`);
         console.log(`   PUT    /v1/wallets/:id     - Update wallet`);
         console.log(`   DELETE /v1/wallets/:id     - Delete wallet`);
         console.log(`   POST   /v1/wallets/:id/reveal-key - Reveal private key`);
+        console.log(`   POST   /v1/wallets/:id/rotate-encryption - Change private key password`);
+        console.log(`   POST   /v1/wallets/hd-seed  - Create HD seed`);
+        console.log(`   POST   /v1/wallets/hd-seed/derive - Derive next HD address`);
+        console.log(`   POST   /v1/wallets/deposit-addresses - Create deposit address`);
+        console.log(`   GET    /v1/wallets/deposit-addresses - List deposit addresses`);
+        console.log(`   GET    /v1/wallets/deposit-addresses/:id - Get deposit address`);
+        console.log(`   GET    /v1/wallets/internal/addresses - Active addresses (internal)`);
+        console.log(`   POST   /v1/wallets/internal/deposits - Reconcile deposit (internal)`);
+        console.log(`   POST   /v1/wallets/internal/key-rotations - Start master key rotation (internal)`);
+        console.log(`   GET    /v1/wallets/internal/key-rotations - List key rotations (internal)`);
+        console.log(`   GET    /v1/wallets/internal/key-rotations/:id - Key rotation progress (internal)`);
+        console.log(`   POST   /v1/wallets/internal/key-rotations/:id/resume - Resume key rotation (internal)`);
         console.log('');
 
         logInfo('Wallet service started successfully', {
           port: PORT,
           environment: envConfig.environment,
         });
+
+        // Expire unpaid deposit addresses in the background
+        if (process.env.DEPOSIT_ADDRESS_EXPIRY_ENABLED !== 'false') {
+          depositAddressExpiryJob.start();
+        }
+
+        // Migrate wallets of running master key rotations in the background
+        if (process.env.KEY_ROTATION_ENABLED !== 'false') {
+          keyRotationJob.start();
+        }
       });
 
       // Graceful shutdown handlers
       process.on('SIGINT', () => {
         console.log('\n🚦 Shutting down Wallet Service gracefully...');
+        depositAddressExpiryJob.stop();
+        keyRotationJob.stop();
         server.close(() => {
           console.log('✅ Wallet Service shut down successfully.');
           process.exit(0);
@@ -164,6 +194,8 @@ app.use('/v1/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec, {
 
       process.on('SIGTERM', () => {
         console.log('\n🚦 Shutting down Wallet Service gracefully...');
+        depositAddressExpiryJob.stop();
+        keyRotationJob.stop();
         server.close(() => {
           console.log('✅ Wallet Service shut down successfully.');
           process.exit(0);
@@ -7,12 +7,23 @@
  */
 
 import { DatabaseConnection } from '@shield/shared/database/DatabaseConnection';
+import { ConfigurationError } from '@shield/shared/errors';
 
 // Domain repositories (interfaces)
 import { IWalletRepository } from '../domain/repositories/IWalletRepository';
+import { IHdSeedRepository } from '../domain/repositories/IHdSeedRepository';
+import { IDepositAddressRepository } from '../domain/repositories/IDepositAddressRepository';
+import { IKeyRotationRunRepository } from '../domain/repositories/IKeyRotationRunRepository';
+import { ITransactionServiceClient } from '../domain/services/ITransactionServiceClient';
+import { IKeyProvider } from '../domain/services/IKeyProvider';
 
 // Data layer implementations
 import { WalletRepository } from '../data/repositories/WalletRepository';
+import { HdSeedRepository } from '../data/repositories/HdSeedRepository';
+import { DepositAddressRepository } from '../data/repositories/DepositAddressRepository';
+import { KeyRotationRunRepository } from '../data/repositories/KeyRotationRunRepository';
+import { TransactionServiceClient } from '../data/clients/TransactionServiceClient';
+import { LocalKeyProvider } from '../data/services/LocalKeyProvider';
 
 // Domain use cases
 import { CreateWalletUseCase } from '../domain/useCases/CreateWalletUseCase';
@@ -22,9 +33,30 @@ import { UpdateWalletUseCase } from '../domain/useCases/UpdateWalletUseCase';
 import { DeleteWalletUseCase } from '../domain/useCases/DeleteWalletUseCase';
 import { GenerateWalletUseCase } from '../domain/useCases/GenerateWalletUseCase';
 import { RevealPrivateKeyUseCase } from '../domain/useCases/RevealPrivateKeyUseCase';
+import { ImportPrivateKeyUseCase } from '../domain/useCases/ImportPrivateKeyUseCase';
+import { GetActiveAddressesUseCase } from '../domain/useCases/GetActiveAddressesUseCase';
+import { CreateHdSeedUseCase } from '../domain/useCases/CreateHdSeedUseCase';
+import { DeriveHdWalletUseCase } from '../domain/useCases/DeriveHdWalletUseCase';
+import { CreateDepositAddressUseCase } from '../domain/useCases/CreateDepositAddressUseCase';
+import { GetDepositAddressesUseCase } from '../domain/useCases/GetDepositAddressesUseCase';
+import { GetDepositAddressByIdUseCase } from '../domain/useCases/GetDepositAddressByIdUseCase';
+import { ReconcileDepositUseCase } from '../domain/useCases/ReconcileDepositUseCase';
+import { ExpireDepositAddressesUseCase } from '../domain/useCases/ExpireDepositAddressesUseCase';
+import { RotateWalletEncryptionUseCase } from '../domain/useCases/RotateWalletEncryptionUseCase';
+import { StartKeyRotationUseCase } from '../domain/useCases/StartKeyRotationUseCase';
+import { GetKeyRotationsUseCase } from '../domain/useCases/GetKeyRotationsUseCase';
+import { GetKeyRotationByIdUseCase } from '../domain/useCases/GetKeyRotationByIdUseCase';
+import { ResumeKeyRotationUseCase } from '../domain/useCases/ResumeKeyRotationUseCase';
+import { ProcessKeyRotationsUseCase } from '../domain/useCases/ProcessKeyRotationsUseCase';
+
+// Background jobs
+import { DepositAddressExpiryJob } from './jobs/DepositAddressExpiryJob';
+import { KeyRotationJob } from './jobs/KeyRotationJob';
 
 // Presentation layer
 import { WalletController } from '../presentation/controllers/WalletController';
+import { DepositAddressController } from '../presentation/controllers/DepositAddressController';
+import { KeyRotationController } from '../presentation/controllers/KeyRotationController';
 
 /**
  * Dependency Injection Container
@@ -34,6 +66,15 @@ export class DependencyContainer {
 
   // Repositories
   public readonly walletRepository: IWalletRepository;
+  public readonly hdSeedRepository: IHdSeedRepository;
+  public readonly depositAddressRepository: IDepositAddressRepository;
+  public readonly keyRotationRunRepository: IKeyRotationRunRepository;
+
+  // External service clients
+  public readonly transactionServiceClient: ITransactionServiceClient;
+
+  // Key management (envelope encryption of private keys)
+  public readonly keyProvider: IKeyProvider;
 
   // Use Cases
   public readonly createWalletUseCase: CreateWalletUseCase;
@@ -43,9 +84,30 @@ export class DependencyContainer {
   public readonly deleteWalletUseCase: DeleteWalletUseCase;
   public readonly generateWalletUseCase: GenerateWalletUseCase;
   public readonly revealPrivateKeyUseCase: RevealPrivateKeyUseCase;
+  public readonly importPrivateKeyUseCase: ImportPrivateKeyUseCase;
+  public readonly getActiveAddressesUseCase: GetActiveAddressesUseCase;
+  public readonly createHdSeedUseCase: CreateHdSeedUseCase;
+  public readonly deriveHdWalletUseCase: DeriveHdWalletUseCase;
+  public readonly createDepositAddressUseCase: CreateDepositAddressUseCase;
+  public readonly getDepositAddressesUseCase: GetDepositAddressesUseCase;
+  public readonly getDepositAddressByIdUseCase: GetDepositAddressByIdUseCase;
+  public readonly reconcileDepositUseCase: ReconcileDepositUseCase;
+  public readonly expireDepositAddressesUseCase: ExpireDepositAddressesUseCase;
+  public readonly rotateWalletEncryptionUseCase: RotateWalletEncryptionUseCase;
+  public readonly startKeyRotationUseCase: StartKeyRotationUseCase;
+  public readonly getKeyRotationsUseCase: GetKeyRotationsUseCase;
+  public readonly getKeyRotationByIdUseCase: GetKeyRotationByIdUseCase;
+  public readonly resumeKeyRotationUseCase: ResumeKeyRotationUseCase;
+  public readonly processKeyRotationsUseCase: ProcessKeyRotationsUseCase;
+
+  // Background jobs
+  public readonly depositAddressExpiryJob: DepositAddressExpiryJob;
+  public readonly keyRotationJob: KeyRotationJob;
 
   // Controllers
   public readonly walletController: WalletController;
+  public readonly depositAddressController: DepositAddressController;
+  public readonly keyRotationController: KeyRotationController;
 
   private constructor() {
     // Initialize database connection
@@ -55,15 +117,90 @@ export class DependencyContainer {
 
     // Initialize repositories
     this.walletRepository = new WalletRepository();
+    this.hdSeedRepository = new HdSeedRepository();
+    this.depositAddressRepository = new DepositAddressRepository();
+    this.keyRotationRunRepository = new KeyRotationRunRepository();
+
+    // Initialize external service clients (webhook events)
+    this.transactionServiceClient = new TransactionServiceClient();
+
+    // Initialize key provider (KEY_PROVIDER, default: local)
+    this.keyProvider = DependencyContainer.createKeyProvider();
 
     // Initialize use cases
-    this.createWalletUseCase = new CreateWalletUseCase(this.walletRepository);
+    this.createWalletUseCase = new CreateWalletUseCase(
+      this.walletRepository,
+      this.transactionServiceClient
+    );
     this.getUserWalletsUseCase = new GetUserWalletsUseCase(this.walletRepository);
     this.getWalletByIdUseCase = new GetWalletByIdUseCase(this.walletRepository);
     this.updateWalletUseCase = new UpdateWalletUseCase(this.walletRepository);
     this.deleteWalletUseCase = new DeleteWalletUseCase(this.walletRepository);
-    this.generateWalletUseCase = new GenerateWalletUseCase(this.walletRepository);
-    this.revealPrivateKeyUseCase = new RevealPrivateKeyUseCase(this.walletRepository);
+    this.generateWalletUseCase = new GenerateWalletUseCase(
+      this.walletRepository,
+      this.transactionServiceClient,
+      this.keyProvider
+    );
+    this.revealPrivateKeyUseCase = new RevealPrivateKeyUseCase(
+      this.walletRepository,
+      this.hdSeedRepository,
+      this.keyProvider
+    );
+    this.importPrivateKeyUseCase = new ImportPrivateKeyUseCase(
+      this.walletRepository,
+      this.transactionServiceClient,
+      this.keyProvider
+    );
+    this.getActiveAddressesUseCase = new GetActiveAddressesUseCase(this.walletRepository);
+    this.createHdSeedUseCase = new CreateHdSeedUseCase(this.hdSeedRepository, this.keyProvider);
+    this.deriveHdWalletUseCase = new DeriveHdWalletUseCase(
+      this.walletRepository,
+      this.hdSeedRepository,
+      this.transactionServiceClient
+    );
+
+    // Initialize deposit addresses (payment requests)
+    this.createDepositAddressUseCase = new CreateDepositAddressUseCase(
+      this.depositAddressRepository,
+      this.walletRepository,
+      this.deriveHdWalletUseCase
+    );
+    this.getDepositAddressesUseCase = new GetDepositAddressesUseCase(this.depositAddressRepository);
+    this.getDepositAddressByIdUseCase = new GetDepositAddressByIdUseCase(this.depositAddressRepository);
+    this.reconcileDepositUseCase = new ReconcileDepositUseCase(
+      this.depositAddressRepository,
+      this.transactionServiceClient
+    );
+    this.expireDepositAddressesUseCase = new ExpireDepositAddressesUseCase(
+      this.depositAddressRepository,
+      this.transactionServiceClient
+    );
+
+    // Initialize key rotation (password changes and master key versions)
+    this.rotateWalletEncryptionUseCase = new RotateWalletEncryptionUseCase(
+      this.walletRepository,
+      this.hdSeedRepository,
+      this.keyProvider
+    );
+    this.startKeyRotationUseCase = new StartKeyRotationUseCase(
+      this.keyRotationRunRepository,
+      this.walletRepository,
+      this.hdSeedRepository,
+      this.keyProvider
+    );
+    this.getKeyRotationsUseCase = new GetKeyRotationsUseCase(this.keyRotationRunRepository);
+    this.getKeyRotationByIdUseCase = new GetKeyRotationByIdUseCase(this.keyRotationRunRepository);
+    this.resumeKeyRotationUseCase = new ResumeKeyRotationUseCase(this.keyRotationRunRepository);
+    this.processKeyRotationsUseCase = new ProcessKeyRotationsUseCase(
+      this.keyRotationRunRepository,
+      this.walletRepository,
+      this.hdSeedRepository,
+      this.keyProvider
+    );
+
+    // Initialize background jobs
+    this.depositAddressExpiryJob = new DepositAddressExpiryJob(this.expireDepositAddressesUseCase);
+    this.keyRotationJob = new KeyRotationJob(this.processKeyRotationsUseCase);
 
     // Initialize controllers
     this.walletController = new WalletController(
@@ -73,8 +210,40 @@ export class DependencyContainer {
       this.updateWalletUseCase,
       this.deleteWalletUseCase,
       this.generateWalletUseCase,
-      this.revealPrivateKeyUseCase
+      this.revealPrivateKeyUseCase,
+      this.getActiveAddressesUseCase,
+      this.createHdSeedUseCase,
+      this.deriveHdWalletUseCase,
+      this.rotateWalletEncryptionUseCase,
+      this.importPrivateKeyUseCase
+    );
+    this.depositAddressController = new DepositAddressController(
+      this.createDepositAddressUseCase,
+      this.getDepositAddressesUseCase,
+      this.getDepositAddressByIdUseCase,
+      this.reconcileDepositUseCase
     );
+    this.keyRotationController = new KeyRotationController(
+      this.startKeyRotationUseCase,
+      this.getKeyRotationsUseCase,
+      this.getKeyRotationByIdUseCase,
+      this.resumeKeyRotationUseCase
+    );
+  }
+
+  /**
+   * Creates the key provider selected by KEY_PROVIDER
+   * Only the local provider exists today; HSM/KMS adapters plug in here
+   */
+  private static createKeyProvider(): IKeyProvider {
+    const provider = process.env.KEY_PROVIDER || 'local';
+
+    switch (provider) {
+      case 'local':
+        return new LocalKeyProvider(process.env.WALLET_MASTER_KEY_FILE || null);
+      default:
+        throw new ConfigurationError('KEY_PROVIDER', `Unsupported key provider: ${provider}`);
+    }
   }
 
   /**
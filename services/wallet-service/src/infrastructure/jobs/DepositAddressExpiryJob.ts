@@ -0,0 +1,76 @@
+/**
+ * Deposit Address Expiry Job
+ *
+ * Periodically runs ExpireDepositAddressesUseCase, so unpaid payment requests
+ * expire and their addresses start their quarantine.
+ *
+ * Configuration:
+ * - DEPOSIT_ADDRESS_EXPIRY_INTERVAL_MS - Delay between runs (default: 60000)
+ *
+ * @module wallet-service/infrastructure/jobs
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ExpireDepositAddressesUseCase } from '../../domain/useCases/ExpireDepositAddressesUseCase';
+import { logError, logInfo } from '@shield/shared/types';
+import { ensureBaseError } from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Deposit Address Expiry Job
+ */
+export class DepositAddressExpiryJob {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  constructor(private readonly expireDepositAddressesUseCase: ExpireDepositAddressesUseCase) {}
+
+  /**
+   * Starts the periodic run (no-op if already started)
+   */
+  public start(): void {
+    if (isNotNull(this.timer)) {
+      return;
+    }
+
+    const intervalMs = parseInt(process.env.DEPOSIT_ADDRESS_EXPIRY_INTERVAL_MS || '60000', 10);
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, intervalMs);
+
+    logInfo('Deposit address expiry started', { intervalMs });
+  }
+
+  /**
+   * Stops the periodic run
+   */
+  public stop(): void {
+    if (isNotNull(this.timer)) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logInfo('Deposit address expiry stopped');
+    }
+  }
+
+  /**
+   * Expires the due requests once (overlapping runs are skipped)
+   */
+  public async runOnce(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    const correlationId = uuidv4();
+
+    try {
+      await this.expireDepositAddressesUseCase.execute(correlationId);
+    } catch (error: unknown) {
+      logError(ensureBaseError(error, { operation: 'depositAddressExpiryJob', correlationId }), {
+        context: 'Deposit address expiry run failed',
+      });
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
@@ -0,0 +1,78 @@
+/**
+ * Key Rotation Job
+ *
+ * Periodically runs ProcessKeyRotationsUseCase, so RUNNING master key
+ * rotations migrate one batch of wallets per run until they complete.
+ * Progress is stored per batch; after a restart the job picks the runs up
+ * again.
+ *
+ * Configuration:
+ * - KEY_ROTATION_INTERVAL_MS - Delay between runs (default: 5000)
+ *
+ * @module wallet-service/infrastructure/jobs
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ProcessKeyRotationsUseCase } from '../../domain/useCases/ProcessKeyRotationsUseCase';
+import { logError, logInfo } from '@shield/shared/types';
+import { ensureBaseError } from '@shield/shared/errors';
+import { isNotNull } from '@shield/shared/utils/guards';
+
+/**
+ * Key Rotation Job
+ */
+export class KeyRotationJob {
+  private timer: NodeJS.Timeout | null = null;
+  private isRunning = false;
+
+  constructor(private readonly processKeyRotationsUseCase: ProcessKeyRotationsUseCase) {}
+
+  /**
+   * Starts the periodic run (no-op if already started)
+   */
+  public start(): void {
+    if (isNotNull(this.timer)) {
+      return;
+    }
+
+    const intervalMs = parseInt(process.env.KEY_ROTATION_INTERVAL_MS || '5000', 10);
+    this.timer = setInterval(() => {
+      void this.runOnce();
+    }, intervalMs);
+
+    logInfo('Key rotation job started', { intervalMs });
+  }
+
+  /**
+   * Stops the periodic run
+   */
+  public stop(): void {
+    if (isNotNull(this.timer)) {
+      clearInterval(this.timer);
+      this.timer = null;
+      logInfo('Key rotation job stopped');
+    }
+  }
+
+  /**
+   * Processes one batch of each running rotation (overlapping runs are skipped)
+   */
+  public async runOnce(): Promise<void> {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    const correlationId = uuidv4();
+
+    try {
+      await this.processKeyRotationsUseCase.execute(correlationId);
+    } catch (error: unknown) {
+      logError(ensureBaseError(error, { operation: 'keyRotationJob', correlationId }), {
+        context: 'Key rotation run failed',
+      });
+    } finally {
+      this.isRunning = false;
+    }
+  }
+}
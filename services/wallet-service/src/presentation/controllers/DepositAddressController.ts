@@ -0,0 +1,248 @@
+/**
+ * Deposit Address Controller - Presentation Layer
+ *
+ * Thin HTTP handler for payment requests - only handles HTTP concerns, delegates to use cases
+ *
+ * @module wallet-service/presentation/controllers
+ */
+
+import { Response } from 'express';
+import { AuthenticatedRequest } from '@shield/shared/middleware';
+import { CreateDepositAddressUseCase } from '../../domain/useCases/CreateDepositAddressUseCase';
+import { GetDepositAddressesUseCase } from '../../domain/useCases/GetDepositAddressesUseCase';
+import { GetDepositAddressByIdUseCase } from '../../domain/useCases/GetDepositAddressByIdUseCase';
+import { ReconcileDepositUseCase } from '../../domain/useCases/ReconcileDepositUseCase';
+import { DepositAddressStatus } from '../../domain/entities/DepositAddress';
+import {
+  BaseError,
+  ensureBaseError,
+  shouldLogError,
+  AuthorizationError,
+} from '@shield/shared/errors';
+import { ChainType, logError, logInfo } from '@shield/shared/types';
+
+/**
+ * Deposit Address Controller
+ */
+export class DepositAddressController {
+  constructor(
+    private readonly createDepositAddressUseCase: CreateDepositAddressUseCase,
+    private readonly getDepositAddressesUseCase: GetDepositAddressesUseCase,
+    private readonly getDepositAddressByIdUseCase: GetDepositAddressByIdUseCase,
+    private readonly reconcileDepositUseCase: ReconcileDepositUseCase
+  ) {}
+
+  /**
+   * Creates a deposit address for a payment request
+   */
+  public async createDepositAddress(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Extract data from request (validation already done by Joi middleware)
+      const userId = this.getUserId(req);
+      const { chain, token, expectedAmount, expiresInMinutes, reference } = req.body;
+
+      // Call use case
+      const depositAddress = await this.createDepositAddressUseCase.execute(
+        {
+          userId,
+          chain,
+          token,
+          expectedAmount,
+          expiresInMinutes,
+          reference,
+        },
+        this.getCorrelationId(req)
+      );
+
+      // Log success
+      logInfo('Deposit address created successfully', {
+        path: req.path,
+        method: req.method,
+        depositAddressId: depositAddress.id,
+        chain: depositAddress.chain,
+        userId,
+      });
+
+      // Format HTTP response
+      res.status(201).json({
+        success: true,
+        data: depositAddress.toPlainObject(),
+        message: 'Deposit address created successfully',
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        action: 'createDepositAddress',
+        userId: req.user?.userId,
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Deposit address creation failed' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Lists the deposit addresses of the authenticated user
+   */
+  public async getDepositAddresses(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Extract data from request (validation already done by Joi middleware)
+      const userId = this.getUserId(req);
+      const filters = {
+        chain: req.query.chain as ChainType | undefined,
+        status: req.query.status as DepositAddressStatus | undefined,
+      };
+
+      // Call use case
+      const depositAddresses = await this.getDepositAddressesUseCase.execute(
+        userId,
+        filters,
+        this.getCorrelationId(req)
+      );
+
+      // Log success
+      logInfo('Deposit addresses retrieved successfully', {
+        path: req.path,
+        method: req.method,
+        count: depositAddresses.length,
+        userId,
+      });
+
+      // Format HTTP response
+      res.status(200).json({
+        success: true,
+        data: depositAddresses.map((depositAddress) => depositAddress.toPlainObject()),
+        message: 'Deposit addresses retrieved successfully',
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        action: 'getDepositAddresses',
+        userId: req.user?.userId,
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Failed to retrieve deposit addresses' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Gets a deposit address by ID
+   */
+  public async getDepositAddressById(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Extract data from request (validation already done by Joi middleware)
+      const userId = this.getUserId(req);
+      const { id } = req.params;
+
+      // Call use case
+      const depositAddress = await this.getDepositAddressByIdUseCase.execute(
+        id,
+        userId,
+        this.getCorrelationId(req)
+      );
+
+      // Format HTTP response
+      res.status(200).json({
+        success: true,
+        data: depositAddress.toPlainObject(),
+        message: 'Deposit address retrieved successfully',
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        action: 'getDepositAddressById',
+        depositAddressId: req.params.id,
+        userId: req.user?.userId,
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Failed to retrieve deposit address' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Reconciles a confirmed transfer to its deposit address (internal services only)
+   */
+  public async reconcileDeposit(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Extract data from request (validation already done by Joi middleware)
+      const { chain, address, token, amount, txHash } = req.body;
+
+      // Call use case
+      const depositAddress = await this.reconcileDepositUseCase.execute(
+        { chain, address, token, amount, txHash },
+        this.getCorrelationId(req)
+      );
+
+      // Format HTTP response (null when the transfer is not for a deposit address)
+      res.status(200).json({
+        success: true,
+        data: depositAddress ? depositAddress.toPlainObject() : null,
+        message: depositAddress ? 'Deposit reconciled' : 'No deposit address for this transfer',
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        operation: 'reconcileDeposit',
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Failed to reconcile deposit' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Gets user ID from request
+   */
+  private getUserId(req: AuthenticatedRequest): string {
+    const userId = req.user?.userId;
+    if (!userId) {
+      throw new AuthorizationError('User ID not found in request', {
+        path: req.path,
+      });
+    }
+    return userId;
+  }
+
+  /**
+   * Gets correlation ID from request
+   */
+  private getCorrelationId(req: AuthenticatedRequest): string {
+    return (req as AuthenticatedRequest & { correlationId?: string }).correlationId || '';
+  }
+
+  /**
+   * Handles errors and formats HTTP error response
+   */
+  private handleError(error: BaseError, res: Response, path: string): void {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.code,
+      message: error.message,
+      statusCode: error.statusCode,
+      timestamp: error.timestamp,
+      path: path,
+      details: {
+        code: error.code,
+        context: error.context,
+      },
+    });
+  }
+}
@@ -0,0 +1,204 @@
+/**
+ * Key Rotation Controller - Presentation Layer
+ *
+ * Thin HTTP handler for master key rotations (internal services only) - only
+ * handles HTTP concerns, delegates to use cases
+ *
+ * @module wallet-service/presentation/controllers
+ */
+
+import { Response } from 'express';
+import { AuthenticatedRequest } from '@shield/shared/middleware';
+import { StartKeyRotationUseCase } from '../../domain/useCases/StartKeyRotationUseCase';
+import { GetKeyRotationsUseCase } from '../../domain/useCases/GetKeyRotationsUseCase';
+import { GetKeyRotationByIdUseCase } from '../../domain/useCases/GetKeyRotationByIdUseCase';
+import { ResumeKeyRotationUseCase } from '../../domain/useCases/ResumeKeyRotationUseCase';
+import {
+  BaseError,
+  ensureBaseError,
+  shouldLogError,
+} from '@shield/shared/errors';
+import { logError, logInfo } from '@shield/shared/types';
+
+/**
+ * Key Rotation Controller
+ */
+export class KeyRotationController {
+  constructor(
+    private readonly startKeyRotationUseCase: StartKeyRotationUseCase,
+    private readonly getKeyRotationsUseCase: GetKeyRotationsUseCase,
+    private readonly getKeyRotationByIdUseCase: GetKeyRotationByIdUseCase,
+    private readonly resumeKeyRotationUseCase: ResumeKeyRotationUseCase
+  ) {}
+
+  /**
+   * Starts migrating wallets from one master key version to another
+   */
+  public async startKeyRotation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Extract data from request (validation already done by Joi middleware)
+      const { fromVersion, toVersion } = req.body;
+
+      // Call use case
+      const run = await this.startKeyRotationUseCase.execute(
+        { fromVersion, toVersion, requestedBy: req.user?.userId },
+        this.getCorrelationId(req)
+      );
+
+      // Log success
+      logInfo('Key rotation started successfully', {
+        path: req.path,
+        method: req.method,
+        keyRotationId: run.id,
+        caller: req.user?.userId,
+      });
+
+      // Format HTTP response
+      res.status(202).json({
+        success: true,
+        data: run.toPlainObject(),
+        message: 'Key rotation started',
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        operation: 'startKeyRotation',
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Failed to start key rotation' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Lists key rotations with their progress
+   */
+  public async getKeyRotations(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Call use case
+      const runs = await this.getKeyRotationsUseCase.execute(this.getCorrelationId(req));
+
+      // Format HTTP response
+      res.status(200).json({
+        success: true,
+        data: runs.map((run) => run.toPlainObject()),
+        message: 'Key rotations retrieved successfully',
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        operation: 'getKeyRotations',
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Failed to retrieve key rotations' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Gets a key rotation and its progress
+   */
+  public async getKeyRotationById(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Extract data from request (validation already done by Joi middleware)
+      const { id } = req.params;
+
+      // Call use case
+      const run = await this.getKeyRotationByIdUseCase.execute(id, this.getCorrelationId(req));
+
+      // Format HTTP response
+      res.status(200).json({
+        success: true,
+        data: run.toPlainObject(),
+        message: 'Key rotation retrieved successfully',
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        operation: 'getKeyRotationById',
+        keyRotationId: req.params.id,
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Failed to retrieve key rotation' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Resumes a failed key rotation from where it stopped
+   */
+  public async resumeKeyRotation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Extract data from request (validation already done by Joi middleware)
+      const { id } = req.params;
+
+      // Call use case
+      const run = await this.resumeKeyRotationUseCase.execute(id, this.getCorrelationId(req));
+
+      // Log success
+      logInfo('Key rotation resumed successfully', {
+        path: req.path,
+        method: req.method,
+        keyRotationId: run.id,
+        caller: req.user?.userId,
+      });
+
+      // Format HTTP response
+      res.status(202).json({
+        success: true,
+        data: run.toPlainObject(),
+        message: 'Key rotation resumed',
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        operation: 'resumeKeyRotation',
+        keyRotationId: req.params.id,
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Failed to resume key rotation' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Gets correlation ID from request
+   */
+  private getCorrelationId(req: AuthenticatedRequest): string {
+    return (req as AuthenticatedRequest & { correlationId?: string }).correlationId || '';
+  }
+
+  /**
+   * Handles errors and formats HTTP error response
+   */
+  private handleError(error: BaseError, res: Response, path: string): void {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.code,
+      message: error.message,
+      statusCode: error.statusCode,
+      timestamp: error.timestamp,
+      path: path,
+      details: {
+        code: error.code,
+        context: error.context,
+      },
+    });
+  }
+}
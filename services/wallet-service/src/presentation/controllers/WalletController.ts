@@ -15,13 +15,18 @@ import { UpdateWalletUseCase } from '../../domain/useCases/UpdateWalletUseCase';
 import { DeleteWalletUseCase } from '../../domain/useCases/DeleteWalletUseCase';
 import { GenerateWalletUseCase } from '../../domain/useCases/GenerateWalletUseCase';
 import { RevealPrivateKeyUseCase } from '../../domain/useCases/RevealPrivateKeyUseCase';
+import { GetActiveAddressesUseCase } from '../../domain/useCases/GetActiveAddressesUseCase';
+import { CreateHdSeedUseCase } from '../../domain/useCases/CreateHdSeedUseCase';
+import { DeriveHdWalletUseCase } from '../../domain/useCases/DeriveHdWalletUseCase';
+import { RotateWalletEncryptionUseCase } from '../../domain/useCases/RotateWalletEncryptionUseCase';
+import { ImportPrivateKeyUseCase } from '../../domain/useCases/ImportPrivateKeyUseCase';
 import {
   BaseError,
   ensureBaseError,
   shouldLogError,
   AuthorizationError,
 } from '@shield/shared/errors';
-import { logError, logInfo } from '@shield/shared/types';
+import { ChainType, logError, logInfo } from '@shield/shared/types';
 
 /**
  * Wallet Controller
@@ -40,7 +45,12 @@ export class WalletController {
     private readonly updateWalletUseCase: UpdateWalletUseCase,
     private readonly deleteWalletUseCase: DeleteWalletUseCase,
     private readonly generateWalletUseCase: GenerateWalletUseCase,
-    private readonly revealPrivateKeyUseCase: RevealPrivateKeyUseCase
+    private readonly revealPrivateKeyUseCase: RevealPrivateKeyUseCase,
+    private readonly getActiveAddressesUseCase: GetActiveAddressesUseCase,
+    private readonly createHdSeedUseCase: CreateHdSeedUseCase,
+    private readonly deriveHdWalletUseCase: DeriveHdWalletUseCase,
+    private readonly rotateWalletEncryptionUseCase: RotateWalletEncryptionUseCase,
+    private readonly importPrivateKeyUseCase: ImportPrivateKeyUseCase
   ) {}
 
   /**
@@ -81,7 +91,7 @@ export class WalletController {
       // Handle errors with strong typing
       const baseError = ensureBaseError(error, {
         action: 'createWallet',
-        userId: req.user?.id,
+        userId: req.user?.userId,
         path: req.path,
         method: req.method,
       });
@@ -131,7 +141,7 @@ export class WalletController {
       // Handle errors with strong typing
       const baseError = ensureBaseError(error, {
         action: 'getUserWallets',
-        userId: req.user?.id,
+        userId: req.user?.userId,
         path: req.path,
         method: req.method,
       });
@@ -175,7 +185,7 @@ export class WalletController {
       const baseError = ensureBaseError(error, {
         action: 'getWalletById',
         walletId: req.params.id,
-        userId: req.user?.id,
+        userId: req.user?.userId,
         path: req.path,
         method: req.method,
       });
@@ -225,7 +235,7 @@ export class WalletController {
       const baseError = ensureBaseError(error, {
         action: 'updateWallet',
         walletId: req.params.id,
-        userId: req.user?.id,
+        userId: req.user?.userId,
         path: req.path,
         method: req.method,
       });
@@ -269,7 +279,7 @@ export class WalletController {
       const baseError = ensureBaseError(error, {
         action: 'deleteWallet',
         walletId: req.params.id,
-        userId: req.user?.id,
+        userId: req.user?.userId,
         path: req.path,
         method: req.method,
       });
@@ -338,7 +348,7 @@ export class WalletController {
   }
 
   /**
-   * Reveals the private key of a system-generated wallet (requires password)
+   * Reveals the private key of a system-generated wallet (password if protected)
    */
   public async revealPrivateKey(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
@@ -398,11 +408,241 @@ export class WalletController {
     }
   }
 
+  /**
+   * Re-encrypts a wallet's private key with a new password
+   */
+  public async rotateEncryption(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Extract data from request (validation already done by Joi middleware)
+      const userId = this.getUserId(req);
+      const { id } = req.params;
+      const { currentPassword, newPassword } = req.body;
+
+      // Call use case
+      const wallet = await this.rotateWalletEncryptionUseCase.execute({
+        walletId: id,
+        userId,
+        currentPassword,
+        newPassword,
+      });
+
+      // Log success
+      logInfo('Wallet encryption rotated successfully', {
+        path: req.path,
+        method: req.method,
+        walletId: wallet.id,
+        userId,
+      });
+
+      // Format HTTP response
+      res.status(200).json({
+        success: true,
+        data: wallet.toPlainObject(),
+        message: wallet.isHdWallet()
+          ? 'HD seed re-encrypted successfully; the new password applies to every wallet derived from it'
+          : 'Private key re-encrypted successfully',
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        operation: 'rotateEncryption',
+        walletId: req.params.id,
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Failed to rotate wallet encryption' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Imports a wallet with its private key (raw key or V3 keystore file)
+   */
+  public async importPrivateKey(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Extract data from request (validation already done by Joi middleware)
+      const userId = this.getUserId(req);
+      const { chain, privateKey, keystore, passphrase, password, address, tag } = req.body;
+
+      // Call use case (keystores may be sent as a JSON object or as its string)
+      const wallet = await this.importPrivateKeyUseCase.execute({
+        userId,
+        chain,
+        privateKey,
+        keystore: typeof keystore === 'object' ? JSON.stringify(keystore) : keystore,
+        passphrase,
+        password,
+        address,
+        tag,
+      });
+
+      // Log success
+      logInfo('Wallet private key imported successfully', {
+        path: req.path,
+        method: req.method,
+        walletId: wallet.id,
+        address: wallet.address,
+        chain: wallet.chain,
+        createdBySystem: wallet.createdBySystem,
+      });
+
+      // Format HTTP response
+      res.status(201).json({
+        success: true,
+        data: wallet.toPlainObject(),
+        message: 'Wallet imported and private key encrypted successfully',
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        operation: 'importPrivateKey',
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Failed to import private key' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Creates the user's HD seed (returns the mnemonic once, for backup)
+   */
+  public async createHdSeed(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Extract data from request (validation already done by Joi middleware)
+      const userId = this.getUserId(req);
+      const { password } = req.body;
+
+      // Call use case
+      const result = await this.createHdSeedUseCase.execute({ userId, password });
+
+      // Log success (but NOT the mnemonic!)
+      logInfo('HD seed created successfully', {
+        path: req.path,
+        method: req.method,
+        hdSeedId: result.seed.id,
+        userId,
+      });
+
+      // Format HTTP response
+      res.status(201).json({
+        success: true,
+        data: {
+          ...result.seed.toPlainObject(),
+          mnemonic: result.mnemonic,
+          warning: result.warning,
+        },
+        message: 'HD seed created and encrypted successfully',
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        operation: 'createHdSeed',
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Failed to create HD seed' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Derives the next unused address from the user's HD seed
+   */
+  public async deriveHdWallet(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Extract data from request (validation already done by Joi middleware)
+      const userId = this.getUserId(req);
+      const { chain, tag } = req.body;
+
+      // Call use case
+      const wallet = await this.deriveHdWalletUseCase.execute({ userId, chain, tag });
+
+      // Log success
+      logInfo('HD wallet derived successfully', {
+        path: req.path,
+        method: req.method,
+        walletId: wallet.id,
+        address: wallet.address,
+        chain: wallet.chain,
+        derivationIndex: wallet.derivationIndex,
+      });
+
+      // Format HTTP response
+      res.status(201).json({
+        success: true,
+        data: wallet.toPlainObject(),
+        message: 'HD wallet derived successfully',
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        operation: 'deriveHdWallet',
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Failed to derive HD wallet' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
+  /**
+   * Lists every active wallet address on a chain (internal services only)
+   */
+  public async getActiveAddresses(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      // Extract data from request (validation already done by Joi middleware)
+      const { chain } = req.query;
+
+      // Call use case
+      const addresses = await this.getActiveAddressesUseCase.execute(chain as ChainType);
+
+      logInfo('Active addresses retrieved successfully', {
+        path: req.path,
+        method: req.method,
+        chain,
+        count: addresses.length,
+        caller: req.user?.userId,
+      });
+
+      // Format HTTP response
+      res.status(200).json({
+        success: true,
+        data: { chain, addresses },
+        message: 'Active addresses retrieved successfully',
+      });
+    } catch (error: unknown) {
+      const baseError = ensureBaseError(error, {
+        operation: 'getActiveAddresses',
+        path: req.path,
+        method: req.method,
+      });
+
+      if (shouldLogError(baseError)) {
+        logError(baseError, { context: 'Failed to retrieve active addresses' });
+      }
+
+      this.handleError(baseError, res, req.path);
+    }
+  }
+
   /**
    * Gets user ID from request
    */
   private getUserId(req: AuthenticatedRequest): string {
-    const userId = req.user?.id;
+    const userId = req.user?.userId;
     if (!userId) {
       throw new AuthorizationError('User ID not found in request', {
         path: req.path,
@@ -18,13 +18,17 @@
 
 import { Router, type Request, type Response } from 'express';
 import { DependencyContainer } from './infrastructure/dependencyInjection';
-import { authenticate, validateRequest } from '@shield/shared/middleware';
+import { authenticate, requireServiceToken, validateRequest } from '@shield/shared/middleware';
 import Joi from 'joi';
 import type { AuthenticatedRequest } from '@shield/shared/middleware';
+import { ChainType } from '@shield/shared/types';
+import { DepositAddressStatus } from './domain/entities/DepositAddress';
 
 const router = Router();
 const container = DependencyContainer.getInstance();
 const walletController = container.walletController;
+const depositAddressController = container.depositAddressController;
+const keyRotationController = container.keyRotationController;
 
 /**
  * Helper to ensure Express passes AuthenticatedRequest to controller methods
@@ -46,10 +50,13 @@ router.use(authenticate);
  * Validation Schemas
  */
 
+// Chains a wallet can be registered or generated on (every EVM chain and Tron)
+const SUPPORTED_CHAINS = Object.values(ChainType);
+
 // POST /wallets - Create wallet
 const createWalletSchema = Joi.object({
-  chain: Joi.string().valid('POLYGON', 'TRON').required().messages({
-    'any.only': 'chain must be either POLYGON or TRON',
+  chain: Joi.string().valid(...SUPPORTED_CHAINS).required().messages({
+    'any.only': `chain must be one of ${SUPPORTED_CHAINS.join(', ')}`,
     'any.required': 'chain is required',
   }),
   address: Joi.string().min(26).max(66).required().messages({
@@ -83,36 +90,183 @@ const walletIdParamSchema = Joi.object({
 
 // Query params for list wallets
 const listWalletsQuerySchema = Joi.object({
-  chain: Joi.string().valid('POLYGON', 'TRON').optional().messages({
-    'any.only': 'chain must be either POLYGON or TRON',
+  chain: Joi.string().valid(...SUPPORTED_CHAINS).optional().messages({
+    'any.only': `chain must be one of ${SUPPORTED_CHAINS.join(', ')}`,
   }),
   isActive: Joi.boolean().truthy('true', '1').falsy('false', '0').optional(),
 }).options({ stripUnknown: true });
 
+// Query params for internal active addresses listing
+const activeAddressesQuerySchema = Joi.object({
+  chain: Joi.string().valid(...SUPPORTED_CHAINS).required().messages({
+    'any.only': `chain must be one of ${SUPPORTED_CHAINS.join(', ')}`,
+    'any.required': 'chain is required',
+  }),
+});
+
 // POST /wallets/generate - Generate wallet
 const generateWalletSchema = Joi.object({
-  chain: Joi.string().valid('POLYGON', 'TRON').required().messages({
-    'any.only': 'Invalid chain type. Must be either POLYGON or TRON',
+  chain: Joi.string().valid(...SUPPORTED_CHAINS).required().messages({
+    'any.only': `Invalid chain type. Must be one of ${SUPPORTED_CHAINS.join(', ')}`,
     'any.required': 'Chain is required for wallet generation',
   }),
+  // Optional second factor: when set, revealing the key also needs the password
+  password: Joi.string().min(8).pattern(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/).max(100).optional().messages({
+    'string.min': 'Password must be at least 8 characters long for secure encryption',
+    'string.pattern.base': 'Password must contain at least one uppercase letter, one lowercase letter, and one number',
+    'string.max': 'Password must be at most 100 characters long',
+  }),
+  tag: Joi.string().max(100).optional().trim().replace(/<script.*?>.*?<\/script>/gi, '').messages({
+    'string.max': 'Tag must be at most 100 characters long',
+  }),
+});
+
+// POST /wallets/import-key - Import a wallet with its private key
+const importPrivateKeySchema = Joi.object({
+  chain: Joi.string().valid(...SUPPORTED_CHAINS).required().messages({
+    'any.only': `Invalid chain type. Must be one of ${SUPPORTED_CHAINS.join(', ')}`,
+    'any.required': 'Chain is required for key import',
+  }),
+  // Hex private key; its format per chain is checked by the use case
+  privateKey: Joi.string().trim().max(66).messages({
+    'string.empty': 'privateKey cannot be empty',
+    'string.max': 'privateKey must be at most 66 characters long',
+  }),
+  // Web3 Secret Storage (V3) keystore, as a JSON object or its string
+  keystore: Joi.alternatives().try(Joi.object().unknown(true), Joi.string().max(20000)).messages({
+    'alternatives.types': 'keystore must be a keystore JSON object or string',
+  }),
+  passphrase: Joi.string().allow('').max(1000).messages({
+    'string.max': 'passphrase must be at most 1000 characters long',
+  }),
+  // Optional second factor: when set, revealing the key also needs the password
+  password: Joi.string().min(8).pattern(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/).max(100).optional().messages({
+    'string.min': 'Password must be at least 8 characters long for secure encryption',
+    'string.pattern.base': 'Password must contain at least one uppercase letter, one lowercase letter, and one number',
+    'string.max': 'Password must be at most 100 characters long',
+  }),
+  // Optional expected address, checked against the address derived from the key
+  address: Joi.string().min(26).max(66).optional().messages({
+    'string.min': 'address must be at least 26 characters long',
+    'string.max': 'address must be at most 66 characters long',
+  }),
+  tag: Joi.string().max(100).optional().trim().replace(/<script.*?>.*?<\/script>/gi, '').messages({
+    'string.max': 'Tag must be at most 100 characters long',
+  }),
+}).xor('privateKey', 'keystore').with('keystore', 'passphrase').messages({
+  'object.missing': 'Either privateKey or keystore is required',
+  'object.xor': 'Provide either privateKey or keystore, not both',
+  'object.with': 'passphrase is required with a keystore',
+});
+
+// POST /wallets/hd-seed - Create HD seed
+const createHdSeedSchema = Joi.object({
   password: Joi.string().min(8).pattern(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/).max(100).required().messages({
     'string.min': 'Password must be at least 8 characters long for secure encryption',
     'string.pattern.base': 'Password must contain at least one uppercase letter, one lowercase letter, and one number',
     'string.max': 'Password must be at most 100 characters long',
-    'any.required': 'Password is required to encrypt the private key',
+    'any.required': 'Password is required to encrypt the recovery phrase',
+  }),
+});
+
+// POST /wallets/hd-seed/derive - Derive next HD address
+const deriveHdWalletSchema = Joi.object({
+  chain: Joi.string().valid(...SUPPORTED_CHAINS).required().messages({
+    'any.only': `Invalid chain type. Must be one of ${SUPPORTED_CHAINS.join(', ')}`,
+    'any.required': 'Chain is required for address derivation',
   }),
   tag: Joi.string().max(100).optional().trim().replace(/<script.*?>.*?<\/script>/gi, '').messages({
     'string.max': 'Tag must be at most 100 characters long',
   }),
 });
 
+// POST /wallets/deposit-addresses - Create deposit address (payment request)
+const createDepositAddressSchema = Joi.object({
+  chain: Joi.string().valid(...SUPPORTED_CHAINS).required().messages({
+    'any.only': `chain must be one of ${SUPPORTED_CHAINS.join(', ')}`,
+    'any.required': 'chain is required',
+  }),
+  token: Joi.string().pattern(/^[A-Za-z0-9]{2,12}$/).default('USDT').messages({
+    'string.pattern.base': 'token must be a token symbol (e.g. USDT)',
+  }),
+  expectedAmount: Joi.string().pattern(/^\d+(\.\d{1,18})?$/).required().messages({
+    'string.pattern.base': 'expectedAmount must be a decimal amount with at most 18 decimals',
+    'any.required': 'expectedAmount is required',
+  }),
+  expiresInMinutes: Joi.number().integer().min(1).max(43200).optional().messages({
+    'number.min': 'expiresInMinutes must be at least 1',
+    'number.max': 'expiresInMinutes must be at most 43200 (30 days)',
+  }),
+  reference: Joi.string().max(100).optional().trim().messages({
+    'string.max': 'reference must be at most 100 characters long',
+  }),
+});
+
+// Query params for list deposit addresses
+const listDepositAddressesQuerySchema = Joi.object({
+  chain: Joi.string().valid(...SUPPORTED_CHAINS).optional().messages({
+    'any.only': `chain must be one of ${SUPPORTED_CHAINS.join(', ')}`,
+  }),
+  status: Joi.string().valid(...Object.values(DepositAddressStatus)).optional().messages({
+    'any.only': `status must be one of ${Object.values(DepositAddressStatus).join(', ')}`,
+  }),
+}).options({ stripUnknown: true });
+
+// URL param validation for deposit addresses
+const depositAddressIdParamSchema = Joi.object({
+  id: Joi.string().uuid().required().messages({
+    'string.guid': 'Deposit address ID must be a valid UUID format',
+    'string.uuid': 'Deposit address ID must be a valid UUID format',
+    'any.required': 'Deposit address ID is required',
+  }),
+});
+
+// POST /wallets/internal/deposits - Reconcile a confirmed transfer
+const reconcileDepositSchema = Joi.object({
+  chain: Joi.string().valid(...SUPPORTED_CHAINS).required(),
+  address: Joi.string().min(26).max(66).required(),
+  token: Joi.string().max(20).required(),
+  amount: Joi.string().pattern(/^\d+(\.\d{1,18})?$/).required(),
+  txHash: Joi.string().max(100).required(),
+});
+
 // POST /wallets/:id/reveal-key - Reveal private key
 const revealPrivateKeySchema = Joi.object({
-  password: Joi.string().min(1).max(100).required().messages({
+  // Required for password-protected keys and HD wallets (checked by the use case)
+  password: Joi.string().min(1).max(100).optional().messages({
     'string.empty': 'Password cannot be empty',
     'string.min': 'Password cannot be empty',
     'string.max': 'Password must be at most 100 characters long',
-    'any.required': 'Password is required to decrypt the private key',
+  }),
+});
+
+// POST /wallets/:id/rotate-encryption - Re-encrypt private key (or the HD seed of HD wallets) with a new password
+const rotateEncryptionSchema = Joi.object({
+  // Required if the key is password-protected (checked by the use case)
+  currentPassword: Joi.string().min(1).max(100).optional().messages({
+    'string.empty': 'Current password cannot be empty',
+    'string.max': 'Current password must be at most 100 characters long',
+  }),
+  newPassword: Joi.string().min(8).pattern(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/).max(100).required().messages({
+    'string.min': 'Password must be at least 8 characters long for secure encryption',
+    'string.pattern.base': 'Password must contain at least one uppercase letter, one lowercase letter, and one number',
+    'string.max': 'Password must be at most 100 characters long',
+    'any.required': 'New password is required to re-encrypt the private key',
+  }),
+});
+
+// POST /wallets/internal/key-rotations - Start a master key rotation
+const startKeyRotationSchema = Joi.object({
+  fromVersion: Joi.number().integer().min(1).required(),
+  toVersion: Joi.number().integer().min(1).required(),
+});
+
+// URL param validation for key rotations
+const keyRotationIdParamSchema = Joi.object({
+  id: Joi.string().uuid().required().messages({
+    'string.guid': 'Key rotation ID must be a valid UUID format',
+    'string.uuid': 'Key rotation ID must be a valid UUID format',
+    'any.required': 'Key rotation ID is required',
   }),
 });
 
@@ -129,6 +283,49 @@ router.post(
   withAuth((req, res) => walletController.generateWallet(req, res))
 );
 
+// POST /v1/wallets/import-key - Import a wallet with its private key (raw key or V3 keystore + passphrase)
+router.post(
+  '/import-key',
+  validateRequest(importPrivateKeySchema),
+  withAuth((req, res) => walletController.importPrivateKey(req, res))
+);
+
+// POST /v1/wallets/hd-seed - Create the user's HD seed (encrypted BIP-39 mnemonic, shown once)
+router.post(
+  '/hd-seed',
+  validateRequest(createHdSeedSchema),
+  withAuth((req, res) => walletController.createHdSeed(req, res))
+);
+
+// POST /v1/wallets/hd-seed/derive - Derive the next unused address from the HD seed
+router.post(
+  '/hd-seed/derive',
+  validateRequest(deriveHdWalletSchema),
+  withAuth((req, res) => walletController.deriveHdWallet(req, res))
+);
+
+// POST /v1/wallets/deposit-addresses - Hand out an address for one payment request (pooled or derived)
+router.post(
+  '/deposit-addresses',
+  validateRequest(createDepositAddressSchema),
+  withAuth((req, res) => depositAddressController.createDepositAddress(req, res))
+);
+
+// GET /v1/wallets/deposit-addresses - List payment requests
+// Registered before /:id so "deposit-addresses" is not parsed as a wallet ID
+router.get(
+  '/deposit-addresses',
+  validateRequest(listDepositAddressesQuerySchema, 'query'),
+  withAuth((req, res) => depositAddressController.getDepositAddresses(req, res))
+);
+
+// GET /v1/wallets/deposit-addresses/:id - Get a payment request
+router.get(
+  '/deposit-addresses/:id',
+  validateRequest(depositAddressIdParamSchema, 'params'),
+  withAuth((req, res) => depositAddressController.getDepositAddressById(req, res))
+);
+
 // Create a new wallet (import existing address)
 router.post(
   '/',
@@ -143,6 +340,54 @@ router.get(
   withAuth((req, res) => walletController.getUserWallets(req, res))
 );
 
+// GET /v1/wallets/internal/addresses - Active addresses across all users (service tokens only)
+// Registered before /:id so "internal" is not parsed as a wallet ID
+router.get(
+  '/internal/addresses',
+  requireServiceToken,
+  validateRequest(activeAddressesQuerySchema, 'query'),
+  withAuth((req, res) => walletController.getActiveAddresses(req, res))
+);
+
+// POST /v1/wallets/internal/deposits - Reconcile a confirmed transfer to its deposit address (service tokens only)
+router.post(
+  '/internal/deposits',
+  requireServiceToken,
+  validateRequest(reconcileDepositSchema),
+  withAuth((req, res) => depositAddressController.reconcileDeposit(req, res))
+);
+
+// POST /v1/wallets/internal/key-rotations - Migrate wallets and HD seeds between master key versions (service tokens only)
+router.post(
+  '/internal/key-rotations',
+  requireServiceToken,
+  validateRequest(startKeyRotationSchema),
+  withAuth((req, res) => keyRotationController.startKeyRotation(req, res))
+);
+
+// GET /v1/wallets/internal/key-rotations - List master key rotations with progress (service tokens only)
+router.get(
+  '/internal/key-rotations',
+  requireServiceToken,
+  withAuth((req, res) => keyRotationController.getKeyRotations(req, res))
+);
+
+// GET /v1/wallets/internal/key-rotations/:id - Master key rotation progress (service tokens only)
+router.get(
+  '/internal/key-rotations/:id',
+  requireServiceToken,
+  validateRequest(keyRotationIdParamSchema, 'params'),
+  withAuth((req, res) => keyRotationController.getKeyRotationById(req, res))
+);
+
+// POST /v1/wallets/internal/key-rotations/:id/resume - Resume a failed master key rotation (service tokens only)
+router.post(
+  '/internal/key-rotations/:id/resume',
+  requireServiceToken,
+  validateRequest(keyRotationIdParamSchema, 'params'),
+  withAuth((req, res) => keyRotationController.resumeKeyRotation(req, res))
+);
+
 // Get a specific wallet by ID
 router.get(
   '/:id',
@@ -165,7 +410,7 @@ router.delete(
   withAuth((req, res) => walletController.deleteWallet(req, res))
 );
 
-// POST /v1/wallets/:id/reveal-key - Reveal private key (system-generated wallets only, requires password)
+// POST /v1/wallets/:id/reveal-key - Reveal private key (generated and key-imported wallets, password if protected)
 router.post(
   '/:id/reveal-key',
   validateRequest(walletIdParamSchema, 'params'),
@@ -173,6 +418,14 @@ router.post(
   withAuth((req, res) => walletController.revealPrivateKey(req, res))
 );
 
+// POST /v1/wallets/:id/rotate-encryption - Re-encrypt the private key with a new password (atomic)
+router.post(
+  '/:id/rotate-encryption',
+  validateRequest(walletIdParamSchema, 'params'),
+  validateRequest(rotateEncryptionSchema),
+  withAuth((req, res) => walletController.rotateEncryption(req, res))
+);
+
 /**
  * ============================================================================
  * Future API v2 Implementation
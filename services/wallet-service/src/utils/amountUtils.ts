@@ -0,0 +1,69 @@
+/**
+ * Token Amount Utilities
+ * 
+ * Exact arithmetic on decimal token amounts (strings), e.g. for comparing a
+ * received amount with an expected one. Amounts are handled as integers of
+ * 18 decimals, matching the precision they are stored with.
+ * 
+ * @module wallet-service/utils/amountUtils
+ */
+
+import { ethers } from 'ethers';
+import { ValidationError } from '@shield/shared/errors';
+
+/**
+ * Decimals amounts are stored with (Decimal(36, 18) columns)
+ */
+const AMOUNT_DECIMALS = 18;
+
+/**
+ * Parses a decimal amount into 18-decimal integer units
+ * 
+ * @throws ValidationError if the amount is not a non-negative decimal number
+ */
+function toUnits(amount: string): bigint {
+  if (!/^\d+(\.\d+)?$/.test(amount)) {
+    throw new ValidationError('Invalid token amount', { amount });
+  }
+
+  return ethers.parseUnits(amount, AMOUNT_DECIMALS);
+}
+
+/**
+ * Formats 18-decimal integer units as a decimal amount without trailing zeros
+ */
+function fromUnits(units: bigint): string {
+  return ethers.formatUnits(units, AMOUNT_DECIMALS).replace(/\.0$/, '');
+}
+
+/**
+ * Adds two decimal amounts
+ * 
+ * @example
+ * ```typescript
+ * addAmounts('10.5', '0.25'); // '10.75'
+ * ```
+ */
+export function addAmounts(a: string, b: string): string {
+  return fromUnits(toUnits(a) + toUnits(b));
+}
+
+/**
+ * Compares two decimal amounts
+ * 
+ * @returns -1 if a < b, 0 if equal, 1 if a > b
+ */
+export function compareAmounts(a: string, b: string): -1 | 0 | 1 {
+  const difference = toUnits(a) - toUnits(b);
+  if (difference === 0n) {
+    return 0;
+  }
+  return difference < 0n ? -1 : 1;
+}
+
+/**
+ * Normalizes a decimal amount (e.g. '010.50' -> '10.5')
+ */
+export function normalizeAmount(amount: string): string {
+  return fromUnits(toUnits(amount));
+}
@@ -2,6 +2,9 @@
  * Cryptographic Utilities for Private Key Encryption
  * 
  * Uses AES-256-GCM for encryption with PBKDF2 key derivation from user password
+ * Envelope mode: a random per-wallet data key encrypts the private key and a
+ * key-encryption key from the key provider wraps the data key; the user's
+ * password can be mixed in as an optional second factor
  * NASA-level security: never store plaintext private keys
  * 
  * @module wallet-service/utils/cryptoUtils
@@ -9,6 +12,7 @@
 
 import crypto from 'crypto';
 import { ValidationError } from '@shield/shared/errors';
+import { IKeyProvider, WrappedDataKey } from '../domain/services/IKeyProvider';
 
 /**
  * Encryption algorithm configuration
@@ -20,6 +24,7 @@ const SALT_LENGTH = 64; // 512 bits
 const AUTH_TAG_LENGTH = 16; // 128 bits
 const PBKDF2_ITERATIONS = 600000; // OWASP recommendation for 2024
 const PBKDF2_DIGEST = 'sha512';
+const ENVELOPE_KEY_INFO = 'shield-wallet-private-key'; // HKDF context when the password factor is used
 
 /**
  * Encryption result containing all necessary data for decryption
@@ -30,6 +35,17 @@ export interface EncryptionResult {
   salt: string; // Base64 encoded salt for PBKDF2
 }
 
+/**
+ * Envelope encryption result containing all necessary data for decryption
+ */
+export interface EnvelopeEncryptionResult {
+  encryptedData: string; // Base64 encoded: encrypted data + auth tag
+  iv: string; // Base64 encoded initialization vector
+  salt: string | null; // Base64 encoded PBKDF2 salt (only with the password factor)
+  encryptedDataKey: string; // Data key wrapped by the key provider
+  keyVersion: number; // Version of the key-encryption key
+}
+
 /**
  * Derives an encryption key from a password using PBKDF2
  * 
@@ -188,6 +204,199 @@ export async function decryptPrivateKey(
   }
 }
 
+/**
+ * Generates a random 256-bit data key
+ */
+export function generateDataKey(): Buffer {
+  return crypto.randomBytes(KEY_LENGTH);
+}
+
+/**
+ * Encrypts data with a raw 256-bit key using AES-256-GCM
+ *
+ * @param plaintext - The data to encrypt
+ * @param key - 256-bit key (e.g., a data key or key-encryption key)
+ * @returns Base64 encoded encrypted data + auth tag, and IV
+ */
+export function encryptWithKey(plaintext: Buffer, key: Buffer): { encryptedData: string; iv: string } {
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const encrypted = Buffer.concat([cipher.update(plaintext), cipher.final(), cipher.getAuthTag()]);
+
+  return {
+    encryptedData: encrypted.toString('base64'),
+    iv: iv.toString('base64'),
+  };
+}
+
+/**
+ * Decrypts data encrypted by encryptWithKey
+ *
+ * @throws ValidationError if the key is wrong or the data is corrupted
+ */
+export function decryptWithKey(encryptedData: string, iv: string, key: Buffer): Buffer {
+  try {
+    const encryptedBuffer = Buffer.from(encryptedData, 'base64');
+
+    if (encryptedBuffer.length < AUTH_TAG_LENGTH) {
+      throw new ValidationError('Invalid encrypted data: too short');
+    }
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, key, Buffer.from(iv, 'base64'));
+    decipher.setAuthTag(encryptedBuffer.subarray(-AUTH_TAG_LENGTH));
+
+    return Buffer.concat([
+      decipher.update(encryptedBuffer.subarray(0, -AUTH_TAG_LENGTH)),
+      decipher.final(),
+    ]);
+  } catch (error) {
+    throw new ValidationError('Decryption failed: invalid key or corrupted data', {
+      originalError: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Combines the data key with the password factor (if any) into the key
+ * that actually encrypts the private key
+ */
+async function deriveEnvelopeKey(dataKey: Buffer, password?: string, salt?: Buffer): Promise<Buffer> {
+  if (!password || !salt) {
+    return Buffer.from(dataKey);
+  }
+
+  const passwordKey = await deriveKey(password, salt);
+  try {
+    return Buffer.from(crypto.hkdfSync('sha256', dataKey, passwordKey, ENVELOPE_KEY_INFO, KEY_LENGTH));
+  } finally {
+    passwordKey.fill(0);
+  }
+}
+
+/**
+ * Encrypts sensitive data (e.g., private key) with envelope encryption
+ *
+ * A fresh data key encrypts the data and is stored wrapped by the key
+ * provider. With a password, the private key can only be decrypted with
+ * both the key provider and the password.
+ *
+ * @param plaintext - The data to encrypt (e.g., private key)
+ * @param keyProvider - Key provider wrapping the data key
+ * @param password - Optional second factor
+ * @returns Envelope encryption result to store with the wallet
+ *
+ * @throws ValidationError if password is given but too weak
+ *
+ * @example
+ * ```typescript
+ * const result = await encryptWithEnvelope('0x123...', keyProvider);
+ * // Store result.encryptedData, result.iv, result.encryptedDataKey, result.keyVersion
+ * ```
+ */
+export async function encryptWithEnvelope(
+  plaintext: string,
+  keyProvider: IKeyProvider,
+  password?: string
+): Promise<EnvelopeEncryptionResult> {
+  if (password !== undefined && password.length < 8) {
+    throw new ValidationError('Password must be at least 8 characters long', {
+      field: 'password',
+      providedLength: password.length,
+    });
+  }
+
+  const dataKey = generateDataKey();
+  const salt = password ? crypto.randomBytes(SALT_LENGTH) : undefined;
+  let key: Buffer | null = null;
+
+  try {
+    key = await deriveEnvelopeKey(dataKey, password, salt);
+    const encrypted = encryptWithKey(Buffer.from(plaintext, 'utf8'), key);
+    const wrapped = await keyProvider.wrapKey(dataKey);
+
+    return {
+      encryptedData: encrypted.encryptedData,
+      iv: encrypted.iv,
+      salt: salt ? salt.toString('base64') : null,
+      encryptedDataKey: wrapped.wrappedKey,
+      keyVersion: wrapped.keyVersion,
+    };
+  } finally {
+    dataKey.fill(0);
+    key?.fill(0);
+  }
+}
+
+/**
+ * Decrypts data encrypted by encryptWithEnvelope
+ *
+ * @param encrypted - Stored envelope fields
+ * @param keyProvider - Key provider unwrapping the data key
+ * @param password - Required if the data was encrypted with the password factor
+ * @returns Decrypted plaintext (private key)
+ *
+ * @throws ValidationError if the password is missing or wrong, or the data is corrupted
+ */
+export async function decryptWithEnvelope(
+  encrypted: {
+    encryptedData: string;
+    iv: string;
+    salt: string | null;
+    encryptedDataKey: string;
+    keyVersion: number;
+  },
+  keyProvider: IKeyProvider,
+  password?: string
+): Promise<string> {
+  if (encrypted.salt && !password) {
+    throw new ValidationError('Password is required to decrypt this private key', {
+      field: 'password',
+    });
+  }
+
+  const dataKey = await keyProvider.unwrapKey(encrypted.encryptedDataKey, encrypted.keyVersion);
+  let key: Buffer | null = null;
+
+  try {
+    key = await deriveEnvelopeKey(
+      dataKey,
+      password,
+      encrypted.salt ? Buffer.from(encrypted.salt, 'base64') : undefined
+    );
+    return decryptWithKey(encrypted.encryptedData, encrypted.iv, key).toString('utf8');
+  } catch (error) {
+    throw new ValidationError('Decryption failed: invalid password or corrupted data', {
+      originalError: error instanceof Error ? error.message : String(error),
+    });
+  } finally {
+    dataKey.fill(0);
+    key?.fill(0);
+  }
+}
+
+/**
+ * Re-wraps a data key under another key-encryption key version
+ *
+ * The private key itself is not touched, so master keys can be rotated
+ * without the users' passwords.
+ *
+ * @returns The data key wrapped with the target version
+ */
+export async function rewrapDataKey(
+  encryptedDataKey: string,
+  fromVersion: number,
+  toVersion: number,
+  keyProvider: IKeyProvider
+): Promise<WrappedDataKey> {
+  const dataKey = await keyProvider.unwrapKey(encryptedDataKey, fromVersion);
+
+  try {
+    return await keyProvider.wrapKey(dataKey, toVersion);
+  } finally {
+    dataKey.fill(0);
+  }
+}
+
 /**
  * Securely wipes sensitive data from memory
  * 
@@ -1,14 +1,20 @@
 /**
  * Blockchain Wallet Generation Utilities
  * 
- * Generates new wallets on supported blockchains (Polygon/Ethereum, Tron)
+ * Generates new wallets on supported blockchains (EVM chains, Tron)
  * Returns address + private key for secure storage
  * 
+ * HD wallets: one BIP-39 mnemonic per user, addresses derived along
+ * m/44'/60'/0'/0/i (EVM) and m/44'/195'/0'/0/i (Tron)
+ * 
+ * Imports: wallets of existing private keys and V3 keystore files
+ * 
  * @module wallet-service/utils/walletGenerator
  */
 
 import { ethers } from 'ethers';
 import { ValidationError } from '@shield/shared/errors';
+import { EVM_CHAINS, isEvmChain } from '@shield/shared/types';
 
 /**
  * Generated wallet result
@@ -22,21 +28,22 @@ export interface GeneratedWallet {
 /**
  * Supported blockchain networks
  */
-export type ChainType = 'POLYGON' | 'TRON';
+export type ChainType = 'POLYGON' | 'TRON' | 'ETHEREUM' | 'ARBITRUM' | 'BASE' | 'BSC';
 
 /**
- * Generates a new Ethereum/Polygon wallet
+ * Generates a new EVM wallet (one key pair is valid on every EVM chain)
  * 
+ * @param chain - EVM chain the wallet is generated for (default: POLYGON)
  * @returns Generated wallet with address and private key
  * 
  * @example
  * ```typescript
- * const wallet = generatePolygonWallet();
+ * const wallet = generateEvmWallet('BSC');
  * console.log(wallet.address); // 0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb1
  * console.log(wallet.privateKey); // 0x123...
  * ```
  */
-export function generatePolygonWallet(): GeneratedWallet {
+export function generateEvmWallet(chain: ChainType = 'POLYGON'): GeneratedWallet {
   try {
     // Create a new random wallet using ethers.js
     const wallet = ethers.Wallet.createRandom();
@@ -47,9 +54,9 @@ export function generatePolygonWallet(): GeneratedWallet {
       publicKey: wallet.publicKey,
     };
   } catch (error) {
-    throw new ValidationError('Failed to generate Polygon wallet', {
+    throw new ValidationError(`Failed to generate ${chain} wallet`, {
       originalError: error instanceof Error ? error.message : String(error),
-      chain: 'POLYGON',
+      chain,
     });
   }
 }
@@ -96,7 +103,7 @@ export async function generateTronWallet(): Promise<GeneratedWallet> {
 /**
  * Generates a wallet for the specified blockchain
  * 
- * @param chain - Blockchain network (POLYGON or TRON)
+ * @param chain - Blockchain network (an EVM chain or TRON)
  * @returns Generated wallet with address and private key
  * 
  * @throws ValidationError if chain is not supported
@@ -104,23 +111,325 @@ export async function generateTronWallet(): Promise<GeneratedWallet> {
  * @example
  * ```typescript
  * const polygonWallet = await generateWallet('POLYGON');
+ * const bscWallet = await generateWallet('BSC');
  * const tronWallet = await generateWallet('TRON');
  * ```
  */
 export async function generateWallet(chain: ChainType): Promise<GeneratedWallet> {
-  switch (chain) {
-    case 'POLYGON':
-      return generatePolygonWallet();
-    
-    case 'TRON':
-      return await generateTronWallet();
-    
-    default:
-      throw new ValidationError(`Unsupported blockchain: ${chain}`, {
-        providedChain: chain,
-        supportedChains: ['POLYGON', 'TRON'],
+  if (isEvmChain(chain)) {
+    return generateEvmWallet(chain);
+  }
+
+  if (chain === 'TRON') {
+    return await generateTronWallet();
+  }
+
+  throw new ValidationError(`Unsupported blockchain: ${chain}`, {
+    providedChain: chain,
+    supportedChains: [...EVM_CHAINS, 'TRON'],
+  });
+}
+
+/**
+ * Chain families with their own BIP-44 coin type
+ */
+export type HdChainFamily = 'EVM' | 'TRON';
+
+/**
+ * BIP-44 account paths (external chain) per family; address i is `${path}/${i}`
+ */
+const HD_ACCOUNT_PATHS: Record<HdChainFamily, string> = {
+  EVM: "m/44'/60'/0'/0",
+  TRON: "m/44'/195'/0'/0",
+};
+
+/**
+ * Generated HD seed: the mnemonic plus the extended public keys addresses are derived from
+ */
+export interface GeneratedHdSeed {
+  mnemonic: string;
+  evmExtendedPublicKey: string;
+  tronExtendedPublicKey: string;
+}
+
+/**
+ * Gets the HD chain family of a chain (every EVM chain shares coin type 60)
+ */
+export function getHdChainFamily(chain: ChainType): HdChainFamily {
+  return isEvmChain(chain) ? 'EVM' : 'TRON';
+}
+
+/**
+ * Gets the BIP-44 derivation path of an address index
+ * 
+ * @example
+ * ```typescript
+ * getDerivationPath('BSC', 5); // m/44'/60'/0'/0/5
+ * getDerivationPath('TRON', 0); // m/44'/195'/0'/0/0
+ * ```
+ */
+export function getDerivationPath(chain: ChainType, index: number): string {
+  return `${HD_ACCOUNT_PATHS[getHdChainFamily(chain)]}/${index}`;
+}
+
+/**
+ * Generates a new 24-word BIP-39 mnemonic and the extended public keys of its
+ * EVM and Tron account paths
+ * 
+ * @returns Mnemonic (to be encrypted) and extended public keys (safe to store as-is)
+ */
+export function generateHdSeed(): GeneratedHdSeed {
+  try {
+    const mnemonic = ethers.Mnemonic.fromEntropy(ethers.randomBytes(32));
+
+    return {
+      mnemonic: mnemonic.phrase,
+      evmExtendedPublicKey: ethers.HDNodeWallet.fromMnemonic(mnemonic, HD_ACCOUNT_PATHS.EVM).neuter().extendedKey,
+      tronExtendedPublicKey: ethers.HDNodeWallet.fromMnemonic(mnemonic, HD_ACCOUNT_PATHS.TRON).neuter().extendedKey,
+    };
+  } catch (error) {
+    throw new ValidationError('Failed to generate HD seed', {
+      originalError: error instanceof Error ? error.message : String(error),
+    });
+  }
+}
+
+/**
+ * Derives the address at an index from an account extended public key
+ * (no private key or password needed)
+ * 
+ * @param extendedPublicKey - xpub of the chain family's account path
+ * @param chain - Chain the address is for
+ * @param index - Address index
+ * @returns Address in the chain's format
+ */
+export async function deriveHdAddress(
+  extendedPublicKey: string,
+  chain: ChainType,
+  index: number
+): Promise<string> {
+  try {
+    const address = ethers.HDNodeWallet.fromExtendedKey(extendedPublicKey).deriveChild(index).address;
+
+    if (chain !== 'TRON') {
+      return address;
+    }
+
+    // Tron addresses are the same key hash with a 0x41 prefix, in base58check
+    const { TronWeb } = await import('tronweb');
+    return TronWeb.address.fromHex(`41${address.slice(2)}`);
+  } catch (error) {
+    throw new ValidationError(`Failed to derive ${chain} address`, {
+      originalError: error instanceof Error ? error.message : String(error),
+      chain,
+      index,
+    });
+  }
+}
+
+/**
+ * Derives the wallet (address + private key) at an index from a mnemonic
+ * 
+ * @param mnemonic - Decrypted BIP-39 mnemonic
+ * @param chain - Chain the wallet is for
+ * @param index - Address index
+ * @returns Derived wallet; Tron private keys are hex without 0x, as TronWeb uses them
+ */
+export async function deriveHdWallet(
+  mnemonic: string,
+  chain: ChainType,
+  index: number
+): Promise<GeneratedWallet> {
+  try {
+    const wallet = ethers.HDNodeWallet.fromPhrase(mnemonic, undefined, getDerivationPath(chain, index));
+
+    if (chain !== 'TRON') {
+      return {
+        address: wallet.address,
+        privateKey: wallet.privateKey,
+        publicKey: wallet.publicKey,
+      };
+    }
+
+    const { TronWeb } = await import('tronweb');
+    return {
+      address: TronWeb.address.fromHex(`41${wallet.address.slice(2)}`),
+      privateKey: wallet.privateKey.slice(2),
+      publicKey: wallet.publicKey,
+    };
+  } catch (error) {
+    throw new ValidationError(`Failed to derive ${chain} wallet`, {
+      originalError: error instanceof Error ? error.message : String(error),
+      chain,
+      index,
+    });
+  }
+}
+
+/**
+ * Upper bounds on keystore key-derivation work, so an uploaded keystore cannot
+ * tie up the service (MetaMask and geth use at most scrypt N=2^18 with r=8)
+ */
+const MAX_KEYSTORE_SCRYPT_N = 262144;
+const MAX_KEYSTORE_SCRYPT_COST = MAX_KEYSTORE_SCRYPT_N * 8; // N * r * p
+const MAX_KEYSTORE_PBKDF2_ITERATIONS = 1000000;
+
+/**
+ * Builds the wallet (address + normalized private key) of an existing private key
+ * 
+ * @param privateKey - Hex private key, with or without 0x
+ * @param chain - Chain the wallet is for
+ * @returns Wallet; Tron private keys are hex without 0x, as TronWeb uses them
+ * 
+ * @throws ValidationError if the key is not a valid secp256k1 private key
+ */
+export async function walletFromPrivateKey(
+  privateKey: string,
+  chain: ChainType
+): Promise<GeneratedWallet> {
+  try {
+    const wallet = new ethers.Wallet(privateKey.startsWith('0x') ? privateKey : `0x${privateKey}`);
+
+    if (chain !== 'TRON') {
+      return {
+        address: wallet.address,
+        privateKey: wallet.privateKey,
+        publicKey: wallet.signingKey.publicKey,
+      };
+    }
+
+    const { TronWeb } = await import('tronweb');
+    return {
+      address: TronWeb.address.fromHex(`41${wallet.address.slice(2)}`),
+      privateKey: wallet.privateKey.slice(2),
+      publicKey: wallet.signingKey.publicKey,
+    };
+  } catch (error) {
+    throw new ValidationError(`Invalid ${chain} private key`, {
+      originalError: error instanceof Error ? error.message : String(error),
+      chain,
+    });
+  }
+}
+
+/**
+ * Decrypts a Web3 Secret Storage (V3) keystore file, as exported by MetaMask,
+ * geth or TronLink, and builds the wallet of its private key
+ * 
+ * The keystore's own address, if any, must match the decrypted key. It may be
+ * an EVM address (with or without 0x) or a Tron address (base58 or 41-prefixed hex).
+ * 
+ * @param keystore - Keystore JSON
+ * @param passphrase - Passphrase the keystore was encrypted with
+ * @param chain - Chain the wallet is for
+ * @returns Wallet, as returned by walletFromPrivateKey
+ * 
+ * @throws ValidationError if the keystore is malformed, too costly to decrypt,
+ * the passphrase is wrong or the address does not match
+ */
+export async function walletFromKeystore(
+  keystore: string,
+  passphrase: string,
+  chain: ChainType
+): Promise<GeneratedWallet> {
+  let data: Record<string, unknown>;
+  try {
+    data = JSON.parse(keystore) as Record<string, unknown>;
+  } catch {
+    throw new ValidationError('Keystore is not valid JSON', { chain });
+  }
+
+  if (!ethers.isKeystoreJson(keystore)) {
+    throw new ValidationError('Only Web3 Secret Storage version 3 keystores are supported', {
+      chain,
+      version: data.version,
+    });
+  }
+
+  assertKeystoreKdfWithinLimits(data);
+
+  // The address is checked here for every chain; ethers only understands EVM addresses
+  const { address: keystoreAddress, ...keystoreWithoutAddress } = data;
+
+  let account: ethers.KeystoreAccount;
+  try {
+    account = await ethers.decryptKeystoreJson(JSON.stringify(keystoreWithoutAddress), passphrase);
+  } catch (error) {
+    if ((error as { argument?: string }).argument === 'password') {
+      throw new ValidationError('Incorrect keystore passphrase', { chain });
+    }
+
+    throw new ValidationError('Failed to decrypt keystore', {
+      originalError: error instanceof Error ? error.message : String(error),
+      chain,
+    });
+  }
+
+  if (typeof keystoreAddress === 'string' && keystoreAddress.length > 0) {
+    const expected = (await toAddressHexBody(keystoreAddress)).toLowerCase();
+    if (expected !== account.address.slice(2).toLowerCase()) {
+      throw new ValidationError('Keystore address does not match its private key', {
+        chain,
+        keystoreAddress,
       });
+    }
   }
+
+  return walletFromPrivateKey(account.privateKey, chain);
+}
+
+/**
+ * Rejects keystores whose key-derivation parameters exceed the service limits
+ */
+function assertKeystoreKdfWithinLimits(data: Record<string, unknown>): void {
+  const cipherParams = (data.crypto ?? data.Crypto) as
+    | { kdf?: string; kdfparams?: Record<string, unknown> }
+    | undefined;
+  const kdf = String(cipherParams?.kdf ?? '').toLowerCase();
+  const params = cipherParams?.kdfparams ?? {};
+
+  if (kdf === 'scrypt') {
+    const n = Number(params.n);
+    const r = Number(params.r);
+    const p = Number(params.p);
+    if (!(n <= MAX_KEYSTORE_SCRYPT_N && n * r * p <= MAX_KEYSTORE_SCRYPT_COST)) {
+      throw new ValidationError('Keystore scrypt parameters exceed the supported limits', {
+        n: params.n,
+        r: params.r,
+        p: params.p,
+        maxN: MAX_KEYSTORE_SCRYPT_N,
+      });
+    }
+    return;
+  }
+
+  if (kdf === 'pbkdf2') {
+    if (!(Number(params.c) <= MAX_KEYSTORE_PBKDF2_ITERATIONS)) {
+      throw new ValidationError('Keystore PBKDF2 iterations exceed the supported limit', {
+        c: params.c,
+        maxIterations: MAX_KEYSTORE_PBKDF2_ITERATIONS,
+      });
+    }
+    return;
+  }
+
+  throw new ValidationError('Unsupported keystore key-derivation function', {
+    kdf: cipherParams?.kdf,
+    supported: ['scrypt', 'pbkdf2'],
+  });
+}
+
+/**
+ * Gets the 20-byte key hash (40 hex chars) of an EVM or Tron address
+ */
+async function toAddressHexBody(address: string): Promise<string> {
+  if (/^T[a-km-zA-HJ-NP-Z1-9]{33}$/.test(address)) {
+    const { TronWeb } = await import('tronweb');
+    return TronWeb.address.toHex(address).slice(2);
+  }
+
+  const hex = address.replace(/^0x/i, '');
+  return hex.length === 42 && hex.startsWith('41') ? hex.slice(2) : hex;
 }
 
 /**
@@ -138,18 +447,17 @@ export async function generateWallet(chain: ChainType): Promise<GeneratedWallet>
  * ```
  */
 export function isValidAddressForChain(address: string, chain: ChainType): boolean {
-  switch (chain) {
-    case 'POLYGON':
-      // Ethereum/Polygon address: 0x followed by 40 hex characters
-      return /^0x[a-fA-F0-9]{40}$/.test(address);
-    
-    case 'TRON':
-      // Tron address: T followed by 33 base58 characters
-      return /^T[a-km-zA-HJ-NP-Z1-9]{33}$/.test(address);
-    
-    default:
-      return false;
+  if (isEvmChain(chain)) {
+    // EVM address: 0x followed by 40 hex characters
+    return /^0x[a-fA-F0-9]{40}$/.test(address);
+  }
+
+  if (chain === 'TRON') {
+    // Tron address: T followed by 33 base58 characters
+    return /^T[a-km-zA-HJ-NP-Z1-9]{33}$/.test(address);
   }
+
+  return false;
 }
 
 /**
@@ -164,6 +472,14 @@ export function getChainName(chain: ChainType): string {
       return 'Polygon (MATIC)';
     case 'TRON':
       return 'Tron (TRX)';
+    case 'ETHEREUM':
+      return 'Ethereum (ETH)';
+    case 'ARBITRUM':
+      return 'Arbitrum One (ETH)';
+    case 'BASE':
+      return 'Base (ETH)';
+    case 'BSC':
+      return 'BNB Smart Chain (BNB)';
     default:
       return chain;
   }
@@ -0,0 +1,114 @@
+/**
+ * Unit Tests for Deposit Reconciliation
+ *
+ * Tests how confirmed transfers settle a payment request, and that its
+ * status_changed notification survives transaction-service being down
+ *
+ * @module wallet-service/tests
+ */
+
+import { DepositAddress, DepositAddressStatus } from '../src/domain/entities/DepositAddress';
+import { IDepositAddressRepository } from '../src/domain/repositories/IDepositAddressRepository';
+import { ITransactionServiceClient } from '../src/domain/services/ITransactionServiceClient';
+import { ReconcileDepositUseCase } from '../src/domain/useCases/ReconcileDepositUseCase';
+import { ChainType, WebhookEventType } from '@shield/shared/types';
+import { ExternalServiceError } from '@shield/shared/errors';
+
+const CHAIN = ChainType.POLYGON;
+const ADDRESS = '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb0';
+const TX_HASH = '0x5c504ed432cb51138bcf09aa5e8a410dd4a1e204ef84bfed1be16dfba1b22060';
+
+/**
+ * Builds the use case over a single AWAITING request for 100 USDT
+ */
+function createReconciler(): {
+  useCase: ReconcileDepositUseCase;
+  stored: () => DepositAddress;
+  sent: Record<string, unknown>[];
+  setAvailable: (available: boolean) => void;
+} {
+  let stored = DepositAddress.create({
+    userId: '3fa85f64-5717-4562-b3fc-2c963f66afa6',
+    walletId: '5b0c7a3e-2f5d-4c1a-9d8e-6f7a8b9c0d1e',
+    chain: CHAIN,
+    address: ADDRESS,
+    token: 'USDT',
+    expectedAmount: '100',
+    expiresAt: new Date(Date.now() + 3600000),
+  });
+  const sent: Record<string, unknown>[] = [];
+  let available = true;
+
+  const depositAddressRepository = {
+    findCurrentByAddress: async () => stored,
+    update: async (depositAddress: DepositAddress, previous: DepositAddress) => {
+      if (previous.updatedAt.getTime() !== stored.updatedAt.getTime()) {
+        return false;
+      }
+      stored = depositAddress;
+      return true;
+    },
+  } as unknown as IDepositAddressRepository;
+  const transactionServiceClient = {
+    sendWebhookEvent: async (type: WebhookEventType, _userId: string, data: Record<string, unknown>) => {
+      if (!available) {
+        throw new ExternalServiceError('transaction-service', 'Service unavailable', 503);
+      }
+      expect(type).toBe(WebhookEventType.DEPOSIT_ADDRESS_STATUS_CHANGED);
+      sent.push(data);
+    },
+  } as unknown as ITransactionServiceClient;
+
+  return {
+    useCase: new ReconcileDepositUseCase(depositAddressRepository, transactionServiceClient),
+    stored: () => stored,
+    sent,
+    setAvailable: (value: boolean) => {
+      available = value;
+    },
+  };
+}
+
+describe('ReconcileDepositUseCase', () => {
+  const deposit = { chain: CHAIN, address: ADDRESS, token: 'usdt', amount: '100', txHash: TX_HASH };
+
+  it('should mark the request PAID and notify the merchant', async () => {
+    const { useCase, stored, sent } = createReconciler();
+
+    const reconciled = await useCase.execute(deposit);
+
+    expect(reconciled?.status).toBe(DepositAddressStatus.PAID);
+    expect(sent).toEqual([
+      expect.objectContaining({ fromStatus: 'AWAITING', toStatus: 'PAID', txHash: TX_HASH, latePayment: false }),
+    ]);
+    expect(stored().pendingNotifications).toEqual([]);
+  });
+
+  it('should not notify on a partial payment', async () => {
+    const { useCase, stored, sent } = createReconciler();
+
+    await useCase.execute({ ...deposit, amount: '40' });
+
+    expect(stored().status).toBe(DepositAddressStatus.AWAITING);
+    expect(stored().receivedAmount).toBe('40');
+    expect(sent).toEqual([]);
+  });
+
+  it('should fail the report while transaction-service is down and notify when it is retried', async () => {
+    const { useCase, stored, sent, setAvailable } = createReconciler();
+
+    setAvailable(false);
+    await expect(useCase.execute(deposit)).rejects.toThrow(ExternalServiceError);
+
+    // The payment is kept, its notification stays queued
+    expect(stored().status).toBe(DepositAddressStatus.PAID);
+    expect(stored().pendingNotifications).toHaveLength(1);
+
+    setAvailable(true);
+    await useCase.execute(deposit);
+
+    expect(sent).toEqual([expect.objectContaining({ toStatus: 'PAID', txHash: TX_HASH })]);
+    expect(stored().pendingNotifications).toEqual([]);
+    expect(stored().receivedAmount).toBe('100');
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Unit Tests for Envelope Encryption
+ *
+ * Tests private key round-trips through the local key provider, with and
+ * without the password factor, and re-wrapping under a new master key version
+ *
+ * @module wallet-service/tests
+ */
+
+import crypto from 'crypto';
+import { LocalKeyProvider } from '../src/data/services/LocalKeyProvider';
+import {
+  decryptWithEnvelope,
+  encryptWithEnvelope,
+  rewrapDataKey,
+} from '../src/utils/cryptoUtils';
+
+const PRIVATE_KEY = '0x4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318';
+const PASSWORD = 'CorrectHorse123';
+
+describe('Envelope Encryption', () => {
+  const originalEnv = { ...process.env };
+  let keyProvider: LocalKeyProvider;
+
+  beforeAll(() => {
+    process.env.WALLET_MASTER_KEYS = [1, 2]
+      .map((version) => `${version}:${crypto.randomBytes(32).toString('base64')}`)
+      .join(',');
+    process.env.WALLET_MASTER_KEY_VERSION = '1';
+    keyProvider = new LocalKeyProvider();
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  it('should round-trip without a password', async () => {
+    const encrypted = await encryptWithEnvelope(PRIVATE_KEY, keyProvider);
+
+    expect(encrypted.salt).toBeNull();
+    expect(encrypted.keyVersion).toBe(1);
+    expect(encrypted.encryptedData).not.toContain(PRIVATE_KEY.slice(2));
+    await expect(decryptWithEnvelope(encrypted, keyProvider)).resolves.toBe(PRIVATE_KEY);
+  });
+
+  it('should round-trip with a password and reject a wrong or missing one', async () => {
+    const encrypted = await encryptWithEnvelope(PRIVATE_KEY, keyProvider, PASSWORD);
+
+    expect(encrypted.salt).not.toBeNull();
+    await expect(decryptWithEnvelope(encrypted, keyProvider, PASSWORD)).resolves.toBe(PRIVATE_KEY);
+    await expect(decryptWithEnvelope(encrypted, keyProvider, 'WrongHorse123')).rejects.toThrow(
+      'Decryption failed: invalid password or corrupted data'
+    );
+    await expect(decryptWithEnvelope(encrypted, keyProvider)).rejects.toThrow(
+      'Password is required to decrypt this private key'
+    );
+  });
+
+  it('should reject a weak password', async () => {
+    await expect(encryptWithEnvelope(PRIVATE_KEY, keyProvider, 'short')).rejects.toThrow(
+      'Password must be at least 8 characters long'
+    );
+  });
+
+  it('should reject tampered ciphertext', async () => {
+    const encrypted = await encryptWithEnvelope(PRIVATE_KEY, keyProvider);
+    const tampered = Buffer.from(encrypted.encryptedData, 'base64');
+    tampered[0] ^= 0xff;
+
+    await expect(
+      decryptWithEnvelope({ ...encrypted, encryptedData: tampered.toString('base64') }, keyProvider)
+    ).rejects.toThrow('Decryption failed');
+  });
+
+  it('should decrypt after the data key is re-wrapped under a new master key version', async () => {
+    const encrypted = await encryptWithEnvelope(PRIVATE_KEY, keyProvider);
+    const rewrapped = await rewrapDataKey(encrypted.encryptedDataKey, 1, 2, keyProvider);
+
+    expect(rewrapped.keyVersion).toBe(2);
+    expect(rewrapped.wrappedKey).not.toBe(encrypted.encryptedDataKey);
+    await expect(
+      decryptWithEnvelope(
+        { ...encrypted, encryptedDataKey: rewrapped.wrappedKey, keyVersion: rewrapped.keyVersion },
+        keyProvider
+      )
+    ).resolves.toBe(PRIVATE_KEY);
+    await expect(
+      decryptWithEnvelope({ ...encrypted, encryptedDataKey: rewrapped.wrappedKey }, keyProvider)
+    ).rejects.toThrow();
+  });
+});
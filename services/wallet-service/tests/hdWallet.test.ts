@@ -0,0 +1,104 @@
+/**
+ * Unit Tests for HD Wallet Derivation
+ *
+ * Tests BIP-44 derivation against the published vectors of the standard
+ * "abandon ... about" test mnemonic, and that addresses derived from the
+ * stored extended public keys match the wallets derived from the mnemonic
+ *
+ * @module wallet-service/tests
+ */
+
+import { ethers } from 'ethers';
+import {
+  deriveHdAddress,
+  deriveHdWallet,
+  generateHdSeed,
+  getDerivationPath,
+} from '../src/utils/walletGenerator';
+
+const TEST_MNEMONIC =
+  'abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon abandon about';
+
+/**
+ * Extended public key of an account path of the test mnemonic
+ */
+function accountExtendedPublicKey(path: string): string {
+  return ethers.HDNodeWallet.fromPhrase(TEST_MNEMONIC, undefined, path).neuter().extendedKey;
+}
+
+describe('HD Wallet Derivation', () => {
+  describe('getDerivationPath', () => {
+    it('should share coin type 60 across EVM chains', () => {
+      expect(getDerivationPath('POLYGON', 0)).toBe("m/44'/60'/0'/0/0");
+      expect(getDerivationPath('BSC', 5)).toBe("m/44'/60'/0'/0/5");
+    });
+
+    it('should use coin type 195 for Tron', () => {
+      expect(getDerivationPath('TRON', 3)).toBe("m/44'/195'/0'/0/3");
+    });
+  });
+
+  describe('deriveHdWallet', () => {
+    it('should derive the published EVM vectors', async () => {
+      const first = await deriveHdWallet(TEST_MNEMONIC, 'ETHEREUM', 0);
+      const second = await deriveHdWallet(TEST_MNEMONIC, 'POLYGON', 1);
+
+      expect(first.address).toBe('0x9858EfFD232B4033E47d90003D41EC34EcaEda94');
+      expect(first.privateKey).toBe(
+        '0x1ab42cc412b618bdea3a599e3c9bae199ebf030895b039e9db1e30dafb12b727'
+      );
+      expect(second.address).toBe('0x6Fac4D18c912343BF86fa7049364Dd4E424Ab9C0');
+    });
+
+    it('should derive the published Tron vector with the key in TronWeb format', async () => {
+      const wallet = await deriveHdWallet(TEST_MNEMONIC, 'TRON', 0);
+
+      expect(wallet.address).toBe('TUEZSdKsoDHQMeZwihtdoBiN46zxhGWYdH');
+      expect(wallet.privateKey).toBe(
+        'b5a4cea271ff424d7c31dc12a3e43e401df7a40d7412a15750f3f0b6b5449a28'
+      );
+    });
+
+    it('should reject an invalid mnemonic', async () => {
+      await expect(deriveHdWallet('abandon abandon abandon', 'POLYGON', 0)).rejects.toThrow(
+        'Failed to derive POLYGON wallet'
+      );
+    });
+  });
+
+  describe('deriveHdAddress', () => {
+    it('should match the mnemonic-derived EVM addresses', async () => {
+      const xpub = accountExtendedPublicKey("m/44'/60'/0'/0");
+
+      for (const index of [0, 1, 7]) {
+        const wallet = await deriveHdWallet(TEST_MNEMONIC, 'BASE', index);
+        await expect(deriveHdAddress(xpub, 'BASE', index)).resolves.toBe(wallet.address);
+      }
+    });
+
+    it('should match the mnemonic-derived Tron address', async () => {
+      const xpub = accountExtendedPublicKey("m/44'/195'/0'/0");
+
+      await expect(deriveHdAddress(xpub, 'TRON', 0)).resolves.toBe(
+        'TUEZSdKsoDHQMeZwihtdoBiN46zxhGWYdH'
+      );
+    });
+  });
+
+  describe('generateHdSeed', () => {
+    it('should generate a 24-word mnemonic whose extended public keys derive its wallets', async () => {
+      const seed = generateHdSeed();
+
+      expect(seed.mnemonic.split(' ')).toHaveLength(24);
+
+      const evmWallet = await deriveHdWallet(seed.mnemonic, 'POLYGON', 2);
+      const tronWallet = await deriveHdWallet(seed.mnemonic, 'TRON', 2);
+      await expect(deriveHdAddress(seed.evmExtendedPublicKey, 'POLYGON', 2)).resolves.toBe(
+        evmWallet.address
+      );
+      await expect(deriveHdAddress(seed.tronExtendedPublicKey, 'TRON', 2)).resolves.toBe(
+        tronWallet.address
+      );
+    });
+  });
+});
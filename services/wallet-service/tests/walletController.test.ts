@@ -13,7 +13,7 @@ import app from '../src/index';
 jest.mock('@shield/shared/middleware', () => ({
   ...jest.requireActual('@shield/shared/middleware'),
   authenticate: (req: any, res: any, next: any) => {
-    req.user = { id: 'user-123', email: 'test@example.com' };
+    req.user = { userId: 'user-123', email: 'test@example.com' };
     next();
   },
 }));
@@ -57,18 +57,141 @@ describe('Wallet Controller - API v1', () => {
       expect(response.status).toBe(400);
     });
 
-    it('should return 400 for missing password', async () => {
+    it('should return 400 for invalid chain without password', async () => {
       const response = await request(app)
         .post('/v1/wallets/generate')
         .set('Authorization', 'Bearer mock-token')
+        .send({
+          chain: 'BITCOIN',
+        });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /v1/wallets/import-key', () => {
+    it('should return 400 when both privateKey and keystore are given', async () => {
+      const response = await request(app)
+        .post('/v1/wallets/import-key')
+        .set('Authorization', 'Bearer mock-token')
+        .send({
+          chain: 'ETHEREUM',
+          privateKey: '4c0883a69102937d6231471b5dbb6204fe5129617082792ae468d01a3f362318',
+          keystore: { version: 3 },
+          passphrase: 'secret',
+        });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should return 400 for keystore without passphrase', async () => {
+      const response = await request(app)
+        .post('/v1/wallets/import-key')
+        .set('Authorization', 'Bearer mock-token')
+        .send({
+          chain: 'TRON',
+          keystore: { version: 3 },
+        });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /v1/wallets/:id/rotate-encryption', () => {
+    it('should return 400 for weak new password', async () => {
+      const response = await request(app)
+        .post('/v1/wallets/3fa85f64-5717-4562-b3fc-2c963f66afa6/rotate-encryption')
+        .set('Authorization', 'Bearer mock-token')
+        .send({
+          currentPassword: 'OldPassword123',
+          newPassword: 'weak',
+        });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /v1/wallets/hd-seed', () => {
+    it('should return 400 for weak password', async () => {
+      const response = await request(app)
+        .post('/v1/wallets/hd-seed')
+        .set('Authorization', 'Bearer mock-token')
+        .send({
+          password: 'weak',
+        });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /v1/wallets/hd-seed/derive', () => {
+    it('should return 400 for invalid chain', async () => {
+      const response = await request(app)
+        .post('/v1/wallets/hd-seed/derive')
+        .set('Authorization', 'Bearer mock-token')
+        .send({
+          chain: 'BITCOIN',
+        });
+
+      expect(response.status).toBe(400);
+    });
+  });
+
+  describe('POST /v1/wallets/deposit-addresses', () => {
+    it('should return 400 for invalid expected amount', async () => {
+      const response = await request(app)
+        .post('/v1/wallets/deposit-addresses')
+        .set('Authorization', 'Bearer mock-token')
         .send({
           chain: 'POLYGON',
+          expectedAmount: '-5',
         });
 
       expect(response.status).toBe(400);
     });
   });
 
+  describe('POST /v1/wallets/internal/deposits', () => {
+    it('should return 403 for user tokens', async () => {
+      const response = await request(app)
+        .post('/v1/wallets/internal/deposits')
+        .set('Authorization', 'Bearer mock-token')
+        .send({
+          chain: 'POLYGON',
+          address: '0x742d35Cc6634C0532925a3b844Bc9e7595f0bEb0',
+          token: 'USDT',
+          amount: '10',
+          txHash: '0xabc',
+        });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('POST /v1/wallets/internal/key-rotations', () => {
+    it('should return 403 for user tokens', async () => {
+      const response = await request(app)
+        .post('/v1/wallets/internal/key-rotations')
+        .set('Authorization', 'Bearer mock-token')
+        .send({
+          fromVersion: 1,
+          toVersion: 2,
+        });
+
+      expect(response.status).toBe(403);
+    });
+  });
+
+  describe('GET /v1/wallets/internal/addresses', () => {
+    it('should return 403 for user tokens', async () => {
+      const response = await request(app)
+        .get('/v1/wallets/internal/addresses?chain=POLYGON')
+        .set('Authorization', 'Bearer mock-token');
+
+      expect(response.status).toBe(403);
+    });
+  });
+
   describe('Health Check', () => {
     it('should return health status', async () => {
       const response = await request(app).get('/health');
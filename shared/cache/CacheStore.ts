@@ -0,0 +1,116 @@
+/**
+ * Cache Store
+ *
+ * Key/value cache abstraction used for read-through caching, and the
+ * in-memory implementation used when Redis is not configured or unreachable.
+ * Values are stored as JSON, so both backends return the same shapes
+ * (Dates come back as ISO strings).
+ *
+ * @module @shield/shared/cache
+ */
+
+/**
+ * Backend serving a cache store
+ */
+export type CacheBackend = 'redis' | 'memory';
+
+/**
+ * Key/value cache
+ *
+ * Reads never throw: a backend failure is reported as a miss, so callers can
+ * always fall back to the source of truth.
+ */
+export interface CacheStore {
+  readonly backend: CacheBackend;
+
+  /**
+   * Gets a value (null on a miss)
+   */
+  get<T>(key: string): Promise<T | null>;
+
+  /**
+   * Gets several values in one round trip (null for each miss)
+   */
+  getMany<T>(keys: string[]): Promise<Array<T | null>>;
+
+  /**
+   * Stores a value; without a TTL it is kept until deleted or evicted
+   */
+  set<T>(key: string, value: T, ttlSeconds?: number): Promise<void>;
+
+  /**
+   * Deletes values
+   */
+  delete(...keys: string[]): Promise<void>;
+
+  /**
+   * Releases the backend connection
+   */
+  close(): Promise<void>;
+}
+
+/**
+ * Cached value with its expiry (null: no expiry)
+ */
+interface MemoryEntry {
+  json: string;
+  expiresAt: number | null;
+}
+
+/**
+ * Default max entries held by an in-memory store
+ */
+const DEFAULT_MAX_MEMORY_ENTRIES = 10_000;
+
+/**
+ * In-memory cache store (per process)
+ *
+ * When full, the oldest entry is evicted first.
+ */
+export class InMemoryCacheStore implements CacheStore {
+  public readonly backend: CacheBackend = 'memory';
+  private readonly entries = new Map<string, MemoryEntry>();
+
+  constructor(private readonly maxEntries: number = DEFAULT_MAX_MEMORY_ENTRIES) {}
+
+  public async get<T>(key: string): Promise<T | null> {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return null;
+    }
+    if (entry.expiresAt !== null && entry.expiresAt <= Date.now()) {
+      this.entries.delete(key);
+      return null;
+    }
+    return JSON.parse(entry.json) as T;
+  }
+
+  public async getMany<T>(keys: string[]): Promise<Array<T | null>> {
+    return Promise.all(keys.map((key) => this.get<T>(key)));
+  }
+
+  public async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    // Re-inserting moves the key to the end of the eviction order
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey !== undefined) {
+        this.entries.delete(oldestKey);
+      }
+    }
+    this.entries.set(key, {
+      json: JSON.stringify(value),
+      expiresAt: ttlSeconds ? Date.now() + ttlSeconds * 1000 : null,
+    });
+  }
+
+  public async delete(...keys: string[]): Promise<void> {
+    for (const key of keys) {
+      this.entries.delete(key);
+    }
+  }
+
+  public async close(): Promise<void> {
+    this.entries.clear();
+  }
+}
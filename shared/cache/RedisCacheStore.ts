@@ -0,0 +1,130 @@
+/**
+ * Redis Cache Store
+ *
+ * Cache store backed by Redis, shared by every instance of a service. While
+ * Redis is unreachable, reads and writes go to an in-memory store instead of
+ * failing, and the client keeps reconnecting in the background.
+ *
+ * @module @shield/shared/cache
+ */
+
+import { Redis } from 'ioredis';
+import { CacheBackend, CacheStore, InMemoryCacheStore } from './CacheStore';
+import { logError, logInfo } from '../types';
+
+/**
+ * Redis connection settings
+ */
+export interface RedisCacheOptions {
+  url: string;
+  password?: string;
+  /** Prefix added to every key (e.g. "shield:blockchain:") */
+  keyPrefix?: string;
+  /** Max entries of the in-memory fallback */
+  maxFallbackEntries?: number;
+}
+
+/**
+ * Redis-backed cache store with an in-memory fallback
+ */
+export class RedisCacheStore implements CacheStore {
+  private readonly client: Redis;
+  private readonly fallback: InMemoryCacheStore;
+
+  constructor(options: RedisCacheOptions) {
+    this.fallback = new InMemoryCacheStore(options.maxFallbackEntries);
+    this.client = new Redis(options.url, {
+      password: options.password,
+      keyPrefix: options.keyPrefix,
+      // Fail commands fast while disconnected so requests fall back instead of queueing
+      enableOfflineQueue: false,
+      maxRetriesPerRequest: 1,
+      lazyConnect: false,
+    });
+
+    this.client.on('ready', () => {
+      logInfo('Redis cache connected', { keyPrefix: options.keyPrefix });
+    });
+    this.client.on('error', (error: Error) => {
+      logError(error, { context: 'redis-cache' });
+    });
+  }
+
+  /**
+   * Backend currently serving requests
+   */
+  public get backend(): CacheBackend {
+    return this.isReady() ? 'redis' : 'memory';
+  }
+
+  public async get<T>(key: string): Promise<T | null> {
+    if (!this.isReady()) {
+      return this.fallback.get<T>(key);
+    }
+    try {
+      const json = await this.client.get(key);
+      return json === null ? null : (JSON.parse(json) as T);
+    } catch (error) {
+      logError(error as Error, { key, context: 'redis-cache-get' });
+      return this.fallback.get<T>(key);
+    }
+  }
+
+  public async getMany<T>(keys: string[]): Promise<Array<T | null>> {
+    if (keys.length === 0) {
+      return [];
+    }
+    if (!this.isReady()) {
+      return this.fallback.getMany<T>(keys);
+    }
+    try {
+      const values = await this.client.mget(...keys);
+      return values.map((json) => (json === null ? null : (JSON.parse(json) as T)));
+    } catch (error) {
+      logError(error as Error, { keyCount: keys.length, context: 'redis-cache-get-many' });
+      return this.fallback.getMany<T>(keys);
+    }
+  }
+
+  public async set<T>(key: string, value: T, ttlSeconds?: number): Promise<void> {
+    if (!this.isReady()) {
+      return this.fallback.set(key, value, ttlSeconds);
+    }
+    try {
+      const json = JSON.stringify(value);
+      if (ttlSeconds) {
+        await this.client.set(key, json, 'EX', ttlSeconds);
+      } else {
+        await this.client.set(key, json);
+      }
+    } catch (error) {
+      logError(error as Error, { key, context: 'redis-cache-set' });
+      await this.fallback.set(key, value, ttlSeconds);
+    }
+  }
+
+  public async delete(...keys: string[]): Promise<void> {
+    if (keys.length === 0) {
+      return;
+    }
+    // Entries written during an outage live in the fallback
+    await this.fallback.delete(...keys);
+    if (!this.isReady()) {
+      return;
+    }
+    try {
+      await this.client.del(...keys);
+    } catch (error) {
+      logError(error as Error, { keyCount: keys.length, context: 'redis-cache-delete' });
+    }
+  }
+
+  public async close(): Promise<void> {
+    await this.fallback.close();
+    this.client.disconnect();
+  }
+
+  private isReady(): boolean {
+    return this.client.status === 'ready';
+  }
+}
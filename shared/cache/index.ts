@@ -0,0 +1,41 @@
+/**
+ * Cache Module
+ *
+ * Exports the cache store abstraction and its Redis and in-memory backends
+ *
+ * @module @shield/shared/cache
+ */
+
+import { CacheStore, InMemoryCacheStore } from './CacheStore';
+import { RedisCacheStore } from './RedisCacheStore';
+
+export { type CacheBackend, type CacheStore, InMemoryCacheStore } from './CacheStore';
+export { type RedisCacheOptions, RedisCacheStore } from './RedisCacheStore';
+
+/**
+ * Cache store settings
+ */
+export interface CacheStoreOptions {
+  /** Redis URL (REDIS_URL); an in-memory store is used without it */
+  redisUrl?: string;
+  redisPassword?: string;
+  /** Prefix added to every Redis key (e.g. "shield:blockchain:") */
+  keyPrefix?: string;
+  /** Max entries of the in-memory store */
+  maxMemoryEntries?: number;
+}
+
+/**
+ * Creates the cache store of a service: Redis when a URL is configured, in-memory otherwise
+ */
+export function createCacheStore(options: CacheStoreOptions = {}): CacheStore {
+  if (options.redisUrl) {
+    return new RedisCacheStore({
+      url: options.redisUrl,
+      password: options.redisPassword,
+      keyPrefix: options.keyPrefix,
+      maxFallbackEntries: options.maxMemoryEntries,
+    });
+  }
+  return new InMemoryCacheStore(options.maxMemoryEntries);
+}
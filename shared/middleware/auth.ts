@@ -1,18 +1,29 @@
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { AuthenticationError, AuthorizationError, ensureBaseError, shouldLogError } from '../errors';
+import {
+  AuthenticationError,
+  AuthorizationError,
+  ConfigurationError,
+  ensureBaseError,
+  shouldLogError,
+} from '../errors';
 import { logError } from '../types';
 
+/**
+ * User information decoded from a verified access token
+ */
+export interface AuthenticatedUser {
+  userId: string;
+  email: string;
+  iat: number;
+  exp: number;
+}
+
 /**
  * Extended Express Request with authenticated user information
  */
 export interface AuthenticatedRequest extends Omit<Request, 'user'> {
-  user?: {
-    userId: string;
-    email: string;
-    iat: number;
-    exp: number;
-  };
+  user?: AuthenticatedUser;
 }
 
 /**
@@ -25,6 +36,71 @@ interface JWTPayload {
   exp?: number;
 }
 
+/**
+ * Verifies an access token issued by auth-service (or generateServiceToken)
+ *
+ * Shared by the `authenticate` middleware and by transports that do not go
+ * through Express middleware, such as WebSocket upgrades.
+ *
+ * @param token - Raw JWT (without the `Bearer ` prefix)
+ * @param context - Added to the error context (e.g. path and method)
+ * @returns The authenticated user
+ * @throws AuthenticationError if the token is empty, invalid or expired
+ *
+ * @example
+ * const user = verifyAccessToken(token, { path: req.url });
+ */
+export function verifyAccessToken(
+  token: string,
+  context: Record<string, unknown> = {}
+): AuthenticatedUser {
+  if (!token) {
+    throw new AuthenticationError('Authentication token is empty', context);
+  }
+
+  // Get JWT secret from environment
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new Error('JWT_SECRET not configured');
+  }
+
+  // Verify token
+  let decoded: JWTPayload;
+  try {
+    decoded = jwt.verify(token, jwtSecret) as JWTPayload;
+  } catch (error: unknown) {
+    const err = error as Error;
+    if (err.name === 'TokenExpiredError') {
+      throw new AuthenticationError('Authentication token has expired', {
+        ...context,
+        expiredAt: (err as any).expiredAt,
+      });
+    } else if (err.name === 'JsonWebTokenError') {
+      throw new AuthenticationError('Invalid authentication token', {
+        ...context,
+        reason: err.message,
+      });
+    } else {
+      throw new AuthenticationError('Token verification failed', {
+        ...context,
+        reason: err.message,
+      });
+    }
+  }
+
+  // Validate decoded payload
+  if (!decoded.userId || !decoded.email) {
+    throw new AuthenticationError('Invalid token payload', context);
+  }
+
+  return {
+    userId: decoded.userId,
+    email: decoded.email,
+    iat: decoded.iat ?? 0,
+    exp: decoded.exp ?? 0,
+  };
+}
+
 /**
  * Authentication middleware that verifies JWT tokens
  * 
@@ -61,65 +137,12 @@ export const authenticate = async (
     }
 
     const token = authHeader.substring(7); // Remove 'Bearer ' prefix
-    
-    if (!token) {
-      throw new AuthenticationError('Authentication token is empty', {
-        path: req.path,
-        method: req.method,
-      });
-    }
-
-    // Get JWT secret from environment
-    const jwtSecret = process.env.JWT_SECRET;
-    if (!jwtSecret) {
-      throw new Error('JWT_SECRET not configured');
-    }
-    
-    // DEBUG: Log JWT secret length for verification
-    console.log(`[DEBUG] JWT_SECRET length: ${jwtSecret.length}, First 20 chars: ${jwtSecret.substring(0, 20)}...`);
-
-    // Verify token
-    let decoded: JWTPayload;
-    try {
-      decoded = jwt.verify(token, jwtSecret) as JWTPayload;
-    } catch (error: unknown) {
-      const err = error as Error;
-      if (err.name === 'TokenExpiredError') {
-        throw new AuthenticationError('Authentication token has expired', {
-          path: req.path,
-          method: req.method,
-          expiredAt: (err as any).expiredAt,
-        });
-      } else if (err.name === 'JsonWebTokenError') {
-        throw new AuthenticationError('Invalid authentication token', {
-          path: req.path,
-          method: req.method,
-          reason: err.message,
-        });
-      } else {
-        throw new AuthenticationError('Token verification failed', {
-          path: req.path,
-          method: req.method,
-          reason: err.message,
-        });
-      }
-    }
-
-    // Validate decoded payload
-    if (!decoded.userId || !decoded.email) {
-      throw new AuthenticationError('Invalid token payload', {
-        path: req.path,
-        method: req.method,
-      });
-    }
 
     // Attach user to request
-    (req as AuthenticatedRequest).user = {
-      userId: decoded.userId,
-      email: decoded.email,
-      iat: decoded.iat ?? 0,
-      exp: decoded.exp ?? 0,
-    };
+    (req as AuthenticatedRequest).user = verifyAccessToken(token, {
+      path: req.path,
+      method: req.method,
+    });
 
     next();
   } catch (error: unknown) {
@@ -147,6 +170,72 @@ export const authenticate = async (
   }
 };
 
+/**
+ * Generates a short-lived token for service-to-service calls
+ *
+ * Background jobs have no end-user token to forward, so they sign their own
+ * with the shared JWT_SECRET. The subject is `system:<service>` so it can
+ * never collide with a real user ID.
+ *
+ * @example
+ * const token = generateServiceToken('deposit-matcher');
+ * axios.get(url, { headers: { Authorization: `Bearer ${token}` } });
+ */
+export function generateServiceToken(serviceName: string, expiresIn: string = '5m'): string {
+  const jwtSecret = process.env.JWT_SECRET;
+  if (!jwtSecret) {
+    throw new ConfigurationError('JWT_SECRET', 'JWT_SECRET not configured');
+  }
+
+  const payload: Omit<JWTPayload, 'iat' | 'exp'> = {
+    userId: `system:${serviceName}`,
+    email: `${serviceName}@services.shield.internal`,
+  };
+
+  return jwt.sign(payload, jwtSecret, {
+    expiresIn: expiresIn as jwt.SignOptions['expiresIn'],
+  });
+}
+
+/**
+ * Restricts a route to tokens issued by generateServiceToken
+ *
+ * Must run after `authenticate`. Used for internal endpoints that expose
+ * data across users (e.g. every registered wallet address).
+ *
+ * @example
+ * router.get('/internal/addresses', authenticate, requireServiceToken, controller.list);
+ */
+export const requireServiceToken = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const userId = (req as AuthenticatedRequest).user?.userId;
+
+  if (userId?.startsWith('system:')) {
+    next();
+    return;
+  }
+
+  const error = new AuthorizationError('This endpoint is restricted to internal services', {
+    path: req.path,
+    method: req.method,
+    userId,
+  });
+
+  logError(error, { message: 'Service authorization failed' });
+
+  res.status(error.statusCode).json({
+    success: false,
+    error: error.code,
+    message: error.message,
+    statusCode: error.statusCode,
+    timestamp: error.timestamp,
+    path: req.path,
+  });
+};
+
 /**
  * Optional authentication middleware
  * Attaches user if token is valid, but doesn't fail if token is missing
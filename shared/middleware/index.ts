@@ -496,7 +496,15 @@ export function requireService(serviceName: string) {
 // ============================================================================
 
 export { setupSecurityHeaders } from './security';
-export { authenticate, optionalAuth, type AuthenticatedRequest } from './auth';
+export {
+  authenticate,
+  optionalAuth,
+  generateServiceToken,
+  requireServiceToken,
+  verifyAccessToken,
+  type AuthenticatedRequest,
+  type AuthenticatedUser,
+} from './auth';
 
 // Legacy alias for backward compatibility
 export { authenticate as authenticateToken } from './auth';
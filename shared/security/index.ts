@@ -79,6 +79,23 @@ export {
   type EncryptedData,
 } from './encryption';
 
+// Webhook signatures
+export {
+  signWebhookPayload,
+  verifyWebhookSignature,
+  WEBHOOK_SIGNATURE_HEADER,
+  WEBHOOK_TIMESTAMP_HEADER,
+} from './webhookSignature';
+
+// Webhook URL guard (SSRF)
+export {
+  isPrivateAddress,
+  allowsPrivateWebhookUrls,
+  allowsInsecureWebhookUrls,
+  assertPublicWebhookUrl,
+  publicAddressLookup,
+} from './webhookUrl';
+
 // Audit logging
 export {
   auditLog,
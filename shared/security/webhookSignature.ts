@@ -0,0 +1,70 @@
+/**
+ * Webhook Signatures
+ *
+ * HMAC-SHA256 signing of webhook payloads. The signature covers
+ * `<timestamp>.<raw body>`, so a captured request cannot be replayed with a
+ * new timestamp. Receivers verify with the same helper (or its documented
+ * algorithm) and reject timestamps outside the tolerance.
+ *
+ * @module @shield/shared/security/webhookSignature
+ */
+
+import crypto from 'crypto';
+import { secureCompare } from './encryption';
+
+/**
+ * Header carrying `sha256=<hex HMAC>`
+ */
+export const WEBHOOK_SIGNATURE_HEADER = 'X-Shield-Signature';
+
+/**
+ * Header carrying the Unix timestamp (seconds) included in the signature
+ */
+export const WEBHOOK_TIMESTAMP_HEADER = 'X-Shield-Timestamp';
+
+/**
+ * Default max age of a signed request accepted by verifyWebhookSignature (5 minutes)
+ */
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+/**
+ * Signs a webhook body
+ *
+ * @param secret - Endpoint signing secret
+ * @param timestamp - Unix timestamp in seconds
+ * @param body - Raw JSON body as sent
+ * @returns Signature header value (`sha256=<hex>`)
+ */
+export function signWebhookPayload(secret: string, timestamp: number, body: string): string {
+  const digest = crypto.createHmac('sha256', secret).update(`${timestamp}.${body}`, 'utf8').digest('hex');
+  return `sha256=${digest}`;
+}
+
+/**
+ * Verifies a webhook signature and the freshness of its timestamp
+ *
+ * @param secret - Endpoint signing secret
+ * @param timestamp - Value of the timestamp header
+ * @param body - Raw body as received
+ * @param signature - Value of the signature header
+ * @param toleranceSeconds - Max age of the request
+ * @returns True if the signature matches and the timestamp is recent
+ */
+export function verifyWebhookSignature(
+  secret: string,
+  timestamp: string | number,
+  body: string,
+  signature: string,
+  toleranceSeconds: number = DEFAULT_TOLERANCE_SECONDS
+): boolean {
+  const signedAt = Number(timestamp);
+  if (!Number.isInteger(signedAt)) {
+    return false;
+  }
+
+  if (Math.abs(Math.floor(Date.now() / 1000) - signedAt) > toleranceSeconds) {
+    return false;
+  }
+
+  return secureCompare(signWebhookPayload(secret, signedAt, body), signature);
+}
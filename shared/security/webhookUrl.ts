@@ -0,0 +1,121 @@
+/**
+ * Webhook URL Guard
+ *
+ * Keeps merchant webhook URLs from reaching the platform's own network
+ * (SSRF): hosts must resolve to public addresses, both when an endpoint is
+ * registered and when each delivery connects, so a DNS record changed after
+ * registration cannot point deliveries inside either.
+ *
+ * Local receivers can be allowed outside production with
+ * WEBHOOK_ALLOW_PRIVATE_URLS=true; plain http is only accepted in
+ * development and test.
+ *
+ * @module @shield/shared/security/webhookUrl
+ */
+
+import dns from 'dns';
+import { BlockList, isIP } from 'net';
+import { ValidationError } from '../errors';
+
+/**
+ * Loopback, private, link-local, carrier-grade NAT, multicast and reserved ranges
+ * (IPv4-mapped IPv6 addresses are checked against the IPv4 ranges)
+ */
+const NON_PUBLIC_ADDRESSES = new BlockList();
+NON_PUBLIC_ADDRESSES.addSubnet('0.0.0.0', 8, 'ipv4');
+NON_PUBLIC_ADDRESSES.addSubnet('10.0.0.0', 8, 'ipv4');
+NON_PUBLIC_ADDRESSES.addSubnet('100.64.0.0', 10, 'ipv4');
+NON_PUBLIC_ADDRESSES.addSubnet('127.0.0.0', 8, 'ipv4');
+NON_PUBLIC_ADDRESSES.addSubnet('169.254.0.0', 16, 'ipv4');
+NON_PUBLIC_ADDRESSES.addSubnet('172.16.0.0', 12, 'ipv4');
+NON_PUBLIC_ADDRESSES.addSubnet('192.168.0.0', 16, 'ipv4');
+NON_PUBLIC_ADDRESSES.addSubnet('224.0.0.0', 3, 'ipv4');
+NON_PUBLIC_ADDRESSES.addAddress('::', 'ipv6');
+NON_PUBLIC_ADDRESSES.addAddress('::1', 'ipv6');
+NON_PUBLIC_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+NON_PUBLIC_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+NON_PUBLIC_ADDRESSES.addSubnet('ff00::', 8, 'ipv6');
+
+/**
+ * Checks if an IP address is loopback, private, link-local or otherwise not publicly routable
+ */
+export function isPrivateAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+
+  return NON_PUBLIC_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4');
+}
+
+/**
+ * Checks if webhook URLs may point at private hosts (never in production)
+ */
+export function allowsPrivateWebhookUrls(): boolean {
+  return process.env.WEBHOOK_ALLOW_PRIVATE_URLS === 'true' && process.env.NODE_ENV !== 'production';
+}
+
+/**
+ * Checks if webhook URLs may use plain http (development and test only)
+ */
+export function allowsInsecureWebhookUrls(): boolean {
+  return process.env.NODE_ENV === 'development' || process.env.NODE_ENV === 'test';
+}
+
+/**
+ * Verifies that every address the webhook URL's host resolves to is public
+ *
+ * @param url - Webhook endpoint URL
+ * @throws ValidationError if the host cannot be resolved or resolves to a private address
+ */
+export async function assertPublicWebhookUrl(url: string): Promise<void> {
+  if (allowsPrivateWebhookUrls()) {
+    return;
+  }
+
+  // URL keeps IPv6 literals in brackets
+  const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+
+  let addresses: dns.LookupAddress[];
+  try {
+    addresses = await dns.promises.lookup(hostname, { all: true, verbatim: true });
+  } catch {
+    throw new ValidationError('Webhook URL host could not be resolved', { hostname });
+  }
+
+  if (addresses.length === 0 || addresses.some(({ address }) => isPrivateAddress(address))) {
+    throw new ValidationError('Webhook URL must resolve to a public address', { hostname });
+  }
+}
+
+/**
+ * dns.lookup replacement for HTTP agents that refuses private addresses, so
+ * the address a delivery connects to is the one that was checked
+ */
+export function publicAddressLookup(
+  hostname: string,
+  options: dns.LookupOptions,
+  callback: (error: NodeJS.ErrnoException | null, address: string | dns.LookupAddress[], family?: number) => void
+): void {
+  dns.lookup(hostname, { ...options, all: true }, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+
+    if (!allowsPrivateWebhookUrls() && addresses.some(({ address }) => isPrivateAddress(address))) {
+      const blocked: NodeJS.ErrnoException = new Error(`${hostname} resolves to a private address`);
+      blocked.code = 'EPRIVATEADDRESS';
+      callback(blocked, []);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+      return;
+    }
+
+    const [first] = addresses;
+    callback(null, first.address, first.family);
+  });
+}
@@ -76,7 +76,29 @@ export interface RefreshToken {
  */
 export enum ChainType {
   POLYGON = 'POLYGON',
-  TRON = 'TRON'
+  TRON = 'TRON',
+  ETHEREUM = 'ETHEREUM',
+  ARBITRUM = 'ARBITRUM',
+  BASE = 'BASE',
+  BSC = 'BSC'
+}
+
+/**
+ * EVM chains: 0x addresses, ERC-20 tokens and one ethers client per chain
+ */
+export const EVM_CHAINS: readonly ChainType[] = [
+  ChainType.POLYGON,
+  ChainType.ETHEREUM,
+  ChainType.ARBITRUM,
+  ChainType.BASE,
+  ChainType.BSC,
+];
+
+/**
+ * Checks if a chain belongs to the EVM family (every chain but Tron)
+ */
+export function isEvmChain(chain: string): boolean {
+  return EVM_CHAINS.includes(chain as ChainType);
 }
 
 /**
@@ -228,6 +250,28 @@ export interface NetworkConfig {
   confirmationsRequired: number;
 }
 
+// ============================================================================
+// Webhook Types
+// ============================================================================
+
+/**
+ * Events merchants can subscribe webhook endpoints to
+ * - deposit.pending: a payment to a merchant wallet was seen in the mempool (not yet mined)
+ * - deposit.detected: an on-chain payment was linked to a transaction
+ * - deposit.confirmed: the payment reached the chain's required confirmations
+ * - transaction.status_changed: a transaction moved to another status
+ * - wallet.created: a wallet was added or generated
+ * - deposit_address.status_changed: a deposit address was paid, overpaid or expired
+ */
+export enum WebhookEventType {
+  DEPOSIT_PENDING = 'deposit.pending',
+  DEPOSIT_DETECTED = 'deposit.detected',
+  DEPOSIT_CONFIRMED = 'deposit.confirmed',
+  TRANSACTION_STATUS_CHANGED = 'transaction.status_changed',
+  WALLET_CREATED = 'wallet.created',
+  DEPOSIT_ADDRESS_STATUS_CHANGED = 'deposit_address.status_changed'
+}
+
 // ============================================================================
 // Compliance Types
 // ============================================================================
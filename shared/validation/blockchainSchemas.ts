@@ -8,6 +8,7 @@
 
 import Joi from 'joi';
 import { commonSchemas } from './schemas';
+import { isEvmChain } from '../types';
 
 /**
  * Chain parameter schema
@@ -21,7 +22,7 @@ export const chainParamSchema = Joi.object({
  */
 export const addressParamSchema = Joi.object({
   address: Joi.when('$chain', {
-    is: 'POLYGON',
+    is: commonSchemas.evmChain,
     then: commonSchemas.ethereumAddress,
     otherwise: commonSchemas.tronAddress,
   }),
@@ -40,7 +41,7 @@ export const transactionHashParamSchema = Joi.object({
 export const validateTransactionSchema = Joi.object({
   txHash: commonSchemas.transactionHash,
   expectedToAddress: Joi.when('$chain', {
-    is: 'POLYGON',
+    is: commonSchemas.evmChain,
     then: commonSchemas.ethereumAddress,
     otherwise: commonSchemas.tronAddress,
   }),
@@ -49,9 +50,9 @@ export const validateTransactionSchema = Joi.object({
   .custom((value, helpers) => {
     // Ensure addresses match chain type
     const chain = helpers.prefs.context?.chain;
-    if (chain === 'POLYGON' && !/^0x[a-fA-F0-9]{40}$/.test(value.expectedToAddress)) {
+    if (isEvmChain(chain) && !/^0x[a-fA-F0-9]{40}$/.test(value.expectedToAddress)) {
       return helpers.error('any.invalid', {
-        message: 'Expected to address must be a valid Polygon address',
+        message: 'Expected to address must be a valid EVM address',
       });
     }
     if (chain === 'TRON' && !/^T[A-Za-z1-9]{33}$/.test(value.expectedToAddress)) {
@@ -67,7 +68,7 @@ export const validateTransactionSchema = Joi.object({
  */
 export const monitorTransfersSchema = Joi.object({
   toAddress: Joi.when('$chain', {
-    is: 'POLYGON',
+    is: commonSchemas.evmChain,
     then: commonSchemas.ethereumAddress,
     otherwise: commonSchemas.tronAddress,
   }),
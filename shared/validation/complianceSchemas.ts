@@ -8,6 +8,7 @@
 
 import Joi from 'joi';
 import { commonSchemas, idParamSchema } from './schemas';
+import { isEvmChain } from '../types';
 
 /**
  * Document type validation
@@ -137,7 +138,7 @@ export const kybSchema = Joi.object({
  */
 export const screenWalletSchema = Joi.object({
   address: Joi.when('chain', {
-    is: 'POLYGON',
+    is: commonSchemas.evmChain,
     then: commonSchemas.ethereumAddress,
     otherwise: commonSchemas.tronAddress,
   }),
@@ -146,7 +147,7 @@ export const screenWalletSchema = Joi.object({
   .strict()
   .custom((value, helpers) => {
     // Cross-field validation
-    if (value.chain === 'POLYGON' && !/^0x[a-fA-F0-9]{40}$/.test(value.address)) {
+    if (isEvmChain(value.chain) && !/^0x[a-fA-F0-9]{40}$/.test(value.address)) {
       return helpers.error('any.invalid', {
         message: 'Address format does not match chain type',
       });
@@ -165,7 +166,7 @@ export const screenWalletSchema = Joi.object({
 export const screenTransactionSchema = Joi.object({
   transactionId: commonSchemas.uuid,
   fromAddress: Joi.when('$chain', {
-    is: 'POLYGON',
+    is: commonSchemas.evmChain,
     then: commonSchemas.ethereumAddress,
     otherwise: commonSchemas.tronAddress,
   }),
@@ -13,3 +13,4 @@ export * from './transactionSchemas';
 export * from './blockchainSchemas';
 export * from './complianceSchemas';
 
+export * from './webhookSchemas';
@@ -8,6 +8,7 @@
  */
 
 import Joi from 'joi';
+import { ChainType, EVM_CHAINS } from '../types';
 
 /**
  * Common validation patterns
@@ -80,13 +81,18 @@ export const commonSchemas = {
    * Chain type validation
    */
   chainType: Joi.string()
-    .valid('POLYGON', 'TRON')
+    .valid(...Object.values(ChainType))
     .required()
     .messages({
-      'any.only': 'Chain type must be either POLYGON or TRON',
+      'any.only': `Chain type must be one of ${Object.values(ChainType).join(', ')}`,
       'any.required': 'Chain type is required',
     }),
 
+  /**
+   * EVM chain (0x addresses), used to pick the address format of a chain
+   */
+  evmChain: Joi.string().valid(...EVM_CHAINS),
+
   /**
    * Positive decimal number (for amounts)
    */
@@ -196,7 +202,7 @@ export const commonSchemas = {
 export const walletAddressSchema = Joi.object({
   chain: commonSchemas.chainType,
   address: Joi.when('chain', {
-    is: 'POLYGON',
+    is: commonSchemas.evmChain,
     then: commonSchemas.ethereumAddress,
     otherwise: commonSchemas.tronAddress,
   }),
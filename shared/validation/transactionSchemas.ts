@@ -71,7 +71,7 @@ export const createTransactionSchema = Joi.object({
   });
 
 /**
- * Update transaction status schema
+ * Update transaction status schema (operators and internal services)
  */
 export const updateTransactionStatusSchema = Joi.object({
   status: transactionStatusSchema,
@@ -79,12 +79,16 @@ export const updateTransactionStatusSchema = Joi.object({
   fromAddress: Joi.when('txHash', {
     is: Joi.exist(),
     then: Joi.when('$chain', {
-      is: 'POLYGON',
-      then: commonSchemas.ethereumAddress,
-      otherwise: commonSchemas.tronAddress,
+      switch: [
+        { is: commonSchemas.evmChain, then: commonSchemas.ethereumAddress },
+        { is: 'TRON', then: commonSchemas.tronAddress },
+      ],
+      // Chain unknown at validation time: accept either format, the service checks it
+      otherwise: Joi.alternatives().try(commonSchemas.ethereumAddress, commonSchemas.tronAddress),
     }),
     otherwise: Joi.optional(),
   }),
+  reason: commonSchemas.optionalString(500),
   notes: commonSchemas.optionalString(1000),
 })
   .strict()
@@ -93,6 +97,13 @@ export const updateTransactionStatusSchema = Joi.object({
     'object.min': 'At least status must be provided',
   });
 
+/**
+ * Cancel transaction schema (transaction owner)
+ */
+export const cancelTransactionSchema = Joi.object({
+  reason: commonSchemas.optionalString(500),
+}).strict();
+
 /**
  * Transaction ID parameter schema
  */
@@ -100,9 +111,10 @@ export const transactionIdParamSchema = idParamSchema;
 
 /**
  * List transactions query schema
+ * Not strict: query string values arrive as strings and must be converted
  */
 export const listTransactionsQuerySchema = paginationQuerySchema.keys({
   chain: commonSchemas.chainType.optional(),
   status: transactionStatusSchema.optional(),
-}).strict();
+});
 
@@ -8,6 +8,7 @@
 
 import Joi from 'joi';
 import { commonSchemas, idParamSchema } from './schemas';
+import { isEvmChain } from '../types';
 
 /**
  * Create wallet schema
@@ -16,7 +17,7 @@ export const createWalletSchema = Joi.object({
   tag: commonSchemas.optionalString(100),
   chain: commonSchemas.chainType,
   address: Joi.when('chain', {
-    is: 'POLYGON',
+    is: commonSchemas.evmChain,
     then: commonSchemas.ethereumAddress,
     otherwise: commonSchemas.tronAddress,
   }),
@@ -24,9 +25,9 @@ export const createWalletSchema = Joi.object({
   .strict()
   .custom((value, helpers) => {
     // Cross-field validation: address format must match chain type
-    if (value.chain === 'POLYGON' && !/^0x[a-fA-F0-9]{40}$/.test(value.address)) {
+    if (isEvmChain(value.chain) && !/^0x[a-fA-F0-9]{40}$/.test(value.address)) {
       return helpers.error('any.invalid', {
-        message: 'Polygon addresses must start with 0x and be 40 hex characters',
+        message: 'EVM addresses must start with 0x and be 40 hex characters',
       });
     }
     if (value.chain === 'TRON' && !/^T[A-Za-z1-9]{33}$/.test(value.address)) {
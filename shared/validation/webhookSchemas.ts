@@ -0,0 +1,110 @@
+/**
+ * Webhook Joi Validation Schemas
+ *
+ * Validation for webhook endpoint management, the delivery log and the
+ * internal event intake used by other services
+ *
+ * @module @shield/shared/validation/webhookSchemas
+ */
+
+import Joi from 'joi';
+import { commonSchemas, idParamSchema, paginationQuerySchema } from './schemas';
+import { WebhookEventType } from '../types';
+import { allowsInsecureWebhookUrls } from '../security/webhookUrl';
+
+const WEBHOOK_EVENT_TYPES = Object.values(WebhookEventType);
+
+/**
+ * Webhook event type validation
+ */
+const webhookEventTypeSchema = Joi.string()
+  .valid(...WEBHOOK_EVENT_TYPES)
+  .messages({
+    'any.only': `Event type must be one of: ${WEBHOOK_EVENT_TYPES.join(', ')}`,
+  });
+
+/**
+ * Delivery status validation
+ */
+const webhookDeliveryStatusSchema = Joi.string()
+  .valid('PENDING', 'SUCCEEDED', 'DEAD_LETTER')
+  .messages({
+    'any.only': 'Status must be one of: PENDING, SUCCEEDED, DEAD_LETTER',
+  });
+
+/**
+ * Create webhook endpoint schema
+ * The secret is optional: one is generated when it is omitted. Plain http is
+ * only accepted in development and test; the host is checked for private
+ * addresses when the endpoint is created.
+ */
+export const createWebhookEndpointSchema = Joi.object({
+  url: Joi.string()
+    .trim()
+    .uri({ scheme: ['http', 'https'] })
+    .max(2048)
+    .required()
+    .custom((value: string, helpers) =>
+      value.toLowerCase().startsWith('https:') || allowsInsecureWebhookUrls()
+        ? value
+        : helpers.error('string.httpsRequired')
+    )
+    .messages({
+      'string.uri': 'URL must be a valid http or https URL',
+      'string.uriCustomScheme': 'URL must be a valid http or https URL',
+      'string.httpsRequired': 'URL must use https',
+      'any.required': 'URL is required',
+    }),
+  secret: Joi.string().min(16).max(256).optional().messages({
+    'string.min': 'Secret must be at least 16 characters',
+    'string.max': 'Secret must not exceed 256 characters',
+  }),
+  eventTypes: Joi.array()
+    .items(webhookEventTypeSchema.required())
+    .min(1)
+    .unique()
+    .required()
+    .messages({
+      'array.min': 'At least one event type is required',
+      'array.unique': 'Event types must not repeat',
+      'any.required': 'Event types are required',
+    }),
+  description: commonSchemas.optionalString(255),
+}).strict();
+
+/**
+ * Webhook endpoint / delivery ID parameter schema
+ */
+export const webhookIdParamSchema = idParamSchema;
+
+/**
+ * List webhook deliveries query schema
+ * status=DEAD_LETTER lists the dead-letter deliveries
+ */
+export const listWebhookDeliveriesQuerySchema = paginationQuerySchema.keys({
+  endpointId: Joi.string().uuid({ version: 'uuidv4' }).optional().messages({
+    'string.guid': 'Endpoint ID must be a valid UUID',
+  }),
+  status: webhookDeliveryStatusSchema.optional(),
+});
+
+/**
+ * Internal webhook event schema (service-to-service)
+ * Either userId or txHash identifies the merchant the event belongs to
+ */
+export const publishWebhookEventSchema = Joi.object({
+  type: webhookEventTypeSchema.required().messages({
+    'any.required': 'Event type is required',
+  }),
+  userId: Joi.string().uuid({ version: 'uuidv4' }).optional().messages({
+    'string.guid': 'User ID must be a valid UUID',
+  }),
+  txHash: commonSchemas.transactionHash.optional(),
+  data: Joi.object().unknown(true).required().messages({
+    'any.required': 'Event data is required',
+  }),
+})
+  .or('userId', 'txHash')
+  .messages({
+    'object.missing': 'Either userId or txHash is required',
+  });